@@ -5,22 +5,31 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { lazy, Suspense } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { isScanApiError } from "@/lib/scan-transport";
 
 // Lazy load all pages for faster initial load
 const Dashboard = lazy(() => import("./pages/Dashboard"));
 const Transactions = lazy(() => import("./pages/Transactions"));
 const Validators = lazy(() => import("./pages/Validators"));
+const ValidatorScoreboard = lazy(() => import("./pages/ValidatorScoreboard"));
+const FeaturedAppAnalytics = lazy(() => import("./pages/FeaturedAppAnalytics"));
+const ValidatorDetail = lazy(() => import("./pages/ValidatorDetail"));
 const RoundStats = lazy(() => import("./pages/RoundStats"));
 const ANS = lazy(() => import("./pages/ANS"));
 const Stats = lazy(() => import("./pages/Stats"));
 const Apps = lazy(() => import("./pages/Apps"));
 const Governance = lazy(() => import("./pages/Governance"));
+const GovernanceProposal = lazy(() => import("./pages/GovernanceProposal"));
+const PriceVotes = lazy(() => import("./pages/PriceVotes"));
+const IssuanceSimulator = lazy(() => import("./pages/IssuanceSimulator"));
 const Supply = lazy(() => import("./pages/Supply"));
 const UnclaimedSVRewards = lazy(() => import("./pages/UnclaimedSVRewards"));
 const Admin = lazy(() => import("./pages/Admin"));
 const SnapshotProgress = lazy(() => import("./pages/SnapshotProgress"));
 const Transfers = lazy(() => import("./pages/Transfers"));
+const TransferFlows = lazy(() => import("./pages/TransferFlows"));
 const RichList = lazy(() => import("./pages/RichList"));
+const UnlockSchedule = lazy(() => import("./pages/UnlockSchedule"));
 const Templates = lazy(() => import("./pages/Templates"));
 const TemplateAudit = lazy(() => import("./pages/TemplateAudit"));
 const MemberTraffic = lazy(() => import("./pages/MemberTraffic"));
@@ -35,6 +44,8 @@ const TransferCounters = lazy(() => import("./pages/TransferCounters"));
 const ExternalPartyRules = lazy(() => import("./pages/ExternalPartyRules"));
 const AmuletRules = lazy(() => import("./pages/AmuletRules"));
 const TwitterMetrics = lazy(() => import("./pages/TwitterMetrics"));
+const Party = lazy(() => import("./pages/Party"));
+const ContractLifecycle = lazy(() => import("./pages/ContractLifecycle"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const PageLoader = () => (
@@ -47,7 +58,8 @@ const PageLoader = () => (
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
-      retry: 2,
+      // Scan API calls already retry with backoff in the transport layer
+      retry: (failureCount, error) => !isScanApiError(error) && failureCount < 2,
       retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 3000),
       staleTime: 5 * 60_000, // 5 minutes
       gcTime: 10 * 60_000, // 10 minutes
@@ -68,13 +80,24 @@ const App = () => (
             <Route path="/" element={<Dashboard />} />
             <Route path="/transactions" element={<Transactions />} />
             <Route path="/transfers" element={<Transfers />} />
+            <Route path="/transfer-flows" element={<TransferFlows />} />
             <Route path="/rich-list" element={<RichList />} />
+            <Route path="/unlock-schedule" element={<UnlockSchedule />} />
+            <Route path="/party/:partyId" element={<Party />} />
+            <Route path="/contract" element={<ContractLifecycle />} />
+            <Route path="/contract/:contractId" element={<ContractLifecycle />} />
             <Route path="/validators" element={<Validators />} />
+            <Route path="/validators/:validatorId" element={<ValidatorDetail />} />
+            <Route path="/validator-scoreboard" element={<ValidatorScoreboard />} />
             <Route path="/round-stats" element={<RoundStats />} />
             <Route path="/ans" element={<ANS />} />
             <Route path="/stats" element={<Stats />} />
             <Route path="/apps" element={<Apps />} />
+            <Route path="/app-analytics" element={<FeaturedAppAnalytics />} />
             <Route path="/governance" element={<Governance />} />
+            <Route path="/governance/proposals/:proposalId" element={<GovernanceProposal />} />
+            <Route path="/price-votes" element={<PriceVotes />} />
+            <Route path="/issuance" element={<IssuanceSimulator />} />
             <Route path="/supply" element={<Supply />} />
             <Route path="/unclaimed-sv-rewards" element={<UnclaimedSVRewards />} />
             <Route path="/admin" element={<Admin />} />
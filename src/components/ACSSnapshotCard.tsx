@@ -1,7 +1,8 @@
 import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Coins, Lock, TrendingUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Coins, Lock, TrendingUp, ShieldCheck, ShieldAlert } from "lucide-react";
 
 export const ACSSnapshotCard = () => {
   const { data: snapshot, isPending } = useLatestACSSnapshot();
@@ -32,6 +33,7 @@ export const ACSSnapshotCard = () => {
   const amuletTotal = snapshot.amulet_total;
   const lockedTotal = snapshot.locked_total;
   const circulatingSupply = snapshot.circulating_supply;
+  const verification = snapshot.verification;
 
   return (
     <div className="space-y-4">
@@ -42,6 +44,28 @@ export const ACSSnapshotCard = () => {
             Latest: {new Date(snapshot.timestamp).toLocaleString()}
           </p>
         </div>
+        <div className="flex items-center gap-2">
+          {snapshot.processing_mode && (
+            <Badge variant="outline" className="capitalize">
+              {snapshot.processing_mode}
+            </Badge>
+          )}
+          {verification && !verification.skipped && (
+            <Badge
+              variant={verification.ok ? "secondary" : "destructive"}
+              title={`Checked against ${verification.delta_events ?? 0} ledger events since the previous snapshot`}
+            >
+              {verification.ok ? (
+                <ShieldCheck className="h-3 w-3 mr-1" />
+              ) : (
+                <ShieldAlert className="h-3 w-3 mr-1" />
+              )}
+              {verification.ok
+                ? "Deltas verified"
+                : `${verification.mismatches?.length ?? 0} templates differ from deltas`}
+            </Badge>
+          )}
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -0,0 +1,279 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronRight, History, GitCompare, Search } from "lucide-react";
+import { searchRoutes } from "@/lib/search-index";
+import {
+  changeForRound,
+  diffConfigs,
+  formatConfigValue,
+  sectionOf,
+  sectionsOf,
+  type ConfigDiffEntry,
+} from "@/lib/amulet-config-timeline";
+import { proposalRoute } from "@/hooks/use-governance-history";
+import { useAmuletConfigForRound, useAmuletConfigTimeline, type TimelineEntry } from "@/hooks/use-amulet-config-timeline";
+
+const parseRound = (value: string) => (/^\d+$/.test(value.trim()) ? Number(value.trim()) : null);
+
+const DiffTable = ({ diff }: { diff: ConfigDiffEntry[] }) =>
+  diff.length === 0 ? (
+    <p className="text-sm text-muted-foreground">No differences</p>
+  ) : (
+    <div className="overflow-x-auto rounded-lg border border-border/50">
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-muted/30">
+            <TableHead>Section</TableHead>
+            <TableHead>Field</TableHead>
+            <TableHead>Before</TableHead>
+            <TableHead>After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {diff.map((d) => (
+            <TableRow key={d.path}>
+              <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{sectionOf(d.path)}</TableCell>
+              <TableCell className="font-mono text-xs break-all">{d.path}</TableCell>
+              <TableCell className="font-mono text-xs text-destructive break-all">{formatConfigValue(d.before)}</TableCell>
+              <TableCell className="font-mono text-xs text-success break-all">{formatConfigValue(d.after)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+const EntrySource = ({ entry }: { entry: TimelineEntry }) => (
+  <div className="flex flex-wrap items-center gap-2 text-xs">
+    {entry.scheduled && <Badge variant="secondary">scheduled config took effect</Badge>}
+    {entry.proposal ? (
+      <Link to={proposalRoute(entry.proposal.proposal_id)} className="text-primary hover:underline">
+        {entry.proposal.action_tag.replace(/_/g, " ")}
+      </Link>
+    ) : (
+      <span className="text-muted-foreground">No governance proposal found</span>
+    )}
+    {entry.choice && <Badge variant="outline">{entry.choice}</Badge>}
+    <Link to={searchRoutes.update(entry.updateId)} className="font-mono text-muted-foreground hover:text-primary">
+      {entry.updateId.slice(0, 16)}...
+    </Link>
+  </div>
+);
+
+interface AmuletConfigTimelineProps {
+  /** Prefills the round lookup, e.g. from `?round=` */
+  initialRound?: number | null;
+}
+
+export const AmuletConfigTimeline = ({ initialRound = null }: AmuletConfigTimelineProps) => {
+  const { data, isLoading, error } = useAmuletConfigTimeline();
+  const entries = useMemo(() => data?.entries ?? [], [data]);
+
+  const [lookupInput, setLookupInput] = useState(initialRound != null ? String(initialRound) : "");
+  const [lookupRound, setLookupRound] = useState<number | null>(initialRound);
+  const [fromInput, setFromInput] = useState("");
+  const [toInput, setToInput] = useState("");
+
+  const lookupEntry = lookupRound !== null ? changeForRound(entries, lookupRound) : null;
+  const scanFees = useAmuletConfigForRound(lookupRound);
+
+  const fromRound = parseRound(fromInput);
+  const toRound = parseRound(toInput);
+  const fromEntry = fromRound !== null ? changeForRound(entries, fromRound) : null;
+  const toEntry = toRound !== null ? changeForRound(entries, toRound) : null;
+  const compareDiff = fromEntry && toEntry ? diffConfigs(fromEntry.config, toEntry.config) : null;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Configuration Timeline
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Every change to the AmuletRules config in the ingested ledger history, with the first round opened under
+            it and the governance action that made it
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>Failed to load the config history: {(error as Error).message}</AlertDescription>
+            </Alert>
+          )}
+          {isLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No AmuletRules versions in the ingested history yet.</p>
+          ) : (
+            [...entries].reverse().map((entry) => (
+              <Collapsible key={`${entry.contractId}:${entry.effectiveAt}`}>
+                <div className="p-4 rounded-lg bg-muted/30 border border-border/50 space-y-2">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold">{new Date(entry.effectiveAt).toLocaleString()}</span>
+                      <Badge variant="outline">
+                        {entry.fromRound !== null ? `from round ${entry.fromRound}` : "no round opened yet"}
+                      </Badge>
+                      {entry.diff.length === 0 ? (
+                        <Badge variant="secondary">earliest known config</Badge>
+                      ) : (
+                        sectionsOf(entry.diff).map((s) => (
+                          <Badge key={s} variant="secondary">
+                            {s}
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                    <EntrySource entry={entry} />
+                  </div>
+                  {entry.diff.length > 0 && (
+                    <>
+                      <CollapsibleTrigger asChild>
+                        <Button variant="ghost" size="sm" className="group flex items-center gap-2">
+                          <ChevronRight className="h-4 w-4 group-data-[state=open]:hidden" />
+                          <ChevronDown className="h-4 w-4 hidden group-data-[state=open]:block" />
+                          {entry.diff.length} changed field(s)
+                        </Button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent>
+                        <DiffTable diff={entry.diff} />
+                      </CollapsibleContent>
+                    </>
+                  )}
+                </div>
+              </Collapsible>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            Fees for a Round
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            The fee schedule a transfer paid, by the round it was made in
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setLookupRound(parseRound(lookupInput));
+            }}
+          >
+            <Input
+              placeholder="Round number"
+              value={lookupInput}
+              onChange={(e) => setLookupInput(e.target.value)}
+              className="max-w-xs font-mono"
+            />
+            <Button type="submit" variant="outline">
+              Look up
+            </Button>
+          </form>
+
+          {lookupRound !== null && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Config in force</p>
+                {lookupEntry ? (
+                  <div className="text-sm space-y-1">
+                    <p>
+                      Since {new Date(lookupEntry.effectiveAt).toLocaleString()} (round {lookupEntry.fromRound})
+                    </p>
+                    <EntrySource entry={lookupEntry} />
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Round {lookupRound} predates the ingested config history.
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Fees reported by Scan</p>
+                {scanFees.isLoading ? (
+                  <Skeleton className="h-24 w-full" />
+                ) : scanFees.error ? (
+                  <p className="text-sm text-destructive">{(scanFees.error as Error).message}</p>
+                ) : scanFees.data ? (
+                  <Table>
+                    <TableBody>
+                      <TableRow>
+                        <TableCell>Create fee</TableCell>
+                        <TableCell className="text-right font-mono">${scanFees.data.amulet_create_fee}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>Holding fee (per round)</TableCell>
+                        <TableCell className="text-right font-mono">${scanFees.data.holding_fee}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>Lock holder fee</TableCell>
+                        <TableCell className="text-right font-mono">${scanFees.data.lock_holder_fee}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>Transfer fee (initial rate)</TableCell>
+                        <TableCell className="text-right font-mono">{scanFees.data.transfer_fee.initial}</TableCell>
+                      </TableRow>
+                      {scanFees.data.transfer_fee.steps.map((step, i) => (
+                        <TableRow key={i}>
+                          <TableCell>Above ${step.amount}</TableCell>
+                          <TableCell className="text-right font-mono">{step.rate}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : null}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Compare Rounds
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2 items-center">
+            <Input
+              placeholder="From round"
+              value={fromInput}
+              onChange={(e) => setFromInput(e.target.value)}
+              className="max-w-[160px] font-mono"
+            />
+            <span className="text-muted-foreground">→</span>
+            <Input
+              placeholder="To round"
+              value={toInput}
+              onChange={(e) => setToInput(e.target.value)}
+              className="max-w-[160px] font-mono"
+            />
+          </div>
+          {fromRound !== null && toRound !== null && (!fromEntry || !toEntry) && (
+            <p className="text-sm text-muted-foreground">
+              {!fromEntry ? `Round ${fromRound}` : `Round ${toRound}`} predates the ingested config history.
+            </p>
+          )}
+          {compareDiff && <DiffTable diff={compareDiff} />}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import { Button } from "@/components/ui/button";
+import type { BalanceMode } from "@/lib/amulet-balance";
+
+const MODES: Array<{ mode: BalanceMode; label: string; title: string }> = [
+  { mode: "effective", label: "Effective", title: "Initial amounts less the holding fee accrued since creation" },
+  { mode: "nominal", label: "Nominal", title: "Initial amounts as recorded on the contracts" },
+];
+
+interface BalanceModeToggleProps {
+  mode: BalanceMode;
+  onChange: (mode: BalanceMode) => void;
+}
+
+export const BalanceModeToggle = ({ mode, onChange }: BalanceModeToggleProps) => (
+  <div className="flex gap-1">
+    {MODES.map((m) => (
+      <Button
+        key={m.mode}
+        size="sm"
+        variant={mode === m.mode ? "default" : "outline"}
+        title={m.title}
+        onClick={() => onChange(m.mode)}
+      >
+        {m.label}
+      </Button>
+    ))}
+  </div>
+);
@@ -4,6 +4,7 @@ import { Card } from "@/components/ui/card";
 import { Flame, Coins, TrendingUp, TrendingDown } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useBurnStats } from "@/hooks/use-burn-stats";
+import { useRoundTotalsConsistency } from "@/hooks/use-scan-consistency";
 
 export const BurnMintStats = () => {
   const { data: latestRound, isPending: latestPending } = useQuery({
@@ -41,6 +42,11 @@ export const BurnMintStats = () => {
     staleTime: 60_000,
   });
 
+  // The latest round's totals as other SVs' scans report them
+  const { data: roundQuorum } = useRoundTotalsConsistency(latestRound?.round);
+  const scansDisagree =
+    !!roundQuorum && !roundQuorum.consistent && roundQuorum.agreeing.length + roundQuorum.disagreeing.length >= 2;
+
   // 📊 Compute values
   let dailyMintAmount = 0;
   if (last24hTotals?.entries?.length) {
@@ -145,6 +151,16 @@ export const BurnMintStats = () => {
             <p className="text-xs text-muted-foreground">
               Total CC issued (net since round 0)
             </p>
+            {scansDisagree && (
+              <p
+                className="text-xs text-warning mt-1"
+                title={roundQuorum.disagreeing.map((s) => s.svName).join(", ")}
+              >
+                {roundQuorum.disagreeing.length} of{" "}
+                {roundQuorum.agreeing.length + roundQuorum.disagreeing.length} SV scans disagree on round{" "}
+                {latestRound?.round.toLocaleString()}
+              </p>
+            )}
           </>
         )}
       </Card>
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Link2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { proposalRoute, useGovernanceProposal, type GovernanceProposal } from "@/hooks/use-governance-history";
+import {
+  compareSvVotes,
+  finalBallots,
+  linkedProposalId,
+  MISMATCH_RESULTS,
+  resolveCipLink,
+  type CipRecord,
+  type OffchainSvVote,
+  type VoteComparison,
+} from "@/lib/cip-onchain";
+
+// Select values cannot be empty strings
+const AUTO = "__auto__";
+const NO_VOTE = "__none__";
+const UNMAPPED = "__unmapped__";
+
+const RESULT_LABELS: Record<VoteComparison, { label: string; className: string }> = {
+  agree: { label: "Agrees", className: "bg-success/20 text-success" },
+  conflict: { label: "Conflicting vote", className: "bg-destructive/20 text-destructive" },
+  not_cast_onchain: { label: "Not cast on-chain", className: "bg-warning/20 text-warning" },
+  abstained_offchain: { label: "Abstained off-chain", className: "bg-warning/20 text-warning" },
+  no_offchain_record: { label: "No off-chain record", className: "bg-muted text-muted-foreground" },
+  abstained: { label: "Abstained", className: "bg-muted text-muted-foreground" },
+};
+
+const proposalLabel = (p: GovernanceProposal) =>
+  `${p.action_tag.replace(/_/g, " ")} · ${new Date(p.created_at).toLocaleDateString()} · ${p.status}`;
+
+interface CipOnchainComparisonProps {
+  cip: CipRecord;
+  svVotes: OffchainSvVote[];
+  proposals: GovernanceProposal[];
+  /** Called after the link or an SV mapping was saved */
+  onChanged: () => void;
+}
+
+export const CipOnchainComparison = ({ cip, svVotes, proposals, onChanged }: CipOnchainComparisonProps) => {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const link = resolveCipLink(cip, proposals);
+  const proposalId = linkedProposalId(link);
+  const proposal = proposals.find((p) => p.proposal_id === proposalId);
+  const { data: onchain, isLoading } = useGovernanceProposal(proposalId ?? undefined);
+
+  const ballots = finalBallots(onchain?.votes ?? []);
+  const rows = compareSvVotes(svVotes, ballots);
+  const mismatches = rows.filter((r) => MISMATCH_RESULTS.has(r.result));
+
+  const saveLink = async (value: string) => {
+    setSaving(true);
+    try {
+      const update =
+        value === AUTO
+          ? { onchain_proposal_id: null, onchain_link_manual: false }
+          : { onchain_proposal_id: value === NO_VOTE ? null : value, onchain_link_manual: true };
+      const { error } = await supabase.from("cips").update(update).eq("id", cip.id);
+      if (error) throw error;
+      onChanged();
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveSvMapping = async (recordId: string, value: string) => {
+    try {
+      const { error } = await supabase
+        .from("sv_votes")
+        .update({ onchain_sv_name: value === UNMAPPED ? null : value })
+        .eq("id", recordId);
+      if (error) throw error;
+      onChanged();
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const selectValue = link.kind === "manual" ? (link.proposalId ?? NO_VOTE) : AUTO;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <h4 className="font-semibold flex items-center gap-2">
+          <Link2 className="h-4 w-4" />
+          On-chain Vote
+          {link.kind === "auto" && <Badge variant="outline">auto-matched</Badge>}
+          {link.kind === "manual" && <Badge variant="outline">linked manually</Badge>}
+        </h4>
+        <Select value={selectValue} onValueChange={saveLink} disabled={saving}>
+          <SelectTrigger className="md:w-96">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTO}>Match automatically</SelectItem>
+            <SelectItem value={NO_VOTE}>No on-chain vote</SelectItem>
+            {proposals.map((p) => (
+              <SelectItem key={p.proposal_id} value={p.proposal_id}>
+                {proposalLabel(p)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {link.kind === "auto" && (
+        <p className="text-xs text-muted-foreground">Matched because the {link.match.reasons.join(", ")}.</p>
+      )}
+      {link.kind === "ambiguous" && (
+        <p className="text-sm text-warning">
+          {link.candidates.length} vote requests mention this CIP equally well; pick the right one above.
+        </p>
+      )}
+      {link.kind === "none" && (
+        <p className="text-sm text-muted-foreground italic">
+          No vote request mentions this CIP{cip.requires_onchain_vote ? " yet" : ""}. Link one manually if it was put
+          to a vote under a different reason.
+        </p>
+      )}
+      {link.kind === "manual" && !link.proposalId && (
+        <p className="text-sm text-muted-foreground italic">Marked as not voted on-chain.</p>
+      )}
+
+      {proposalId && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <Link to={proposalRoute(proposalId)} className="text-primary hover:underline">
+              {proposal ? proposalLabel(proposal) : proposalId.slice(0, 20)} →
+            </Link>
+            {proposal && (
+              <span className="text-muted-foreground">
+                On-chain: <span className="text-success">{proposal.accept_count} accept</span> /{" "}
+                <span className="text-destructive">{proposal.reject_count} reject</span>
+              </span>
+            )}
+          </div>
+
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : (
+            <>
+              {mismatches.length > 0 && (
+                <div className="p-3 rounded-lg border border-warning/40 bg-warning/10 text-sm space-y-1">
+                  <p className="font-semibold flex items-center gap-2 text-warning">
+                    <AlertTriangle className="h-4 w-4" />
+                    {mismatches.length} SV vote{mismatches.length === 1 ? "" : "s"} differ from the on-chain ballot
+                  </p>
+                  {mismatches.map((r, idx) => (
+                    <p key={idx} className="text-xs">
+                      <span className="font-medium">{r.organization}</span>
+                      {r.svName && <span className="text-muted-foreground"> ({r.svName})</span>}: off-chain{" "}
+                      {r.offchain || "blank"}, on-chain{" "}
+                      {r.onchain ? (r.onchain.accept ? "accept" : "reject") : "no ballot"}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="overflow-x-auto rounded-lg border border-border/50">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/30">
+                      <TableHead className="font-semibold">Organization</TableHead>
+                      <TableHead className="font-semibold text-center">Off-chain</TableHead>
+                      <TableHead className="font-semibold">On-chain SV</TableHead>
+                      <TableHead className="font-semibold text-center">On-chain</TableHead>
+                      <TableHead className="font-semibold text-center">Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((r, idx) => (
+                      <TableRow key={idx} className="hover:bg-muted/10">
+                        <TableCell className="font-medium">{r.organization ?? "—"}</TableCell>
+                        <TableCell className="text-center capitalize">{r.offchain || "-"}</TableCell>
+                        <TableCell>
+                          {r.recordId && !r.onchain ? (
+                            <Select
+                              value={r.svName ?? UNMAPPED}
+                              onValueChange={(value) => saveSvMapping(r.recordId!, value)}
+                            >
+                              <SelectTrigger className="h-8 w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={UNMAPPED}>Match by name</SelectItem>
+                                {ballots.map((b) => (
+                                  <SelectItem key={b.svName} value={b.svName}>
+                                    {b.svName}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <span className="font-mono text-xs">{r.svName ?? "—"}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {r.onchain ? (
+                            <span className={r.onchain.accept ? "text-success" : "text-destructive"}>
+                              {r.onchain.accept ? "accept" : "reject"}
+                            </span>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          <span
+                            className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${RESULT_LABELS[r.result].className}`}
+                          >
+                            {RESULT_LABELS[r.result].label}
+                          </span>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      {proposalId && !proposal && !isLoading && !onchain && (
+        <Button variant="link" size="sm" className="px-0" onClick={() => saveLink(AUTO)}>
+          The linked proposal is not in the governance history; reset to automatic matching
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import { ReactNode } from "react";
 import { Link, useLocation } from "react-router-dom";
-import { Activity, BarChart3, Coins, Database, Layers, Zap, Globe, Package, Vote, Award, Shield, Upload, ArrowRightLeft, Wallet, FileText, Radio, Users, Ticket, UserPlus, Hash, Clock, TrendingUp, Twitter } from "lucide-react";
+import { Activity, BarChart3, Coins, Database, Layers, Zap, Globe, Package, Vote, Award, Shield, Upload, ArrowRightLeft, Wallet, FileText, Radio, Users, Ticket, UserPlus, Hash, Clock, TrendingUp, Twitter, GitBranch, DollarSign, Calculator, Trophy, PieChart, Network, CalendarClock } from "lucide-react";
 
 
 interface DashboardLayoutProps {
@@ -10,15 +10,21 @@ interface DashboardLayoutProps {
 const navigation = [
   { name: "Dashboard", href: "/", icon: BarChart3 },
   { name: "Supply", href: "/supply", icon: Coins },
+  { name: "Issuance Simulator", href: "/issuance", icon: Calculator },
   { name: "Rich List", href: "/rich-list", icon: Wallet },
+  { name: "Unlock Schedule", href: "/unlock-schedule", icon: CalendarClock },
   { name: "Transactions", href: "/transactions", icon: Activity },
   { name: "Transfers", href: "/transfers", icon: ArrowRightLeft },
+  { name: "Transfer Flows", href: "/transfer-flows", icon: Network },
   { name: "Validators/SVs", href: "/validators", icon: Zap },
   { name: "Validator Licenses", href: "/validator-licenses", icon: Ticket },
+  { name: "Validator Scoreboard", href: "/validator-scoreboard", icon: Trophy },
   { name: "Round Stats", href: "/round-stats", icon: Layers },
   { name: "ANS", href: "/ans", icon: Globe },
   { name: "Featured Apps", href: "/apps", icon: Package },
+  { name: "App Analytics", href: "/app-analytics", icon: PieChart },
   { name: "Governance", href: "/governance", icon: Vote },
+  { name: "Price Oracle", href: "/price-votes", icon: DollarSign },
   { name: "Elections", href: "/elections", icon: Vote },
   { name: "External Party", href: "/external-party-setup", icon: UserPlus },
   { name: "Transfer Counters", href: "/transfer-counters", icon: Hash },
@@ -32,6 +38,7 @@ const navigation = [
   { name: "ACS Snapshot", href: "/snapshot-progress", icon: Upload },
   { name: "Backfill Progress", href: "/backfill-progress", icon: Clock },
   { name: "Live Updates", href: "/live-updates", icon: TrendingUp },
+  { name: "Contract Tracer", href: "/contract", icon: GitBranch },
   { name: "Admin", href: "/admin", icon: Shield },
   { name: "Templates", href: "/templates", icon: FileText },
   { name: "X/Twitter", href: "/twitter", icon: Twitter },
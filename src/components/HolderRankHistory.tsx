@@ -0,0 +1,114 @@
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import { History, X } from "lucide-react";
+import { PartyName } from "@/components/PartyName";
+import { RANK_DEPTH } from "@/lib/rich-list";
+import { useHolderRankHistory } from "@/hooks/use-rich-list-history";
+
+const formatTime = (t: number) => new Date(t).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const formatCC = (value: string) => Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+interface HolderRankHistoryProps {
+  owner: string;
+  onClose: () => void;
+}
+
+export const HolderRankHistory = ({ owner, onClose }: HolderRankHistoryProps) => {
+  const history = useHolderRankHistory(owner);
+  const rows = history.data || [];
+  const points = rows.map((r) => ({
+    time: new Date(r.record_time).getTime(),
+    rank: r.rank,
+    total: Number(r.total),
+  }));
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Rank History
+          </h3>
+          <Link to={`/party/${encodeURIComponent(owner)}`} className="font-mono text-xs hover:text-primary">
+            <PartyName party={owner} />
+          </Link>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {history.error && (
+        <Alert variant="destructive">
+          <AlertDescription>Failed to load the rank history: {(history.error as Error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      {history.isLoading ? (
+        <Skeleton className="h-[220px] w-full" />
+      ) : rows.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          Not among the top {RANK_DEPTH.toLocaleString()} holders of any ranked snapshot
+        </p>
+      ) : (
+        <>
+          <ChartContainer config={{ rank: { label: "Rank", color: "hsl(var(--primary))" } }} className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={points}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={formatTime}
+                  className="text-xs"
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                />
+                {/* Rank 1 on top */}
+                <YAxis
+                  reversed
+                  allowDecimals={false}
+                  domain={[1, "auto"]}
+                  className="text-xs"
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => {
+                        const p = payload?.[0]?.payload;
+                        if (!p) return null;
+                        return `${new Date(p.time).toLocaleString()} · ${p.total.toLocaleString(undefined, { maximumFractionDigits: 2 })} CC`;
+                      }}
+                    />
+                  }
+                />
+                <Line type="stepAfter" dataKey="rank" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 3 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </ChartContainer>
+          <div className="grid gap-4 md:grid-cols-3">
+            {[
+              { label: "Best Rank", value: `#${Math.min(...rows.map((r) => r.rank))}` },
+              { label: "Latest Rank", value: `#${rows[rows.length - 1].rank}` },
+              { label: "Latest Balance", value: `${formatCC(rows[rows.length - 1].total)} CC` },
+            ].map(({ label, value }) => (
+              <div key={label} className="rounded-lg border border-border/50 p-4">
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">{label}</h3>
+                <p className="text-2xl font-bold">{value}</p>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
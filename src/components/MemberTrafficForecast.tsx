@@ -0,0 +1,313 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PaginationControls } from "@/components/PaginationControls";
+import { AlertTriangle, Gauge, RefreshCw } from "lucide-react";
+import { searchRoutes } from "@/lib/search-index";
+import { useBurnStats } from "@/hooks/use-burn-stats";
+import {
+  useLatestTrafficSamples,
+  useLiveTrafficStatus,
+  useMemberTrafficBurn,
+  useMemberTrafficContracts,
+  useSampleTrafficStatus,
+  useTrafficPurchaseTotals,
+} from "@/hooks/use-member-traffic";
+import {
+  forecastMemberTraffic,
+  memberKey,
+  memberTrafficInputs,
+  topUpCandidates,
+  type MemberTrafficForecast as Forecast,
+} from "@/lib/traffic-forecast";
+
+const PAGE_SIZE = 25;
+const HORIZONS = [3, 7, 14, 30];
+
+const formatBytes = (bytes: number | null) => {
+  if (bytes === null) return "—";
+  const abs = Math.abs(bytes);
+  if (abs < 1e3) return `${bytes.toFixed(0)} B`;
+  if (abs < 1e6) return `${(bytes / 1e3).toFixed(1)} kB`;
+  if (abs < 1e9) return `${(bytes / 1e6).toFixed(1)} MB`;
+  return `${(bytes / 1e9).toFixed(2)} GB`;
+};
+
+const formatCC = (value: number | null, digits = 2) =>
+  value === null ? "—" : value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const formatDays = (days: number | null) => {
+  if (days === null) return "—";
+  if (days < 1) return `${Math.round(days * 24)}h`;
+  return `${days.toFixed(days < 10 ? 1 : 0)}d`;
+};
+
+const shortMember = (member: string) => {
+  const [kind, name] = member.split("::");
+  return name ? `${kind}::${name}` : member;
+};
+
+const RunsOut = ({ forecast, horizon }: { forecast: Forecast; horizon: number }) => {
+  if (forecast.daysLeft === null) {
+    return <span className="text-xs text-muted-foreground">{forecast.remaining === null ? "no status" : "not burning"}</span>;
+  }
+  const urgent = forecast.daysLeft <= horizon;
+  return (
+    <div className="flex flex-col items-end">
+      <Badge variant={urgent ? "destructive" : "outline"}>{formatDays(forecast.daysLeft)}</Badge>
+      <span className="text-xs text-muted-foreground mt-1">{forecast.runsOutAt!.toLocaleDateString()}</span>
+    </div>
+  );
+};
+
+export const MemberTrafficForecast = () => {
+  const contracts = useMemberTrafficContracts();
+  const purchases = useTrafficPurchaseTotals();
+  const samples = useLatestTrafficSamples();
+  const burns = useMemberTrafficBurn();
+  const burnStats = useBurnStats({ days: 1 });
+  const sample = useSampleTrafficStatus();
+  const [horizon, setHorizon] = useState(7);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const isLoading = contracts.isLoading || purchases.isLoading || samples.isLoading || burns.isLoading;
+  const error = contracts.error ?? purchases.error ?? samples.error ?? burns.error;
+
+  const inputs = useMemo(
+    () =>
+      memberTrafficInputs({
+        contracts: contracts.totals,
+        purchases: purchases.data ?? new Map(),
+        statuses: samples.data ?? new Map(),
+        burns: burns.data ?? new Map(),
+      }),
+    [contracts.totals, purchases.data, samples.data, burns.data],
+  );
+
+  // Ordered on the sampled status, so live updates do not reshuffle the pages
+  const forecasts = useMemo(
+    () =>
+      inputs
+        .map((input) => ({ input, forecast: forecastMemberTraffic(input) }))
+        .sort(
+          (a, b) =>
+            (a.forecast.daysLeft ?? Infinity) - (b.forecast.daysLeft ?? Infinity) ||
+            b.forecast.purchased - a.forecast.purchased,
+        ),
+    [inputs],
+  );
+
+  const candidates = useMemo(() => topUpCandidates(forecasts.map((f) => f.forecast), horizon), [forecasts, horizon]);
+
+  const pageRows = forecasts.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+  const live = useLiveTrafficStatus(pageRows.map(({ input }) => input));
+  const displayed = pageRows.map(({ input, forecast }) => {
+    const status = live.statuses.get(memberKey(input.memberId, input.synchronizerId));
+    return status ? { forecast: forecastMemberTraffic({ ...input, status }), isLive: true } : { forecast, isLive: false };
+  });
+
+  const summary = useMemo(() => {
+    const all = forecasts.map((f) => f.forecast);
+    return {
+      members: all.length,
+      sampled: all.filter((f) => f.burnSource === "samples").length,
+      burnPerDay: all.reduce((sum, f) => sum + (f.burnPerDay ?? 0), 0),
+      costPerDay: all.reduce((sum, f) => sum + (f.costPerDay ?? 0), 0),
+    };
+  }, [forecasts]);
+
+  return (
+    <Card className="glass-card p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Gauge className="h-5 w-5 text-primary" />
+            Consumption & Top-up Forecast
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Purchased vs consumed traffic per member, with the burn rate, its cost and when the balance runs out
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(horizon)} onValueChange={(v) => setHorizon(Number(v))}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HORIZONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  Within {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => sample.mutate(inputs.map(({ memberId, synchronizerId }) => ({ memberId, synchronizerId })))}
+            disabled={sample.isPending || inputs.length === 0}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${sample.isPending ? "animate-spin" : ""}`} />
+            Sample now
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>Failed to load traffic data: {(error as Error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-4">
+        {[
+          {
+            label: "Members",
+            value: summary.members.toLocaleString(),
+            note: `${summary.sampled} with a sampled burn rate`,
+          },
+          { label: "Consumed per Day", value: formatBytes(summary.burnPerDay) },
+          {
+            label: "Estimated Cost per Day",
+            value: `${formatCC(summary.costPerDay)} CC`,
+            note: burnStats.data
+              ? `${formatCC(burnStats.data.trafficBurn)} CC burnt on traffic in the last 24h`
+              : undefined,
+          },
+          {
+            label: `Top-up within ${horizon} Days`,
+            value: candidates.length.toLocaleString(),
+          },
+        ].map(({ label, value, note }) => (
+          <div key={label} className="rounded-lg border border-border/50 p-4">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">{label}</h3>
+            {isLoading ? <Skeleton className="h-8 w-24" /> : <p className="text-2xl font-bold">{value}</p>}
+            {note && !isLoading && <p className="text-xs text-muted-foreground mt-1">{note}</p>}
+          </div>
+        ))}
+      </div>
+
+      {!isLoading && candidates.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+            Likely to need a top-up
+          </h3>
+          <div className="grid gap-2 md:grid-cols-2 lg:grid-cols-3">
+            {candidates.slice(0, 12).map((f) => (
+              <div
+                key={memberKey(f.memberId, f.synchronizerId)}
+                className="flex items-center justify-between gap-2 rounded-lg border border-border/50 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="font-mono text-xs truncate" title={f.memberId}>
+                    {shortMember(f.memberId)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(f.remaining)} left, {formatBytes(f.burnPerDay)}/day
+                  </p>
+                </div>
+                <Badge variant="destructive">{formatDays(f.daysLeft)}</Badge>
+              </div>
+            ))}
+          </div>
+          {candidates.length > 12 && (
+            <p className="text-xs text-muted-foreground">and {candidates.length - 12} more, listed first below</p>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4, 5].map((i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : forecasts.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No traffic purchases or samples yet</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto rounded-lg border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30">
+                  <TableHead>Member</TableHead>
+                  <TableHead>Validator</TableHead>
+                  <TableHead className="text-right">Purchased</TableHead>
+                  <TableHead className="text-right">Consumed</TableHead>
+                  <TableHead className="text-right">Remaining</TableHead>
+                  <TableHead className="text-right">Burn / day</TableHead>
+                  <TableHead className="text-right">CC / MB</TableHead>
+                  <TableHead className="text-right">CC / day</TableHead>
+                  <TableHead className="text-right">Runs out</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {displayed.map(({ forecast: f, isLive }) => (
+                  <TableRow key={memberKey(f.memberId, f.synchronizerId)}>
+                    <TableCell>
+                      <p className="font-mono text-xs" title={`${f.memberId}\n${f.synchronizerId}`}>
+                        {shortMember(f.memberId)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {f.statusAt ? `${isLive ? "live" : "sampled"} ${new Date(f.statusAt).toLocaleString()}` : "no status"}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      {f.validator ? (
+                        <Link
+                          to={searchRoutes.validator(f.validator)}
+                          className="font-mono text-xs hover:text-primary"
+                          title={f.validator}
+                        >
+                          {f.validator.split("::")[0]}
+                        </Link>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatBytes(f.purchased)}
+                      {f.pending > 0 && <p className="text-xs text-muted-foreground">{formatBytes(f.pending)} pending</p>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatBytes(f.consumed)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatBytes(f.remaining)}</TableCell>
+                    <TableCell className="text-right">
+                      <span className="font-mono">{formatBytes(f.burnPerDay)}</span>
+                      {f.burnSource === "purchases" && (
+                        <p className="text-xs text-muted-foreground">from purchases</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCC(f.ccPerMb, 4)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCC(f.costPerDay)}</TableCell>
+                    <TableCell className="text-right">
+                      <RunsOut forecast={f} horizon={horizon} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <PaginationControls
+            currentPage={currentPage}
+            totalItems={forecasts.length}
+            pageSize={PAGE_SIZE}
+            onPageChange={setCurrentPage}
+          />
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Remaining traffic is the member's limit minus what it consumed, live from Scan for the rows shown and otherwise
+        from the latest sample. The burn rate is the trend of consumption over the last 7 days of samples, or the
+        traffic bought in the last 30 days for members not sampled yet. Costs use the CC per MB the member paid on its
+        past purchases.
+      </p>
+    </Card>
+  );
+};
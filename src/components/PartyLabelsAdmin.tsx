@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { ENTITY_KINDS, ENTITY_KIND_LABELS, type EntityKind } from "@/lib/known-entities";
+import { useDeletePartyLabel, usePartyLabels, useSavePartyLabel } from "@/hooks/use-known-entities";
+
+/** Admin form for the party_labels the rich list and lock views show */
+export const PartyLabelsAdmin = () => {
+  const labels = usePartyLabels();
+  const save = useSavePartyLabel();
+  const remove = useDeletePartyLabel();
+
+  const [party, setParty] = useState("");
+  const [label, setLabel] = useState("");
+  const [kind, setKind] = useState<EntityKind>("exchange");
+  const [note, setNote] = useState("");
+
+  const canSave = party.includes("::") && label.trim() !== "";
+
+  const handleSave = () => {
+    save.mutate(
+      { party: party.trim(), label: label.trim(), kind, note: note.trim() || null },
+      {
+        onSuccess: () => {
+          setParty("");
+          setLabel("");
+          setNote("");
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Label a Party</CardTitle>
+          <CardDescription>
+            Name wallets the ledger cannot identify, such as exchanges and foundations. A label here also overrides
+            the SV, featured app and DSO names.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="label-party">Party ID</Label>
+              <Input
+                id="label-party"
+                placeholder="party::fingerprint"
+                value={party}
+                onChange={(e) => setParty(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="label-name">Label</Label>
+              <Input id="label-name" placeholder="e.g. Exchange hot wallet" value={label} onChange={(e) => setLabel(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Kind</Label>
+              <Select value={kind} onValueChange={(v) => setKind(v as EntityKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENTITY_KINDS.map((k) => (
+                    <SelectItem key={k} value={k}>
+                      {ENTITY_KIND_LABELS[k]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="label-note">Note</Label>
+              <Input id="label-note" placeholder="Source of the attribution" value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+          </div>
+          <Button onClick={handleSave} disabled={!canSave || save.isPending} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Save Label
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Labelled Parties</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {(labels.data || []).length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No parties labelled yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Kind</TableHead>
+                  <TableHead>Party</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(labels.data || []).map((l) => (
+                  <TableRow key={l.party}>
+                    <TableCell className="font-medium">{l.label}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{ENTITY_KIND_LABELS[l.kind] ?? l.kind}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs break-all">{l.party}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{l.note || "—"}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => remove.mutate(l.party)}
+                        disabled={remove.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import { useAnsName } from "@/hooks/use-ans-registry";
+
+interface PartyNameProps {
+  party: string;
+  className?: string;
+}
+
+/**
+ * A party as its ANS name when it holds one, otherwise as the hint before
+ * "::". The full party id is kept in the tooltip.
+ */
+export const PartyName = ({ party, className }: PartyNameProps) => {
+  const name = useAnsName(party);
+  return (
+    <span className={className} title={name ? `${name}\n${party}` : party}>
+      {name ?? party.split("::")[0]}
+    </span>
+  );
+};
@@ -0,0 +1,136 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import { PieChart, RefreshCw } from "lucide-react";
+import type { Concentration } from "@/lib/rich-list";
+import { useRichListSnapshots, useSyncRichListHistory } from "@/hooks/use-rich-list-history";
+
+const formatShare = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(1)}%`);
+
+const formatTime = (t: number) => new Date(t).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+interface RichListConcentrationProps {
+  /** Metrics of the latest snapshot, computed on the page */
+  current: Concentration | null;
+  isLoading: boolean;
+}
+
+export const RichListConcentration = ({ current, isLoading }: RichListConcentrationProps) => {
+  const history = useRichListSnapshots();
+  const sync = useSyncRichListHistory();
+
+  const points = (history.data || []).map((s) => ({
+    time: new Date(s.record_time).getTime(),
+    round: s.as_of_round,
+    gini: s.gini,
+    top10: s.top10_share,
+    top100: s.top100_share,
+    nakamoto: s.nakamoto_coefficient,
+  }));
+
+  return (
+    <Card className="glass-card p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <PieChart className="h-5 w-5 text-primary" />
+            Concentration
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            How evenly balances are spread across holders, now and over the snapshot chain
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <Button variant="outline" onClick={() => sync.mutate({})} disabled={sync.isPending}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${sync.isPending ? "animate-spin" : ""}`} />
+            Rank snapshots
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            {history.data?.length ? `${history.data.length} snapshots ranked` : "No snapshots ranked yet"}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        {[
+          { label: "Gini Coefficient", value: current?.gini == null ? "—" : current.gini.toFixed(3) },
+          { label: "Top 10 Share", value: formatShare(current?.top10Share ?? null) },
+          { label: "Top 100 Share", value: formatShare(current?.top100Share ?? null) },
+          {
+            label: "Nakamoto Coefficient",
+            value: current?.nakamoto?.toLocaleString() ?? "—",
+            note: "holders that together hold more than half",
+          },
+        ].map(({ label, value, note }) => (
+          <div key={label} className="rounded-lg border border-border/50 p-4">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">{label}</h3>
+            {isLoading ? <Skeleton className="h-8 w-24" /> : <p className="text-2xl font-bold">{value}</p>}
+            {note && !isLoading && <p className="text-xs text-muted-foreground mt-1">{note}</p>}
+          </div>
+        ))}
+      </div>
+
+      {history.error && (
+        <Alert variant="destructive">
+          <AlertDescription>Failed to load the rich list history: {(history.error as Error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      {history.isLoading ? (
+        <Skeleton className="h-[280px] w-full" />
+      ) : points.length < 2 ? (
+        <p className="text-center text-muted-foreground py-8">
+          Rank at least two snapshots to see concentration over time
+        </p>
+      ) : (
+        <ChartContainer
+          config={{
+            gini: { label: "Gini", color: "hsl(var(--primary))" },
+            top10: { label: "Top 10 share", color: "hsl(var(--chart-2))" },
+            top100: { label: "Top 100 share", color: "hsl(var(--chart-3))" },
+          }}
+          className="h-[280px] w-full"
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatTime}
+                className="text-xs"
+                tick={{ fill: "hsl(var(--muted-foreground))" }}
+              />
+              <YAxis
+                domain={[0, 1]}
+                tickFormatter={(v: number) => `${Math.round(v * 100)}%`}
+                className="text-xs"
+                tick={{ fill: "hsl(var(--muted-foreground))" }}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const p = payload?.[0]?.payload;
+                      if (!p) return null;
+                      return `${new Date(p.time).toLocaleString()}${p.round != null ? ` · round ${p.round}` : ""} · Nakamoto ${p.nakamoto ?? "—"}`;
+                    }}
+                  />
+                }
+              />
+              <Legend />
+              <Line type="monotone" dataKey="gini" stroke="hsl(var(--primary))" dot={false} strokeWidth={2} />
+              <Line type="monotone" dataKey="top10" stroke="hsl(var(--chart-2))" dot={false} strokeWidth={2} />
+              <Line type="monotone" dataKey="top100" stroke="hsl(var(--chart-3))" dot={false} strokeWidth={2} />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartContainer>
+      )}
+    </Card>
+  );
+};
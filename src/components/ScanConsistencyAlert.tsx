@@ -0,0 +1,51 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { useTotalBalanceConsistency } from "@/hooks/use-scan-consistency";
+import { DamlDecimal } from "@/lib/daml-decimal";
+
+const formatBalance = (value: string | null) =>
+  value === null
+    ? "no data for this round"
+    : (DamlDecimal.tryFrom(value)?.toNumber() ?? 0).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Shows whether several SVs' scans agree on the latest total balance.
+ * Renders nothing while loading or when fewer than two scans answered.
+ */
+export const ScanConsistencyAlert = () => {
+  const { data } = useTotalBalanceConsistency();
+
+  if (!data || data.agreeing.length + data.disagreeing.length < 2) return null;
+
+  if (data.consistent) {
+    return (
+      <Alert>
+        <CheckCircle className="h-4 w-4 text-success" />
+        <AlertDescription>
+          {data.agreeing.length} SV scans agree on the total balance for round {data.round.toLocaleString()}
+          {data.failed.length > 0 && ` (${data.failed.length} did not respond)`}.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>SV scans disagree on round {data.round.toLocaleString()}</AlertTitle>
+      <AlertDescription>
+        <p className="mb-2">
+          {data.agreeing.map((s) => s.svName).join(", ")} report {formatBalance(data.value)} CC.
+        </p>
+        <ul className="text-xs space-y-1">
+          {data.disagreeing.map((s) => (
+            <li key={s.baseUrl}>
+              <span className="font-medium">{s.svName}</span>: {formatBalance(s.value)}
+              {s.value === null ? " (possibly lagging)" : " CC"}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
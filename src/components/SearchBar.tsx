@@ -1,12 +1,10 @@
 import { useState } from "react";
-import { Search, X } from "lucide-react";
-import { Input } from "@/components/ui/input";
+import { Search, User, AtSign, Activity, FileText, FileJson, Hash, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useNavigate } from "react-router-dom";
-import { useToast } from "@/hooks/use-toast";
-import { scanApi } from "@/lib/api-client";
+import { useUniversalSearch } from "@/hooks/use-universal-search";
+import { SEARCH_KIND_LABELS, type SearchResult, type SearchResultKind } from "@/lib/search-index";
 import {
-  Command,
   CommandDialog,
   CommandEmpty,
   CommandGroup,
@@ -15,106 +13,34 @@ import {
   CommandList,
 } from "@/components/ui/command";
 
+const KIND_ICONS: Record<SearchResultKind, typeof Search> = {
+  party: User,
+  ans: AtSign,
+  update: Activity,
+  contract: FileText,
+  template: FileJson,
+  round: Hash,
+};
+
 export const SearchBar = () => {
   const [open, setOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
-  const [isSearching, setIsSearching] = useState(false);
   const navigate = useNavigate();
-  const { toast } = useToast();
-
-  const handleSearch = async (query: string) => {
-    const trimmedQuery = query.trim();
-    if (!trimmedQuery) return;
-
-    setIsSearching(true);
-    try {
-      if (trimmedQuery.includes("::")) {
-        try {
-          const transactions = await scanApi.fetchTransactionsByParty(trimmedQuery, 20);
+  const { data, isPending } = useUniversalSearch(searchQuery);
 
-          if (transactions.transactions.length > 0) {
-            navigate(`/transactions?search=${encodeURIComponent(trimmedQuery)}`);
-            setOpen(false);
-            toast({
-              title: "Search Results",
-              description: `Found ${transactions.transactions.length} transaction(s) for this party`,
-            });
-            return;
-          }
-        } catch (partyError) {
-          console.warn("Party search via API failed, falling back to local filter", partyError);
-        }
+  const results = data?.results ?? [];
+  // Groups follow the rank of their best result
+  const groups: Array<[SearchResultKind, SearchResult[]]> = [];
+  for (const r of results) {
+    const group = groups.find(([kind]) => kind === r.kind);
+    if (group) group[1].push(r);
+    else groups.push([r.kind, [r]]);
+  }
 
-        const fallback = await scanApi.fetchTransactions({
-          page_size: 20,
-          sort_order: "desc"
-        });
-
-        const matchingTxs = fallback.transactions.filter(tx => {
-          const lowerQuery = trimmedQuery.toLowerCase();
-          const senderMatch = tx.transfer?.sender?.party?.toLowerCase().includes(lowerQuery);
-          const receiverMatch = tx.transfer?.receivers?.some(r => r.party?.toLowerCase().includes(lowerQuery));
-          return senderMatch || receiverMatch;
-        });
-
-        if (matchingTxs.length > 0) {
-          navigate(`/transactions?search=${encodeURIComponent(trimmedQuery)}`);
-          setOpen(false);
-          toast({
-            title: "Search Results",
-            description: `Found ${matchingTxs.length} transaction(s) for this party`,
-          });
-        } else {
-          toast({
-            title: "No Results",
-            description: "No transactions found for this party ID",
-            variant: "destructive",
-          });
-        }
-      } else if (trimmedQuery.startsWith("#")) {
-        navigate(`/transactions?search=${encodeURIComponent(trimmedQuery)}`);
-        setOpen(false);
-      } else {
-        try {
-          const ansResults = await scanApi.fetchAnsEntries(trimmedQuery.toLowerCase(), 25);
-          const lowerQuery = trimmedQuery.toLowerCase();
-          const matchingAns = ansResults.entries.filter(entry =>
-            entry.name.toLowerCase().includes(lowerQuery)
-          );
-
-          if (matchingAns.length > 0) {
-            navigate(`/ans?search=${encodeURIComponent(trimmedQuery)}`);
-            setOpen(false);
-            toast({
-              title: "Search Results",
-              description: `Found ${matchingAns.length} ANS entry(ies)`,
-            });
-          } else {
-            toast({
-              title: "No Results",
-              description: "No results found for this search",
-              variant: "destructive",
-            });
-          }
-        } catch (error) {
-          console.error("ANS search failed", error);
-          toast({
-            title: "Search Error",
-            description: "Unable to search ANS entries",
-            variant: "destructive",
-          });
-        }
-      }
-    } catch (error) {
-      console.error("Search failed", error);
-      toast({
-        title: "Search Failed",
-        description: "An error occurred while searching",
-        variant: "destructive",
-      });
-    } finally {
-      setIsSearching(false);
-    }
+  const go = (result: SearchResult) => {
+    navigate(result.href);
+    setOpen(false);
+    setSearchQuery("");
   };
 
   return (
@@ -125,69 +51,64 @@ export const SearchBar = () => {
         onClick={() => setOpen(true)}
       >
         <Search className="h-4 w-4" />
-        <span className="hidden sm:inline">Search party, event, ANS...</span>
+        <span className="hidden sm:inline">Search party, update, contract, ANS...</span>
         <span className="sm:hidden">Search...</span>
       </Button>
 
-      <CommandDialog open={open} onOpenChange={setOpen}>
-        <CommandInput 
-          placeholder="Search by party ID, event ID, or ANS name..." 
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput
+          placeholder="Party ID or hint, update/contract ID, ANS name, template or round..."
           value={searchQuery}
           onValueChange={setSearchQuery}
         />
         <CommandList>
-          <CommandEmpty>
-            {isSearching ? "Searching..." : "Type to search"}
-          </CommandEmpty>
-          <CommandGroup heading="Suggestions">
-            <CommandItem
-              onSelect={() => {
-                setSearchQuery("example::1220");
-                toast({
-                  title: "Tip",
-                  description: "Party IDs contain :: in the format name::hash",
-                });
-              }}
-            >
-              <Search className="mr-2 h-4 w-4" />
-              <span>Search by Party ID (e.g., validator::1220...)</span>
-            </CommandItem>
-            <CommandItem
-              onSelect={() => {
-                setSearchQuery("#");
-                toast({
-                  title: "Tip",
-                  description: "Event IDs start with # symbol",
-                });
-              }}
-            >
-              <Search className="mr-2 h-4 w-4" />
-              <span>Search by Event ID (e.g., #1220...)</span>
-            </CommandItem>
-            <CommandItem
-              onSelect={() => {
-                setSearchQuery("");
-                toast({
-                  title: "Tip",
-                  description: "Enter an ANS name to search for Canton names",
-                });
-              }}
-            >
-              <Search className="mr-2 h-4 w-4" />
-              <span>Search by ANS Name</span>
-            </CommandItem>
-          </CommandGroup>
-          {searchQuery && (
-            <CommandGroup heading="Actions">
-              <CommandItem
-                onSelect={() => handleSearch(searchQuery)}
-                disabled={isSearching}
-              >
-                <Search className="mr-2 h-4 w-4" />
-                <span>Search for "{searchQuery}"</span>
-              </CommandItem>
+          {searchQuery.trim() ? (
+            <CommandEmpty>
+              {isPending ? (
+                <span className="inline-flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" /> Searching...
+                </span>
+              ) : (
+                "No results found"
+              )}
+            </CommandEmpty>
+          ) : (
+            <CommandGroup heading="Search for">
+              {[
+                "Party IDs (name::1220...) or party hints",
+                "Update IDs and contract IDs, or a prefix of at least 8 characters",
+                "ANS names",
+                "Template names (e.g. Amulet, Splice:Amulet:LockedAmulet)",
+                "Round numbers",
+              ].map((tip) => (
+                <CommandItem key={tip} disabled>
+                  <Search className="mr-2 h-4 w-4" />
+                  <span>{tip}</span>
+                </CommandItem>
+              ))}
             </CommandGroup>
           )}
+          {groups.map(([kind, items]) => {
+            const Icon = KIND_ICONS[kind];
+            return (
+              <CommandGroup key={kind} heading={SEARCH_KIND_LABELS[kind]}>
+                {items.map((r) => (
+                  <CommandItem key={`${r.kind}:${r.id}`} value={`${r.kind}:${r.id}`} onSelect={() => go(r)}>
+                    <Icon className="mr-2 h-4 w-4 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-mono text-sm truncate">{r.label}</p>
+                      {r.detail && <p className="text-xs text-muted-foreground truncate">{r.detail}</p>}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+          {data?.failedSources > 0 && (
+            <p className="px-4 py-2 text-xs text-muted-foreground">
+              {data.failedSources} source(s) could not be searched, results may be incomplete
+            </p>
+          )}
         </CommandList>
       </CommandDialog>
     </>
@@ -0,0 +1,257 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowRight, ChevronDown, ChevronRight, GitCompare } from "lucide-react";
+import { useACSSnapshots, type ACSSnapshot } from "@/hooks/use-acs-snapshots";
+import { useSnapshotDiff } from "@/hooks/use-snapshot-diff";
+import type { TemplateDiff } from "@/lib/acs-diff";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const IDS_SHOWN = 50;
+
+const snapshotLabel = (s: ACSSnapshot) =>
+  `${new Date(s.record_time).toLocaleString()} · ${s.processing_mode ?? "full"} · ${s.id.substring(0, 8)}`;
+
+/** Snapshot closest to one day before `to`, so the default answers "what changed since yesterday" */
+function defaultFrom(snapshots: ACSSnapshot[], to: ACSSnapshot): ACSSnapshot | undefined {
+  const target = new Date(to.record_time).getTime() - DAY_MS;
+  return snapshots
+    .filter((s) => s.id !== to.id && new Date(s.record_time).getTime() < new Date(to.record_time).getTime())
+    .sort(
+      (a, b) =>
+        Math.abs(new Date(a.record_time).getTime() - target) - Math.abs(new Date(b.record_time).getTime() - target),
+    )[0];
+}
+
+const ContractIdList = ({ title, ids, total }: { title: string; ids: string[]; total: number }) => (
+  <div>
+    <p className="text-sm font-medium mb-1">
+      {title} ({total.toLocaleString()})
+    </p>
+    {ids.length === 0 ? (
+      <p className="text-xs text-muted-foreground">None</p>
+    ) : (
+      <div className="bg-muted/30 rounded-lg p-2 max-h-48 overflow-y-auto space-y-0.5">
+        {ids.slice(0, IDS_SHOWN).map((id) => (
+          <code key={id} className="block text-xs font-mono truncate" title={id}>
+            {id}
+          </code>
+        ))}
+        {total > IDS_SHOWN && (
+          <p className="text-xs text-muted-foreground pt-1">… and {(total - IDS_SHOWN).toLocaleString()} more</p>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+const TemplateDiffDetails = ({ diff }: { diff: TemplateDiff }) => (
+  <div className="grid gap-4 md:grid-cols-2 py-2">
+    {diff.fieldSums.length > 0 && (
+      <div>
+        <p className="text-sm font-medium mb-1">Field sums</p>
+        {diff.fieldSums.map((f) => (
+          <div key={f.field} className="flex items-center gap-2 text-xs font-mono">
+            <span className="text-muted-foreground">{f.field}</span>
+            <span>{f.from ?? "—"}</span>
+            <ArrowRight className="h-3 w-3" />
+            <span>{f.to ?? "—"}</span>
+            <span className={f.delta.startsWith("-") ? "text-destructive" : "text-green-500"}>
+              ({f.delta.startsWith("-") ? f.delta : `+${f.delta}`})
+            </span>
+          </div>
+        ))}
+      </div>
+    )}
+    {diff.statusTallies.length > 0 && (
+      <div>
+        <p className="text-sm font-medium mb-1">Status tallies</p>
+        {diff.statusTallies.map((s) => (
+          <div key={s.status} className="flex items-center gap-2 text-xs font-mono">
+            <span className="text-muted-foreground">{s.status}</span>
+            <span>{s.from}</span>
+            <ArrowRight className="h-3 w-3" />
+            <span>{s.to}</span>
+            <span className={s.delta < 0 ? "text-destructive" : "text-green-500"}>
+              ({s.delta > 0 ? `+${s.delta}` : s.delta})
+            </span>
+          </div>
+        ))}
+      </div>
+    )}
+    {diff.contracts ? (
+      <>
+        <ContractIdList title="Added contracts" ids={diff.contracts.added} total={diff.contracts.addedCount} />
+        <ContractIdList title="Removed contracts" ids={diff.contracts.removed} total={diff.contracts.removedCount} />
+      </>
+    ) : (
+      <p className="text-xs text-muted-foreground md:col-span-2">
+        Contract level changes are not available: one of the snapshots has no contract id files for this template.
+        Created / archived are estimated from the net contract count.
+      </p>
+    )}
+  </div>
+);
+
+export const SnapshotDiffView = () => {
+  const { data: snapshots, isLoading: snapshotsLoading } = useACSSnapshots();
+  const completed = useMemo(() => (snapshots || []).filter((s) => s.status === "completed"), [snapshots]);
+
+  const [fromId, setFromId] = useState<string | undefined>();
+  const [toId, setToId] = useState<string | undefined>();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (toId || completed.length < 2) return;
+    const to = completed[0];
+    setToId(to.id);
+    setFromId(defaultFrom(completed, to)?.id);
+  }, [completed, toId]);
+
+  const { data: diff, isLoading, error } = useSnapshotDiff(fromId, toId);
+
+  if (snapshotsLoading) return <Skeleton className="h-64 w-full" />;
+
+  if (completed.length < 2) {
+    return (
+      <Card className="glass-card p-6">
+        <p className="text-muted-foreground text-center">At least two completed snapshots are needed to compare.</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="glass-card p-4">
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <GitCompare className="h-5 w-5 text-primary shrink-0" />
+          <Select value={fromId} onValueChange={setFromId}>
+            <SelectTrigger className="md:w-[360px]">
+              <SelectValue placeholder="From snapshot" />
+            </SelectTrigger>
+            <SelectContent>
+              {completed.map((s) => (
+                <SelectItem key={s.id} value={s.id} disabled={s.id === toId}>
+                  {snapshotLabel(s)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-muted-foreground shrink-0" />
+          <Select value={toId} onValueChange={setToId}>
+            <SelectTrigger className="md:w-[360px]">
+              <SelectValue placeholder="To snapshot" />
+            </SelectTrigger>
+            <SelectContent>
+              {completed.map((s) => (
+                <SelectItem key={s.id} value={s.id} disabled={s.id === fromId}>
+                  {snapshotLabel(s)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>Failed to compare snapshots: {error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && fromId && toId ? (
+        <Skeleton className="h-64 w-full" />
+      ) : diff ? (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="outline">{diff.totals.templatesChanged} templates changed</Badge>
+            <Badge variant="secondary" className="text-green-500">
+              +{diff.totals.created.toLocaleString()} created
+            </Badge>
+            <Badge variant="secondary" className="text-destructive">
+              −{diff.totals.archived.toLocaleString()} archived
+            </Badge>
+            <span className="text-muted-foreground">
+              {new Date(diff.from.record_time).toLocaleString()} → {new Date(diff.to.record_time).toLocaleString()}
+            </span>
+          </div>
+
+          {diff.templates.length === 0 ? (
+            <Card className="glass-card p-6">
+              <p className="text-muted-foreground text-center">No differences between these snapshots.</p>
+            </Card>
+          ) : (
+            <Card className="glass-card">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Template</TableHead>
+                    <TableHead className="text-right">Contracts</TableHead>
+                    <TableHead className="text-right">Created</TableHead>
+                    <TableHead className="text-right">Archived</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.templates.map((t) => {
+                    const isOpen = expanded === t.template_id;
+                    return [
+                      <TableRow
+                        key={t.template_id}
+                        className="cursor-pointer"
+                        onClick={() => setExpanded(isOpen ? null : t.template_id)}
+                      >
+                        <TableCell>
+                          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs max-w-[420px] truncate" title={t.template_id}>
+                          {t.template_id}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-xs">
+                          {t.fromCount.toLocaleString()} → {t.toCount.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-green-500">
+                          +{t.created.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-destructive">
+                          −{t.archived.toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {t.change !== "changed" && <Badge variant="outline">template {t.change}</Badge>}
+                            {!t.exact && (
+                              <Badge variant="outline" title="Estimated from the net contract count">
+                                estimated
+                              </Badge>
+                            )}
+                            {t.fieldSums.length > 0 && <Badge variant="secondary">{t.fieldSums.length} sums</Badge>}
+                            {t.statusTallies.length > 0 && (
+                              <Badge variant="secondary">{t.statusTallies.length} statuses</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>,
+                      isOpen && (
+                        <TableRow key={`${t.template_id}-details`}>
+                          <TableCell />
+                          <TableCell colSpan={5}>
+                            <TemplateDiffDetails diff={t} />
+                          </TableCell>
+                        </TableRow>
+                      ),
+                    ];
+                  })}
+                </TableBody>
+              </Table>
+            </Card>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,287 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PaginationControls } from "@/components/PaginationControls";
+import { PartyName } from "@/components/PartyName";
+import { BookOpen, RefreshCw } from "lucide-react";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import {
+  isRunning,
+  providerRevenue,
+  subscriptionChurn,
+  type SubscriptionLedgerRow,
+  type SubscriptionStatus,
+} from "@/lib/subscription-ledger";
+import {
+  useCollectedSubscriptionPayments,
+  useSubscriptionLedger,
+  useSubscriptionLedgerCursors,
+  useSyncSubscriptionLedger,
+} from "@/hooks/use-subscription-ledger";
+
+const PAGE_SIZE = 25;
+const PERIODS = [30, 90, 365];
+const DUE_SOON_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatCC = (value: DamlDecimal | string | null) =>
+  value === null ? "—" : Number(value.toString()).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatInterval = (us: number | null) => (us ? `${Math.round(us / 1e6 / 86400)} days` : "—");
+
+const STATUS_VARIANTS: Record<SubscriptionStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  active: "default",
+  paying: "default",
+  pending: "outline",
+  expired: "destructive",
+  cancelled: "secondary",
+  rejected: "secondary",
+};
+
+const partyLink = (party: string) => `/party/${encodeURIComponent(party)}`;
+
+const NextPayment = ({ subscription }: { subscription: SubscriptionLedgerRow }) => {
+  if (!subscription.next_payment_due_at) return <span className="text-muted-foreground">—</span>;
+  const dueIn = (Date.parse(subscription.next_payment_due_at) - Date.now()) / DAY_MS;
+  return (
+    <div className="flex flex-col items-end">
+      <span>{new Date(subscription.next_payment_due_at).toLocaleDateString()}</span>
+      {dueIn < 0 ? (
+        <Badge variant="destructive" className="mt-1">
+          overdue
+        </Badge>
+      ) : (
+        <span className="text-xs text-muted-foreground">in {Math.ceil(dueIn)} days</span>
+      )}
+    </div>
+  );
+};
+
+export const SubscriptionLedger = () => {
+  const [period, setPeriod] = useState(30);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  // Rounded to the hour, so the payments query key stays put between renders
+  const range = useMemo(() => {
+    const to = Math.ceil(Date.now() / 3_600_000) * 3_600_000;
+    return { from: new Date(to - period * DAY_MS).toISOString(), to: new Date(to).toISOString() };
+  }, [period]);
+
+  const ledger = useSubscriptionLedger();
+  const payments = useCollectedSubscriptionPayments(range.from, range.to);
+  const cursors = useSubscriptionLedgerCursors();
+  const sync = useSyncSubscriptionLedger();
+
+  const isLoading = ledger.isLoading || payments.isLoading;
+  const error = ledger.error ?? payments.error;
+  const subscriptions = useMemo(() => ledger.data || [], [ledger.data]);
+
+  const revenue = useMemo(() => providerRevenue(subscriptions, payments.data || []), [subscriptions, payments.data]);
+  const churn = useMemo(() => subscriptionChurn(subscriptions, range.from, range.to), [subscriptions, range]);
+  const summary = useMemo(() => {
+    const dueBefore = Date.now() + DUE_SOON_DAYS * DAY_MS;
+    return {
+      running: subscriptions.filter((s) => isRunning(s.status)).length,
+      pending: subscriptions.filter((s) => s.status === "pending").length,
+      revenue: DamlDecimal.sum(revenue.map((r) => r.revenue)),
+      payments: revenue.reduce((sum, r) => sum + r.payments, 0),
+      dueSoon: subscriptions.filter((s) => s.next_payment_due_at && Date.parse(s.next_payment_due_at) <= dueBefore)
+        .length,
+    };
+  }, [subscriptions, revenue]);
+
+  const lastSync = (cursors.data || []).reduce<string | null>(
+    (latest, c) => (!latest || c.updated_at > latest ? c.updated_at : latest),
+    null,
+  );
+
+  const displayed = subscriptions.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  return (
+    <Card className="glass-card p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <BookOpen className="h-5 w-5 text-primary" />
+            Subscription Ledger
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Every subscription from its initial payment through recurring payments to expiry, with revenue per
+            provider and churn
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <div className="flex items-center gap-2">
+            <Select value={String(period)} onValueChange={(v) => setPeriod(Number(v))}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    Last {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => sync.mutate({})} disabled={sync.isPending}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${sync.isPending ? "animate-spin" : ""}`} />
+              Sync ledger
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {lastSync ? `Last synced ${new Date(lastSync).toLocaleString()}` : "Never synced"}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>Failed to load the subscription ledger: {(error as Error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-4">
+        {[
+          {
+            label: "Running Subscriptions",
+            value: summary.running.toLocaleString(),
+            note: `${summary.pending} waiting for their initial payment to be collected`,
+          },
+          {
+            label: `Revenue, Last ${period} Days`,
+            value: `${formatCC(summary.revenue)} CC`,
+            note: `${summary.payments} payments collected`,
+          },
+          {
+            label: `Churn, Last ${period} Days`,
+            value: churn.rate === null ? "—" : `${(churn.rate * 100).toFixed(1)}%`,
+            note: `${churn.churned} of ${churn.running} running subscriptions ended`,
+          },
+          { label: `Payments Due within ${DUE_SOON_DAYS} Days`, value: summary.dueSoon.toLocaleString() },
+        ].map(({ label, value, note }) => (
+          <div key={label} className="rounded-lg border border-border/50 p-4">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">{label}</h3>
+            {isLoading ? <Skeleton className="h-8 w-24" /> : <p className="text-2xl font-bold">{value}</p>}
+            {note && !isLoading && <p className="text-xs text-muted-foreground mt-1">{note}</p>}
+          </div>
+        ))}
+      </div>
+
+      {!isLoading && revenue.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Revenue per Provider</h3>
+          <div className="overflow-x-auto rounded-lg border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30">
+                  <TableHead>Provider</TableHead>
+                  <TableHead className="text-right">Payments</TableHead>
+                  <TableHead className="text-right">Revenue (CC)</TableHead>
+                  <TableHead className="text-right">Running</TableHead>
+                  <TableHead className="text-right">Churned</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {revenue.slice(0, 10).map((r) => (
+                  <TableRow key={r.provider}>
+                    <TableCell>
+                      <Link to={partyLink(r.provider)} className="font-mono text-xs hover:text-primary">
+                        <PartyName party={r.provider} />
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{r.payments.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCC(r.revenue)}</TableCell>
+                    <TableCell className="text-right font-mono">{r.active.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono">{r.churned.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4, 5].map((i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : subscriptions.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No subscriptions synced yet</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto rounded-lg border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30">
+                  <TableHead>Subscription</TableHead>
+                  <TableHead>Sender → Receiver</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Terms</TableHead>
+                  <TableHead className="text-right">Payments</TableHead>
+                  <TableHead className="text-right">Collected (CC)</TableHead>
+                  <TableHead className="text-right">Next payment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {displayed.map((s) => (
+                  <TableRow key={s.reference}>
+                    <TableCell>
+                      <p className="font-medium">{s.description || "—"}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {s.started_at ? `since ${new Date(s.started_at).toLocaleDateString()}` : "not started"}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-xs font-mono">
+                      {s.sender ? <PartyName party={s.sender} /> : "—"} →{" "}
+                      {s.receiver ? <PartyName party={s.receiver} /> : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[s.status]}>{s.status}</Badge>
+                      {s.ended_at && (
+                        <p className="text-xs text-muted-foreground mt-1">{new Date(s.ended_at).toLocaleDateString()}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {s.payment_amount ? `${formatCC(s.payment_amount)} ${s.payment_unit?.replace("Unit", "") ?? ""}` : "—"}
+                      <p className="text-xs text-muted-foreground">every {formatInterval(s.payment_interval_us)}</p>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {s.payments_collected.toLocaleString()}
+                      {s.payments_failed > 0 && (
+                        <p className="text-xs text-muted-foreground">{s.payments_failed} not collected</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCC(s.collected_amulet)}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      <NextPayment subscription={s} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <PaginationControls
+            currentPage={currentPage}
+            totalItems={subscriptions.length}
+            pageSize={PAGE_SIZE}
+            onPageChange={setCurrentPage}
+          />
+        </>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Revenue is the amulet collected by the receiver of each payment, attributed to the subscription's provider.
+        Churn counts subscriptions running at the start of the period that expired for lack of payment or were
+        cancelled before its end.
+      </p>
+    </Card>
+  );
+};
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, XAxis, YAxis, Legend } from "recharts";
+import { AlertTriangle, History } from "lucide-react";
+import { describeScanError } from "@/lib/scan-transport";
+import { SUPPLY_TOLERANCE, type SupplyHistoryPoint } from "@/lib/supply-history";
+import { SUPPLY_HISTORY_RANGES, useSupplyHistory, type SupplyHistoryRange } from "@/hooks/use-supply-history";
+
+const formatCompact = (value: number) => {
+  if (value >= 1_000_000_000) return `${(value / 1_000_000_000).toFixed(2)}B`;
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(0)}K`;
+  return value.toString();
+};
+
+const formatTime = (t: number) => new Date(t).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+// Snapshot dots turn red when the snapshot disagrees with the projection
+const SnapshotDot = ({ cx, cy, payload }: { cx?: number; cy?: number; payload?: SupplyHistoryPoint }) => {
+  if (cx == null || cy == null || payload?.snapshot == null) return null;
+  return (
+    <circle
+      cx={cx}
+      cy={cy}
+      r={payload.flagged ? 5 : 3}
+      fill={payload.flagged ? "hsl(var(--destructive))" : "hsl(var(--primary))"}
+      stroke="none"
+    />
+  );
+};
+
+export const SupplyHistoryChart = () => {
+  const [range, setRange] = useState<SupplyHistoryRange>("30d");
+  const { data: history, isLoading, error } = useSupplyHistory(range);
+
+  const flagged = history?.checks.filter((c) => c.flagged) ?? [];
+  const snapshotCount = history?.points.filter((p) => p.snapshot != null).length ?? 0;
+
+  return (
+    <Card className="glass-card">
+      <div className="p-6 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div>
+            <h3 className="text-xl font-bold flex items-center">
+              <History className="h-5 w-5 mr-2 text-primary" />
+              Supply History
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              Total supply (Amulet + LockedAmulet) per ACS snapshot, with the gaps projected from round totals
+            </p>
+          </div>
+          <div className="flex gap-1">
+            {(Object.keys(SUPPLY_HISTORY_RANGES) as SupplyHistoryRange[]).map((key) => (
+              <Button
+                key={key}
+                size="sm"
+                variant={range === key ? "default" : "outline"}
+                onClick={() => setRange(key)}
+              >
+                {SUPPLY_HISTORY_RANGES[key].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load supply history: {describeScanError(error)}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-[360px] w-full" />
+        ) : !history || history.points.length === 0 ? (
+          <div className="h-[360px] flex items-center justify-center">
+            <p className="text-muted-foreground">No completed snapshots in this range</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant="outline">{snapshotCount} snapshots</Badge>
+              <Badge variant="outline">{history.checks.length} checked against round totals</Badge>
+              {flagged.length > 0 ? (
+                <Badge variant="destructive">{flagged.length} outside tolerance</Badge>
+              ) : (
+                history.checks.length > 0 && <Badge variant="secondary">All within tolerance</Badge>
+              )}
+            </div>
+
+            <ChartContainer
+              config={{
+                snapshot: { label: "Snapshot total", color: "hsl(var(--primary))" },
+                projected: { label: "Projected", color: "hsl(var(--chart-2))" },
+              }}
+              className="h-[360px] w-full"
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={history.points}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={["dataMin", "dataMax"]}
+                    tickFormatter={formatTime}
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  />
+                  <YAxis
+                    domain={["auto", "auto"]}
+                    tickFormatter={formatCompact}
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => {
+                          const p = payload?.[0]?.payload;
+                          if (!p) return null;
+                          return `${new Date(p.time).toLocaleString()}${p.round != null ? ` · round ${p.round}` : ""}`;
+                        }}
+                      />
+                    }
+                  />
+                  <Legend />
+                  {history.migrationBoundaries.map((b) => (
+                    <ReferenceLine
+                      key={b.time}
+                      x={b.time}
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="4 4"
+                      label={{ value: `migration ${b.migrationId}`, fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+                    />
+                  ))}
+                  <Line
+                    dataKey="projected"
+                    name="Projected"
+                    stroke="hsl(var(--chart-2))"
+                    strokeDasharray="5 3"
+                    dot={false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    dataKey="snapshot"
+                    name="Snapshot total"
+                    stroke="hsl(var(--primary))"
+                    dot={<SnapshotDot />}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+
+            {flagged.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Snapshots disagreeing with round totals</AlertTitle>
+                <AlertDescription>
+                  <p className="mb-2">
+                    These snapshots differ from the projection from their previous snapshot by more than{" "}
+                    {(SUPPLY_TOLERANCE * 100).toFixed(1)}%.
+                  </p>
+                  <div className="space-y-1">
+                    {flagged.map((c) => (
+                      <div key={c.snapshotId} className="flex flex-wrap gap-x-3 text-xs font-mono">
+                        <span>{new Date(c.recordTime).toLocaleString()}</span>
+                        <span>{c.snapshotId.substring(0, 8)}</span>
+                        <span>actual {formatCompact(Number(c.actual))}</span>
+                        <span>projected {formatCompact(Number(c.projected))}</span>
+                        <span>{(c.deviation * 100).toFixed(2)}% off</span>
+                        {c.source === "mint-burn" && <span>(mint − burn estimate)</span>}
+                      </div>
+                    ))}
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+          </>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,374 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PaginationControls } from "@/components/PaginationControls";
+import { Download, RefreshCw } from "lucide-react";
+import { searchRoutes } from "@/lib/search-index";
+import { buildStatement, observedWeights, reconcileWeights, type Balance } from "@/lib/sv-reward-ledger";
+import {
+  useSvRewardAccounts,
+  useSvRewardCoupons,
+  useSvRewardLedgerCursors,
+  useSvRewardMovements,
+  useSyncSvRewardLedger,
+  type RewardAccountOption,
+} from "@/hooks/use-sv-reward-ledger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COUPON_PAGE_SIZE = 50;
+
+const utcDay = (t: number) => new Date(t).toISOString().slice(0, 10);
+
+const accountKey = (a: Pick<RewardAccountOption, "kind" | "party">) => `${a.kind}:${a.party}`;
+
+const formatCC = (b: Balance) => b.amount.toNumber().toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  outstanding: "outline",
+  claimed: "default",
+  expired: "destructive",
+  archived: "secondary",
+};
+
+export const SvRewardStatement = () => {
+  const accounts = useSvRewardAccounts();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [from, setFrom] = useState(utcDay(Date.now() - 30 * DAY_MS));
+  const [to, setTo] = useState(utcDay(Date.now()));
+  const [page, setPage] = useState(1);
+
+  const account = accounts.options.find((o) => accountKey(o) === selected) ?? null;
+  const movements = useSvRewardMovements(account, to);
+  const coupons = useSvRewardCoupons(account, from, to, page - 1, COUPON_PAGE_SIZE);
+  const cursors = useSvRewardLedgerCursors();
+  const sync = useSyncSvRewardLedger();
+
+  const statement = useMemo(
+    () => (movements.data ? buildStatement(movements.data, from, to) : null),
+    [movements.data, from, to],
+  );
+
+  const weightChecks = useMemo(() => {
+    if (!account || !movements.data) return [];
+    const inRange = movements.data.filter((m) => m.day >= from && m.day <= to);
+    const expected = accounts.expected.filter((e) =>
+      account.kind === "sv" ? e.operator === account.operator : e.beneficiary === account.party,
+    );
+    return reconcileWeights(expected, observedWeights(inRange));
+  }, [account, accounts.expected, movements.data, from, to]);
+
+  const lastSync = (cursors.data || []).reduce<string | null>(
+    (latest, c) => (!latest || c.updated_at > latest ? c.updated_at : latest),
+    null,
+  );
+
+  const exportCSV = () => {
+    if (!statement || !account) return;
+    const balance = (b: Balance) => [b.count, b.amount.toString()];
+    const rows = [
+      ["day", "issued_count", "issued_amount", "claimed_count", "claimed_amount", "expired_count", "expired_amount", "archived_count", "archived_amount", "outstanding_count", "outstanding_amount"],
+      ["opening", "", "", "", "", "", "", "", "", ...balance(statement.opening)],
+      ...statement.days.map((d) => [
+        d.day,
+        ...balance(d.issued),
+        ...balance(d.claimed),
+        ...balance(d.expired),
+        ...balance(d.archived),
+        ...balance(d.closing),
+      ]),
+    ];
+    const csv = rows.map((r) => r.join(",")).join("\n");
+    const blob = new Blob([csv], { type: "text/csv" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `sv-rewards-${account.party.split("::")[0]}-${from}-${to}.csv`;
+    link.click();
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-card">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+            <div>
+              <CardTitle>SV Reward Statement</CardTitle>
+              <CardDescription className="mt-1">
+                SvRewardCoupons issued, claimed and expired per beneficiary, from the ledger built out of the ingested
+                ledger events. Amounts are exact.
+              </CardDescription>
+            </div>
+            <div className="flex flex-col items-end gap-1">
+              <Button variant="outline" size="sm" onClick={() => sync.mutate({})} disabled={sync.isPending}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${sync.isPending ? "animate-spin" : ""}`} />
+                Sync ledger
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                {lastSync ? `Last synced ${new Date(lastSync).toLocaleString()}` : "Never synced"}
+              </p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Account</Label>
+              <Select
+                value={selected ?? undefined}
+                onValueChange={(v) => {
+                  setSelected(v);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[320px]">
+                  <SelectValue placeholder={accounts.isLoading ? "Loading SVs…" : "Choose an SV or beneficiary"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.options.map((o) => (
+                    <SelectItem key={accountKey(o)} value={accountKey(o)}>
+                      {o.kind === "beneficiary" && !o.label.startsWith(o.operator) ? `${o.operator} → ` : ""}
+                      {o.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="statement-from">From (UTC)</Label>
+              <Input
+                id="statement-from"
+                type="date"
+                value={from}
+                onChange={(e) => {
+                  setFrom(e.target.value);
+                  setPage(1);
+                }}
+                className="w-[170px]"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="statement-to">To (UTC)</Label>
+              <Input
+                id="statement-to"
+                type="date"
+                value={to}
+                onChange={(e) => {
+                  setTo(e.target.value);
+                  setPage(1);
+                }}
+                className="w-[170px]"
+              />
+            </div>
+            <Button variant="outline" onClick={exportCSV} disabled={!statement}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+
+          {accounts.error && (
+            <Alert variant="destructive">
+              <AlertDescription>Failed to load the SV list: {(accounts.error as Error).message}</AlertDescription>
+            </Alert>
+          )}
+          {movements.error && (
+            <Alert variant="destructive">
+              <AlertDescription>Failed to load the ledger: {(movements.error as Error).message}</AlertDescription>
+            </Alert>
+          )}
+
+          {!account ? (
+            <p className="text-sm text-muted-foreground">Choose an account to see its statement.</p>
+          ) : movements.isLoading || !statement ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {[
+                  { label: "Opening outstanding", value: statement.opening },
+                  { label: "Issued", value: statement.issued },
+                  { label: "Claimed", value: statement.claimed },
+                  { label: "Expired", value: statement.expired },
+                  { label: "Closing outstanding", value: statement.closing },
+                ].map(({ label, value }) => (
+                  <div key={label} className="p-4 rounded-lg bg-muted/30 border border-border/50">
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                    <p className="text-xl font-bold">{formatCC(value)} CC</p>
+                    <p className="text-xs text-muted-foreground">{value.count.toLocaleString()} coupons</p>
+                  </div>
+                ))}
+              </div>
+              {statement.archived.count > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {statement.archived.count} coupon(s) worth {formatCC(statement.archived)} CC were archived by other
+                  choices in the range.
+                </p>
+              )}
+              {statement.unpricedCount > 0 && (
+                <p className="text-sm text-warning">
+                  {statement.unpricedCount} coupon(s) belong to rounds that are not issuing yet and have no amount.
+                </p>
+              )}
+
+              <div className="overflow-x-auto rounded-lg border border-border/50 max-h-[420px]">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/30">
+                      <TableHead>Day</TableHead>
+                      <TableHead className="text-right">Issued</TableHead>
+                      <TableHead className="text-right">Claimed</TableHead>
+                      <TableHead className="text-right">Expired</TableHead>
+                      <TableHead className="text-right">Outstanding</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {statement.days.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          No movements in this range
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      [...statement.days].reverse().map((d) => (
+                        <TableRow key={d.day}>
+                          <TableCell className="font-mono text-xs">{d.day}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCC(d.issued)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCC(d.claimed)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCC(d.expired)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCC(d.closing)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {account && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>Weight Reconciliation</CardTitle>
+            <CardDescription className="mt-1">
+              Coupon weights in the range against approvedSvIdentities. An operator's own share is its rewardWeightBps
+              less what it passes on to extra beneficiaries.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {account.kind === "sv" && accounts.onChainWeights.has(account.operator) && (
+              <p className="text-sm">
+                DsoRules reward weight for {account.operator}:{" "}
+                <span className="font-mono">{accounts.onChainWeights.get(account.operator)}</span>
+              </p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Beneficiary</TableHead>
+                  <TableHead className="text-right">Configured</TableHead>
+                  <TableHead className="text-right">On coupons</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {weightChecks.map((c) => (
+                  <TableRow key={c.beneficiary}>
+                    <TableCell>
+                      <Link to={searchRoutes.party(c.beneficiary)} className="font-mono text-xs hover:text-primary">
+                        {c.beneficiary.split("::")[0]}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{c.weight}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {c.observedMin === null
+                        ? "—"
+                        : c.observedMin === c.observedMax
+                          ? c.observedMin
+                          : `${c.observedMin}–${c.observedMax}`}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={c.status === "match" ? "default" : c.status === "mismatch" ? "destructive" : "outline"}
+                      >
+                        {c.status === "missing" ? "no coupons" : c.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {account && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>Coupons</CardTitle>
+            <CardDescription className="mt-1">Every coupon issued in the range, newest round first</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {coupons.isLoading ? (
+              <Skeleton className="h-48 w-full" />
+            ) : (
+              <>
+                <div className="overflow-x-auto rounded-lg border border-border/50">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/30">
+                        <TableHead>Round</TableHead>
+                        {account.kind === "sv" && <TableHead>Beneficiary</TableHead>}
+                        <TableHead className="text-right">Weight</TableHead>
+                        <TableHead className="text-right">Per weight</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Closed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(coupons.data?.rows ?? []).map((c) => (
+                        <TableRow key={c.contract_id}>
+                          <TableCell>
+                            <Link to={searchRoutes.contract(c.contract_id)} className="font-mono hover:text-primary">
+                              {c.round}
+                            </Link>
+                          </TableCell>
+                          {account.kind === "sv" && (
+                            <TableCell className="font-mono text-xs">{c.beneficiary.split("::")[0]}</TableCell>
+                          )}
+                          <TableCell className="text-right font-mono">{c.weight}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">{c.issuance_per_sv_reward ?? "—"}</TableCell>
+                          <TableCell className="text-right font-mono">{c.amount ?? "pending"}</TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_VARIANTS[c.status] ?? "outline"}>{c.status}</Badge>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {c.closed_at ? new Date(c.closed_at).toLocaleString() : "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <PaginationControls
+                  currentPage={page}
+                  totalItems={coupons.data?.total ?? 0}
+                  pageSize={COUPON_PAGE_SIZE}
+                  onPageChange={setPage}
+                />
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
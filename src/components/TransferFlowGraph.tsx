@@ -0,0 +1,131 @@
+import { useMemo, useState } from "react";
+import { useAnsName } from "@/hooks/use-ans-registry";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import type { FlowEdge } from "@/lib/transfer-flows";
+
+const SIZE = 640;
+const CENTER = SIZE / 2;
+const RADIUS = SIZE / 2 - 90;
+const MIN_STROKE = 1;
+const MAX_STROKE = 10;
+
+interface TransferFlowGraphProps {
+  edges: FlowEdge[];
+  /** The party the graph is focused on, drawn highlighted */
+  focus: string | null;
+  onSelect: (party: string) => void;
+}
+
+interface GraphNode {
+  party: string;
+  volume: DamlDecimal;
+  x: number;
+  y: number;
+}
+
+const formatCC = (value: DamlDecimal) =>
+  Number(value.toString()).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const NodeLabel = ({ node }: { node: GraphNode }) => {
+  const name = useAnsName(node.party);
+  const label = name ?? node.party.split("::")[0];
+  // Labels sit outside the circle, on the node's side of it
+  const dx = node.x - CENTER;
+  const dy = node.y - CENTER;
+  const norm = Math.hypot(dx, dy) || 1;
+  return (
+    <text
+      x={node.x + (dx / norm) * 14}
+      y={node.y + (dy / norm) * 14}
+      textAnchor={Math.abs(dx) < 1 ? "middle" : dx > 0 ? "start" : "end"}
+      dominantBaseline="middle"
+      className="fill-foreground text-[10px] font-mono pointer-events-none"
+    >
+      {label.length > 18 ? `${label.slice(0, 16)}…` : label}
+    </text>
+  );
+};
+
+/**
+ * The edges as a directed graph, parties on a circle ordered by the volume
+ * they moved. Edge width follows the amount; hovering a party keeps only its
+ * edges in view and clicking it selects it.
+ */
+export const TransferFlowGraph = ({ edges, focus, onSelect }: TransferFlowGraphProps) => {
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const { nodes, byParty, maxAmount } = useMemo(() => {
+    const volumes = new Map<string, DamlDecimal>();
+    for (const e of edges) {
+      volumes.set(e.sender, (volumes.get(e.sender) ?? DamlDecimal.ZERO).add(e.amount));
+      volumes.set(e.receiver, (volumes.get(e.receiver) ?? DamlDecimal.ZERO).add(e.amount));
+    }
+    const sorted = Array.from(volumes.entries()).sort((a, b) => b[1].cmp(a[1]));
+    const nodes: GraphNode[] = sorted.map(([party, volume], i) => {
+      const angle = (2 * Math.PI * i) / sorted.length - Math.PI / 2;
+      return { party, volume, x: CENTER + RADIUS * Math.cos(angle), y: CENTER + RADIUS * Math.sin(angle) };
+    });
+    const maxAmount = edges.reduce((max, e) => Math.max(max, e.amount.toNumber()), 0);
+    return { nodes, byParty: new Map(nodes.map((n) => [n.party, n])), maxAmount };
+  }, [edges]);
+
+  const active = hovered ?? focus;
+  const strokeWidth = (amount: DamlDecimal) =>
+    maxAmount > 0 ? MIN_STROKE + (MAX_STROKE - MIN_STROKE) * Math.sqrt(amount.toNumber() / maxAmount) : MIN_STROKE;
+
+  if (nodes.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">No flows match the filters</p>;
+  }
+
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[640px] mx-auto h-auto">
+      <defs>
+        <marker id="flow-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="4" markerHeight="4" orient="auto">
+          <path d="M 0 0 L 10 5 L 0 10 z" className="fill-primary" />
+        </marker>
+      </defs>
+      {edges.map((e) => {
+        const from = byParty.get(e.sender)!;
+        const to = byParty.get(e.receiver)!;
+        const touches = !active || e.sender === active || e.receiver === active;
+        // Curve every edge to its right, so flows both ways between two parties stay apart
+        const mx = (from.x + to.x) / 2 + (to.y - from.y) * 0.15;
+        const my = (from.y + to.y) / 2 - (to.x - from.x) * 0.15;
+        return (
+          <path
+            key={`${e.sender}|${e.receiver}`}
+            d={`M ${from.x} ${from.y} Q ${mx} ${my} ${to.x} ${to.y}`}
+            fill="none"
+            strokeWidth={strokeWidth(e.amount)}
+            strokeLinecap="round"
+            markerEnd="url(#flow-arrow)"
+            className="stroke-primary transition-opacity"
+            opacity={touches ? 0.7 : 0.05}
+          >
+            <title>{`${formatCC(e.amount)} CC in ${e.transfers} transfer${e.transfers === 1 ? "" : "s"}`}</title>
+          </path>
+        );
+      })}
+      {nodes.map((n) => (
+        <g
+          key={n.party}
+          className="cursor-pointer"
+          onMouseEnter={() => setHovered(n.party)}
+          onMouseLeave={() => setHovered(null)}
+          onClick={() => onSelect(n.party)}
+        >
+          <circle
+            cx={n.x}
+            cy={n.y}
+            r={n.party === focus ? 9 : 6}
+            className={n.party === active ? "fill-primary" : "fill-muted-foreground"}
+            stroke="hsl(var(--background))"
+            strokeWidth={2}
+          />
+          <NodeLabel node={n} />
+          <title>{`${n.party}\n${formatCC(n.volume)} CC moved`}</title>
+        </g>
+      ))}
+    </svg>
+  );
+};
@@ -11,7 +11,7 @@ export const TriggerACSSnapshotButton = () => {
 
   return (
     <Button
-      onClick={() => triggerSnapshot()}
+      onClick={() => triggerSnapshot(undefined)}
       disabled={isPending || hasSnapshotInProgress}
       variant="outline"
       size="sm"
@@ -15,10 +15,31 @@ export interface ACSSnapshot {
   entry_count: number;
   status: 'processing' | 'completed' | 'failed';
   error_message: string | null;
+  /** "full" for an ACS pull, "incremental" when derived from ledger deltas */
+  processing_mode: string | null;
+  previous_snapshot_id: string | null;
+  verification: SnapshotVerification | null;
   created_at: string;
   updated_at: string;
 }
 
+/** Check of a full snapshot against previous snapshot + ledger deltas */
+export interface SnapshotVerification {
+  base_snapshot_id?: string;
+  checked_at?: string;
+  delta_events?: number;
+  templates_checked?: number;
+  ok?: boolean;
+  /** Set when the check could not run, e.g. "delta too large" */
+  skipped?: string;
+  mismatches?: Array<{
+    template_id: string;
+    expected_count: number;
+    actual_count: number;
+    checksum_matches: boolean;
+  }>;
+}
+
 export interface ACSTemplateStats {
   id: string;
   snapshot_id: string;
@@ -27,6 +48,7 @@ export interface ACSTemplateStats {
   field_sums: Record<string, string> | null;
   status_tallies: Record<string, number> | null;
   storage_path: string | null;
+  contract_id_checksum: string | null;
   created_at: string;
 }
 
@@ -130,17 +152,23 @@ export function useTriggerACSSnapshot() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
-      const { data, error } = await supabase.functions.invoke("fetch-acs-snapshot");
+    // Without a mode the function picks incremental unless a full pull is due
+    mutationFn: async (mode?: "full" | "incremental") => {
+      const { data, error } = await supabase.functions.invoke("fetch-acs-snapshot", {
+        body: mode ? { mode } : {},
+      });
 
       if (error) throw error;
       return data;
     },
     onSuccess: (data) => {
-      toast.success("ACS snapshot started", {
+      toast.success(data.message ?? "ACS snapshot started", {
         description: `Snapshot ID: ${data.snapshot_id}`,
       });
       queryClient.invalidateQueries({ queryKey: ["acsSnapshots"] });
+      // Incremental snapshots complete within the request
+      queryClient.invalidateQueries({ queryKey: ["latestAcsSnapshot"] });
+      queryClient.invalidateQueries({ queryKey: ["activeAcsSnapshot"] });
     },
     onError: (error: Error) => {
       toast.error("Failed to start ACS snapshot", {
@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { manifestChunkPaths, readChunkManifest } from "@/lib/acs-manifest";
 
 interface TemplateDataMetadata {
   template_id: string;
@@ -12,17 +13,6 @@ interface TemplateDataResponse<T = any> {
   data: T[];
 }
 
-interface ChunkManifest {
-  templateId: string;
-  totalChunks: number;
-  totalEntries: number;
-  chunks: Array<{
-    index: number;
-    path: string;
-    entryCount: number;
-  }>;
-}
-
 /**
  * Helper function to fetch template data, handling both chunked and direct formats
  */
@@ -43,98 +33,27 @@ async function fetchTemplateData(storagePath: string): Promise<any[]> {
   const text = await fileData.text();
   const parsed = JSON.parse(text);
 
-  // Check if it's a manifest file (support both new and legacy shapes)
-  if (parsed && parsed.chunks && Array.isArray(parsed.chunks)) {
-    const totalChunks = parsed.totalChunks ?? parsed.total_chunks ?? parsed.chunks.length;
-    const totalEntries = parsed.totalEntries ?? parsed.total_entries ?? undefined;
-
-    // Normalize chunk objects: support {index,path,entryCount} and {chunkIndex,storagePath,contractCount}
-    const normalized = (parsed.chunks as any[])
-      .map((c) => ({
-        index: c.index ?? c.chunkIndex ?? 0,
-        path: c.path ?? c.storagePath ?? "",
-        entryCount: c.entryCount ?? c.contractCount ?? 0,
-      }))
-      .filter((c) => !!c.path);
-
-    // De-duplicate by path in case manifest contains repeated entries
-    const byPath = new Map<string, { index: number; path: string; entryCount: number }>();
-    for (const c of normalized) {
-      if (!byPath.has(c.path)) byPath.set(c.path, c);
-    }
-    const chunks = Array.from(byPath.values());
-
+  // Manifest files list the chunks to read (see lib/acs-manifest.ts)
+  const manifest = readChunkManifest(parsed, storagePath);
+  if (manifest) {
+    const chunkPaths = await manifestChunkPaths(manifest);
     console.log(
-      `[fetchTemplateData] Manifest detected: ${chunks.length} unique chunks (declared: ${totalChunks}), expected entries: ${totalEntries ?? "unknown"}`
+      `[fetchTemplateData] Manifest detected: ${chunkPaths.length} chunks, expected entries: ${manifest.totalEntries ?? "unknown"}`
     );
 
-    // Fallback: auto-discover additional chunks in the same folder when manifest looks incomplete
-    let discoveredChunkPaths: string[] = [];
-    try {
-      const sample = chunks[0];
-      if (sample?.path?.includes("/_") || sample?.path?.includes("/")) {
-        const lastSlash = sample.path.lastIndexOf("/");
-        const dir = sample.path.substring(0, lastSlash);
-        const file = sample.path.substring(lastSlash + 1);
-        const basePrefix = file.split("_chunk_")[0] + "_chunk_"; // e.g. <hash>_Splice_Amulet_Amulet_chunk_
-
-        if (basePrefix.includes("_chunk_")) {
-          const { data: listed, error: listError } = await supabase.storage
-            .from("acs-data")
-            .list(dir, { limit: 1000, search: basePrefix });
-
-          if (listError) {
-            console.warn("[fetchTemplateData] Chunk list failed:", listError);
-          } else if (Array.isArray(listed) && listed.length > 0) {
-            const names = listed
-              .filter((it) => it.name.startsWith(basePrefix) && it.name.endsWith(".json"))
-              .map((it) => `${dir}/${it.name}`);
-            const existing = new Set(chunks.map((c) => c.path));
-            for (const p of names) if (!existing.has(p)) discoveredChunkPaths.push(p);
-            if (discoveredChunkPaths.length > 0) {
-              console.log(
-                `[fetchTemplateData] 🔎 Discovered ${discoveredChunkPaths.length} additional chunks via prefix listing`
-              );
-            }
-          }
-        }
-      }
-    } catch (e) {
-      console.warn("[fetchTemplateData] Fallback discovery errored:", e);
-    }
-
-    const allChunkDescriptors = [
-      ...chunks,
-      ...discoveredChunkPaths.map((p, i) => ({ index: chunks.length + i, path: p, entryCount: 0 })),
-    ];
-
     // Download all chunks in parallel
-    const chunkPromises = allChunkDescriptors.map(async (chunk) => {
-      console.log(`[fetchTemplateData] Downloading chunk ${chunk.index}: ${chunk.path}`);
-      const { data: chunkData, error: chunkError } = await supabase.storage
-        .from("acs-data")
-        .download(chunk.path);
-
-      if (chunkError) {
-        console.warn(`[fetchTemplateData] Failed to download chunk ${chunk.index}:`, chunkError);
-        return [] as any[];
-      }
-
-      if (!chunkData) return [] as any[];
-
-      const chunkText = await chunkData.text();
-      const chunkArray = JSON.parse(chunkText);
-      const count = Array.isArray(chunkArray) ? chunkArray.length : 0;
-      console.log(
-        `[fetchTemplateData] Chunk ${chunk.index} loaded: ${count} contracts (manifest said: ${chunk.entryCount})`
-      );
-      return Array.isArray(chunkArray) ? chunkArray : [];
-    });
-
-    const chunkArrays = await Promise.all(chunkPromises);
+    const chunkArrays = await Promise.all(
+      chunkPaths.map(async (path) => {
+        const { data: chunkData, error: chunkError } = await supabase.storage.from("acs-data").download(path);
+        if (chunkError) console.warn(`[fetchTemplateData] Failed to download chunk ${path}:`, chunkError);
+        if (chunkError || !chunkData) return [] as any[];
+        const chunkArray = JSON.parse(await chunkData.text());
+        return Array.isArray(chunkArray) ? chunkArray : [];
+      })
+    );
     const allData = chunkArrays.flat();
     console.log(
-      `[fetchTemplateData] ✅ Total loaded from manifest: ${allData.length} entries (expected: ${totalEntries ?? "unknown"})`
+      `[fetchTemplateData] ✅ Total loaded from manifest: ${allData.length} entries (expected: ${manifest.totalEntries ?? "unknown"})`
     );
     return allData;
   }
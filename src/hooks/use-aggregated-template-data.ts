@@ -1,16 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-
-interface ChunkManifest {
-  templateId: string;
-  totalChunks: number;
-  totalEntries: number;
-  chunks: Array<{
-    index: number;
-    path: string;
-    entryCount: number;
-  }>;
-}
+import { manifestChunkPaths, readChunkManifest } from "@/lib/acs-manifest";
 
 /**
  * Helper function to fetch template data, handling both chunked and direct formats
@@ -26,74 +16,20 @@ async function fetchTemplateData(storagePath: string): Promise<any[]> {
   const text = await fileData.text();
   const parsed = JSON.parse(text);
 
-  // Check if it's a manifest file (support both new and legacy shapes)
-  if (parsed && parsed.chunks && Array.isArray(parsed.chunks)) {
-    const totalChunks = parsed.totalChunks ?? parsed.total_chunks ?? parsed.chunks.length;
-    const totalEntries = parsed.totalEntries ?? parsed.total_entries ?? undefined;
-
-    // Normalize chunk objects: support {index,path,entryCount} and {chunkIndex,storagePath,contractCount}
-    const normalized = (parsed.chunks as any[])
-      .map((c) => ({
-        index: c.index ?? c.chunkIndex ?? 0,
-        path: c.path ?? c.storagePath ?? "",
-        entryCount: c.entryCount ?? c.contractCount ?? 0,
-      }))
-      .filter((c) => !!c.path);
-
-    // De-duplicate by path in case manifest contains repeated entries
-    const byPath = new Map<string, { index: number; path: string; entryCount: number }>();
-    for (const c of normalized) {
-      if (!byPath.has(c.path)) byPath.set(c.path, c);
-    }
-    const chunks = Array.from(byPath.values());
-
-    // Fallback: auto-discover additional chunks in the same folder when manifest looks incomplete
-    let discoveredChunkPaths: string[] = [];
-    try {
-      const sample = chunks[0];
-      if (sample?.path?.includes("/_") || sample?.path?.includes("/")) {
-        const lastSlash = sample.path.lastIndexOf("/");
-        const dir = sample.path.substring(0, lastSlash);
-        const file = sample.path.substring(lastSlash + 1);
-        const basePrefix = file.split("_chunk_")[0] + "_chunk_"; // e.g. <hash>_Splice_Amulet_Amulet_chunk_
-
-        if (basePrefix.includes("_chunk_")) {
-          const { data: listed, error: listError } = await supabase.storage
-            .from("acs-data")
-            .list(dir, { limit: 1000, search: basePrefix });
-
-          if (!listError && Array.isArray(listed) && listed.length > 0) {
-            const names = listed
-              .filter((it) => it.name.startsWith(basePrefix) && it.name.endsWith(".json"))
-              .map((it) => `${dir}/${it.name}`);
-            const existing = new Set(chunks.map((c) => c.path));
-            for (const p of names) if (!existing.has(p)) discoveredChunkPaths.push(p);
-          }
-        }
-      }
-    } catch (e) {
-      // Fallback discovery failed, continue with manifest chunks only
-    }
-
-    const allChunkDescriptors = [
-      ...chunks,
-      ...discoveredChunkPaths.map((p, i) => ({ index: chunks.length + i, path: p, entryCount: 0 })),
-    ];
+  // Manifest files list the chunks to read (see lib/acs-manifest.ts)
+  const manifest = readChunkManifest(parsed, storagePath);
+  if (manifest) {
+    const chunkPaths = await manifestChunkPaths(manifest);
 
     // Download all chunks in parallel
-    const chunkPromises = allChunkDescriptors.map(async (chunk) => {
-      const { data: chunkData, error: chunkError } = await supabase.storage
-        .from("acs-data")
-        .download(chunk.path);
-
-      if (chunkError || !chunkData) return [] as any[];
-
-      const chunkText = await chunkData.text();
-      const chunkArray = JSON.parse(chunkText);
-      return Array.isArray(chunkArray) ? chunkArray : [];
-    });
-
-    const chunkArrays = await Promise.all(chunkPromises);
+    const chunkArrays = await Promise.all(
+      chunkPaths.map(async (path) => {
+        const { data: chunkData, error: chunkError } = await supabase.storage.from("acs-data").download(path);
+        if (chunkError || !chunkData) return [] as any[];
+        const chunkArray = JSON.parse(await chunkData.text());
+        return Array.isArray(chunkArray) ? chunkArray : [];
+      })
+    );
     return chunkArrays.flat();
   }
 
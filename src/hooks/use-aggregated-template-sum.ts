@@ -1,5 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { manifestChunkPaths, readChunkManifest } from "@/lib/acs-manifest";
 
 /**
  * Limits concurrent async operations
@@ -27,17 +29,9 @@ async function limitConcurrency<T>(
   return results;
 }
 
-interface ChunkManifest {
-  template_id: string;
-  snapshot_timestamp: string;
-  entry_count: number;
-  chunk_count?: number;
-  chunks?: Array<{ index: number; path: string; count: number }>;
-  chunk_paths?: string[];
-}
-
 interface AggregationResult {
-  sum: number;
+  /** Exact 10-decimal total, e.g. "1234.5000000000" */
+  sum: string;
   count: number;
   templateCount: number;
 }
@@ -49,7 +43,7 @@ interface AggregationResult {
 export function useAggregatedTemplateSum(
   snapshotId: string | undefined,
   templateSuffix: string,
-  pickFn: (obj: any) => number,
+  pickFn: (obj: any) => DamlDecimal,
   enabled: boolean = true
 ) {
   return useQuery<AggregationResult, Error>({
@@ -66,10 +60,10 @@ export function useAggregatedTemplateSum(
 
       if (templatesError) throw templatesError;
       if (!templates || templates.length === 0) {
-        return { sum: 0, count: 0, templateCount: 0 };
+        return { sum: DamlDecimal.ZERO.toString(), count: 0, templateCount: 0 };
       }
 
-      let totalSum = 0;
+      let totalSum = DamlDecimal.ZERO;
       let totalCount = 0;
 
       // Process each template
@@ -88,52 +82,10 @@ export function useAggregatedTemplateSum(
         const text = await fileData.text();
         const parsed = JSON.parse(text);
 
-        // Check if it's a manifest
-        if (parsed.template_id && (parsed.chunks || parsed.chunk_paths)) {
-          const manifest: ChunkManifest = parsed;
-          let chunkPaths: string[] = [];
-
-          if (manifest.chunks) {
-            chunkPaths = manifest.chunks.map((c) => c.path);
-          } else if (manifest.chunk_paths) {
-            chunkPaths = manifest.chunk_paths;
-          }
-
-          // Normalize paths relative to manifest directory
-          const manifestDir = template.storage_path.substring(
-            0,
-            template.storage_path.lastIndexOf("/") + 1
-          );
-          chunkPaths = chunkPaths.map((path) =>
-            path.startsWith(manifestDir) ? path : manifestDir + path
-          );
-
-          // Best-effort: discover additional chunks if manifest appears incomplete
-          try {
-            const samplePath = chunkPaths[0];
-            if (samplePath) {
-              const lastSlash = samplePath.lastIndexOf("/");
-              const dir = samplePath.substring(0, lastSlash);
-              const file = samplePath.substring(lastSlash + 1);
-              const basePrefix = file.split("_chunk_")[0] + "_chunk_";
-
-              if (basePrefix.includes("_chunk_")) {
-                const { data: listed, error: listError } = await supabase.storage
-                  .from("acs-data")
-                  .list(dir, { limit: 1000, search: basePrefix });
-
-                if (!listError && Array.isArray(listed) && listed.length > 0) {
-                  const discovered = listed
-                    .filter((it) => it.name.startsWith(basePrefix) && it.name.endsWith(".json"))
-                    .map((it) => `${dir}/${it.name}`);
-                  const existing = new Set(chunkPaths);
-                  for (const p of discovered) if (!existing.has(p)) chunkPaths.push(p);
-                }
-              }
-            }
-          } catch (_) {
-            // ignore discovery errors and proceed with manifest chunks only
-          }
+        // Manifest files list the chunks to read (see lib/acs-manifest.ts)
+        const manifest = readChunkManifest(parsed, template.storage_path);
+        if (manifest) {
+          const chunkPaths = await manifestChunkPaths(manifest);
 
           // Process chunks with limited concurrency (4 at a time)
           const chunkTasks = chunkPaths.map((chunkPath) => async () => {
@@ -144,41 +96,41 @@ export function useAggregatedTemplateSum(
 
               if (chunkError) {
                 console.warn(`Failed to download chunk ${chunkPath}:`, chunkError);
-                return { sum: 0, count: 0 };
+                return { sum: DamlDecimal.ZERO, count: 0 };
               }
 
               const chunkText = await chunkData.text();
               const chunkArray = JSON.parse(chunkText);
 
               if (!Array.isArray(chunkArray)) {
-                return { sum: 0, count: 0 };
+                return { sum: DamlDecimal.ZERO, count: 0 };
               }
 
               // Sum this chunk and discard it
-              const chunkSum = chunkArray.reduce((acc, item) => acc + pickFn(item), 0);
+              const chunkSum = chunkArray.reduce((acc: DamlDecimal, item) => acc.add(pickFn(item)), DamlDecimal.ZERO);
               return { sum: chunkSum, count: chunkArray.length };
             } catch (err) {
               console.warn(`Error processing chunk ${chunkPath}:`, err);
-              return { sum: 0, count: 0 };
+              return { sum: DamlDecimal.ZERO, count: 0 };
             }
           });
 
           const chunkResults = await limitConcurrency(chunkTasks, 4);
           
           for (const result of chunkResults) {
-            totalSum += result.sum;
+            totalSum = totalSum.add(result.sum);
             totalCount += result.count;
           }
         } else if (Array.isArray(parsed)) {
           // Direct JSON array
-          const sum = parsed.reduce((acc, item) => acc + pickFn(item), 0);
-          totalSum += sum;
+          const sum = parsed.reduce((acc: DamlDecimal, item) => acc.add(pickFn(item)), DamlDecimal.ZERO);
+          totalSum = totalSum.add(sum);
           totalCount += parsed.length;
         }
       }
 
       return {
-        sum: totalSum,
+        sum: totalSum.toString(),
         count: totalCount,
         templateCount: templates.length,
       };
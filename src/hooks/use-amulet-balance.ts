@@ -0,0 +1,95 @@
+import { useCallback, useMemo, useState } from "react";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { decodeContracts } from "@/lib/splice-decoders";
+import { snapshotRound } from "@/lib/rich-list";
+import {
+  holdingFeeRate,
+  roundHoldingFeeRate,
+  type BalanceMode,
+  type HoldingFeeRateFor,
+} from "@/lib/amulet-balance";
+import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
+import { useAmuletConfigForRound } from "@/hooks/use-amulet-config-timeline";
+
+const STORAGE_KEY = "balanceMode";
+
+function storedMode(): BalanceMode {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === "nominal" ? "nominal" : "effective";
+  } catch {
+    return "effective";
+  }
+}
+
+/** Nominal or effective balances, remembered across pages */
+export function useBalanceMode(): [BalanceMode, (mode: BalanceMode) => void] {
+  const [mode, setModeState] = useState<BalanceMode>(storedMode);
+  const setMode = useCallback((next: BalanceMode) => {
+    setModeState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Private windows may refuse storage; the choice then lasts for the page
+    }
+  }, []);
+  return [mode, setMode];
+}
+
+/**
+ * The round to value a snapshot's amulets at and the holding fee rates in
+ * force. The round follows the rich list's rule (see snapshotRound): the
+ * latest round open at the snapshot's record time, else the latest round
+ * any of its amulets was created in. Each open round brings its own rate;
+ * older creation rounds use the rate of Scan's config for the round at the
+ * current amulet price.
+ */
+export function useSnapshotBalanceRound(snapshot: { id: string; record_time: string } | null | undefined) {
+  const openRoundsQuery = useAggregatedTemplateData(snapshot?.id, "Splice:Round:OpenMiningRound", !!snapshot);
+
+  const openRounds = useMemo(
+    () => (openRoundsQuery.data ? decodeContracts("Splice:Round:OpenMiningRound", openRoundsQuery.data.data).values : []),
+    [openRoundsQuery.data],
+  );
+  const opened = useMemo(
+    () =>
+      openRounds
+        .filter((r) => !!snapshot && r.opensAt <= snapshot.record_time)
+        .sort((a, b) => b.round.number - a.round.number),
+    [openRounds, snapshot],
+  );
+
+  // Only a snapshot without an open round needs its amulets for the round
+  const needsAmulets = !!snapshot && !!openRoundsQuery.data && opened.length === 0;
+  const amuletsQuery = useAggregatedTemplateData(snapshot?.id, "Splice:Amulet:Amulet", needsAmulets);
+  const lockedQuery = useAggregatedTemplateData(snapshot?.id, "Splice:Amulet:LockedAmulet", needsAmulets);
+
+  const round = useMemo(() => {
+    if (!snapshot || !openRoundsQuery.data) return null;
+    if (opened.length > 0) return opened[0].round.number;
+    if (!amuletsQuery.data || !lockedQuery.data) return null;
+    return snapshotRound(
+      snapshot.record_time,
+      openRounds,
+      decodeContracts("Splice:Amulet:Amulet", amuletsQuery.data.data).values,
+      decodeContracts("Splice:Amulet:LockedAmulet", lockedQuery.data.data).values,
+    );
+  }, [snapshot, openRoundsQuery.data, openRounds, opened, amuletsQuery.data, lockedQuery.data]);
+  const config = useAmuletConfigForRound(round);
+
+  const rateFor = useMemo<HoldingFeeRateFor>(() => {
+    const byRound = new Map<number, DamlDecimal>();
+    for (const r of openRounds) {
+      const rate = roundHoldingFeeRate(r);
+      if (rate) byRound.set(r.round.number, rate);
+    }
+    const current = holdingFeeRate(config.data?.holding_fee, opened[0]?.amuletPrice);
+    return (createdAtRound) => byRound.get(createdAtRound) ?? current;
+  }, [openRounds, opened, config.data]);
+
+  return {
+    round,
+    rateFor,
+    isLoading: openRoundsQuery.isLoading || (needsAmulets && (amuletsQuery.isLoading || lockedQuery.isLoading)),
+    error: openRoundsQuery.error ?? amuletsQuery.error ?? lockedQuery.error,
+  };
+}
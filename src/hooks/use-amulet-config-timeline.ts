@@ -0,0 +1,125 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { scanApi } from "@/lib/api-client";
+import {
+  buildConfigTimeline,
+  parseConfigSchedule,
+  type AmuletRulesVersion,
+  type ConfigChange,
+} from "@/lib/amulet-config-timeline";
+
+const PAGE_SIZE = 1000;
+const UPDATE_ID_BATCH = 100;
+
+export interface TimelineEntry extends ConfigChange {
+  /** First mining round opened under this config; null if none is ingested yet */
+  fromRound: number | null;
+  /** Governance proposal whose execution created the version carrying this config */
+  proposal: { proposal_id: string; action_tag: string } | null;
+  /** The AmuletRules choice that created the version, e.g. AmuletRules_SetConfig */
+  choice: string | null;
+}
+
+async function loadVersions(): Promise<AmuletRulesVersion[]> {
+  const versions = new Map<string, AmuletRulesVersion>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("ledger_events")
+      .select("contract_id, update_id, payload, created_at_ts")
+      .like("template_id", "%:AmuletRules")
+      .in("event_type", ["created_event", "reassign_create"])
+      .order("created_at_ts", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const row of data || []) {
+      const schedule = parseConfigSchedule((row.payload as { configSchedule?: unknown } | null)?.configSchedule);
+      // Reassignments recreate the same contract; keep its first appearance
+      if (!schedule || !row.contract_id || !row.update_id || versions.has(row.contract_id)) continue;
+      versions.set(row.contract_id, {
+        contractId: row.contract_id,
+        updateId: row.update_id,
+        recordTime: row.created_at_ts ?? "",
+        schedule,
+      });
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return Array.from(versions.values());
+}
+
+async function loadSources(updateIds: string[]) {
+  const proposals = new Map<string, { proposal_id: string; action_tag: string }>();
+  const choices = new Map<string, string>();
+  for (let i = 0; i < updateIds.length; i += UPDATE_ID_BATCH) {
+    const batch = updateIds.slice(i, i + UPDATE_ID_BATCH);
+    const [governance, exercises] = await Promise.all([
+      supabase.from("governance_proposals").select("proposal_id, action_tag, close_update_id").in("close_update_id", batch),
+      supabase
+        .from("ledger_events")
+        .select("update_id, raw")
+        .like("template_id", "%:AmuletRules")
+        .eq("event_type", "exercised_event")
+        .in("update_id", batch),
+    ]);
+    if (governance.error) throw governance.error;
+    if (exercises.error) throw exercises.error;
+    for (const p of governance.data || []) {
+      if (p.close_update_id) proposals.set(p.close_update_id, { proposal_id: p.proposal_id, action_tag: p.action_tag });
+    }
+    for (const e of exercises.data || []) {
+      const raw = e.raw as { choice?: string; consuming?: boolean } | null;
+      if (e.update_id && raw?.consuming === true && raw.choice) choices.set(e.update_id, raw.choice);
+    }
+  }
+  return { proposals, choices };
+}
+
+/** The first mining round created at or after `time` */
+async function firstRoundFrom(time: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("ledger_events")
+    .select("payload")
+    .like("template_id", "%:OpenMiningRound")
+    .eq("event_type", "created_event")
+    .gte("created_at_ts", time)
+    .order("created_at_ts", { ascending: true })
+    .limit(1);
+  if (error) throw error;
+  const round = (data?.[0]?.payload as { round?: { number?: string } } | undefined)?.round?.number;
+  return round != null ? Number(round) : null;
+}
+
+/** Every AmuletRules config change in the ingested history, oldest first */
+export function useAmuletConfigTimeline() {
+  return useQuery({
+    queryKey: ["amuletConfigTimeline"],
+    queryFn: async (): Promise<{ entries: TimelineEntry[]; versionCount: number }> => {
+      const versions = await loadVersions();
+      const changes = buildConfigTimeline(versions);
+      const [{ proposals, choices }, rounds] = await Promise.all([
+        loadSources(Array.from(new Set(changes.map((c) => c.updateId)))),
+        Promise.all(changes.map((c) => firstRoundFrom(c.effectiveAt))),
+      ]);
+      const entries = changes.map((c, i) => ({
+        ...c,
+        fromRound: rounds[i],
+        // Scheduled values come from the version that added them to the schedule
+        proposal: proposals.get(c.updateId) ?? null,
+        choice: choices.get(c.updateId) ?? null,
+      }));
+      return { entries, versionCount: versions.length };
+    },
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+/** Scan's view of the fees in force for one round */
+export function useAmuletConfigForRound(round: number | null) {
+  return useQuery({
+    queryKey: ["amuletConfigForRound", round],
+    queryFn: () => scanApi.fetchAmuletConfigForRound(round!),
+    enabled: round !== null && round >= 0,
+    retry: 1,
+    staleTime: Infinity,
+  });
+}
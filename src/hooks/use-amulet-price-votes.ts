@@ -0,0 +1,134 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { scanApi } from "@/lib/api-client";
+import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
+import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
+import { decodeContract, decodeContracts } from "@/lib/splice-decoders";
+import type { PriceVote, PriceVoteEvent } from "@/lib/amulet-price-votes";
+
+const PRICE_VOTE_TEMPLATE = "Splice:DSO:AmuletPrice:AmuletPriceVote";
+const PAGE_SIZE = 1000;
+// Enough for a few months of votes from every SV
+const MAX_HISTORY_ROWS = 20_000;
+
+/** Current votes from the latest ACS snapshot, with SV names from DsoRules */
+export function useAmuletPriceVotes() {
+  const { data: snapshot } = useLatestACSSnapshot();
+  const votesQuery = useAggregatedTemplateData(snapshot?.id, PRICE_VOTE_TEMPLATE, !!snapshot);
+  const dsoRulesQuery = useAggregatedTemplateData(snapshot?.id, "Splice:DsoRules:DsoRules", !!snapshot);
+
+  const svNames = useMemo(() => {
+    const names = new Map<string, string>();
+    const [dsoRules] = dsoRulesQuery.data ? decodeContracts("Splice:DsoRules:DsoRules", dsoRulesQuery.data.data).values : [];
+    for (const [party, info] of dsoRules?.svs ?? []) names.set(party, info.name);
+    return names;
+  }, [dsoRulesQuery.data]);
+
+  const decoded = useMemo(
+    () => (votesQuery.data ? decodeContracts(PRICE_VOTE_TEMPLATE, votesQuery.data.data) : null),
+    [votesQuery.data],
+  );
+
+  const votes: PriceVote[] = useMemo(
+    () =>
+      (decoded?.values ?? []).map((v) => ({
+        sv: v.sv,
+        svName: svNames.get(v.sv) ?? v.sv.split("::")[0],
+        price: v.amuletPrice ?? null,
+        lastUpdatedAt: v.lastUpdatedAt,
+      })),
+    [decoded, svNames],
+  );
+
+  return {
+    snapshot,
+    votes,
+    svNames,
+    failures: decoded?.failures ?? [],
+    isLoading: !snapshot || votesQuery.isLoading || dsoRulesQuery.isLoading,
+    error: votesQuery.error ?? dsoRulesQuery.error,
+  };
+}
+
+/** The price the DSO set on the newest open mining round, i.e. the last median it applied */
+export function useLatestRoundPrice() {
+  return useQuery({
+    queryKey: ["latestRoundPrice"],
+    queryFn: async () => {
+      const res = await scanApi.fetchOpenAndIssuingRounds();
+      const rounds = Object.values(res.open_mining_rounds || {})
+        .map((r) => decodeContract("Splice:Round:OpenMiningRound", r.contract.payload, r.contract.contract_id))
+        .flatMap((r) => (r.ok ? [r.value] : []))
+        .sort((a, b) => b.round.number - a.round.number);
+      return rounds[0] ? { round: rounds[0].round.number, price: rounds[0].amuletPrice, opensAt: rounds[0].opensAt } : null;
+    },
+    staleTime: 60_000,
+  });
+}
+
+function toEvent(row: { contract_id: string | null; payload: unknown; created_at_ts: string | null }): PriceVoteEvent | null {
+  const decoded = decodeContract(PRICE_VOTE_TEMPLATE, row.payload, row.contract_id ?? undefined);
+  if (!decoded.ok) return null;
+  return {
+    sv: decoded.value.sv,
+    price: decoded.value.amuletPrice ?? null,
+    at: row.created_at_ts ?? decoded.value.lastUpdatedAt,
+  };
+}
+
+/**
+ * Vote contracts created since `days` ago, from ledger_events. Each SV's last
+ * vote before the window is loaded too, so the median at the start of the
+ * window includes SVs that did not change their vote inside it.
+ */
+export function useAmuletPriceVoteHistory(days: number, svParties: string[]) {
+  return useQuery({
+    queryKey: ["amuletPriceVoteHistory", days, svParties],
+    queryFn: async () => {
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const base = () =>
+        supabase
+          .from("ledger_events")
+          .select("contract_id, payload, created_at_ts")
+          .like("template_id", "%:AmuletPriceVote")
+          .in("event_type", ["created_event", "reassign_create"]);
+
+      const rows: { contract_id: string | null; payload: unknown; created_at_ts: string | null }[] = [];
+      for (let from = 0; from < MAX_HISTORY_ROWS; from += PAGE_SIZE) {
+        const { data, error } = await base()
+          .gte("created_at_ts", since)
+          .order("created_at_ts", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      const seeds = await Promise.all(
+        svParties.map(async (sv) => {
+          const { data, error } = await base()
+            .eq("payload->>sv", sv)
+            .lt("created_at_ts", since)
+            .order("created_at_ts", { ascending: false })
+            .limit(1);
+          if (error) throw error;
+          return data?.[0] ?? null;
+        }),
+      );
+
+      const events = [
+        // Seeds stand for the state at the start of the window
+        ...seeds
+          .filter((s) => s !== null)
+          .map(toEvent)
+          .filter((e): e is PriceVoteEvent => e !== null)
+          .map((e) => ({ ...e, at: since })),
+        ...rows.map(toEvent).filter((e): e is PriceVoteEvent => e !== null),
+      ];
+      return { events, since, truncated: rows.length >= MAX_HISTORY_ROWS };
+    },
+    enabled: svParties.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+}
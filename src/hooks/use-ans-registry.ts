@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useLedgerSync, useLedgerSyncCursors } from "@/hooks/use-ledger-sync";
+import { buildNameHistory, type AnsEntryRecord, type AnsName } from "@/lib/ans-registry";
+
+const PAGE_SIZE = 1000;
+/** Every entry a name has had, read back as its history */
+export function useAnsNameHistory(name: string | undefined) {
+  return useQuery({
+    queryKey: ["ansNameHistory", name],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ans_entry_history")
+        .select("*")
+        .eq("name", name!)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      const entries = (data || []) as AnsEntryRecord[];
+      return { entries, events: buildNameHistory(entries) };
+    },
+    enabled: !!name,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Active names whose entry expires within `days` days, soonest first */
+export function useExpiringAnsNames(days: number) {
+  return useQuery({
+    queryKey: ["ansNames", "expiring", days],
+    queryFn: async (): Promise<AnsName[]> => {
+      const now = Date.now();
+      const until = new Date(now + days * 24 * 60 * 60 * 1000).toISOString();
+      const rows: AnsName[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("ans_names")
+          .select("*")
+          .eq("active", true)
+          .gte("expires_at", new Date(now).toISOString())
+          .lte("expires_at", until)
+          .order("expires_at", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as AnsName[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Party to ANS name, for every party holding an active name. Loaded once
+ * and shared by every PartyName on the page.
+ */
+export function useAnsDirectory() {
+  return useQuery({
+    queryKey: ["ansNames", "directory"],
+    queryFn: async () => {
+      const names = new Map<string, string>();
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("ans_party_names")
+          .select("owner, name")
+          .order("owner", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        for (const row of data || []) {
+          if (row.owner && row.name) names.set(row.owner, row.name);
+        }
+        if (!data || data.length < PAGE_SIZE) return names;
+      }
+    },
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+/** The ANS name of one party, if it holds one */
+export function useAnsName(party: string | null | undefined): string | undefined {
+  const { data } = useAnsDirectory();
+  return party ? data?.get(party) : undefined;
+}
+
+/** How far the ANS registry streams have read ledger_events */
+export function useAnsRegistryCursors() {
+  return useLedgerSyncCursors("ans-registry");
+}
+
+export function useSyncAnsRegistry() {
+  return useLedgerSync<{ entry_events: number; payment_events: number }>(
+    "ans-registry",
+    [["ansNames"], ["ansNameHistory"]],
+    {
+      synced: "ANS registry synced",
+      partial: "ANS registry partly synced",
+      failed: "Failed to sync the ANS registry",
+      count: (run) => run.entry_events + run.payment_events,
+    },
+  );
+}
@@ -0,0 +1,132 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useLedgerSync, useLedgerSyncCursors } from "@/hooks/use-ledger-sync";
+import type { AppActivityDay, FeaturedApp } from "@/lib/app-activity";
+
+const PAGE_SIZE = 1000;
+// Amounts as text, so they stay exact
+const DAILY_COLUMNS =
+  "provider, day, markers, marker_weight::text, coupons_issued, featured_coupons, coupon_activity::text, reward_issued::text, unpriced_count, coupons_claimed, reward_claimed::text, coupons_expired, reward_expired::text, transfers, transfer_volume::text";
+
+export type AppRewardsRound = {
+  provider: string;
+  round: number | null;
+  markers: number;
+  marker_weight: string | null;
+  coupons: number;
+  featured_coupons: number;
+  reward: string | null;
+  claimed: number;
+  expired: number;
+};
+
+/** Every app that was ever featured, with its vote and lifetime totals */
+export function useFeaturedApps() {
+  return useQuery({
+    queryKey: ["featuredApps"],
+    queryFn: async (): Promise<FeaturedApp[]> => {
+      const rows: FeaturedApp[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("featured_apps")
+          .select("*")
+          .order("first_featured_at", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as FeaturedApp[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Daily activity of every provider from `from` to `to` (UTC days, inclusive) */
+export function useAppActivityRange(from: string, to: string) {
+  return useQuery({
+    queryKey: ["appActivityDaily", "range", from, to],
+    queryFn: async (): Promise<AppActivityDay[]> => {
+      const rows: AppActivityDay[] = [];
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("app_activity_daily")
+          .select(DAILY_COLUMNS)
+          .gte("day", from)
+          .lte("day", to)
+          .order("day", { ascending: true })
+          .order("provider", { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as AppActivityDay[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** One app's daily series, oldest first */
+export function useAppActivityHistory(provider: string | undefined) {
+  return useQuery({
+    queryKey: ["appActivityDaily", "provider", provider],
+    queryFn: async (): Promise<AppActivityDay[]> => {
+      const rows: AppActivityDay[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("app_activity_daily")
+          .select(DAILY_COLUMNS)
+          .eq("provider", provider!)
+          .order("day", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as AppActivityDay[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    enabled: !!provider,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** One app's markers and rewards for its latest `limit` rounds, newest first */
+export function useAppRewardsByRound(provider: string | undefined, limit = 100) {
+  return useQuery({
+    queryKey: ["appRewardsByRound", provider, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("app_rewards_by_round")
+        .select("*")
+        .eq("provider", provider!)
+        .order("round", { ascending: false, nullsFirst: true })
+        .limit(limit);
+      if (error) throw error;
+      return (data || []) as AppRewardsRound[];
+    },
+    enabled: !!provider,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** How far the app activity streams have read ledger_events */
+export function useAppActivityCursors() {
+  return useLedgerSyncCursors("app-activity");
+}
+
+export function useSyncAppActivity() {
+  return useLedgerSync<{
+    right_events: number;
+    marker_events: number;
+    coupon_events: number;
+    transfer_events: number;
+    round_events: number;
+  }>(
+    "app-activity",
+    [["featuredApps"], ["appActivityDaily"], ["appRewardsByRound"]],
+    {
+      synced: "App activity synced",
+      partial: "App activity partly synced",
+      failed: "Failed to sync app activity",
+      count: (run) => run.right_events + run.marker_events + run.coupon_events + run.transfer_events + run.round_events,
+    },
+  );
+}
@@ -1,5 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { scanApi } from "@/lib/api-client";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { RENEWAL_PAYMENT_CHOICE } from "@/lib/ans-registry";
+import { collectedPayment, descendantEvents, INITIAL_COLLECT_CHOICE } from "@/lib/subscription-ledger";
 
 /**
  * Calculate total burnt Canton Coin from transaction events.
@@ -8,7 +11,8 @@ import { scanApi } from "@/lib/api-client";
  * Sources of burn:
  * 1. Traffic purchases (AmuletRules_BuyMemberTraffic): holdingFees + senderChangeFee + amuletPaid
  * 2. Transfers (AmuletRules_Transfer): holdingFees + outputFees + senderChangeFee
- * 3. CNS entries (SubscriptionInitialPayment_Collect): temp Amulet amount + transfer fees
+ * 3. CNS entries (SubscriptionInitialPayment_Collect, and the SubscriptionPayment_Collect of renewals):
+ *    collected Amulet amount + transfer fees, as the subscription ledger computes them
  * 4. Pre-approvals (AmuletRules_CreateTransferPreapproval): amuletPaid + outputFees + senderChangeFee + holdingFees
  */
 
@@ -20,15 +24,54 @@ interface BurnCalculationResult {
   preapprovalBurn: number;
 }
 
+/**
+ * Exact accumulator behind BurnCalculationResult; converted to numbers only once totals are final
+ */
+type BurnTotals = { [K in keyof BurnCalculationResult]: DamlDecimal };
+
+function emptyBurnTotals(): BurnTotals {
+  return {
+    totalBurn: DamlDecimal.ZERO,
+    trafficBurn: DamlDecimal.ZERO,
+    transferBurn: DamlDecimal.ZERO,
+    cnsBurn: DamlDecimal.ZERO,
+    preapprovalBurn: DamlDecimal.ZERO,
+  };
+}
+
+function addBurnTotals(target: BurnTotals, source: BurnTotals): void {
+  for (const key of Object.keys(target) as (keyof BurnTotals)[]) {
+    target[key] = target[key].add(source[key]);
+  }
+}
+
+function toBurnResult(totals: BurnTotals): BurnCalculationResult {
+  return {
+    totalBurn: totals.totalBurn.toNumber(),
+    trafficBurn: totals.trafficBurn.toNumber(),
+    transferBurn: totals.transferBurn.toNumber(),
+    cnsBurn: totals.cnsBurn.toNumber(),
+    preapprovalBurn: totals.preapprovalBurn.toNumber(),
+  };
+}
+
+function dec(value: unknown): DamlDecimal {
+  return DamlDecimal.tryFrom(value) ?? DamlDecimal.ZERO;
+}
+
+function sumOutputFees(summary: { outputFees?: unknown }): DamlDecimal {
+  return Array.isArray(summary.outputFees) ? DamlDecimal.sum(summary.outputFees.map(dec)) : DamlDecimal.ZERO;
+}
+
 /**
  * Parse a single exercised event for burn calculation
  */
-function calculateBurnFromEvent(event: any, eventsById: Record<string, any>): Partial<BurnCalculationResult> {
-  const result: Partial<BurnCalculationResult> = {
-    trafficBurn: 0,
-    transferBurn: 0,
-    cnsBurn: 0,
-    preapprovalBurn: 0,
+function calculateBurnFromEvent(event: any, eventsById: Record<string, any>): Partial<BurnTotals> {
+  const result: Partial<BurnTotals> = {
+    trafficBurn: DamlDecimal.ZERO,
+    transferBurn: DamlDecimal.ZERO,
+    cnsBurn: DamlDecimal.ZERO,
+    preapprovalBurn: DamlDecimal.ZERO,
   };
 
   if (event.event_type !== "exercised_event") return result;
@@ -39,77 +82,34 @@ function calculateBurnFromEvent(event: any, eventsById: Record<string, any>): Pa
 
   // 1. Traffic Purchases: AmuletRules_BuyMemberTraffic
   if (choice === "AmuletRules_BuyMemberTraffic" && summary) {
-    const holdingFees = parseFloat(summary.holdingFees || "0");
-    const senderChangeFee = parseFloat(summary.senderChangeFee || "0");
-    const amuletPaid = parseFloat(exerciseResult.amuletPaid || "0");
-    result.trafficBurn = holdingFees + senderChangeFee + amuletPaid;
+    const holdingFees = dec(summary.holdingFees);
+    const senderChangeFee = dec(summary.senderChangeFee);
+    const amuletPaid = dec(exerciseResult.amuletPaid);
+    result.trafficBurn = holdingFees.add(senderChangeFee).add(amuletPaid);
   }
 
   // 2. Transfers: AmuletRules_Transfer
   else if (choice === "AmuletRules_Transfer" && summary) {
-    const holdingFees = parseFloat(summary.holdingFees || "0");
-    const senderChangeFee = parseFloat(summary.senderChangeFee || "0");
+    const holdingFees = dec(summary.holdingFees);
+    const senderChangeFee = dec(summary.senderChangeFee);
     
     // Sum all outputFees
-    let outputFeesTotal = 0;
-    if (Array.isArray(summary.outputFees)) {
-      for (const fee of summary.outputFees) {
-        outputFeesTotal += parseFloat(fee || "0");
-      }
-    }
+    const outputFeesTotal = sumOutputFees(summary);
     
-    result.transferBurn = holdingFees + senderChangeFee + outputFeesTotal;
+    result.transferBurn = holdingFees.add(senderChangeFee).add(outputFeesTotal);
   }
 
   // 3. CNS Entry Purchases: SubscriptionInitialPayment_Collect
-  else if (choice === "SubscriptionInitialPayment_Collect" && exerciseResult) {
-    // Find the temporary Amulet contract that was created and burnt
-    const amuletContractId = exerciseResult.amulet;
-    if (amuletContractId && eventsById[amuletContractId]) {
-      const amuletEvent = eventsById[amuletContractId];
-      if (amuletEvent.event_type === "created_event") {
-        const amount = amuletEvent.create_arguments?.amount?.initialAmount;
-        if (amount) {
-          result.cnsBurn = parseFloat(amount);
-        }
-      }
-    }
-    
-    // Also look for child transfer events to add transfer fees
-    if (Array.isArray(event.child_event_ids)) {
-      for (const childId of event.child_event_ids) {
-        const childEvent = eventsById[childId];
-        if (childEvent?.choice === "AmuletRules_Transfer") {
-          const childBurn = calculateBurnFromEvent(childEvent, eventsById);
-          result.cnsBurn = (result.cnsBurn || 0) + (childBurn.transferBurn || 0);
-        }
-      }
-    }
+  else if (choice === INITIAL_COLLECT_CHOICE) {
+    // The collected Amulet is burnt, plus the fees of the transfers below the collect
+    result.cnsBurn = collectedPayment(event, eventsById)?.total ?? DamlDecimal.ZERO;
   }
 
-  // 4. CNS Entry Renewals: AnsEntryContext_CollectRenewalEntryPayment
-  else if (choice === "AnsEntryContext_CollectRenewalEntryPayment" && exerciseResult) {
-    // Similar logic to SubscriptionInitialPayment_Collect
-    const amuletContractId = exerciseResult.amulet;
-    if (amuletContractId && eventsById[amuletContractId]) {
-      const amuletEvent = eventsById[amuletContractId];
-      if (amuletEvent.event_type === "created_event") {
-        const amount = amuletEvent.create_arguments?.amount?.initialAmount;
-        if (amount) {
-          result.cnsBurn = parseFloat(amount);
-        }
-      }
-    }
-    
-    if (Array.isArray(event.child_event_ids)) {
-      for (const childId of event.child_event_ids) {
-        const childEvent = eventsById[childId];
-        if (childEvent?.choice === "AmuletRules_Transfer") {
-          const childBurn = calculateBurnFromEvent(childEvent, eventsById);
-          result.cnsBurn = (result.cnsBurn || 0) + (childBurn.transferBurn || 0);
-        }
-      }
-    }
+  // 4. CNS Entry Renewals: the SubscriptionPayment_Collect below the renewal
+  else if (choice === RENEWAL_PAYMENT_CHOICE) {
+    result.cnsBurn = DamlDecimal.sum(
+      descendantEvents(event, eventsById).map((e) => collectedPayment(e, eventsById)?.total ?? DamlDecimal.ZERO),
+    );
   }
 
   // 5. Pre-approvals: AmuletRules_CreateTransferPreapproval, AmuletRules_CreateExternalPartySetupProposal, TransferPreapproval_Renew
@@ -123,20 +123,15 @@ function calculateBurnFromEvent(event: any, eventsById: Record<string, any>): Pa
     const summary = transferResult.summary;
     
     if (summary) {
-      const amuletPaid = parseFloat(exerciseResult.amuletPaid || "0");
-      const holdingFees = parseFloat(summary.holdingFees || "0");
-      const senderChangeFee = parseFloat(summary.senderChangeFee || "0");
+      const amuletPaid = dec(exerciseResult.amuletPaid);
+      const holdingFees = dec(summary.holdingFees);
+      const senderChangeFee = dec(summary.senderChangeFee);
       
       // Sum all outputFees
-      let outputFeesTotal = 0;
-      if (Array.isArray(summary.outputFees)) {
-        for (const fee of summary.outputFees) {
-          outputFeesTotal += parseFloat(fee || "0");
-        }
-      }
+      const outputFeesTotal = sumOutputFees(summary);
       
       // Note: outputFee is NOT included in amuletPaid for pre-approvals (unlike traffic purchases)
-      result.preapprovalBurn = amuletPaid + holdingFees + senderChangeFee + outputFeesTotal;
+      result.preapprovalBurn = amuletPaid.add(holdingFees).add(senderChangeFee).add(outputFeesTotal);
     }
   }
 
@@ -146,14 +141,8 @@ function calculateBurnFromEvent(event: any, eventsById: Record<string, any>): Pa
 /**
  * Calculate total burn from all events in a transaction
  */
-function calculateBurnFromTransaction(transaction: any): BurnCalculationResult {
-  const result: BurnCalculationResult = {
-    totalBurn: 0,
-    trafficBurn: 0,
-    transferBurn: 0,
-    cnsBurn: 0,
-    preapprovalBurn: 0,
-  };
+function calculateBurnFromTransaction(transaction: any): BurnTotals {
+  const result = emptyBurnTotals();
 
   if (!transaction.events_by_id) return result;
 
@@ -164,13 +153,13 @@ function calculateBurnFromTransaction(transaction: any): BurnCalculationResult {
     const event = eventsById[eventId];
     const eventBurn = calculateBurnFromEvent(event, eventsById);
     
-    result.trafficBurn += eventBurn.trafficBurn || 0;
-    result.transferBurn += eventBurn.transferBurn || 0;
-    result.cnsBurn += eventBurn.cnsBurn || 0;
-    result.preapprovalBurn += eventBurn.preapprovalBurn || 0;
+    result.trafficBurn = result.trafficBurn.add(eventBurn.trafficBurn ?? DamlDecimal.ZERO);
+    result.transferBurn = result.transferBurn.add(eventBurn.transferBurn ?? DamlDecimal.ZERO);
+    result.cnsBurn = result.cnsBurn.add(eventBurn.cnsBurn ?? DamlDecimal.ZERO);
+    result.preapprovalBurn = result.preapprovalBurn.add(eventBurn.preapprovalBurn ?? DamlDecimal.ZERO);
   }
 
-  result.totalBurn = result.trafficBurn + result.transferBurn + result.cnsBurn + result.preapprovalBurn;
+  result.totalBurn = DamlDecimal.sum([result.trafficBurn, result.transferBurn, result.cnsBurn, result.preapprovalBurn]);
   
   return result;
 }
@@ -198,14 +187,8 @@ export function useBurnStats(options: UseBurnStatsOptions = {}) {
       const now = new Date(latestRound.effectiveAt);
       const startTime = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
 
-      const result: BurnCalculationResult & { byDay: Record<string, BurnCalculationResult> } = {
-        totalBurn: 0,
-        trafficBurn: 0,
-        transferBurn: 0,
-        cnsBurn: 0,
-        preapprovalBurn: 0,
-        byDay: {},
-      };
+      const totals = emptyBurnTotals();
+      const totalsByDay: Record<string, BurnTotals> = {};
 
       // Fetch transactions page by page
       let hasMore = true;
@@ -239,28 +222,12 @@ export function useBurnStats(options: UseBurnStatsOptions = {}) {
           const txBurn = calculateBurnFromTransaction(transaction);
           
           // Add to totals
-          result.totalBurn += txBurn.totalBurn;
-          result.trafficBurn += txBurn.trafficBurn;
-          result.transferBurn += txBurn.transferBurn;
-          result.cnsBurn += txBurn.cnsBurn;
-          result.preapprovalBurn += txBurn.preapprovalBurn;
+          addBurnTotals(totals, txBurn);
 
           // Add to daily breakdown
           const dateKey = txTime.toISOString().slice(0, 10);
-          if (!result.byDay[dateKey]) {
-            result.byDay[dateKey] = {
-              totalBurn: 0,
-              trafficBurn: 0,
-              transferBurn: 0,
-              cnsBurn: 0,
-              preapprovalBurn: 0,
-            };
-          }
-          result.byDay[dateKey].totalBurn += txBurn.totalBurn;
-          result.byDay[dateKey].trafficBurn += txBurn.trafficBurn;
-          result.byDay[dateKey].transferBurn += txBurn.transferBurn;
-          result.byDay[dateKey].cnsBurn += txBurn.cnsBurn;
-          result.byDay[dateKey].preapprovalBurn += txBurn.preapprovalBurn;
+          totalsByDay[dateKey] ??= emptyBurnTotals();
+          addBurnTotals(totalsByDay[dateKey], txBurn);
         }
 
         // Set up for next page
@@ -269,7 +236,12 @@ export function useBurnStats(options: UseBurnStatsOptions = {}) {
         pagesProcessed++;
       }
 
-      return result;
+      const byDay: Record<string, BurnCalculationResult> = {};
+      for (const [dateKey, dayTotals] of Object.entries(totalsByDay)) {
+        byDay[dateKey] = toBurnResult(dayTotals);
+      }
+
+      return { ...toBurnResult(totals), byDay };
     },
     enabled: !!latestRound,
     staleTime: 60_000,
@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { scanApi } from "@/lib/api-client";
+import { buildContractLifecycle, type LifecycleUpdate } from "@/lib/contract-lifecycle";
+
+// Keeps `.in()` filters well inside URL length limits
+const UPDATE_ID_BATCH = 50;
+
+async function updateIdsTouching(contractId: string): Promise<string[]> {
+  const [events, unassignments] = await Promise.all([
+    supabase.from("ledger_events").select("update_id").eq("contract_id", contractId).limit(1000),
+    supabase
+      .from("ledger_updates")
+      .select("update_id")
+      .eq("kind", "reassignment")
+      .eq("raw->event->>contract_id", contractId)
+      .limit(100),
+  ]);
+  if (events.error) throw events.error;
+  if (unassignments.error) throw unassignments.error;
+  const ids = [...(events.data || []), ...(unassignments.data || [])].map((r) => r.update_id).filter(Boolean);
+  return Array.from(new Set(ids));
+}
+
+export function useContractLifecycle(contractId: string | undefined) {
+  return useQuery({
+    queryKey: ["contractLifecycle", contractId],
+    queryFn: async () => {
+      const updateIds = await updateIdsTouching(contractId);
+
+      const stored = new Map<string, LifecycleUpdate>();
+      for (let i = 0; i < updateIds.length; i += UPDATE_ID_BATCH) {
+        const { data, error } = await supabase
+          .from("ledger_updates")
+          .select("update_id, raw")
+          .in("update_id", updateIds.slice(i, i + UPDATE_ID_BATCH));
+        if (error) throw error;
+        for (const row of data || []) {
+          if (row.raw) stored.set(row.update_id, row.raw as unknown as LifecycleUpdate);
+        }
+      }
+
+      // Events can outlive their stored update (e.g. after a purge); Scan still has it
+      const missing = updateIds.filter((id) => !stored.has(id));
+      const fromScan = await Promise.all(
+        missing.map((id) =>
+          scanApi
+            .fetchUpdateByIdV2(id)
+            .then((u) => u as unknown as LifecycleUpdate)
+            .catch(() => null),
+        ),
+      );
+      const fetched = fromScan.filter((u): u is LifecycleUpdate => !!u);
+
+      return {
+        lifecycle: buildContractLifecycle(contractId, [...stored.values(), ...fetched]),
+        fromDatabase: stored.size,
+        fromScan: fetched.length,
+        unavailable: missing.length - fetched.length,
+      };
+    },
+    enabled: !!contractId,
+    staleTime: 60_000,
+  });
+}
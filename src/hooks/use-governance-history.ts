@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { ProposalRecord, VoteEventRecord } from "@/lib/governance-history";
+
+export type GovernanceProposal = ProposalRecord & { synced_at: string };
+
+export const proposalRoute = (proposalId: string) => `/governance/proposals/${encodeURIComponent(proposalId)}`;
+
+/** Every proposal rebuilt from the ledger history, newest first */
+export function useGovernanceProposals() {
+  return useQuery({
+    queryKey: ["governanceProposals"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("governance_proposals")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as unknown as GovernanceProposal[];
+    },
+    staleTime: 60_000,
+  });
+}
+
+/** One proposal with its vote timeline; null when it is not in the history */
+export function useGovernanceProposal(proposalId: string | undefined) {
+  return useQuery({
+    queryKey: ["governanceProposal", proposalId],
+    queryFn: async () => {
+      const [proposal, votes] = await Promise.all([
+        supabase.from("governance_proposals").select("*").eq("proposal_id", proposalId!).maybeSingle(),
+        supabase
+          .from("governance_vote_events")
+          .select("*")
+          .eq("proposal_id", proposalId!)
+          .order("cast_at", { ascending: true }),
+      ]);
+
+      if (proposal.error) throw proposal.error;
+      if (votes.error) throw votes.error;
+      if (!proposal.data) return null;
+      return {
+        proposal: proposal.data as unknown as GovernanceProposal,
+        votes: (votes.data || []) as unknown as VoteEventRecord[],
+      };
+    },
+    enabled: !!proposalId,
+    staleTime: 60_000,
+  });
+}
+
+export function useSyncGovernanceHistory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke("governance-history", { body: {} });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data as { proposals: number; open: number; vote_events: number; skipped: number };
+    },
+    onSuccess: (data) => {
+      toast.success("Governance history rebuilt", {
+        description: `${data.proposals} proposals (${data.open} open), ${data.vote_events} vote events`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["governanceProposals"] });
+      queryClient.invalidateQueries({ queryKey: ["governanceProposal"] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to rebuild governance history", {
+        description: error.message,
+      });
+    },
+  });
+}
@@ -0,0 +1,85 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { scanApi, type RoundTotals } from "@/lib/api-client";
+import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
+import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
+import { decodeContract, decodeContracts } from "@/lib/splice-decoders";
+import { configAsOf, parseConfigSchedule } from "@/lib/amulet-config-timeline";
+import { parseIssuanceCurve, parseRelTime } from "@/lib/issuance-simulator";
+
+const ROUND_TOTALS_CHUNK = 200;
+
+/** Where the network is on the issuance curve: the newest open mining round */
+export function useIssuingPosition() {
+  return useQuery({
+    queryKey: ["issuingPosition"],
+    queryFn: async () => {
+      const res = await scanApi.fetchOpenAndIssuingRounds();
+      const [latest] = Object.values(res.open_mining_rounds || {})
+        .map((r) => decodeContract("Splice:Round:OpenMiningRound", r.contract.payload, r.contract.contract_id))
+        .flatMap((r) => (r.ok ? [r.value] : []))
+        .sort((a, b) => b.round.number - a.round.number);
+      if (!latest) return null;
+      return {
+        round: latest.round.number,
+        issuingForMicros: latest.issuingFor.microseconds,
+        tickMicros: latest.tickDuration.microseconds,
+        opensAt: latest.opensAt,
+      };
+    },
+    staleTime: 60_000,
+  });
+}
+
+/** The issuance curve and tick duration in force, from AmuletRules in the latest snapshot */
+export function useCurrentIssuanceCurve() {
+  const { data: snapshot } = useLatestACSSnapshot();
+  const rulesQuery = useAggregatedTemplateData(snapshot?.id, "Splice:AmuletRules:AmuletRules", !!snapshot);
+
+  const value = useMemo(() => {
+    const [rules] = rulesQuery.data ? decodeContracts("Splice:AmuletRules:AmuletRules", rulesQuery.data.data).values : [];
+    const schedule = parseConfigSchedule(rules?.configSchedule);
+    if (!schedule) return null;
+    const config = configAsOf(schedule, new Date().toISOString()) as { issuanceCurve?: unknown; tickDuration?: unknown };
+    const curve = parseIssuanceCurve(config.issuanceCurve);
+    return curve ? { curve, tickMicros: parseRelTime(config.tickDuration) } : null;
+  }, [rulesQuery.data]);
+
+  return { snapshot, value, isLoading: !snapshot || rulesQuery.isLoading, error: rulesQuery.error };
+}
+
+/** Round totals for the last `days` days up to the latest aggregated round */
+export function useRecentRoundTotals(roundsPerDay: number, days: number) {
+  const { data: latestRound } = useQuery({
+    queryKey: ["latestRound"],
+    queryFn: () => scanApi.fetchLatestRound(),
+    staleTime: 60_000,
+  });
+
+  return useQuery({
+    queryKey: ["recentRoundTotals", latestRound?.round, days],
+    queryFn: async (): Promise<RoundTotals[]> => {
+      const end = latestRound!.round;
+      const start = Math.max(0, end - Math.ceil(days * roundsPerDay) + 1);
+      const requests: Promise<{ entries: RoundTotals[] }>[] = [];
+      for (let from = start; from <= end; from += ROUND_TOTALS_CHUNK) {
+        requests.push(
+          scanApi.fetchRoundTotals({ start_round: from, end_round: Math.min(from + ROUND_TOTALS_CHUNK - 1, end) }),
+        );
+      }
+      const results = await Promise.all(requests);
+      return results.flatMap((r) => r.entries ?? []);
+    },
+    enabled: !!latestRound && roundsPerDay > 0,
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+export function useLatestSupply() {
+  return useQuery({
+    queryKey: ["latestTotalBalance"],
+    queryFn: () => scanApi.fetchTotalBalance(),
+    staleTime: 60_000,
+  });
+}
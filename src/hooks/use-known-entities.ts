@@ -0,0 +1,107 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { scanApi } from "@/lib/api-client";
+import { fetchConfigData } from "@/lib/config-sync";
+import { buildKnownEntities, type PartyLabelRow } from "@/lib/known-entities";
+
+/** The labels admins keep for parties, by label */
+export function usePartyLabels() {
+  return useQuery({
+    queryKey: ["partyLabels"],
+    queryFn: async (): Promise<PartyLabelRow[]> => {
+      const { data, error } = await supabase
+        .from("party_labels")
+        .select("party, label, kind, note")
+        .order("label", { ascending: true });
+      if (error) throw error;
+      return (data || []) as PartyLabelRow[];
+    },
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+/**
+ * Party to known entity, from the DSO, the approved SV list, featured app
+ * providers and the admin labels. Any source that fails to load is left out
+ * rather than failing the rest.
+ */
+export function useKnownEntities() {
+  const labels = usePartyLabels();
+  const config = useQuery({
+    queryKey: ["sv-config", "v5"],
+    queryFn: () => fetchConfigData(true),
+    staleTime: 24 * 60 * 60 * 1000,
+  });
+  const dsoInfo = useQuery({
+    queryKey: ["dsoInfo"],
+    queryFn: () => scanApi.fetchDsoInfo(),
+    staleTime: 10 * 60 * 1000,
+  });
+  const apps = useQuery({
+    queryKey: ["featuredApps", "providers"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("featured_apps")
+        .select("provider, app_name")
+        .not("provider", "is", null);
+      if (error) throw error;
+      return (data || []).map((a) => ({ provider: a.provider!, name: a.app_name }));
+    },
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const entities = useMemo(
+    () =>
+      buildKnownEntities({
+        dsoParty: dsoInfo.data?.dso_party_id,
+        svs: (config.data?.superValidators || [])
+          .filter((sv) => sv.address)
+          .map((sv) => ({ party: `${sv.name}::${sv.address}`, operator: sv.operatorName })),
+        apps: apps.data,
+        labels: labels.data,
+      }),
+    [dsoInfo.data, config.data, apps.data, labels.data],
+  );
+
+  return { entities, isLoading: labels.isLoading || config.isLoading || dsoInfo.isLoading || apps.isLoading };
+}
+
+export function useSavePartyLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (label: PartyLabelRow) => {
+      const { error } = await supabase
+        .from("party_labels")
+        .upsert({ ...label, updated_at: new Date().toISOString() }, { onConflict: "party" });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Label saved");
+      queryClient.invalidateQueries({ queryKey: ["partyLabels"] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to save the label", { description: error.message });
+    },
+  });
+}
+
+export function useDeletePartyLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (party: string) => {
+      const { error } = await supabase.from("party_labels").delete().eq("party", party);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Label removed");
+      queryClient.invalidateQueries({ queryKey: ["partyLabels"] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to remove the label", { description: error.message });
+    },
+  });
+}
@@ -0,0 +1,77 @@
+import { useMutation, useQuery, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+
+// Each run of a ledger sync function reads up to 20k events per stream (see
+// supabase/functions/_shared/ledger-sync.ts) and reports `more` until it is
+// caught up; one sync invokes it at most this many times
+const MAX_SYNC_RUNS = 10;
+
+export interface LedgerSyncReport<R> {
+  /** Toast titles, e.g. "ANS registry synced" */
+  synced: string;
+  partial: string;
+  failed: string;
+  /** What one run did, e.g. the events it read */
+  count: (run: R) => number;
+  /** The toast's account of the total count; "N events" by default */
+  describe?: (count: number) => string;
+}
+
+const cursorsKey = (functionName: string) => ["ledgerSyncCursors", functionName];
+
+/** How far the streams of a sync function (cursors named `<function>:<stream>`) have read */
+export function useLedgerSyncCursors(functionName: string) {
+  return useQuery({
+    queryKey: cursorsKey(functionName),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ledger_sync_cursors")
+        .select("*")
+        .like("name", `${functionName}:%`);
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 60_000,
+  });
+}
+
+/**
+ * Runs a sync function until it is caught up (or MAX_SYNC_RUNS), then
+ * refetches `queryKeys` and the function's cursors.
+ */
+export function useLedgerSync<R>(functionName: string, queryKeys: QueryKey[], report: LedgerSyncReport<R>) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (options: { reset?: boolean } = {}) => {
+      const totals = { count: 0, skipped: 0, more: true };
+      for (let run = 0; run < MAX_SYNC_RUNS && totals.more; run++) {
+        const { data, error } = await supabase.functions.invoke(functionName, {
+          body: { reset: run === 0 && !!options.reset },
+        });
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+        totals.count += report.count(data as R);
+        totals.skipped += data.skipped ?? 0;
+        totals.more = data.more;
+      }
+      return totals;
+    },
+    onSuccess: (data) => {
+      const described = report.describe ? report.describe(data.count) : `${data.count} events`;
+      toast.success(data.more ? report.partial : report.synced, {
+        description: `${described}${data.skipped ? `, ${data.skipped} skipped` : ""}${
+          data.more ? "; run it again to continue" : ""
+        }`,
+      });
+      for (const queryKey of queryKeys) queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: cursorsKey(functionName) });
+    },
+    onError: (error: Error) => {
+      toast.error(report.failed, {
+        description: error.message,
+      });
+    },
+  });
+}
@@ -51,3 +51,20 @@ export function useLedgerUpdatesByMigration(migrationId: number | undefined, lim
     staleTime: 5_000,
   });
 }
+
+export function useLedgerUpdate(updateId: string | null) {
+  return useQuery({
+    queryKey: ["ledgerUpdate", updateId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ledger_updates")
+        .select("*")
+        .eq("update_id", updateId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as LedgerUpdate | null;
+    },
+    enabled: !!updateId,
+  });
+}
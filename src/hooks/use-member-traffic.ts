@@ -0,0 +1,188 @@
+import { useMemo } from "react";
+import { useMutation, useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { scanApi } from "@/lib/api-client";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { decodeContracts } from "@/lib/splice-decoders";
+import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
+import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
+import {
+  memberKey,
+  totalMemberTraffic,
+  type TrafficPurchaseTotals,
+  type TrafficStatusSample,
+} from "@/lib/traffic-forecast";
+
+const MEMBER_TRAFFIC_TEMPLATE = "Splice:DecentralizedSynchronizer:MemberTraffic";
+const PAGE_SIZE = 1000;
+
+export type TrafficMember = { memberId: string; synchronizerId: string };
+
+type TrafficMemberRow = {
+  member_id: string;
+  synchronizer_id: string;
+  validator: string | null;
+  purchases: number;
+  traffic_bought: number;
+  traffic_bought_30d: number;
+  priced_traffic: number;
+  amulet_paid: string;
+  last_purchase_at: string | null;
+};
+
+type LatestSampleRow = {
+  member_id: string;
+  synchronizer_id: string;
+  sampled_at: string;
+  total_consumed: number;
+  total_limit: number;
+  total_purchased: number;
+};
+
+type BurnRow = { member_id: string; synchronizer_id: string; consumed_per_day: number | null };
+
+/** Reads every row of a view, page by page */
+async function readAll<T>(view: "traffic_members" | "member_traffic_latest" | "member_traffic_burn"): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(view)
+      .select("*")
+      .order("member_id", { ascending: true })
+      .order("synchronizer_id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/** MemberTraffic contracts from the latest ACS snapshot, summed per member */
+export function useMemberTrafficContracts() {
+  const { data: snapshot } = useLatestACSSnapshot();
+  const query = useAggregatedTemplateData(snapshot?.id, MEMBER_TRAFFIC_TEMPLATE, !!snapshot);
+
+  const decoded = useMemo(
+    () => (query.data ? decodeContracts(MEMBER_TRAFFIC_TEMPLATE, query.data.data) : null),
+    [query.data],
+  );
+  const totals = useMemo(() => totalMemberTraffic(decoded?.values ?? []), [decoded]);
+
+  return {
+    snapshot,
+    totals,
+    failures: decoded?.failures ?? [],
+    isLoading: !snapshot || query.isLoading,
+    error: query.error,
+  };
+}
+
+/** Traffic purchases per member, from the synced AmuletRules_BuyMemberTraffic events */
+export function useTrafficPurchaseTotals() {
+  return useQuery({
+    queryKey: ["trafficMembers"],
+    queryFn: async () => {
+      const rows = await readAll<TrafficMemberRow>("traffic_members");
+      return new Map<string, TrafficPurchaseTotals>(
+        rows.map((r) => [
+          memberKey(r.member_id, r.synchronizer_id),
+          {
+            validator: r.validator,
+            purchases: r.purchases,
+            trafficBought: r.traffic_bought,
+            trafficBought30d: r.traffic_bought_30d,
+            pricedTraffic: r.priced_traffic,
+            amuletPaid: DamlDecimal.from(r.amulet_paid),
+            lastPurchaseAt: r.last_purchase_at,
+          },
+        ]),
+      );
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** The latest recorded traffic status per member */
+export function useLatestTrafficSamples() {
+  return useQuery({
+    queryKey: ["memberTrafficLatest"],
+    queryFn: async () => {
+      const rows = await readAll<LatestSampleRow>("member_traffic_latest");
+      return new Map<string, TrafficStatusSample>(
+        rows.map((r) => [
+          memberKey(r.member_id, r.synchronizer_id),
+          { consumed: r.total_consumed, limit: r.total_limit, purchased: r.total_purchased, at: r.sampled_at },
+        ]),
+      );
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Bytes consumed per day over the last week, per sampled member */
+export function useMemberTrafficBurn() {
+  return useQuery({
+    queryKey: ["memberTrafficBurn"],
+    queryFn: async () => {
+      const rows = await readAll<BurnRow>("member_traffic_burn");
+      return new Map(rows.map((r) => [memberKey(r.member_id, r.synchronizer_id), r.consumed_per_day]));
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Scan's current traffic status for the given members, keyed like the forecasts */
+export function useLiveTrafficStatus(members: TrafficMember[]) {
+  const results = useQueries({
+    queries: members.map((m) => ({
+      queryKey: ["trafficStatus", m.synchronizerId, m.memberId],
+      queryFn: async (): Promise<TrafficStatusSample> => {
+        const { traffic_status: status } = await scanApi.fetchTrafficStatus(m.synchronizerId, m.memberId);
+        return {
+          consumed: status.actual.total_consumed,
+          limit: status.actual.total_limit,
+          purchased: status.target.total_purchased,
+          at: new Date().toISOString(),
+        };
+      },
+      staleTime: 60_000,
+      retry: 1,
+    })),
+  });
+
+  const statuses = new Map<string, TrafficStatusSample>();
+  results.forEach((r, i) => {
+    if (r.data) statuses.set(memberKey(members[i].memberId, members[i].synchronizerId), r.data);
+  });
+  return { statuses, isFetching: results.some((r) => r.isFetching) };
+}
+
+export function useSampleTrafficStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (members: TrafficMember[] = []) => {
+      const { data, error } = await supabase.functions.invoke("traffic-status-sampler", {
+        body: {
+          members: members.map((m) => ({ member_id: m.memberId, synchronizer_id: m.synchronizerId })),
+        },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data as { members: number; sampled: number; failed: number };
+    },
+    onSuccess: (data) => {
+      toast.success("Traffic status sampled", {
+        description: `${data.sampled} of ${data.members} members${data.failed ? `, ${data.failed} failed` : ""}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["memberTrafficLatest"] });
+      queryClient.invalidateQueries({ queryKey: ["memberTrafficBurn"] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to sample traffic status", {
+        description: error.message,
+      });
+    },
+  });
+}
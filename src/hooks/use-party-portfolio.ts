@@ -0,0 +1,159 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { scanApi } from "@/lib/api-client";
+import { isScanApiError } from "@/lib/scan-transport";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { decodeContracts, type ExpiringAmount, type SpliceTemplate, type SplicePayload } from "@/lib/splice-decoders";
+import { balanceAt, type BalanceMode } from "@/lib/amulet-balance";
+import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
+import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
+import { useSnapshotBalanceRound } from "@/hooks/use-amulet-balance";
+
+// Lookups by party answer 404 when the party simply has no such contract
+async function orNullOnNotFound<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (e) {
+    if (isScanApiError(e) && e.status === 404) return null;
+    throw e;
+  }
+}
+
+type PartyTemplate = Extract<
+  SpliceTemplate,
+  | "Splice:Amulet:Amulet"
+  | "Splice:Amulet:LockedAmulet"
+  | "Splice:ValidatorLicense:ValidatorLicense"
+  | "Splice:ValidatorLicense:ValidatorFaucetCoupon"
+  | "Splice:Amulet:AppRewardCoupon"
+  | "Splice:Amulet:ValidatorRewardCoupon"
+  | "Splice:Amulet:SvRewardCoupon"
+>;
+
+/** Whether a snapshot contract of each template belongs to the party */
+const BELONGS_TO: { [K in PartyTemplate]: (payload: SplicePayload<K>, partyId: string) => boolean } = {
+  "Splice:Amulet:Amulet": (a, partyId) => a.owner === partyId,
+  "Splice:Amulet:LockedAmulet": (l, partyId) => l.amulet.owner === partyId,
+  "Splice:ValidatorLicense:ValidatorLicense": (l, partyId) => l.validator === partyId,
+  "Splice:ValidatorLicense:ValidatorFaucetCoupon": (c, partyId) => c.validator === partyId,
+  "Splice:Amulet:AppRewardCoupon": (c, partyId) => (c.beneficiary ?? c.provider) === partyId,
+  "Splice:Amulet:ValidatorRewardCoupon": (c, partyId) => c.user === partyId,
+  "Splice:Amulet:SvRewardCoupon": (c, partyId) => c.beneficiary === partyId || c.sv === partyId,
+};
+
+/** Snapshot contracts of one template, decoded and filtered to the party */
+function usePartyContracts<K extends PartyTemplate>(
+  snapshotId: string | undefined,
+  template: K,
+  partyId: string | undefined,
+  enabled: boolean,
+) {
+  const query = useAggregatedTemplateData(snapshotId, template, enabled && !!snapshotId);
+  const values = useMemo(() => {
+    if (!query.data || !partyId) return [];
+    const belongsTo = BELONGS_TO[template] as (payload: SplicePayload<K>, partyId: string) => boolean;
+    return decodeContracts(template, query.data.data).values.filter((payload) => belongsTo(payload, partyId));
+  }, [query.data, template, partyId]);
+  return { data: values, isLoading: query.isLoading, error: query.error };
+}
+
+/** A party's holdings and activity; snapshot balances are valued in `balanceMode` */
+export function usePartyPortfolio(partyId: string | undefined, balanceMode: BalanceMode = "effective") {
+  const enabled = !!partyId && partyId.includes("::");
+  const { data: snapshot } = useLatestACSSnapshot();
+  const snapshotId = snapshot?.id;
+
+  const holdingsSummary = useQuery({
+    queryKey: ["partyHoldingsSummary", partyId, snapshot?.migration_id],
+    queryFn: async () => {
+      // Scan answers holdings for its own ACS snapshots, so resolve the latest one first
+      const latest = await scanApi.fetchLatestRound();
+      const migrationId = snapshot?.migration_id ?? 0;
+      const snap = await scanApi.fetchAcsSnapshotTimestamp(latest.effectiveAt, migrationId);
+      const res = await scanApi.fetchHoldingsSummary({
+        migration_id: migrationId,
+        record_time: snap.record_time,
+        owner_party_ids: [partyId],
+      });
+      return { ...res, summary: res.summaries.find((s) => s.party_id === partyId) ?? null };
+    },
+    enabled,
+    retry: false,
+  });
+
+  const ans = useQuery({
+    queryKey: ["partyAns", partyId],
+    queryFn: () => orNullOnNotFound(scanApi.fetchAnsEntryByParty(partyId)),
+    enabled,
+  });
+
+  const featuredApp = useQuery({
+    queryKey: ["partyFeaturedApp", partyId],
+    queryFn: () => orNullOnNotFound(scanApi.fetchFeaturedApp(partyId)),
+    enabled,
+  });
+
+  const transferPreapproval = useQuery({
+    queryKey: ["partyTransferPreapproval", partyId],
+    queryFn: () => orNullOnNotFound(scanApi.fetchTransferPreapprovalByParty(partyId)),
+    enabled,
+  });
+
+  const transferCommandCounter = useQuery({
+    queryKey: ["partyTransferCommandCounter", partyId],
+    queryFn: () => orNullOnNotFound(scanApi.fetchTransferCommandCounter(partyId)),
+    enabled,
+  });
+
+  const transactions = useQuery({
+    queryKey: ["partyTransactions", partyId],
+    queryFn: () => scanApi.fetchTransactionsByParty(partyId, 50),
+    enabled,
+  });
+
+  // ---------- From the latest ACS snapshot ----------
+  const amulets = usePartyContracts(snapshotId, "Splice:Amulet:Amulet", partyId, enabled);
+  const lockedAmulets = usePartyContracts(snapshotId, "Splice:Amulet:LockedAmulet", partyId, enabled);
+  const validatorLicenses = usePartyContracts(snapshotId, "Splice:ValidatorLicense:ValidatorLicense", partyId, enabled);
+  const faucetCoupons = usePartyContracts(snapshotId, "Splice:ValidatorLicense:ValidatorFaucetCoupon", partyId, enabled);
+  const appRewards = usePartyContracts(snapshotId, "Splice:Amulet:AppRewardCoupon", partyId, enabled);
+  const validatorRewards = usePartyContracts(snapshotId, "Splice:Amulet:ValidatorRewardCoupon", partyId, enabled);
+  const svRewards = usePartyContracts(snapshotId, "Splice:Amulet:SvRewardCoupon", partyId, enabled);
+
+  const balanceRound = useSnapshotBalanceRound(enabled ? snapshot : null);
+  const { round, rateFor } = balanceRound;
+  // Nominal until the valuation round is known
+  const amountOf = useMemo(
+    () => (amount: ExpiringAmount) =>
+      round === null ? amount.initialAmount : balanceAt({ amount }, round, balanceMode, { rateFor }),
+    [round, rateFor, balanceMode],
+  );
+
+  const snapshotHoldings = useMemo(
+    () => ({
+      unlocked: DamlDecimal.sum(amulets.data.map((a) => amountOf(a.amount))),
+      locked: DamlDecimal.sum(lockedAmulets.data.map((l) => amountOf(l.amulet.amount))),
+      round,
+    }),
+    [amulets.data, lockedAmulets.data, amountOf, round],
+  );
+
+  return {
+    snapshot,
+    holdingsSummary,
+    snapshotHoldings,
+    amountOf,
+    ans,
+    featuredApp,
+    transferPreapproval,
+    transferCommandCounter,
+    transactions,
+    amulets,
+    lockedAmulets,
+    validatorLicenses,
+    faucetCoupons,
+    appRewards,
+    validatorRewards,
+    svRewards,
+  };
+}
@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useLedgerSync } from "@/hooks/use-ledger-sync";
+import type { HolderRankRow, RichListSnapshotRow } from "@/lib/rich-list";
+
+const PAGE_SIZE = 1000;
+const SNAPSHOT_COLUMNS =
+  "snapshot_id, record_time, migration_id, as_of_round, holders, total::text, locked::text, nominal_total::text, gini, top10_share, top100_share, nakamoto_coefficient";
+
+/** Concentration metrics of every ranked snapshot, oldest first */
+export function useRichListSnapshots() {
+  return useQuery({
+    queryKey: ["richList", "snapshots"],
+    queryFn: async (): Promise<RichListSnapshotRow[]> => {
+      const rows: RichListSnapshotRow[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("rich_list_snapshots")
+          .select(SNAPSHOT_COLUMNS)
+          .order("record_time", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as unknown as RichListSnapshotRow[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** A holder's rank in every ranked snapshot it made the top of, oldest first */
+export function useHolderRankHistory(owner: string | null) {
+  return useQuery({
+    queryKey: ["richList", "holder", owner],
+    queryFn: async (): Promise<HolderRankRow[]> => {
+      const { data, error } = await supabase
+        .from("rich_list_holder_history")
+        .select("snapshot_id, record_time, owner, rank, unlocked, locked, total")
+        .eq("owner", owner!)
+        .order("record_time", { ascending: true });
+      if (error) throw error;
+      return (data || []) as HolderRankRow[];
+    },
+    enabled: !!owner,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Ranks in the latest ranked snapshot taken before `recordTime`, to show how
+ * holders moved since
+ */
+export function usePreviousRanks(recordTime: string | undefined) {
+  return useQuery({
+    queryKey: ["richList", "previousRanks", recordTime],
+    queryFn: async () => {
+      const { data: snapshot, error } = await supabase
+        .from("rich_list_snapshots")
+        .select("snapshot_id, record_time")
+        .lt("record_time", recordTime!)
+        .order("record_time", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      if (!snapshot) return null;
+
+      const ranks = new Map<string, number>();
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error: ranksError } = await supabase
+          .from("rich_list_holders")
+          .select("owner, rank")
+          .eq("snapshot_id", snapshot.snapshot_id)
+          .order("rank", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (ranksError) throw ranksError;
+        for (const row of data || []) ranks.set(row.owner, row.rank);
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+      return { recordTime: snapshot.record_time, ranks };
+    },
+    enabled: !!recordTime,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useSyncRichListHistory() {
+  return useLedgerSync<{ snapshot_id: string | null }>(
+    "rich-list-history",
+    [["richList"]],
+    {
+      synced: "Rich list history up to date",
+      partial: "Rich list history partly ranked",
+      failed: "Failed to rank the snapshot history",
+      count: (run) => (run.snapshot_id ? 1 : 0),
+      describe: (count) => `${count} snapshot${count === 1 ? "" : "s"} ranked`,
+    },
+  );
+}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { scanApi } from "@/lib/api-client";
+
+/**
+ * Cross-checks the latest total amulet balance on several SVs' scans.
+ * `consistent` is false when a scan answers differently (usually a lagging SV).
+ */
+export function useTotalBalanceConsistency(size: number = 3) {
+  return useQuery({
+    queryKey: ["scanConsistency", "totalBalance", size],
+    queryFn: () => scanApi.fetchTotalBalanceQuorum(size),
+    staleTime: 5 * 60_000,
+    retry: false,
+  });
+}
+
+/** Cross-checks the totals of `round` on several SVs' scans */
+export function useRoundTotalsConsistency(round: number | undefined, size: number = 3) {
+  return useQuery({
+    queryKey: ["scanConsistency", "roundTotals", round, size],
+    queryFn: () => scanApi.fetchRoundTotalsQuorum(round as number, size),
+    enabled: round !== undefined,
+    staleTime: 5 * 60_000,
+    retry: false,
+  });
+}
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { SnapshotDiff } from "@/lib/acs-diff";
+
+export function useSnapshotDiff(
+  fromSnapshotId: string | undefined,
+  toSnapshotId: string | undefined,
+  options: { templateId?: string; includeContractIds?: boolean; maxIds?: number } = {},
+) {
+  const { templateId, includeContractIds = true, maxIds } = options;
+
+  return useQuery<SnapshotDiff, Error>({
+    queryKey: ["snapshot-diff", fromSnapshotId, toSnapshotId, templateId, includeContractIds, maxIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke("snapshot-diff", {
+        body: {
+          from_snapshot_id: fromSnapshotId,
+          to_snapshot_id: toSnapshotId,
+          template_id: templateId,
+          include_contract_ids: includeContractIds,
+          max_ids: maxIds,
+        },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data as SnapshotDiff;
+    },
+    enabled: !!fromSnapshotId && !!toSnapshotId && fromSnapshotId !== toSnapshotId,
+    // Completed snapshots never change
+    staleTime: Infinity,
+  });
+}
@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useLedgerSync, useLedgerSyncCursors } from "@/hooks/use-ledger-sync";
+import {
+  INITIAL_COLLECT_CHOICE,
+  PAYMENT_COLLECT_CHOICE,
+  type CollectedPaymentRow,
+  type SubscriptionLedgerRow,
+} from "@/lib/subscription-ledger";
+
+const PAGE_SIZE = 1000;
+/** Every subscription with its status, payments and next due date */
+export function useSubscriptionLedger() {
+  return useQuery({
+    queryKey: ["subscriptionLedger"],
+    queryFn: async (): Promise<SubscriptionLedgerRow[]> => {
+      const rows: SubscriptionLedgerRow[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("subscription_ledger")
+          .select("*")
+          .order("requested_at", { ascending: false })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as SubscriptionLedgerRow[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Payments collected from `from` until `to` (ISO timestamps) */
+export function useCollectedSubscriptionPayments(from: string, to: string) {
+  return useQuery({
+    queryKey: ["subscriptionPayments", from, to],
+    queryFn: async (): Promise<CollectedPaymentRow[]> => {
+      const rows: CollectedPaymentRow[] = [];
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("subscription_contracts")
+          .select("reference, provider, archived_at, collected_amulet::text")
+          .in("archive_choice", [INITIAL_COLLECT_CHOICE, PAYMENT_COLLECT_CHOICE])
+          .gte("archived_at", from)
+          .lt("archived_at", to)
+          .order("archived_at", { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as CollectedPaymentRow[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** How far the subscription streams have read ledger_events */
+export function useSubscriptionLedgerCursors() {
+  return useLedgerSyncCursors("subscription-ledger");
+}
+
+export function useSyncSubscriptionLedger() {
+  return useLedgerSync<{ initial_payment_events: number; payment_events: number; idle_events: number }>(
+    "subscription-ledger",
+    [["subscriptionLedger"], ["subscriptionPayments"]],
+    {
+      synced: "Subscription ledger synced",
+      partial: "Subscription ledger partly synced",
+      failed: "Failed to sync the subscription ledger",
+      count: (run) => run.initial_payment_events + run.payment_events + run.idle_events,
+    },
+  );
+}
@@ -0,0 +1,140 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { scanApi, type RoundTotals } from "@/lib/api-client";
+import { useBurnStats } from "@/hooks/use-burn-stats";
+import { buildSupplyHistory, type SupplySnapshot } from "@/lib/supply-history";
+
+export type SupplyHistoryRange = "7d" | "30d" | "90d" | "all";
+
+export const SUPPLY_HISTORY_RANGES: Record<SupplyHistoryRange, { label: string; days: number | null }> = {
+  "7d": { label: "7 days", days: 7 },
+  "30d": { label: "30 days", days: 30 },
+  "90d": { label: "90 days", days: 90 },
+  all: { label: "All", days: null },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_ROUND_MS = 10 * 60 * 1000; // ~10 minutes per round
+// Round totals sampled across the range for the projected line
+const ROUND_SAMPLES = 120;
+// useBurnStats pages through updates, so keep its window bounded
+const MAX_BURN_DAYS = 30;
+
+async function fetchRound(round: number): Promise<RoundTotals | null> {
+  const res = await scanApi.fetchRoundTotals({ start_round: round, end_round: round });
+  return res.entries[0] ?? null;
+}
+
+/** Completed snapshots in the range, plus the one before it to project from */
+function useSupplySnapshots(since: string | null) {
+  return useQuery({
+    queryKey: ["supplyHistorySnapshots", since],
+    queryFn: async () => {
+      const select =
+        "id, migration_id, record_time, amulet_total:amulet_total::text, locked_total:locked_total::text";
+
+      let query = supabase
+        .from("acs_snapshots")
+        .select(select)
+        .eq("status", "completed")
+        .order("record_time", { ascending: true });
+      if (since) query = query.gte("record_time", since);
+      const { data, error } = await query;
+      if (error) throw error;
+
+      let before: unknown[] = [];
+      if (since) {
+        const { data: prev, error: prevError } = await supabase
+          .from("acs_snapshots")
+          .select(select)
+          .eq("status", "completed")
+          .lt("record_time", since)
+          .order("record_time", { ascending: false })
+          .limit(1);
+        if (prevError) throw prevError;
+        before = prev || [];
+      }
+
+      return [...before, ...(data || [])] as unknown as SupplySnapshot[];
+    },
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function useSupplyHistory(range: SupplyHistoryRange, tolerance?: number) {
+  const days = SUPPLY_HISTORY_RANGES[range].days;
+
+  const { data: latestRound } = useQuery({
+    queryKey: ["latestRound"],
+    queryFn: () => scanApi.fetchLatestRound(),
+    staleTime: 60_000,
+  });
+
+  // Anchor "since" to the latest round so the query key is stable between renders
+  const since = useMemo(
+    () => (days && latestRound ? new Date(new Date(latestRound.effectiveAt).getTime() - days * DAY_MS).toISOString() : null),
+    [days, latestRound],
+  );
+
+  const snapshotsQuery = useSupplySnapshots(since);
+  const snapshots = snapshotsQuery.data;
+
+  const roundsQuery = useQuery({
+    queryKey: ["supplyHistoryRounds", latestRound?.round, range, snapshots?.map((s) => s.id).join(",")],
+    queryFn: async () => {
+      const latestTime = new Date(latestRound.effectiveAt).getTime();
+      const startTime = since
+        ? new Date(since).getTime()
+        : snapshots.length
+          ? new Date(snapshots[0].record_time).getTime()
+          : latestTime - 7 * DAY_MS;
+
+      // Locate the start of the range, then derive the actual round length from it
+      const startGuess = Math.max(0, latestRound.round - Math.round((latestTime - startTime) / DEFAULT_ROUND_MS));
+      const startRound = await fetchRound(startGuess);
+      const roundMs =
+        startRound && latestRound.round > startGuess
+          ? (latestTime - new Date(startRound.closed_round_effective_at).getTime()) / (latestRound.round - startGuess)
+          : DEFAULT_ROUND_MS;
+      const roundAt = (t: number) =>
+        Math.min(latestRound.round, Math.max(0, Math.round(latestRound.round - (latestTime - t) / roundMs)));
+
+      const wanted = new Set<number>();
+      const step = Math.max(1, Math.ceil((latestRound.round - startGuess) / ROUND_SAMPLES));
+      for (let r = startGuess + step; r <= latestRound.round; r += step) wanted.add(r);
+      wanted.add(latestRound.round);
+      // Exact rounds at the snapshots, so projections start and end where the snapshots are
+      for (const s of snapshots) wanted.add(roundAt(new Date(s.record_time).getTime()));
+      wanted.delete(startGuess);
+
+      // Concurrency is capped by the scan transport; missing rounds are just gaps
+      const fetched = await Promise.all(Array.from(wanted).map((r) => fetchRound(r).catch(() => null)));
+      return [startRound, ...fetched].filter((r): r is RoundTotals => !!r);
+    },
+    enabled: !!latestRound && !!snapshots,
+    staleTime: 5 * 60_000,
+  });
+
+  const burnQuery = useBurnStats({ days: Math.min(days ?? MAX_BURN_DAYS, MAX_BURN_DAYS) });
+
+  const history = useMemo(() => {
+    if (!snapshots || !roundsQuery.data) return null;
+    return buildSupplyHistory({
+      snapshots,
+      rounds: roundsQuery.data,
+      burnByDay: Object.fromEntries(
+        Object.entries(burnQuery.data?.byDay ?? {}).map(([day, burn]) => [day, burn.totalBurn]),
+      ),
+      tolerance,
+    });
+  }, [snapshots, roundsQuery.data, burnQuery.data, tolerance]);
+
+  return {
+    data: history,
+    isLoading: snapshotsQuery.isLoading || roundsQuery.isLoading || !latestRound,
+    error: snapshotsQuery.error ?? roundsQuery.error,
+    /** Burn stats only feed the fallback projection, so they load in the background */
+    burnLoading: burnQuery.isLoading,
+  };
+}
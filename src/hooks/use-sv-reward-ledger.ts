@@ -0,0 +1,147 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchConfigData } from "@/lib/config-sync";
+import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
+import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
+import { useLedgerSync, useLedgerSyncCursors } from "@/hooks/use-ledger-sync";
+import { decodeContracts } from "@/lib/splice-decoders";
+import type { DailyMovement, ExpectedWeight } from "@/lib/sv-reward-ledger";
+
+const PAGE_SIZE = 1000;
+
+/** Whose statement: one beneficiary, or everything an SV operator issued */
+export type RewardAccount = { kind: "beneficiary" | "sv"; party: string };
+
+export interface RewardAccountOption extends RewardAccount {
+  label: string;
+  operator: string;
+}
+
+export type SvRewardLedgerRow = {
+  contract_id: string;
+  sv: string;
+  beneficiary: string;
+  round: number;
+  weight: number;
+  status: string;
+  created_at: string;
+  closed_at: string | null;
+  close_choice: string | null;
+  issuance_per_sv_reward: string | null;
+  amount: string | null;
+};
+
+/**
+ * Operators and extra beneficiaries from approvedSvIdentities, with operator
+ * parties from DsoRules. Operators keep what they do not pass on to extra
+ * beneficiaries as their own weight.
+ */
+export function useSvRewardAccounts() {
+  const configQuery = useQuery({
+    queryKey: ["sv-config", "v5"],
+    queryFn: () => fetchConfigData(true),
+    staleTime: 24 * 60 * 60 * 1000,
+  });
+  const { data: snapshot } = useLatestACSSnapshot();
+  const dsoRulesQuery = useAggregatedTemplateData(snapshot?.id, "Splice:DsoRules:DsoRules", !!snapshot);
+
+  return useMemo(() => {
+    const [dsoRules] = dsoRulesQuery.data ? decodeContracts("Splice:DsoRules:DsoRules", dsoRulesQuery.data.data).values : [];
+    const svsByName = new Map((dsoRules?.svs ?? []).map(([party, info]) => [info.name, { party, info }]));
+
+    const options: RewardAccountOption[] = [];
+    const expected: ExpectedWeight[] = [];
+    const onChainWeights = new Map<string, number>();
+
+    for (const op of configQuery.data?.operators ?? []) {
+      const sv = svsByName.get(op.name);
+      const passedOn = op.extraBeneficiaries.reduce((sum, b) => sum + b.weight, 0);
+      if (sv) {
+        options.push({ kind: "sv", party: sv.party, label: `${op.name} (all beneficiaries)`, operator: op.name });
+        options.push({ kind: "beneficiary", party: sv.party, label: `${op.name} (own share)`, operator: op.name });
+        expected.push({ beneficiary: sv.party, operator: op.name, weight: op.rewardWeightBps - passedOn });
+        onChainWeights.set(op.name, sv.info.svRewardWeight);
+      }
+      for (const b of op.extraBeneficiaries) {
+        options.push({ kind: "beneficiary", party: b.beneficiary, label: b.beneficiary.split("::")[0], operator: op.name });
+        expected.push({ beneficiary: b.beneficiary, operator: op.name, weight: b.weight });
+      }
+    }
+
+    return {
+      options,
+      expected,
+      onChainWeights,
+      isLoading: configQuery.isLoading || !snapshot || dsoRulesQuery.isLoading,
+      error: configQuery.error ?? dsoRulesQuery.error,
+    };
+  }, [configQuery.data, configQuery.isLoading, configQuery.error, snapshot, dsoRulesQuery.data, dsoRulesQuery.isLoading, dsoRulesQuery.error]);
+}
+
+/** Every daily movement of an account up to `to` (inclusive), for its statement */
+export function useSvRewardMovements(account: RewardAccount | null, to: string) {
+  return useQuery({
+    queryKey: ["svRewardMovements", account?.kind, account?.party, to],
+    queryFn: async (): Promise<DailyMovement[]> => {
+      const rows: DailyMovement[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("sv_reward_daily")
+          .select("*")
+          .eq(account!.kind, account!.party)
+          .lte("day", to)
+          .order("day", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as DailyMovement[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    enabled: !!account,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Coupons issued to an account between two UTC days, newest round first */
+export function useSvRewardCoupons(account: RewardAccount | null, from: string, to: string, page: number, pageSize = 50) {
+  return useQuery({
+    queryKey: ["svRewardCoupons", account?.kind, account?.party, from, to, page, pageSize],
+    queryFn: async () => {
+      const end = new Date(Date.parse(`${to}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString();
+      const { data, error, count } = await supabase
+        .from("sv_reward_ledger")
+        .select(
+          "contract_id, sv, beneficiary, round, weight, status, created_at, closed_at, close_choice, issuance_per_sv_reward, amount",
+          { count: "exact" },
+        )
+        .eq(account!.kind, account!.party)
+        .gte("created_at", `${from}T00:00:00Z`)
+        .lt("created_at", end)
+        .order("round", { ascending: false })
+        .range(page * pageSize, (page + 1) * pageSize - 1);
+      if (error) throw error;
+      return { rows: (data || []) as SvRewardLedgerRow[], total: count ?? 0 };
+    },
+    enabled: !!account,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** How far the ledger has read ledger_events */
+export function useSvRewardLedgerCursors() {
+  return useLedgerSyncCursors("sv-reward-ledger");
+}
+
+export function useSyncSvRewardLedger() {
+  return useLedgerSync<{ coupon_events: number; round_events: number }>(
+    "sv-reward-ledger",
+    [["svRewardMovements"], ["svRewardCoupons"]],
+    {
+      synced: "SV reward ledger synced",
+      partial: "SV reward ledger partly synced",
+      failed: "Failed to sync the SV reward ledger",
+      count: (run) => run.coupon_events + run.round_events,
+    },
+  );
+}
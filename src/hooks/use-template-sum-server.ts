@@ -1,29 +1,52 @@
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { BalanceMode } from "@/lib/amulet-balance";
 
 export interface ServerAggregationResult {
-  sum: number;
+  /** Exact 10-decimal total, e.g. "1234.5000000000" */
+  sum: string;
   count: number;
   templateCount: number;
+  balance: BalanceMode;
+  /** Round the effective total is valued at; null for nominal totals */
+  round: number | null;
+}
+
+export interface ServerBalanceOptions {
+  mode: BalanceMode;
+  /** Required for effective totals */
+  round?: number | null;
+  /** CC per round for payloads that carry no ratePerRound */
+  holdingFeeRate?: string | null;
 }
 
 export function useTemplateSumServer(
   snapshotId: string | undefined,
   templateSuffix: string,
   mode: 'circulating' | 'locked',
-  enabled: boolean = true
+  enabled: boolean = true,
+  balance: ServerBalanceOptions = { mode: "nominal" }
 ) {
+  const effective = balance.mode === "effective";
   return useQuery<ServerAggregationResult, Error>({
-    queryKey: ["server-template-sum", snapshotId, templateSuffix, mode],
+    queryKey: ["server-template-sum", snapshotId, templateSuffix, mode, balance.mode, balance.round, balance.holdingFeeRate],
     queryFn: async () => {
       if (!snapshotId) throw new Error("Snapshot ID required");
       const { data, error } = await supabase.functions.invoke("aggregate-template-sum", {
-        body: { snapshot_id: snapshotId, template_suffix: templateSuffix, mode },
+        body: {
+          snapshot_id: snapshotId,
+          template_suffix: templateSuffix,
+          mode,
+          balance: balance.mode,
+          round: effective ? balance.round : undefined,
+          holding_fee_rate: effective ? balance.holdingFeeRate ?? undefined : undefined,
+        },
       });
       if (error) throw error as any;
+      if (data?.error) throw new Error(data.error);
       return data as ServerAggregationResult;
     },
-    enabled: enabled && !!snapshotId && !!templateSuffix,
+    enabled: enabled && !!snapshotId && !!templateSuffix && (!effective || balance.round != null),
     staleTime: 5 * 60 * 1000,
   });
 }
@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useLedgerSync, useLedgerSyncCursors } from "@/hooks/use-ledger-sync";
+import { scanApi } from "@/lib/api-client";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { flowsFromTransactions, type Counterparty, type FlowEdge, type TransferFlow } from "@/lib/transfer-flows";
+
+const SCAN_PAGE_SIZE = 500;
+
+export interface FlowQuery {
+  from: string;
+  to: string;
+  /** Exact decimal text; only transfer outputs of at least this amount */
+  minAmount: string | null;
+  parties: string[];
+  limit: number;
+}
+
+/** Sender -> receiver edges from the synced ledger, largest amount first */
+export function useTransferFlowEdges(query: FlowQuery, enabled = true) {
+  return useQuery({
+    queryKey: ["transferFlows", "edges", query],
+    queryFn: async (): Promise<FlowEdge[]> => {
+      const { data, error } = await supabase.rpc("transfer_flow_edges", {
+        _from: query.from,
+        _to: query.to,
+        // Decimal text, so the numeric parameter gets the exact amount
+        _min_amount: query.minAmount ?? "0",
+        _parties: query.parties.length > 0 ? query.parties : null,
+        _limit: query.limit,
+      });
+      if (error) throw error;
+      return (data || []).map((row) => ({ ...row, amount: DamlDecimal.from(row.amount) }));
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** The parties `party` exchanged the most with from `from` until `to` */
+export function useTransferCounterparties(party: string | null, from: string, to: string, limit = 10) {
+  return useQuery({
+    queryKey: ["transferFlows", "counterparties", party, from, to, limit],
+    queryFn: async (): Promise<Counterparty[]> => {
+      const { data, error } = await supabase.rpc("transfer_counterparties", {
+        _party: party!,
+        _from: from,
+        _to: to,
+        _limit: limit,
+      });
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        party: row.party,
+        sent: DamlDecimal.from(row.sent),
+        received: DamlDecimal.from(row.received),
+        transfers: row.transfers,
+      }));
+    },
+    enabled: !!party,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Flows of the latest transactions on Scan, newest first, back to `since`
+ * or `maxPages` pages of 500, whichever comes first. Covers what the ledger
+ * sync has not reached yet.
+ */
+export function useRecentTransferFlows(since: string, maxPages: number, enabled = true) {
+  return useQuery({
+    queryKey: ["transferFlows", "recent", since, maxPages],
+    queryFn: async (): Promise<TransferFlow[]> => {
+      const flows: TransferFlow[] = [];
+      let pageEnd: string | undefined;
+      for (let page = 0; page < maxPages; page++) {
+        const res = await scanApi.fetchTransactions({
+          page_end_event_id: pageEnd,
+          sort_order: "desc",
+          page_size: SCAN_PAGE_SIZE,
+        });
+        const txs = (res.transactions || []).filter((tx) => tx.date >= since);
+        flows.push(...flowsFromTransactions(txs));
+        if (txs.length < SCAN_PAGE_SIZE) break;
+        pageEnd = txs[txs.length - 1].event_id;
+      }
+      return flows;
+    },
+    enabled,
+    staleTime: 60_000,
+  });
+}
+
+/** How far the transfer stream has read ledger_events */
+export function useTransferFlowCursors() {
+  return useLedgerSyncCursors("transfer-flows");
+}
+
+export function useSyncTransferFlows() {
+  return useLedgerSync<{ transfer_events: number }>(
+    "transfer-flows",
+    [["transferFlows"]],
+    {
+      synced: "Transfer flows synced",
+      partial: "Transfer flows partly synced",
+      failed: "Failed to sync transfer flows",
+      count: (run) => run.transfer_events,
+      describe: (count) => `${count} transfers`,
+    },
+  );
+}
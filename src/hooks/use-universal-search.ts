@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { scanApi } from "@/lib/api-client";
+import { isScanApiError } from "@/lib/scan-transport";
+import { decodeContract } from "@/lib/splice-decoders";
+import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
+import {
+  classifyQuery,
+  rankResults,
+  scoreMatch,
+  searchRoutes,
+  type QueryClassification,
+  type SearchResult,
+} from "@/lib/search-index";
+
+const DEBOUNCE_MS = 250;
+const PER_SOURCE_LIMIT = 8;
+
+const shortId = (id: string) => (id.length > 24 ? `${id.substring(0, 24)}...` : id);
+
+// ---------- Resolvers ----------
+
+async function searchUpdates(c: QueryClassification): Promise<SearchResult[]> {
+  if (!c.hexId) return [];
+  const { data, error } = await supabase
+    .from("ledger_updates")
+    .select("update_id, kind, record_time, migration_id")
+    .like("update_id", `${c.query}%`)
+    .limit(PER_SOURCE_LIMIT);
+  if (error) throw error;
+  return (data || []).map((u) => ({
+    kind: "update",
+    id: u.update_id,
+    label: shortId(u.update_id),
+    detail: [u.kind, u.record_time && new Date(u.record_time).toLocaleString(), u.migration_id != null && `migration ${u.migration_id}`]
+      .filter(Boolean)
+      .join(" · "),
+    href: searchRoutes.update(u.update_id),
+    score: scoreMatch(u.update_id, c.query),
+  }));
+}
+
+async function searchContracts(c: QueryClassification): Promise<SearchResult[]> {
+  if (!c.hexId) return [];
+  const { data, error } = await supabase
+    .from("ledger_events")
+    .select("contract_id, template_id, update_id, event_type")
+    .like("contract_id", `${c.query}%`)
+    .in("event_type", ["created_event", "reassign_create"])
+    .limit(PER_SOURCE_LIMIT);
+  if (error) throw error;
+  return (data || [])
+    .filter((e) => e.contract_id && e.update_id)
+    .map((e) => ({
+      kind: "contract",
+      id: e.contract_id,
+      label: shortId(e.contract_id),
+      detail: e.template_id ? `${e.template_id.split(":").slice(-2).join(":")}, created in ${shortId(e.update_id)}` : undefined,
+      href: searchRoutes.contract(e.contract_id),
+      score: scoreMatch(e.contract_id, c.query),
+    }));
+}
+
+async function searchTemplates(c: QueryClassification, snapshotId: string | undefined): Promise<SearchResult[]> {
+  if (!c.template || !snapshotId) return [];
+  const { data, error } = await supabase
+    .from("acs_template_stats")
+    .select("template_id, contract_count")
+    .eq("snapshot_id", snapshotId)
+    .ilike("template_id", `%${c.query}%`)
+    .limit(PER_SOURCE_LIMIT);
+  if (error) throw error;
+  return (data || []).map((t) => {
+    // Rank on the module path, the package hash is noise
+    const name = t.template_id.split(":").slice(1).join(":");
+    const entity = t.template_id.split(":").pop() ?? name;
+    return {
+      kind: "template",
+      id: t.template_id,
+      label: name,
+      detail: `${t.contract_count.toLocaleString()} active contracts`,
+      href: searchRoutes.template(t.template_id),
+      score: Math.max(scoreMatch(name, c.query), scoreMatch(entity, c.query)),
+    };
+  });
+}
+
+async function searchAns(c: QueryClassification): Promise<SearchResult[]> {
+  if (!c.name) return [];
+  const name = c.query.toLowerCase();
+  const [exact, prefixed] = await Promise.all([
+    scanApi.fetchAnsEntryByName(name).catch((e) => {
+      if (isScanApiError(e) && e.status === 404) return null;
+      throw e;
+    }),
+    scanApi.fetchAnsEntries(name, PER_SOURCE_LIMIT),
+  ]);
+  const entries = [...(exact ? [exact.entry] : []), ...prefixed.entries];
+  return entries.map((entry) => ({
+    kind: "ans",
+    id: entry.name,
+    label: entry.name,
+    detail: entry.user,
+    href: searchRoutes.party(entry.user),
+    score: scoreMatch(entry.name, name),
+  }));
+}
+
+function searchRounds(c: QueryClassification, latestRound: number | undefined): SearchResult[] {
+  if (c.round === null || (latestRound !== undefined && c.round > latestRound)) return [];
+  return [
+    {
+      kind: "round",
+      id: String(c.round),
+      label: `Round ${c.round}`,
+      href: searchRoutes.round(c.round),
+      score: 100,
+    },
+  ];
+}
+
+function searchParties(c: QueryClassification, directory: string[]): SearchResult[] {
+  if (c.partyId) {
+    return [{ kind: "party", id: c.query, label: shortId(c.query), href: searchRoutes.party(c.query), score: 100 }];
+  }
+  if (!c.name) return [];
+  // Party hints only, matching inside fingerprints is not useful
+  return directory
+    .map((party) => ({ party, score: scoreMatch(party.split("::")[0], c.query) }))
+    .filter((m) => m.score >= 60)
+    .slice(0, PER_SOURCE_LIMIT)
+    .map(({ party, score }) => ({
+      kind: "party",
+      id: party,
+      label: party.split("::")[0],
+      detail: shortId(party),
+      href: searchRoutes.party(party),
+      score,
+    }));
+}
+
+/**
+ * Known parties to prefix-match hints against: validators, featured app
+ * providers and SVs. Scan has no party listing, so this is the best cheap
+ * directory there is.
+ */
+function usePartyDirectory(enabled: boolean) {
+  return useQuery({
+    queryKey: ["searchPartyDirectory"],
+    queryFn: async () => {
+      const [licenses, apps, dso] = await Promise.all([
+        scanApi.fetchValidatorLicenses(undefined, 1000).catch(() => null),
+        scanApi.fetchFeaturedApps().catch(() => null),
+        scanApi.fetchDsoInfo().catch(() => null),
+      ]);
+      const parties = new Set<string>();
+      for (const c of licenses?.validator_licenses ?? []) if (c.payload?.validator) parties.add(c.payload.validator);
+      for (const c of apps?.featured_apps ?? []) if (c.payload?.provider) parties.add(c.payload.provider);
+      const rules = dso?.dso_rules ? decodeContract("Splice:DsoRules:DsoRules", dso.dso_rules.contract.payload) : null;
+      if (rules?.ok) for (const [sv] of rules.value.svs) parties.add(sv);
+      return Array.from(parties);
+    },
+    enabled,
+    staleTime: 10 * 60_000,
+  });
+}
+
+export function useUniversalSearch(rawQuery: string) {
+  const [query, setQuery] = useState(rawQuery.trim());
+
+  useEffect(() => {
+    const handle = setTimeout(() => setQuery(rawQuery.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(handle);
+  }, [rawQuery]);
+
+  const bare = query.replace(/^#/, "");
+  const enabled = bare.length >= 2 || /^\d+$/.test(bare);
+  const { data: snapshot } = useLatestACSSnapshot();
+  const { data: latestRound } = useQuery({
+    queryKey: ["latestRound"],
+    queryFn: () => scanApi.fetchLatestRound(),
+    staleTime: 60_000,
+  });
+  const { data: directory } = usePartyDirectory(enabled);
+
+  const search = useQuery({
+    queryKey: ["universalSearch", query, snapshot?.id, directory?.length],
+    queryFn: async () => {
+      const c = classifyQuery(query);
+      // One failing source must not hide the others
+      const settled = await Promise.allSettled([
+        searchUpdates(c),
+        searchContracts(c),
+        searchTemplates(c, snapshot?.id),
+        searchAns(c),
+      ]);
+      const results = [
+        ...searchParties(c, directory ?? []),
+        ...searchRounds(c, latestRound?.round),
+        ...settled.flatMap((s) => (s.status === "fulfilled" ? s.value : [])),
+      ];
+      const failed = settled.filter((s) => s.status === "rejected").length;
+      if (failed > 0) console.warn(`Universal search: ${failed} source(s) failed`, settled);
+      return { classification: c, results: rankResults(results), failedSources: failed };
+    },
+    enabled,
+    staleTime: 30_000,
+  });
+
+  return {
+    ...search,
+    /** True while the debounce has not caught up with the input */
+    isPending: rawQuery.trim() !== query || search.isFetching,
+  };
+}
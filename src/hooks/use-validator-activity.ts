@@ -0,0 +1,216 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useLedgerSync, useLedgerSyncCursors } from "@/hooks/use-ledger-sync";
+import { scanApi } from "@/lib/api-client";
+import type { ActivityDay, NetworkRoundsDay } from "@/lib/validator-activity";
+
+const PAGE_SIZE = 1000;
+// Amounts as text, so they stay exact
+const DAILY_COLUMNS =
+  "validator, day, liveness_rounds, min_round, max_round, reward_coupons, reward_activity::text, reward_amount::text, faucet_amount::text, unpriced_count, traffic_purchases, traffic_bought, traffic_amulet_paid::text";
+
+export type ValidatorScore = {
+  validator: string;
+  first_day: string;
+  last_live_day: string | null;
+  first_round: number | null;
+  last_round: number | null;
+  liveness_rounds: number;
+  missed_rounds: number | null;
+  liveness_7d: number;
+  liveness_prev_7d: number;
+  rounds_7d: number;
+  rounds_prev_7d: number;
+  reward_coupons: number;
+  rewards_total: string;
+  rewards_7d: string;
+  rewards_prev_7d: string;
+  traffic_purchases: number;
+  traffic_bought: number;
+  traffic_amulet_paid: string;
+  unpriced_count: number;
+};
+
+export type MissedRounds = {
+  validator: string;
+  from_round: number;
+  to_round: number;
+  missed: number;
+  last_seen_at: string;
+  resumed_at: string;
+};
+
+export type TrafficPurchase = {
+  event_id: string;
+  member_id: string;
+  traffic_amount: number;
+  amulet_paid: string | null;
+  round: number | null;
+  recorded_at: string;
+  update_id: string | null;
+};
+
+/** Every validator with synced activity */
+export function useValidatorScoreboard() {
+  return useQuery({
+    queryKey: ["validatorScoreboard"],
+    queryFn: async (): Promise<ValidatorScore[]> => {
+      const rows: ValidatorScore[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("validator_scoreboard")
+          .select("*")
+          .order("validator", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as ValidatorScore[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useValidatorScore(validator: string | undefined) {
+  return useQuery({
+    queryKey: ["validatorScore", validator],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("validator_scoreboard")
+        .select("*")
+        .eq("validator", validator!)
+        .maybeSingle();
+      if (error) throw error;
+      return data as ValidatorScore | null;
+    },
+    enabled: !!validator,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** A validator's daily series, oldest first */
+export function useValidatorActivityDaily(validator: string | undefined) {
+  return useQuery({
+    queryKey: ["validatorActivityDaily", validator],
+    queryFn: async (): Promise<ActivityDay[]> => {
+      const rows: ActivityDay[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("validator_activity_daily")
+          .select(DAILY_COLUMNS)
+          .eq("validator", validator!)
+          .order("day", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as ActivityDay[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    enabled: !!validator,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Rounds the network issued per day, from `fromDay` on */
+export function useNetworkRoundsDaily(fromDay: string | undefined) {
+  return useQuery({
+    queryKey: ["networkRoundsDaily", fromDay],
+    queryFn: async (): Promise<NetworkRoundsDay[]> => {
+      const rows: NetworkRoundsDay[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("mining_rounds_daily")
+          .select("*")
+          .gte("day", fromDay!)
+          .order("day", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as NetworkRoundsDay[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+    enabled: !!fromDay,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Gaps in a validator's liveness, newest first */
+export function useValidatorMissedRounds(validator: string | undefined, page: number, pageSize = 25) {
+  return useQuery({
+    queryKey: ["validatorMissedRounds", validator, page, pageSize],
+    queryFn: async () => {
+      const { data, error, count } = await supabase
+        .from("validator_missed_rounds")
+        .select("*", { count: "exact" })
+        .eq("validator", validator!)
+        .order("from_round", { ascending: false })
+        .range(page * pageSize, (page + 1) * pageSize - 1);
+      if (error) throw error;
+      return { rows: (data || []) as MissedRounds[], total: count ?? 0 };
+    },
+    enabled: !!validator,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useValidatorTrafficPurchases(validator: string | undefined, page: number, pageSize = 25) {
+  return useQuery({
+    queryKey: ["validatorTrafficPurchases", validator, page, pageSize],
+    queryFn: async () => {
+      const { data, error, count } = await supabase
+        .from("validator_traffic_purchases")
+        .select("event_id, member_id, traffic_amount, amulet_paid::text, round, recorded_at, update_id", { count: "exact" })
+        .eq("validator", validator!)
+        .order("recorded_at", { ascending: false })
+        .range(page * pageSize, (page + 1) * pageSize - 1);
+      if (error) throw error;
+      return { rows: (data || []) as TrafficPurchase[], total: count ?? 0 };
+    },
+    enabled: !!validator,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Scan's own count of collected and missed rounds, to check the synced series against */
+export function useScanValidatorLiveness(validator: string | undefined) {
+  return useQuery({
+    queryKey: ["scanValidatorLiveness", validator],
+    queryFn: async () => {
+      const res = await scanApi.fetchValidatorLiveness([validator!]);
+      return res.validatorsReceivedFaucets.find((v) => v.validator === validator) ?? null;
+    },
+    enabled: !!validator,
+    retry: 1,
+  });
+}
+
+/** How far the validator activity streams have read ledger_events */
+export function useValidatorActivityCursors() {
+  return useLedgerSyncCursors("validator-activity");
+}
+
+export function useSyncValidatorActivity() {
+  return useLedgerSync<{
+    liveness_events: number;
+    faucet_events: number;
+    reward_events: number;
+    traffic_events: number;
+    round_events: number;
+  }>(
+    "validator-activity",
+    [
+      ["validatorScoreboard"],
+      ["validatorScore"],
+      ["validatorActivityDaily"],
+      ["networkRoundsDaily"],
+      ["validatorMissedRounds"],
+      ["validatorTrafficPurchases"],
+    ],
+    {
+      synced: "Validator activity synced",
+      partial: "Validator activity partly synced",
+      failed: "Failed to sync validator activity",
+      count: (run) => run.liveness_events + run.faucet_events + run.reward_events + run.traffic_events + run.round_events,
+    },
+  );
+}
@@ -141,6 +141,7 @@ export type Database = {
           total_events: number | null
           updated_at: string
           updates_processed: number | null
+          verification: Json | null
         }
         Insert: {
           amulet_total: number
@@ -182,6 +183,7 @@ export type Database = {
           total_events?: number | null
           updated_at?: string
           updates_processed?: number | null
+          verification?: Json | null
         }
         Update: {
           amulet_total?: number
@@ -223,6 +225,7 @@ export type Database = {
           total_events?: number | null
           updated_at?: string
           updates_processed?: number | null
+          verification?: Json | null
         }
         Relationships: [
           {
@@ -237,6 +240,7 @@ export type Database = {
       acs_template_stats: {
         Row: {
           contract_count: number
+          contract_id_checksum: string | null
           created_at: string
           field_sums: Json | null
           id: string
@@ -248,6 +252,7 @@ export type Database = {
         }
         Insert: {
           contract_count: number
+          contract_id_checksum?: string | null
           created_at?: string
           field_sums?: Json | null
           id?: string
@@ -259,6 +264,7 @@ export type Database = {
         }
         Update: {
           contract_count?: number
+          contract_id_checksum?: string | null
           created_at?: string
           field_sums?: Json | null
           id?: string
@@ -278,6 +284,222 @@ export type Database = {
           },
         ]
       }
+      ans_entries: {
+        Row: {
+          archive_choice: string | null
+          archive_update_id: string | null
+          archived_at: string | null
+          contract_id: string
+          created_at: string | null
+          created_update_id: string | null
+          description: string | null
+          expires_at: string | null
+          name: string | null
+          owner: string | null
+          synced_at: string
+          url: string | null
+        }
+        Insert: {
+          archive_choice?: string | null
+          archive_update_id?: string | null
+          archived_at?: string | null
+          contract_id: string
+          created_at?: string | null
+          created_update_id?: string | null
+          description?: string | null
+          expires_at?: string | null
+          name?: string | null
+          owner?: string | null
+          synced_at?: string
+          url?: string | null
+        }
+        Update: {
+          archive_choice?: string | null
+          archive_update_id?: string | null
+          archived_at?: string | null
+          contract_id?: string
+          created_at?: string | null
+          created_update_id?: string | null
+          description?: string | null
+          expires_at?: string | null
+          name?: string | null
+          owner?: string | null
+          synced_at?: string
+          url?: string | null
+        }
+        Relationships: []
+      }
+      ans_entry_payments: {
+        Row: {
+          choice: string
+          context_contract_id: string
+          event_id: string
+          kind: string
+          payment_contract_id: string | null
+          recorded_at: string
+          synced_at: string
+          update_id: string
+        }
+        Insert: {
+          choice: string
+          context_contract_id: string
+          event_id: string
+          kind: string
+          payment_contract_id?: string | null
+          recorded_at: string
+          synced_at?: string
+          update_id: string
+        }
+        Update: {
+          choice?: string
+          context_contract_id?: string
+          event_id?: string
+          kind?: string
+          payment_contract_id?: string | null
+          recorded_at?: string
+          synced_at?: string
+          update_id?: string
+        }
+        Relationships: []
+      }
+      app_activity_daily: {
+        Row: {
+          coupon_activity: number | null
+          coupons_claimed: number
+          coupons_expired: number
+          coupons_issued: number
+          day: string
+          featured_coupons: number
+          marker_weight: number | null
+          markers: number
+          provider: string
+          reward_claimed: number | null
+          reward_expired: number | null
+          reward_issued: number | null
+          transfer_volume: number | null
+          transfers: number
+          unpriced_count: number
+        }
+        Insert: {
+          coupon_activity?: number | null
+          coupons_claimed?: number
+          coupons_expired?: number
+          coupons_issued?: number
+          day: string
+          featured_coupons?: number
+          marker_weight?: number | null
+          markers?: number
+          provider: string
+          reward_claimed?: number | null
+          reward_expired?: number | null
+          reward_issued?: number | null
+          transfer_volume?: number | null
+          transfers?: number
+          unpriced_count?: number
+        }
+        Update: {
+          coupon_activity?: number | null
+          coupons_claimed?: number
+          coupons_expired?: number
+          coupons_issued?: number
+          day?: string
+          featured_coupons?: number
+          marker_weight?: number | null
+          markers?: number
+          provider?: string
+          reward_claimed?: number | null
+          reward_expired?: number | null
+          reward_issued?: number | null
+          transfer_volume?: number | null
+          transfers?: number
+          unpriced_count?: number
+        }
+        Relationships: []
+      }
+      app_reward_coupons: {
+        Row: {
+          amount: number | null
+          beneficiary: string | null
+          close_choice: string | null
+          close_update_id: string | null
+          closed_at: string | null
+          contract_id: string
+          created_at: string | null
+          created_update_id: string | null
+          featured: boolean | null
+          provider: string | null
+          round: number | null
+          status: string
+          synced_at: string
+        }
+        Insert: {
+          amount?: number | null
+          beneficiary?: string | null
+          close_choice?: string | null
+          close_update_id?: string | null
+          closed_at?: string | null
+          contract_id: string
+          created_at?: string | null
+          created_update_id?: string | null
+          featured?: boolean | null
+          provider?: string | null
+          round?: number | null
+          status?: string
+          synced_at?: string
+        }
+        Update: {
+          amount?: number | null
+          beneficiary?: string | null
+          close_choice?: string | null
+          close_update_id?: string | null
+          closed_at?: string | null
+          contract_id?: string
+          created_at?: string | null
+          created_update_id?: string | null
+          featured?: boolean | null
+          provider?: string | null
+          round?: number | null
+          status?: string
+          synced_at?: string
+        }
+        Relationships: []
+      }
+      app_transfers: {
+        Row: {
+          event_id: string
+          outputs: number
+          provider: string
+          recorded_at: string
+          round: number | null
+          sender: string
+          synced_at: string
+          update_id: string | null
+          volume: number
+        }
+        Insert: {
+          event_id: string
+          outputs: number
+          provider: string
+          recorded_at: string
+          round?: number | null
+          sender: string
+          synced_at?: string
+          update_id?: string | null
+          volume: number
+        }
+        Update: {
+          event_id?: string
+          outputs?: number
+          provider?: string
+          recorded_at?: string
+          round?: number | null
+          sender?: string
+          synced_at?: string
+          update_id?: string | null
+          volume?: number
+        }
+        Relationships: []
+      }
       backfill_cursors: {
         Row: {
           complete: boolean
@@ -340,6 +562,8 @@ export type Database = {
           explorer_url: string | null
           github_link: string | null
           id: string
+          onchain_link_manual: boolean
+          onchain_proposal_id: string | null
           requires_onchain_vote: boolean
           status: string
           title: string
@@ -354,6 +578,8 @@ export type Database = {
           explorer_url?: string | null
           github_link?: string | null
           id?: string
+          onchain_link_manual?: boolean
+          onchain_proposal_id?: string | null
           requires_onchain_vote?: boolean
           status?: string
           title: string
@@ -368,6 +594,8 @@ export type Database = {
           explorer_url?: string | null
           github_link?: string | null
           id?: string
+          onchain_link_manual?: boolean
+          onchain_proposal_id?: string | null
           requires_onchain_vote?: boolean
           status?: string
           title?: string
@@ -375,7 +603,15 @@ export type Database = {
           vote_close_date?: string | null
           vote_start_date?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "cips_onchain_proposal_id_fkey"
+            columns: ["onchain_proposal_id"]
+            isOneToOne: false
+            referencedRelation: "governance_proposals"
+            referencedColumns: ["proposal_id"]
+          },
+        ]
       }
       committee_votes: {
         Row: {
@@ -465,12 +701,76 @@ export type Database = {
           },
         ]
       }
+      featured_app_markers: {
+        Row: {
+          beneficiary: string
+          contract_id: string
+          provider: string
+          recorded_at: string
+          synced_at: string
+          update_id: string | null
+          weight: number
+        }
+        Insert: {
+          beneficiary: string
+          contract_id: string
+          provider: string
+          recorded_at: string
+          synced_at?: string
+          update_id?: string | null
+          weight: number
+        }
+        Update: {
+          beneficiary?: string
+          contract_id?: string
+          provider?: string
+          recorded_at?: string
+          synced_at?: string
+          update_id?: string | null
+          weight?: number
+        }
+        Relationships: []
+      }
+      featured_app_rights: {
+        Row: {
+          contract_id: string
+          featured_at: string | null
+          featured_update_id: string | null
+          provider: string | null
+          revoke_choice: string | null
+          revoke_update_id: string | null
+          revoked_at: string | null
+          synced_at: string
+        }
+        Insert: {
+          contract_id: string
+          featured_at?: string | null
+          featured_update_id?: string | null
+          provider?: string | null
+          revoke_choice?: string | null
+          revoke_update_id?: string | null
+          revoked_at?: string | null
+          synced_at?: string
+        }
+        Update: {
+          contract_id?: string
+          featured_at?: string | null
+          featured_update_id?: string | null
+          provider?: string | null
+          revoke_choice?: string | null
+          revoke_update_id?: string | null
+          revoked_at?: string | null
+          synced_at?: string
+        }
+        Relationships: []
+      }
       featured_app_votes: {
         Row: {
           app_name: string
           created_at: string
           description: string | null
           id: string
+          provider: string | null
           status: string
           updated_at: string
           vote_count: number
@@ -480,6 +780,7 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: string
+          provider?: string | null
           status?: string
           updated_at?: string
           vote_count?: number
@@ -489,12 +790,138 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: string
+          provider?: string | null
           status?: string
           updated_at?: string
           vote_count?: number
         }
         Relationships: []
       }
+      governance_proposals: {
+        Row: {
+          abstaining_svs: Json
+          accept_count: number
+          action: Json | null
+          action_tag: string | null
+          close_update_id: string | null
+          closed_at: string | null
+          created_at: string
+          created_update_id: string | null
+          effective_at: string | null
+          executed_choices: Json
+          latest_contract_id: string
+          migration_id: number | null
+          outcome: Json | null
+          proposal_id: string
+          reason_body: string | null
+          reason_url: string | null
+          reject_count: number
+          requester: string | null
+          status: string
+          synced_at: string
+          version_count: number
+          vote_before: string | null
+        }
+        Insert: {
+          abstaining_svs?: Json
+          accept_count?: number
+          action?: Json | null
+          action_tag?: string | null
+          close_update_id?: string | null
+          closed_at?: string | null
+          created_at: string
+          created_update_id?: string | null
+          effective_at?: string | null
+          executed_choices?: Json
+          latest_contract_id: string
+          migration_id?: number | null
+          outcome?: Json | null
+          proposal_id: string
+          reason_body?: string | null
+          reason_url?: string | null
+          reject_count?: number
+          requester?: string | null
+          status?: string
+          synced_at?: string
+          version_count?: number
+          vote_before?: string | null
+        }
+        Update: {
+          abstaining_svs?: Json
+          accept_count?: number
+          action?: Json | null
+          action_tag?: string | null
+          close_update_id?: string | null
+          closed_at?: string | null
+          created_at?: string
+          created_update_id?: string | null
+          effective_at?: string | null
+          executed_choices?: Json
+          latest_contract_id?: string
+          migration_id?: number | null
+          outcome?: Json | null
+          proposal_id?: string
+          reason_body?: string | null
+          reason_url?: string | null
+          reject_count?: number
+          requester?: string | null
+          status?: string
+          synced_at?: string
+          version_count?: number
+          vote_before?: string | null
+        }
+        Relationships: []
+      }
+      governance_vote_events: {
+        Row: {
+          accept: boolean
+          cast_at: string
+          change: string
+          contract_id: string | null
+          id: string
+          proposal_id: string
+          reason_body: string | null
+          reason_url: string | null
+          sv_name: string
+          sv_party: string | null
+          update_id: string | null
+        }
+        Insert: {
+          accept: boolean
+          cast_at: string
+          change: string
+          contract_id?: string | null
+          id: string
+          proposal_id: string
+          reason_body?: string | null
+          reason_url?: string | null
+          sv_name: string
+          sv_party?: string | null
+          update_id?: string | null
+        }
+        Update: {
+          accept?: boolean
+          cast_at?: string
+          change?: string
+          contract_id?: string | null
+          id?: string
+          proposal_id?: string
+          reason_body?: string | null
+          reason_url?: string | null
+          sv_name?: string
+          sv_party?: string | null
+          update_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "governance_vote_events_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "governance_proposals"
+            referencedColumns: ["proposal_id"]
+          },
+        ]
+      }
       ledger_events: {
         Row: {
           contract_id: string | null
@@ -548,6 +975,30 @@ export type Database = {
           },
         ]
       }
+      ledger_sync_cursors: {
+        Row: {
+          last_created_at: string | null
+          last_event_id: string | null
+          name: string
+          processed_count: number
+          updated_at: string
+        }
+        Insert: {
+          last_created_at?: string | null
+          last_event_id?: string | null
+          name: string
+          processed_count?: number
+          updated_at?: string
+        }
+        Update: {
+          last_created_at?: string | null
+          last_event_id?: string | null
+          name?: string
+          processed_count?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       ledger_updates: {
         Row: {
           created_at: string
@@ -611,6 +1062,138 @@ export type Database = {
         }
         Relationships: []
       }
+      member_traffic_samples: {
+        Row: {
+          member_id: string
+          sampled_at: string
+          synchronizer_id: string
+          total_consumed: number
+          total_limit: number
+          total_purchased: number
+        }
+        Insert: {
+          member_id: string
+          sampled_at: string
+          synchronizer_id: string
+          total_consumed: number
+          total_limit: number
+          total_purchased: number
+        }
+        Update: {
+          member_id?: string
+          sampled_at?: string
+          synchronizer_id?: string
+          total_consumed?: number
+          total_limit?: number
+          total_purchased?: number
+        }
+        Relationships: []
+      }
+      party_labels: {
+        Row: {
+          created_at: string
+          kind: string
+          label: string
+          note: string | null
+          party: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          kind?: string
+          label: string
+          note?: string | null
+          party: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          kind?: string
+          label?: string
+          note?: string | null
+          party?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      rich_list_holders: {
+        Row: {
+          locked: number
+          nominal_total: number
+          owner: string
+          rank: number
+          snapshot_id: string
+          total: number
+          unlocked: number
+        }
+        Insert: {
+          locked: number
+          nominal_total: number
+          owner: string
+          rank: number
+          snapshot_id: string
+          total: number
+          unlocked: number
+        }
+        Update: {
+          locked?: number
+          nominal_total?: number
+          owner?: string
+          rank?: number
+          snapshot_id?: string
+          total?: number
+          unlocked?: number
+        }
+        Relationships: []
+      }
+      rich_list_snapshots: {
+        Row: {
+          as_of_round: number | null
+          computed_at: string
+          gini: number | null
+          holders: number
+          locked: number
+          migration_id: number
+          nakamoto_coefficient: number | null
+          nominal_total: number
+          record_time: string
+          snapshot_id: string
+          top100_share: number | null
+          top10_share: number | null
+          total: number
+        }
+        Insert: {
+          as_of_round?: number | null
+          computed_at?: string
+          gini?: number | null
+          holders: number
+          locked: number
+          migration_id: number
+          nakamoto_coefficient?: number | null
+          nominal_total: number
+          record_time: string
+          snapshot_id: string
+          top100_share?: number | null
+          top10_share?: number | null
+          total: number
+        }
+        Update: {
+          as_of_round?: number | null
+          computed_at?: string
+          gini?: number | null
+          holders?: number
+          locked?: number
+          migration_id?: number
+          nakamoto_coefficient?: number | null
+          nominal_total?: number
+          record_time?: string
+          snapshot_id?: string
+          top100_share?: number | null
+          top10_share?: number | null
+          total?: number
+        }
+        Relationships: []
+      }
       snapshot_logs: {
         Row: {
           created_at: string
@@ -646,6 +1229,156 @@ export type Database = {
           },
         ]
       }
+      subscription_contracts: {
+        Row: {
+          archive_choice: string | null
+          archive_update_id: string | null
+          archived_at: string | null
+          collected_amulet: number | null
+          contract_id: string
+          created_at: string | null
+          created_update_id: string | null
+          description: string | null
+          due_at: string | null
+          kind: string | null
+          payment_amount: number | null
+          payment_interval_us: number | null
+          payment_unit: string | null
+          provider: string | null
+          receiver: string | null
+          reference: string | null
+          sender: string | null
+          synced_at: string
+          transfer_fees: number | null
+        }
+        Insert: {
+          archive_choice?: string | null
+          archive_update_id?: string | null
+          archived_at?: string | null
+          collected_amulet?: number | null
+          contract_id: string
+          created_at?: string | null
+          created_update_id?: string | null
+          description?: string | null
+          due_at?: string | null
+          kind?: string | null
+          payment_amount?: number | null
+          payment_interval_us?: number | null
+          payment_unit?: string | null
+          provider?: string | null
+          receiver?: string | null
+          reference?: string | null
+          sender?: string | null
+          synced_at?: string
+          transfer_fees?: number | null
+        }
+        Update: {
+          archive_choice?: string | null
+          archive_update_id?: string | null
+          archived_at?: string | null
+          collected_amulet?: number | null
+          contract_id?: string
+          created_at?: string | null
+          created_update_id?: string | null
+          description?: string | null
+          due_at?: string | null
+          kind?: string | null
+          payment_amount?: number | null
+          payment_interval_us?: number | null
+          payment_unit?: string | null
+          provider?: string | null
+          receiver?: string | null
+          reference?: string | null
+          sender?: string | null
+          synced_at?: string
+          transfer_fees?: number | null
+        }
+        Relationships: []
+      }
+      sv_reward_coupons: {
+        Row: {
+          beneficiary: string | null
+          close_choice: string | null
+          close_update_id: string | null
+          closed_at: string | null
+          contract_id: string
+          created_at: string | null
+          created_update_id: string | null
+          dso: string | null
+          migration_id: number | null
+          round: number | null
+          status: string
+          sv: string | null
+          synced_at: string
+          weight: number | null
+        }
+        Insert: {
+          beneficiary?: string | null
+          close_choice?: string | null
+          close_update_id?: string | null
+          closed_at?: string | null
+          contract_id: string
+          created_at?: string | null
+          created_update_id?: string | null
+          dso?: string | null
+          migration_id?: number | null
+          round?: number | null
+          status?: string
+          sv?: string | null
+          synced_at?: string
+          weight?: number | null
+        }
+        Update: {
+          beneficiary?: string | null
+          close_choice?: string | null
+          close_update_id?: string | null
+          closed_at?: string | null
+          contract_id?: string
+          created_at?: string | null
+          created_update_id?: string | null
+          dso?: string | null
+          migration_id?: number | null
+          round?: number | null
+          status?: string
+          sv?: string | null
+          synced_at?: string
+          weight?: number | null
+        }
+        Relationships: []
+      }
+      sv_reward_round_issuance: {
+        Row: {
+          contract_id: string
+          issuance_per_featured_app_reward: number | null
+          issuance_per_sv_reward: number
+          issuance_per_unfeatured_app_reward: number | null
+          issuance_per_validator_faucet: number | null
+          issuance_per_validator_reward: number | null
+          opened_at: string
+          round: number
+        }
+        Insert: {
+          contract_id: string
+          issuance_per_featured_app_reward?: number | null
+          issuance_per_sv_reward: number
+          issuance_per_unfeatured_app_reward?: number | null
+          issuance_per_validator_faucet?: number | null
+          issuance_per_validator_reward?: number | null
+          opened_at: string
+          round: number
+        }
+        Update: {
+          contract_id?: string
+          issuance_per_featured_app_reward?: number | null
+          issuance_per_sv_reward?: number
+          issuance_per_unfeatured_app_reward?: number | null
+          issuance_per_validator_faucet?: number | null
+          issuance_per_validator_reward?: number | null
+          opened_at?: string
+          round?: number
+        }
+        Relationships: []
+      }
       sv_votes: {
         Row: {
           cip_id: string
@@ -653,6 +1386,7 @@ export type Database = {
           created_at: string
           email: string
           id: string
+          onchain_sv_name: string | null
           organization: string
           updated_at: string
           vote: string | null
@@ -664,6 +1398,7 @@ export type Database = {
           created_at?: string
           email: string
           id?: string
+          onchain_sv_name?: string | null
           organization: string
           updated_at?: string
           vote?: string | null
@@ -675,6 +1410,7 @@ export type Database = {
           created_at?: string
           email?: string
           id?: string
+          onchain_sv_name?: string | null
           organization?: string
           updated_at?: string
           vote?: string | null
@@ -690,6 +1426,45 @@ export type Database = {
           },
         ]
       }
+      transfer_flows: {
+        Row: {
+          amount: number
+          event_id: string
+          output_index: number
+          provider: string | null
+          receiver: string
+          recorded_at: string
+          round: number | null
+          sender: string
+          synced_at: string
+          update_id: string
+        }
+        Insert: {
+          amount: number
+          event_id: string
+          output_index: number
+          provider?: string | null
+          receiver: string
+          recorded_at: string
+          round?: number | null
+          sender: string
+          synced_at?: string
+          update_id: string
+        }
+        Update: {
+          amount?: number
+          event_id?: string
+          output_index?: number
+          provider?: string | null
+          receiver?: string
+          recorded_at?: string
+          round?: number | null
+          sender?: string
+          synced_at?: string
+          update_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -711,9 +1486,366 @@ export type Database = {
         }
         Relationships: []
       }
+      validator_activity: {
+        Row: {
+          activity: number | null
+          contract_id: string
+          kind: string
+          migration_id: number | null
+          recorded_at: string
+          round: number
+          synced_at: string
+          update_id: string | null
+          validator: string
+        }
+        Insert: {
+          activity?: number | null
+          contract_id: string
+          kind: string
+          migration_id?: number | null
+          recorded_at: string
+          round: number
+          synced_at?: string
+          update_id?: string | null
+          validator: string
+        }
+        Update: {
+          activity?: number | null
+          contract_id?: string
+          kind?: string
+          migration_id?: number | null
+          recorded_at?: string
+          round?: number
+          synced_at?: string
+          update_id?: string | null
+          validator?: string
+        }
+        Relationships: []
+      }
+      validator_activity_daily: {
+        Row: {
+          day: string
+          faucet_amount: number | null
+          liveness_rounds: number
+          max_round: number | null
+          min_round: number | null
+          reward_activity: number | null
+          reward_amount: number | null
+          reward_coupons: number
+          traffic_amulet_paid: number | null
+          traffic_bought: number
+          traffic_purchases: number
+          unpriced_count: number
+          validator: string
+        }
+        Insert: {
+          day: string
+          faucet_amount?: number | null
+          liveness_rounds?: number
+          max_round?: number | null
+          min_round?: number | null
+          reward_activity?: number | null
+          reward_amount?: number | null
+          reward_coupons?: number
+          traffic_amulet_paid?: number | null
+          traffic_bought?: number
+          traffic_purchases?: number
+          unpriced_count?: number
+          validator: string
+        }
+        Update: {
+          day?: string
+          faucet_amount?: number | null
+          liveness_rounds?: number
+          max_round?: number | null
+          min_round?: number | null
+          reward_activity?: number | null
+          reward_amount?: number | null
+          reward_coupons?: number
+          traffic_amulet_paid?: number | null
+          traffic_bought?: number
+          traffic_purchases?: number
+          unpriced_count?: number
+          validator?: string
+        }
+        Relationships: []
+      }
+      validator_traffic_purchases: {
+        Row: {
+          amulet_paid: number | null
+          event_id: string
+          member_id: string
+          recorded_at: string
+          round: number | null
+          synced_at: string
+          synchronizer_id: string | null
+          traffic_amount: number
+          update_id: string | null
+          validator: string
+        }
+        Insert: {
+          amulet_paid?: number | null
+          event_id: string
+          member_id: string
+          recorded_at: string
+          round?: number | null
+          synced_at?: string
+          synchronizer_id?: string | null
+          traffic_amount: number
+          update_id?: string | null
+          validator: string
+        }
+        Update: {
+          amulet_paid?: number | null
+          event_id?: string
+          member_id?: string
+          recorded_at?: string
+          round?: number | null
+          synced_at?: string
+          synchronizer_id?: string | null
+          traffic_amount?: number
+          update_id?: string | null
+          validator?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      ans_entry_history: {
+        Row: {
+          archive_choice: string | null
+          archive_update_id: string | null
+          archived_at: string | null
+          contract_id: string | null
+          created_at: string | null
+          created_update_id: string | null
+          description: string | null
+          expires_at: string | null
+          name: string | null
+          owner: string | null
+          payment_contract_id: string | null
+          payment_kind: string | null
+          url: string | null
+        }
+        Relationships: []
+      }
+      ans_names: {
+        Row: {
+          active: boolean | null
+          archive_choice: string | null
+          archived_at: string | null
+          contract_id: string | null
+          description: string | null
+          entries: number | null
+          entry_created_at: string | null
+          expires_at: string | null
+          first_registered_at: string | null
+          name: string | null
+          owner: string | null
+          url: string | null
+        }
+        Relationships: []
+      }
+      ans_party_names: {
+        Row: {
+          expires_at: string | null
+          name: string | null
+          owner: string | null
+        }
+        Relationships: []
+      }
+      app_rewards_by_round: {
+        Row: {
+          claimed: number | null
+          coupons: number | null
+          expired: number | null
+          featured_coupons: number | null
+          marker_weight: string | null
+          markers: number | null
+          provider: string | null
+          reward: string | null
+          round: number | null
+        }
+        Relationships: []
+      }
+      featured_apps: {
+        Row: {
+          active: boolean | null
+          app_name: string | null
+          coupons_issued: number | null
+          first_featured_at: string | null
+          last_active_day: string | null
+          last_featured_at: string | null
+          last_revoked_at: string | null
+          markers: number | null
+          provider: string | null
+          reward_claimed: string | null
+          reward_expired: string | null
+          reward_issued: string | null
+          rights: number | null
+          total_weight: number | null
+          transfer_volume: string | null
+          transfers: number | null
+          vote_id: string | null
+          vote_status: string | null
+          voted_at: string | null
+          yes_weight: number | null
+        }
+        Relationships: []
+      }
+      member_traffic_burn: {
+        Row: {
+          consumed_per_day: number | null
+          member_id: string | null
+          samples: number | null
+          synchronizer_id: string | null
+          window_end: string | null
+          window_start: string | null
+        }
+        Relationships: []
+      }
+      member_traffic_latest: {
+        Row: {
+          member_id: string | null
+          sampled_at: string | null
+          synchronizer_id: string | null
+          total_consumed: number | null
+          total_limit: number | null
+          total_purchased: number | null
+        }
+        Relationships: []
+      }
+      mining_rounds_daily: {
+        Row: {
+          day: string | null
+          max_round: number | null
+          min_round: number | null
+          rounds: number | null
+        }
+        Relationships: []
+      }
+      rich_list_holder_history: {
+        Row: {
+          locked: string | null
+          migration_id: number | null
+          owner: string | null
+          rank: number | null
+          record_time: string | null
+          snapshot_id: string | null
+          total: string | null
+          unlocked: string | null
+        }
+        Relationships: []
+      }
+      subscription_ledger: {
+        Row: {
+          collected_amulet: string | null
+          description: string | null
+          ended_at: string | null
+          last_paid_at: string | null
+          next_payment_due_at: string | null
+          payment_amount: string | null
+          payment_interval_us: number | null
+          payment_unit: string | null
+          payments_collected: number | null
+          payments_failed: number | null
+          provider: string | null
+          receiver: string | null
+          reference: string | null
+          requested_at: string | null
+          sender: string | null
+          started_at: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
+      sv_reward_daily: {
+        Row: {
+          archived_amount: string | null
+          archived_count: number | null
+          beneficiary: string | null
+          claimed_amount: string | null
+          claimed_count: number | null
+          day: string | null
+          expired_amount: string | null
+          expired_count: number | null
+          issued_amount: string | null
+          issued_count: number | null
+          sv: string | null
+          unpriced_count: number | null
+          weight_max: number | null
+          weight_min: number | null
+        }
+        Relationships: []
+      }
+      sv_reward_ledger: {
+        Row: {
+          amount: string | null
+          beneficiary: string | null
+          close_choice: string | null
+          close_update_id: string | null
+          closed_at: string | null
+          contract_id: string | null
+          created_at: string | null
+          created_update_id: string | null
+          issuance_per_sv_reward: string | null
+          round: number | null
+          status: string | null
+          sv: string | null
+          weight: number | null
+        }
+        Relationships: []
+      }
+      traffic_members: {
+        Row: {
+          amulet_paid: string | null
+          first_purchase_at: string | null
+          last_purchase_at: string | null
+          member_id: string | null
+          priced_traffic: number | null
+          purchases: number | null
+          synchronizer_id: string | null
+          traffic_bought: number | null
+          traffic_bought_30d: number | null
+          validator: string | null
+        }
+        Relationships: []
+      }
+      validator_missed_rounds: {
+        Row: {
+          from_round: number | null
+          last_seen_at: string | null
+          missed: number | null
+          resumed_at: string | null
+          to_round: number | null
+          validator: string | null
+        }
+        Relationships: []
+      }
+      validator_scoreboard: {
+        Row: {
+          first_day: string | null
+          first_round: number | null
+          last_live_day: string | null
+          last_round: number | null
+          liveness_7d: number | null
+          liveness_prev_7d: number | null
+          liveness_rounds: number | null
+          missed_rounds: number | null
+          reward_coupons: number | null
+          rewards_7d: string | null
+          rewards_prev_7d: string | null
+          rewards_total: string | null
+          rounds_7d: number | null
+          rounds_prev_7d: number | null
+          traffic_amulet_paid: string | null
+          traffic_bought: number | null
+          traffic_purchases: number | null
+          unpriced_count: number | null
+          validator: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       has_role: {
@@ -723,6 +1855,53 @@ export type Database = {
         }
         Returns: boolean
       }
+      refresh_app_activity_daily: {
+        Args: {
+          _days: string[]
+          _providers: string[]
+          _rounds?: number[]
+        }
+        Returns: number
+      }
+      refresh_validator_activity_daily: {
+        Args: {
+          _days: string[]
+          _rounds?: number[]
+          _validators: string[]
+        }
+        Returns: number
+      }
+      transfer_counterparties: {
+        Args: {
+          _from: string
+          _limit?: number
+          _party: string
+          _to: string
+        }
+        Returns: {
+          party: string
+          received: string
+          sent: string
+          transfers: number
+        }[]
+      }
+      transfer_flow_edges: {
+        Args: {
+          _from: string
+          _limit?: number
+          _min_amount?: string
+          _parties?: string[]
+          _to: string
+        }
+        Returns: {
+          amount: string
+          first_at: string
+          last_at: string
+          receiver: string
+          sender: string
+          transfers: number
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Chunk manifests
+// ------------------------------------------------------------------
+// Large templates are stored as a manifest plus chunk files in the acs-data
+// bucket. Manifests list either {index, path, entryCount} chunks (older ones
+// {index, path, count} or bare chunk_paths) from the upload scripts, or
+// {chunkIndex, storagePath, contractCount} chunks from upload-acs-data and
+// fetch-acs-snapshot. Chunk paths are full bucket paths
+// and may point into an earlier snapshot's folder, since incremental
+// snapshots share unchanged chunks; a bare file name is relative to the
+// manifest's folder.
+
+export interface ManifestChunkRef {
+  index: number;
+  path: string;
+  entryCount: number;
+}
+
+export interface ChunkManifestInfo {
+  chunks: ManifestChunkRef[];
+  totalEntries: number | undefined;
+  /** The chunk counts add up to totalEntries, so nothing is missing */
+  complete: boolean;
+}
+
+/** The chunks of a parsed manifest file, or null when it is not a manifest */
+export function readChunkManifest(parsed: unknown, manifestPath: string): ChunkManifestInfo | null {
+  const manifest = parsed as {
+    chunks?: unknown;
+    chunk_paths?: unknown;
+    totalEntries?: number;
+    total_entries?: number;
+    entry_count?: number;
+  } | null;
+  if (!manifest || typeof manifest !== "object") return null;
+
+  type RawChunk = { index?: number; chunkIndex?: number; path?: string; storagePath?: string; entryCount?: number; contractCount?: number; count?: number };
+  let raw: RawChunk[];
+  if (Array.isArray(manifest.chunks)) raw = manifest.chunks;
+  else if (Array.isArray(manifest.chunk_paths)) raw = manifest.chunk_paths.map((path: string, index: number) => ({ index, path }));
+  else return null;
+
+  const manifestDir = manifestPath.substring(0, manifestPath.lastIndexOf("/") + 1);
+  const byPath = new Map<string, ManifestChunkRef>();
+  raw.forEach((c, i) => {
+    const path = c.path ?? c.storagePath ?? "";
+    if (!path) return;
+    const resolved = path.includes("/") ? path : manifestDir + path;
+    // Repeated entries in a manifest would count their chunk twice
+    if (!byPath.has(resolved)) {
+      byPath.set(resolved, { index: c.index ?? c.chunkIndex ?? i, path: resolved, entryCount: c.entryCount ?? c.contractCount ?? c.count ?? 0 });
+    }
+  });
+
+  const chunks = Array.from(byPath.values());
+  const totalEntries = manifest.totalEntries ?? manifest.total_entries ?? manifest.entry_count ?? undefined;
+  const complete = totalEntries !== undefined && chunks.reduce((sum, c) => sum + c.entryCount, 0) === totalEntries;
+  return { chunks, totalEntries, complete };
+}
+
+/**
+ * Every chunk path to read for a manifest. Only a manifest whose counts do
+ * not add up is topped up with same-prefix chunk files found next to its
+ * first chunk; a complete one is taken as is.
+ */
+export async function manifestChunkPaths(info: ChunkManifestInfo): Promise<string[]> {
+  const paths = info.chunks.map((c) => c.path);
+  const sample = paths[0];
+  if (info.complete || !sample?.includes("_chunk_")) return paths;
+
+  try {
+    const dir = sample.substring(0, sample.lastIndexOf("/"));
+    const file = sample.substring(sample.lastIndexOf("/") + 1);
+    const prefix = file.split("_chunk_")[0] + "_chunk_";
+    const { data: listed, error } = await supabase.storage.from("acs-data").list(dir, { limit: 1000, search: prefix });
+    if (error || !Array.isArray(listed)) return paths;
+    const known = new Set(paths);
+    for (const item of listed) {
+      const path = `${dir}/${item.name}`;
+      if (item.name.startsWith(prefix) && item.name.endsWith(".json") && !known.has(path)) paths.push(path);
+    }
+  } catch {
+    // Discovery is best effort; read the manifest's own chunks
+  }
+  return paths;
+}
@@ -1,9 +1,11 @@
+import { DamlDecimal } from "@/lib/daml-decimal";
+
 /**
- * Safely extracts numeric amount from various possible paths in contract data
- * Returns 0 if no valid amount found
+ * Safely extracts the exact amount from various possible paths in contract data
+ * Returns zero if no valid amount found
  */
-export function pickAmount(obj: any): number {
-  if (!obj) return 0;
+export function pickAmountDecimal(obj: any): DamlDecimal {
+  if (!obj) return DamlDecimal.ZERO;
 
   // Try various paths where amount might be stored
   const paths = [
@@ -16,31 +18,47 @@ export function pickAmount(obj: any): number {
   ];
 
   for (const value of paths) {
-    if (value !== undefined && value !== null) {
-      const parsed = typeof value === 'string' ? parseFloat(value) : Number(value);
-      if (!isNaN(parsed)) {
-        return parsed;
-      }
-    }
+    const parsed = DamlDecimal.tryFrom(value);
+    if (parsed) return parsed;
   }
 
-  return 0;
+  return DamlDecimal.ZERO;
 }
 
 /**
  * Specialized picker for locked amulet amounts
  * Prioritizes contract.amulet.amount.initialAmount
  */
-export function pickLockedAmount(obj: any): number {
-  if (!obj) return 0;
+export function pickLockedAmountDecimal(obj: any): DamlDecimal {
+  if (!obj) return DamlDecimal.ZERO;
 
   // First try the locked-specific path
-  if (obj.amulet?.amount?.initialAmount) {
-    const parsed = parseFloat(obj.amulet.amount.initialAmount);
-    if (!isNaN(parsed)) return parsed;
-  }
+  const locked = DamlDecimal.tryFrom(obj.amulet?.amount?.initialAmount);
+  if (locked) return locked;
 
   // Fallback to generic picker
-  return pickAmount(obj);
+  return pickAmountDecimal(obj);
 }
 
+/**
+ * Sums the amounts of a list of contracts without any float rounding
+ */
+export function sumAmounts<T>(items: T[], pickFn: (obj: T) => DamlDecimal = pickAmountDecimal): DamlDecimal {
+  let total = DamlDecimal.ZERO;
+  for (const item of items) total = total.add(pickFn(item));
+  return total;
+}
+
+/**
+ * Numeric variant of pickAmountDecimal, for display only
+ */
+export function pickAmount(obj: unknown): number {
+  return pickAmountDecimal(obj).toNumber();
+}
+
+/**
+ * Numeric variant of pickLockedAmountDecimal, for display only
+ */
+export function pickLockedAmount(obj: unknown): number {
+  return pickLockedAmountDecimal(obj).toNumber();
+}
@@ -0,0 +1,176 @@
+// AmuletRules configuration timeline
+// ------------------------------------------------------------------
+// AmuletRules holds a config schedule: the current AmuletConfig plus future
+// configs that take effect at given times. Every governance change to it
+// (AmuletRules_SetConfig, adding or removing a scheduled config, ...)
+// archives the contract and creates a new version. Each version's schedule
+// is in force until the next version is created, and inside that span its
+// scheduled configs switch in at their times.
+//
+// New mining rounds copy the config in force when they are opened, so a
+// transfer in round N paid the fees of the config in force when N opened.
+
+import { DamlDecimal } from "@/lib/daml-decimal";
+
+export type AmuletConfig = Record<string, unknown>;
+
+export interface ConfigSchedule {
+  initialValue: AmuletConfig;
+  futureValues: Array<{ time: string; config: AmuletConfig }>;
+}
+
+export interface AmuletRulesVersion {
+  contractId: string;
+  updateId: string;
+  recordTime: string;
+  schedule: ConfigSchedule;
+}
+
+export interface ConfigDiffEntry {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ConfigChange {
+  effectiveAt: string;
+  config: AmuletConfig;
+  /**
+   * The AmuletRules version this config comes from; for a scheduled change,
+   * the first version whose schedule held it
+   */
+  contractId: string;
+  updateId: string;
+  /** A future value of the schedule switching in, rather than a new version */
+  scheduled: boolean;
+  /** Against the previous change; empty for the first one */
+  diff: ConfigDiffEntry[];
+}
+
+export type ConfigSection =
+  | "Transfer fees"
+  | "Holding fee"
+  | "Issuance curve"
+  | "Traffic"
+  | "Tick duration"
+  | "Other";
+
+/** Parses `{initialValue, futureValues}`; tuples come as `[t, v]` or `{_1, _2}` */
+export function parseConfigSchedule(value: unknown): ConfigSchedule | null {
+  const schedule = value as { initialValue?: unknown; futureValues?: unknown } | null;
+  if (!schedule || typeof schedule.initialValue !== "object" || schedule.initialValue === null) return null;
+  const futureValues = (Array.isArray(schedule.futureValues) ? schedule.futureValues : [])
+    .map((item) => {
+      const [time, config] = Array.isArray(item) ? item : [item?._1, item?._2];
+      return typeof time === "string" && config && typeof config === "object"
+        ? { time, config: config as AmuletConfig }
+        : null;
+    })
+    .filter((v): v is { time: string; config: AmuletConfig } => v !== null)
+    .sort((a, b) => a.time.localeCompare(b.time));
+  return { initialValue: schedule.initialValue as AmuletConfig, futureValues };
+}
+
+/** The config of a schedule in force at `time` */
+export function configAsOf(schedule: ConfigSchedule, time: string): AmuletConfig {
+  let config = schedule.initialValue;
+  for (const f of schedule.futureValues) {
+    if (f.time <= time) config = f.config;
+  }
+  return config;
+}
+
+function isDecimalString(value: unknown): value is string {
+  return typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value);
+}
+
+// Scans format Numeric values differently ("1.5" vs "1.5000000000")
+function sameScalar(a: unknown, b: unknown): boolean {
+  if (isDecimalString(a) && isDecimalString(b)) return DamlDecimal.from(a).eq(b);
+  return a === b;
+}
+
+/** Leaf-level differences between two JSON values, with dotted paths */
+export function diffConfigs(before: unknown, after: unknown, path = ""): ConfigDiffEntry[] {
+  const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const out: ConfigDiffEntry[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      out.push(...diffConfigs(before[i], after[i], `${path}[${i}]`));
+    }
+    return out;
+  }
+  if (isObject(before) && isObject(after) && !Array.isArray(before) && !Array.isArray(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return keys.flatMap((k) => diffConfigs(before[k], after[k], path ? `${path}.${k}` : k));
+  }
+  if (isObject(before) || isObject(after)) {
+    return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, before, after }];
+  }
+  return sameScalar(before, after) ? [] : [{ path, before, after }];
+}
+
+export function sectionOf(path: string): ConfigSection {
+  if (path.startsWith("transferConfig.holdingFee")) return "Holding fee";
+  if (path.startsWith("transferConfig")) return "Transfer fees";
+  if (path.startsWith("issuanceCurve")) return "Issuance curve";
+  if (path.startsWith("decentralizedSynchronizer.fees") || path.includes("Traffic")) return "Traffic";
+  if (path.startsWith("tickDuration")) return "Tick duration";
+  return "Other";
+}
+
+export function sectionsOf(diff: ConfigDiffEntry[]): ConfigSection[] {
+  return Array.from(new Set(diff.map((d) => sectionOf(d.path))));
+}
+
+/**
+ * Every point at which the config in force changed, oldest first. Versions
+ * that only restate the config in force (e.g. a schedule entry removed
+ * before it applied) do not produce a change.
+ */
+export function buildConfigTimeline(versions: AmuletRulesVersion[]): ConfigChange[] {
+  const sorted = [...versions].sort((a, b) => a.recordTime.localeCompare(b.recordTime));
+  const changes: ConfigChange[] = [];
+
+  const push = (effectiveAt: string, config: AmuletConfig, version: AmuletRulesVersion, scheduled: boolean) => {
+    const prev = changes[changes.length - 1];
+    const diff = prev ? diffConfigs(prev.config, config) : [];
+    if (prev && diff.length === 0) return;
+    changes.push({ effectiveAt, config, contractId: version.contractId, updateId: version.updateId, scheduled, diff });
+  };
+
+  // Schedule entries are carried into every later version until they apply
+  const scheduledBy = new Map<string, Array<{ config: AmuletConfig; version: AmuletRulesVersion }>>();
+  const originOf = (time: string, config: AmuletConfig, version: AmuletRulesVersion) => {
+    const entries = scheduledBy.get(time) ?? [];
+    const known = entries.find((e) => diffConfigs(e.config, config).length === 0);
+    if (known) return known.version;
+    scheduledBy.set(time, [...entries, { config, version }]);
+    return version;
+  };
+
+  sorted.forEach((version, i) => {
+    const until = sorted[i + 1]?.recordTime;
+    push(version.recordTime, configAsOf(version.schedule, version.recordTime), version, false);
+    for (const f of version.schedule.futureValues) {
+      const origin = originOf(f.time, f.config, version);
+      if (f.time > version.recordTime && (!until || f.time < until)) push(f.time, f.config, origin, true);
+    }
+  });
+  return changes;
+}
+
+/** The change in force for a round, given the first round opened under each change */
+export function changeForRound<T extends { fromRound: number | null }>(changes: T[], round: number): T | null {
+  let found: T | null = null;
+  for (const c of changes) {
+    if (c.fromRound !== null && c.fromRound <= round) found = c;
+  }
+  return found;
+}
+
+export const formatConfigValue = (value: unknown): string => {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+};
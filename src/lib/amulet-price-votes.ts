@@ -0,0 +1,124 @@
+// Amulet price votes
+// ------------------------------------------------------------------
+// Every SV keeps one AmuletPriceVote contract. When a new mining round is
+// opened, the DSO sets its amuletPrice to the median of the prices currently
+// voted by the SVs (votes without a price are left out; for an even count
+// the two middle prices are averaged). This module reconstructs that median
+// from the votes, measures their spread and staleness, and replays the vote
+// history to get each SV's price and the median over time.
+
+import { DamlDecimal } from "@/lib/daml-decimal";
+
+export interface PriceVote {
+  sv: string;
+  svName: string;
+  price: DamlDecimal | null;
+  lastUpdatedAt: string;
+}
+
+export interface PriceVoteRow extends PriceVote {
+  ageMs: number;
+  stale: boolean;
+  /** Relative deviation from the median, e.g. 0.02 for 2% above */
+  deviation: number | null;
+}
+
+export interface PriceVoteSummary {
+  rows: PriceVoteRow[];
+  median: DamlDecimal | null;
+  min: DamlDecimal | null;
+  max: DamlDecimal | null;
+  /** max - min */
+  spread: DamlDecimal | null;
+  /** spread / median */
+  spreadRatio: number | null;
+  pricedCount: number;
+  staleCount: number;
+  /** SVs in DsoRules without a vote contract */
+  missingSvs: string[];
+}
+
+/** The median the DSO computes, or null without any priced vote */
+export function medianPrice(prices: DamlDecimal[]): DamlDecimal | null {
+  if (prices.length === 0) return null;
+  const sorted = [...prices].sort((a, b) => a.cmp(b));
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : sorted[mid - 1].add(sorted[mid]).div(2);
+}
+
+export function summarizePriceVotes(
+  votes: PriceVote[],
+  svNames: Map<string, string>,
+  now: number,
+  staleAfterMs: number,
+): PriceVoteSummary {
+  const priced = votes.map((v) => v.price).filter((p): p is DamlDecimal => p !== null);
+  const median = medianPrice(priced);
+  const min = priced.length > 0 ? priced.reduce((a, b) => DamlDecimal.min(a, b)) : null;
+  const max = priced.length > 0 ? priced.reduce((a, b) => DamlDecimal.max(a, b)) : null;
+  const spread = min && max ? max.sub(min) : null;
+
+  const rows = votes
+    .map((v) => {
+      const ageMs = Math.max(0, now - Date.parse(v.lastUpdatedAt));
+      const deviation = v.price && median && !median.isZero() ? v.price.sub(median).div(median).toNumber() : null;
+      return { ...v, ageMs, stale: ageMs > staleAfterMs, deviation };
+    })
+    .sort((a, b) => a.svName.localeCompare(b.svName));
+
+  const voters = new Set(votes.map((v) => v.sv));
+  return {
+    rows,
+    median,
+    min,
+    max,
+    spread,
+    spreadRatio: spread && median && !median.isZero() ? spread.div(median).toNumber() : null,
+    pricedCount: priced.length,
+    staleCount: rows.filter((r) => r.stale).length,
+    missingSvs: Array.from(svNames.entries())
+      .filter(([party]) => !voters.has(party))
+      .map(([, name]) => name)
+      .sort(),
+  };
+}
+
+// ------------------------------------
+// History
+// ------------------------------------
+export interface PriceVoteEvent {
+  sv: string;
+  price: DamlDecimal | null;
+  /** Record time of the update that created the vote contract */
+  at: string;
+}
+
+export interface PriceHistoryPoint {
+  time: number;
+  median: number | null;
+  /** Price per SV name at this point, after the change */
+  prices: Record<string, number | null>;
+}
+
+/**
+ * Replays vote changes in order. Each point is the state right after one
+ * change: every SV's standing price and the median over them. Votes of SVs
+ * that are no longer in DsoRules are replayed too, since they counted then.
+ */
+export function replayPriceHistory(events: PriceVoteEvent[], svNames: Map<string, string>): PriceHistoryPoint[] {
+  const current = new Map<string, DamlDecimal | null>();
+  const points: PriceHistoryPoint[] = [];
+  const nameOf = (sv: string) => svNames.get(sv) ?? sv.split("::")[0];
+
+  for (const e of [...events].sort((a, b) => a.at.localeCompare(b.at))) {
+    current.set(e.sv, e.price);
+    const prices: Record<string, number | null> = {};
+    for (const [sv, price] of current) prices[nameOf(sv)] = price ? price.toNumber() : null;
+    const median = medianPrice(Array.from(current.values()).filter((p): p is DamlDecimal => p !== null));
+    const point = { time: Date.parse(e.at), median: median ? median.toNumber() : null, prices };
+    // Several votes in the same update collapse into one point
+    if (points.length > 0 && points[points.length - 1].time === point.time) points[points.length - 1] = point;
+    else points.push(point);
+  }
+  return points;
+}
@@ -1,5 +1,10 @@
 // SCANTON API Client — COMPLETE FILE
 // ------------------------------------------------------------------
+import { decodeContract, voteRequestActionName } from "@/lib/splice-decoders";
+import { scanRequest, type ScanRequestOptions } from "@/lib/scan-transport";
+import { ScanCluster, type QuorumResult } from "@/lib/scan-cluster";
+import { DamlDecimal } from "@/lib/daml-decimal";
+
 // Base URL: prefer env override, otherwise use hosted default
 const DEFAULT_API_BASE = "https://scan.sv-1.global.canton.network.sync.global/api/scan";
 const API_BASE = import.meta.env.VITE_SCAN_API_URL || DEFAULT_API_BASE;
@@ -463,25 +468,47 @@ export interface WalletBalanceResponse {
   wallet_balance: string;
 }
 
+/** USD fees of the config in force for a round */
 export interface AmuletConfigForRoundResponse {
-  amulet_config: any;
+  amulet_create_fee: string;
+  holding_fee: string;
+  lock_holder_fee: string;
+  transfer_fee: {
+    initial: string;
+    steps: Array<{ amount: string; rate: string }>;
+  };
 }
 
 /* =========================
  *       API CLIENT
  * ========================= */
 
+// Requests go to API_BASE and fail over to other SVs' scans when it errors
+export const scanCluster = new ScanCluster(API_BASE);
+
+type ScanCallOptions = ScanRequestOptions & {
+  /** Pin the call to one scan (no failover), e.g. for quorum reads */
+  baseUrl?: string;
+};
+
+const send = <T>(path: string, { baseUrl, ...options }: ScanCallOptions): Promise<T> =>
+  baseUrl ? scanRequest<T>(baseUrl, path, options) : scanCluster.request<T>(path, options);
+
+const scanGet = <T>(path: string, errorMessage: string, options: ScanCallOptions = {}): Promise<T> =>
+  send<T>(path, { ...options, method: "GET", errorMessage });
+
+const scanPost = <T>(path: string, body: unknown, errorMessage: string, options: ScanCallOptions = {}): Promise<T> =>
+  send<T>(path, { ...options, method: "POST", body, errorMessage });
+
+// Scans format Numeric values differently ("1.5" vs "1.5000000000")
+const sameAmountKey = (value: string | null) =>
+  value === null ? "missing" : (DamlDecimal.tryFrom(value)?.toString() ?? value);
+
 export const scanApi = {
   /* ---------- v2 /updates ---------- */
 
   async fetchUpdates(request: UpdateHistoryRequest): Promise<UpdateHistoryResponse> {
-    const res = await fetch(`${API_BASE}/v2/updates`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(request),
-    });
-    if (!res.ok) throw new Error("Failed to fetch updates");
-    return res.json();
+    return scanPost("/v2/updates", request, "Failed to fetch updates");
   },
 
   /**
@@ -494,13 +521,7 @@ export const scanApi = {
     closed_rounds: { contract_id: string; round_number?: number; closed_at?: string; payload?: any }[];
   }> {
     try {
-      const res = await fetch(`${API_BASE}/v2/updates`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ page_size: 1000 }),
-      });
-      if (!res.ok) throw new Error(`v2/updates error ${res.status}`);
-      const data: UpdateHistoryResponse = await res.json();
+      const data = await scanPost<UpdateHistoryResponse>("/v2/updates", { page_size: 1000 }, "Failed to fetch updates");
 
       // Track rounds by their round number to determine current state
       const roundStates = new Map<number, {
@@ -746,38 +767,24 @@ export const scanApi = {
   /* ---------- v0 transactions & helpers ---------- */
 
   async fetchTransactions(request: TransactionHistoryRequest): Promise<TransactionHistoryResponse> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 30000);
-    try {
-      const res = await fetch(`${API_BASE}/v0/transactions`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(request),
-        signal: controller.signal,
-      });
-      if (!res.ok) throw new Error("Failed to fetch transactions");
-      return res.json();
-    } finally {
-      clearTimeout(timeout);
-    }
+    return scanPost("/v0/transactions", request, "Failed to fetch transactions", { timeoutMs: 30000 });
   },
 
   async fetchTransactionsByParty(party: string, limit: number = 20): Promise<TransactionHistoryResponse> {
     const params = new URLSearchParams();
     params.append("party", party);
     params.append("limit", limit.toString());
-    const res = await fetch(`${API_BASE}/v0/transactions/by-party?${params.toString()}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch transactions by party");
-    return res.json();
+    return scanGet(`/v0/transactions/by-party?${params.toString()}`, "Failed to fetch transactions by party");
   },
 
   /* ---------- Leaderboards & stats ---------- */
 
   // Top validators via faucets; transformed to expected validatorsAndRewards
   async fetchTopValidators(): Promise<GetTopValidatorsByValidatorRewardsResponse> {
-    const res = await fetch(`${API_BASE}/v0/top-validators-by-validator-faucets?limit=1000`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch top validators");
-    const data: TopValidatorsByFaucetsResponse = await res.json();
+    const data = await scanGet<TopValidatorsByFaucetsResponse>(
+      "/v0/top-validators-by-validator-faucets?limit=1000",
+      "Failed to fetch top validators",
+    );
     return {
       validatorsAndRewards: (data.validatorsByReceivedFaucets || []).map((v) => ({
         provider: v.validator,
@@ -795,283 +802,216 @@ export const scanApi = {
       round: String(latest.round),
       limit: String(limit),
     });
-    const res = await fetch(`${API_BASE}/v0/top-providers-by-app-rewards?${params.toString()}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch top providers by app rewards");
-    return res.json();
+    return scanGet(`/v0/top-providers-by-app-rewards?${params.toString()}`, "Failed to fetch top providers by app rewards");
   },
 
-  async fetchRoundTotals(request: ListRoundTotalsRequest): Promise<ListRoundTotalsResponse> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10000);
-    try {
-      const res = await fetch(`${API_BASE}/v0/round-totals`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(request),
-        signal: controller.signal,
-      });
-      if (!res.ok) throw new Error("Failed to fetch round totals");
-      return res.json();
-    } finally {
-      clearTimeout(timeout);
-    }
+  async fetchRoundTotals(request: ListRoundTotalsRequest, baseUrl?: string): Promise<ListRoundTotalsResponse> {
+    return scanPost("/v0/round-totals", request, "Failed to fetch round totals", { timeoutMs: 10000, baseUrl });
   },
 
   async fetchOpenAndIssuingRounds(
     request: GetOpenAndIssuingMiningRoundsRequest = {},
   ): Promise<GetOpenAndIssuingMiningRoundsResponse> {
-    const res = await fetch(`${API_BASE}/v0/open-and-issuing-mining-rounds`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(request),
-    });
-    if (!res.ok) throw new Error("Failed to fetch mining rounds");
-    return res.json();
+    return scanPost("/v0/open-and-issuing-mining-rounds", request, "Failed to fetch mining rounds");
   },
 
   async fetchClosedRounds(): Promise<GetClosedRoundsResponse> {
-    const res = await fetch(`${API_BASE}/v0/closed-rounds`);
-    if (!res.ok) throw new Error("Failed to fetch closed rounds");
-    return res.json();
+    return scanGet("/v0/closed-rounds", "Failed to fetch closed rounds");
   },
 
-  async fetchLatestRound(): Promise<GetRoundOfLatestDataResponse> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 8000);
-    try {
-      const res = await fetch(`${API_BASE}/v0/round-of-latest-data`, {
-        signal: controller.signal,
-      });
-      if (!res.ok) throw new Error("Failed to fetch latest round");
-      return res.json();
-    } finally {
-      clearTimeout(timeout);
-    }
+  async fetchLatestRound(baseUrl?: string): Promise<GetRoundOfLatestDataResponse> {
+    return scanGet("/v0/round-of-latest-data", "Failed to fetch latest round", { timeoutMs: 8000, baseUrl });
   },
 
-  async fetchTotalBalance(): Promise<GetTotalAmuletBalanceResponse> {
-    const latest = await this.fetchLatestRound();
-    const totals = await this.fetchRoundTotals({
-      start_round: latest.round,
-      end_round: latest.round,
-    });
+  async fetchTotalBalance(baseUrl?: string): Promise<GetTotalAmuletBalanceResponse> {
+    const latest = await this.fetchLatestRound(baseUrl);
+    const totals = await this.fetchRoundTotals(
+      {
+        start_round: latest.round,
+        end_round: latest.round,
+      },
+      baseUrl,
+    );
     if (totals.entries.length === 0) throw new Error("No round totals for latest round");
     return { total_balance: totals.entries[0].total_amulet_balance };
   },
 
+  /* ---------- Cross-SV quorum reads ---------- */
+
+  // Asks several SVs for the totals of one closed round. A scan that has not
+  // ingested the round yet answers `null` and shows up as disagreeing.
+  async fetchRoundTotalsQuorum(round: number, size: number = 3): Promise<QuorumResult<RoundTotals | null>> {
+    return scanCluster.quorum(
+      (base) =>
+        this.fetchRoundTotals({ start_round: round, end_round: round }, base).then((r) => r.entries[0] ?? null),
+      {
+        size,
+        key: (t) =>
+          t
+            ? [
+                sameAmountKey(t.total_amulet_balance),
+                sameAmountKey(t.cumulative_app_rewards),
+                sameAmountKey(t.cumulative_validator_rewards),
+              ].join("|")
+            : "missing",
+      },
+    );
+  },
+
+  // Total balance as of the primary's latest round, cross-checked on other SVs
+  async fetchTotalBalanceQuorum(size: number = 3): Promise<{ round: number } & QuorumResult<string | null>> {
+    const latest = await this.fetchLatestRound();
+    const result = await scanCluster.quorum(
+      (base) =>
+        this.fetchRoundTotals({ start_round: latest.round, end_round: latest.round }, base).then(
+          (r) => r.entries[0]?.total_amulet_balance ?? null,
+        ),
+      { size, key: sameAmountKey },
+    );
+    return { round: latest.round, ...result };
+  },
+
   /* ---------- Validator health / liveness ---------- */
 
   async fetchValidatorLiveness(validator_ids: string[]): Promise<ValidatorLivenessResponse> {
     const params = new URLSearchParams();
     for (const id of validator_ids) params.append("validator_ids", id);
-    const res = await fetch(`${API_BASE}/v0/validators/validator-faucets?${params.toString()}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch validator liveness");
-    return res.json();
+    return scanGet(`/v0/validators/validator-faucets?${params.toString()}`, "Failed to fetch validator liveness");
   },
 
   /* ---------- DSO, scans, admin, misc ---------- */
 
   async fetchDsoInfo(): Promise<DsoInfoResponse> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10000);
-    try {
-      const res = await fetch(`${API_BASE}/v0/dso`, {
-        mode: "cors",
-        signal: controller.signal,
-      });
-      if (!res.ok) throw new Error("Failed to fetch DSO info");
-      return res.json();
-    } finally {
-      clearTimeout(timeout);
-    }
+    return scanGet("/v0/dso", "Failed to fetch DSO info", { timeoutMs: 10000 });
   },
 
   async fetchScans(): Promise<ScansResponse> {
-    const res = await fetch(`${API_BASE}/v0/scans`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch scans");
-    return res.json();
+    return scanGet("/v0/scans", "Failed to fetch scans");
   },
 
   async fetchValidatorLicenses(after?: number, limit: number = 1000): Promise<ValidatorLicensesResponse> {
     const params = new URLSearchParams();
     if (after !== undefined) params.append("after", String(after));
     params.append("limit", String(limit));
-    const res = await fetch(`${API_BASE}/v0/admin/validator/licenses?${params.toString()}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch validator licenses");
-    return res.json();
+    return scanGet(`/v0/admin/validator/licenses?${params.toString()}`, "Failed to fetch validator licenses");
   },
 
   async fetchDsoSequencers(): Promise<DsoSequencersResponse> {
-    const res = await fetch(`${API_BASE}/v0/dso-sequencers`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch DSO sequencers");
-    return res.json();
+    return scanGet("/v0/dso-sequencers", "Failed to fetch DSO sequencers");
   },
 
   async fetchParticipantId(domainId: string, partyId: string): Promise<ParticipantIdResponse> {
-    const res = await fetch(`${API_BASE}/v0/domains/${domainId}/parties/${partyId}/participant-id`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch participant ID");
-    return res.json();
+    return scanGet(`/v0/domains/${domainId}/parties/${partyId}/participant-id`, "Failed to fetch participant ID", {
+      endpoint: "/v0/domains/:domain_id/parties/:party_id/participant-id",
+    });
   },
 
   async fetchTrafficStatus(domainId: string, memberId: string): Promise<TrafficStatusResponse> {
-    const res = await fetch(`${API_BASE}/v0/domains/${domainId}/members/${memberId}/traffic-status`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch traffic status");
-    return res.json();
+    return scanGet(`/v0/domains/${domainId}/members/${memberId}/traffic-status`, "Failed to fetch traffic status", {
+      endpoint: "/v0/domains/:domain_id/members/:member_id/traffic-status",
+    });
   },
 
   async fetchAcsSnapshotTimestamp(before: string, migrationId: number): Promise<AcsSnapshotTimestampResponse> {
     const params = new URLSearchParams();
     params.append("before", before);
     params.append("migration_id", String(migrationId));
-    const res = await fetch(`${API_BASE}/v0/state/acs/snapshot-timestamp?${params.toString()}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch ACS snapshot timestamp");
-    return res.json();
+    return scanGet(`/v0/state/acs/snapshot-timestamp?${params.toString()}`, "Failed to fetch ACS snapshot timestamp");
   },
 
   async fetchStateAcs(request: StateAcsRequest): Promise<StateAcsResponse> {
-    const res = await fetch(`${API_BASE}/v0/state/acs`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(request),
-      mode: "cors",
-    });
-    if (!res.ok) throw new Error("Failed to fetch state ACS");
-    return res.json();
+    return scanPost("/v0/state/acs", request, "Failed to fetch state ACS");
   },
 
   async fetchHoldingsSummary(request: HoldingsSummaryRequest): Promise<HoldingsSummaryResponse> {
-    const res = await fetch(`${API_BASE}/v0/holdings/summary`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(request),
-      mode: "cors",
-    });
-    if (!res.ok) throw new Error("Failed to fetch holdings summary");
-    return res.json();
+    return scanPost("/v0/holdings/summary", request, "Failed to fetch holdings summary");
   },
 
   async fetchAnsEntries(namePrefix?: string, pageSize: number = 100): Promise<AnsEntriesResponse> {
     const params = new URLSearchParams();
     if (namePrefix) params.append("name_prefix", namePrefix);
     params.append("page_size", String(pageSize));
-    const res = await fetch(`${API_BASE}/v0/ans-entries?${params.toString()}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch ANS entries");
-    return res.json();
+    return scanGet(`/v0/ans-entries?${params.toString()}`, "Failed to fetch ANS entries");
   },
 
   async fetchAnsEntryByParty(party: string): Promise<AnsEntryResponse> {
-    const res = await fetch(`${API_BASE}/v0/ans-entries/by-party/${party}`, {
-      mode: "cors",
+    return scanGet(`/v0/ans-entries/by-party/${party}`, "Failed to fetch ANS entry by party", {
+      endpoint: "/v0/ans-entries/by-party/:party",
     });
-    if (!res.ok) throw new Error("Failed to fetch ANS entry by party");
-    return res.json();
   },
 
   async fetchAnsEntryByName(name: string): Promise<AnsEntryResponse> {
-    const res = await fetch(`${API_BASE}/v0/ans-entries/by-name/${name}`, {
-      mode: "cors",
+    return scanGet(`/v0/ans-entries/by-name/${name}`, "Failed to fetch ANS entry by name", {
+      endpoint: "/v0/ans-entries/by-name/:name",
     });
-    if (!res.ok) throw new Error("Failed to fetch ANS entry by name");
-    return res.json();
   },
 
   async fetchDsoPartyId(): Promise<DsoPartyIdResponse> {
-    const res = await fetch(`${API_BASE}/v0/dso-party-id`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch DSO party ID");
-    return res.json();
+    return scanGet("/v0/dso-party-id", "Failed to fetch DSO party ID");
   },
 
   async fetchFeaturedApps(): Promise<FeaturedAppsResponse> {
-    const res = await fetch(`${API_BASE}/v0/featured-apps`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch featured apps");
-    return res.json();
+    return scanGet("/v0/featured-apps", "Failed to fetch featured apps");
   },
 
   async fetchFeaturedApp(providerPartyId: string): Promise<FeaturedAppResponse> {
-    const res = await fetch(`${API_BASE}/v0/featured-apps/${providerPartyId}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch featured app");
-    return res.json();
+    return scanGet(`/v0/featured-apps/${providerPartyId}`, "Failed to fetch featured app", {
+      endpoint: "/v0/featured-apps/:provider_party_id",
+    });
   },
 
   async fetchTopValidatorsByFaucets(limit: number): Promise<TopValidatorsByFaucetsResponse> {
     const params = new URLSearchParams({ limit: String(limit) });
-    const res = await fetch(`${API_BASE}/v0/top-validators-by-validator-faucets?${params.toString()}`, {
-      mode: "cors",
-    });
-    if (!res.ok) throw new Error("Failed to fetch top validators by faucets");
-    return res.json();
+    return scanGet(`/v0/top-validators-by-validator-faucets?${params.toString()}`, "Failed to fetch top validators by faucets");
   },
 
   async fetchTransferPreapprovalByParty(party: string): Promise<TransferPreapprovalResponse> {
-    const res = await fetch(`${API_BASE}/v0/transfer-preapprovals/by-party/${party}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch transfer preapproval");
-    return res.json();
+    return scanGet(`/v0/transfer-preapprovals/by-party/${party}`, "Failed to fetch transfer preapproval", {
+      endpoint: "/v0/transfer-preapprovals/by-party/:party",
+    });
   },
 
   async fetchTransferCommandCounter(party: string): Promise<TransferCommandCounterResponse> {
-    const res = await fetch(`${API_BASE}/v0/transfer-command-counter/${party}`, {
-      mode: "cors",
+    return scanGet(`/v0/transfer-command-counter/${party}`, "Failed to fetch transfer command counter", {
+      endpoint: "/v0/transfer-command-counter/:party",
     });
-    if (!res.ok) throw new Error("Failed to fetch transfer command counter");
-    return res.json();
   },
 
   async fetchTransferCommandStatus(sender: string, nonce: number): Promise<TransferCommandStatusResponse> {
     const params = new URLSearchParams({ sender, nonce: String(nonce) });
-    const res = await fetch(`${API_BASE}/v0/transfer-command/status?${params.toString()}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch transfer command status");
-    return res.json();
+    return scanGet(`/v0/transfer-command/status?${params.toString()}`, "Failed to fetch transfer command status");
   },
 
   async fetchMigrationSchedule(): Promise<MigrationScheduleResponse> {
-    const res = await fetch(`${API_BASE}/v0/migrations/schedule`, {
-      mode: "cors",
-    });
-    if (!res.ok) throw new Error("Failed to fetch migration schedule");
-    return res.json();
+    return scanGet("/v0/migrations/schedule", "Failed to fetch migration schedule");
   },
 
   async fetchSpliceInstanceNames(): Promise<SpliceInstanceNamesResponse> {
-    const res = await fetch(`${API_BASE}/v0/splice-instance-names`, {
-      mode: "cors",
-    });
-    if (!res.ok) throw new Error("Failed to fetch splice instance names");
-    return res.json();
+    return scanGet("/v0/splice-instance-names", "Failed to fetch splice instance names");
   },
 
   /* ---------- v1 helpers & v2 by id ---------- */
 
   async fetchUpdatesV1(request: UpdateHistoryRequest): Promise<UpdateHistoryResponse> {
-    const res = await fetch(`${API_BASE}/v1/updates`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(request),
-      mode: "cors",
-    });
-    if (!res.ok) throw new Error("Failed to fetch v1 updates");
-    return res.json();
+    return scanPost("/v1/updates", request, "Failed to fetch v1 updates");
   },
 
   async fetchUpdateByIdV1(updateId: string, damlValueEncoding?: string): Promise<UpdateByIdResponse> {
     const params = new URLSearchParams();
     if (damlValueEncoding) params.append("daml_value_encoding", damlValueEncoding);
     const url = params.toString()
-      ? `${API_BASE}/v1/updates/${updateId}?${params.toString()}`
-      : `${API_BASE}/v1/updates/${updateId}`;
-    const res = await fetch(url, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch v1 update by ID");
-    return res.json();
+      ? `/v1/updates/${updateId}?${params.toString()}`
+      : `/v1/updates/${updateId}`;
+    return scanGet(url, "Failed to fetch v1 update by ID", { endpoint: "/v1/updates/:update_id" });
   },
 
   async fetchUpdateByIdV2(updateId: string, damlValueEncoding?: string): Promise<UpdateByIdResponse> {
     const params = new URLSearchParams();
     if (damlValueEncoding) params.append("daml_value_encoding", damlValueEncoding);
     const url = params.toString()
-      ? `${API_BASE}/v2/updates/${updateId}?${params.toString()}`
-      : `${API_BASE}/v2/updates/${updateId}`;
-    const res = await fetch(url, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch v2 update by ID");
-    return res.json();
+      ? `/v2/updates/${updateId}?${params.toString()}`
+      : `/v2/updates/${updateId}`;
+    return scanGet(url, "Failed to fetch v2 update by ID", { endpoint: "/v2/updates/:update_id" });
   },
 
   /* ---------- legacy / deprecated but kept for compatibility ---------- */
@@ -1079,36 +1019,16 @@ export const scanApi = {
   async fetchAcsSnapshot(party: string, recordTime?: string): Promise<AcsSnapshotResponse> {
     const params = new URLSearchParams();
     if (recordTime) params.append("record_time", recordTime);
-    const url = params.toString() ? `${API_BASE}/v0/acs/${party}?${params.toString()}` : `${API_BASE}/v0/acs/${party}`;
-    const res = await fetch(url, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch ACS snapshot");
-    return res.json();
+    const url = params.toString() ? `/v0/acs/${party}?${params.toString()}` : `/v0/acs/${party}`;
+    return scanGet(url, "Failed to fetch ACS snapshot", { endpoint: "/v0/acs/:party" });
   },
 
   async fetchAggregatedRounds(): Promise<AggregatedRoundsResponse> {
-    const res = await fetch(`${API_BASE}/v0/aggregated-rounds`, {
-      mode: "cors",
-    });
-    if (!res.ok) throw new Error("Failed to fetch aggregated rounds");
-    return res.json();
+    return scanGet("/v0/aggregated-rounds", "Failed to fetch aggregated rounds");
   },
 
   async fetchRoundPartyTotals(request: RoundPartyTotalsRequest): Promise<RoundPartyTotalsResponse> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 15000);
-    try {
-      const res = await fetch(`${API_BASE}/v0/round-party-totals`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(request),
-        mode: "cors",
-        signal: controller.signal,
-      });
-      if (!res.ok) throw new Error("Failed to fetch round party totals");
-      return res.json();
-    } finally {
-      clearTimeout(timeout);
-    }
+    return scanPost("/v0/round-party-totals", request, "Failed to fetch round party totals", { timeoutMs: 15000 });
   },
 
   async fetchWalletBalance(partyId: string, asOfEndOfRound: number): Promise<WalletBalanceResponse> {
@@ -1116,19 +1036,17 @@ export const scanApi = {
       party_id: partyId,
       asOfEndOfRound: String(asOfEndOfRound),
     });
-    const res = await fetch(`${API_BASE}/v0/wallet-balance?${params.toString()}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch wallet balance");
-    return res.json();
+    return scanGet(`/v0/wallet-balance?${params.toString()}`, "Failed to fetch wallet balance");
   },
 
   async fetchAmuletConfigForRound(round: number): Promise<AmuletConfigForRoundResponse> {
     const params = new URLSearchParams({ round: String(round) });
-    const res = await fetch(`${API_BASE}/v0/amulet-config-for-round?${params.toString()}`, { mode: "cors" });
-    if (!res.ok) throw new Error("Failed to fetch amulet config for round");
-    return res.json();
+    return scanGet(`/v0/amulet-config-for-round?${params.toString()}`, "Failed to fetch amulet config for round");
   },
 
   /* ---------- Governance helper (ACS snapshot approach) ---------- */
+  // Open proposals only; the full history is in governance_proposals, see
+  // the governance-history function.
 
   async fetchGovernanceProposals(): Promise<
     Array<{
@@ -1142,7 +1060,6 @@ export const scanApi = {
     }>
   > {
     try {
-      const dso = await this.fetchDsoInfo();
       const latest = await this.fetchLatestRound();
       const snap = await this.fetchAcsSnapshotTimestamp(latest.effectiveAt, 0);
 
@@ -1161,18 +1078,21 @@ export const scanApi = {
         const cid = ev.contract_id;
         const payload = ev.create_arguments || {};
 
-        if (templateId.includes("VoteRequest")) {
-          const votes = (payload as any).votes || {};
-          const votesFor = Object.values(votes).filter((v: any) => v?.accept || v?.Accept).length;
-          const votesAgainst = Object.values(votes).filter((v: any) => v?.reject || v?.Reject).length;
-          const action = (payload as any).action || {};
-          const key = Object.keys(action)[0];
-          const title = key ? key.replace(/ARC_|_/g, " ") : "Governance Proposal";
+        if (templateId.endsWith(":VoteRequest")) {
+          const decoded = decodeContract("Splice:DsoRules:VoteRequest", payload, cid);
+          if (!decoded.ok) {
+            console.warn(decoded.error.message);
+            continue;
+          }
+          const { votes, action, reason } = decoded.value;
+          const votesFor = votes.filter(([, v]) => v.accept).length;
+          const votesAgainst = votes.length - votesFor;
+          const title = voteRequestActionName(action).replace(/_/g, " ") || "Governance Proposal";
 
           byId[cid] = {
             id: cid.slice(0, 12),
             title,
-            description: "Vote request",
+            description: reason.body || "Vote request",
             status: "pending",
             votesFor,
             votesAgainst,
@@ -1196,22 +1116,6 @@ export const scanApi = {
 
       Object.values(byId).forEach((p) => proposals.push(p));
 
-      // Fallback: show SV onboardings as executed
-      if (proposals.length === 0 && (dso as any)?.dso_rules?.contract?.payload?.svs) {
-        const svs = (dso as any).dso_rules.contract.payload.svs;
-        svs.slice(0, 20).forEach(([svPartyId, svInfo]: [string, any]) => {
-          proposals.push({
-            id: svPartyId.slice(0, 12),
-            title: `Super Validator Onboarding: ${svInfo.name}`,
-            description: `${svInfo.name} approved at round ${svInfo.joinedAsOfRound?.number || 0}`,
-            status: "executed",
-            votesFor: (dso as any).voting_threshold,
-            votesAgainst: 0,
-            createdAt: (dso as any).dso_rules.contract.created_at,
-          });
-        });
-      }
-
       proposals.sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
 
       return proposals;
@@ -0,0 +1,2 @@
+// Shared with the edge functions, see supabase/functions/_shared/app-activity.ts
+export * from "../../supabase/functions/_shared/app-activity.ts";
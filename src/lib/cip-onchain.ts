@@ -0,0 +1,227 @@
+// CIP ↔ on-chain vote matching
+// ------------------------------------------------------------------
+// Links the CIPs recorded on the Admin page to the governance proposals
+// rebuilt from the ledger (governance_proposals), and compares the off-chain
+// SV votes recorded for a CIP with the ballots SVs actually cast on-chain.
+//
+// Automatic matching looks for the CIP number in the vote request's reason
+// (SVs link the CIP in the reason URL or mention it in the body); the vote
+// window recorded for the CIP only breaks ties. A match is only automatic
+// when a single proposal scores best, anything else needs a manual link.
+
+import type { VoteEventRecord } from "@/lib/governance-history";
+
+export interface CipRecord {
+  id: string;
+  cip_number: string;
+  github_link: string | null;
+  vote_start_date: string | null;
+  vote_close_date: string | null;
+  requires_onchain_vote: boolean;
+  onchain_proposal_id: string | null;
+  /** When set, onchain_proposal_id is the admin's choice (null = no vote) */
+  onchain_link_manual: boolean;
+}
+
+export interface ProposalCandidate {
+  proposal_id: string;
+  action_tag: string;
+  reason_url: string;
+  reason_body: string;
+  created_at: string;
+}
+
+export interface CipMatch {
+  proposalId: string;
+  score: number;
+  reasons: string[];
+}
+
+export type CipLink =
+  | { kind: "manual"; proposalId: string | null }
+  | { kind: "auto"; proposalId: string; match: CipMatch }
+  | { kind: "ambiguous"; candidates: CipMatch[] }
+  | { kind: "none" };
+
+export type OffchainVote = "yes" | "no" | "abstain" | "";
+
+export interface OffchainSvVote {
+  id: string;
+  organization: string;
+  vote: string | null;
+  weight: number;
+  /** Manual mapping to the on-chain SV name, for organisations named differently */
+  onchain_sv_name?: string | null;
+}
+
+export interface OnchainBallot {
+  svName: string;
+  svParty: string;
+  accept: boolean;
+  castAt: string;
+}
+
+export type VoteComparison =
+  | "agree"
+  /** Off-chain yes/no, on-chain the opposite */
+  | "conflict"
+  /** Off-chain yes/no, no on-chain ballot */
+  | "not_cast_onchain"
+  /** Off-chain abstain or blank, but a ballot on-chain */
+  | "abstained_offchain"
+  /** On-chain ballot from an SV without an off-chain record */
+  | "no_offchain_record"
+  | "abstained";
+
+export interface SvVoteComparison {
+  /** sv_votes row id; null for on-chain ballots without an off-chain record */
+  recordId: string | null;
+  organization: string | null;
+  offchain: OffchainVote | null;
+  weight: number | null;
+  svName: string | null;
+  onchain: OnchainBallot | null;
+  result: VoteComparison;
+}
+
+/** Results that mean the recorded off-chain vote differs from the on-chain one */
+export const MISMATCH_RESULTS: ReadonlySet<VoteComparison> = new Set(["conflict", "not_cast_onchain", "abstained_offchain"]);
+
+/** "CIP-0042", "cip 42", "#42" and "42" all normalize to "42" */
+export function normalizeCipNumber(value: string): string | null {
+  const m = value.match(/(?:cip[-_\s#]*)?0*(\d+)/i);
+  return m ? m[1] : null;
+}
+
+/** CIP numbers mentioned in free text or a URL (e.g. `.../cip-0042/...`) */
+export function extractCipNumbers(text: string): string[] {
+  const out = new Set<string>();
+  for (const m of text.matchAll(/cip[-_\s#]*0*(\d+)/gi)) out.add(m[1]);
+  return Array.from(out);
+}
+
+function withinWindow(cip: CipRecord, createdAt: string): boolean {
+  if (!cip.vote_start_date && !cip.vote_close_date) return false;
+  const day = createdAt.slice(0, 10);
+  // Vote requests are often created a little before the recorded start
+  const start = cip.vote_start_date ? shiftDays(cip.vote_start_date, -7) : null;
+  return (!start || day >= start) && (!cip.vote_close_date || day <= cip.vote_close_date);
+}
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Proposals that plausibly put this CIP to a vote, best first */
+export function rankCipCandidates(cip: CipRecord, proposals: ProposalCandidate[]): CipMatch[] {
+  const number = normalizeCipNumber(cip.cip_number);
+  const github = cip.github_link?.trim().replace(/\/+$/, "").toLowerCase();
+  const matches: CipMatch[] = [];
+
+  for (const p of proposals) {
+    const reasons: string[] = [];
+    let score = 0;
+    const url = p.reason_url.trim().replace(/\/+$/, "").toLowerCase();
+    if (github && url && url === github) {
+      score += 100;
+      reasons.push("reason URL is the CIP link");
+    }
+    if (number && extractCipNumbers(p.reason_url).includes(number)) {
+      score += 60;
+      reasons.push(`reason URL mentions CIP ${number}`);
+    }
+    if (number && extractCipNumbers(p.reason_body).includes(number)) {
+      score += 40;
+      reasons.push(`reason mentions CIP ${number}`);
+    }
+    if (score === 0) continue;
+    if (withinWindow(cip, p.created_at)) {
+      score += 10;
+      reasons.push("created within the CIP vote window");
+    }
+    matches.push({ proposalId: p.proposal_id, score, reasons });
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+export function resolveCipLink(cip: CipRecord, proposals: ProposalCandidate[]): CipLink {
+  if (cip.onchain_link_manual) return { kind: "manual", proposalId: cip.onchain_proposal_id };
+  const ranked = rankCipCandidates(cip, proposals);
+  if (ranked.length === 0) return { kind: "none" };
+  const best = ranked.filter((m) => m.score === ranked[0].score);
+  if (best.length > 1) return { kind: "ambiguous", candidates: ranked };
+  return { kind: "auto", proposalId: best[0].proposalId, match: best[0] };
+}
+
+export function linkedProposalId(link: CipLink): string | null {
+  return link.kind === "manual" || link.kind === "auto" ? link.proposalId : null;
+}
+
+/** Each SV's standing ballot once all cast / changed / removed events are applied */
+export function finalBallots(votes: VoteEventRecord[]): OnchainBallot[] {
+  const ballots = new Map<string, OnchainBallot>();
+  for (const v of [...votes].sort((a, b) => a.cast_at.localeCompare(b.cast_at))) {
+    if (v.change === "removed") ballots.delete(v.sv_name);
+    else ballots.set(v.sv_name, { svName: v.sv_name, svParty: v.sv_party, accept: v.accept, castAt: v.cast_at });
+  }
+  return Array.from(ballots.values()).sort((a, b) => a.svName.localeCompare(b.svName));
+}
+
+/**
+ * On-chain SV names carry a node suffix ("Digital-Asset-2"), organisation
+ * names do not, so both sides are compared without punctuation, case or a
+ * trailing node number. One organisation can therefore own several ballots.
+ */
+export function normalizeSvName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[-_\s]*\d+$/, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function compare(offchain: OffchainVote, ballot: OnchainBallot | null): VoteComparison {
+  if (offchain === "yes" || offchain === "no") {
+    if (!ballot) return "not_cast_onchain";
+    return ballot.accept === (offchain === "yes") ? "agree" : "conflict";
+  }
+  return ballot ? "abstained_offchain" : "abstained";
+}
+
+export function compareSvVotes(offchain: OffchainSvVote[], ballots: OnchainBallot[]): SvVoteComparison[] {
+  const unclaimed = new Map(ballots.map((b) => [b.svName, b]));
+  const rows: SvVoteComparison[] = [];
+
+  for (const record of offchain) {
+    const vote = (record.vote ?? "") as OffchainVote;
+    const mapped = record.onchain_sv_name?.trim();
+    const owned = mapped
+      ? ballots.filter((b) => b.svName === mapped)
+      : ballots.filter((b) => normalizeSvName(b.svName) === normalizeSvName(record.organization));
+    const base = { recordId: record.id, organization: record.organization, offchain: vote, weight: record.weight };
+
+    if (owned.length === 0) {
+      rows.push({ ...base, svName: mapped || null, onchain: null, result: compare(vote, null) });
+      continue;
+    }
+    for (const ballot of owned) {
+      unclaimed.delete(ballot.svName);
+      rows.push({ ...base, svName: ballot.svName, onchain: ballot, result: compare(vote, ballot) });
+    }
+  }
+
+  for (const ballot of unclaimed.values()) {
+    rows.push({
+      recordId: null,
+      organization: null,
+      offchain: null,
+      weight: null,
+      svName: ballot.svName,
+      onchain: ballot,
+      result: "no_offchain_record",
+    });
+  }
+  return rows;
+}
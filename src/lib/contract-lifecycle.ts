@@ -0,0 +1,203 @@
+// Contract lifecycle
+// ------------------------------------------------------------------
+// Reconstructs the life of one contract from the updates that touch it, in
+// the /v2/updates shape (as stored in ledger_updates.raw): the creating
+// event, every choice exercised on it, reassignments between synchronizers
+// and the consuming exercise that archives it. Exercises list the contracts
+// created anywhere below them in the transaction tree.
+
+import type {
+  AssignmentEvent,
+  CreatedEvent,
+  ExercisedEvent,
+  Reassignment,
+  Transaction,
+  TreeEvent,
+  UnassignmentEvent,
+} from "@/lib/api-client";
+
+export type LifecycleUpdate = Transaction | Reassignment;
+
+interface StepBase {
+  updateId: string;
+  recordTime: string;
+  migrationId?: number;
+  synchronizerId?: string;
+  eventId?: string;
+}
+
+export interface ChildContract {
+  contractId: string;
+  templateId: string;
+  eventId: string;
+}
+
+export type LifecycleStep =
+  | (StepBase & {
+      kind: "created";
+      templateId: string;
+      createArguments: unknown;
+      signatories: string[];
+      observers: string[];
+    })
+  | (StepBase & {
+      kind: "exercised";
+      choice: string;
+      interfaceId?: string;
+      choiceArgument: unknown;
+      exerciseResult: unknown;
+      actingParties: string[];
+      /** Consuming exercises archive the contract */
+      consuming: boolean;
+      children: ChildContract[];
+    })
+  | (StepBase & {
+      kind: "assigned";
+      sourceSynchronizer: string;
+      targetSynchronizer: string;
+      reassignmentCounter: number;
+      submitter: string;
+    })
+  | (StepBase & {
+      kind: "unassigned";
+      sourceSynchronizer: string;
+      targetSynchronizer: string;
+      reassignmentCounter: number;
+      submitter: string;
+    });
+
+export type LifecycleStatus = "active" | "archived" | "in-transit" | "unknown";
+
+export interface ContractLifecycle {
+  contractId: string;
+  templateId: string | null;
+  steps: LifecycleStep[];
+  status: LifecycleStatus;
+  /** The first creation or assignment seen; missing when history starts after it */
+  created: LifecycleStep | null;
+  archived: LifecycleStep | null;
+}
+
+export function isReassignment(u: LifecycleUpdate): u is Reassignment {
+  return "event" in u && !!u.event;
+}
+
+function isAssignment(e: AssignmentEvent | UnassignmentEvent): e is AssignmentEvent {
+  return "created_event" in e && !!e.created_event;
+}
+
+/** Event ids are `<update id>:<index>`; order within an update by that index */
+function eventIndex(eventId: string | undefined): number {
+  const n = Number(eventId?.split(":").pop());
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** Creates anywhere below `root`, depth first in tree order */
+export function childCreates(events: Record<string, TreeEvent>, root: ExercisedEvent): ChildContract[] {
+  const out: ChildContract[] = [];
+  const visit = (ids: string[] | undefined) => {
+    for (const id of ids ?? []) {
+      const ev = events[id];
+      if (!ev) continue;
+      if (ev.event_type === "created_event") {
+        out.push({ contractId: ev.contract_id, templateId: ev.template_id, eventId: id });
+      } else if (ev.event_type === "exercised_event") {
+        visit((ev as ExercisedEvent).child_event_ids);
+      }
+    }
+  };
+  visit(root.child_event_ids);
+  return out;
+}
+
+function transactionSteps(contractId: string, tx: Transaction): LifecycleStep[] {
+  const base = {
+    updateId: tx.update_id,
+    recordTime: tx.record_time,
+    migrationId: tx.migration_id,
+    synchronizerId: tx.synchronizer_id,
+  };
+  const steps: LifecycleStep[] = [];
+  for (const [id, ev] of Object.entries(tx.events_by_id ?? {})) {
+    if (ev.contract_id !== contractId) continue;
+    const eventId = ev.event_id ?? id;
+    if (ev.event_type === "created_event") {
+      const c = ev as CreatedEvent;
+      steps.push({
+        ...base,
+        eventId,
+        kind: "created",
+        templateId: c.template_id,
+        createArguments: c.create_arguments,
+        signatories: c.signatories ?? [],
+        observers: c.observers ?? [],
+      });
+    } else if (ev.event_type === "exercised_event") {
+      const x = ev as ExercisedEvent;
+      steps.push({
+        ...base,
+        eventId,
+        kind: "exercised",
+        choice: x.choice,
+        interfaceId: x.interface_id,
+        choiceArgument: x.choice_argument,
+        exerciseResult: x.exercise_result,
+        actingParties: x.acting_parties ?? [],
+        consuming: !!x.consuming,
+        children: childCreates(tx.events_by_id, x),
+      });
+    }
+  }
+  return steps.sort((a, b) => eventIndex(a.eventId) - eventIndex(b.eventId));
+}
+
+function reassignmentSteps(contractId: string, r: Reassignment): LifecycleStep[] {
+  const e = r.event;
+  const base = {
+    updateId: r.update_id,
+    recordTime: r.record_time,
+    migrationId: e.migration_id,
+    reassignmentCounter: e.reassignment_counter,
+    submitter: e.submitter,
+    sourceSynchronizer: e.source_synchronizer,
+    targetSynchronizer: e.target_synchronizer,
+  };
+  if (isAssignment(e)) {
+    if (e.created_event.contract_id !== contractId) return [];
+    return [{ ...base, kind: "assigned", synchronizerId: e.target_synchronizer, eventId: e.created_event.event_id }];
+  }
+  if (e.contract_id !== contractId) return [];
+  return [{ ...base, kind: "unassigned", synchronizerId: e.source_synchronizer }];
+}
+
+export function buildContractLifecycle(contractId: string, updates: LifecycleUpdate[]): ContractLifecycle {
+  // The same update can arrive from the database and from Scan
+  const unique = new Map<string, LifecycleUpdate>();
+  for (const u of updates) unique.set(u.update_id, u);
+
+  const steps = Array.from(unique.values())
+    .sort((a, b) => a.record_time.localeCompare(b.record_time))
+    .flatMap((u) => (isReassignment(u) ? reassignmentSteps(contractId, u) : transactionSteps(contractId, u)));
+
+  const created = steps.find((s) => s.kind === "created" || s.kind === "assigned") ?? null;
+  const archived = steps.find((s) => s.kind === "exercised" && s.consuming) ?? null;
+  const templateId =
+    steps.find((s): s is Extract<LifecycleStep, { kind: "created" }> => s.kind === "created")?.templateId ??
+    Array.from(unique.values())
+      .filter(isReassignment)
+      .map((r) => r.event)
+      .find((e): e is AssignmentEvent => isAssignment(e) && e.created_event.contract_id === contractId)
+      ?.created_event.template_id ??
+    null;
+
+  const last = steps[steps.length - 1];
+  const status: LifecycleStatus = archived
+    ? "archived"
+    : !last
+      ? "unknown"
+      : last.kind === "unassigned"
+        ? "in-transit"
+        : "active";
+
+  return { contractId, templateId, steps, status, created, archived };
+}
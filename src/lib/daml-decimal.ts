@@ -0,0 +1,3 @@
+// The implementation lives next to the edge functions so that Deno and the
+// web app share a single copy of the arithmetic.
+export * from "../../supabase/functions/_shared/daml-decimal.ts";
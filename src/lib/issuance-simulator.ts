@@ -0,0 +1,266 @@
+// Issuance curve simulator
+// ------------------------------------------------------------------
+// The issuance curve in AmuletConfig is a schedule of IssuanceConfigs keyed
+// by the time elapsed since the network started issuing. Every mining round
+// records that elapsed time as `issuingFor` and advances it by one
+// `tickDuration`, so the round N + k is issuing for
+// issuingFor(N) + k * tickDuration.
+//
+// A round issues amuletToIssuePerYear / roundsPerYear (a year is 365 days),
+// split between validators and apps by their percentages; SVs get the rest.
+// These are the pools available for the round. What is actually minted can
+// be lower, since coupons are capped and unclaimed rewards are not minted
+// until later, which is what the history comparison shows.
+
+import type { RoundTotals } from "@/lib/api-client";
+
+export const YEAR_MICROS = 365 * 24 * 60 * 60 * 1_000_000;
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IssuanceParams {
+  amuletToIssuePerYear: number;
+  validatorRewardPercentage: number;
+  appRewardPercentage: number;
+}
+
+export interface CurveStep {
+  /** Elapsed issuing time from which the step applies */
+  afterMicros: number;
+  params: IssuanceParams;
+}
+
+/** Steps sorted by `afterMicros`, the first one at 0 */
+export type IssuanceCurve = CurveStep[];
+
+export interface RoundIssuance {
+  total: number;
+  validators: number;
+  apps: number;
+  svs: number;
+}
+
+export interface IssuanceScenario {
+  curve: IssuanceCurve;
+  tickMicros: number;
+  /** ms since epoch at which the scenario replaces the current config */
+  from: number;
+}
+
+export interface SimulationInput {
+  curve: IssuanceCurve;
+  tickMicros: number;
+  /** The latest open round, which the projection starts after */
+  startRound: number;
+  startIssuingForMicros: number;
+  startTime: number;
+  startSupply: number;
+  horizonDays: number;
+  /** Share of the issued pools assumed to be minted, 0..1 */
+  mintedShare: number;
+  scenario?: IssuanceScenario | null;
+}
+
+export interface SimulationPoint {
+  time: number;
+  round: number;
+  /** Issuance per day at this point */
+  perDay: RoundIssuance;
+  supply: number;
+  /** The same point without the scenario, when one is set */
+  baselineSupply?: number;
+  baselinePerDay?: RoundIssuance;
+}
+
+const toNumber = (value: unknown): number | null => {
+  const n = typeof value === "string" || typeof value === "number" ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : null;
+};
+
+export function parseIssuanceParams(value: unknown): IssuanceParams | null {
+  const v = value as Record<string, unknown> | null;
+  if (!v || typeof v !== "object") return null;
+  const amuletToIssuePerYear = toNumber(v.amuletToIssuePerYear);
+  const validatorRewardPercentage = toNumber(v.validatorRewardPercentage);
+  const appRewardPercentage = toNumber(v.appRewardPercentage);
+  if (amuletToIssuePerYear === null || validatorRewardPercentage === null || appRewardPercentage === null) return null;
+  return { amuletToIssuePerYear, validatorRewardPercentage, appRewardPercentage };
+}
+
+/** `RelTime` as `{microseconds}` or a bare number of microseconds */
+export function parseRelTime(value: unknown): number | null {
+  if (value && typeof value === "object") return toNumber((value as { microseconds?: unknown }).microseconds);
+  return toNumber(value);
+}
+
+/** Parses `issuanceCurve` of an AmuletConfig; tuples come as `[t, v]` or `{_1, _2}` */
+export function parseIssuanceCurve(value: unknown): IssuanceCurve | null {
+  const schedule = value as { initialValue?: unknown; futureValues?: unknown } | null;
+  const initial = parseIssuanceParams(schedule?.initialValue);
+  if (!initial) return null;
+  const steps: IssuanceCurve = [{ afterMicros: 0, params: initial }];
+  for (const item of Array.isArray(schedule.futureValues) ? schedule.futureValues : []) {
+    const [time, params] = Array.isArray(item) ? item : [item?._1, item?._2];
+    const afterMicros = parseRelTime(time);
+    const parsed = parseIssuanceParams(params);
+    if (afterMicros !== null && parsed) steps.push({ afterMicros, params: parsed });
+  }
+  return steps.sort((a, b) => a.afterMicros - b.afterMicros);
+}
+
+export function paramsAt(curve: IssuanceCurve, issuingForMicros: number): IssuanceParams {
+  let params = curve[0].params;
+  for (const step of curve) {
+    if (step.afterMicros <= issuingForMicros) params = step.params;
+  }
+  return params;
+}
+
+export function roundIssuance(params: IssuanceParams, tickMicros: number): RoundIssuance {
+  const total = (params.amuletToIssuePerYear * tickMicros) / YEAR_MICROS;
+  const validators = total * params.validatorRewardPercentage;
+  const apps = total * params.appRewardPercentage;
+  return { total, validators, apps, svs: total - validators - apps };
+}
+
+const scale = (r: RoundIssuance, factor: number): RoundIssuance => ({
+  total: r.total * factor,
+  validators: r.validators * factor,
+  apps: r.apps * factor,
+  svs: r.svs * factor,
+});
+
+/** Issuance per day and supply at every day of the horizon */
+function project(
+  input: SimulationInput,
+  scenario: IssuanceScenario | null,
+): Array<{ time: number; round: number; perDay: RoundIssuance; supply: number }> {
+  const end = input.startTime + input.horizonDays * DAY_MS;
+  const points: Array<{ time: number; round: number; perDay: RoundIssuance; supply: number }> = [];
+
+  let time = input.startTime;
+  let round = input.startRound;
+  let issuingFor = input.startIssuingForMicros;
+  let supply = input.startSupply;
+  let nextSample = input.startTime;
+
+  while (time <= end) {
+    const active = scenario && time >= scenario.from ? scenario : input;
+    const issuance = roundIssuance(paramsAt(active.curve, issuingFor), active.tickMicros);
+    if (time >= nextSample) {
+      points.push({ time, round, perDay: scale(issuance, (DAY_MS * 1000) / active.tickMicros), supply });
+      nextSample += DAY_MS;
+    }
+    supply += issuance.total * input.mintedShare;
+    issuingFor += active.tickMicros;
+    time += active.tickMicros / 1000;
+    round++;
+  }
+  return points;
+}
+
+export function simulateIssuance(input: SimulationInput): SimulationPoint[] {
+  const baseline = project(input, null);
+  if (!input.scenario) return baseline;
+  const withScenario = project(input, input.scenario);
+  // Both are sampled once per day from the same start, so they pair up by index
+  return withScenario.map((p, i) => ({
+    ...p,
+    baselineSupply: baseline[i]?.supply,
+    baselinePerDay: baseline[i]?.perDay,
+  }));
+}
+
+export interface HistoryComparisonPoint {
+  day: string;
+  rounds: number;
+  projectedValidators: number;
+  projectedApps: number;
+  actualValidators: number;
+  actualApps: number;
+}
+
+export interface HistoryComparison {
+  days: HistoryComparisonPoint[];
+  /** Minted / projected over the whole window, null without data */
+  validatorRatio: number | null;
+  appRatio: number | null;
+}
+
+/**
+ * Projected validator and app pools for closed rounds against the rewards
+ * Scan reports for them. Past rounds' `issuingFor` is derived backwards
+ * from the latest open round, assuming the tick duration did not change.
+ */
+export function compareWithHistory(
+  rounds: RoundTotals[],
+  curve: IssuanceCurve,
+  tickMicros: number,
+  anchor: { round: number; issuingForMicros: number },
+): HistoryComparison {
+  const byDay = new Map<string, HistoryComparisonPoint>();
+  let projected = { validators: 0, apps: 0 };
+  let actual = { validators: 0, apps: 0 };
+
+  for (const r of rounds) {
+    const issuingFor = anchor.issuingForMicros - (anchor.round - r.closed_round) * tickMicros;
+    if (issuingFor < 0) continue;
+    const issuance = roundIssuance(paramsAt(curve, issuingFor), tickMicros);
+    const validators = toNumber(r.validator_rewards) ?? 0;
+    const apps = toNumber(r.app_rewards) ?? 0;
+
+    const day = r.closed_round_effective_at.slice(0, 10);
+    const point = byDay.get(day) ?? {
+      day,
+      rounds: 0,
+      projectedValidators: 0,
+      projectedApps: 0,
+      actualValidators: 0,
+      actualApps: 0,
+    };
+    point.rounds++;
+    point.projectedValidators += issuance.validators;
+    point.projectedApps += issuance.apps;
+    point.actualValidators += validators;
+    point.actualApps += apps;
+    byDay.set(day, point);
+
+    projected = { validators: projected.validators + issuance.validators, apps: projected.apps + issuance.apps };
+    actual = { validators: actual.validators + validators, apps: actual.apps + apps };
+  }
+
+  return {
+    days: Array.from(byDay.values()).sort((a, b) => a.day.localeCompare(b.day)),
+    validatorRatio: projected.validators > 0 ? actual.validators / projected.validators : null,
+    appRatio: projected.apps > 0 ? actual.apps / projected.apps : null,
+  };
+}
+
+/** The issuance curve and tick duration of a proposed AmuletConfig, e.g. `newConfig` of CRARC_SetConfig */
+export function scenarioFromConfig(config: unknown): { curve: IssuanceCurve; tickMicros: number } | null {
+  const c = config as { issuanceCurve?: unknown; tickDuration?: unknown } | null;
+  const curve = parseIssuanceCurve(c?.issuanceCurve);
+  const tickMicros = parseRelTime(c?.tickDuration);
+  return curve && tickMicros ? { curve, tickMicros } : null;
+}
+
+/** The AmuletConfig an ARC_AmuletRules action would set, if it sets one */
+export function proposedAmuletConfig(action: unknown): unknown | null {
+  const seen = new Set<unknown>();
+  const find = (value: unknown): unknown | null => {
+    if (!value || typeof value !== "object" || seen.has(value)) return null;
+    seen.add(value);
+    const v = value as Record<string, unknown>;
+    if (v.newConfig && typeof v.newConfig === "object") return v.newConfig;
+    // CRARC_AddFutureAmuletConfigSchedule carries a (time, config) tuple
+    if (v.newScheduleItem) {
+      const item = v.newScheduleItem as unknown[] | { _2?: unknown };
+      return (Array.isArray(item) ? item[1] : item._2) ?? null;
+    }
+    for (const nested of Object.values(v)) {
+      const found = find(nested);
+      if (found) return found;
+    }
+    return null;
+  };
+  return find(action);
+}
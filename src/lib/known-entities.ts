@@ -0,0 +1,69 @@
+// Known entities
+// ------------------------------------------------------------------
+// Names the explorer can put on a party beyond its ANS name: the DSO, super
+// validators and their beneficiaries (from the approved SV list the
+// config-sync reads), featured app providers, and the labels admins keep in
+// party_labels for wallets nothing on the ledger identifies, such as
+// exchanges and foundations. An admin label wins over every other source.
+
+export type EntityKind = "dso" | "sv" | "app" | "exchange" | "foundation" | "custodian" | "other";
+
+export const ENTITY_KINDS: EntityKind[] = ["exchange", "foundation", "custodian", "sv", "app", "dso", "other"];
+
+export const ENTITY_KIND_LABELS: Record<EntityKind, string> = {
+  dso: "DSO",
+  sv: "Super Validator",
+  app: "Featured App",
+  exchange: "Exchange",
+  foundation: "Foundation",
+  custodian: "Custodian",
+  other: "Other",
+};
+
+export interface KnownEntity {
+  party: string;
+  label: string;
+  kind: EntityKind;
+  /** Where the label comes from */
+  source: "label" | "dso" | "sv-config" | "featured-app";
+  note?: string | null;
+}
+
+/** A row of the party_labels table */
+export interface PartyLabelRow {
+  party: string;
+  label: string;
+  kind: EntityKind;
+  note: string | null;
+}
+
+export interface KnownEntitySources {
+  dsoParty?: string | null;
+  /** Beneficiaries of the approved SVs: party, SV (operator) name */
+  svs?: Array<{ party: string; operator: string }>;
+  apps?: Array<{ provider: string; name: string | null }>;
+  labels?: PartyLabelRow[];
+}
+
+/** Party to entity, the later sources below overriding the earlier ones */
+export function buildKnownEntities(sources: KnownEntitySources): Map<string, KnownEntity> {
+  const entities = new Map<string, KnownEntity>();
+  for (const app of sources.apps ?? []) {
+    entities.set(app.provider, {
+      party: app.provider,
+      label: app.name || app.provider.split("::")[0],
+      kind: "app",
+      source: "featured-app",
+    });
+  }
+  for (const sv of sources.svs ?? []) {
+    entities.set(sv.party, { party: sv.party, label: sv.operator, kind: "sv", source: "sv-config" });
+  }
+  if (sources.dsoParty) {
+    entities.set(sources.dsoParty, { party: sources.dsoParty, label: "DSO", kind: "dso", source: "dso" });
+  }
+  for (const l of sources.labels ?? []) {
+    entities.set(l.party, { party: l.party, label: l.label, kind: l.kind, source: "label", note: l.note });
+  }
+  return entities;
+}
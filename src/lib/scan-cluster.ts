@@ -0,0 +1,222 @@
+// Scan cluster
+// ------------------------------------------------------------------
+// Every SV runs its own Scan. The cluster discovers them through
+// /v0/scans on the primary, fails over to another SV when the current one
+// errors, and can run quorum reads that ask several SVs the same question
+// and report any disagreement (e.g. an SV lagging behind on round totals).
+
+import { isScanApiError, scanRequest, type ScanRequestOptions } from "@/lib/scan-transport";
+
+export interface ScanEndpoint {
+  svName: string;
+  baseUrl: string;
+}
+
+interface ScanHealth {
+  failures: number;
+  lastError?: string;
+  /** Endpoint is skipped until this time (ms since epoch) */
+  cooldownUntil: number;
+}
+
+export interface QuorumResponse<T> {
+  svName: string;
+  baseUrl: string;
+  value: T;
+}
+
+export interface QuorumResult<T> {
+  /** Value returned by the largest group of agreeing scans; null if every scan failed */
+  value: T | null;
+  agreeing: QuorumResponse<T>[];
+  /** Scans that answered, but with a different value */
+  disagreeing: QuorumResponse<T>[];
+  failed: Array<{ svName: string; baseUrl: string; error: string }>;
+  /** True when at least two scans answered and all of them agree */
+  consistent: boolean;
+}
+
+export interface QuorumOptions<T> {
+  /** Number of scans to ask, primary included */
+  size?: number;
+  /** Comparison key; values with equal keys agree */
+  key?: (value: T) => string;
+}
+
+const DISCOVERY_TTL_MS = 10 * 60_000;
+const COOLDOWN_MS = 60_000;
+const MAX_FAILOVER = 3;
+
+// Scans list as returned by /v0/scans (kept structural to avoid importing the client)
+interface ScansPayload {
+  scans?: Array<{ scans?: Array<{ publicUrl: string; svName: string }> }>;
+}
+
+export function scanBaseUrl(publicUrl: string): string {
+  return `${publicUrl.replace(/\/+$/, "")}/api/scan`;
+}
+
+export class ScanCluster {
+  private readonly primary: ScanEndpoint;
+  private discovered: ScanEndpoint[] = [];
+  private discoveredAt = 0;
+  private discovery: Promise<ScanEndpoint[]> | null = null;
+  private preferred: string;
+  private readonly health = new Map<string, ScanHealth>();
+
+  constructor(primaryBaseUrl: string) {
+    this.primary = { svName: "primary", baseUrl: primaryBaseUrl.replace(/\/+$/, "") };
+    this.preferred = this.primary.baseUrl;
+  }
+
+  /** All known scans, primary first. Discovery failures fall back to the last known list. */
+  async endpoints(): Promise<ScanEndpoint[]> {
+    if (Date.now() - this.discoveredAt < DISCOVERY_TTL_MS) return this.merged();
+    if (!this.discovery) {
+      this.discovery = this.discover()
+        .then((found) => {
+          this.discovered = found;
+          this.discoveredAt = Date.now();
+          return this.merged();
+        })
+        .catch((e) => {
+          console.warn("Scan discovery failed, using known scans:", e);
+          return this.merged();
+        })
+        .finally(() => {
+          this.discovery = null;
+        });
+    }
+    return this.discovery;
+  }
+
+  private async discover(): Promise<ScanEndpoint[]> {
+    const tryFrom = [this.preferred, ...this.discovered.map((s) => s.baseUrl)];
+    let lastError: unknown;
+    for (const base of Array.from(new Set(tryFrom)).slice(0, MAX_FAILOVER)) {
+      try {
+        const data = await scanRequest<ScansPayload>(base, "/v0/scans", {
+          errorMessage: "Failed to fetch scans",
+          maxRetries: 1,
+        });
+        const found = new Map<string, ScanEndpoint>();
+        for (const group of data.scans || []) {
+          for (const scan of group.scans || []) {
+            const baseUrl = scanBaseUrl(scan.publicUrl);
+            if (!found.has(baseUrl)) found.set(baseUrl, { svName: scan.svName, baseUrl });
+          }
+        }
+        return Array.from(found.values());
+      } catch (e) {
+        lastError = e;
+      }
+    }
+    throw lastError;
+  }
+
+  private merged(): ScanEndpoint[] {
+    const others = this.discovered.filter((s) => s.baseUrl !== this.primary.baseUrl);
+    const primaryName = this.discovered.find((s) => s.baseUrl === this.primary.baseUrl)?.svName;
+    return [{ ...this.primary, svName: primaryName ?? this.primary.svName }, ...others];
+  }
+
+  private isCoolingDown(baseUrl: string): boolean {
+    return (this.health.get(baseUrl)?.cooldownUntil ?? 0) > Date.now();
+  }
+
+  private markSuccess(baseUrl: string): void {
+    this.health.delete(baseUrl);
+    this.preferred = baseUrl;
+  }
+
+  private markFailure(baseUrl: string, error: unknown): void {
+    const h = this.health.get(baseUrl) ?? { failures: 0, cooldownUntil: 0 };
+    h.failures++;
+    h.lastError = error instanceof Error ? error.message : String(error);
+    h.cooldownUntil = Date.now() + COOLDOWN_MS * Math.min(h.failures, 5);
+    this.health.set(baseUrl, h);
+  }
+
+  /** Healthy scans first (preferred one leading), cooling-down scans last */
+  private async ordered(): Promise<ScanEndpoint[]> {
+    const all = await this.endpoints();
+    const rank = (s: ScanEndpoint) => (s.baseUrl === this.preferred ? 0 : this.isCoolingDown(s.baseUrl) ? 2 : 1);
+    return [...all].sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Runs `read` against the preferred scan and fails over to the next SV on
+   * timeouts, network errors, 5xx and 429. Client errors (4xx) are thrown
+   * straight away since another SV would answer the same.
+   */
+  async withFailover<T>(read: (baseUrl: string) => Promise<T>): Promise<T> {
+    const candidates = (await this.ordered()).slice(0, MAX_FAILOVER);
+    let lastError: unknown;
+    for (const scan of candidates) {
+      try {
+        const value = await read(scan.baseUrl);
+        this.markSuccess(scan.baseUrl);
+        return value;
+      } catch (e) {
+        if (isScanApiError(e) && !e.retryable) throw e;
+        this.markFailure(scan.baseUrl, e);
+        lastError = e;
+      }
+    }
+    throw lastError;
+  }
+
+  request<T>(path: string, options: ScanRequestOptions = {}): Promise<T> {
+    // Fewer in-place retries: another SV is usually a better bet than waiting
+    return this.withFailover((base) => scanRequest<T>(base, path, { maxRetries: 1, ...options }));
+  }
+
+  /**
+   * Asks `size` scans the same question and groups the answers by `key`.
+   * The largest group wins; everything else is reported as disagreeing.
+   */
+  async quorum<T>(read: (baseUrl: string) => Promise<T>, options: QuorumOptions<T> = {}): Promise<QuorumResult<T>> {
+    const size = options.size ?? 3;
+    const key = options.key ?? ((v: T) => JSON.stringify(v));
+    const targets = (await this.ordered()).filter((s, i) => i === 0 || !this.isCoolingDown(s.baseUrl)).slice(0, size);
+
+    const settled = await Promise.allSettled(targets.map((s) => read(s.baseUrl)));
+
+    const groups = new Map<string, QuorumResponse<T>[]>();
+    const failed: QuorumResult<T>["failed"] = [];
+    settled.forEach((r, i) => {
+      const scan = targets[i];
+      if (r.status === "rejected") {
+        failed.push({ ...scan, error: r.reason instanceof Error ? r.reason.message : String(r.reason) });
+        return;
+      }
+      const k = key(r.value);
+      const group = groups.get(k) ?? [];
+      group.push({ ...scan, value: r.value });
+      groups.set(k, group);
+    });
+
+    const ranked = Array.from(groups.values()).sort((a, b) => b.length - a.length);
+    const agreeing = ranked[0] ?? [];
+    const disagreeing = ranked.slice(1).flat();
+
+    return {
+      value: agreeing[0]?.value ?? null,
+      agreeing,
+      disagreeing,
+      failed,
+      consistent: agreeing.length >= 2 && disagreeing.length === 0,
+    };
+  }
+
+  /** Health snapshot for diagnostics */
+  status(): Array<ScanEndpoint & { preferred: boolean; failures: number; lastError?: string; coolingDown: boolean }> {
+    return this.merged().map((s) => ({
+      ...s,
+      preferred: s.baseUrl === this.preferred,
+      failures: this.health.get(s.baseUrl)?.failures ?? 0,
+      lastError: this.health.get(s.baseUrl)?.lastError,
+      coolingDown: this.isCoolingDown(s.baseUrl),
+    }));
+  }
+}
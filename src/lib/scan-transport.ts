@@ -0,0 +1,257 @@
+// Scan API transport
+// ------------------------------------------------------------------
+// Every scanApi call goes through `scanRequest`, which adds:
+//   - a per-attempt timeout
+//   - exponential backoff with jitter on 5xx, 429, timeouts and network errors
+//     (Retry-After is honoured when the server sends it)
+//   - a concurrency cap per endpoint, so one page firing dozens of
+//     round-totals requests cannot starve the rest of the app
+//   - a typed ScanApiError carrying status, endpoint and request body; a 2xx
+//     body that is not JSON fails as a "decode" error without retrying
+
+export interface ScanTransportConfig {
+  /** Per-attempt timeout in ms */
+  timeoutMs: number;
+  /** Retries after the first attempt */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Concurrent requests allowed per endpoint unless overridden below */
+  defaultConcurrency: number;
+  concurrencyByEndpoint: Record<string, number>;
+}
+
+const config: ScanTransportConfig = {
+  timeoutMs: 20000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  defaultConcurrency: 4,
+  concurrencyByEndpoint: {
+    "/v0/round-totals": 2,
+    "/v0/round-party-totals": 2,
+    "/v0/state/acs": 2,
+    "/v2/updates": 2,
+  },
+};
+
+export function configureScanTransport(overrides: Partial<ScanTransportConfig>): void {
+  Object.assign(config, overrides);
+}
+
+/** "decode": a successful response whose body is not JSON */
+export type ScanErrorKind = "http" | "timeout" | "network" | "decode";
+
+export class ScanApiError extends Error {
+  readonly kind: ScanErrorKind;
+  /** HTTP status, or null when no response was received */
+  readonly status: number | null;
+  readonly method: string;
+  readonly endpoint: string;
+  readonly url: string;
+  readonly requestBody?: unknown;
+  /** Response body text (truncated), when the server sent one */
+  readonly responseBody?: string;
+  readonly attempts: number;
+
+  constructor(
+    message: string,
+    details: {
+      kind: ScanErrorKind;
+      status: number | null;
+      method: string;
+      endpoint: string;
+      url: string;
+      requestBody?: unknown;
+      responseBody?: string;
+      attempts: number;
+    },
+  ) {
+    const where = details.kind === "decode" ? "invalid JSON" : details.status !== null ? `HTTP ${details.status}` : details.kind;
+    super(`${message} (${where} on ${details.method} ${details.endpoint})`);
+    this.name = "ScanApiError";
+    this.kind = details.kind;
+    this.status = details.status;
+    this.method = details.method;
+    this.endpoint = details.endpoint;
+    this.url = details.url;
+    this.requestBody = details.requestBody;
+    this.responseBody = details.responseBody;
+    this.attempts = details.attempts;
+  }
+
+  get retryable(): boolean {
+    if (this.kind === "timeout" || this.kind === "network") return true;
+    return this.kind === "http" && (this.status === 429 || (this.status !== null && this.status >= 500));
+  }
+}
+
+export function isScanApiError(error: unknown): error is ScanApiError {
+  return error instanceof ScanApiError;
+}
+
+/** Short human readable reason, for pages that want to show why a request failed */
+export function describeScanError(error: unknown): string {
+  if (isScanApiError(error)) {
+    if (error.kind === "timeout") return `The Scan API did not respond in time (${error.endpoint}).`;
+    if (error.kind === "network") return `The Scan API could not be reached (${error.endpoint}).`;
+    if (error.kind === "decode") return `The Scan API sent a response that is not valid JSON (${error.endpoint}).`;
+    const detail = error.responseBody ? `: ${error.responseBody.slice(0, 200)}` : "";
+    return `The Scan API returned HTTP ${error.status} for ${error.endpoint}${detail}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/* =========================
+ *   Per-endpoint limiter
+ * ========================= */
+
+const active = new Map<string, number>();
+const waiting = new Map<string, Array<() => void>>();
+
+function limitFor(endpoint: string): number {
+  return config.concurrencyByEndpoint[endpoint] ?? config.defaultConcurrency;
+}
+
+async function acquire(endpoint: string): Promise<void> {
+  const running = active.get(endpoint) ?? 0;
+  if (running < limitFor(endpoint)) {
+    active.set(endpoint, running + 1);
+    return;
+  }
+  await new Promise<void>((resolve) => {
+    const queue = waiting.get(endpoint) ?? [];
+    queue.push(resolve);
+    waiting.set(endpoint, queue);
+  });
+}
+
+function release(endpoint: string): void {
+  const next = waiting.get(endpoint)?.shift();
+  // Hand the slot straight to the next waiter; the active count stays the same
+  if (next) next();
+  else active.set(endpoint, Math.max(0, (active.get(endpoint) ?? 1) - 1));
+}
+
+/* =========================
+ *        Requests
+ * ========================= */
+
+export interface ScanRequestOptions {
+  method?: "GET" | "POST";
+  /** JSON body for POST requests */
+  body?: unknown;
+  /** Name used for concurrency limits and errors; defaults to the path without query */
+  endpoint?: string;
+  /** Message prefix of the thrown ScanApiError, e.g. "Failed to fetch round totals" */
+  errorMessage?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.min(seconds * 1000, config.maxDelayMs);
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.min(Math.max(0, date - Date.now()), config.maxDelayMs);
+  }
+  const exp = Math.min(config.baseDelayMs * 2 ** attempt, config.maxDelayMs);
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+async function readBody(res: Response): Promise<string | undefined> {
+  try {
+    const text = await res.text();
+    return text ? text.slice(0, 2000) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Performs a request against `baseUrl + path` and returns the parsed JSON.
+ * Throws ScanApiError once retries are exhausted or on a non-retryable status.
+ */
+export async function scanRequest<T>(baseUrl: string, path: string, options: ScanRequestOptions = {}): Promise<T> {
+  const method = options.method ?? (options.body !== undefined ? "POST" : "GET");
+  const endpoint = options.endpoint ?? path.split("?")[0];
+  const url = `${baseUrl}${path}`;
+  const timeoutMs = options.timeoutMs ?? config.timeoutMs;
+  const maxRetries = options.maxRetries ?? config.maxRetries;
+  const message = options.errorMessage ?? "Scan API request failed";
+
+  const init: RequestInit = { method, mode: "cors" };
+  if (options.body !== undefined) {
+    init.headers = { "Content-Type": "application/json" };
+    init.body = JSON.stringify(options.body);
+  }
+
+  let attempt = 0;
+  for (;;) {
+    attempt++;
+    let error: ScanApiError;
+    let retryAfter: string | null = null;
+
+    await acquire(endpoint);
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort);
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await fetch(url, { ...init, signal: controller.signal });
+      if (res.ok) {
+        const text = await res.text();
+        try {
+          return JSON.parse(text) as T;
+        } catch {
+          // The same request would get the same body back: don't retry
+          error = new ScanApiError(message, {
+            kind: "decode",
+            status: res.status,
+            method,
+            endpoint,
+            url,
+            requestBody: options.body,
+            responseBody: text.slice(0, 2000),
+            attempts: attempt,
+          });
+        }
+      } else {
+        retryAfter = res.headers.get("Retry-After");
+        error = new ScanApiError(message, {
+          kind: "http",
+          status: res.status,
+          method,
+          endpoint,
+          url,
+          requestBody: options.body,
+          responseBody: await readBody(res),
+          attempts: attempt,
+        });
+      }
+    } catch (e) {
+      // Caller cancelled (e.g. react-query unmount): don't retry
+      if (options.signal?.aborted) throw e;
+      error = new ScanApiError(message, {
+        kind: controller.signal.aborted ? "timeout" : "network",
+        status: null,
+        method,
+        endpoint,
+        url,
+        requestBody: options.body,
+        attempts: attempt,
+      });
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      release(endpoint);
+    }
+
+    if (!error.retryable || attempt > maxRetries) throw error;
+    await sleep(backoffDelay(attempt - 1, retryAfter));
+  }
+}
@@ -0,0 +1,105 @@
+// Universal search
+// ------------------------------------------------------------------
+// Classifies a free-text query into the kinds of things it could name and
+// ranks the typed results the resolvers in use-universal-search return. Each
+// result carries the route the command palette navigates to.
+
+export type SearchResultKind = "party" | "update" | "contract" | "template" | "ans" | "round";
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  /** The matched identifier (party id, update id, contract id, ...) */
+  id: string;
+  label: string;
+  detail?: string;
+  href: string;
+  /** Higher is better, see scoreMatch */
+  score: number;
+}
+
+export interface QueryClassification {
+  query: string;
+  /** Full party id (`hint::fingerprint`) */
+  partyId: boolean;
+  /** Hex-looking prefix of an update or contract id */
+  hexId: boolean;
+  round: number | null;
+  /** Can be a template name (`Module:Entity` or a bare entity name) */
+  template: boolean;
+  /** Can be an ANS name or a party hint */
+  name: boolean;
+}
+
+/** Shortest hex prefix that is worth a database lookup */
+export const MIN_HEX_PREFIX = 8;
+
+// Ties between kinds go to the more specific identifier
+const KIND_WEIGHT: Record<SearchResultKind, number> = {
+  update: 5,
+  contract: 5,
+  party: 4,
+  ans: 3,
+  round: 2,
+  template: 1,
+};
+
+export const SEARCH_KIND_LABELS: Record<SearchResultKind, string> = {
+  party: "Parties",
+  ans: "ANS names",
+  update: "Updates",
+  contract: "Contracts",
+  template: "Templates",
+  round: "Rounds",
+};
+
+export function classifyQuery(raw: string): QueryClassification {
+  const query = raw.trim().replace(/^#/, "");
+  const round = /^\d+$/.test(query) && query.length <= 9 ? Number(query) : null;
+  return {
+    query,
+    partyId: /^[^:\s]+::[0-9a-f]+$/i.test(query),
+    hexId: query.length >= MIN_HEX_PREFIX && /^[0-9a-f:]+$/i.test(query),
+    round,
+    template: /^[A-Za-z][\w.]*(:[A-Za-z][\w.]*)*$/.test(query) && query.length >= 3,
+    name: /^[\w.-]+$/.test(query) && round === null,
+  };
+}
+
+/** 100 for an exact match, 60 for a prefix, 30 for a substring, 0 otherwise */
+export function scoreMatch(candidate: string, query: string): number {
+  const c = candidate.toLowerCase();
+  const q = query.toLowerCase();
+  if (c === q) return 100;
+  if (c.startsWith(q)) return 60;
+  if (c.includes(q)) return 30;
+  return 0;
+}
+
+/** Drops duplicates (same kind and id, best score wins) and sorts best first */
+export function rankResults(results: SearchResult[], limit = 20): SearchResult[] {
+  const best = new Map<string, SearchResult>();
+  for (const r of results) {
+    if (r.score <= 0) continue;
+    const key = `${r.kind}:${r.id}`;
+    const existing = best.get(key);
+    if (!existing || r.score > existing.score) best.set(key, r);
+  }
+  return Array.from(best.values())
+    .sort(
+      (a, b) =>
+        b.score - a.score || KIND_WEIGHT[b.kind] - KIND_WEIGHT[a.kind] || a.label.localeCompare(b.label),
+    )
+    .slice(0, limit);
+}
+
+// ------------------------------------
+// Routes
+// ------------------------------------
+export const searchRoutes = {
+  party: (partyId: string) => `/party/${encodeURIComponent(partyId)}`,
+  update: (updateId: string) => `/live-updates?update=${encodeURIComponent(updateId)}`,
+  contract: (contractId: string) => `/contract/${encodeURIComponent(contractId)}`,
+  template: (templateId: string) => `/templates?template=${encodeURIComponent(templateId)}`,
+  round: (round: number) => `/round-stats?round=${round}`,
+  validator: (validatorId: string) => `/validators/${encodeURIComponent(validatorId)}`,
+};
@@ -0,0 +1,2 @@
+// Shared with the edge functions, see supabase/functions/_shared/splice-decoders.ts
+export * from "../../supabase/functions/_shared/splice-decoders.ts";
@@ -0,0 +1,229 @@
+// Supply history
+// ------------------------------------------------------------------
+// Builds a supply time series from the chain of completed ACS snapshots.
+// Between two snapshots the total is projected from the last snapshot with
+// the change in Scan's round totals (`total_amulet_balance`); where a round
+// has no balance, minted rewards minus the burn from use-burn-stats is used
+// instead. Every snapshot is also checked against the projection from its
+// predecessor in the same migration and flagged beyond a tolerance.
+
+import { DamlDecimal } from "@/lib/daml-decimal";
+import type { RoundTotals } from "@/lib/api-client";
+
+/** Relative difference between a snapshot and its projection that gets flagged */
+export const SUPPLY_TOLERANCE = 0.01;
+
+export interface SupplySnapshot {
+  id: string;
+  migration_id: number;
+  record_time: string;
+  /** Exact totals (`::text` projections of the numeric columns) */
+  amulet_total: string;
+  locked_total: string;
+}
+
+export interface SupplyHistoryPoint {
+  /** ms since epoch */
+  time: number;
+  migrationId: number;
+  round?: number;
+  /** Snapshot total (amulet + locked), only on snapshot points */
+  snapshot?: number;
+  amulet?: number;
+  locked?: number;
+  /** Projected total from the previous snapshot */
+  projected?: number;
+  projectionSource?: "round-totals" | "mint-burn";
+  snapshotId?: string;
+  flagged?: boolean;
+}
+
+export interface SnapshotCheck {
+  snapshotId: string;
+  recordTime: string;
+  migrationId: number;
+  actual: string;
+  projected: string;
+  /** |actual - projected| / actual */
+  deviation: number;
+  flagged: boolean;
+  source: "round-totals" | "mint-burn";
+}
+
+export interface SupplyHistory {
+  points: SupplyHistoryPoint[];
+  checks: SnapshotCheck[];
+  /** Times where the migration id changes */
+  migrationBoundaries: Array<{ time: number; migrationId: number }>;
+}
+
+export interface SupplyHistoryInput {
+  snapshots: SupplySnapshot[];
+  /** Sampled round totals, any order */
+  rounds: RoundTotals[];
+  /** Burned amount per UTC day (YYYY-MM-DD), from use-burn-stats */
+  burnByDay?: Record<string, number>;
+  tolerance?: number;
+}
+
+interface Anchor {
+  snapshot: SupplySnapshot;
+  time: number;
+  total: DamlDecimal;
+  round: RoundTotals | null;
+}
+
+const time = (iso: string) => new Date(iso).getTime();
+
+export function snapshotTotal(s: SupplySnapshot): DamlDecimal {
+  return (DamlDecimal.tryFrom(s.amulet_total) ?? DamlDecimal.ZERO).add(
+    DamlDecimal.tryFrom(s.locked_total) ?? DamlDecimal.ZERO,
+  );
+}
+
+/** Round whose effective time is closest to `at` */
+export function nearestRound(rounds: RoundTotals[], at: number): RoundTotals | null {
+  let best: RoundTotals | null = null;
+  let bestDistance = Infinity;
+  for (const r of rounds) {
+    const distance = Math.abs(time(r.closed_round_effective_at) - at);
+    if (distance < bestDistance) {
+      best = r;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function cumulativeRewards(r: RoundTotals): DamlDecimal | null {
+  const app = DamlDecimal.tryFrom(r.cumulative_app_rewards);
+  const validator = DamlDecimal.tryFrom(r.cumulative_validator_rewards);
+  return app && validator ? app.add(validator) : null;
+}
+
+function burnBetween(burnByDay: Record<string, number>, from: number, to: number): DamlDecimal | null {
+  const days = Object.keys(burnByDay);
+  if (days.length === 0) return null;
+  let burned = DamlDecimal.ZERO;
+  // Days only partly inside the window count pro rata
+  for (const day of days) {
+    const start = time(`${day}T00:00:00Z`);
+    const end = start + 86_400_000;
+    const covered = Math.max(0, Math.min(end, to) - Math.max(start, from));
+    if (covered > 0) burned = burned.add(DamlDecimal.from(burnByDay[day]).mul(covered / 86_400_000));
+  }
+  return burned;
+}
+
+/**
+ * Total at `round` projected from `anchor`. Prefers the change in
+ * total_amulet_balance and falls back to minted rewards minus burn.
+ */
+export function projectFrom(
+  anchor: Anchor,
+  round: RoundTotals,
+  burnByDay: Record<string, number> = {},
+): { value: DamlDecimal; source: SnapshotCheck["source"] } | null {
+  if (!anchor.round) return null;
+
+  const fromBalance = DamlDecimal.tryFrom(anchor.round.total_amulet_balance);
+  const toBalance = DamlDecimal.tryFrom(round.total_amulet_balance);
+  if (fromBalance && toBalance) {
+    return { value: anchor.total.add(toBalance.sub(fromBalance)), source: "round-totals" };
+  }
+
+  const fromRewards = cumulativeRewards(anchor.round);
+  const toRewards = cumulativeRewards(round);
+  const burned = burnBetween(burnByDay, anchor.time, time(round.closed_round_effective_at));
+  if (fromRewards && toRewards && burned) {
+    return { value: anchor.total.add(toRewards.sub(fromRewards)).sub(burned), source: "mint-burn" };
+  }
+  return null;
+}
+
+function relativeDeviation(actual: DamlDecimal, projected: DamlDecimal): number {
+  if (actual.isZero()) return projected.isZero() ? 0 : Infinity;
+  return projected.sub(actual).abs().div(actual).toNumber();
+}
+
+export function buildSupplyHistory(input: SupplyHistoryInput): SupplyHistory {
+  const tolerance = input.tolerance ?? SUPPLY_TOLERANCE;
+  const burnByDay = input.burnByDay ?? {};
+  const snapshots = [...input.snapshots].sort((a, b) => time(a.record_time) - time(b.record_time));
+  const rounds = [...input.rounds].sort((a, b) => a.closed_round - b.closed_round);
+
+  const points: SupplyHistoryPoint[] = [];
+  const checks: SnapshotCheck[] = [];
+  const migrationBoundaries: SupplyHistory["migrationBoundaries"] = [];
+
+  let anchor: Anchor | null = null;
+  let roundIndex = 0;
+
+  const emitRoundsUntil = (until: number) => {
+    while (roundIndex < rounds.length && time(rounds[roundIndex].closed_round_effective_at) < until) {
+      const r = rounds[roundIndex++];
+      const t = time(r.closed_round_effective_at);
+      if (!anchor || t <= anchor.time) continue;
+      const projection = projectFrom(anchor, r, burnByDay);
+      if (!projection) continue;
+      points.push({
+        time: t,
+        migrationId: anchor.snapshot.migration_id,
+        round: r.closed_round,
+        projected: projection.value.toNumber(),
+        projectionSource: projection.source,
+      });
+    }
+  };
+
+  for (const s of snapshots) {
+    const t = time(s.record_time);
+    emitRoundsUntil(t);
+
+    const total = snapshotTotal(s);
+    const round = nearestRound(rounds, t);
+    const point: SupplyHistoryPoint = {
+      time: t,
+      migrationId: s.migration_id,
+      round: round?.closed_round,
+      snapshot: total.toNumber(),
+      amulet: DamlDecimal.tryFrom(s.amulet_total)?.toNumber(),
+      locked: DamlDecimal.tryFrom(s.locked_total)?.toNumber(),
+      snapshotId: s.id,
+    };
+
+    if (anchor && anchor.snapshot.migration_id !== s.migration_id) {
+      // A new migration starts a new chain; there is nothing to project from
+      migrationBoundaries.push({ time: t, migrationId: s.migration_id });
+      anchor = null;
+    }
+
+    if (anchor && round) {
+      const projection = projectFrom(anchor, round, burnByDay);
+      if (projection) {
+        const deviation = relativeDeviation(total, projection.value);
+        const flagged = deviation > tolerance;
+        point.projected = projection.value.toNumber();
+        point.projectionSource = projection.source;
+        point.flagged = flagged;
+        checks.push({
+          snapshotId: s.id,
+          recordTime: s.record_time,
+          migrationId: s.migration_id,
+          actual: total.toString(),
+          projected: projection.value.toString(),
+          deviation,
+          flagged,
+          source: projection.source,
+        });
+      }
+    }
+
+    points.push(point);
+    anchor = { snapshot: s, time: t, total, round };
+  }
+
+  emitRoundsUntil(Infinity);
+
+  return { points, checks, migrationBoundaries };
+}
@@ -19,7 +19,7 @@ export const templatePageMap: Record<TemplateSuffix, string[]> = {
   // Governance
   'Splice:DsoRules:DsoRules': ['Governance'],
   'Splice:DsoRules:VoteRequest': ['Governance'],
-  'Splice:DSO:AmuletPrice:AmuletPriceVote': ['Governance'],
+  'Splice:DSO:AmuletPrice:AmuletPriceVote': ['Governance', 'Price Oracle'],
   'Splice:DsoRules:Confirmation': ['Governance'],
   'Splice:AmuletRules:AmuletRules': ['Governance'],
 
@@ -56,6 +56,8 @@ export const templatePageMap: Record<TemplateSuffix, string[]> = {
   'Wallet:Subscriptions:Subscription': ['Subscriptions'],
   'Wallet:Subscriptions:SubscriptionIdleState': ['Subscriptions'],
   'Wallet:Subscriptions:SubscriptionRequest': ['Subscriptions'],
+  'Wallet:Subscriptions:SubscriptionInitialPayment': ['Subscriptions'],
+  'Wallet:Subscriptions:SubscriptionPayment': ['Subscriptions'],
 
   // External Party Setup
   'Splice:AmuletRules:ExternalPartySetupProposal': ['External Party Setup'],
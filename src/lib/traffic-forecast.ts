@@ -0,0 +1,198 @@
+// Member traffic forecasting
+// ------------------------------------------------------------------
+// A member's traffic balance is its extra traffic limit minus what it has
+// consumed; Scan reports both, plus the purchased total the limit catches up
+// to once purchases take effect. This module combines that status with the
+// consumption rate measured between samples (member_traffic_burn), or, for
+// members without samples, the traffic they bought in the last 30 days, and
+// with what the member paid per MB in the past, to estimate the daily cost
+// and the day the balance runs out.
+
+import { DamlDecimal } from "@/lib/daml-decimal";
+import type { MemberTraffic } from "@/lib/splice-decoders";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1_000_000;
+const PURCHASE_WINDOW_DAYS = 30;
+
+export type BurnSource = "samples" | "purchases";
+
+export interface TrafficStatusSample {
+  consumed: number;
+  limit: number;
+  purchased: number;
+  at: string;
+}
+
+/** MemberTraffic contracts of one member, summed */
+export interface MemberTrafficTotals {
+  memberId: string;
+  synchronizerId: string;
+  migrationId: number;
+  contracts: number;
+  totalPurchased: number;
+  numPurchases: number;
+  amuletSpent: DamlDecimal;
+  usdSpent: DamlDecimal;
+}
+
+/** traffic_members row: the member's AmuletRules_BuyMemberTraffic history */
+export interface TrafficPurchaseTotals {
+  validator: string | null;
+  purchases: number;
+  trafficBought: number;
+  trafficBought30d: number;
+  /** Traffic bought by purchases that reported amuletPaid */
+  pricedTraffic: number;
+  amuletPaid: DamlDecimal;
+  lastPurchaseAt: string | null;
+}
+
+export interface MemberTrafficInput {
+  memberId: string;
+  synchronizerId: string;
+  contracts?: MemberTrafficTotals;
+  purchases?: TrafficPurchaseTotals;
+  status?: TrafficStatusSample;
+  /** Bytes per day from member_traffic_burn */
+  sampledBurnPerDay?: number | null;
+}
+
+export interface MemberTrafficForecast {
+  memberId: string;
+  synchronizerId: string;
+  validator: string | null;
+  purchased: number;
+  consumed: number | null;
+  remaining: number | null;
+  /** Purchased, but not yet part of the limit */
+  pending: number;
+  burnPerDay: number | null;
+  burnSource: BurnSource | null;
+  /** Historical price paid, in CC per MB */
+  ccPerMb: number | null;
+  costPerDay: number | null;
+  daysLeft: number | null;
+  runsOutAt: Date | null;
+  statusAt: string | null;
+}
+
+export const memberKey = (memberId: string, synchronizerId: string) => `${memberId}|${synchronizerId}`;
+
+/**
+ * Sums MemberTraffic contracts per member. Contracts from older migrations
+ * are left out, since the traffic state starts over with a migration.
+ */
+export function totalMemberTraffic(contracts: MemberTraffic[]): Map<string, MemberTrafficTotals> {
+  const latestMigration = contracts.reduce((max, c) => Math.max(max, c.migrationId), -Infinity);
+  const totals = new Map<string, MemberTrafficTotals>();
+  for (const c of contracts) {
+    if (c.migrationId !== latestMigration) continue;
+    const key = memberKey(c.memberId, c.synchronizerId);
+    const t = totals.get(key) ?? {
+      memberId: c.memberId,
+      synchronizerId: c.synchronizerId,
+      migrationId: c.migrationId,
+      contracts: 0,
+      totalPurchased: 0,
+      numPurchases: 0,
+      amuletSpent: DamlDecimal.ZERO,
+      usdSpent: DamlDecimal.ZERO,
+    };
+    t.contracts += 1;
+    t.totalPurchased += c.totalPurchased;
+    t.numPurchases += c.numPurchases;
+    t.amuletSpent = t.amuletSpent.add(c.amuletSpent);
+    t.usdSpent = t.usdSpent.add(c.usdSpent);
+    totals.set(key, t);
+  }
+  return totals;
+}
+
+/**
+ * CC paid per MB, preferring the priced purchase history over the
+ * MemberTraffic totals, which only cover the current migration.
+ */
+export function ccPerMb(purchases?: TrafficPurchaseTotals, contracts?: MemberTrafficTotals): number | null {
+  if (purchases && purchases.pricedTraffic > 0) {
+    return (purchases.amuletPaid.toNumber() * MB) / purchases.pricedTraffic;
+  }
+  if (contracts && contracts.totalPurchased > 0) {
+    return (contracts.amuletSpent.toNumber() * MB) / contracts.totalPurchased;
+  }
+  return null;
+}
+
+/** When a balance runs out at a steady burn; null if it does not burn */
+export function runOut(remaining: number, burnPerDay: number | null, now = Date.now()) {
+  if (burnPerDay === null || burnPerDay <= 0) return { daysLeft: null, runsOutAt: null };
+  const daysLeft = Math.max(0, remaining) / burnPerDay;
+  return { daysLeft, runsOutAt: new Date(now + daysLeft * DAY_MS) };
+}
+
+export function forecastMemberTraffic(input: MemberTrafficInput, now = Date.now()): MemberTrafficForecast {
+  const { status, purchases, contracts } = input;
+
+  let burnPerDay: number | null = null;
+  let burnSource: BurnSource | null = null;
+  if (input.sampledBurnPerDay !== undefined && input.sampledBurnPerDay !== null) {
+    burnPerDay = Math.max(0, input.sampledBurnPerDay);
+    burnSource = "samples";
+  } else if (purchases && purchases.trafficBought30d > 0) {
+    burnPerDay = purchases.trafficBought30d / PURCHASE_WINDOW_DAYS;
+    burnSource = "purchases";
+  }
+
+  const price = ccPerMb(purchases, contracts);
+  const remaining = status ? status.limit - status.consumed : null;
+  const purchased = status?.purchased ?? contracts?.totalPurchased ?? purchases?.trafficBought ?? 0;
+  const { daysLeft, runsOutAt } = remaining === null ? { daysLeft: null, runsOutAt: null } : runOut(remaining, burnPerDay, now);
+
+  return {
+    memberId: input.memberId,
+    synchronizerId: input.synchronizerId,
+    validator: purchases?.validator ?? null,
+    purchased,
+    consumed: status?.consumed ?? null,
+    remaining,
+    pending: status ? Math.max(0, status.purchased - status.limit) : 0,
+    burnPerDay,
+    burnSource,
+    ccPerMb: price,
+    costPerDay: burnPerDay !== null && price !== null ? (burnPerDay * price) / MB : null,
+    daysLeft,
+    runsOutAt,
+    statusAt: status?.at ?? null,
+  };
+}
+
+/**
+ * One input per member seen in any of the sources, so a status can still be
+ * swapped for a fresher one before forecasting.
+ */
+export function memberTrafficInputs(sources: {
+  contracts: Map<string, MemberTrafficTotals>;
+  purchases: Map<string, TrafficPurchaseTotals>;
+  statuses: Map<string, TrafficStatusSample>;
+  burns: Map<string, number | null>;
+}): MemberTrafficInput[] {
+  const keys = new Set([...sources.contracts.keys(), ...sources.purchases.keys(), ...sources.statuses.keys()]);
+  return [...keys].map((key) => {
+    const [memberId, synchronizerId] = key.split("|");
+    return {
+      memberId,
+      synchronizerId,
+      contracts: sources.contracts.get(key),
+      purchases: sources.purchases.get(key),
+      status: sources.statuses.get(key),
+      sampledBurnPerDay: sources.burns.get(key),
+    };
+  });
+}
+
+/** Members whose balance runs out within `horizonDays`, soonest first */
+export function topUpCandidates(forecasts: MemberTrafficForecast[], horizonDays: number): MemberTrafficForecast[] {
+  return forecasts
+    .filter((f) => f.daysLeft !== null && f.daysLeft <= horizonDays)
+    .sort((a, b) => a.daysLeft! - b.daysLeft!);
+}
@@ -0,0 +1,160 @@
+// Unlock schedule
+// ------------------------------------------------------------------
+// When the CC in LockedAmulet contracts can become circulating. A lock ends
+// at `lock.expiresAt`, after which the owner can unlock the amulet without
+// the lock holders; until then only the holders can release it early. The
+// schedule buckets locked amounts by the UTC week (Monday start) their lock
+// expires in, by lock holder and by holder kind, so supply forecasts can read off how much
+// locked CC frees up each week.
+
+import { DamlDecimal } from "@/lib/daml-decimal";
+import type { ExpiringAmount, LockedAmulet } from "@/lib/splice-decoders";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface UnlockWeek {
+  /** Monday 00:00 UTC the week starts at, ISO */
+  week: string;
+  amount: DamlDecimal;
+  locks: number;
+  /** Expired locks plus every week up to and including this one */
+  cumulative: DamlDecimal;
+}
+
+export interface LockHolderUnlocks {
+  holder: string;
+  amount: DamlDecimal;
+  locks: number;
+  /** Amount whose lock has already expired */
+  expired: DamlDecimal;
+  /** Earliest and latest expiry still ahead, ISO */
+  nextExpiry: string | null;
+  lastExpiry: string | null;
+}
+
+export interface LockKindUnlocks<K extends string> {
+  kind: K;
+  amount: DamlDecimal;
+  locks: number;
+}
+
+export interface UnlockSchedule<K extends string = string> {
+  total: DamlDecimal;
+  locks: number;
+  /** Locks past their expiry that nobody has unlocked yet */
+  expired: { amount: DamlDecimal; locks: number };
+  /** Every week from the current one to the horizon, empty weeks included */
+  weeks: UnlockWeek[];
+  /** Locks expiring after the horizon */
+  later: { amount: DamlDecimal; locks: number };
+  /** Largest amount first. A lock with several holders counts toward each. */
+  holders: LockHolderUnlocks[];
+  /**
+   * Largest amount first. A lock counts once toward each kind among its
+   * holders, so two holders of one kind don't count it twice.
+   */
+  kinds: LockKindUnlocks<K>[];
+}
+
+/** Start of the UTC week (Monday) `time` falls in */
+export function weekStart(time: Date): Date {
+  const day = Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate());
+  const weekday = (new Date(day).getUTCDay() + 6) % 7;
+  return new Date(day - weekday * DAY_MS);
+}
+
+/**
+ * The unlock schedule of `locked` as of `now`, over `horizonWeeks` weeks.
+ * `amountOf` values each amulet, e.g. nominal or after holding fees;
+ * `kindOf` groups lock holders, e.g. by known entity kind.
+ */
+export function unlockSchedule<K extends string = string>(
+  locked: LockedAmulet[],
+  now: Date,
+  horizonWeeks: number,
+  amountOf: (amount: ExpiringAmount) => DamlDecimal = (amount) => amount.initialAmount,
+  kindOf?: (holder: string) => K,
+): UnlockSchedule<K> {
+  const firstWeek = weekStart(now).getTime();
+  const weeks: UnlockWeek[] = Array.from({ length: horizonWeeks }, (_, i) => ({
+    week: new Date(firstWeek + i * WEEK_MS).toISOString(),
+    amount: DamlDecimal.ZERO,
+    locks: 0,
+    cumulative: DamlDecimal.ZERO,
+  }));
+  const expired = { amount: DamlDecimal.ZERO, locks: 0 };
+  const later = { amount: DamlDecimal.ZERO, locks: 0 };
+  const holders = new Map<string, LockHolderUnlocks>();
+  const kinds = new Map<K, LockKindUnlocks<K>>();
+  let total = DamlDecimal.ZERO;
+
+  for (const l of locked) {
+    const amount = amountOf(l.amulet.amount);
+    const expiresAt = new Date(l.lock.expiresAt).getTime();
+    const isExpired = expiresAt <= now.getTime();
+    total = total.add(amount);
+
+    if (isExpired) {
+      expired.amount = expired.amount.add(amount);
+      expired.locks += 1;
+    } else {
+      const index = Math.floor((expiresAt - firstWeek) / WEEK_MS);
+      const bucket = index < horizonWeeks ? weeks[index] : later;
+      bucket.amount = bucket.amount.add(amount);
+      bucket.locks += 1;
+    }
+
+    for (const holder of new Set(l.lock.holders)) {
+      let h = holders.get(holder);
+      if (!h) {
+        h = { holder, amount: DamlDecimal.ZERO, locks: 0, expired: DamlDecimal.ZERO, nextExpiry: null, lastExpiry: null };
+        holders.set(holder, h);
+      }
+      h.amount = h.amount.add(amount);
+      h.locks += 1;
+      if (isExpired) {
+        h.expired = h.expired.add(amount);
+      } else {
+        if (h.nextExpiry === null || l.lock.expiresAt < h.nextExpiry) h.nextExpiry = l.lock.expiresAt;
+        if (h.lastExpiry === null || l.lock.expiresAt > h.lastExpiry) h.lastExpiry = l.lock.expiresAt;
+      }
+    }
+
+    if (kindOf) {
+      for (const kind of new Set(l.lock.holders.map(kindOf))) {
+        const k = kinds.get(kind) ?? { kind, amount: DamlDecimal.ZERO, locks: 0 };
+        k.amount = k.amount.add(amount);
+        k.locks += 1;
+        kinds.set(kind, k);
+      }
+    }
+  }
+
+  let cumulative = expired.amount;
+  for (const w of weeks) {
+    cumulative = cumulative.add(w.amount);
+    w.cumulative = cumulative;
+  }
+
+  return {
+    total,
+    locks: locked.length,
+    expired,
+    weeks,
+    later,
+    holders: Array.from(holders.values()).sort((a, b) => b.amount.cmp(a.amount) || a.holder.localeCompare(b.holder)),
+    kinds: Array.from(kinds.values()).sort((a, b) => b.amount.cmp(a.amount) || a.kind.localeCompare(b.kind)),
+  };
+}
+
+/** The schedule's weeks as CSV, amounts exact */
+export function unlockScheduleCsv(schedule: UnlockSchedule): string {
+  const rows = [
+    ["week", "amount", "locks", "cumulative"].join(","),
+    ["expired", schedule.expired.amount.toString(), schedule.expired.locks, schedule.expired.amount.toString()].join(","),
+    ...schedule.weeks.map((w) => [w.week.slice(0, 10), w.amount.toString(), w.locks, w.cumulative.toString()].join(",")),
+    ["later", schedule.later.amount.toString(), schedule.later.locks, schedule.total.toString()].join(","),
+  ];
+  return rows.join("\n");
+}
@@ -1,18 +1,188 @@
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Search, Globe } from "lucide-react";
-import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Search, Globe, RefreshCw, CalendarClock, History } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
 import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
 import { DataSourcesFooter } from "@/components/DataSourcesFooter";
 import { PaginationControls } from "@/components/PaginationControls";
+import { PartyName } from "@/components/PartyName";
+import { expiryCalendar, type AnsHistoryKind } from "@/lib/ans-registry";
+import {
+  useAnsNameHistory,
+  useAnsRegistryCursors,
+  useExpiringAnsNames,
+  useSyncAnsRegistry,
+} from "@/hooks/use-ans-registry";
+
+const HORIZONS = [7, 30, 90];
+
+const KIND_LABELS: Record<AnsHistoryKind, string> = {
+  registered: "Registered",
+  renewed: "Renewed",
+  expired: "Expired",
+  released: "Released",
+  "re-registered": "Re-registered",
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : "—");
+
+const partyLink = (party: string) => `/party/${encodeURIComponent(party)}`;
+
+const NameHistory = ({ name }: { name: string }) => {
+  const history = useAnsNameHistory(name);
+  const events = history.data?.events || [];
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <h3 className="text-xl font-bold flex items-center gap-2">
+        <History className="h-5 w-5 text-primary" />
+        {name}
+      </h3>
+      {history.error && (
+        <Alert variant="destructive">
+          <AlertDescription>Failed to load the name's history: {(history.error as Error).message}</AlertDescription>
+        </Alert>
+      )}
+      {history.isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No entries synced for this name</p>
+      ) : (
+        <ol className="space-y-3">
+          {[...events].reverse().map((e) => (
+            <li key={`${e.kind}-${e.contractId}`} className="rounded-lg border border-border/50 p-4 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={e.kind === "expired" || e.kind === "released" ? "destructive" : "outline"}>
+                  {KIND_LABELS[e.kind]}
+                </Badge>
+                <span className="text-sm">{new Date(e.at).toLocaleString()}</span>
+                {e.paid && <span className="text-xs text-muted-foreground">paid by subscription</span>}
+                {e.pending && <span className="text-xs text-muted-foreground">not archived yet</span>}
+              </div>
+              {e.owner && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Owner:</span>{" "}
+                  <Link to={partyLink(e.owner)} className="font-mono text-xs hover:text-primary break-all">
+                    {e.owner}
+                  </Link>
+                </p>
+              )}
+              {(e.kind === "registered" || e.kind === "renewed" || e.kind === "re-registered") && (
+                <p className="text-xs text-muted-foreground">Valid until {formatDate(e.expiresAt)}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  );
+};
+
+const ExpiryCalendar = () => {
+  const [days, setDays] = useState(30);
+  const expiring = useExpiringAnsNames(days);
+  const calendar = useMemo(() => expiryCalendar(expiring.data || [], days), [expiring.data, days]);
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          Expiring Names
+        </h3>
+        <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HORIZONS.map((d) => (
+              <SelectItem key={d} value={String(d)}>
+                Next {d} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {expiring.error && (
+        <Alert variant="destructive">
+          <AlertDescription>Failed to load expiring names: {(expiring.error as Error).message}</AlertDescription>
+        </Alert>
+      )}
+      {expiring.isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : calendar.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No names expire in the next {days} days</p>
+      ) : (
+        <div className="space-y-4">
+          {calendar.map(({ day, names }) => (
+            <div key={day}>
+              <h4 className="text-sm font-semibold mb-2">
+                {new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { dateStyle: "full", timeZone: "UTC" })}
+                <span className="ml-2 text-muted-foreground font-normal">{names.length}</span>
+              </h4>
+              <div className="space-y-1">
+                {names.map((n) => (
+                  <div key={n.name} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <Link to={`/ans?tab=history&name=${encodeURIComponent(n.name)}`} className="text-primary hover:underline">
+                      {n.name}
+                    </Link>
+                    {n.owner && (
+                      <Link to={partyLink(n.owner)} className="font-mono text-xs text-muted-foreground hover:text-primary">
+                        <PartyName party={n.owner} />
+                      </Link>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Names whose current entry expires in the window. A name renewed through its subscription gets a new entry
+        with a later expiry and leaves the calendar.
+      </p>
+    </Card>
+  );
+};
 
 const ANS = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const pageSize = 20;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = searchParams.get("tab") || "names";
+  const historyName = searchParams.get("name") || "";
+  const [historyQuery, setHistoryQuery] = useState(historyName);
+
+  const cursors = useAnsRegistryCursors();
+  const sync = useSyncAnsRegistry();
+  const lastSync = (cursors.data || []).reduce<string | null>(
+    (latest, c) => (!latest || c.updated_at > latest ? c.updated_at : latest),
+    null,
+  );
+
+  const showHistory = (name: string) => {
+    setHistoryQuery(name);
+    setSearchParams({ tab: "history", name });
+  };
   
   const { data: snapshot } = useLatestACSSnapshot();
   
@@ -50,44 +220,91 @@ const ANS = () => {
   return (
     <DashboardLayout>
       <div className="space-y-6">
-        <div>
-          <h2 className="text-3xl font-bold mb-2 flex items-center gap-2">
-            <Globe className="h-8 w-8 text-primary" />
-            Amulet Name Service (ANS)
-          </h2>
-          <p className="text-muted-foreground">Human-readable names for Canton Network parties</p>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold mb-2 flex items-center gap-2">
+              <Globe className="h-8 w-8 text-primary" />
+              Amulet Name Service (ANS)
+            </h2>
+            <p className="text-muted-foreground">Human-readable names for Canton Network parties</p>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Button variant="outline" onClick={() => sync.mutate({})} disabled={sync.isPending}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${sync.isPending ? "animate-spin" : ""}`} />
+              Sync registry
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              {lastSync ? `Last synced ${new Date(lastSync).toLocaleString()}` : "Never synced"}
+            </p>
+          </div>
         </div>
 
-        <Card className="glass-card p-6">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input placeholder="Search ANS entries..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-10" />
-          </div>
-        </Card>
-
-        {isLoading && <div className="space-y-4">{[1,2,3,4,5].map(i => <Card key={i} className="p-6"><Skeleton className="h-6 w-32 mb-2" /><Skeleton className="h-4 w-full" /></Card>)}</div>}
-        {!isLoading && filteredEntries.length === 0 && searchQuery && <Card className="p-6"><p className="text-muted-foreground text-center">No ANS entries found</p></Card>}
-        {!isLoading && filteredEntries.length > 0 && (
-          <>
-            <div className="space-y-4">
-              {paginatedEntries.map((entry: any, i: number) => (
-                <Card key={i} className="p-6">
-                  <h3 className="text-xl font-semibold text-primary mb-2">{entry.name}</h3>
-                  {entry.expiresAt && <p className="text-sm text-muted-foreground">Expires: {new Date(entry.expiresAt).toLocaleDateString()}</p>}
-                  <p className="text-sm"><span className="text-muted-foreground">User:</span> <span className="font-mono text-xs">{entry.user}</span></p>
-                  {entry.url && <p className="text-sm"><span className="text-muted-foreground">URL:</span> <a href={entry.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">{entry.url}</a></p>}
-                  {entry.description && <p className="text-sm text-muted-foreground">{entry.description}</p>}
-                </Card>
-              ))}
-            </div>
-            <PaginationControls
-              currentPage={currentPage}
-              totalItems={filteredEntries.length}
-              pageSize={pageSize}
-              onPageChange={setCurrentPage}
-            />
-          </>
-        )}
+        <Tabs value={tab} onValueChange={(value) => setSearchParams(value === "history" && historyName ? { tab: value, name: historyName } : { tab: value })}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="names">Names</TabsTrigger>
+            <TabsTrigger value="expiring">Expiry Calendar</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="names" className="space-y-6 mt-4">
+            <Card className="glass-card p-6">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input placeholder="Search ANS entries..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-10" />
+              </div>
+            </Card>
+
+            {isLoading && <div className="space-y-4">{[1,2,3,4,5].map(i => <Card key={i} className="p-6"><Skeleton className="h-6 w-32 mb-2" /><Skeleton className="h-4 w-full" /></Card>)}</div>}
+            {!isLoading && filteredEntries.length === 0 && searchQuery && <Card className="p-6"><p className="text-muted-foreground text-center">No ANS entries found</p></Card>}
+            {!isLoading && filteredEntries.length > 0 && (
+              <>
+                <div className="space-y-4">
+                  {paginatedEntries.map((entry: any, i: number) => (
+                    <Card key={i} className="p-6">
+                      <button type="button" onClick={() => showHistory(entry.name)} className="text-xl font-semibold text-primary mb-2 hover:underline">
+                        {entry.name}
+                      </button>
+                      {entry.expiresAt && <p className="text-sm text-muted-foreground">Expires: {new Date(entry.expiresAt).toLocaleDateString()}</p>}
+                      <p className="text-sm"><span className="text-muted-foreground">User:</span> <span className="font-mono text-xs">{entry.user}</span></p>
+                      {entry.url && <p className="text-sm"><span className="text-muted-foreground">URL:</span> <a href={entry.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">{entry.url}</a></p>}
+                      {entry.description && <p className="text-sm text-muted-foreground">{entry.description}</p>}
+                    </Card>
+                  ))}
+                </div>
+                <PaginationControls
+                  currentPage={currentPage}
+                  totalItems={filteredEntries.length}
+                  pageSize={pageSize}
+                  onPageChange={setCurrentPage}
+                />
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="expiring" className="mt-4">
+            <ExpiryCalendar />
+          </TabsContent>
+
+          <TabsContent value="history" className="space-y-6 mt-4">
+            <Card className="glass-card p-6">
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (historyQuery.trim()) showHistory(historyQuery.trim());
+                }}
+              >
+                <Input placeholder="Name, e.g. example.unverified.cns" value={historyQuery} onChange={(e) => setHistoryQuery(e.target.value)} />
+                <Button type="submit" variant="outline">Show history</Button>
+              </form>
+            </Card>
+            {historyName ? (
+              <NameHistory name={historyName} />
+            ) : (
+              <p className="text-center text-muted-foreground py-8">Pick a name to see its registrations, renewals and expiries</p>
+            )}
+          </TabsContent>
+        </Tabs>
 
         <DataSourcesFooter
           snapshotId={snapshot?.id}
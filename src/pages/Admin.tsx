@@ -10,6 +10,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { CipOnchainComparison } from "@/components/CipOnchainComparison";
+import { PartyLabelsAdmin } from "@/components/PartyLabelsAdmin";
+import { useGovernanceProposals } from "@/hooks/use-governance-history";
 
 interface SVVote {
   organization: string;
@@ -37,6 +40,7 @@ interface FeaturedAppCommitteeVote {
 
 const Admin = () => {
   const { toast } = useToast();
+  const { data: governanceProposals } = useGovernanceProposals();
   
   // CIP-related state
   const [cipNumber, setCipNumber] = useState("");
@@ -63,6 +67,7 @@ const Admin = () => {
   // Featured App-related state
   const [featuredAppName, setFeaturedAppName] = useState("");
   const [featuredAppDescription, setFeaturedAppDescription] = useState("");
+  const [featuredAppProvider, setFeaturedAppProvider] = useState("");
   const [currentFeaturedAppId, setCurrentFeaturedAppId] = useState<string | null>(null);
   
   const [featuredAppCommitteeVotes, setFeaturedAppCommitteeVotes] = useState<FeaturedAppCommitteeVote[]>([
@@ -296,6 +301,7 @@ const Admin = () => {
         .insert({
           app_name: featuredAppName,
           description: featuredAppDescription,
+          provider: featuredAppProvider.trim() || null,
           vote_count: 0,
         })
         .select()
@@ -498,6 +504,7 @@ const Admin = () => {
   const handleNewFeaturedApp = () => {
     setFeaturedAppName("");
     setFeaturedAppDescription("");
+    setFeaturedAppProvider("");
     setCurrentFeaturedAppId(null);
     setFeaturedAppCommitteeVotes([{ member: "", email: "", contact: "", weight: 1, vote: "" }]);
     
@@ -513,11 +520,12 @@ const Admin = () => {
         <h1 className="text-3xl font-bold mb-6">Admin</h1>
 
         <Tabs defaultValue="cip-votes" className="w-full">
-          <TabsList className="grid w-full max-w-4xl grid-cols-4 gap-1">
+          <TabsList className="grid w-full max-w-5xl grid-cols-5 gap-1">
             <TabsTrigger value="cip-votes">CIP Votes</TabsTrigger>
             <TabsTrigger value="featured-apps">Featured App Votes</TabsTrigger>
             <TabsTrigger value="cip-history">CIP Vote History</TabsTrigger>
             <TabsTrigger value="app-history">App Vote History</TabsTrigger>
+            <TabsTrigger value="party-labels">Party Labels</TabsTrigger>
           </TabsList>
 
           {/* CIP Votes Tab */}
@@ -946,6 +954,15 @@ const Admin = () => {
                       placeholder="Brief description of the app"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="featuredAppProvider">Provider Party</Label>
+                    <Input
+                      id="featuredAppProvider"
+                      value={featuredAppProvider}
+                      onChange={(e) => setFeaturedAppProvider(e.target.value)}
+                      placeholder="Party ID of the app provider, e.g. name::1220..."
+                    />
+                  </div>
                 </div>
                 <Button onClick={handleSaveFeaturedApp} disabled={!!currentFeaturedAppId}>
                   {currentFeaturedAppId ? "App Saved" : "Save Featured App"}
@@ -1220,6 +1237,16 @@ const Admin = () => {
                           <p className="text-sm text-muted-foreground italic">No SV votes recorded</p>
                         )}
                       </div>
+
+                      {/* On-chain Vote Section */}
+                      <div className="mt-6 pt-6 border-t border-border/50">
+                        <CipOnchainComparison
+                          cip={cip}
+                          svVotes={cip.svVotes}
+                          proposals={governanceProposals ?? []}
+                          onChanged={fetchCipHistory}
+                        />
+                      </div>
                     </CardContent>
                   </Card>
                 );
@@ -1315,6 +1342,12 @@ const Admin = () => {
               })
             )}
           </TabsContent>
+
+          {/* Party Labels Tab */}
+          <TabsContent value="party-labels" className="space-y-6">
+            <h2 className="text-2xl font-semibold">Party Labels</h2>
+            <PartyLabelsAdmin />
+          </TabsContent>
         </Tabs>
       </main>
     </DashboardLayout>
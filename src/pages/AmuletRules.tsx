@@ -12,6 +12,8 @@ import { ChevronDown, ChevronRight } from "lucide-react";
 import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
 import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
 import { DataSourcesFooter } from "@/components/DataSourcesFooter";
+import { AmuletConfigTimeline } from "@/components/AmuletConfigTimeline";
+import { Link, useSearchParams } from "react-router-dom";
 
 interface NormalizedTransferStep {
   amount?: string;
@@ -275,6 +277,8 @@ const truncateIdentifier = (value?: string) =>
   value && value.length > 24 ? `${value.slice(0, 18)}…${value.slice(-6)}` : value || "—";
 
 const AmuletRules = () => {
+  const [searchParams] = useSearchParams();
+  const roundParam = searchParams.get("round");
   const { data: latestSnapshot, isLoading: snapshotLoading } = useLatestACSSnapshot();
   const amuletRulesQuery = useAggregatedTemplateData(
     latestSnapshot?.id,
@@ -461,8 +465,11 @@ const AmuletRules = () => {
             </Card>
 
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle>Issuance Curve</CardTitle>
+                <Link to="/issuance" className="text-sm text-primary hover:underline">
+                  Simulate
+                </Link>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
@@ -655,6 +662,8 @@ const AmuletRules = () => {
           </>
         )}
 
+        <AmuletConfigTimeline initialRound={roundParam && /^\d+$/.test(roundParam) ? Number(roundParam) : null} />
+
         <DataSourcesFooter
           snapshotId={latestSnapshot?.id}
           templateSuffixes={["Splice:AmuletRules:AmuletRules"]}
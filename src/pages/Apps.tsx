@@ -1,3 +1,4 @@
+import { Link } from "react-router-dom";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Badge } from "@/components/ui/badge";
 import { Package, Star, Coins, Calendar, Activity } from "lucide-react";
@@ -246,9 +247,17 @@ const groupActivitiesByBeneficiary = (activities: any[]) => {
                             </div>
                           </TableCell>
                           <TableCell>
-                            <span className="font-mono text-xs text-muted-foreground truncate max-w-[200px] block" title={provider}>
-                              {providerShort || 'Unknown'}
-                            </span>
+                            {provider ? (
+                              <Link
+                                to={`/app-analytics?provider=${encodeURIComponent(provider)}`}
+                                className="font-mono text-xs text-muted-foreground hover:text-primary truncate max-w-[200px] block"
+                                title={provider}
+                              >
+                                {providerShort}
+                              </Link>
+                            ) : (
+                              <span className="font-mono text-xs text-muted-foreground">Unknown</span>
+                            )}
                           </TableCell>
                           <TableCell className="text-right">
                             {totalRewards > 0 ? (
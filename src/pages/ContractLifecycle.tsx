@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { PlusCircle, Play, XCircle, ArrowRight, ArrowLeft, ChevronDown, Search, GitBranch } from "lucide-react";
+import { describeScanError } from "@/lib/scan-transport";
+import { searchRoutes } from "@/lib/search-index";
+import type { LifecycleStatus, LifecycleStep } from "@/lib/contract-lifecycle";
+import { useContractLifecycle } from "@/hooks/use-contract-lifecycle";
+
+const shortTemplate = (templateId: string | null) => (templateId ? templateId.split(":").slice(-2).join(":") : "Unknown template");
+
+const shortId = (id: string) => (id.length > 20 ? `${id.substring(0, 20)}...` : id);
+
+const STATUS_VARIANTS: Record<LifecycleStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  active: "default",
+  archived: "secondary",
+  "in-transit": "destructive",
+  unknown: "outline",
+};
+
+const JsonBlock = ({ label, value }: { label: string; value: unknown }) => {
+  if (value === undefined || value === null) return null;
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+        <ChevronDown className="h-3 w-3" />
+        {label}
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <pre className="mt-2 bg-muted/30 rounded-lg p-3 text-xs font-mono overflow-x-auto max-h-80">
+          {JSON.stringify(value, null, 2)}
+        </pre>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const Parties = ({ label, parties }: { label: string; parties: string[] }) =>
+  parties.length === 0 ? null : (
+    <div className="text-xs">
+      <span className="text-muted-foreground">{label}: </span>
+      {parties.map((p) => (
+        <Link key={p} to={searchRoutes.party(p)} className="font-mono mr-2 hover:text-primary">
+          {p.split("::")[0]}
+        </Link>
+      ))}
+    </div>
+  );
+
+const StepCard = ({ step }: { step: LifecycleStep }) => {
+  const header = (() => {
+    switch (step.kind) {
+      case "created":
+        return { icon: PlusCircle, title: "Created", tone: "text-success" };
+      case "exercised":
+        return step.consuming
+          ? { icon: XCircle, title: `Archived by ${step.choice}`, tone: "text-destructive" }
+          : { icon: Play, title: step.choice, tone: "text-primary" };
+      case "assigned":
+        return { icon: ArrowRight, title: "Assigned", tone: "text-accent" };
+      case "unassigned":
+        return { icon: ArrowLeft, title: "Unassigned", tone: "text-warning" };
+    }
+  })();
+  const Icon = header.icon;
+
+  return (
+    <Card className="glass-card p-4 space-y-3">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          <Icon className={`h-5 w-5 ${header.tone}`} />
+          <span className="font-semibold">{header.title}</span>
+          {step.kind === "exercised" && (
+            <Badge variant={step.consuming ? "destructive" : "outline"}>
+              {step.consuming ? "consuming" : "non-consuming"}
+            </Badge>
+          )}
+          {step.kind === "exercised" && step.interfaceId && (
+            <Badge variant="outline">via {shortTemplate(step.interfaceId)}</Badge>
+          )}
+          {step.migrationId != null && <Badge variant="secondary">migration {step.migrationId}</Badge>}
+        </div>
+        <div className="text-xs text-muted-foreground flex items-center gap-3">
+          <span>{new Date(step.recordTime).toLocaleString()}</span>
+          <Link to={searchRoutes.update(step.updateId)} className="font-mono hover:text-primary">
+            {shortId(step.updateId)}
+          </Link>
+        </div>
+      </div>
+
+      {step.kind === "created" && (
+        <>
+          <Parties label="Signatories" parties={step.signatories} />
+          <Parties label="Observers" parties={step.observers} />
+          <JsonBlock label="Create arguments" value={step.createArguments} />
+        </>
+      )}
+
+      {step.kind === "exercised" && (
+        <>
+          <Parties label="Acting parties" parties={step.actingParties} />
+          <JsonBlock label="Choice argument" value={step.choiceArgument} />
+          <JsonBlock label="Exercise result" value={step.exerciseResult} />
+          {step.children.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <GitBranch className="h-3 w-3" />
+                Created {step.children.length} contract(s)
+              </p>
+              {step.children.map((child) => (
+                <Link
+                  key={child.eventId}
+                  to={searchRoutes.contract(child.contractId)}
+                  className="flex items-center gap-2 text-xs hover:text-primary"
+                >
+                  <Badge variant="outline">{shortTemplate(child.templateId)}</Badge>
+                  <span className="font-mono">{shortId(child.contractId)}</span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {(step.kind === "assigned" || step.kind === "unassigned") && (
+        <div className="text-xs space-y-1">
+          <div className="font-mono break-all">
+            {step.sourceSynchronizer} → {step.targetSynchronizer}
+          </div>
+          <div className="text-muted-foreground">
+            Reassignment #{step.reassignmentCounter}, submitted by{" "}
+            <Link to={searchRoutes.party(step.submitter)} className="font-mono hover:text-primary">
+              {step.submitter.split("::")[0]}
+            </Link>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+const ContractLifecycle = () => {
+  const { contractId } = useParams<{ contractId: string }>();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(contractId ?? "");
+  // Following a child contract link changes the param without remounting
+  useEffect(() => setInput(contractId ?? ""), [contractId]);
+  const { data, isLoading, error } = useContractLifecycle(contractId);
+  const lifecycle = data?.lifecycle;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold mb-2">Contract Lifecycle</h2>
+          <p className="text-muted-foreground">
+            Creation, exercised choices, reassignments and archival of a contract, from the ingested ledger history
+          </p>
+        </div>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (input.trim()) navigate(searchRoutes.contract(input.trim()));
+          }}
+        >
+          <Input
+            placeholder="Contract ID"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="font-mono max-w-2xl"
+          />
+          <Button type="submit" variant="outline">
+            <Search className="h-4 w-4 mr-2" />
+            Trace
+          </Button>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to trace contract: {describeScanError(error)}</AlertDescription>
+          </Alert>
+        )}
+
+        {contractId && isLoading && (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-28 w-full" />
+            ))}
+          </div>
+        )}
+
+        {lifecycle && lifecycle.steps.length === 0 && (
+          <Card className="glass-card p-6">
+            <p className="text-muted-foreground">
+              No events for this contract in the ingested ledger history. It may predate the backfill or not exist.
+            </p>
+          </Card>
+        )}
+
+        {lifecycle && lifecycle.steps.length > 0 && (
+          <>
+            <Card className="glass-card p-6 space-y-3">
+              <div className="flex items-center gap-3 flex-wrap">
+                <Badge variant="outline" className="text-sm">
+                  {shortTemplate(lifecycle.templateId)}
+                </Badge>
+                <Badge variant={STATUS_VARIANTS[lifecycle.status]}>{lifecycle.status}</Badge>
+                <span className="text-sm text-muted-foreground">
+                  {lifecycle.steps.length} event(s) across{" "}
+                  {new Set(lifecycle.steps.map((s) => s.updateId)).size} update(s)
+                </span>
+              </div>
+              <p className="font-mono text-xs break-all text-muted-foreground">{lifecycle.contractId}</p>
+              {!lifecycle.created && (
+                <p className="text-xs text-warning">
+                  The creating update is not in the ingested history; the trace starts at its first recorded use.
+                </p>
+              )}
+              {data.fromScan > 0 && (
+                <p className="text-xs text-muted-foreground">{data.fromScan} update(s) loaded from Scan /v2/updates</p>
+              )}
+              {data.unavailable > 0 && (
+                <p className="text-xs text-destructive">{data.unavailable} update(s) could not be loaded</p>
+              )}
+            </Card>
+
+            <div className="space-y-3">
+              {lifecycle.steps.map((step, i) => (
+                <StepCard key={`${step.updateId}:${step.eventId ?? step.kind}:${i}`} step={step} />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ContractLifecycle;
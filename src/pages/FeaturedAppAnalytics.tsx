@@ -0,0 +1,347 @@
+import { useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { PartyName } from "@/components/PartyName";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import { Download, PieChart, RefreshCw, Star } from "lucide-react";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { appReportCsv, buildAppReport, monthRange, type FeaturedApp } from "@/lib/app-activity";
+import {
+  useAppActivityCursors,
+  useAppActivityRange,
+  useAppRewardsByRound,
+  useFeaturedApps,
+  useSyncAppActivity,
+} from "@/hooks/use-app-activity";
+
+const MONTHS = 12;
+
+const formatCC = (value: DamlDecimal | string | number | null) =>
+  value === null ? "—" : Number(value.toString()).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const shortParty = (party: string) => party.split("::")[0];
+
+const appLabel = (app: FeaturedApp) => app.app_name || shortParty(app.provider);
+
+/** The last `count` UTC months as "YYYY-MM", newest first */
+function recentMonths(count: number): string[] {
+  const now = new Date();
+  return Array.from({ length: count }, (_, i) =>
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)).toISOString().slice(0, 7),
+  );
+}
+
+const VoteBadge = ({ app }: { app: FeaturedApp }) => {
+  if (!app.vote_id) return <span className="text-xs text-muted-foreground">no vote linked</span>;
+  const share = app.total_weight ? (app.yes_weight ?? 0) / app.total_weight : null;
+  return (
+    <span className="text-xs text-muted-foreground" title={`Vote ${app.vote_id}`}>
+      vote {app.vote_status ?? "recorded"}
+      {share !== null && ` (${(share * 100).toFixed(0)}% yes)`}
+      {app.voted_at && `, ${new Date(app.voted_at).toLocaleDateString()}`}
+    </span>
+  );
+};
+
+const AppDetail = ({ app }: { app: FeaturedApp }) => {
+  const rounds = useAppRewardsByRound(app.provider);
+
+  const series = useMemo(
+    () =>
+      (rounds.data || [])
+        .filter((r) => r.round !== null)
+        .reverse()
+        .map((r) => ({ round: r.round, markers: r.markers, reward: Number(r.reward ?? 0) })),
+    [rounds.data],
+  );
+  const pending = (rounds.data || []).find((r) => r.round === null);
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+        <div>
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Star className="h-5 w-5 text-primary" />
+            {appLabel(app)}
+          </h3>
+          <p className="font-mono text-xs text-muted-foreground break-all">{app.provider}</p>
+        </div>
+        <div className="text-sm md:text-right space-y-1">
+          <p>
+            Featured {app.first_featured_at ? new Date(app.first_featured_at).toLocaleDateString() : "—"}
+            {app.active ? (
+              <Badge variant="outline" className="ml-2">featured</Badge>
+            ) : (
+              <Badge variant="destructive" className="ml-2">
+                revoked {app.last_revoked_at ? new Date(app.last_revoked_at).toLocaleDateString() : ""}
+              </Badge>
+            )}
+          </p>
+          <VoteBadge app={app} />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        {[
+          { label: "Activity Markers", value: app.markers.toLocaleString() },
+          { label: "App Rewards Issued", value: `${formatCC(app.reward_issued)} CC` },
+          { label: "Claimed / Expired", value: `${formatCC(app.reward_claimed)} / ${formatCC(app.reward_expired)}` },
+          { label: "Transfer Volume", value: `${formatCC(app.transfer_volume)} CC` },
+        ].map(({ label, value }) => (
+          <div key={label} className="rounded-lg border border-border/50 p-4">
+            <h4 className="text-sm font-medium text-muted-foreground mb-2">{label}</h4>
+            <p className="text-xl font-bold">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      {rounds.isLoading ? (
+        <Skeleton className="h-[260px] w-full" />
+      ) : series.length === 0 ? (
+        <div className="h-[120px] flex items-center justify-center">
+          <p className="text-muted-foreground">No issued rounds with activity yet</p>
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div>
+            <h4 className="font-semibold mb-2">Activity Markers per Round</h4>
+            <ChartContainer config={{ markers: { label: "Markers", color: "hsl(var(--chart-1))" } }} className="h-[240px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={series}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="round" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                  <YAxis allowDecimals={false} className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="markers" name="Markers" fill="hsl(var(--chart-1))" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          </div>
+          <div>
+            <h4 className="font-semibold mb-2">App Rewards per Round (CC)</h4>
+            <ChartContainer config={{ reward: { label: "Rewards", color: "hsl(var(--chart-2))" } }} className="h-[240px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={series}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="round" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                  <YAxis className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="reward" name="Rewards" fill="hsl(var(--chart-2))" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          </div>
+        </div>
+      )}
+      {pending && pending.markers > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {pending.markers.toLocaleString()} more markers were recorded in rounds that are not issuing yet.
+        </p>
+      )}
+    </Card>
+  );
+};
+
+const FeaturedAppAnalytics = () => {
+  const months = useMemo(() => recentMonths(MONTHS), []);
+  const [month, setMonth] = useState(months[0]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedProvider = searchParams.get("provider");
+
+  const { from, to } = monthRange(month);
+  const apps = useFeaturedApps();
+  const activity = useAppActivityRange(from, to);
+  const cursors = useAppActivityCursors();
+  const sync = useSyncAppActivity();
+
+  const isLoading = apps.isLoading || activity.isLoading;
+  const error = apps.error ?? activity.error;
+
+  const report = useMemo(
+    () => buildAppReport(apps.data || [], activity.data || [], from, to),
+    [apps.data, activity.data, from, to],
+  );
+
+  const totals = useMemo(
+    () => ({
+      featured: (apps.data || []).filter((a) => a.active).length,
+      newlyFeatured: (apps.data || []).filter((a) => a.first_featured_at && a.first_featured_at.slice(0, 7) === month).length,
+      markers: report.reduce((sum, r) => sum + r.markers, 0),
+      rewardIssued: DamlDecimal.sum(report.map((r) => r.rewardIssued)),
+      transferVolume: DamlDecimal.sum(report.map((r) => r.transferVolume)),
+      unpriced: report.reduce((sum, r) => sum + r.unpricedCount, 0),
+    }),
+    [apps.data, report, month],
+  );
+
+  const selected = (apps.data || []).find((a) => a.provider === selectedProvider);
+
+  const lastSync = (cursors.data || []).reduce<string | null>(
+    (latest, c) => (!latest || c.updated_at > latest ? c.updated_at : latest),
+    null,
+  );
+
+  const exportCSV = () => {
+    const blob = new Blob([appReportCsv(report)], { type: "text/csv" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `featured-apps-${month}.csv`;
+    link.click();
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+              <PieChart className="h-8 w-8 text-primary" />
+              App Analytics
+            </h1>
+            <p className="text-muted-foreground">
+              Activity markers, app rewards and transfer volume per featured app, month by month
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Button variant="outline" onClick={() => sync.mutate({})} disabled={sync.isPending}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${sync.isPending ? "animate-spin" : ""}`} />
+              Sync activity
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              {lastSync ? `Last synced ${new Date(lastSync).toLocaleString()}` : "Never synced"}
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load app activity: {(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={month} onValueChange={setMonth}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {months.map((m) => (
+                <SelectItem key={m} value={m}>
+                  {new Date(`${m}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={exportCSV} disabled={isLoading || report.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          {[
+            {
+              label: "Featured Apps",
+              value: totals.featured.toLocaleString(),
+              note: `${totals.newlyFeatured} newly featured this month`,
+            },
+            { label: "Activity Markers", value: totals.markers.toLocaleString() },
+            {
+              label: "App Rewards Issued",
+              value: `${formatCC(totals.rewardIssued)} CC`,
+              note: totals.unpriced > 0 ? `${totals.unpriced} coupons not priced yet` : undefined,
+            },
+            { label: "Transfer Volume", value: `${formatCC(totals.transferVolume)} CC` },
+          ].map(({ label, value, note }) => (
+            <Card key={label} className="glass-card p-6">
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">{label}</h3>
+              {isLoading ? <Skeleton className="h-8 w-24" /> : <p className="text-2xl font-bold">{value}</p>}
+              {note && !isLoading && <p className="text-xs text-muted-foreground mt-1">{note}</p>}
+            </Card>
+          ))}
+        </div>
+
+        {selected && <AppDetail app={selected} />}
+
+        <Card className="glass-card p-6 space-y-4">
+          <h3 className="text-xl font-bold">Monthly Report</h3>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4, 5].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : report.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No featured app activity synced yet</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-border/50">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30">
+                    <TableHead>App</TableHead>
+                    <TableHead>Featured</TableHead>
+                    <TableHead className="text-right">Markers</TableHead>
+                    <TableHead className="text-right">Coupons</TableHead>
+                    <TableHead className="text-right">Rewards issued</TableHead>
+                    <TableHead className="text-right">Claimed</TableHead>
+                    <TableHead className="text-right">Expired</TableHead>
+                    <TableHead className="text-right">Transfers</TableHead>
+                    <TableHead className="text-right">Volume</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.map((r) => (
+                    <TableRow
+                      key={r.app.provider}
+                      className={`cursor-pointer ${r.app.provider === selectedProvider ? "bg-muted/40" : ""}`}
+                      onClick={() => setSearchParams({ provider: r.app.provider })}
+                    >
+                      <TableCell>
+                        <p className="font-medium">{appLabel(r.app)}</p>
+                        <PartyName party={r.app.provider} className="block font-mono text-xs text-muted-foreground" />
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-sm">
+                          {r.app.first_featured_at ? new Date(r.app.first_featured_at).toLocaleDateString() : "—"}
+                          {!r.app.active && (
+                            <Badge variant="destructive" className="ml-2">
+                              revoked
+                            </Badge>
+                          )}
+                        </p>
+                        <VoteBadge app={r.app} />
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{r.markers.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{r.couponsIssued.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCC(r.rewardIssued)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCC(r.rewardClaimed)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCC(r.rewardExpired)}</TableCell>
+                      <TableCell className="text-right font-mono">{r.transfers.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCC(r.transferVolume)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Rewards count as issued on the day their coupon was created and as claimed or expired on the day it was
+            archived, at the featured or unfeatured rate of the coupon's round. Transfer volume is the amount sent in
+            transfers that name the app as provider. Votes are linked through the provider party recorded with the
+            featured app vote.
+          </p>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default FeaturedAppAnalytics;
@@ -1,7 +1,7 @@
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Vote, CheckCircle, XCircle, Clock, Users, Code, DollarSign } from "lucide-react";
+import { Vote, CheckCircle, XCircle, Clock, Users, Code, DollarSign, History, RefreshCw } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { scanApi } from "@/lib/api-client";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -11,6 +11,10 @@ import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data"
 import { DataSourcesFooter } from "@/components/DataSourcesFooter";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Button } from "@/components/ui/button";
+import { decodeContract, voteRequestActionName } from "@/lib/splice-decoders";
+import type { DamlDecodeError } from "@/lib/daml-decode";
+import { Link } from "react-router-dom";
+import { proposalRoute, useGovernanceProposals, useSyncGovernanceHistory } from "@/hooks/use-governance-history";
 
 const Governance = () => {
   const { data: dsoInfo } = useQuery({
@@ -20,6 +24,8 @@ const Governance = () => {
   });
 
   const { data: latestSnapshot } = useLatestACSSnapshot();
+  const { data: proposalHistory, isLoading: historyLoading, error: historyError } = useGovernanceProposals();
+  const syncHistory = useSyncGovernanceHistory();
 
   // Fetch DsoRules to get SV count and voting threshold - aggregated across all packages
   const { data: dsoRulesData } = useAggregatedTemplateData(
@@ -91,67 +97,72 @@ const Governance = () => {
   }
   console.log("AmuletRules:", amuletRules[0] ? JSON.stringify(amuletRules[0], null, 2) : "No data");
 
-  // Process proposals from ACS data with full JSON parsing
-  const proposals = voteRequestsData?.data.map((voteRequest: any) => {
-    const votes = voteRequest.votes || {};
-    const votesList = Object.values(votes);
-    const votesFor = votesList.filter((v: any) => v?.accept || v?.Accept).length;
-    const votesAgainst = votesList.filter((v: any) => v?.reject || v?.Reject).length;
-    const action = voteRequest.action || {};
-    const actionKey = Object.keys(action)[0] || "Unknown";
-    const actionData = action[actionKey];
-    const title = actionKey.replace(/ARC_|_/g, " ");
-    
-    // Extract requester information
-    const requester = voteRequest.requester || "Unknown";
-    const requesterParty = voteRequest.requesterName || requester;
-    
-    // Extract reason
-    const reason = voteRequest.reason?.url || voteRequest.reason || "No reason provided";
-    
-    // Extract voting information
-    const votedSvs = Object.keys(votes).map(svParty => ({
-      party: svParty,
-      vote: votes[svParty]?.accept || votes[svParty]?.Accept ? "accept" : "reject",
-      weight: votes[svParty]?.expiresAt || "N/A"
+  // Process proposals from ACS data, decoding each VoteRequest against the template shape
+  const voteRequestFailures: DamlDecodeError[] = [];
+  const proposals = (voteRequestsData?.data || []).flatMap((voteRequest: any) => {
+    const decoded = decodeContract("Splice:DsoRules:VoteRequest", voteRequest.payload ?? voteRequest, voteRequest.contractId);
+    if (!decoded.ok) {
+      voteRequestFailures.push(decoded.error);
+      return [];
+    }
+
+    const { votes, action, reason, requester, voteBefore, trackingCid } = decoded.value;
+    const votesFor = votes.filter(([, v]) => v.accept).length;
+    const votesAgainst = votes.length - votesFor;
+    const actionKey = voteRequestActionName(action);
+    const title = actionKey.replace(/_/g, " ");
+
+    // Votes are keyed by SV name
+    const votedSvs = votes.map(([svName, v]) => ({
+      party: v.sv,
+      name: svName,
+      vote: v.accept ? "accept" : "reject",
+      castAt: v.optCastAt,
     }));
-    
+
     // Determine status based on votes and threshold
     const threshold = votingThreshold || svCount;
     let status: "approved" | "rejected" | "pending" = "pending";
     if (votesFor >= threshold) status = "approved";
     else if (votesAgainst > (svCount - threshold)) status = "rejected";
-    
-    return {
-      id: voteRequest.trackingCid?.slice(0, 12) || voteRequest.contractId?.slice(0, 12) || "unknown",
-      trackingCid: voteRequest.trackingCid,
+
+    return [{
+      id: trackingCid?.slice(0, 12) || voteRequest.contractId?.slice(0, 12) || "unknown",
+      trackingCid,
+      // Same identity as governance_proposals.proposal_id
+      proposalId: trackingCid ?? voteRequest.contractId,
       title,
       actionType: actionKey,
-      actionData,
-      description: reason,
+      actionData: action.value,
+      description: reason.body || reason.url || "No reason provided",
+      reasonUrl: reason.url,
       requester,
-      requesterParty,
+      requesterParty: voteRequest.requesterName || requester,
       status,
       votesFor,
       votesAgainst,
       votedSvs,
       effectiveAt: voteRequest.effectiveAt,
-      expiresAt: voteRequest.expiresAt,
+      expiresAt: voteBefore,
       createdAt: voteRequest.effectiveAt,
       rawData: voteRequest, // Keep full JSON for debugging
-    };
-  }) || [];
+    }];
+  });
 
-  const totalProposals = proposals?.length || 0;
+  // The history also has closed proposals; the snapshot only the open ones
+  const totalProposals = proposalHistory?.length || proposals?.length || 0;
   const activeProposals = proposals?.filter((p: any) => p.status === "pending").length || 0;
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case "approved":
+      case "accepted":
         return "bg-success/10 text-success border-success/20";
       case "rejected":
+      case "action_failed":
         return "bg-destructive/10 text-destructive border-destructive/20";
       case "pending":
+      case "open":
         return "bg-warning/10 text-warning border-warning/20";
       default:
         return "bg-muted text-muted-foreground";
@@ -161,10 +172,13 @@ const Governance = () => {
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "approved":
+      case "accepted":
         return <CheckCircle className="h-4 w-4" />;
       case "rejected":
+      case "action_failed":
         return <XCircle className="h-4 w-4" />;
       case "pending":
+      case "open":
         return <Clock className="h-4 w-4" />;
       default:
         return <Vote className="h-4 w-4" />;
@@ -282,10 +296,36 @@ const Governance = () => {
           </AlertDescription>
         </Alert>
 
+        <Card className="glass-card p-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <DollarSign className="h-5 w-5 text-primary" />
+              <div>
+                <h3 className="font-semibold">Amulet Price Votes</h3>
+                <p className="text-sm text-muted-foreground">
+                  {priceVotesLoading ? "Loading..." : `${priceVotes.length} SV price vote(s) in the latest snapshot`}
+                </p>
+              </div>
+            </div>
+            <Button asChild variant="outline" size="sm">
+              <Link to="/price-votes">Price oracle</Link>
+            </Button>
+          </div>
+        </Card>
+
+        {voteRequestFailures.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {voteRequestFailures.length} vote request{voteRequestFailures.length === 1 ? "" : "s"} could not be
+              decoded and {voteRequestFailures.length === 1 ? "is" : "are"} not shown: {voteRequestFailures[0].message}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Proposals List */}
         <Card className="glass-card">
           <div className="p-6">
-            <h3 className="text-xl font-bold mb-6">Recent Proposals</h3>
+            <h3 className="text-xl font-bold mb-6">Open Proposals</h3>
             
             {isError ? (
               <div className="text-center py-12">
@@ -321,7 +361,15 @@ const Governance = () => {
                             {getStatusIcon(proposal.status)}
                           </div>
                           <div className="flex-1">
-                            <h4 className="font-semibold text-lg">{proposal.title}</h4>
+                            <h4 className="font-semibold text-lg">
+                              {proposal.proposalId ? (
+                                <Link to={proposalRoute(proposal.proposalId)} className="hover:text-primary">
+                                  {proposal.title}
+                                </Link>
+                              ) : (
+                                proposal.title
+                              )}
+                            </h4>
                             <p className="text-sm text-muted-foreground">
                               Proposal #{proposal.id}
                             </p>
@@ -369,7 +417,7 @@ const Governance = () => {
                                 variant="outline" 
                                 className={sv.vote === "accept" ? "border-success/50 text-success" : "border-destructive/50 text-destructive"}
                               >
-                                {sv.party.slice(0, 20)}... - {sv.vote}
+                                {sv.name || `${sv.party.slice(0, 20)}...`} - {sv.vote}
                               </Badge>
                             ))}
                           </div>
@@ -399,6 +447,67 @@ const Governance = () => {
           </div>
         </Card>
 
+        {/* Proposal History */}
+        <Card className="glass-card">
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h3 className="text-xl font-bold flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Proposal History
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Every proposal in the ingested ledger history, open and closed
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => syncHistory.mutate()} disabled={syncHistory.isPending}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${syncHistory.isPending ? "animate-spin" : ""}`} />
+                Rebuild history
+              </Button>
+            </div>
+
+            {historyError ? (
+              <Alert variant="destructive">
+                <AlertDescription>Failed to load proposal history: {(historyError as Error).message}</AlertDescription>
+              </Alert>
+            ) : historyLoading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : !proposalHistory?.length ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No proposal history yet. Rebuild it once the ledger backfill has ingested governance events.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {proposalHistory.map((p) => (
+                  <Link
+                    key={p.proposal_id}
+                    to={proposalRoute(p.proposal_id)}
+                    className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-3 rounded-lg bg-muted/30 hover:bg-muted/50 transition-smooth border border-border/50"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      {getStatusIcon(p.status)}
+                      <div className="min-w-0">
+                        <p className="font-semibold truncate">{p.action_tag.replace(/_/g, " ")}</p>
+                        <p className="text-xs text-muted-foreground truncate">{p.reason_body || p.reason_url}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground shrink-0">
+                      <span className="text-success">{p.accept_count}</span>/
+                      <span className="text-destructive">{p.reject_count}</span>
+                      <span>{new Date(p.created_at).toLocaleDateString()}</span>
+                      <Badge className={getStatusColor(p.status)}>{p.status.replace(/_/g, " ")}</Badge>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        </Card>
+
         {/* Governance Info */}
         <Card className="glass-card">
           <div className="p-6">
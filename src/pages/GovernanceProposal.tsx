@@ -0,0 +1,282 @@
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ArrowLeft, CheckCircle, XCircle, Clock, ChevronDown, MinusCircle, RefreshCw } from "lucide-react";
+import { scanApi } from "@/lib/api-client";
+import { searchRoutes } from "@/lib/search-index";
+import type { ProposalStatus, VoteChange } from "@/lib/governance-history";
+import { useGovernanceProposal } from "@/hooks/use-governance-history";
+
+const PROPOSAL_STATUS_STYLES: Record<ProposalStatus, string> = {
+  open: "bg-warning/10 text-warning border-warning/20",
+  accepted: "bg-success/10 text-success border-success/20",
+  action_failed: "bg-destructive/10 text-destructive border-destructive/20",
+  rejected: "bg-destructive/10 text-destructive border-destructive/20",
+  expired: "bg-muted text-muted-foreground",
+  unknown: "bg-muted text-muted-foreground",
+};
+
+const CHANGE_ICONS: Record<VoteChange, typeof CheckCircle> = {
+  cast: CheckCircle,
+  changed: RefreshCw,
+  removed: MinusCircle,
+};
+
+const shortId = (id: string) => (id.length > 20 ? `${id.substring(0, 20)}...` : id);
+
+const formatTime = (time: string | null) => (time ? new Date(time).toLocaleString() : "—");
+
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="p-3 rounded-lg bg-background/50">
+    <p className="text-xs text-muted-foreground mb-1">{label}</p>
+    <div className="text-sm">{children}</div>
+  </div>
+);
+
+const GovernanceProposal = () => {
+  const { proposalId } = useParams<{ proposalId: string }>();
+  const { data, isLoading, error } = useGovernanceProposal(proposalId);
+  const { data: dsoInfo } = useQuery({
+    queryKey: ["dsoInfo"],
+    queryFn: () => scanApi.fetchDsoInfo(),
+    retry: 1,
+  });
+
+  const proposal = data?.proposal;
+  const threshold = dsoInfo?.voting_threshold || 0;
+  const quorum = threshold > 0 && proposal ? Math.min(100, (proposal.accept_count / threshold) * 100) : 0;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <Link to="/governance" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-2">
+            <ArrowLeft className="h-4 w-4" />
+            Governance
+          </Link>
+          <h2 className="text-3xl font-bold mb-2">{proposal ? proposal.action_tag.replace(/_/g, " ") : "Proposal"}</h2>
+          <p className="font-mono text-xs break-all text-muted-foreground">{proposalId}</p>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load proposal: {(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-32 w-full" />
+            ))}
+          </div>
+        )}
+
+        {data === null && (
+          <Card className="glass-card p-6">
+            <p className="text-muted-foreground">
+              This proposal is not in the governance history. Rebuild the history from the Governance page once its
+              events have been ingested.
+            </p>
+          </Card>
+        )}
+
+        {proposal && (
+          <>
+            <Card className="glass-card p-6 space-y-4">
+              <div className="flex items-center gap-3 flex-wrap">
+                <Badge className={PROPOSAL_STATUS_STYLES[proposal.status]}>{proposal.status.replace(/_/g, " ")}</Badge>
+                <Badge variant="outline">{proposal.action_tag}</Badge>
+                <span className="text-sm text-muted-foreground">
+                  {proposal.version_count} version(s) of the vote request
+                </span>
+              </div>
+
+              <div className="p-3 rounded-lg bg-background/30 border border-border/30">
+                <p className="text-sm text-muted-foreground mb-1 font-semibold">Reason:</p>
+                <p className="text-sm whitespace-pre-wrap">{proposal.reason_body || "No reason provided"}</p>
+                {proposal.reason_url && (
+                  <a
+                    href={proposal.reason_url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-xs text-primary hover:underline break-all"
+                  >
+                    {proposal.reason_url}
+                  </a>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <Field label="Requested by">
+                  <Link to={searchRoutes.party(proposal.requester)} className="font-mono hover:text-primary">
+                    {proposal.requester.split("::")[0]}
+                  </Link>
+                </Field>
+                <Field label="Created">
+                  <Link to={searchRoutes.update(proposal.created_update_id)} className="hover:text-primary">
+                    {formatTime(proposal.created_at)}
+                  </Link>
+                </Field>
+                <Field label="Vote before">{formatTime(proposal.vote_before)}</Field>
+                <Field label="Latest vote request">
+                  <Link to={searchRoutes.contract(proposal.latest_contract_id)} className="font-mono hover:text-primary">
+                    {shortId(proposal.latest_contract_id)}
+                  </Link>
+                </Field>
+              </div>
+            </Card>
+
+            <Card className="glass-card p-6 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xl font-bold">Quorum</h3>
+                <span className="text-sm text-muted-foreground">
+                  {proposal.accept_count} accept / {proposal.reject_count} reject
+                  {threshold > 0 && ` · ${threshold} required by the current threshold`}
+                </span>
+              </div>
+              <Progress value={quorum} />
+              {threshold === 0 && (
+                <p className="text-xs text-muted-foreground">The current voting threshold could not be loaded.</p>
+              )}
+              {threshold > 0 && proposal.status !== "open" && (
+                <p className="text-xs text-muted-foreground">
+                  Measured against the current voting threshold, which may differ from the one in force when the
+                  proposal closed.
+                </p>
+              )}
+            </Card>
+
+            <Card className="glass-card p-6">
+              <h3 className="text-xl font-bold mb-4">Vote Timeline</h3>
+              {data.votes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No votes were cast.</p>
+              ) : (
+                <div className="space-y-2">
+                  {data.votes.map((vote) => {
+                    const Icon = vote.change === "cast" && !vote.accept ? XCircle : CHANGE_ICONS[vote.change];
+                    return (
+                      <div key={vote.id} className="p-3 rounded-lg bg-muted/30 border border-border/50 space-y-1">
+                        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <Icon className={`h-4 w-4 ${vote.accept ? "text-success" : "text-destructive"}`} />
+                            <Link to={searchRoutes.party(vote.sv_party)} className="font-semibold hover:text-primary">
+                              {vote.sv_name}
+                            </Link>
+                            <Badge variant="outline">{vote.change}</Badge>
+                            <Badge
+                              variant="outline"
+                              className={vote.accept ? "border-success/50 text-success" : "border-destructive/50 text-destructive"}
+                            >
+                              {vote.accept ? "accept" : "reject"}
+                            </Badge>
+                          </div>
+                          <div className="text-xs text-muted-foreground flex items-center gap-3">
+                            <span>{formatTime(vote.cast_at)}</span>
+                            <Link to={searchRoutes.update(vote.update_id)} className="font-mono hover:text-primary">
+                              {shortId(vote.update_id)}
+                            </Link>
+                          </div>
+                        </div>
+                        {(vote.reason_body || vote.reason_url) && (
+                          <p className="text-xs text-muted-foreground break-words">
+                            {vote.reason_body}
+                            {vote.reason_url && (
+                              <a
+                                href={vote.reason_url}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="ml-2 text-primary hover:underline break-all"
+                              >
+                                {vote.reason_url}
+                              </a>
+                            )}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </Card>
+
+            <Card className="glass-card p-6 space-y-4">
+              <h3 className="text-xl font-bold">Final Effect</h3>
+              {proposal.status === "open" ? (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  Still in voting. The outcome is recorded once the vote request is closed.
+                </p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <Field label="Closed">
+                      {proposal.close_update_id ? (
+                        <Link to={searchRoutes.update(proposal.close_update_id)} className="hover:text-primary">
+                          {formatTime(proposal.closed_at)}
+                        </Link>
+                      ) : (
+                        formatTime(proposal.closed_at)
+                      )}
+                    </Field>
+                    <Field label="Effective at">{formatTime(proposal.effective_at)}</Field>
+                    <Field label="Abstaining SVs">
+                      {proposal.abstaining_svs.length > 0 ? proposal.abstaining_svs.join(", ") : "None"}
+                    </Field>
+                  </div>
+                  {proposal.executed_choices.length > 0 ? (
+                    <div>
+                      <p className="text-xs text-muted-foreground mb-2">Executed choices</p>
+                      <div className="flex flex-wrap gap-2">
+                        {proposal.executed_choices.map((choice) => (
+                          <Badge key={choice} variant="outline">
+                            {choice}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {proposal.status === "accepted"
+                        ? "No executed choices were found under the close; its update may not be fully ingested."
+                        : proposal.status === "unknown"
+                          ? "The close's result could not be decoded, so the outcome is unknown."
+                          : "The action was not executed."}
+                    </p>
+                  )}
+                </>
+              )}
+
+              {[
+                { label: "Action", value: proposal.action },
+                { label: "Outcome", value: proposal.outcome },
+              ].map(({ label, value }) =>
+                value == null ? null : (
+                  <Collapsible key={label}>
+                    <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                      <ChevronDown className="h-3 w-3" />
+                      {label}
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                      <pre className="mt-2 bg-muted/30 rounded-lg p-3 text-xs font-mono overflow-x-auto max-h-80">
+                        {JSON.stringify(value, null, 2)}
+                      </pre>
+                    </CollapsibleContent>
+                  </Collapsible>
+                ),
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default GovernanceProposal;
@@ -0,0 +1,746 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Area, AreaChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import { Coins, Plus, Trash2 } from "lucide-react";
+import { DataSourcesFooter } from "@/components/DataSourcesFooter";
+import {
+  compareWithHistory,
+  DAY_MS,
+  paramsAt,
+  proposedAmuletConfig,
+  roundIssuance,
+  scenarioFromConfig,
+  simulateIssuance,
+  type IssuanceCurve,
+} from "@/lib/issuance-simulator";
+import {
+  useCurrentIssuanceCurve,
+  useIssuingPosition,
+  useLatestSupply,
+  useRecentRoundTotals,
+} from "@/hooks/use-issuance-simulator";
+import { proposalRoute, useGovernanceProposals } from "@/hooks/use-governance-history";
+
+const DAY_MICROS = DAY_MS * 1000;
+
+const HORIZONS = [
+  { label: "6 months", days: 182 },
+  { label: "1 year", days: 365 },
+  { label: "2 years", days: 730 },
+  { label: "5 years", days: 1825 },
+  { label: "10 years", days: 3650 },
+];
+
+const HISTORY_DAYS = [1, 7, 30];
+
+const MILESTONE_DAYS = [30, 90, 365, 730, 1825, 3650];
+
+/** Curve steps as edited in the form; percentages are 0-100 */
+interface DraftStep {
+  afterDays: string;
+  perYear: string;
+  validatorPct: string;
+  appPct: string;
+}
+
+interface Draft {
+  source: string;
+  steps: DraftStep[];
+  tickMinutes: string;
+  fromDate: string;
+}
+
+const toDraftSteps = (curve: IssuanceCurve): DraftStep[] =>
+  curve.map((s) => ({
+    afterDays: String(+(s.afterMicros / DAY_MICROS).toFixed(4)),
+    perYear: String(s.params.amuletToIssuePerYear),
+    validatorPct: String(+(s.params.validatorRewardPercentage * 100).toFixed(6)),
+    appPct: String(+(s.params.appRewardPercentage * 100).toFixed(6)),
+  }));
+
+const parseDraftCurve = (steps: DraftStep[]): IssuanceCurve | null => {
+  const curve = steps.map((s) => ({
+    afterMicros: Number(s.afterDays) * DAY_MICROS,
+    params: {
+      amuletToIssuePerYear: Number(s.perYear),
+      validatorRewardPercentage: Number(s.validatorPct) / 100,
+      appRewardPercentage: Number(s.appPct) / 100,
+    },
+  }));
+  const valid = curve.every(
+    (s) =>
+      s.afterMicros >= 0 &&
+      s.params.amuletToIssuePerYear >= 0 &&
+      s.params.validatorRewardPercentage >= 0 &&
+      s.params.appRewardPercentage >= 0 &&
+      s.params.validatorRewardPercentage + s.params.appRewardPercentage <= 1 &&
+      [s.afterMicros, s.params.amuletToIssuePerYear].every(Number.isFinite),
+  );
+  if (!valid || curve.length === 0) return null;
+  const sorted = curve.sort((a, b) => a.afterMicros - b.afterMicros);
+  // The first value of a schedule applies from the start
+  sorted[0] = { ...sorted[0], afterMicros: 0 };
+  return sorted;
+};
+
+const formatAmount = (value: number | undefined) =>
+  value === undefined
+    ? "—"
+    : value >= 1e9
+      ? `${(value / 1e9).toFixed(2)}B`
+      : value >= 1e6
+        ? `${(value / 1e6).toFixed(2)}M`
+        : value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+const formatRatio = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(1)}%`);
+
+const formatDate = (t: number) => new Date(t).toLocaleDateString("en-US", { month: "short", year: "2-digit" });
+
+const IssuanceSimulator = () => {
+  const current = useCurrentIssuanceCurve();
+  const { data: position, isLoading: positionLoading, error: positionError } = useIssuingPosition();
+  const { data: supply } = useLatestSupply();
+  const { data: proposals } = useGovernanceProposals();
+
+  const [horizon, setHorizon] = useState(HORIZONS[1]);
+  const [historyDays, setHistoryDays] = useState(HISTORY_DAYS[1]);
+  const [mintedPct, setMintedPct] = useState("100");
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const tickMicros = position?.tickMicros ?? current.value?.tickMicros ?? null;
+  const curve = current.value?.curve ?? null;
+  const roundsPerDay = tickMicros ? DAY_MICROS / tickMicros : 0;
+
+  // Open ARC_AmuletRules proposals that would set a new config
+  const proposedConfigs = useMemo(
+    () =>
+      (proposals || [])
+        .filter((p) => p.status === "open")
+        .map((p) => ({ proposal: p, scenario: scenarioFromConfig(proposedAmuletConfig(p.action)) }))
+        .filter((p) => p.scenario !== null),
+    [proposals],
+  );
+
+  const startDraft = (source: string) => {
+    if (!curve || !tickMicros) return;
+    const proposed = proposedConfigs.find((p) => p.proposal.proposal_id === source)?.scenario;
+    const effective = proposedConfigs.find((p) => p.proposal.proposal_id === source)?.proposal.vote_before;
+    setDraft({
+      source,
+      steps: toDraftSteps(proposed?.curve ?? curve),
+      tickMinutes: String((proposed?.tickMicros ?? tickMicros) / 60_000_000),
+      fromDate: (effective ?? new Date().toISOString()).slice(0, 10),
+    });
+  };
+
+  const updateStep = (index: number, patch: Partial<DraftStep>) =>
+    setDraft((d) => (d ? { ...d, steps: d.steps.map((s, i) => (i === index ? { ...s, ...patch } : s)) } : d));
+
+  const draftCurve = useMemo(() => (draft ? parseDraftCurve(draft.steps) : null), [draft]);
+  const draftTickMicros = draft ? Number(draft.tickMinutes) * 60_000_000 : null;
+  const draftValid = !draft || (draftCurve !== null && !!draftTickMicros && draftTickMicros > 0);
+  const mintedShare = Math.min(Math.max(Number(mintedPct) || 0, 0), 100) / 100;
+
+  const startTime = position ? Date.parse(position.opensAt) : null;
+  const startSupply = supply ? Number(supply.total_balance) : null;
+
+  const points = useMemo(() => {
+    if (!curve || !tickMicros || !position || startTime === null || startSupply === null || !draftValid) return [];
+    return simulateIssuance({
+      curve,
+      tickMicros,
+      startRound: position.round,
+      startIssuingForMicros: position.issuingForMicros,
+      startTime,
+      startSupply,
+      horizonDays: horizon.days,
+      mintedShare,
+      scenario:
+        draft && draftCurve && draftTickMicros
+          ? { curve: draftCurve, tickMicros: draftTickMicros, from: Math.max(Date.parse(draft.fromDate), startTime) }
+          : null,
+    });
+  }, [curve, tickMicros, position, startTime, startSupply, horizon, mintedShare, draft, draftCurve, draftTickMicros, draftValid]);
+
+  const milestones = useMemo(
+    () =>
+      points.length === 0
+        ? []
+        : MILESTONE_DAYS.filter((d) => d <= horizon.days).map((d) => ({
+            days: d,
+            point: points[d] ?? points[points.length - 1],
+          })),
+    [points, horizon],
+  );
+
+  const history = useRecentRoundTotals(roundsPerDay, historyDays);
+  const comparison = useMemo(
+    () =>
+      history.data && curve && tickMicros && position
+        ? compareWithHistory(history.data, curve, tickMicros, {
+            round: position.round,
+            issuingForMicros: position.issuingForMicros,
+          })
+        : null,
+    [history.data, curve, tickMicros, position],
+  );
+
+  const currentIssuance =
+    curve && tickMicros && position ? roundIssuance(paramsAt(curve, position.issuingForMicros), tickMicros) : null;
+
+  const isLoading = current.isLoading || positionLoading;
+  const projectionLoading = isLoading || (!!curve && (!position || !supply));
+  const error = current.error ?? positionError;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold mb-2">Issuance Simulator</h2>
+          <p className="text-muted-foreground">
+            Minting per round and per day from the AmuletRules issuance curve, projected forward with optional
+            parameter changes
+          </p>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load the issuance curve: {(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+        {!isLoading && !error && !curve && (
+          <Alert variant="destructive">
+            <AlertDescription>No issuance curve in the latest AmuletRules snapshot.</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="glass-card p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-muted-foreground">Issued per Round</h3>
+              <Coins className="h-5 w-5 text-primary" />
+            </div>
+            {!currentIssuance ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <>
+                <p className="text-3xl font-bold text-primary mb-1">{formatAmount(currentIssuance.total)}</p>
+                <p className="text-xs text-muted-foreground">Round {position?.round}</p>
+              </>
+            )}
+          </Card>
+          <Card className="glass-card p-6">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">Issued per Day</h3>
+            {!currentIssuance ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <>
+                <p className="text-3xl font-bold mb-1">{formatAmount(currentIssuance.total * roundsPerDay)}</p>
+                <p className="text-xs text-muted-foreground">{roundsPerDay.toFixed(0)} rounds per day</p>
+              </>
+            )}
+          </Card>
+          <Card className="glass-card p-6">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">Split per Day</h3>
+            {!currentIssuance ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <div className="text-sm space-y-1">
+                <p>Validators {formatAmount(currentIssuance.validators * roundsPerDay)}</p>
+                <p>Apps {formatAmount(currentIssuance.apps * roundsPerDay)}</p>
+                <p>SVs {formatAmount(currentIssuance.svs * roundsPerDay)}</p>
+              </div>
+            )}
+          </Card>
+          <Card className="glass-card p-6">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">Position on Curve</h3>
+            {!position ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <>
+                <p className="text-3xl font-bold mb-1">Day {Math.floor(position.issuingForMicros / DAY_MICROS)}</p>
+                <p className="text-xs text-muted-foreground">Since issuance started</p>
+              </>
+            )}
+          </Card>
+        </div>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <h3 className="text-xl font-bold">Scenario</h3>
+              <p className="text-sm text-muted-foreground">
+                Change the issuance curve or tick duration from a date, or load the config an open AmuletRules
+                proposal would set
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={draft?.source ?? "none"} onValueChange={(v) => (v === "none" ? setDraft(null) : startDraft(v))}>
+                <SelectTrigger className="w-[260px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Current config only</SelectItem>
+                  <SelectItem value="custom">Custom parameters</SelectItem>
+                  {proposedConfigs.map(({ proposal }) => (
+                    <SelectItem key={proposal.proposal_id} value={proposal.proposal_id}>
+                      Proposal {proposal.proposal_id.slice(0, 10)}… ({proposal.action_tag})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {draft && (
+            <div className="space-y-4">
+              {draft.source !== "custom" && (
+                <p className="text-sm">
+                  Loaded from{" "}
+                  <Link to={proposalRoute(draft.source)} className="text-primary hover:underline">
+                    proposal {draft.source.slice(0, 16)}…
+                  </Link>
+                  , effective from its vote deadline
+                </p>
+              )}
+              <div className="flex flex-wrap gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="scenario-from">Effective from</Label>
+                  <Input
+                    id="scenario-from"
+                    type="date"
+                    value={draft.fromDate}
+                    onChange={(e) => setDraft({ ...draft, fromDate: e.target.value })}
+                    className="w-[180px]"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="scenario-tick">Tick duration (minutes)</Label>
+                  <Input
+                    id="scenario-tick"
+                    value={draft.tickMinutes}
+                    onChange={(e) => setDraft({ ...draft, tickMinutes: e.target.value })}
+                    className="w-[180px] font-mono"
+                  />
+                </div>
+              </div>
+
+              <div className="overflow-x-auto rounded-lg border border-border/50">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/30">
+                      <TableHead>From day</TableHead>
+                      <TableHead>Amulet per year</TableHead>
+                      <TableHead>Validators %</TableHead>
+                      <TableHead>Apps %</TableHead>
+                      <TableHead className="text-right">SVs %</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {draft.steps.map((step, i) => (
+                      <TableRow key={i}>
+                        <TableCell>
+                          <Input
+                            value={i === 0 ? "0" : step.afterDays}
+                            disabled={i === 0}
+                            onChange={(e) => updateStep(i, { afterDays: e.target.value })}
+                            className="w-[100px] font-mono"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={step.perYear}
+                            onChange={(e) => updateStep(i, { perYear: e.target.value })}
+                            className="w-[180px] font-mono"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={step.validatorPct}
+                            onChange={(e) => updateStep(i, { validatorPct: e.target.value })}
+                            className="w-[100px] font-mono"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={step.appPct}
+                            onChange={(e) => updateStep(i, { appPct: e.target.value })}
+                            className="w-[100px] font-mono"
+                          />
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {(100 - Number(step.validatorPct) - Number(step.appPct)).toFixed(2)}
+                        </TableCell>
+                        <TableCell>
+                          {i > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDraft({ ...draft, steps: draft.steps.filter((_, j) => j !== i) })}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="flex items-center gap-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setDraft({ ...draft, steps: [...draft.steps, { ...draft.steps[draft.steps.length - 1] }] })
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add step
+                </Button>
+                {!draftValid && (
+                  <p className="text-sm text-destructive">
+                    Every value must be a non-negative number, and validators plus apps at most 100%.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </Card>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <h3 className="text-xl font-bold">Projection</h3>
+              <p className="text-sm text-muted-foreground">
+                Supply grows by the minted share of issuance; burn and holding fees are not modelled
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Label htmlFor="minted-share" className="text-sm text-muted-foreground">
+                Minted %
+              </Label>
+              <Input
+                id="minted-share"
+                value={mintedPct}
+                onChange={(e) => setMintedPct(e.target.value)}
+                className="w-[80px] font-mono"
+              />
+              {HORIZONS.map((h) => (
+                <Button
+                  key={h.label}
+                  size="sm"
+                  variant={horizon.label === h.label ? "default" : "outline"}
+                  onClick={() => setHorizon(h)}
+                >
+                  {h.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {projectionLoading ? (
+            <Skeleton className="h-[320px] w-full" />
+          ) : points.length === 0 ? (
+            <div className="h-[320px] flex items-center justify-center">
+              <p className="text-muted-foreground">Nothing to project</p>
+            </div>
+          ) : (
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div>
+                <p className="text-sm font-medium mb-2">Issuance per day</p>
+                <ChartContainer
+                  config={{
+                    validators: { label: "Validators", color: "hsl(var(--chart-1))" },
+                    apps: { label: "Apps", color: "hsl(var(--chart-2))" },
+                    svs: { label: "SVs", color: "hsl(var(--chart-3))" },
+                  }}
+                  className="h-[300px] w-full"
+                >
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={points}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis
+                        dataKey="time"
+                        type="number"
+                        scale="time"
+                        domain={["dataMin", "dataMax"]}
+                        tickFormatter={formatDate}
+                        className="text-xs"
+                        tick={{ fill: "hsl(var(--muted-foreground))" }}
+                      />
+                      <YAxis
+                        tickFormatter={formatAmount}
+                        className="text-xs"
+                        tick={{ fill: "hsl(var(--muted-foreground))" }}
+                      />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={(_, payload) => {
+                              const p = payload?.[0]?.payload;
+                              return p ? `${new Date(p.time).toLocaleDateString()} (round ${p.round})` : null;
+                            }}
+                          />
+                        }
+                      />
+                      <Legend />
+                      {(["validators", "apps", "svs"] as const).map((key, i) => (
+                        <Area
+                          key={key}
+                          type="stepAfter"
+                          dataKey={(p: (typeof points)[number]) => p.perDay[key]}
+                          name={key === "svs" ? "SVs" : key[0].toUpperCase() + key.slice(1)}
+                          stackId="issuance"
+                          stroke={`hsl(var(--chart-${i + 1}))`}
+                          fill={`hsl(var(--chart-${i + 1}))`}
+                          fillOpacity={0.3}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </ChartContainer>
+              </div>
+              <div>
+                <p className="text-sm font-medium mb-2">Total supply</p>
+                <ChartContainer
+                  config={{
+                    supply: { label: draft ? "Scenario" : "Projected", color: "hsl(var(--primary))" },
+                    baselineSupply: { label: "Current config", color: "hsl(var(--muted-foreground))" },
+                  }}
+                  className="h-[300px] w-full"
+                >
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={points}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis
+                        dataKey="time"
+                        type="number"
+                        scale="time"
+                        domain={["dataMin", "dataMax"]}
+                        tickFormatter={formatDate}
+                        className="text-xs"
+                        tick={{ fill: "hsl(var(--muted-foreground))" }}
+                      />
+                      <YAxis
+                        domain={["auto", "auto"]}
+                        tickFormatter={formatAmount}
+                        className="text-xs"
+                        tick={{ fill: "hsl(var(--muted-foreground))" }}
+                      />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={(_, payload) => {
+                              const p = payload?.[0]?.payload;
+                              return p ? new Date(p.time).toLocaleDateString() : null;
+                            }}
+                          />
+                        }
+                      />
+                      <Legend />
+                      {draft && (
+                        <Line
+                          type="monotone"
+                          dataKey="baselineSupply"
+                          name="Current config"
+                          stroke="hsl(var(--muted-foreground))"
+                          strokeDasharray="5 5"
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      )}
+                      <Line
+                        type="monotone"
+                        dataKey="supply"
+                        name={draft ? "Scenario" : "Projected"}
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </ChartContainer>
+              </div>
+            </div>
+          )}
+
+          {milestones.length > 0 && (
+            <div className="overflow-x-auto rounded-lg border border-border/50">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30">
+                    <TableHead>After</TableHead>
+                    <TableHead className="text-right">Round</TableHead>
+                    <TableHead className="text-right">Validators / day</TableHead>
+                    <TableHead className="text-right">Apps / day</TableHead>
+                    <TableHead className="text-right">SVs / day</TableHead>
+                    <TableHead className="text-right">Supply</TableHead>
+                    {draft && <TableHead className="text-right">vs. current config</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {milestones.map(({ days, point }) => (
+                    <TableRow key={days}>
+                      <TableCell>{days >= 365 ? `${days / 365} year(s)` : `${days} days`}</TableCell>
+                      <TableCell className="text-right font-mono">{point.round.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(point.perDay.validators)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(point.perDay.apps)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(point.perDay.svs)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(point.supply)}</TableCell>
+                      {draft && (
+                        <TableCell className="text-right font-mono">
+                          {point.baselineSupply !== undefined
+                            ? `${point.supply >= point.baselineSupply ? "+" : "-"}${formatAmount(Math.abs(point.supply - point.baselineSupply))}`
+                            : "—"}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </Card>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <h3 className="text-xl font-bold">Check Against History</h3>
+              <p className="text-sm text-muted-foreground">
+                The current curve's validator and app pools for recent closed rounds, against the rewards Scan
+                reports as minted for them
+              </p>
+            </div>
+            <div className="flex gap-1">
+              {HISTORY_DAYS.map((d) => (
+                <Button
+                  key={d}
+                  size="sm"
+                  variant={historyDays === d ? "default" : "outline"}
+                  onClick={() => setHistoryDays(d)}
+                >
+                  {d}d
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {history.error && (
+            <Alert variant="destructive">
+              <AlertDescription>Failed to load round totals: {(history.error as Error).message}</AlertDescription>
+            </Alert>
+          )}
+
+          {history.isLoading || !comparison ? (
+            <Skeleton className="h-[300px] w-full" />
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <Badge variant="outline">Validators minted {formatRatio(comparison.validatorRatio)} of projection</Badge>
+                <Badge variant="outline">Apps minted {formatRatio(comparison.appRatio)} of projection</Badge>
+                {comparison.validatorRatio !== null && comparison.appRatio !== null && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      const totals = comparison.days.reduce(
+                        (acc, d) => ({
+                          projected: acc.projected + d.projectedValidators + d.projectedApps,
+                          actual: acc.actual + d.actualValidators + d.actualApps,
+                        }),
+                        { projected: 0, actual: 0 },
+                      );
+                      if (totals.projected > 0) setMintedPct(((totals.actual / totals.projected) * 100).toFixed(1));
+                    }}
+                  >
+                    Use as minted %
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Coupon caps and unclaimed rewards keep minting below the pools, and rewards are counted in the round
+                they are minted in. Past rounds are placed on the curve assuming today's tick duration.
+              </p>
+              <ChartContainer
+                config={{
+                  projectedValidators: { label: "Validators projected", color: "hsl(var(--chart-1))" },
+                  actualValidators: { label: "Validators minted", color: "hsl(var(--chart-1))" },
+                  projectedApps: { label: "Apps projected", color: "hsl(var(--chart-2))" },
+                  actualApps: { label: "Apps minted", color: "hsl(var(--chart-2))" },
+                }}
+                className="h-[300px] w-full"
+              >
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={comparison.days}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="day" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                    <YAxis
+                      tickFormatter={formatAmount}
+                      className="text-xs"
+                      tick={{ fill: "hsl(var(--muted-foreground))" }}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Legend />
+                    <Line
+                      dataKey="projectedValidators"
+                      name="Validators projected"
+                      stroke="hsl(var(--chart-1))"
+                      strokeDasharray="5 5"
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      dataKey="actualValidators"
+                      name="Validators minted"
+                      stroke="hsl(var(--chart-1))"
+                      strokeWidth={2}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      dataKey="projectedApps"
+                      name="Apps projected"
+                      stroke="hsl(var(--chart-2))"
+                      strokeDasharray="5 5"
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      dataKey="actualApps"
+                      name="Apps minted"
+                      stroke="hsl(var(--chart-2))"
+                      strokeWidth={2}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </ChartContainer>
+            </>
+          )}
+        </Card>
+
+        <DataSourcesFooter
+          snapshotId={current.snapshot?.id}
+          templateSuffixes={["Splice:AmuletRules:AmuletRules"]}
+          isProcessing={false}
+        />
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default IssuanceSimulator;
@@ -6,12 +6,17 @@ import { Input } from "@/components/ui/input";
 import { supabase } from "@/integrations/supabase/client";
 import { Activity, Database, Clock, Search } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
-import { useLedgerUpdates, LedgerUpdate } from "@/hooks/use-ledger-updates";
+import { useSearchParams } from "react-router-dom";
+import { useLedgerUpdates, useLedgerUpdate, LedgerUpdate } from "@/hooks/use-ledger-updates";
 
 const LiveUpdates = () => {
   const { data: updates = [], isLoading } = useLedgerUpdates(100);
   const [realtimeUpdates, setRealtimeUpdates] = useState<LedgerUpdate[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
+  const [searchParams] = useSearchParams();
+  // Linked from search: pin that update even when it is older than the live window
+  const pinnedUpdateId = searchParams.get("update");
+  const { data: pinnedUpdate } = useLedgerUpdate(pinnedUpdateId);
+  const [searchTerm, setSearchTerm] = useState(pinnedUpdateId ?? "");
   const [selectedMigration, setSelectedMigration] = useState<number | null>(null);
 
   useEffect(() => {
@@ -36,9 +41,13 @@ const LiveUpdates = () => {
     };
   }, []);
 
-  const allUpdates = [...realtimeUpdates, ...updates.filter(
-    u => !realtimeUpdates.some(ru => ru.update_id === u.update_id)
-  )];
+  const allUpdates = [
+    ...(pinnedUpdate ? [pinnedUpdate] : []),
+    ...realtimeUpdates.filter(ru => ru.update_id !== pinnedUpdate?.update_id),
+    ...updates.filter(
+      u => u.update_id !== pinnedUpdate?.update_id && !realtimeUpdates.some(ru => ru.update_id === u.update_id)
+    ),
+  ];
 
   const filteredUpdates = allUpdates.filter(update => {
     const matchesSearch = !searchTerm || 
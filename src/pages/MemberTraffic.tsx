@@ -7,6 +7,7 @@ import { Search, Activity, Code } from "lucide-react";
 import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
 import { PaginationControls } from "@/components/PaginationControls";
 import { DataSourcesFooter } from "@/components/DataSourcesFooter";
+import { MemberTrafficForecast } from "@/components/MemberTrafficForecast";
 import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Button } from "@/components/ui/button";
@@ -126,6 +127,8 @@ const MemberTraffic = () => {
           </Card>
         </div>
 
+        <MemberTrafficForecast />
+
         <Card className="p-6">
           <div className="mb-4">
             <div className="relative">
@@ -0,0 +1,428 @@
+import { Link, useParams } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DataSourcesFooter } from "@/components/DataSourcesFooter";
+import { Wallet, Lock, Award, Shield, ArrowLeftRight, Star, History, AtSign } from "lucide-react";
+import { describeScanError } from "@/lib/scan-transport";
+import { DamlDecimal, type DecimalLike } from "@/lib/daml-decimal";
+import { decodeContract } from "@/lib/splice-decoders";
+import { usePartyPortfolio } from "@/hooks/use-party-portfolio";
+import { useBalanceMode } from "@/hooks/use-amulet-balance";
+import { BalanceModeToggle } from "@/components/BalanceModeToggle";
+
+const PARTY_TEMPLATES = [
+  "Splice:Amulet:Amulet",
+  "Splice:Amulet:LockedAmulet",
+  "Splice:ValidatorLicense:ValidatorLicense",
+  "Splice:ValidatorLicense:ValidatorFaucetCoupon",
+  "Splice:Amulet:AppRewardCoupon",
+  "Splice:Amulet:ValidatorRewardCoupon",
+  "Splice:Amulet:SvRewardCoupon",
+];
+
+const formatAmount = (amount: DecimalLike | null | undefined) => {
+  const value = DamlDecimal.tryFrom(amount);
+  if (!value) return "—";
+  return value.toNumber().toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+};
+
+const formatPartyId = (partyId: string) => {
+  if (!partyId) return "N/A";
+  const parts = partyId.split("::");
+  const name = parts[0] || partyId;
+  const hash = parts[1] || "";
+  return `${name}::${hash.substring(0, 8)}...`;
+};
+
+const PartyLink = ({ party }: { party: string }) => (
+  <Link to={`/party/${encodeURIComponent(party)}`} className="font-mono text-xs hover:text-primary">
+    {formatPartyId(party)}
+  </Link>
+);
+
+const Section = ({
+  title,
+  icon: Icon,
+  action,
+  children,
+}: {
+  title: string;
+  icon: typeof Wallet;
+  action?: React.ReactNode;
+  children: React.ReactNode;
+}) => (
+  <Card className="glass-card">
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-xl font-bold flex items-center">
+          <Icon className="h-5 w-5 mr-2 text-primary" />
+          {title}
+        </h3>
+        {action}
+      </div>
+      {children}
+    </div>
+  </Card>
+);
+
+const Stat = ({ label, value, hint }: { label: string; value: React.ReactNode; hint?: string }) => (
+  <div>
+    <p className="text-sm text-muted-foreground">{label}</p>
+    <p className="text-2xl font-bold">{value}</p>
+    {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+  </div>
+);
+
+const Party = () => {
+  const { partyId } = useParams<{ partyId: string }>();
+  const [balanceMode, setBalanceMode] = useBalanceMode();
+  const portfolio = usePartyPortfolio(partyId, balanceMode);
+  const {
+    snapshot,
+    holdingsSummary,
+    snapshotHoldings,
+    amountOf,
+    ans,
+    featuredApp,
+    transferPreapproval,
+    transferCommandCounter,
+    transactions,
+    amulets,
+    lockedAmulets,
+    validatorLicenses,
+    faucetCoupons,
+    appRewards,
+    validatorRewards,
+    svRewards,
+  } = portfolio;
+
+  if (!partyId || !partyId.includes("::")) {
+    return (
+      <DashboardLayout>
+        <div className="p-8 text-muted-foreground">Not a party id. Party ids look like name::fingerprint.</div>
+      </DashboardLayout>
+    );
+  }
+
+  const summary = holdingsSummary.data?.summary;
+  const preapproval = transferPreapproval.data
+    ? decodeContract("Splice:AmuletRules:TransferPreapproval", transferPreapproval.data.transfer_preapproval.contract.payload)
+    : null;
+  const counter = transferCommandCounter.data
+    ? decodeContract(
+        "Splice:ExternalPartyAmuletRules:TransferCommandCounter",
+        transferCommandCounter.data.transfer_command_counter.contract.payload,
+      )
+    : null;
+  const license = validatorLicenses.data[0];
+  const snapshotLoading = amulets.isLoading || lockedAmulets.isLoading;
+  const snapshotHint =
+    balanceMode === "effective" && snapshotHoldings.round !== null
+      ? `Latest snapshot, at round ${snapshotHoldings.round.toLocaleString()}`
+      : "Latest snapshot, before holding fees";
+  const rewardsLoading = appRewards.isLoading || validatorRewards.isLoading || svRewards.isLoading;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold mb-2 flex items-center gap-3 flex-wrap">
+            {ans.data?.entry?.name ?? partyId.split("::")[0]}
+            {license && <Badge variant="secondary">Validator</Badge>}
+            {featuredApp.data?.featured_app_right && <Badge>Featured app</Badge>}
+          </h2>
+          <p className="text-muted-foreground font-mono text-xs break-all">{partyId}</p>
+        </div>
+
+        {/* Holdings */}
+        <Section
+          title="Holdings"
+          icon={Wallet}
+          action={!summary && <BalanceModeToggle mode={balanceMode} onChange={setBalanceMode} />}
+        >
+          {holdingsSummary.error && (
+            <Alert>
+              <AlertDescription>
+                Scan holdings summary unavailable ({describeScanError(holdingsSummary.error)}), showing snapshot totals only
+              </AlertDescription>
+            </Alert>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {holdingsSummary.isLoading ? (
+              [...Array(4)].map((_, i) => <Skeleton key={i} className="h-16 w-full" />)
+            ) : summary ? (
+              <>
+                <Stat label="Unlocked" value={formatAmount(summary.total_unlocked_coin)} hint="Scan, current" />
+                <Stat label="Locked" value={formatAmount(summary.total_locked_coin)} hint="Scan, current" />
+                <Stat label="Total" value={formatAmount(summary.total_coin_holdings)} hint="Scan, current" />
+                <Stat
+                  label="Available"
+                  value={formatAmount(summary.total_available_coin)}
+                  hint="After accumulated holding fees"
+                />
+              </>
+            ) : snapshotLoading ? (
+              [...Array(4)].map((_, i) => <Skeleton key={i} className="h-16 w-full" />)
+            ) : (
+              <>
+                <Stat label="Unlocked" value={formatAmount(snapshotHoldings.unlocked)} hint={snapshotHint} />
+                <Stat label="Locked" value={formatAmount(snapshotHoldings.locked)} hint={snapshotHint} />
+                <Stat
+                  label="Total"
+                  value={formatAmount(snapshotHoldings.unlocked.add(snapshotHoldings.locked))}
+                  hint={snapshotHint}
+                />
+                <Stat label="Amulet contracts" value={amulets.data.length + lockedAmulets.data.length} />
+              </>
+            )}
+          </div>
+        </Section>
+
+        {/* Locks */}
+        <Section
+          title="Locked Amulets"
+          icon={Lock}
+          action={<BalanceModeToggle mode={balanceMode} onChange={setBalanceMode} />}
+        >
+          {lockedAmulets.isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : lockedAmulets.data.length === 0 ? (
+            <p className="text-muted-foreground">No locked amulets in the latest snapshot</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Lock holders</TableHead>
+                    <TableHead>Context</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...lockedAmulets.data]
+                    .sort((a, b) => a.lock.expiresAt.localeCompare(b.lock.expiresAt))
+                    .map((l, i) => (
+                      <TableRow key={i}>
+                        <TableCell className="text-right">{formatAmount(amountOf(l.amulet.amount))}</TableCell>
+                        <TableCell>{new Date(l.lock.expiresAt).toLocaleString()}</TableCell>
+                        <TableCell className="space-x-2">
+                          {l.lock.holders.map((h) => (
+                            <PartyLink key={h} party={h} />
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{l.lock.optContext ?? "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </Section>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Rewards */}
+          <Section title="Unclaimed Rewards" icon={Award}>
+            {rewardsLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : (
+              <div className="grid grid-cols-3 gap-4">
+                <Stat
+                  label="App rewards"
+                  value={formatAmount(DamlDecimal.sum(appRewards.data.map((c) => c.amount)))}
+                  hint={`${appRewards.data.length} coupons, ${appRewards.data.filter((c) => c.featured).length} featured`}
+                />
+                <Stat
+                  label="Validator rewards"
+                  value={formatAmount(DamlDecimal.sum(validatorRewards.data.map((c) => c.amount)))}
+                  hint={`${validatorRewards.data.length} coupons`}
+                />
+                <Stat
+                  label="SV reward coupons"
+                  value={svRewards.data.length}
+                  hint={`weight ${svRewards.data.reduce((sum, c) => sum + c.weight, 0).toLocaleString()}`}
+                />
+              </div>
+            )}
+          </Section>
+
+          {/* Validator */}
+          <Section title="Validator License" icon={Shield}>
+            {validatorLicenses.isLoading || faucetCoupons.isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : !license ? (
+              <p className="text-muted-foreground">Not a validator</p>
+            ) : (
+              <div className="space-y-2 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Sponsor: </span>
+                  <PartyLink party={license.sponsor} />
+                </div>
+                {license.metadata && (
+                  <div>
+                    <span className="text-muted-foreground">Version: </span>
+                    {license.metadata.version}
+                  </div>
+                )}
+                {license.lastActiveAt && (
+                  <div>
+                    <span className="text-muted-foreground">Last active: </span>
+                    {new Date(license.lastActiveAt).toLocaleString()}
+                  </div>
+                )}
+                {license.faucetState && (
+                  <div>
+                    <span className="text-muted-foreground">Faucet rounds: </span>
+                    {license.faucetState.firstReceivedFor.number} – {license.faucetState.lastReceivedFor.number} (
+                    {license.faucetState.numCouponsMissed} missed)
+                  </div>
+                )}
+                <div>
+                  <span className="text-muted-foreground">Open faucet coupons: </span>
+                  {faucetCoupons.data.length}
+                  {faucetCoupons.data.length > 0 &&
+                    ` (rounds ${Math.min(...faucetCoupons.data.map((c) => c.round.number))} – ${Math.max(
+                      ...faucetCoupons.data.map((c) => c.round.number),
+                    )})`}
+                </div>
+              </div>
+            )}
+          </Section>
+
+          {/* Transfer setup */}
+          <Section title="Transfer Setup" icon={ArrowLeftRight}>
+            {transferPreapproval.isLoading || transferCommandCounter.isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : (
+              <div className="space-y-2 text-sm">
+                {preapproval?.ok ? (
+                  <>
+                    <div>
+                      <span className="text-muted-foreground">Preapproval provider: </span>
+                      <PartyLink party={preapproval.value.provider} />
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Preapproval expires: </span>
+                      {new Date(preapproval.value.expiresAt).toLocaleString()}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">No transfer preapproval</p>
+                )}
+                {counter?.ok ? (
+                  <div>
+                    <span className="text-muted-foreground">Next transfer command nonce: </span>
+                    {counter.value.nextNonce}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">No transfer command counter</p>
+                )}
+              </div>
+            )}
+          </Section>
+
+          {/* Names & apps */}
+          <Section title="Names & Apps" icon={AtSign}>
+            {ans.isLoading || featuredApp.isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : (
+              <div className="space-y-2 text-sm">
+                {ans.data?.entry ? (
+                  <div>
+                    <span className="text-muted-foreground">ANS name: </span>
+                    <Link to={`/ans?search=${encodeURIComponent(ans.data.entry.name)}`} className="hover:text-primary">
+                      {ans.data.entry.name}
+                    </Link>
+                    {ans.data.entry.expires_at && (
+                      <span className="text-muted-foreground">
+                        {" "}
+                        (expires {new Date(ans.data.entry.expires_at).toLocaleDateString()})
+                      </span>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">No ANS name</p>
+                )}
+                <div className="flex items-center gap-2">
+                  <Star className="h-4 w-4 text-muted-foreground" />
+                  {featuredApp.data?.featured_app_right ? "Featured app provider" : "Not a featured app"}
+                </div>
+              </div>
+            )}
+          </Section>
+        </div>
+
+        {/* History */}
+        <Section title="Transfer History" icon={History}>
+          {transactions.error && (
+            <Alert variant="destructive">
+              <AlertDescription>Failed to load transactions: {describeScanError(transactions.error)}</AlertDescription>
+            </Alert>
+          )}
+          {transactions.isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : !transactions.data?.transactions.length ? (
+            <p className="text-muted-foreground">No transactions found for this party</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Counterparty</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Round</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.data.transactions.map((tx) => {
+                    const outgoing = tx.transfer?.sender.party === partyId;
+                    const received = tx.transfer?.receivers.find((r) => r.party === partyId);
+                    const counterparty = outgoing ? tx.transfer?.receivers[0]?.party : tx.transfer?.sender.party;
+                    const amount = tx.transfer
+                      ? outgoing
+                        ? DamlDecimal.sum(tx.transfer.receivers.map((r) => r.amount))
+                        : received?.amount
+                      : (tx.mint ?? tx.tap)?.amulet_amount;
+                    return (
+                      <TableRow key={tx.event_id}>
+                        <TableCell className="text-xs">{new Date(tx.date).toLocaleString()}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {tx.transfer ? (outgoing ? "sent" : "received") : tx.transaction_type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{counterparty ? <PartyLink party={counterparty} /> : "—"}</TableCell>
+                        <TableCell className={`text-right ${outgoing ? "text-destructive" : ""}`}>
+                          {outgoing ? "−" : ""}
+                          {formatAmount(amount)}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">{tx.round ?? "—"}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </Section>
+
+        <DataSourcesFooter
+          snapshotId={snapshot?.id}
+          templateSuffixes={PARTY_TEMPLATES}
+          isProcessing={snapshot?.status === "processing"}
+        />
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Party;
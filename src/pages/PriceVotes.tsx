@@ -0,0 +1,328 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import { AlertTriangle, DollarSign } from "lucide-react";
+import { DataSourcesFooter } from "@/components/DataSourcesFooter";
+import { searchRoutes } from "@/lib/search-index";
+import { replayPriceHistory, summarizePriceVotes } from "@/lib/amulet-price-votes";
+import { useAmuletPriceVoteHistory, useAmuletPriceVotes, useLatestRoundPrice } from "@/hooks/use-amulet-price-votes";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const STALE_WINDOWS = [
+  { label: "1h", ms: HOUR_MS },
+  { label: "6h", ms: 6 * HOUR_MS },
+  { label: "24h", ms: 24 * HOUR_MS },
+  { label: "7d", ms: 7 * 24 * HOUR_MS },
+];
+
+const HISTORY_DAYS = [7, 30, 90];
+
+const LINE_COLORS = ["--chart-1", "--chart-2", "--chart-3", "--chart-4", "--chart-5"];
+
+const formatPrice = (value: { toNumber(): number } | null | undefined) =>
+  value == null ? "—" : `$${value.toNumber().toFixed(5)}`;
+
+const formatAge = (ms: number) => {
+  if (ms < HOUR_MS) return `${Math.round(ms / 60000)}m`;
+  if (ms < 48 * HOUR_MS) return `${(ms / HOUR_MS).toFixed(1)}h`;
+  return `${(ms / (24 * HOUR_MS)).toFixed(1)}d`;
+};
+
+const formatDeviation = (d: number | null) => (d == null ? "—" : `${d >= 0 ? "+" : ""}${(d * 100).toFixed(2)}%`);
+
+const formatTime = (t: number) => new Date(t).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const PriceVotes = () => {
+  const [staleWindow, setStaleWindow] = useState(STALE_WINDOWS[2]);
+  const [historyDays, setHistoryDays] = useState(HISTORY_DAYS[0]);
+  const { snapshot, votes, svNames, failures, isLoading, error } = useAmuletPriceVotes();
+  const { data: roundPrice } = useLatestRoundPrice();
+
+  const svParties = useMemo(() => Array.from(svNames.keys()).sort(), [svNames]);
+  const history = useAmuletPriceVoteHistory(historyDays, svParties);
+
+  // Staleness is measured against the snapshot, which is what the votes reflect
+  const now = snapshot ? Date.parse(snapshot.record_time || snapshot.timestamp) : Date.now();
+  const summary = useMemo(
+    () => summarizePriceVotes(votes, svNames, now, staleWindow.ms),
+    [votes, svNames, now, staleWindow],
+  );
+  const points = useMemo(
+    () => (history.data ? replayPriceHistory(history.data.events, svNames) : []),
+    [history.data, svNames],
+  );
+  const seriesNames = useMemo(
+    () => Array.from(new Set(points.flatMap((p) => Object.keys(p.prices)))).sort(),
+    [points],
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold mb-2">Amulet Price Oracle</h2>
+          <p className="text-muted-foreground">
+            SV price votes and the median the DSO applies to each new mining round
+          </p>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load price votes: {(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+        {failures.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {failures.length} price vote(s) could not be decoded and are not counted: {failures[0].message}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="glass-card p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-muted-foreground">Median of Votes</h3>
+              <DollarSign className="h-5 w-5 text-primary" />
+            </div>
+            {isLoading ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <>
+                <p className="text-3xl font-bold text-primary mb-1">{formatPrice(summary.median)}</p>
+                <p className="text-xs text-muted-foreground">
+                  From {summary.pricedCount} priced vote(s) of {votes.length}
+                </p>
+              </>
+            )}
+          </Card>
+          <Card className="glass-card p-6">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">Latest Round Price</h3>
+            {!roundPrice ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <>
+                <p className="text-3xl font-bold mb-1">{formatPrice(roundPrice.price)}</p>
+                <p className="text-xs text-muted-foreground">Open round {roundPrice.round}</p>
+              </>
+            )}
+          </Card>
+          <Card className="glass-card p-6">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">Spread</h3>
+            {isLoading ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <>
+                <p className="text-3xl font-bold mb-1">
+                  {summary.spreadRatio == null ? "—" : `${(summary.spreadRatio * 100).toFixed(2)}%`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatPrice(summary.min)} – {formatPrice(summary.max)}
+                </p>
+              </>
+            )}
+          </Card>
+          <Card className="glass-card p-6">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">Stale Votes</h3>
+            {isLoading ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <>
+                <p className={`text-3xl font-bold mb-1 ${summary.staleCount > 0 ? "text-warning" : ""}`}>
+                  {summary.staleCount}
+                </p>
+                <p className="text-xs text-muted-foreground">Not updated within {staleWindow.label}</p>
+              </>
+            )}
+          </Card>
+        </div>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <h3 className="text-xl font-bold">Current Votes</h3>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Stale after</span>
+              {STALE_WINDOWS.map((w) => (
+                <Button
+                  key={w.label}
+                  size="sm"
+                  variant={staleWindow.label === w.label ? "default" : "outline"}
+                  onClick={() => setStaleWindow(w)}
+                >
+                  {w.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {summary.missingSvs.length > 0 && (
+            <p className="text-sm text-warning flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              No price vote from {summary.missingSvs.join(", ")}
+            </p>
+          )}
+
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : summary.rows.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No price votes in the latest snapshot</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-border/50">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30">
+                    <TableHead>Super Validator</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">vs. Median</TableHead>
+                    <TableHead>Last Updated</TableHead>
+                    <TableHead className="text-right">Age</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.rows.map((row) => (
+                    <TableRow key={row.sv}>
+                      <TableCell>
+                        <Link to={searchRoutes.party(row.sv)} className="font-medium hover:text-primary">
+                          {row.svName}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {row.price ? formatPrice(row.price) : <Badge variant="outline">no price</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatDeviation(row.deviation)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {new Date(row.lastUpdatedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.stale ? (
+                          <Badge variant="destructive">{formatAge(row.ageMs)}</Badge>
+                        ) : (
+                          <span className="text-sm">{formatAge(row.ageMs)}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </Card>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <h3 className="text-xl font-bold">Vote History</h3>
+              <p className="text-sm text-muted-foreground">
+                Each SV's vote and the resulting median, replayed from the ingested ledger events
+              </p>
+            </div>
+            <div className="flex gap-1">
+              {HISTORY_DAYS.map((d) => (
+                <Button
+                  key={d}
+                  size="sm"
+                  variant={historyDays === d ? "default" : "outline"}
+                  onClick={() => setHistoryDays(d)}
+                >
+                  {d}d
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {history.error && (
+            <Alert variant="destructive">
+              <AlertDescription>Failed to load vote history: {(history.error as Error).message}</AlertDescription>
+            </Alert>
+          )}
+          {history.data?.truncated && (
+            <p className="text-xs text-warning">Too many votes in this range; the history is cut off.</p>
+          )}
+
+          {history.isLoading || isLoading ? (
+            <Skeleton className="h-[360px] w-full" />
+          ) : points.length === 0 ? (
+            <div className="h-[360px] flex items-center justify-center">
+              <p className="text-muted-foreground">No price votes in the ingested history for this range</p>
+            </div>
+          ) : (
+            <ChartContainer
+              config={{ median: { label: "Median", color: "hsl(var(--primary))" } }}
+              className="h-[360px] w-full"
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={points}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={["dataMin", "dataMax"]}
+                    tickFormatter={formatTime}
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  />
+                  <YAxis
+                    domain={["auto", "auto"]}
+                    tickFormatter={(v: number) => v.toFixed(4)}
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => {
+                          const p = payload?.[0]?.payload;
+                          return p ? new Date(p.time).toLocaleString() : null;
+                        }}
+                      />
+                    }
+                  />
+                  <Legend />
+                  {seriesNames.map((name, i) => (
+                    <Line
+                      key={name}
+                      type="stepAfter"
+                      dataKey={(p: (typeof points)[number]) => p.prices[name] ?? null}
+                      name={name}
+                      stroke={`hsl(var(${LINE_COLORS[i % LINE_COLORS.length]}))`}
+                      strokeOpacity={0.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  <Line
+                    type="stepAfter"
+                    dataKey="median"
+                    name="Median"
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={3}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          )}
+        </Card>
+
+        <DataSourcesFooter
+          snapshotId={snapshot?.id}
+          templateSuffixes={["Splice:DSO:AmuletPrice:AmuletPriceVote", "Splice:DsoRules:DsoRules"]}
+          isProcessing={false}
+        />
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default PriceVotes;
@@ -1,13 +1,27 @@
+import { Link, useSearchParams } from "react-router-dom";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Wallet, Coins } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Wallet, Coins, Lock, History, ArrowUp, ArrowDown } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
 import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
+import { useKnownEntities } from "@/hooks/use-known-entities";
+import { usePreviousRanks } from "@/hooks/use-rich-list-history";
 import { DataSourcesFooter } from "@/components/DataSourcesFooter";
-import { useState } from "react";
+import { PartyName } from "@/components/PartyName";
+import { RichListConcentration } from "@/components/RichListConcentration";
+import { HolderRankHistory } from "@/components/HolderRankHistory";
+import { BalanceModeToggle } from "@/components/BalanceModeToggle";
+import { useBalanceMode } from "@/hooks/use-amulet-balance";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { decodeContracts } from "@/lib/splice-decoders";
+import { concentration, holderBalances, snapshotRound } from "@/lib/rich-list";
+import { ENTITY_KINDS, ENTITY_KIND_LABELS, type EntityKind } from "@/lib/known-entities";
+import { useMemo, useState } from "react";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -17,15 +31,24 @@ import {
   TableRow,
 } from "@/components/ui/table";
 
-interface HolderBalance {
-  owner: string;
-  amount: number;
-  locked: number;
-  total: number;
-}
+const RankChange = ({ rank, previous }: { rank: number; previous: number | undefined }) => {
+  if (previous === undefined) return <span className="text-xs text-muted-foreground">new</span>;
+  if (previous === rank) return <span className="text-xs text-muted-foreground">—</span>;
+  const up = previous > rank;
+  return (
+    <span className={`inline-flex items-center text-xs ${up ? "text-success" : "text-destructive"}`}>
+      {up ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+      {Math.abs(previous - rank)}
+    </span>
+  );
+};
 
 const RichList = () => {
   const [searchTerm, setSearchTerm] = useState("");
+  const [entityFilter, setEntityFilter] = useState<"all" | "known" | EntityKind>("all");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedHolder = searchParams.get("holder");
+  const [balanceMode, setBalanceMode] = useBalanceMode();
   
   const { data: snapshot } = useLatestACSSnapshot();
 
@@ -43,74 +66,73 @@ const RichList = () => {
     !!snapshot
   );
 
-  const isLoading = amuletLoading || lockedLoading;
-
-  // Aggregate balances by owner
-  const holderBalances: HolderBalance[] = (() => {
-    const balanceMap = new Map<string, HolderBalance>();
-
-    // Process regular amulets from all packages
-    (amuletData?.data || []).forEach((amulet: any) => {
-      const owner = amulet.owner;
-      const amount = parseFloat(amulet.amount?.initialAmount || "0");
-      
-      if (!balanceMap.has(owner)) {
-        balanceMap.set(owner, { owner, amount: 0, locked: 0, total: 0 });
-      }
-      const holder = balanceMap.get(owner)!;
-      holder.amount += amount;
-      holder.total += amount;
-    });
+  // The open rounds say which round the snapshot's balances are valued at
+  const { data: roundData, isLoading: roundsLoading } = useAggregatedTemplateData(
+    snapshot?.id,
+    "Splice:Round:OpenMiningRound",
+    !!snapshot
+  );
 
-    // Process locked amulets from all packages
-    (lockedData?.data || []).forEach((locked: any) => {
-      const owner = locked.amulet?.owner || locked.owner;
-      const amount = parseFloat(locked.amulet?.amount?.initialAmount || locked.amount?.initialAmount || "0");
-      
-      if (!balanceMap.has(owner)) {
-        balanceMap.set(owner, { owner, amount: 0, locked: 0, total: 0 });
-      }
-      const holder = balanceMap.get(owner)!;
-      holder.locked += amount;
-      holder.total += amount;
-    });
+  const { entities } = useKnownEntities();
+  const previousRanks = usePreviousRanks(snapshot?.record_time);
 
-    return Array.from(balanceMap.values())
-      .sort((a, b) => b.total - a.total)
-      .filter((h) => {
-        if (!searchTerm) return true;
-        return h.owner.toLowerCase().includes(searchTerm.toLowerCase());
-      });
-  })();
+  const isLoading = amuletLoading || lockedLoading || roundsLoading;
 
-  const topHolders = holderBalances.slice(0, 100);
-  const totalSupply = holderBalances.reduce((sum, h) => sum + h.total, 0);
+  // Balances by owner, after holding fees unless nominal, largest first
+  const { holders, round } = useMemo(() => {
+    if (!snapshot || !amuletData || !lockedData) return { holders: [], round: null };
+    const amulets = decodeContracts("Splice:Amulet:Amulet", amuletData.data).values;
+    const locked = decodeContracts("Splice:Amulet:LockedAmulet", lockedData.data).values;
+    const rounds = decodeContracts("Splice:Round:OpenMiningRound", roundData?.data || []).values;
+    const round = snapshotRound(snapshot.record_time, rounds, amulets, locked);
+    return { holders: round === null ? [] : holderBalances(amulets, locked, round, balanceMode), round };
+  }, [snapshot, amuletData, lockedData, roundData, balanceMode]);
 
-  const formatAmount = (amount: number) => {
-    return amount.toLocaleString(undefined, {
+  const metrics = useMemo(() => (holders.length > 0 ? concentration(holders.map((h) => h.total)) : null), [holders]);
+  const totals = useMemo(
+    () => ({
+      total: DamlDecimal.sum(holders.map((h) => h.total)),
+      locked: DamlDecimal.sum(holders.map((h) => h.locked)),
+      nominal: DamlDecimal.sum(holders.map((h) => h.nominal)),
+    }),
+    [holders],
+  );
+
+  const filteredHolders = holders
+    .map((holder, index) => ({ holder, rank: index + 1, entity: entities.get(holder.owner) }))
+    .filter(({ holder, entity }) => {
+      if (entityFilter === "known" && !entity) return false;
+      if (entityFilter !== "all" && entityFilter !== "known" && entity?.kind !== entityFilter) return false;
+      if (!searchTerm) return true;
+      const search = searchTerm.toLowerCase();
+      return holder.owner.toLowerCase().includes(search) || !!entity?.label.toLowerCase().includes(search);
+    });
+
+  const topHolders = filteredHolders.slice(0, 100);
+  const totalSupply = totals.total.toNumber();
+
+  const formatAmount = (amount: DamlDecimal | number) => {
+    return Number(amount.toString()).toLocaleString(undefined, {
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     });
   };
 
-  const formatParty = (party: string) => {
-    if (!party) return "Unknown";
-    const parts = party.split("::");
-    return parts[0]?.substring(0, 30) || party.substring(0, 30);
-  };
-
   return (
     <DashboardLayout>
       <div className="space-y-6">
-        <div>
-          <h2 className="text-3xl font-bold mb-2">Rich List</h2>
-          <p className="text-muted-foreground">
-            Top CC holders and balance distribution
-          </p>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold mb-2">Rich List</h2>
+            <p className="text-muted-foreground">
+              Top CC holders and balance distribution
+            </p>
+          </div>
+          <BalanceModeToggle mode={balanceMode} onChange={setBalanceMode} />
         </div>
 
         {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <Card className="glass-card p-6">
             <div className="flex items-center justify-between mb-2">
               <h3 className="text-sm font-medium text-muted-foreground">Total Holders</h3>
@@ -121,7 +143,7 @@ const RichList = () => {
             ) : (
               <>
                 <p className="text-3xl font-bold text-primary mb-1">
-                  {holderBalances.length.toLocaleString()}
+                  {holders.length.toLocaleString()}
                 </p>
                 <p className="text-xs text-muted-foreground">Unique holders</p>
               </>
@@ -138,22 +160,73 @@ const RichList = () => {
             ) : (
               <>
                 <p className="text-3xl font-bold text-success mb-1">
-                  {formatAmount(totalSupply)}
+                  {formatAmount(totals.total)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {balanceMode === "effective" ? (
+                    <>
+                      CC after holding fees{round !== null ? ` at round ${round.toLocaleString()}` : ""};{" "}
+                      {formatAmount(totals.nominal)} before
+                    </>
+                  ) : (
+                    "CC as created, before holding fees"
+                  )}
                 </p>
-                <p className="text-xs text-muted-foreground">CC</p>
+              </>
+            )}
+          </Card>
+
+          <Card className="glass-card p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-muted-foreground">Locked Balance</h3>
+              <Lock className="h-5 w-5 text-warning" />
+            </div>
+            {isLoading ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <>
+                <p className="text-3xl font-bold text-warning mb-1">
+                  {formatAmount(totals.locked)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  CC, {totalSupply > 0 ? ((totals.locked.toNumber() / totalSupply) * 100).toFixed(2) : "0.00"}% of the total
+                </p>
+                <Link to="/unlock-schedule" className="text-xs text-primary hover:underline">
+                  Unlock schedule
+                </Link>
               </>
             )}
           </Card>
         </div>
 
+        <RichListConcentration current={metrics} isLoading={isLoading} />
+
+        {selectedHolder && (
+          <HolderRankHistory owner={selectedHolder} onClose={() => setSearchParams({})} />
+        )}
+
         {/* Search */}
-        <div className="flex gap-4">
+        <div className="flex flex-col md:flex-row gap-4">
           <Input
-            placeholder="Search by party ID..."
+            placeholder="Search by party ID or entity..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="max-w-md"
           />
+          <Select value={entityFilter} onValueChange={(v) => setEntityFilter(v as typeof entityFilter)}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All holders</SelectItem>
+              <SelectItem value="known">Known entities</SelectItem>
+              {ENTITY_KINDS.map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {ENTITY_KIND_LABELS[kind]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         {/* Top Holders Table */}
@@ -170,23 +243,49 @@ const RichList = () => {
                   <TableHeader>
                     <TableRow>
                       <TableHead className="w-16">#</TableHead>
+                      {/* Rank history is kept by effective balance, so nominal ranks have nothing to compare with */}
+                      {balanceMode === "effective" && (
+                        <TableHead className="w-16" title={previousRanks.data ? `Since ${new Date(previousRanks.data.recordTime).toLocaleString()}` : undefined}>
+                          Change
+                        </TableHead>
+                      )}
                       <TableHead>Holder</TableHead>
                       <TableHead className="text-right">Unlocked</TableHead>
                       <TableHead className="text-right">Locked</TableHead>
                       <TableHead className="text-right">Total Balance</TableHead>
                       <TableHead className="text-right">% of Supply</TableHead>
+                      <TableHead className="w-12" />
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {topHolders.map((holder, index) => (
+                    {topHolders.map(({ holder, rank, entity }) => (
                       <TableRow key={holder.owner}>
-                        <TableCell className="font-medium">{index + 1}</TableCell>
+                        <TableCell className="font-medium">{rank}</TableCell>
+                        {balanceMode === "effective" && (
+                          <TableCell>
+                            {previousRanks.data ? (
+                              <RankChange rank={rank} previous={previousRanks.data.ranks.get(holder.owner)} />
+                            ) : (
+                              <span className="text-xs text-muted-foreground">—</span>
+                            )}
+                          </TableCell>
+                        )}
                         <TableCell>
-                          <Badge variant="outline" className="font-mono text-xs">
-                            {formatParty(holder.owner)}
-                          </Badge>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Link to={`/party/${encodeURIComponent(holder.owner)}`}>
+                              <Badge variant="outline" className="font-mono text-xs hover:border-primary">
+                                <PartyName party={holder.owner} />
+                              </Badge>
+                            </Link>
+                            {entity && (
+                              <Badge variant="secondary" className="text-xs" title={entity.note ?? ENTITY_KIND_LABELS[entity.kind]}>
+                                {entity.label}
+                                <span className="ml-1 text-muted-foreground">· {ENTITY_KIND_LABELS[entity.kind]}</span>
+                              </Badge>
+                            )}
+                          </div>
                         </TableCell>
-                        <TableCell className="text-right">{formatAmount(holder.amount)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(holder.unlocked)}</TableCell>
                         <TableCell className="text-right text-warning">
                           {formatAmount(holder.locked)}
                         </TableCell>
@@ -194,7 +293,17 @@ const RichList = () => {
                           {formatAmount(holder.total)}
                         </TableCell>
                         <TableCell className="text-right text-muted-foreground">
-                          {((holder.total / totalSupply) * 100).toFixed(2)}%
+                          {totalSupply > 0 ? ((holder.total.toNumber() / totalSupply) * 100).toFixed(2) : "0.00"}%
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Rank history"
+                            onClick={() => setSearchParams({ holder: holder.owner })}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -202,12 +311,18 @@ const RichList = () => {
                 </Table>
               </div>
             )}
+            <p className="text-xs text-muted-foreground mt-4">
+              {balanceMode === "effective"
+                ? "Balances are what each holder could spend at the snapshot's round: the initial amount of every amulet less the holding fee accrued since it was created."
+                : "Balances are the initial amount of every amulet as created, before holding fees; rank changes are only tracked for effective balances."}{" "}
+              Entities come from the approved SV list, featured app providers, the DSO and labels kept by admins.
+            </p>
           </div>
         </Card>
 
         <DataSourcesFooter
           snapshotId={snapshot?.id}
-          templateSuffixes={["Splice:Amulet:Amulet", "Splice:Amulet:LockedAmulet"]}
+          templateSuffixes={["Splice:Amulet:Amulet", "Splice:Amulet:LockedAmulet", "Splice:Round:OpenMiningRound"]}
           isProcessing={false}
         />
       </div>
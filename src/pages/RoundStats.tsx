@@ -5,6 +5,7 @@ import { useQuery } from "@tanstack/react-query";
 import { scanApi } from "@/lib/api-client";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 
 const StatCard = ({
   label,
@@ -37,6 +38,8 @@ const StatCard = ({
 };
 
 const RoundStats = () => {
+  const [searchParams] = useSearchParams();
+  const requestedRound = searchParams.get("round");
   const [roundRange, setRoundRange] = useState<{ start: number; end: number } | null>(null);
 
   // Fetch latest round to determine range
@@ -47,11 +50,17 @@ const RoundStats = () => {
 
   useEffect(() => {
     if (latestRound && !roundRange) {
+      if (requestedRound !== null && /^\d+$/.test(requestedRound)) {
+        // Linked to one round: show it with a few rounds either side
+        const round = Math.min(Number(requestedRound), latestRound.round);
+        setRoundRange({ start: Math.max(0, round - 5), end: Math.min(latestRound.round, round + 5) });
+        return;
+      }
       const end = latestRound.round;
       const start = Math.max(0, end - 20); // last 20 rounds
       setRoundRange({ start, end });
     }
-  }, [latestRound, roundRange]);
+  }, [latestRound, roundRange, requestedRound]);
 
   // Fetch round totals
   const { data: roundTotals, isLoading } = useQuery({
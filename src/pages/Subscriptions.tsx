@@ -12,6 +12,7 @@ import { DataSourcesFooter } from "@/components/DataSourcesFooter";
 import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Button } from "@/components/ui/button";
+import { SubscriptionLedger } from "@/components/SubscriptionLedger";
 
 const Subscriptions = () => {
   const [searchTerm, setSearchTerm] = useState("");
@@ -147,6 +148,8 @@ const Subscriptions = () => {
           </Card>
         </div>
 
+        <SubscriptionLedger />
+
         <Card className="p-6">
           <div className="mb-4">
             <div className="relative">
@@ -1,3 +1,4 @@
+import { Link } from "react-router-dom";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -11,9 +12,15 @@ import { useQueryClient, useQuery } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { useState } from "react";
 import { DataSourcesFooter } from "@/components/DataSourcesFooter";
+import { ScanConsistencyAlert } from "@/components/ScanConsistencyAlert";
+import { SupplyHistoryChart } from "@/components/SupplyHistoryChart";
 import { PaginationControls } from "@/components/PaginationControls";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { scanApi } from "@/lib/api-client";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { sumBalances } from "@/lib/amulet-balance";
+import { BalanceModeToggle } from "@/components/BalanceModeToggle";
+import { useBalanceMode, useSnapshotBalanceRound } from "@/hooks/use-amulet-balance";
 
 const Supply = () => {
   const queryClient = useQueryClient();
@@ -22,6 +29,7 @@ const Supply = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [openItems, setOpenItems] = useState<Record<number, boolean>>({});
   const itemsPerPage = 20;
+  const [balanceMode, setBalanceMode] = useBalanceMode();
 
   const handleForceRefresh = async () => {
     try {
@@ -86,22 +94,28 @@ const Supply = () => {
     !!latestSnapshot
   );
 
-  const isLoading = amuletLoading || lockedLoading || allocationsQuery.isLoading || openLoading || issuingLoading || closedLoading || latestRoundLoading;
+  // Round the snapshot's amulets are valued at, for effective balances
+  const balanceRound = useSnapshotBalanceRound(latestSnapshot);
 
-  // Calculate supply metrics
-  const totalUnlocked = (amuletData?.data || []).reduce((sum: number, amulet: any) => {
-    const amount = parseFloat(amulet.amount?.initialAmount || "0");
-    return sum + amount;
-  }, 0);
+  const isLoading = amuletLoading || lockedLoading || allocationsQuery.isLoading || openLoading || issuingLoading || closedLoading || latestRoundLoading || balanceRound.isLoading;
 
-  const totalLocked = (lockedData?.data || []).reduce((sum: number, locked: any) => {
-    const amount = parseFloat(locked.amulet?.amount?.initialAmount || locked.amount?.initialAmount || "0");
-    return sum + amount;
-  }, 0);
+  // Calculate supply metrics (exact Numeric 10 sums); nominal until the round is known
+  const valuedMode = balanceRound.round === null ? "nominal" : balanceMode;
+  const valuedRound = balanceRound.round ?? 0;
+  const totalUnlocked = sumBalances(amuletData?.data || [], valuedRound, valuedMode, { rateFor: balanceRound.rateFor });
+  const totalLocked = sumBalances(lockedData?.data || [], valuedRound, valuedMode, {
+    locked: true,
+    rateFor: balanceRound.rateFor,
+  });
+  const valuationNote =
+    valuedMode === "effective" ? `after holding fees at round ${valuedRound.toLocaleString()}` : "before holding fees";
 
-  const totalSupply = totalUnlocked + totalLocked;
+  const totalSupply = totalUnlocked.add(totalLocked);
   const circulatingSupply = totalUnlocked;
 
+  const shareOfSupply = (amount: DamlDecimal) =>
+    totalSupply.isZero() ? "0.0" : (amount.div(totalSupply).toNumber() * 100).toFixed(1);
+
   // Process allocations
   const getField = (obj: any, fieldNames: string[]) => {
     for (const name of fieldNames) {
@@ -148,18 +162,18 @@ const Supply = () => {
 
   const totalAllocationsPages = Math.ceil(filteredAllocations.length / itemsPerPage);
 
-  const totalAllocationAmount = filteredAllocations.reduce((sum: number, allocation: any) => {
-    const amount = parseFloat(getField(allocation, ["amount", "allocation.transferLeg.amount"]) || "0");
-    return sum + amount;
-  }, 0);
+  const totalAllocationAmount = filteredAllocations.reduce((sum: DamlDecimal, allocation: any) => {
+    const amount = DamlDecimal.tryFrom(getField(allocation, ["amount", "allocation.transferLeg.amount"]));
+    return amount ? sum.add(amount) : sum;
+  }, DamlDecimal.ZERO);
 
   // Process mining rounds
   const openRounds = openRoundsData?.data || [];
   const issuingRounds = issuingRoundsData?.data || [];
   const closedRounds = (closedRoundsData?.data || []).slice(0, 20);
 
-  const formatAmount = (amount: number) => {
-    return amount.toLocaleString(undefined, {
+  const formatAmount = (amount: DamlDecimal) => {
+    return amount.toNumber().toLocaleString(undefined, {
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     });
@@ -175,18 +189,23 @@ const Supply = () => {
               Track supply, allocations, and mining rounds from ACS snapshots
             </p>
           </div>
-          <Button 
-            onClick={handleForceRefresh}
-            variant="outline"
-            size="sm"
-            className="gap-2"
-            disabled={isRefreshing}
-          >
-            <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
-            {isRefreshing ? 'Refreshing...' : 'Force Refresh'}
-          </Button>
+          <div className="flex items-center gap-2">
+            <BalanceModeToggle mode={balanceMode} onChange={setBalanceMode} />
+            <Button 
+              onClick={handleForceRefresh}
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={isRefreshing}
+            >
+              <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              {isRefreshing ? 'Refreshing...' : 'Force Refresh'}
+            </Button>
+          </div>
         </div>
 
+        <ScanConsistencyAlert />
+
         {/* Supply Stats */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card className="glass-card p-6">
@@ -201,7 +220,7 @@ const Supply = () => {
                 <p className="text-3xl font-bold text-primary mb-1">
                   {formatAmount(totalSupply)}
                 </p>
-                <p className="text-xs text-muted-foreground">CC</p>
+                <p className="text-xs text-muted-foreground">CC {valuationNote}</p>
               </>
             )}
           </Card>
@@ -219,7 +238,7 @@ const Supply = () => {
                   {formatAmount(totalUnlocked)}
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  {((totalUnlocked / totalSupply) * 100).toFixed(1)}% of supply
+                  {shareOfSupply(totalUnlocked)}% of supply
                 </p>
               </>
             )}
@@ -238,8 +257,11 @@ const Supply = () => {
                   {formatAmount(totalLocked)}
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  {((totalLocked / totalSupply) * 100).toFixed(1)}% of supply
+                  {shareOfSupply(totalLocked)}% of supply
                 </p>
+                <Link to="/unlock-schedule" className="text-xs text-primary hover:underline">
+                  Unlock schedule
+                </Link>
               </>
             )}
           </Card>
@@ -257,13 +279,15 @@ const Supply = () => {
                   {formatAmount(circulatingSupply)}
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  {((circulatingSupply / totalSupply) * 100).toFixed(1)}% of supply
+                  {shareOfSupply(circulatingSupply)}% of supply
                 </p>
               </>
             )}
           </Card>
         </div>
 
+        <SupplyHistoryChart />
+
         {/* Allocations Section */}
         <div className="space-y-4">
           <div>
@@ -297,7 +321,7 @@ const Supply = () => {
                 <Skeleton className="h-10 w-full" />
               ) : (
                 <p className="text-3xl font-bold text-primary">
-                  {totalAllocationAmount.toLocaleString(undefined, { maximumFractionDigits: 4 })} CC
+                  {totalAllocationAmount.toNumber().toLocaleString(undefined, { maximumFractionDigits: 4 })} CC
                 </p>
               )}
             </Card>
@@ -6,14 +6,20 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { useACSTemplateData, useACSTemplates } from "@/hooks/use-acs-template-data";
 import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
 import { Database, FileJson, ChevronRight, ChevronDown } from "lucide-react";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { getPagesThatUseTemplate } from "@/lib/template-page-map";
+import { decodeContracts, spliceTemplateOf } from "@/lib/splice-decoders";
 
 const TemplateRow = ({ snapshotId, templateId, contractCount }: { snapshotId: string; templateId: string; contractCount: number; }) => {
   const [open, setOpen] = useState(false);
   const suffix = templateId.split(":").slice(-3).join(":");
   const pages = getPagesThatUseTemplate(templateId);
   const { data, isLoading } = useACSTemplateData(snapshotId, templateId, open);
+  const decoderKey = spliceTemplateOf(templateId);
+  const decodeReport = useMemo(
+    () => (decoderKey && data?.data ? decodeContracts(decoderKey, data.data) : null),
+    [decoderKey, data]
+  );
 
   return (
     <Card className="p-0 overflow-hidden">
@@ -47,6 +53,20 @@ const TemplateRow = ({ snapshotId, templateId, contractCount }: { snapshotId: st
               <div className="space-y-3">
                 {data?.data && data.data.length > 0 ? (
                   <>
+                    {decodeReport ? (
+                      decodeReport.failures.length === 0 ? (
+                        <Badge variant="outline" className="text-xs">All {data.data.length} payloads match the {decoderKey} decoder</Badge>
+                      ) : (
+                        <div className="space-y-1">
+                          <Badge variant="destructive" className="text-xs">
+                            {decodeReport.failures.length} of {data.data.length} payloads fail to decode
+                          </Badge>
+                          <p className="text-xs font-mono text-destructive">{decodeReport.failures[0].message}</p>
+                        </div>
+                      )
+                    ) : (
+                      <Badge variant="secondary" className="text-xs">No typed decoder for this template</Badge>
+                    )}
                     <p className="text-xs text-muted-foreground">Showing first {Math.min(3, data.data.length)} of {data.data.length} records</p>
                     <div className="grid gap-3 md:grid-cols-2">
                       {data.data.slice(0, 3).map((entry: any, idx: number) => (
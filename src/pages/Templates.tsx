@@ -6,10 +6,14 @@ import { useACSTemplateData, useACSTemplates } from "@/hooks/use-acs-template-da
 import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
 import { FileJson, Database, ChevronDown, ChevronRight } from "lucide-react";
 import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { getPagesThatUseTemplate } from "@/lib/template-page-map";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SnapshotDiffView } from "@/components/SnapshotDiffView";
 
 const Templates = () => {
-  const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const [selectedTemplate, setSelectedTemplate] = useState<string | null>(searchParams.get("template"));
 
   // Fetch latest completed snapshot
   const { data: latestSnapshot } = useLatestACSSnapshot();
@@ -134,7 +138,7 @@ const Templates = () => {
         <div>
           <h2 className="text-3xl font-bold mb-2">Template Data Explorer</h2>
           <p className="text-muted-foreground mb-2">
-            Explore available templates and their data structures from the latest ACS snapshot
+            Explore available templates and their data structures from the latest ACS snapshot, or compare two snapshots
           </p>
           <p className="text-xs text-muted-foreground bg-muted/30 p-3 rounded-lg">
             <strong>Template ID Format:</strong> <code className="bg-background px-1 rounded">package-hash:Module:Entity:Template</code>
@@ -144,118 +148,131 @@ const Templates = () => {
           </p>
         </div>
 
-        {/* Snapshot Info */}
-        {latestSnapshot && (
-          <Card className="glass-card p-4">
-            <div className="flex items-center gap-4 text-sm">
-              <div className="flex items-center gap-2">
-                <Database className="h-4 w-4 text-primary" />
-                <span className="text-muted-foreground">Snapshot:</span>
-                <code className="text-foreground">{latestSnapshot.id.substring(0, 8)}...</code>
-              </div>
-              <div className="flex items-center gap-2">
-                <span className="text-muted-foreground">Migration:</span>
-                <code className="text-foreground">{latestSnapshot.migration_id}</code>
-              </div>
-              <div className="flex items-center gap-2">
-                <span className="text-muted-foreground">Recorded:</span>
-                <code className="text-foreground">
-                  {new Date(latestSnapshot.timestamp).toLocaleString()}
-                </code>
-              </div>
-            </div>
-          </Card>
-        )}
+        <Tabs defaultValue="explorer" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="explorer">Explorer</TabsTrigger>
+            <TabsTrigger value="compare">Compare Snapshots</TabsTrigger>
+          </TabsList>
 
-        <div className="space-y-4">
-          {templatesLoading ? (
-            <div className="grid gap-4">
-              {[...Array(5)].map((_, i) => (
-                <Skeleton key={i} className="h-20 w-full" />
-              ))}
-            </div>
-          ) : (
-            <div className="grid gap-4">
-              {templates?.map((template) => (
-                <div key={template.template_id}>
-                  <Card
-                    className={`glass-card p-6 cursor-pointer transition-all hover:border-primary ${
-                      selectedTemplate === template.template_id ? "border-primary" : ""
-                    }`}
-                    onClick={() => setSelectedTemplate(
-                      selectedTemplate === template.template_id ? null : template.template_id
-                    )}
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-3 mb-2">
-                          {selectedTemplate === template.template_id ? (
-                            <ChevronDown className="h-5 w-5 text-primary" />
-                          ) : (
-                            <ChevronRight className="h-5 w-5 text-muted-foreground" />
-                          )}
-                          <FileJson className="h-5 w-5 text-primary" />
-                          <code className="text-lg font-mono text-foreground">
-                            {template.template_id}
-                          </code>
-                        </div>
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground ml-10 flex-wrap">
-                          <Badge variant="outline" className="text-xs">
-                            {template.contract_count.toLocaleString()} contracts
+          <TabsContent value="compare">
+            <SnapshotDiffView />
+          </TabsContent>
+
+          <TabsContent value="explorer" className="space-y-6">
+            {/* Snapshot Info */}
+            {latestSnapshot && (
+              <Card className="glass-card p-4">
+                <div className="flex items-center gap-4 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Database className="h-4 w-4 text-primary" />
+                    <span className="text-muted-foreground">Snapshot:</span>
+                    <code className="text-foreground">{latestSnapshot.id.substring(0, 8)}...</code>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">Migration:</span>
+                    <code className="text-foreground">{latestSnapshot.migration_id}</code>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">Recorded:</span>
+                    <code className="text-foreground">
+                      {new Date(latestSnapshot.timestamp).toLocaleString()}
+                    </code>
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            <div className="space-y-4">
+              {templatesLoading ? (
+                <div className="grid gap-4">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-20 w-full" />
+                  ))}
+                </div>
+              ) : (
+                <div className="grid gap-4">
+                  {templates?.map((template) => (
+                    <div key={template.template_id}>
+                      <Card
+                        className={`glass-card p-6 cursor-pointer transition-all hover:border-primary ${
+                          selectedTemplate === template.template_id ? "border-primary" : ""
+                        }`}
+                        onClick={() => setSelectedTemplate(
+                          selectedTemplate === template.template_id ? null : template.template_id
+                        )}
+                      >
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-3 mb-2">
+                              {selectedTemplate === template.template_id ? (
+                                <ChevronDown className="h-5 w-5 text-primary" />
+                              ) : (
+                                <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                              )}
+                              <FileJson className="h-5 w-5 text-primary" />
+                              <code className="text-lg font-mono text-foreground">
+                                {template.template_id}
+                              </code>
+                            </div>
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground ml-10 flex-wrap">
+                              <Badge variant="outline" className="text-xs">
+                                {template.contract_count.toLocaleString()} contracts
+                              </Badge>
+                              {getPagesThatUseTemplate(template.template_id).map(page => (
+                                <Badge key={page} variant="secondary" className="text-xs">
+                                  Used in: {page}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                          <Badge variant={selectedTemplate === template.template_id ? "default" : "outline"}>
+                            {selectedTemplate === template.template_id ? "Expanded" : "Click to expand"}
                           </Badge>
-                          {getPagesThatUseTemplate(template.template_id).map(page => (
-                            <Badge key={page} variant="secondary" className="text-xs">
-                              Used in: {page}
-                            </Badge>
-                          ))}
                         </div>
-                      </div>
-                      <Badge variant={selectedTemplate === template.template_id ? "default" : "outline"}>
-                        {selectedTemplate === template.template_id ? "Expanded" : "Click to expand"}
-                      </Badge>
-                    </div>
-                  </Card>
+                      </Card>
 
-                  {selectedTemplate === template.template_id && (
-                    <div className="ml-6 mt-2 space-y-4">
-                      {dataLoading ? (
-                        <Skeleton className="h-96 w-full" />
-                      ) : templateData && structure ? (
-                        <>
-                          <Card className="glass-card p-6">
-                            <h3 className="text-xl font-bold mb-4">Data Structure</h3>
-                            <p className="text-sm text-muted-foreground mb-4">
-                              Analyzed from sample entry. Fields and types may vary across entries.
-                            </p>
-                            <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm overflow-x-auto">
-                              {renderStructure(structure)}
-                            </div>
-                            <p className="text-xs text-muted-foreground mt-4">
-                              Based on {templateData.data.length} sample contract(s)
-                            </p>
-                          </Card>
+                      {selectedTemplate === template.template_id && (
+                        <div className="ml-6 mt-2 space-y-4">
+                          {dataLoading ? (
+                            <Skeleton className="h-96 w-full" />
+                          ) : templateData && structure ? (
+                            <>
+                              <Card className="glass-card p-6">
+                                <h3 className="text-xl font-bold mb-4">Data Structure</h3>
+                                <p className="text-sm text-muted-foreground mb-4">
+                                  Analyzed from sample entry. Fields and types may vary across entries.
+                                </p>
+                                <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm overflow-x-auto">
+                                  {renderStructure(structure)}
+                                </div>
+                                <p className="text-xs text-muted-foreground mt-4">
+                                  Based on {templateData.data.length} sample contract(s)
+                                </p>
+                              </Card>
 
-                          <Card className="glass-card p-6">
-                            <h4 className="text-lg font-semibold mb-4">Sample Entry (First Record)</h4>
-                            <div className="bg-muted/30 rounded-lg p-4 overflow-x-auto">
-                              <pre className="text-xs font-mono">
-                                {JSON.stringify(templateData.data[0], null, 2)}
-                              </pre>
-                            </div>
-                          </Card>
-                        </>
-                      ) : (
-                        <Card className="glass-card p-6">
-                          <p className="text-muted-foreground">No data available for this template.</p>
-                        </Card>
+                              <Card className="glass-card p-6">
+                                <h4 className="text-lg font-semibold mb-4">Sample Entry (First Record)</h4>
+                                <div className="bg-muted/30 rounded-lg p-4 overflow-x-auto">
+                                  <pre className="text-xs font-mono">
+                                    {JSON.stringify(templateData.data[0], null, 2)}
+                                  </pre>
+                                </div>
+                              </Card>
+                            </>
+                          ) : (
+                            <Card className="glass-card p-6">
+                              <p className="text-muted-foreground">No data available for this template.</p>
+                            </Card>
+                          )}
+                        </div>
                       )}
                     </div>
-                  )}
+                  ))}
                 </div>
-              ))}
+              )}
             </div>
-          )}
-        </div>
+          </TabsContent>
+        </Tabs>
       </div>
     </DashboardLayout>
   );
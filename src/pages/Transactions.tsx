@@ -4,10 +4,12 @@ import { Badge } from "@/components/ui/badge";
 import { ArrowRight, ExternalLink } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { scanApi } from "@/lib/api-client";
+import { describeScanError } from "@/lib/scan-transport";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Link } from "react-router-dom";
 
 const Transactions = () => {
-  const { data: transactions, isLoading, isError, refetch } = useQuery({
+  const { data: transactions, isLoading, isError, error, refetch } = useQuery({
     queryKey: ["transactions"],
     queryFn: () => scanApi.fetchTransactions({ page_size: 20, sort_order: "desc" }),
   });
@@ -67,7 +69,7 @@ const Transactions = () => {
             ) : isError ? (
               <div className="h-48 flex flex-col items-center justify-center text-center space-y-3 text-muted-foreground">
                 <p className="font-medium">Unable to load transactions</p>
-                <p className="text-xs">The API may be temporarily unavailable. Please try again.</p>
+                <p className="text-xs">{describeScanError(error)}</p>
                 <button
                   onClick={() => refetch()}
                   className="inline-flex items-center justify-center rounded-md px-3 py-1.5 text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-smooth"
@@ -97,7 +99,17 @@ const Transactions = () => {
                       </div>
                       <div className="text-right">
                         <p className="text-sm text-muted-foreground">Round</p>
-                        <p className="font-mono font-semibold">{tx.round || "N/A"}</p>
+                        {tx.round ? (
+                          <Link
+                            to={`/amulet-rules?round=${tx.round}`}
+                            className="font-mono font-semibold hover:text-primary"
+                            title="Fee schedule for this round"
+                          >
+                            {tx.round}
+                          </Link>
+                        ) : (
+                          <p className="font-mono font-semibold">N/A</p>
+                        )}
                       </div>
                     </div>
 
@@ -0,0 +1,409 @@
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Network, RefreshCw, X } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { PaginationControls } from "@/components/PaginationControls";
+import { PartyName } from "@/components/PartyName";
+import { TransferFlowGraph } from "@/components/TransferFlowGraph";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { aggregateFlows, topCounterparties, type Counterparty, type FlowEdge } from "@/lib/transfer-flows";
+import {
+  useRecentTransferFlows,
+  useSyncTransferFlows,
+  useTransferCounterparties,
+  useTransferFlowCursors,
+  useTransferFlowEdges,
+} from "@/hooks/use-transfer-flows";
+
+type FlowSource = "ledger" | "scan";
+
+const WINDOWS = [
+  { hours: 24, label: "Last 24 hours" },
+  { hours: 7 * 24, label: "Last 7 days" },
+  { hours: 30 * 24, label: "Last 30 days" },
+  { hours: 90 * 24, label: "Last 90 days" },
+];
+const GRAPH_EDGES = 40;
+const EDGE_LIMIT = 500;
+const SCAN_PAGES = 10;
+const PAGE_SIZE = 25;
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatCC = (value: DamlDecimal) =>
+  Number(value.toString()).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const partyLink = (party: string) => `/party/${encodeURIComponent(party)}`;
+
+const PartyLink = ({ party }: { party: string }) => (
+  <Link to={partyLink(party)} className="font-mono text-xs hover:text-primary">
+    <PartyName party={party} />
+  </Link>
+);
+
+const CounterpartyTable = ({ party, rows, isLoading }: { party: string; rows: Counterparty[]; isLoading: boolean }) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-medium">
+      Top counterparties of <PartyLink party={party} />
+    </h3>
+    {isLoading ? (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-8 w-full" />
+        ))}
+      </div>
+    ) : rows.length === 0 ? (
+      <p className="text-sm text-muted-foreground py-4">No transfers with other parties in this window</p>
+    ) : (
+      <div className="overflow-x-auto rounded-lg border border-border/50">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/30">
+              <TableHead>Counterparty</TableHead>
+              <TableHead className="text-right">Sent (CC)</TableHead>
+              <TableHead className="text-right">Received (CC)</TableHead>
+              <TableHead className="text-right">Transfers</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((c) => (
+              <TableRow key={c.party}>
+                <TableCell>
+                  <PartyLink party={c.party} />
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatCC(c.sent)}</TableCell>
+                <TableCell className="text-right font-mono">{formatCC(c.received)}</TableCell>
+                <TableCell className="text-right font-mono">{c.transfers.toLocaleString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    )}
+  </div>
+);
+
+const TransferFlows = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const focus = searchParams.get("party");
+  const [source, setSource] = useState<FlowSource>("ledger");
+  const [hours, setHours] = useState(7 * 24);
+  const [minAmountInput, setMinAmountInput] = useState("");
+  const [partyInput, setPartyInput] = useState("");
+  const [parties, setParties] = useState<string[]>([]);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  // Rounded to the hour, so the query keys stay put between renders
+  const range = useMemo(() => {
+    const to = Math.ceil(Date.now() / HOUR_MS) * HOUR_MS;
+    return { from: new Date(to - hours * HOUR_MS).toISOString(), to: new Date(to).toISOString() };
+  }, [hours]);
+
+  const minAmountText = minAmountInput.trim();
+  const minAmount = useMemo(() => (minAmountText ? DamlDecimal.tryFrom(minAmountText) : null), [minAmountText]);
+  const minAmountInvalid = minAmountText !== "" && !minAmount;
+
+  const ledgerEdges = useTransferFlowEdges(
+    { ...range, minAmount: minAmount?.toString() ?? null, parties, limit: EDGE_LIMIT },
+    source === "ledger",
+  );
+  const ledgerCounterparties = useTransferCounterparties(source === "ledger" ? focus : null, range.from, range.to);
+  const recentFlows = useRecentTransferFlows(range.from, SCAN_PAGES, source === "scan");
+  const cursors = useTransferFlowCursors();
+  const sync = useSyncTransferFlows();
+
+  const scanEdges = useMemo(
+    () => aggregateFlows(recentFlows.data || [], { ...range, minAmount, parties }),
+    [recentFlows.data, range, minAmount, parties],
+  );
+
+  const edges = useMemo<FlowEdge[]>(
+    () => (source === "ledger" ? ledgerEdges.data || [] : scanEdges),
+    [source, ledgerEdges.data, scanEdges],
+  );
+  const isLoading = source === "ledger" ? ledgerEdges.isLoading : recentFlows.isLoading;
+  const error = source === "ledger" ? ledgerEdges.error : recentFlows.error;
+
+  const counterparties = useMemo(() => {
+    if (!focus) return [];
+    // Scan flows are all in memory, so their counterparties come from every edge, not just the filtered ones
+    if (source === "scan") return topCounterparties(aggregateFlows(recentFlows.data || [], range), focus);
+    return ledgerCounterparties.data || [];
+  }, [focus, source, recentFlows.data, range, ledgerCounterparties.data]);
+
+  const summary = useMemo(
+    () => ({
+      amount: DamlDecimal.sum(edges.map((e) => e.amount)),
+      transfers: edges.reduce((sum, e) => sum + e.transfers, 0),
+      parties: new Set(edges.flatMap((e) => [e.sender, e.receiver])).size,
+    }),
+    [edges],
+  );
+
+  const lastSync = (cursors.data || []).reduce<string | null>(
+    (latest, c) => (!latest || c.updated_at > latest ? c.updated_at : latest),
+    null,
+  );
+  const oldestScanFlow = (recentFlows.data || []).reduce<string | null>(
+    (oldest, f) => (!oldest || f.at < oldest ? f.at : oldest),
+    null,
+  );
+
+  const selectParty = (party: string) => {
+    setSearchParams(party === focus ? {} : { party });
+  };
+
+  const addParty = () => {
+    const party = partyInput.trim();
+    if (party && !parties.includes(party)) setParties([...parties, party]);
+    setPartyInput("");
+    setCurrentPage(1);
+  };
+
+  const displayed = edges.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+              <Network className="h-8 w-8 text-primary" />
+              Transfer Flows
+            </h1>
+            <p className="text-muted-foreground">
+              Where amulet moved between parties: the largest flows, and who each party exchanged the most with.
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Button variant="outline" onClick={() => sync.mutate({})} disabled={sync.isPending}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${sync.isPending ? "animate-spin" : ""}`} />
+              Sync transfers
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              {lastSync ? `Last synced ${new Date(lastSync).toLocaleString()}` : "Never synced"}
+            </p>
+          </div>
+        </div>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-1">
+              <label className="text-sm text-muted-foreground">Source</label>
+              <Select value={source} onValueChange={(v) => { setSource(v as FlowSource); setCurrentPage(1); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ledger">Synced ledger</SelectItem>
+                  <SelectItem value="scan">Latest Scan transactions</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm text-muted-foreground">Window</label>
+              <Select value={String(hours)} onValueChange={(v) => { setHours(Number(v)); setCurrentPage(1); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WINDOWS.map((w) => (
+                    <SelectItem key={w.hours} value={String(w.hours)}>
+                      {w.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm text-muted-foreground">Minimum transfer (CC)</label>
+              <Input
+                inputMode="decimal"
+                placeholder="0"
+                value={minAmountInput}
+                onChange={(e) => { setMinAmountInput(e.target.value); setCurrentPage(1); }}
+              />
+              {minAmountInvalid && <p className="text-xs text-destructive">Not a decimal amount</p>}
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm text-muted-foreground">Parties</label>
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  addParty();
+                }}
+              >
+                <Input placeholder="party::fingerprint" value={partyInput} onChange={(e) => setPartyInput(e.target.value)} />
+                <Button type="submit" variant="outline" disabled={!partyInput.trim()}>
+                  Add
+                </Button>
+              </form>
+            </div>
+          </div>
+          {parties.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs text-muted-foreground">Only flows from or to:</span>
+              {parties.map((p) => (
+                <Badge key={p} variant="secondary" className="gap-1">
+                  <PartyName party={p} className="font-mono text-xs" />
+                  <button
+                    type="button"
+                    aria-label="Remove party"
+                    onClick={() => setParties(parties.filter((q) => q !== p))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          {source === "scan" && oldestScanFlow && (
+            <p className="text-xs text-muted-foreground">
+              Covers the latest {SCAN_PAGES * 500} transactions on Scan, back to{" "}
+              {new Date(oldestScanFlow).toLocaleString()}.
+            </p>
+          )}
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load transfer flows: {(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-3">
+          {[
+            {
+              label: "Amount Moved",
+              value: `${formatCC(summary.amount)} CC`,
+              note: edges.length >= EDGE_LIMIT && source === "ledger" ? `over the ${EDGE_LIMIT} largest flows` : undefined,
+            },
+            { label: "Transfers", value: summary.transfers.toLocaleString() },
+            { label: "Parties", value: summary.parties.toLocaleString() },
+          ].map(({ label, value, note }) => (
+            <Card key={label} className="glass-card p-6">
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">{label}</h3>
+              {isLoading ? <Skeleton className="h-8 w-24" /> : <p className="text-2xl font-bold">{value}</p>}
+              {note && !isLoading && <p className="text-xs text-muted-foreground mt-1">{note}</p>}
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-5">
+          <Card className="glass-card p-6 lg:col-span-3 space-y-2">
+            <h2 className="text-xl font-semibold">Largest Flows</h2>
+            <p className="text-sm text-muted-foreground">
+              The {GRAPH_EDGES} largest sender → receiver flows. Hover a party to follow its flows, click it to see its
+              counterparties.
+            </p>
+            {isLoading ? (
+              <Skeleton className="h-[480px] w-full" />
+            ) : (
+              <TransferFlowGraph edges={edges.slice(0, GRAPH_EDGES)} focus={focus} onSelect={selectParty} />
+            )}
+          </Card>
+
+          <Card className="glass-card p-6 lg:col-span-2 space-y-4">
+            {focus ? (
+              <>
+                <div className="flex justify-end">
+                  <Button variant="ghost" size="sm" onClick={() => setSearchParams({})}>
+                    <X className="h-4 w-4 mr-1" />
+                    Clear
+                  </Button>
+                </div>
+                <CounterpartyTable
+                  party={focus}
+                  rows={counterparties}
+                  isLoading={source === "ledger" ? ledgerCounterparties.isLoading : recentFlows.isLoading}
+                />
+                {!parties.includes(focus) && (
+                  <Button variant="outline" size="sm" onClick={() => setParties([...parties, focus])}>
+                    Only show flows of this party
+                  </Button>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                Select a party in the graph or the table to see its top counterparties
+              </p>
+            )}
+          </Card>
+        </div>
+
+        <Card className="glass-card p-6 space-y-4">
+          <h2 className="text-xl font-semibold">Flows</h2>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4, 5].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : edges.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              {source === "ledger" && !lastSync ? "No transfers synced yet" : "No flows match the filters"}
+            </p>
+          ) : (
+            <>
+              <div className="overflow-x-auto rounded-lg border border-border/50">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/30">
+                      <TableHead>Sender</TableHead>
+                      <TableHead>Receiver</TableHead>
+                      <TableHead className="text-right">Amount (CC)</TableHead>
+                      <TableHead className="text-right">Transfers</TableHead>
+                      <TableHead className="text-right">First</TableHead>
+                      <TableHead className="text-right">Last</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {displayed.map((e) => (
+                      <TableRow key={`${e.sender}|${e.receiver}`}>
+                        {[e.sender, e.receiver].map((p) => (
+                          <TableCell key={p}>
+                            <button
+                              type="button"
+                              className={`font-mono text-xs hover:text-primary ${p === focus ? "text-primary" : ""}`}
+                              onClick={() => selectParty(p)}
+                            >
+                              <PartyName party={p} />
+                            </button>
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-mono">{formatCC(e.amount)}</TableCell>
+                        <TableCell className="text-right font-mono">{e.transfers.toLocaleString()}</TableCell>
+                        <TableCell className="text-right text-sm">{new Date(e.first_at).toLocaleString()}</TableCell>
+                        <TableCell className="text-right text-sm">{new Date(e.last_at).toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <PaginationControls
+                currentPage={currentPage}
+                totalItems={edges.length}
+                pageSize={PAGE_SIZE}
+                onPageChange={setCurrentPage}
+              />
+            </>
+          )}
+          <p className="text-xs text-muted-foreground">
+            A flow is every transfer output from one party to another in the window; the minimum applies to each
+            output. Transfers a party makes to itself (merging or splitting its own amulets) are left out.
+          </p>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default TransferFlows;
@@ -1,7 +1,8 @@
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowRightLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ArrowRightLeft, Network } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
 import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
@@ -9,6 +10,7 @@ import { DataSourcesFooter } from "@/components/DataSourcesFooter";
 import { PaginationControls } from "@/components/PaginationControls";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Input } from "@/components/ui/input";
 
 const Transfers = () => {
@@ -78,12 +80,20 @@ const Transfers = () => {
   return (
     <DashboardLayout>
       <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
-            <ArrowRightLeft className="h-8 w-8 text-primary" />
-            Transfer Activity
-          </h1>
-          <p className="text-muted-foreground">Track transfer preapprovals, commands, and instructions.</p>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+              <ArrowRightLeft className="h-8 w-8 text-primary" />
+              Transfer Activity
+            </h1>
+            <p className="text-muted-foreground">Track transfer preapprovals, commands, and instructions.</p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/transfer-flows">
+              <Network className="h-4 w-4 mr-2" />
+              Trace transfer flows
+            </Link>
+          </Button>
         </div>
 
         <div className="grid gap-4 md:grid-cols-3">
@@ -6,6 +6,7 @@ import { Award, Users, TrendingUp, Search, Code } from "lucide-react";
 import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
 import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
 import { DataSourcesFooter } from "@/components/DataSourcesFooter";
+import { SvRewardStatement } from "@/components/SvRewardStatement";
 import { useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -142,6 +143,7 @@ const UnclaimedSVRewards = () => {
             <TabsTrigger value="unclaimed">Unclaimed Rewards</TabsTrigger>
             <TabsTrigger value="claimed">Claimed Rewards</TabsTrigger>
             <TabsTrigger value="expired">Expired Rewards</TabsTrigger>
+            <TabsTrigger value="statements">SV Statements</TabsTrigger>
           </TabsList>
 
           <TabsContent value="unclaimed" className="space-y-6">
@@ -368,6 +370,10 @@ const UnclaimedSVRewards = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="statements" className="space-y-6">
+            <SvRewardStatement />
+          </TabsContent>
         </Tabs>
 
         <DataSourcesFooter 
@@ -0,0 +1,356 @@
+import { Link } from "react-router-dom";
+import { useMemo, useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import { CalendarClock, Download, LockOpen } from "lucide-react";
+import { DataSourcesFooter } from "@/components/DataSourcesFooter";
+import { PaginationControls } from "@/components/PaginationControls";
+import { PartyName } from "@/components/PartyName";
+import { BalanceModeToggle } from "@/components/BalanceModeToggle";
+import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
+import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
+import { useBalanceMode, useSnapshotBalanceRound } from "@/hooks/use-amulet-balance";
+import { useKnownEntities } from "@/hooks/use-known-entities";
+import { balanceAt } from "@/lib/amulet-balance";
+import { DamlDecimal } from "@/lib/daml-decimal";
+import { decodeContracts, type ExpiringAmount } from "@/lib/splice-decoders";
+import { ENTITY_KINDS, ENTITY_KIND_LABELS, type EntityKind } from "@/lib/known-entities";
+import { unlockSchedule, unlockScheduleCsv } from "@/lib/unlock-schedule";
+
+const HORIZONS = [
+  { weeks: 12, label: "Next 12 weeks" },
+  { weeks: 26, label: "Next 26 weeks" },
+  { weeks: 52, label: "Next 52 weeks" },
+];
+const PAGE_SIZE = 25;
+
+const formatCC = (value: DamlDecimal) =>
+  Number(value.toString()).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatWeek = (iso: string) => new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString() : "—");
+
+const UnlockSchedule = () => {
+  const [horizon, setHorizon] = useState(26);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [entityFilter, setEntityFilter] = useState<"all" | "known" | EntityKind>("all");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [balanceMode, setBalanceMode] = useBalanceMode();
+
+  const { data: snapshot } = useLatestACSSnapshot();
+  const lockedQuery = useAggregatedTemplateData(snapshot?.id, "Splice:Amulet:LockedAmulet", !!snapshot);
+  const balanceRound = useSnapshotBalanceRound(snapshot);
+  const { entities } = useKnownEntities();
+
+  const decoded = useMemo(
+    () => (lockedQuery.data ? decodeContracts("Splice:Amulet:LockedAmulet", lockedQuery.data.data) : null),
+    [lockedQuery.data],
+  );
+
+  // Projected from today; amounts valued at the snapshot's round, like Supply
+  const { round, rateFor } = balanceRound;
+  const schedule = useMemo(() => {
+    const amountOf = (amount: ExpiringAmount) =>
+      round === null ? amount.initialAmount : balanceAt({ amount }, round, balanceMode, { rateFor });
+    const kindOf = (holder: string): EntityKind | "unknown" => entities.get(holder)?.kind ?? "unknown";
+    return unlockSchedule(decoded?.values || [], new Date(), horizon, amountOf, kindOf);
+  }, [decoded, horizon, balanceMode, round, rateFor, entities]);
+
+  const points = schedule.weeks.map((w) => ({
+    week: w.week,
+    amount: w.amount.toNumber(),
+    cumulative: w.cumulative.toNumber(),
+    locks: w.locks,
+  }));
+
+  const nextFourWeeks = DamlDecimal.sum(schedule.weeks.slice(0, 4).map((w) => w.amount));
+
+  const filteredHolders = schedule.holders
+    .map((h) => ({ ...h, entity: entities.get(h.holder) }))
+    .filter(({ holder, entity }) => {
+      if (entityFilter === "known" && !entity) return false;
+      if (entityFilter !== "all" && entityFilter !== "known" && entity?.kind !== entityFilter) return false;
+      if (!searchTerm) return true;
+      const search = searchTerm.toLowerCase();
+      return holder.toLowerCase().includes(search) || !!entity?.label.toLowerCase().includes(search);
+    });
+  const pageHolders = filteredHolders.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  const isLoading = lockedQuery.isLoading || balanceRound.isLoading;
+  const error = lockedQuery.error ?? balanceRound.error;
+
+  const exportCSV = () => {
+    const blob = new Blob([unlockScheduleCsv(schedule)], { type: "text/csv" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `unlock-schedule-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold mb-2 flex items-center gap-2">
+              <CalendarClock className="h-7 w-7 text-primary" />
+              Unlock Schedule
+            </h2>
+            <p className="text-muted-foreground">
+              When locked CC from the latest snapshot becomes circulating, by week and by lock holder
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <BalanceModeToggle mode={balanceMode} onChange={setBalanceMode} />
+            <Select value={String(horizon)} onValueChange={(v) => setHorizon(Number(v))}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HORIZONS.map((h) => (
+                  <SelectItem key={h.weeks} value={String(h.weeks)}>
+                    {h.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={exportCSV} disabled={isLoading || schedule.locks === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load locked amulets: {(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+        {decoded && decoded.failures.length > 0 && (
+          <Alert>
+            <AlertDescription>
+              {decoded.failures.length.toLocaleString()} LockedAmulet contracts could not be decoded and are left out
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-4">
+          {[
+            { label: "Locked", value: `${formatCC(schedule.total)} CC`, note: `${schedule.locks.toLocaleString()} locks` },
+            {
+              label: "Expired, Not Unlocked",
+              value: `${formatCC(schedule.expired.amount)} CC`,
+              note: "the owner can unlock it now",
+            },
+            { label: "Unlocking in 4 Weeks", value: `${formatCC(nextFourWeeks)} CC`, note: "this week and the next three" },
+            {
+              label: "After the Horizon",
+              value: `${formatCC(schedule.later.amount)} CC`,
+              note: `${schedule.later.locks.toLocaleString()} locks`,
+            },
+          ].map(({ label, value, note }) => (
+            <Card key={label} className="glass-card p-6">
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">{label}</h3>
+              {isLoading ? <Skeleton className="h-8 w-32" /> : <p className="text-2xl font-bold">{value}</p>}
+              {!isLoading && <p className="text-xs text-muted-foreground mt-1">{note}</p>}
+            </Card>
+          ))}
+        </div>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div>
+            <h3 className="text-xl font-bold">Weekly Unlocks</h3>
+            <p className="text-sm text-muted-foreground">
+              Locked CC whose lock expires each UTC week, and the running total that has become circulating,
+              expired locks included
+            </p>
+          </div>
+          {isLoading ? (
+            <Skeleton className="h-[300px] w-full" />
+          ) : schedule.locks === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No locked amulets in the latest snapshot</p>
+          ) : (
+            <ChartContainer
+              config={{
+                amount: { label: "Unlocking", color: "hsl(var(--chart-2))" },
+                cumulative: { label: "Circulating from locks", color: "hsl(var(--primary))" },
+              }}
+              className="h-[300px] w-full"
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={points}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis
+                    dataKey="week"
+                    tickFormatter={formatWeek}
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  />
+                  <YAxis yAxisId="week" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                  <YAxis
+                    yAxisId="cumulative"
+                    orientation="right"
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => {
+                          const p = payload?.[0]?.payload;
+                          if (!p) return null;
+                          return `Week of ${formatWeek(p.week)} · ${p.locks} lock${p.locks === 1 ? "" : "s"}`;
+                        }}
+                      />
+                    }
+                  />
+                  <Legend />
+                  <Bar yAxisId="week" dataKey="amount" name="Unlocking" fill="hsl(var(--chart-2))" />
+                  <Line
+                    yAxisId="cumulative"
+                    type="stepAfter"
+                    dataKey="cumulative"
+                    name="Circulating from locks"
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          )}
+        </Card>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <div>
+              <h3 className="text-xl font-bold flex items-center gap-2">
+                <LockOpen className="h-5 w-5 text-primary" />
+                By Lock Holder
+              </h3>
+              <p className="text-sm text-muted-foreground">
+                Parties that can release locks early. A lock with several holders counts toward each of them.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Search by party ID or entity..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setCurrentPage(1);
+                }}
+                className="w-[240px]"
+              />
+              <Select
+                value={entityFilter}
+                onValueChange={(v) => {
+                  setEntityFilter(v as typeof entityFilter);
+                  setCurrentPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All holders</SelectItem>
+                  <SelectItem value="known">Known entities</SelectItem>
+                  {ENTITY_KINDS.map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {ENTITY_KIND_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!isLoading && schedule.kinds.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {schedule.kinds.map(({ kind, amount }) => (
+                <Badge key={kind} variant="outline">
+                  {kind === "unknown" ? "Unlabelled" : ENTITY_KIND_LABELS[kind]}: {formatCC(amount)} CC
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4, 5].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : filteredHolders.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No lock holders match</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Lock Holder</TableHead>
+                    <TableHead className="text-right">Locked (CC)</TableHead>
+                    <TableHead className="text-right">Expired (CC)</TableHead>
+                    <TableHead className="text-right">Locks</TableHead>
+                    <TableHead>Next Expiry</TableHead>
+                    <TableHead>Last Expiry</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pageHolders.map(({ holder, amount, expired, locks, nextExpiry, lastExpiry, entity }) => (
+                    <TableRow key={holder}>
+                      <TableCell>
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <Link to={`/party/${encodeURIComponent(holder)}`} className="font-mono text-xs hover:text-primary">
+                            <PartyName party={holder} />
+                          </Link>
+                          {entity && (
+                            <Badge variant="secondary" className="text-xs" title={entity.note ?? ENTITY_KIND_LABELS[entity.kind]}>
+                              {entity.label}
+                              <span className="ml-1 text-muted-foreground">· {ENTITY_KIND_LABELS[entity.kind]}</span>
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatCC(amount)}</TableCell>
+                      <TableCell className="text-right font-mono text-muted-foreground">
+                        {expired.isZero() ? "—" : formatCC(expired)}
+                      </TableCell>
+                      <TableCell className="text-right">{locks.toLocaleString()}</TableCell>
+                      <TableCell>{formatDate(nextExpiry)}</TableCell>
+                      <TableCell>{formatDate(lastExpiry)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <PaginationControls
+                currentPage={currentPage}
+                totalItems={filteredHolders.length}
+                pageSize={PAGE_SIZE}
+                onPageChange={setCurrentPage}
+              />
+            </>
+          )}
+        </Card>
+
+        <DataSourcesFooter
+          snapshotId={snapshot?.id}
+          templateSuffixes={["Splice:Amulet:LockedAmulet", "Splice:Round:OpenMiningRound"]}
+          isProcessing={false}
+        />
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default UnlockSchedule;
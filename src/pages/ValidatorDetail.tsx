@@ -0,0 +1,350 @@
+import { useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PaginationControls } from "@/components/PaginationControls";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import { ArrowLeft } from "lucide-react";
+import { searchRoutes } from "@/lib/search-index";
+import { decodeContracts } from "@/lib/splice-decoders";
+import { uptimeSeries } from "@/lib/validator-activity";
+import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
+import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
+import {
+  useNetworkRoundsDaily,
+  useScanValidatorLiveness,
+  useValidatorActivityDaily,
+  useValidatorMissedRounds,
+  useValidatorScore,
+  useValidatorTrafficPurchases,
+} from "@/hooks/use-validator-activity";
+
+const TABLE_PAGE_SIZE = 25;
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(1)}%`);
+
+const formatCC = (value: string | number | null) =>
+  value === null ? "—" : Number(value).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="p-3 rounded-lg bg-background/50">
+    <p className="text-xs text-muted-foreground mb-1">{label}</p>
+    <div className="text-sm">{children}</div>
+  </div>
+);
+
+const ValidatorDetail = () => {
+  const { validatorId } = useParams<{ validatorId: string }>();
+  const [missedPage, setMissedPage] = useState(1);
+  const [trafficPage, setTrafficPage] = useState(1);
+
+  const score = useValidatorScore(validatorId);
+  const daily = useValidatorActivityDaily(validatorId);
+  const network = useNetworkRoundsDaily(daily.data?.[0]?.day);
+  const missed = useValidatorMissedRounds(validatorId, missedPage - 1, TABLE_PAGE_SIZE);
+  const traffic = useValidatorTrafficPurchases(validatorId, trafficPage - 1, TABLE_PAGE_SIZE);
+  const scanLiveness = useScanValidatorLiveness(validatorId);
+
+  const { data: snapshot } = useLatestACSSnapshot();
+  const licensesQuery = useAggregatedTemplateData(snapshot?.id, "Splice:ValidatorLicense:ValidatorLicense", !!snapshot);
+  const license = useMemo(() => {
+    if (!licensesQuery.data) return null;
+    return (
+      decodeContracts("Splice:ValidatorLicense:ValidatorLicense", licensesQuery.data.data).values.find(
+        (l) => l.validator === validatorId,
+      ) ?? null
+    );
+  }, [licensesQuery.data, validatorId]);
+
+  const uptime = useMemo(
+    () => uptimeSeries(daily.data || [], network.data || []).map((p) => ({ ...p, percent: p.uptime === null ? null : p.uptime * 100 })),
+    [daily.data, network.data],
+  );
+
+  const rewards = useMemo(
+    () =>
+      (daily.data || []).map((d) => ({
+        day: d.day,
+        rewards: Number(d.reward_amount ?? 0),
+        faucet: Number(d.faucet_amount ?? 0),
+      })),
+    [daily.data],
+  );
+
+  const s = score.data;
+  const uptime7d = s && s.rounds_7d > 0 ? Math.min(1, s.liveness_7d / s.rounds_7d) : null;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <Link
+            to="/validator-scoreboard"
+            className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mb-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Validator Scoreboard
+          </Link>
+          <h2 className="text-3xl font-bold mb-2">{validatorId?.split("::")[0] ?? "Validator"}</h2>
+          <Link to={searchRoutes.party(validatorId ?? "")} className="font-mono text-xs break-all text-muted-foreground hover:text-primary">
+            {validatorId}
+          </Link>
+        </div>
+
+        {(score.error || daily.error) && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              Failed to load validator activity: {((score.error || daily.error) as Error).message}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {score.data === null && !score.isLoading && (
+          <Alert>
+            <AlertDescription>
+              No synced activity for this validator. Sync the validator activity from the scoreboard, or check that
+              the party is a validator.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-5">
+          {[
+            { label: "Rounds Live", value: s?.liveness_rounds.toLocaleString() },
+            { label: "Rounds Missed", value: s?.missed_rounds?.toLocaleString() ?? "—" },
+            { label: "Uptime (7 days)", value: formatPercent(uptime7d) },
+            { label: "Rewards (all time)", value: s ? `${formatCC(s.rewards_total)} CC` : undefined },
+            { label: "Traffic Bought", value: s?.traffic_bought.toLocaleString() },
+          ].map(({ label, value }) => (
+            <Card key={label} className="glass-card p-6">
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">{label}</h3>
+              {score.isLoading ? <Skeleton className="h-8 w-24" /> : <p className="text-2xl font-bold">{value ?? "—"}</p>}
+            </Card>
+          ))}
+        </div>
+
+        <Card className="glass-card p-6">
+          <h3 className="text-xl font-bold mb-4">Checks</h3>
+          <div className="grid gap-3 md:grid-cols-4">
+            <Field label="Rounds (synced)">
+              {s ? (
+                <span className="font-mono">
+                  {s.first_round ?? "—"} – {s.last_round ?? "—"}
+                </span>
+              ) : (
+                "—"
+              )}
+            </Field>
+            <Field label="Collected / missed (Scan)">
+              {scanLiveness.isLoading ? (
+                <Skeleton className="h-5 w-24" />
+              ) : scanLiveness.data ? (
+                <span className="font-mono">
+                  {scanLiveness.data.numRoundsCollected.toLocaleString()} /{" "}
+                  {scanLiveness.data.numRoundsMissed.toLocaleString()}
+                </span>
+              ) : (
+                "Not reported"
+              )}
+            </Field>
+            <Field label="Missed coupons (license)">
+              {license?.faucetState ? (
+                <span className="font-mono">{license.faucetState.numCouponsMissed.toLocaleString()}</span>
+              ) : (
+                "—"
+              )}
+            </Field>
+            <Field label="License">
+              {license ? (
+                <div className="space-y-1">
+                  <Badge variant="default">Active</Badge>
+                  {license.metadata?.version && (
+                    <p className="text-xs text-muted-foreground">Version {license.metadata.version}</p>
+                  )}
+                </div>
+              ) : licensesQuery.isLoading ? (
+                <Skeleton className="h-5 w-24" />
+              ) : (
+                <Badge variant="outline">Not in the latest snapshot</Badge>
+              )}
+            </Field>
+          </div>
+          {s && s.unpriced_count > 0 && (
+            <p className="text-xs text-muted-foreground mt-3">
+              {s.unpriced_count.toLocaleString()} record(s) belong to rounds that are not issuing yet and are not in
+              the reward totals.
+            </p>
+          )}
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card className="glass-card p-6">
+            <h3 className="text-xl font-bold mb-4">Daily Uptime</h3>
+            {daily.isLoading || network.isLoading ? (
+              <Skeleton className="h-[260px] w-full" />
+            ) : uptime.length === 0 ? (
+              <div className="h-[260px] flex items-center justify-center">
+                <p className="text-muted-foreground">No liveness recorded</p>
+              </div>
+            ) : (
+              <ChartContainer config={{ percent: { label: "Uptime %", color: "hsl(var(--primary))" } }} className="h-[260px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={uptime}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="day" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                    <YAxis domain={[0, 100]} className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Area
+                      type="monotone"
+                      dataKey="percent"
+                      name="Uptime %"
+                      stroke="hsl(var(--primary))"
+                      fill="hsl(var(--primary))"
+                      fillOpacity={0.2}
+                      isAnimationActive={false}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </ChartContainer>
+            )}
+          </Card>
+
+          <Card className="glass-card p-6">
+            <h3 className="text-xl font-bold mb-4">Daily Rewards (CC)</h3>
+            {daily.isLoading ? (
+              <Skeleton className="h-[260px] w-full" />
+            ) : rewards.length === 0 ? (
+              <div className="h-[260px] flex items-center justify-center">
+                <p className="text-muted-foreground">No rewards recorded</p>
+              </div>
+            ) : (
+              <ChartContainer
+                config={{
+                  rewards: { label: "Validator rewards", color: "hsl(var(--chart-1))" },
+                  faucet: { label: "Faucet / liveness", color: "hsl(var(--chart-2))" },
+                }}
+                className="h-[260px] w-full"
+              >
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={rewards}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="day" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                    <YAxis className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="rewards" name="Validator rewards" stackId="rewards" fill="hsl(var(--chart-1))" />
+                    <Bar dataKey="faucet" name="Faucet / liveness" stackId="rewards" fill="hsl(var(--chart-2))" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </ChartContainer>
+            )}
+          </Card>
+        </div>
+
+        <Card className="glass-card p-6">
+          <h3 className="text-xl font-bold mb-1">Missed Rounds</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Runs of rounds without a liveness record between the first and the latest one
+          </p>
+          {missed.isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !missed.data?.rows.length ? (
+            <p className="text-center text-muted-foreground py-6">No missed rounds</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rounds</TableHead>
+                    <TableHead className="text-right">Missed</TableHead>
+                    <TableHead>Last seen</TableHead>
+                    <TableHead>Resumed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {missed.data.rows.map((m) => (
+                    <TableRow key={m.from_round}>
+                      <TableCell className="font-mono">
+                        <Link to={searchRoutes.round(m.from_round)} className="hover:text-primary">
+                          {m.from_round}
+                        </Link>
+                        {m.to_round !== m.from_round && <> – {m.to_round}</>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{m.missed.toLocaleString()}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {new Date(m.last_seen_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {new Date(m.resumed_at).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <PaginationControls
+                currentPage={missedPage}
+                totalItems={missed.data.total}
+                pageSize={TABLE_PAGE_SIZE}
+                onPageChange={setMissedPage}
+              />
+            </>
+          )}
+        </Card>
+
+        <Card className="glass-card p-6">
+          <h3 className="text-xl font-bold mb-4">Traffic Purchases</h3>
+          {traffic.isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !traffic.data?.rows.length ? (
+            <p className="text-center text-muted-foreground py-6">No traffic purchases</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Member</TableHead>
+                    <TableHead className="text-right">Traffic</TableHead>
+                    <TableHead className="text-right">Paid (CC)</TableHead>
+                    <TableHead>Round</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {traffic.data.rows.map((p) => (
+                    <TableRow key={p.event_id}>
+                      <TableCell className="text-xs">
+                        {p.update_id ? (
+                          <Link to={searchRoutes.update(p.update_id)} className="hover:text-primary">
+                            {new Date(p.recorded_at).toLocaleString()}
+                          </Link>
+                        ) : (
+                          new Date(p.recorded_at).toLocaleString()
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs break-all">{p.member_id}</TableCell>
+                      <TableCell className="text-right font-mono">{p.traffic_amount.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCC(p.amulet_paid)}</TableCell>
+                      <TableCell className="font-mono">{p.round ?? "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <PaginationControls
+                currentPage={trafficPage}
+                totalItems={traffic.data.total}
+                pageSize={TABLE_PAGE_SIZE}
+                onPageChange={setTrafficPage}
+              />
+            </>
+          )}
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ValidatorDetail;
@@ -1,17 +1,19 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Search, Award, Ticket, Code, Clock, Activity } from "lucide-react";
+import { Search, Award, Ticket, Code, Clock, Activity, LineChart } from "lucide-react";
 import { useLatestACSSnapshot } from "@/hooks/use-acs-snapshots";
 import { useAggregatedTemplateData } from "@/hooks/use-aggregated-template-data";
 import { PaginationControls } from "@/components/PaginationControls";
 import { DataSourcesFooter } from "@/components/DataSourcesFooter";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Button } from "@/components/ui/button";
+import { searchRoutes } from "@/lib/search-index";
 
 const ValidatorLicenses = () => {
   const [searchTerm, setSearchTerm] = useState("");
@@ -253,7 +255,17 @@ const ValidatorLicenses = () => {
                               </CollapsibleContent>
                             </Collapsible>
                           </div>
-                          <Badge variant="default">Active</Badge>
+                          <div className="flex flex-col items-end gap-2">
+                            <Badge variant="default">Active</Badge>
+                            {validator && (
+                              <Button variant="outline" size="sm" asChild>
+                                <Link to={searchRoutes.validator(validator)}>
+                                  <LineChart className="h-4 w-4 mr-2" />
+                                  History
+                                </Link>
+                              </Button>
+                            )}
+                          </div>
                         </div>
                       </Card>
                     );
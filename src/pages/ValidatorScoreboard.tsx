@@ -0,0 +1,265 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PaginationControls } from "@/components/PaginationControls";
+import { PartyName } from "@/components/PartyName";
+import { ArrowDownRight, ArrowUpRight, RefreshCw, Search, Trophy } from "lucide-react";
+import { searchRoutes } from "@/lib/search-index";
+import { trend } from "@/lib/validator-activity";
+import {
+  useSyncValidatorActivity,
+  useValidatorActivityCursors,
+  useValidatorScoreboard,
+  type ValidatorScore,
+} from "@/hooks/use-validator-activity";
+
+const PAGE_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SortKey = "uptime" | "rewards" | "missed" | "traffic";
+
+const SORT_LABELS: Record<SortKey, string> = {
+  uptime: "Uptime (7 days)",
+  rewards: "Rewards (7 days)",
+  missed: "Missed rounds",
+  traffic: "Traffic bought",
+};
+
+const uptime = (v: ValidatorScore) => (v.rounds_7d > 0 ? Math.min(1, v.liveness_7d / v.rounds_7d) : null);
+const prevUptime = (v: ValidatorScore) => (v.rounds_prev_7d > 0 ? Math.min(1, v.liveness_prev_7d / v.rounds_prev_7d) : null);
+
+const SORTERS: Record<SortKey, (a: ValidatorScore, b: ValidatorScore) => number> = {
+  uptime: (a, b) => (uptime(b) ?? -1) - (uptime(a) ?? -1),
+  rewards: (a, b) => Number(b.rewards_7d) - Number(a.rewards_7d),
+  missed: (a, b) => (b.missed_rounds ?? 0) - (a.missed_rounds ?? 0),
+  traffic: (a, b) => b.traffic_bought - a.traffic_bought,
+};
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(1)}%`);
+
+const formatCC = (value: string | number) =>
+  Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const Trend = ({ change }: { change: number | null }) => {
+  if (change === null || Math.abs(change) < 0.005) return null;
+  const Icon = change > 0 ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span className={`inline-flex items-center text-xs ${change > 0 ? "text-success" : "text-destructive"}`}>
+      <Icon className="h-3 w-3" />
+      {Math.abs(change * 100).toFixed(0)}%
+    </span>
+  );
+};
+
+const ValidatorScoreboard = () => {
+  const { data: scores, isLoading, error } = useValidatorScoreboard();
+  const cursors = useValidatorActivityCursors();
+  const sync = useSyncValidatorActivity();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [sortBy, setSortBy] = useState<SortKey>("uptime");
+  const [currentPage, setCurrentPage] = useState(1);
+
+  // A validator without liveness today or yesterday has stopped recording it
+  const stalledBefore = new Date(Date.now() - DAY_MS).toISOString().slice(0, 10);
+
+  const rows = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return (scores || [])
+      .filter((v) => !term || v.validator.toLowerCase().includes(term))
+      .sort(SORTERS[sortBy]);
+  }, [scores, searchTerm, sortBy]);
+
+  const summary = useMemo(() => {
+    const all = scores || [];
+    const live = all.filter((v) => v.liveness_7d > 0);
+    const uptimes = live.map(uptime).filter((u): u is number => u !== null);
+    return {
+      tracked: all.length,
+      live: live.length,
+      stalled: live.filter((v) => !v.last_live_day || v.last_live_day < stalledBefore).length,
+      averageUptime: uptimes.length > 0 ? uptimes.reduce((a, b) => a + b, 0) / uptimes.length : null,
+      rewards7d: all.reduce((sum, v) => sum + Number(v.rewards_7d), 0),
+    };
+  }, [scores, stalledBefore]);
+
+  const lastSync = (cursors.data || []).reduce<string | null>(
+    (latest, c) => (!latest || c.updated_at > latest ? c.updated_at : latest),
+    null,
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+              <Trophy className="h-8 w-8 text-primary" />
+              Validator Scoreboard
+            </h1>
+            <p className="text-muted-foreground">
+              Liveness, rewards and traffic purchases per validator, built from the ingested ledger events
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Button variant="outline" onClick={() => sync.mutate({})} disabled={sync.isPending}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${sync.isPending ? "animate-spin" : ""}`} />
+              Sync activity
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              {lastSync ? `Last synced ${new Date(lastSync).toLocaleString()}` : "Never synced"}
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load the scoreboard: {(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-4">
+          {[
+            { label: "Validators Tracked", value: summary.tracked.toLocaleString() },
+            { label: "Live in the Last 7 Days", value: summary.live.toLocaleString(), note: `${summary.stalled} stalled` },
+            { label: "Average Uptime (7 days)", value: formatPercent(summary.averageUptime) },
+            { label: "Rewards (7 days)", value: `${formatCC(summary.rewards7d)} CC` },
+          ].map(({ label, value, note }) => (
+            <Card key={label} className="glass-card p-6">
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">{label}</h3>
+              {isLoading ? <Skeleton className="h-8 w-24" /> : <p className="text-2xl font-bold">{value}</p>}
+              {note && !isLoading && <p className="text-xs text-muted-foreground mt-1">{note}</p>}
+            </Card>
+          ))}
+        </div>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+              <Input
+                placeholder="Search by validator..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setCurrentPage(1);
+                }}
+                className="pl-10"
+              />
+            </div>
+            <Select
+              value={sortBy}
+              onValueChange={(v) => {
+                setSortBy(v as SortKey);
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    Sort by {SORT_LABELS[key].toLowerCase()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4, 5].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : rows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              {scores?.length ? "No validators match" : "No validator activity synced yet"}
+            </p>
+          ) : (
+            <>
+              <div className="overflow-x-auto rounded-lg border border-border/50">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/30">
+                      <TableHead>Validator</TableHead>
+                      <TableHead className="text-right">Uptime (7d)</TableHead>
+                      <TableHead className="text-right">Missed rounds</TableHead>
+                      <TableHead className="text-right">Rewards (7d)</TableHead>
+                      <TableHead className="text-right">Rewards (all)</TableHead>
+                      <TableHead className="text-right">Traffic bought</TableHead>
+                      <TableHead>Last live</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE).map((v) => {
+                      const current = uptime(v);
+                      const previous = prevUptime(v);
+                      const stalled = !v.last_live_day || v.last_live_day < stalledBefore;
+                      return (
+                        <TableRow key={v.validator}>
+                          <TableCell>
+                            <Link to={searchRoutes.validator(v.validator)} className="font-mono text-xs hover:text-primary">
+                              <PartyName party={v.validator} />
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end gap-2">
+                              <span className="font-mono">{formatPercent(current)}</span>
+                              <Trend change={current !== null && previous !== null ? current - previous : null} />
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {v.missed_rounds === null ? "—" : v.missed_rounds.toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end gap-2">
+                              <span className="font-mono">{formatCC(v.rewards_7d)}</span>
+                              <Trend change={trend(Number(v.rewards_7d), Number(v.rewards_prev_7d))} />
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{formatCC(v.rewards_total)}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {v.traffic_bought > 0 ? v.traffic_bought.toLocaleString() : "—"}
+                          </TableCell>
+                          <TableCell>
+                            {stalled ? (
+                              <Badge variant="destructive">{v.last_live_day ?? "never"}</Badge>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">{v.last_live_day}</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+              <PaginationControls
+                currentPage={currentPage}
+                totalItems={rows.length}
+                pageSize={PAGE_SIZE}
+                onPageChange={setCurrentPage}
+              />
+            </>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Uptime is the share of the rounds the network issued in the last 7 UTC days that the validator recorded
+            liveness for, with the change against the 7 days before. Missed rounds count the rounds without a liveness
+            record between a validator's first and latest one. Rewards include faucet and liveness payouts.
+          </p>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ValidatorScoreboard;
@@ -8,9 +8,11 @@ import { Button } from "@/components/ui/button";
 import { ChevronDown, ChevronUp, FileDown, RefreshCw, Trophy, Zap, Award, Download, TrendingUp } from "lucide-react";
 import { fetchConfigData, scheduleDailySync } from "@/lib/config-sync";
 import { scanApi } from "@/lib/api-client";
+import { describeScanError } from "@/lib/scan-transport";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
+import { PartyName } from "@/components/PartyName";
 
 // ─────────────────────────────
 // Helpers
@@ -307,6 +309,7 @@ const ActiveValidatorsSection = () => {
     data: topValidators,
     isLoading,
     isError,
+    error,
   } = useQuery({
     queryKey: ["topValidators"],
     queryFn: async () => {
@@ -352,11 +355,6 @@ const ActiveValidatorsSection = () => {
     }
   };
 
-  const formatPartyId = (partyId: string) => {
-    const parts = partyId.split("::");
-    return parts[0] || partyId;
-  };
-
   return (
     <>
       <div className="flex items-center justify-between mt-8">
@@ -378,9 +376,8 @@ const ActiveValidatorsSection = () => {
             </div>
           ) : isError ? (
             <div className="text-center p-8">
-              <p className="text-muted-foreground">
-                Unable to load validator data. The API endpoint may be unavailable.
-              </p>
+              <p className="text-muted-foreground">Unable to load validator data.</p>
+              <p className="text-xs text-muted-foreground mt-2">{describeScanError(error)}</p>
             </div>
           ) : !topValidators?.validatorsAndRewards?.length ? (
             <div className="text-center p-8">
@@ -405,7 +402,7 @@ const ActiveValidatorsSection = () => {
                           {rank <= 3 ? <Trophy className="h-6 w-6" /> : rank}
                         </div>
                         <div>
-                          <h3 className="text-xl font-bold mb-1">{formatPartyId(validator.provider)}</h3>
+                          <h3 className="text-xl font-bold mb-1"><PartyName party={validator.provider} /></h3>
                           <p className="font-mono text-sm text-muted-foreground truncate max-w-md">
                             {validator.provider}
                           </p>
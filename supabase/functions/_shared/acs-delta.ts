@@ -0,0 +1,278 @@
+/*
+ * acs-delta
+ * ---------
+ * Building blocks for incremental ACS snapshots:
+ *
+ *  - an order independent contract-id checksum per template, so a snapshot
+ *    derived from ledger deltas can be compared with a full ACS pull without
+ *    loading either side's contracts;
+ *  - folding created / consuming-exercise events from `ledger_events` into
+ *    the net set of contracts created and archived since a base snapshot.
+ *
+ *  - per template field sums and status tallies, kept up to date the same
+ *    way as the checksum so full and incremental snapshots agree.
+ *
+ * Dependency free apart from daml-decimal so it runs in Deno and in the
+ * browser.
+ */
+
+import { DamlDecimal } from "./daml-decimal.ts";
+
+// ------------------------------------
+// Contract id checksums
+// ------------------------------------
+const CHECKSUM_MODULUS = 1n << 256n;
+
+async function hashId(contractId: string): Promise<bigint> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(contractId));
+  let value = 0n;
+  for (const byte of new Uint8Array(digest)) value = (value << 8n) | BigInt(byte);
+  return value;
+}
+
+/**
+ * Sum of SHA-256(contract id) mod 2^256. Addition (rather than XOR) keeps a
+ * duplicated contract id visible as a mismatch instead of cancelling it out,
+ * and lets archived ids be subtracted again.
+ */
+export class ContractIdChecksum {
+  private value: bigint;
+
+  constructor(hex?: string | null) {
+    this.value = hex ? BigInt(`0x${hex}`) % CHECKSUM_MODULUS : 0n;
+  }
+
+  async add(contractIds: Iterable<string>): Promise<this> {
+    for (const id of contractIds) this.value = (this.value + (await hashId(id))) % CHECKSUM_MODULUS;
+    return this;
+  }
+
+  async remove(contractIds: Iterable<string>): Promise<this> {
+    for (const id of contractIds) {
+      this.value = (this.value - (await hashId(id)) + CHECKSUM_MODULUS) % CHECKSUM_MODULUS;
+    }
+    return this;
+  }
+
+  toString(): string {
+    return this.value.toString(16).padStart(64, "0");
+  }
+}
+
+// ------------------------------------
+// Field sums and status tallies
+// ------------------------------------
+// Daml Numeric values are rendered with a decimal point; ints, times and
+// parties never are
+const NUMERIC_TEXT = /^-?\d+\.\d+$/;
+const STATUS_FIELDS = ["status", "state"];
+
+function collectNumerics(value: unknown, path: string, out: Array<[string, DamlDecimal]>) {
+  if (typeof value === "string") {
+    if (path && NUMERIC_TEXT.test(value)) out.push([path, DamlDecimal.from(value)]);
+    return;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return;
+  for (const [key, child] of Object.entries(value)) collectNumerics(child, path ? `${path}.${key}` : key, out);
+}
+
+function statusOf(entry: unknown): string | null {
+  if (!entry || typeof entry !== "object") return null;
+  for (const field of STATUS_FIELDS) {
+    const value = (entry as Record<string, unknown>)[field];
+    if (typeof value === "string") return value;
+    const tag = (value as { tag?: unknown } | null | undefined)?.tag;
+    if (typeof tag === "string") return tag;
+  }
+  return null;
+}
+
+/**
+ * `field_sums` (every Numeric field outside lists, by dotted path) and
+ * `status_tallies` (top level `status` / `state`, or its variant tag) of one
+ * template's create arguments. Like the checksum, entries can be removed
+ * again, so an incremental snapshot carries the base's figures forward.
+ */
+export class TemplateAggregates {
+  private sums = new Map<string, DamlDecimal>();
+  private tallies = new Map<string, number>();
+
+  constructor(fieldSums?: Record<string, string> | null, statusTallies?: Record<string, number> | null) {
+    for (const [field, sum] of Object.entries(fieldSums ?? {})) this.sums.set(field, DamlDecimal.from(sum));
+    for (const [status, count] of Object.entries(statusTallies ?? {})) this.tallies.set(status, count);
+  }
+
+  add(entries: Iterable<unknown>): this {
+    for (const entry of entries) this.apply(entry, 1);
+    return this;
+  }
+
+  remove(entries: Iterable<unknown>): this {
+    for (const entry of entries) this.apply(entry, -1);
+    return this;
+  }
+
+  private apply(entry: unknown, sign: 1 | -1) {
+    const numerics: Array<[string, DamlDecimal]> = [];
+    collectNumerics(entry, "", numerics);
+    for (const [field, value] of numerics) {
+      const sum = this.sums.get(field) ?? DamlDecimal.ZERO;
+      this.sums.set(field, sign === 1 ? sum.add(value) : sum.sub(value));
+    }
+    const status = statusOf(entry);
+    if (status === null) return;
+    const count = (this.tallies.get(status) ?? 0) + sign;
+    if (count === 0) this.tallies.delete(status);
+    else this.tallies.set(status, count);
+  }
+
+  /** Null when the template has no Numeric fields */
+  fieldSums(): Record<string, string> | null {
+    if (this.sums.size === 0) return null;
+    return Object.fromEntries(Array.from(this.sums, ([field, sum]) => [field, sum.toString()]));
+  }
+
+  /** Null when the template has no status field */
+  statusTallies(): Record<string, number> | null {
+    return this.tallies.size === 0 ? null : Object.fromEntries(this.tallies);
+  }
+}
+
+// ------------------------------------
+// Delta folding
+// ------------------------------------
+export interface LedgerDeltaEvent {
+  update_id: string;
+  record_time: string;
+  /** Ledger position of the update; record times can tie */
+  migration_id?: number | null;
+  offset?: string | null;
+  contract_id: string | null;
+  template_id: string | null;
+  event_type: string | null;
+  payload: unknown;
+  /** `raw.consuming` of exercised events */
+  consuming?: boolean | null;
+}
+
+export interface AcsDelta {
+  /** Contracts created after the base and still active at the target, by template */
+  created: Map<string, Map<string, unknown>>;
+  /** Base contracts archived before the target: contract id → template id */
+  archived: Map<string, string | null>;
+  eventsApplied: number;
+}
+
+function isCreate(eventType: string | null): boolean {
+  return eventType === "created_event" || eventType === "reassign_create";
+}
+
+/**
+ * Ledger offsets are hex or decimal strings without a sign; a longer one is
+ * further along unless the shorter is zero padded, which string order covers.
+ */
+export function compareOffsets(a: string, b: string): number {
+  const x = a.replace(/^0+/, "");
+  const y = b.replace(/^0+/, "");
+  if (x.length !== y.length) return x.length - y.length;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/** Ledger order of two updates: migration, then offset, record_time when an offset is missing */
+function compareUpdates(a: LedgerDeltaEvent, b: LedgerDeltaEvent): number {
+  if ((a.migration_id ?? 0) !== (b.migration_id ?? 0)) return (a.migration_id ?? 0) - (b.migration_id ?? 0);
+  if (a.offset && b.offset) return compareOffsets(a.offset, b.offset);
+  if (a.record_time !== b.record_time) return a.record_time < b.record_time ? -1 : 1;
+  // No position to go by; at least keep each update's events together
+  return a.update_id < b.update_id ? -1 : 1;
+}
+
+/**
+ * Folds events into net creations and archivals, in ledger order. A
+ * contract created and archived inside the window never shows up.
+ */
+export function foldLedgerEvents(events: LedgerDeltaEvent[]): AcsDelta {
+  const created = new Map<string, Map<string, unknown>>();
+  const templateOfCreated = new Map<string, string>();
+  const archived = new Map<string, string | null>();
+  let eventsApplied = 0;
+
+  // Within one update the creates have to be seen before the archives
+  const ordered = [...events].sort((a, b) => {
+    if (a.update_id !== b.update_id) return compareUpdates(a, b);
+    return Number(!isCreate(a.event_type)) - Number(!isCreate(b.event_type));
+  });
+
+  for (const e of ordered) {
+    if (!e.contract_id || !e.template_id) continue;
+
+    if (isCreate(e.event_type)) {
+      const byTemplate = created.get(e.template_id) ?? new Map<string, unknown>();
+      byTemplate.set(e.contract_id, e.payload ?? {});
+      created.set(e.template_id, byTemplate);
+      templateOfCreated.set(e.contract_id, e.template_id);
+      eventsApplied++;
+    } else if (e.event_type === "exercised_event" && e.consuming) {
+      const createdIn = templateOfCreated.get(e.contract_id);
+      if (createdIn) {
+        created.get(createdIn)?.delete(e.contract_id);
+        templateOfCreated.delete(e.contract_id);
+      } else {
+        archived.set(e.contract_id, e.template_id);
+      }
+      eventsApplied++;
+    }
+  }
+
+  return { created, archived, eventsApplied };
+}
+
+// ------------------------------------
+// Verification
+// ------------------------------------
+export interface TemplateChecksum {
+  template_id: string;
+  contract_count: number;
+  contract_id_checksum: string | null;
+}
+
+export interface ChecksumMismatch {
+  template_id: string;
+  expected_count: number;
+  actual_count: number;
+  checksum_matches: boolean;
+}
+
+/** Compares the authoritative (full pull) template checksums with derived ones */
+export function compareChecksums(expected: TemplateChecksum[], derived: TemplateChecksum[]): ChecksumMismatch[] {
+  const byTemplate = new Map(derived.map((d) => [d.template_id, d]));
+  const mismatches: ChecksumMismatch[] = [];
+
+  for (const e of expected) {
+    const d = byTemplate.get(e.template_id);
+    byTemplate.delete(e.template_id);
+    const countMatches = (d?.contract_count ?? 0) === e.contract_count;
+    const checksumMatches = (d?.contract_id_checksum ?? null) === e.contract_id_checksum;
+    if (!countMatches || !checksumMatches) {
+      mismatches.push({
+        template_id: e.template_id,
+        expected_count: e.contract_count,
+        actual_count: d?.contract_count ?? 0,
+        checksum_matches: checksumMatches,
+      });
+    }
+  }
+
+  // Templates the derived side has but the full pull does not
+  for (const d of byTemplate.values()) {
+    if (d.contract_count === 0) continue;
+    mismatches.push({
+      template_id: d.template_id,
+      expected_count: 0,
+      actual_count: d.contract_count,
+      checksum_matches: false,
+    });
+  }
+
+  return mismatches;
+}
@@ -0,0 +1,183 @@
+/*
+ * acs-diff
+ * --------
+ * Compares two ACS snapshots: per template contract counts, `field_sums`
+ * and `status_tallies` from acs_template_stats, plus contract level
+ * added / removed ids when both snapshots have contract id files next to
+ * their chunks (see fetch-acs-snapshot).
+ *
+ * Dependency free apart from daml-decimal so it runs in Deno and in the
+ * browser.
+ */
+
+import { DamlDecimal } from "./daml-decimal.ts";
+
+export interface TemplateStatsLike {
+  template_id: string;
+  contract_count: number;
+  field_sums: Record<string, string> | null;
+  status_tallies: Record<string, number> | null;
+  contract_id_checksum?: string | null;
+}
+
+export interface FieldSumChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+  delta: string;
+}
+
+export interface StatusTallyChange {
+  status: string;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface ContractIdDiff {
+  added: string[];
+  removed: string[];
+  /** Full counts; `added` / `removed` may be cut off at the requested limit */
+  addedCount: number;
+  removedCount: number;
+  truncated: boolean;
+}
+
+export interface TemplateDiff {
+  template_id: string;
+  change: "added" | "removed" | "changed";
+  fromCount: number;
+  toCount: number;
+  /**
+   * Contracts created / archived between the snapshots. Exact when contract
+   * ids were compared, otherwise derived from the net count change.
+   */
+  created: number;
+  archived: number;
+  exact: boolean;
+  fieldSums: FieldSumChange[];
+  statusTallies: StatusTallyChange[];
+  contracts: ContractIdDiff | null;
+}
+
+export interface SnapshotDiff {
+  from: { id: string; record_time: string };
+  to: { id: string; record_time: string };
+  templates: TemplateDiff[];
+  totals: { created: number; archived: number; templatesChanged: number };
+}
+
+// ------------------------------------
+// Stats level
+// ------------------------------------
+export function diffFieldSums(
+  from: Record<string, string> | null,
+  to: Record<string, string> | null,
+): FieldSumChange[] {
+  const fields = new Set([...Object.keys(from ?? {}), ...Object.keys(to ?? {})]);
+  const changes: FieldSumChange[] = [];
+  for (const field of fields) {
+    const a = from?.[field] ?? null;
+    const b = to?.[field] ?? null;
+    const delta = (DamlDecimal.tryFrom(b) ?? DamlDecimal.ZERO).sub(DamlDecimal.tryFrom(a) ?? DamlDecimal.ZERO);
+    if (a === b || (a !== null && b !== null && delta.isZero())) continue;
+    changes.push({ field, from: a, to: b, delta: delta.toString() });
+  }
+  return changes.sort((x, y) => x.field.localeCompare(y.field));
+}
+
+export function diffStatusTallies(
+  from: Record<string, number> | null,
+  to: Record<string, number> | null,
+): StatusTallyChange[] {
+  const statuses = new Set([...Object.keys(from ?? {}), ...Object.keys(to ?? {})]);
+  const changes: StatusTallyChange[] = [];
+  for (const status of statuses) {
+    const a = Number(from?.[status] ?? 0);
+    const b = Number(to?.[status] ?? 0);
+    if (a !== b) changes.push({ status, from: a, to: b, delta: b - a });
+  }
+  return changes.sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+}
+
+/**
+ * True when the two rows are known to hold the same contracts, so the
+ * contract ids do not need to be loaded.
+ */
+export function isUnchanged(from: TemplateStatsLike, to: TemplateStatsLike): boolean {
+  return (
+    !!from.contract_id_checksum &&
+    from.contract_id_checksum === to.contract_id_checksum &&
+    from.contract_count === to.contract_count
+  );
+}
+
+/** Diff of one template from its stats rows; `contracts` is filled in separately */
+export function diffTemplateStats(from: TemplateStatsLike | null, to: TemplateStatsLike | null): TemplateDiff {
+  const template_id = (to ?? from).template_id;
+
+  const fromCount = from?.contract_count ?? 0;
+  const toCount = to?.contract_count ?? 0;
+  const fieldSums = diffFieldSums(from?.field_sums ?? null, to?.field_sums ?? null);
+  const statusTallies = diffStatusTallies(from?.status_tallies ?? null, to?.status_tallies ?? null);
+
+  return {
+    template_id,
+    change: !from ? "added" : !to ? "removed" : "changed",
+    fromCount,
+    toCount,
+    created: Math.max(0, toCount - fromCount),
+    archived: Math.max(0, fromCount - toCount),
+    // A template only on one side needs no ids to be exact
+    exact: !from || !to,
+    fieldSums,
+    statusTallies,
+    contracts: null,
+  };
+}
+
+// ------------------------------------
+// Contract level
+// ------------------------------------
+export function diffContractIds(from: Iterable<string>, to: Iterable<string>, limit = Infinity): ContractIdDiff {
+  const fromSet = new Set(from);
+  const toSet = new Set(to);
+  const added: string[] = [];
+  const removed: string[] = [];
+  let addedCount = 0;
+  let removedCount = 0;
+
+  for (const id of toSet) {
+    if (fromSet.has(id)) continue;
+    if (addedCount++ < limit) added.push(id);
+  }
+  for (const id of fromSet) {
+    if (toSet.has(id)) continue;
+    if (removedCount++ < limit) removed.push(id);
+  }
+
+  return { added, removed, addedCount, removedCount, truncated: addedCount > limit || removedCount > limit };
+}
+
+/** Replaces the count based estimate of a template diff with exact contract level numbers */
+export function withContractDiff(diff: TemplateDiff, contracts: ContractIdDiff): TemplateDiff {
+  return { ...diff, created: contracts.addedCount, archived: contracts.removedCount, exact: true, contracts };
+}
+
+export function hasChanges(diff: TemplateDiff): boolean {
+  return (
+    diff.change !== "changed" ||
+    diff.created > 0 ||
+    diff.archived > 0 ||
+    diff.fieldSums.length > 0 ||
+    diff.statusTallies.length > 0
+  );
+}
+
+export function summarizeDiff(templates: TemplateDiff[]): SnapshotDiff["totals"] {
+  return {
+    created: templates.reduce((s, t) => s + t.created, 0),
+    archived: templates.reduce((s, t) => s + t.archived, 0),
+    templatesChanged: templates.length,
+  };
+}
@@ -0,0 +1,134 @@
+/*
+ * amulet-balance
+ * --------------
+ * An Amulet's amount is an ExpiringAmount: `initialAmount` as of the round
+ * it was created in (`createdAt`), losing `ratePerRound.rate` to the holding
+ * fee every round after that until nothing is left. The contract only ever
+ * carries the initial amount; what the owner can spend at a given round is
+ * the effective amount computed here.
+ *
+ * `balanceAt` is the entry point for raw payloads (snapshot entries, Scan
+ * contracts): it finds the amount the way pickAmount does and values it in
+ * either mode. Payloads without a `ratePerRound` fall back to the holding fee
+ * in force, i.e. AmuletRules' `transferConfig.holdingFee.rate` (USD per
+ * round) over the amulet price, which is how the rate is set on creation.
+ */
+
+import { DamlDecimal } from "./daml-decimal.ts";
+import type { ExpiringAmount, OpenMiningRound } from "./splice-decoders.ts";
+
+/** `nominal` sums `initialAmount`; `effective` deducts the holding fee */
+export type BalanceMode = "nominal" | "effective";
+
+/** CC per round lost by an amulet created in `createdAtRound`, if known */
+export type HoldingFeeRateFor = (createdAtRound: number) => DamlDecimal | null;
+
+export interface BalanceOptions {
+  /** Read the LockedAmulet path (`amulet.amount`) first */
+  locked?: boolean;
+  /** Rate for payloads that carry no `ratePerRound` */
+  rateFor?: HoldingFeeRateFor;
+}
+
+/** Holding fee accrued on `amount` by `round`, capped at the amount itself */
+export function holdingFeeAt(amount: ExpiringAmount, round: number): DamlDecimal {
+  const rounds = Math.max(0, round - amount.createdAt.number);
+  return DamlDecimal.min(amount.ratePerRound.rate.mul(rounds), amount.initialAmount);
+}
+
+/** What `amount` is worth at `round`, never below zero */
+export function effectiveAmount(amount: ExpiringAmount, round: number): DamlDecimal {
+  return amount.initialAmount.sub(holdingFeeAt(amount, round));
+}
+
+/** A USD holding fee per round converted to CC at `amuletPrice` (USD per CC) */
+export function holdingFeeRate(usdPerRound: unknown, amuletPrice: unknown): DamlDecimal | null {
+  const usd = DamlDecimal.tryFrom(usdPerRound);
+  const price = DamlDecimal.tryFrom(amuletPrice);
+  if (!usd || !price || !price.gt(DamlDecimal.ZERO)) return null;
+  return usd.div(price);
+}
+
+/** The CC holding fee rate an open mining round applies to amulets created in it */
+export function roundHoldingFeeRate(round: OpenMiningRound): DamlDecimal | null {
+  const config = round.transferConfigUsd as { holdingFee?: { rate?: unknown } } | null;
+  return holdingFeeRate(config?.holdingFee?.rate, round.amuletPrice);
+}
+
+/** The ExpiringAmount fields as they may appear in an undecoded payload */
+interface RawExpiringAmount {
+  initialAmount?: unknown;
+  createdAt?: { number?: unknown };
+  ratePerRound?: { rate?: unknown };
+}
+
+interface RawAmountHolder {
+  amount?: RawExpiringAmount | string | number;
+  amulet?: { amount?: RawExpiringAmount };
+  state?: { amount?: RawExpiringAmount };
+  create_arguments?: { amount?: RawExpiringAmount };
+  balance?: RawExpiringAmount;
+}
+
+interface PartialExpiringAmount {
+  initialAmount: DamlDecimal;
+  createdAt: number | null;
+  rate: DamlDecimal | null;
+}
+
+function readExpiringAmount(value: RawExpiringAmount | string | number | undefined): PartialExpiringAmount | null {
+  if (!value || typeof value !== "object") return null;
+  const initialAmount = DamlDecimal.tryFrom(value.initialAmount);
+  if (!initialAmount) return null;
+  const createdAt = value.createdAt?.number;
+  return {
+    initialAmount,
+    createdAt: createdAt != null && Number.isFinite(Number(createdAt)) ? Number(createdAt) : null,
+    rate: DamlDecimal.tryFrom(value.ratePerRound?.rate),
+  };
+}
+
+/**
+ * The amount of an Amulet or LockedAmulet payload, from the same paths as
+ * pickAmountDecimal. A bare `amount` decimal comes back without a round.
+ */
+export function pickExpiringAmount(value: unknown, locked = false): PartialExpiringAmount | null {
+  if (!value || typeof value !== "object") return null;
+  const obj = value as RawAmountHolder;
+  const candidates = [obj.amount, obj.amulet?.amount, obj.state?.amount, obj.create_arguments?.amount, obj.balance];
+  if (locked) candidates.unshift(obj.amulet?.amount);
+  for (const value of candidates) {
+    const amount = readExpiringAmount(value);
+    if (amount) return amount;
+  }
+  const bare = DamlDecimal.tryFrom(obj.amount);
+  return bare ? { initialAmount: bare, createdAt: null, rate: null } : null;
+}
+
+/**
+ * Balance of one payload at `round`. Amounts with no creation round or no
+ * known rate cannot decay and stay nominal.
+ */
+export function balanceAt(obj: unknown, round: number, mode: BalanceMode, options: BalanceOptions = {}): DamlDecimal {
+  const amount = pickExpiringAmount(obj, options.locked);
+  if (!amount) return DamlDecimal.ZERO;
+  if (mode === "nominal" || amount.createdAt === null) return amount.initialAmount;
+  const rate = amount.rate ?? options.rateFor?.(amount.createdAt) ?? null;
+  if (!rate) return amount.initialAmount;
+  return effectiveAmount(
+    { initialAmount: amount.initialAmount, createdAt: { number: amount.createdAt }, ratePerRound: { rate } },
+    round,
+  );
+}
+
+/** Sum of `balanceAt` over a list of payloads */
+export function sumBalances(
+  items: unknown[],
+  round: number,
+  mode: BalanceMode,
+  options: BalanceOptions = {},
+): DamlDecimal {
+  let total = DamlDecimal.ZERO;
+  for (const item of items) total = total.add(balanceAt(item, round, mode, options));
+  return total;
+}
@@ -0,0 +1,239 @@
+/*
+ * ans-registry
+ * ------------
+ * Turns ANS events into the rows behind the name registry history:
+ *
+ *  - AnsEntry: a name held by a party until `expiresAt`. A renewal is paid by
+ *    the owner's ANS subscription: the DSO collects the payment on the
+ *    AnsEntryContext, archives the entry and creates it again with a later
+ *    expiry, all in one update. Entries nobody renews are archived by the
+ *    DSO with `AnsEntry_Expire`, after which anyone may register the name;
+ *  - AnsEntryContext: the subscription behind a name. The payment choices
+ *    exercised on it tell an initial registration from a renewal.
+ *
+ * Like the other ledgers, creates and archives of entries are written as
+ * separate partial rows keyed by contract id, so either may arrive first.
+ * buildNameHistory then reads a name's entries back as registrations,
+ * renewals, expiries and re-registrations.
+ */
+
+import { decodeContract } from "./splice-decoders.ts";
+import { contractId, DamlDecodeError, optional, record } from "./daml-decode.ts";
+import { classifyCreatesAndCloses, type LedgerEventRow, type SkippedEvent } from "./ledger-events.ts";
+
+export const ENTRY_EXPIRE_CHOICE = "AnsEntry_Expire";
+export const INITIAL_PAYMENT_CHOICE = "AnsEntryContext_CollectInitialEntryPayment";
+export const RENEWAL_PAYMENT_CHOICE = "AnsEntryContext_CollectEntryRenewalPayment";
+
+export interface AnsEntryCreate {
+  contract_id: string;
+  name: string;
+  owner: string;
+  url: string;
+  description: string;
+  expires_at: string;
+  created_at: string;
+  created_update_id: string;
+}
+
+export interface AnsEntryClose {
+  contract_id: string;
+  archived_at: string;
+  archive_choice: string;
+  archive_update_id: string;
+}
+
+export interface AnsPaymentRow {
+  event_id: string;
+  context_contract_id: string;
+  kind: "initial" | "renewal";
+  choice: string;
+  payment_contract_id: string | null;
+  recorded_at: string;
+  update_id: string;
+}
+
+const skip = (row: LedgerEventRow, error: DamlDecodeError): SkippedEvent => ({
+  event_id: row.event_id,
+  reason: error.message,
+});
+
+export function parseAnsEntries(rows: LedgerEventRow[]) {
+  return classifyCreatesAndCloses(
+    rows,
+    (row) => decodeContract("Splice:Ans:AnsEntry", row.payload, row.contract_id),
+    (row, { name, user, url, description, expiresAt }): AnsEntryCreate => ({
+      contract_id: row.contract_id,
+      name,
+      owner: user,
+      url,
+      description,
+      expires_at: expiresAt,
+      created_at: row.record_time,
+      created_update_id: row.update_id,
+    }),
+    (row): AnsEntryClose => ({
+      contract_id: row.contract_id,
+      archived_at: row.record_time,
+      archive_choice: String(row.raw?.choice ?? ""),
+      archive_update_id: row.update_id,
+    }),
+  );
+}
+
+const decodePaymentArgument = record({
+  paymentCid: optional(contractId),
+});
+
+export function parseAnsPayments(rows: LedgerEventRow[]) {
+  const payments: AnsPaymentRow[] = [];
+  const skipped: SkippedEvent[] = [];
+
+  for (const row of rows) {
+    const choice = row.raw?.choice;
+    if (row.event_type !== "exercised_event" || !row.contract_id) continue;
+    if (choice !== INITIAL_PAYMENT_CHOICE && choice !== RENEWAL_PAYMENT_CHOICE) continue;
+    // The payment contract is informational; the update links the payment to its entry
+    const arg = decodePaymentArgument(row.raw?.choice_argument, "choice_argument");
+    if (!arg.ok) {
+      skipped.push(skip(row, new DamlDecodeError(choice, arg.issues)));
+      continue;
+    }
+    payments.push({
+      event_id: row.event_id,
+      context_contract_id: row.contract_id,
+      kind: choice === RENEWAL_PAYMENT_CHOICE ? "renewal" : "initial",
+      choice,
+      payment_contract_id: arg.value.paymentCid,
+      recorded_at: row.record_time,
+      update_id: row.update_id,
+    });
+  }
+
+  return { payments, skipped };
+}
+
+// ------------------------------------
+// History
+// ------------------------------------
+
+/** A row of the ans_entry_history view */
+export interface AnsEntryRecord {
+  contract_id: string;
+  name: string;
+  owner: string | null;
+  url: string | null;
+  description: string | null;
+  expires_at: string | null;
+  created_at: string | null;
+  created_update_id: string | null;
+  archived_at: string | null;
+  archive_choice: string | null;
+  archive_update_id: string | null;
+  payment_kind: "initial" | "renewal" | null;
+  payment_contract_id: string | null;
+}
+
+/** A row of the ans_names view */
+export interface AnsName {
+  name: string;
+  owner: string | null;
+  url: string | null;
+  description: string | null;
+  contract_id: string;
+  expires_at: string | null;
+  entry_created_at: string | null;
+  archived_at: string | null;
+  archive_choice: string | null;
+  active: boolean;
+  first_registered_at: string | null;
+  entries: number;
+}
+
+export type AnsHistoryKind = "registered" | "renewed" | "expired" | "released" | "re-registered";
+
+export interface AnsHistoryEvent {
+  kind: AnsHistoryKind;
+  at: string;
+  owner: string | null;
+  contractId: string;
+  updateId: string | null;
+  /** Expiry of the entry the event created, or of the one that ended */
+  expiresAt: string | null;
+  /** Paid through the owner's ANS subscription */
+  paid: boolean;
+  /** An expiry the DSO has not archived yet */
+  pending?: boolean;
+}
+
+/** Whether `entry` continues `previous` rather than starting a new holding */
+function isRenewal(previous: AnsEntryRecord, entry: AnsEntryRecord): boolean {
+  if (entry.payment_kind === "renewal") return true;
+  return (
+    !!previous.archive_update_id &&
+    previous.archive_update_id === entry.created_update_id &&
+    previous.owner === entry.owner
+  );
+}
+
+/**
+ * The history of one name, oldest first, from all its entries. Each entry
+ * is a registration, a renewal of the entry before it or a re-registration
+ * after that one ended. An entry that is not renewed ends by expiring (or
+ * lapsing past its expiry, while the DSO has not archived it yet) or, for
+ * any other archive before its expiry, by being released.
+ */
+export function buildNameHistory(entries: AnsEntryRecord[], now = Date.now()): AnsHistoryEvent[] {
+  const held = entries
+    .filter((e) => e.created_at)
+    .sort((a, b) => a.created_at!.localeCompare(b.created_at!) || a.contract_id.localeCompare(b.contract_id));
+  const events: AnsHistoryEvent[] = [];
+
+  held.forEach((entry, i) => {
+    const previous = held[i - 1];
+    const next = held[i + 1];
+    events.push({
+      kind: !previous ? "registered" : isRenewal(previous, entry) ? "renewed" : "re-registered",
+      at: entry.created_at!,
+      owner: entry.owner,
+      contractId: entry.contract_id,
+      updateId: entry.created_update_id,
+      expiresAt: entry.expires_at,
+      paid: entry.payment_kind !== null,
+    });
+
+    if (next && isRenewal(entry, next)) return;
+    const end = {
+      owner: entry.owner,
+      contractId: entry.contract_id,
+      updateId: entry.archive_update_id,
+      expiresAt: entry.expires_at,
+      paid: false,
+    };
+    if (entry.archived_at) {
+      const expired =
+        entry.archive_choice === ENTRY_EXPIRE_CHOICE || (!!entry.expires_at && Date.parse(entry.archived_at) >= Date.parse(entry.expires_at));
+      events.push({ ...end, kind: expired ? "expired" : "released", at: entry.archived_at });
+    } else if (entry.expires_at && Date.parse(entry.expires_at) <= now) {
+      events.push({ ...end, kind: "expired", at: entry.expires_at, pending: true });
+    }
+  });
+
+  return events;
+}
+
+/** Active names expiring within `days` days of `now`, grouped by UTC day */
+export function expiryCalendar(names: AnsName[], days: number, now = Date.now()): { day: string; names: AnsName[] }[] {
+  const until = now + days * 24 * 60 * 60 * 1000;
+  const byDay = new Map<string, AnsName[]>();
+  for (const n of names) {
+    if (!n.active || !n.expires_at) continue;
+    const at = Date.parse(n.expires_at);
+    if (at < now || at > until) continue;
+    const day = n.expires_at.slice(0, 10);
+    byDay.set(day, [...(byDay.get(day) ?? []), n]);
+  }
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, list]) => ({ day, names: list.sort((a, b) => a.expires_at!.localeCompare(b.expires_at!)) }));
+}
@@ -0,0 +1,373 @@
+/*
+ * app-activity
+ * ------------
+ * Turns app events into the rows behind the featured app analytics:
+ *
+ *  - FeaturedAppRight: created when an app is featured, archived when the
+ *    right is withdrawn or revoked;
+ *  - FeaturedAppActivityMarker: activity a featured app records for a
+ *    beneficiary, with a weight;
+ *  - AppRewardCoupon: the app reward of a provider (or its beneficiary) for
+ *    one round, paid at `amount * issuancePerFeaturedAppRewardCoupon`, or
+ *    the unfeatured rate, of the round's IssuingMiningRound. The DSO expires
+ *    unclaimed coupons with `AppRewardCoupon_DsoExpire`; any other archive is
+ *    a claim inside a transfer;
+ *  - AmuletRules_Transfer: the volume of a transfer, attributed to the
+ *    transfer's `provider`.
+ *
+ * Like the SV reward ledger, creates and archives of rights and coupons are
+ * written as separate partial rows keyed by contract id, so either may
+ * arrive first. The sync then rebuilds the app_activity_daily buckets the
+ * page touched.
+ */
+
+import { DamlDecimal } from "./daml-decimal.ts";
+import { decodeContract } from "./splice-decoders.ts";
+import { DamlDecodeError, int64, list, numeric, optional, party, record } from "./daml-decode.ts";
+import { classifyCreatesAndCloses, isCreate, type LedgerEventRow, type SkippedEvent } from "./ledger-events.ts";
+
+export const TRANSFER_CHOICE = "AmuletRules_Transfer";
+export const APP_COUPON_EXPIRE_CHOICE = "AppRewardCoupon_DsoExpire";
+
+export interface RightCreate {
+  contract_id: string;
+  provider: string;
+  featured_at: string;
+  featured_update_id: string;
+}
+
+export interface RightClose {
+  contract_id: string;
+  revoked_at: string;
+  revoke_choice: string;
+  revoke_update_id: string;
+}
+
+export interface MarkerRow {
+  contract_id: string;
+  provider: string;
+  beneficiary: string;
+  weight: string;
+  recorded_at: string;
+  update_id: string;
+}
+
+export interface AppCouponCreate {
+  contract_id: string;
+  provider: string;
+  beneficiary: string;
+  featured: boolean;
+  amount: string;
+  round: number;
+  created_at: string;
+  created_update_id: string;
+}
+
+export interface AppCouponClose {
+  contract_id: string;
+  status: "claimed" | "expired";
+  closed_at: string;
+  close_choice: string;
+  close_update_id: string;
+}
+
+export interface AppTransferRow {
+  event_id: string;
+  provider: string;
+  sender: string;
+  volume: string;
+  outputs: number;
+  round: number | null;
+  recorded_at: string;
+  update_id: string;
+}
+
+/** A (provider, UTC day) bucket of app_activity_daily */
+export interface AppBucket {
+  provider: string;
+  day: string;
+}
+
+const skip = (row: LedgerEventRow, error: DamlDecodeError): SkippedEvent => ({
+  event_id: row.event_id,
+  reason: error.message,
+});
+
+export function parseFeaturedAppRights(rows: LedgerEventRow[]) {
+  return classifyCreatesAndCloses(
+    rows,
+    (row) => decodeContract("Splice:Amulet:FeaturedAppRight", row.payload, row.contract_id),
+    (row, right): RightCreate => ({
+      contract_id: row.contract_id,
+      provider: right.provider,
+      featured_at: row.record_time,
+      featured_update_id: row.update_id,
+    }),
+    (row): RightClose => ({
+      contract_id: row.contract_id,
+      revoked_at: row.record_time,
+      revoke_choice: String(row.raw?.choice ?? ""),
+      revoke_update_id: row.update_id,
+    }),
+  );
+}
+
+export function parseActivityMarkers(rows: LedgerEventRow[]) {
+  const markers: MarkerRow[] = [];
+  const skipped: SkippedEvent[] = [];
+
+  for (const row of rows) {
+    if (!row.contract_id || !isCreate(row)) continue;
+    const decoded = decodeContract("Splice:Amulet:FeaturedAppActivityMarker", row.payload, row.contract_id);
+    if (!decoded.ok) {
+      skipped.push(skip(row, decoded.error));
+      continue;
+    }
+    markers.push({
+      contract_id: row.contract_id,
+      provider: decoded.value.provider,
+      beneficiary: decoded.value.beneficiary,
+      weight: decoded.value.weight.toString(),
+      recorded_at: row.record_time,
+      update_id: row.update_id,
+    });
+  }
+
+  return { markers, skipped };
+}
+
+export function classifyAppCouponEvents(rows: LedgerEventRow[]) {
+  return classifyCreatesAndCloses(
+    rows,
+    (row) => decodeContract("Splice:Amulet:AppRewardCoupon", row.payload, row.contract_id),
+    (row, { provider, beneficiary, featured, amount, round }): AppCouponCreate => ({
+      contract_id: row.contract_id,
+      provider,
+      beneficiary: beneficiary ?? provider,
+      featured,
+      amount: amount.toString(),
+      round: round.number,
+      created_at: row.record_time,
+      created_update_id: row.update_id,
+    }),
+    (row): AppCouponClose => {
+      const choice = String(row.raw?.choice ?? "");
+      return {
+        contract_id: row.contract_id,
+        status: choice === APP_COUPON_EXPIRE_CHOICE ? "expired" : "claimed",
+        closed_at: row.record_time,
+        close_choice: choice,
+        close_update_id: row.update_id,
+      };
+    },
+  );
+}
+
+const decodeTransferArgument = record({
+  transfer: record({
+    sender: party,
+    provider: party,
+    outputs: list(record({ amount: numeric })),
+  }),
+});
+
+const decodeTransferResult = record({
+  round: optional(record({ number: int64 })),
+});
+
+export function parseAppTransfers(rows: LedgerEventRow[]) {
+  const transfers: AppTransferRow[] = [];
+  const skipped: SkippedEvent[] = [];
+
+  for (const row of rows) {
+    if (row.event_type !== "exercised_event" || row.raw?.choice !== TRANSFER_CHOICE) continue;
+    const arg = decodeTransferArgument(row.raw.choice_argument, "choice_argument");
+    if (!arg.ok) {
+      skipped.push(skip(row, new DamlDecodeError(TRANSFER_CHOICE, arg.issues)));
+      continue;
+    }
+    const { sender, provider, outputs } = arg.value.transfer;
+    const result = decodeTransferResult(row.raw.exercise_result, "exercise_result");
+    transfers.push({
+      event_id: row.event_id,
+      provider,
+      sender,
+      volume: DamlDecimal.sum(outputs.map((o) => o.amount)).toString(),
+      outputs: outputs.length,
+      round: result.ok ? result.value.round?.number ?? null : null,
+      recorded_at: row.record_time,
+      update_id: row.update_id,
+    });
+  }
+
+  return { transfers, skipped };
+}
+
+/** The daily buckets a page of rows lands in, without duplicates */
+export function touchedAppBuckets(rows: { provider: string | null; at: string | null }[]): AppBucket[] {
+  const buckets = new Map<string, AppBucket>();
+  for (const r of rows) {
+    if (!r.provider || !r.at) continue;
+    const day = r.at.slice(0, 10);
+    buckets.set(`${r.provider}|${day}`, { provider: r.provider, day });
+  }
+  return Array.from(buckets.values());
+}
+
+// ------------------------------------
+// Report
+// ------------------------------------
+
+/** A row of the app_activity_daily table; amounts are exact numeric text */
+export interface AppActivityDay {
+  provider: string;
+  day: string;
+  markers: number;
+  marker_weight: string | null;
+  coupons_issued: number;
+  featured_coupons: number;
+  coupon_activity: string | null;
+  reward_issued: string | null;
+  unpriced_count: number;
+  coupons_claimed: number;
+  reward_claimed: string | null;
+  coupons_expired: number;
+  reward_expired: string | null;
+  transfers: number;
+  transfer_volume: string | null;
+}
+
+/** A row of the featured_apps view */
+export interface FeaturedApp {
+  provider: string;
+  first_featured_at: string | null;
+  last_featured_at: string | null;
+  active: boolean;
+  last_revoked_at: string | null;
+  rights: number;
+  vote_id: string | null;
+  app_name: string | null;
+  vote_status: string | null;
+  voted_at: string | null;
+  yes_weight: number | null;
+  total_weight: number | null;
+  markers: number;
+  coupons_issued: number;
+  reward_issued: string;
+  reward_claimed: string;
+  reward_expired: string;
+  transfers: number;
+  transfer_volume: string;
+  last_active_day: string | null;
+}
+
+export interface AppReportRow {
+  app: FeaturedApp;
+  markers: number;
+  markerWeight: DamlDecimal;
+  couponsIssued: number;
+  featuredCoupons: number;
+  unpricedCount: number;
+  rewardIssued: DamlDecimal;
+  couponsClaimed: number;
+  rewardClaimed: DamlDecimal;
+  couponsExpired: number;
+  rewardExpired: DamlDecimal;
+  transfers: number;
+  transferVolume: DamlDecimal;
+  activeDays: number;
+}
+
+const dec = (value: string | null) => (value ? DamlDecimal.from(value) : DamlDecimal.ZERO);
+
+/** First and last UTC day of a "YYYY-MM" month */
+export function monthRange(month: string): { from: string; to: string } {
+  const [year, m] = month.split("-").map(Number);
+  const last = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(last).padStart(2, "0")}` };
+}
+
+/**
+ * One row per featured app with its activity from `from` to `to` (UTC days,
+ * inclusive). Apps without activity in the range are kept, with zeros; the
+ * activity of providers that were never featured is left out.
+ */
+export function buildAppReport(apps: FeaturedApp[], days: AppActivityDay[], from: string, to: string): AppReportRow[] {
+  const rows = new Map<string, AppReportRow>(
+    apps.map((app) => [
+      app.provider,
+      {
+        app,
+        markers: 0,
+        markerWeight: DamlDecimal.ZERO,
+        couponsIssued: 0,
+        featuredCoupons: 0,
+        unpricedCount: 0,
+        rewardIssued: DamlDecimal.ZERO,
+        couponsClaimed: 0,
+        rewardClaimed: DamlDecimal.ZERO,
+        couponsExpired: 0,
+        rewardExpired: DamlDecimal.ZERO,
+        transfers: 0,
+        transferVolume: DamlDecimal.ZERO,
+        activeDays: 0,
+      },
+    ]),
+  );
+
+  for (const d of days) {
+    const row = rows.get(d.provider);
+    if (!row || d.day < from || d.day > to) continue;
+    row.markers += d.markers;
+    row.markerWeight = row.markerWeight.add(dec(d.marker_weight));
+    row.couponsIssued += d.coupons_issued;
+    row.featuredCoupons += d.featured_coupons;
+    row.unpricedCount += d.unpriced_count;
+    row.rewardIssued = row.rewardIssued.add(dec(d.reward_issued));
+    row.couponsClaimed += d.coupons_claimed;
+    row.rewardClaimed = row.rewardClaimed.add(dec(d.reward_claimed));
+    row.couponsExpired += d.coupons_expired;
+    row.rewardExpired = row.rewardExpired.add(dec(d.reward_expired));
+    row.transfers += d.transfers;
+    row.transferVolume = row.transferVolume.add(dec(d.transfer_volume));
+    if (d.markers > 0 || d.coupons_issued > 0 || d.transfers > 0) row.activeDays += 1;
+  }
+
+  return Array.from(rows.values()).sort((a, b) => b.rewardIssued.cmp(a.rewardIssued) || b.markers - a.markers);
+}
+
+const csvCell = (value: string | number | null) => {
+  const s = value === null ? "" : String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** The report as CSV, amounts exact */
+export function appReportCsv(rows: AppReportRow[]): string {
+  const header = [
+    "provider", "app_name", "featured_at", "featured_now", "vote_id", "vote_status", "markers", "marker_weight",
+    "coupons_issued", "featured_coupons", "unpriced_coupons", "reward_issued", "coupons_claimed", "reward_claimed",
+    "coupons_expired", "reward_expired", "transfers", "transfer_volume", "active_days",
+  ];
+  const lines = rows.map((r) => [
+    r.app.provider,
+    r.app.app_name,
+    r.app.first_featured_at,
+    r.app.active ? "yes" : "no",
+    r.app.vote_id,
+    r.app.vote_status,
+    r.markers,
+    r.markerWeight.toString(),
+    r.couponsIssued,
+    r.featuredCoupons,
+    r.unpricedCount,
+    r.rewardIssued.toString(),
+    r.couponsClaimed,
+    r.rewardClaimed.toString(),
+    r.couponsExpired,
+    r.rewardExpired.toString(),
+    r.transfers,
+    r.transferVolume.toString(),
+    r.activeDays,
+  ]);
+  return [header, ...lines].map((line) => line.map(csvCell).join(",")).join("\n");
+}
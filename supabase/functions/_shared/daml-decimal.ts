@@ -0,0 +1,203 @@
+/*
+ * daml-decimal
+ * ------------
+ * Exact fixed-point arithmetic for Daml `Numeric 10` values, which is the
+ * type of every Amulet amount, fee and issuance figure on the ledger.
+ *
+ * Values are stored as a bigint scaled by 10^10, so additions and
+ * subtractions are exact and multiplication/division round half-even to
+ * 10 decimals exactly like the Daml engine does.
+ *
+ * This module has no runtime dependencies so it can be imported both by the
+ * edge functions (Deno) and by the web app (via src/lib/daml-decimal.ts).
+ */
+
+export const DAML_DECIMAL_SCALE = 10;
+
+const SCALE_FACTOR = 10n ** BigInt(DAML_DECIMAL_SCALE);
+
+// Optional sign, digits with an optional fraction, optional exponent
+// ("1e-7" is what String(0.0000001) produces).
+const NUMERIC_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+export type DecimalLike = DamlDecimal | string | number | bigint;
+
+// ------------------------------------
+// Rounding helpers
+// ------------------------------------
+function divRoundHalfEven(numerator: bigint, denominator: bigint): bigint {
+  if (denominator === 0n) throw new Error("Division by zero");
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+
+  let quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+
+  if (twiceRemainder > denominator || (twiceRemainder === denominator && quotient % 2n !== 0n)) {
+    quotient += numerator < 0n ? -1n : 1n;
+  }
+  return quotient;
+}
+
+function parseScaled(text: string): bigint | null {
+  const match = NUMERIC_PATTERN.exec(text.trim());
+  if (!match) return null;
+
+  const [, sign, intPart = "", fracPart = "", exponentPart] = match;
+  if (intPart.length === 0 && fracPart.length === 0) return null;
+
+  const digits = BigInt((intPart + fracPart) || "0");
+  const shift = DAML_DECIMAL_SCALE - fracPart.length + (exponentPart ? parseInt(exponentPart, 10) : 0);
+
+  const scaled = shift >= 0 ? digits * 10n ** BigInt(shift) : divRoundHalfEven(digits, 10n ** BigInt(-shift));
+  return sign === "-" ? -scaled : scaled;
+}
+
+// ------------------------------------
+// DamlDecimal
+// ------------------------------------
+export class DamlDecimal {
+  static readonly ZERO = new DamlDecimal(0n);
+
+  /** Value multiplied by 10^10. */
+  readonly scaled: bigint;
+
+  private constructor(scaled: bigint) {
+    this.scaled = scaled;
+  }
+
+  static fromScaled(scaled: bigint): DamlDecimal {
+    return new DamlDecimal(scaled);
+  }
+
+  /**
+   * Parses a ledger value. Strings are read digit by digit (no float
+   * round-trip); numbers go through their shortest string form; bigints are
+   * treated as whole units. Throws on anything that is not a finite number.
+   */
+  static from(value: DecimalLike): DamlDecimal {
+    const parsed = DamlDecimal.tryFrom(value);
+    if (!parsed) throw new Error(`Invalid Daml decimal: ${String(value)}`);
+    return parsed;
+  }
+
+  /** Same as `from`, but returns null for missing or malformed values. */
+  static tryFrom(value: unknown): DamlDecimal | null {
+    if (value instanceof DamlDecimal) return value;
+    if (typeof value === "bigint") return new DamlDecimal(value * SCALE_FACTOR);
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) return null;
+      const scaled = parseScaled(String(value));
+      return scaled === null ? null : new DamlDecimal(scaled);
+    }
+    if (typeof value === "string") {
+      const scaled = parseScaled(value.replace(/_/g, ""));
+      return scaled === null ? null : new DamlDecimal(scaled);
+    }
+    return null;
+  }
+
+  static sum(values: Iterable<DecimalLike>): DamlDecimal {
+    let total = 0n;
+    for (const v of values) total += DamlDecimal.from(v).scaled;
+    return new DamlDecimal(total);
+  }
+
+  static min(a: DecimalLike, b: DecimalLike): DamlDecimal {
+    const x = DamlDecimal.from(a);
+    const y = DamlDecimal.from(b);
+    return x.lte(y) ? x : y;
+  }
+
+  static max(a: DecimalLike, b: DecimalLike): DamlDecimal {
+    const x = DamlDecimal.from(a);
+    const y = DamlDecimal.from(b);
+    return x.gte(y) ? x : y;
+  }
+
+  // ---------- arithmetic ----------
+
+  add(other: DecimalLike): DamlDecimal {
+    return new DamlDecimal(this.scaled + DamlDecimal.from(other).scaled);
+  }
+
+  sub(other: DecimalLike): DamlDecimal {
+    return new DamlDecimal(this.scaled - DamlDecimal.from(other).scaled);
+  }
+
+  mul(other: DecimalLike): DamlDecimal {
+    return new DamlDecimal(divRoundHalfEven(this.scaled * DamlDecimal.from(other).scaled, SCALE_FACTOR));
+  }
+
+  div(other: DecimalLike): DamlDecimal {
+    return new DamlDecimal(divRoundHalfEven(this.scaled * SCALE_FACTOR, DamlDecimal.from(other).scaled));
+  }
+
+  neg(): DamlDecimal {
+    return new DamlDecimal(-this.scaled);
+  }
+
+  abs(): DamlDecimal {
+    return this.scaled < 0n ? this.neg() : this;
+  }
+
+  // ---------- comparison ----------
+
+  cmp(other: DecimalLike): -1 | 0 | 1 {
+    const o = DamlDecimal.from(other).scaled;
+    if (this.scaled < o) return -1;
+    if (this.scaled > o) return 1;
+    return 0;
+  }
+
+  eq(other: DecimalLike): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  lt(other: DecimalLike): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: DecimalLike): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  gt(other: DecimalLike): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: DecimalLike): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.scaled === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.scaled < 0n;
+  }
+
+  // ---------- conversion ----------
+
+  /** Canonical ledger form, always with 10 fractional digits ("12.5000000000"). */
+  toString(): string {
+    const negative = this.scaled < 0n;
+    const digits = (negative ? -this.scaled : this.scaled).toString().padStart(DAML_DECIMAL_SCALE + 1, "0");
+    const intPart = digits.slice(0, -DAML_DECIMAL_SCALE);
+    const fracPart = digits.slice(-DAML_DECIMAL_SCALE);
+    return `${negative ? "-" : ""}${intPart}.${fracPart}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /** Lossy conversion for charts and display only; never aggregate the result. */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+}
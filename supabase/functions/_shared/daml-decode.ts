@@ -0,0 +1,245 @@
+/*
+ * daml-decode
+ * -----------
+ * Small runtime decoders for Daml-LF JSON values as returned by the Scan API
+ * (`create_arguments`, `choice_argument`, `exercise_result`, ...).
+ *
+ * Every decoder validates its input and either returns a typed value or the
+ * full list of places where the payload did not match, so a renamed or
+ * retyped field surfaces as a decode failure instead of `undefined` / 0.
+ *
+ * Records are decoded leniently: unknown extra fields are ignored, because
+ * Splice package upgrades are allowed to add (optional) fields.
+ */
+
+import { DamlDecimal } from "./daml-decimal.ts";
+
+export interface DecodeIssue {
+  /** Dotted path into the payload, e.g. "amount.initialAmount" */
+  path: string;
+  expected: string;
+  received: string;
+}
+
+// Both branches declare both keys so callers can use `!r.ok` / `r.issues`
+// without relying on strict-mode narrowing.
+export type DecodeResult<T> =
+  | { ok: true; value: T; issues?: undefined }
+  | { ok: false; value?: undefined; issues: DecodeIssue[] };
+
+export type Decoder<T> = (input: unknown, path?: string) => DecodeResult<T>;
+
+export type Decoded<D> = D extends Decoder<infer T> ? T : never;
+
+/**
+ * Raised (or returned) when a contract payload does not match its template decoder.
+ */
+export class DamlDecodeError extends Error {
+  readonly templateId: string;
+  readonly contractId?: string;
+  readonly issues: DecodeIssue[];
+
+  constructor(templateId: string, issues: DecodeIssue[], contractId?: string) {
+    const first = issues[0];
+    const detail = first
+      ? `${first.path || "<root>"}: expected ${first.expected}, got ${first.received}`
+      : "unknown mismatch";
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : "";
+    super(`Cannot decode ${templateId}${contractId ? ` ${contractId.slice(0, 12)}` : ""}: ${detail}${more}`);
+    this.name = "DamlDecodeError";
+    this.templateId = templateId;
+    this.contractId = contractId;
+    this.issues = issues;
+  }
+}
+
+// ------------------------------------
+// Helpers
+// ------------------------------------
+function describe(input: unknown): string {
+  if (input === undefined) return "undefined";
+  if (input === null) return "null";
+  if (Array.isArray(input)) return `array(${input.length})`;
+  if (typeof input === "object") return "object";
+  const text = String(input);
+  return `${typeof input} ${JSON.stringify(text.length > 40 ? `${text.slice(0, 40)}…` : text)}`;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function ok<T>(value: T): DecodeResult<T> {
+  return { ok: true, value };
+}
+
+function fail<T>(path: string, expected: string, input: unknown): DecodeResult<T> {
+  return { ok: false, issues: [{ path, expected, received: describe(input) }] };
+}
+
+function isPlainObject(input: unknown): input is Record<string, unknown> {
+  return typeof input === "object" && input !== null && !Array.isArray(input);
+}
+
+// ------------------------------------
+// Primitive decoders
+// ------------------------------------
+export const text: Decoder<string> = (input, path = "") =>
+  typeof input === "string" ? ok(input) : fail(path, "Text", input);
+
+/** Party ids are `hint::fingerprint` */
+export const party: Decoder<string> = (input, path = "") =>
+  typeof input === "string" && input.includes("::") ? ok(input) : fail(path, "Party", input);
+
+export const contractId: Decoder<string> = (input, path = "") =>
+  typeof input === "string" && input.length > 0 ? ok(input) : fail(path, "ContractId", input);
+
+export const bool: Decoder<boolean> = (input, path = "") =>
+  typeof input === "boolean" ? ok(input) : fail(path, "Bool", input);
+
+/** Int64 arrives as a string in compact JSON; numbers are accepted as well */
+export const int64: Decoder<number> = (input, path = "") => {
+  if (typeof input === "number" && Number.isInteger(input)) return ok(input);
+  if (typeof input === "string" && /^-?\d+$/.test(input)) return ok(Number(input));
+  return fail(path, "Int64", input);
+};
+
+export const numeric: Decoder<DamlDecimal> = (input, path = "") => {
+  if (typeof input !== "string" && typeof input !== "number") return fail(path, "Numeric", input);
+  const value = DamlDecimal.tryFrom(input);
+  return value ? ok(value) : fail(path, "Numeric", input);
+};
+
+/** Timestamps are kept as the ISO strings the API returns */
+export const time: Decoder<string> = (input, path = "") =>
+  typeof input === "string" && !isNaN(Date.parse(input)) ? ok(input) : fail(path, "Time", input);
+
+/** Pass-through for parts of a payload we deliberately don't model */
+export const unknownValue: Decoder<unknown> = (input) => ok(input);
+
+// ------------------------------------
+// Combinators
+// ------------------------------------
+export function optional<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (input, path = "") => (input === null || input === undefined ? ok(null) : decoder(input, path));
+}
+
+export function list<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (input, path = "") => {
+    if (!Array.isArray(input)) return fail(path, "List", input);
+    const values: T[] = [];
+    const issues: DecodeIssue[] = [];
+    input.forEach((item, idx) => {
+      const r = decoder(item, joinPath(path, idx));
+      if (r.ok) values.push(r.value);
+      else issues.push(...r.issues);
+    });
+    return issues.length ? { ok: false, issues } : ok(values);
+  };
+}
+
+export function record<T extends Record<string, unknown>>(fields: { [K in keyof T]: Decoder<T[K]> }): Decoder<T> {
+  return (input, path = "") => {
+    if (!isPlainObject(input)) return fail(path, "Record", input);
+    const value = {} as T;
+    const issues: DecodeIssue[] = [];
+    for (const key of Object.keys(fields) as (keyof T & string)[]) {
+      const r = fields[key](input[key], joinPath(path, key));
+      if (r.ok) value[key] = r.value;
+      else issues.push(...r.issues);
+    }
+    return issues.length ? { ok: false, issues } : ok(value);
+  };
+}
+
+export interface Variant<V = unknown> {
+  tag: string;
+  value: V;
+}
+
+/**
+ * Variants come either as `{ tag, value }` (compact JSON) or as a single-key
+ * object `{ Tag: value }` (older snapshot files); both are normalised.
+ * `cases` restricts the accepted tags; omit it to accept any constructor.
+ */
+export function variant<V = unknown>(cases?: Record<string, Decoder<V>>): Decoder<Variant<V>> {
+  return (input, path = "") => {
+    if (!isPlainObject(input)) return fail(path, "Variant", input);
+
+    let tag: unknown;
+    let raw: unknown;
+    if (typeof input.tag === "string") {
+      tag = input.tag;
+      raw = input.value;
+    } else {
+      const keys = Object.keys(input);
+      if (keys.length !== 1) return fail(path, "Variant", input);
+      tag = keys[0];
+      raw = input[keys[0]];
+    }
+
+    const tagName = tag as string;
+    if (!cases) return ok({ tag: tagName, value: raw as V });
+
+    const decoder = cases[tagName];
+    if (!decoder) return fail(joinPath(path, "tag"), `one of ${Object.keys(cases).join(" | ")}`, tagName);
+    const r = decoder(raw, joinPath(path, tagName));
+    return r.ok ? ok({ tag: tagName, value: r.value }) : { ok: false, issues: r.issues };
+  };
+}
+
+export function enumeration<E extends string>(values: readonly E[]): Decoder<E> {
+  return (input, path = "") =>
+    typeof input === "string" && (values as readonly string[]).includes(input)
+      ? ok(input as E)
+      : fail(path, `one of ${values.join(" | ")}`, input);
+}
+
+/**
+ * `DA.Map.Map k v` is encoded as a list of `[key, value]` pairs; TextMaps and
+ * some older dumps use a plain object instead. Both decode to entry pairs.
+ */
+export function genMap<K, V>(keyDecoder: Decoder<K>, valueDecoder: Decoder<V>): Decoder<Array<[K, V]>> {
+  return (input, path = "") => {
+    const entries: Array<[unknown, unknown]> | null = Array.isArray(input)
+      ? (input as unknown[]).every((e) => Array.isArray(e) && e.length === 2)
+        ? (input as Array<[unknown, unknown]>)
+        : null
+      : isPlainObject(input)
+        ? Object.entries(input)
+        : null;
+    if (!entries) return fail(path, "Map", input);
+
+    const values: Array<[K, V]> = [];
+    const issues: DecodeIssue[] = [];
+    entries.forEach(([k, v], idx) => {
+      const kr = keyDecoder(k, joinPath(joinPath(path, idx), "key"));
+      const vr = valueDecoder(v, joinPath(path, typeof k === "string" ? k : idx));
+      if (kr.ok && vr.ok) values.push([kr.value, vr.value]);
+      if (!kr.ok) issues.push(...kr.issues);
+      if (!vr.ok) issues.push(...vr.issues);
+    });
+    return issues.length ? { ok: false, issues } : ok(values);
+  };
+}
+
+export function map<A, B>(decoder: Decoder<A>, fn: (value: A) => B): Decoder<B> {
+  return (input, path = "") => {
+    const r = decoder(input, path);
+    return r.ok ? ok(fn(r.value)) : { ok: false, issues: r.issues };
+  };
+}
+
+/** Tries each decoder in turn; used where two package versions disagree on a field's shape */
+export function oneOf<T>(...decoders: Decoder<T>[]): Decoder<T> {
+  return (input, path = "") => {
+    const issues: DecodeIssue[] = [];
+    for (const decoder of decoders) {
+      const r = decoder(input, path);
+      if (r.ok) return r;
+      issues.push(...r.issues);
+    }
+    return { ok: false, issues };
+  };
+}
@@ -0,0 +1,288 @@
+/*
+ * governance-history
+ * ------------------
+ * Rebuilds the life of every governance proposal from ledger events:
+ *
+ *  - each `VoteRequest` creation is one version of a proposal. Casting or
+ *    changing a vote archives the request and recreates it with
+ *    `trackingCid` pointing at the first one, so `trackingCid ?? contract id`
+ *    identifies the proposal across versions;
+ *  - diffing the `votes` of consecutive versions yields every cast, changed
+ *    and removed vote with its timestamp;
+ *  - the `DsoRules_CloseVoteRequest` exercise on a version carries the
+ *    outcome, and the exercises below it are the action actually executed.
+ *
+ * The rebuild is order independent (events are sorted here), so it can run
+ * over the whole history after a backfill fills gaps.
+ */
+
+import {
+  decodeCloseVoteRequestResult,
+  decodeContract,
+  voteRequestActionName,
+  type VoteRequest,
+} from "./splice-decoders.ts";
+
+export const CLOSE_VOTE_REQUEST_CHOICE = "DsoRules_CloseVoteRequest";
+
+/** `unknown`: closed, but the close's result did not decode */
+export type ProposalStatus = "open" | "accepted" | "rejected" | "expired" | "action_failed" | "unknown";
+
+/** A ledger_events row joined with its update's record time */
+export interface GovernanceEventRow {
+  event_id: string;
+  update_id: string;
+  contract_id: string | null;
+  template_id: string | null;
+  event_type: string | null;
+  payload: unknown;
+  raw: Record<string, unknown> | null;
+  record_time: string;
+  migration_id: number | null;
+}
+
+export interface ProposalRecord {
+  proposal_id: string;
+  latest_contract_id: string;
+  version_count: number;
+  action_tag: string;
+  action: unknown;
+  requester: string;
+  reason_url: string;
+  reason_body: string;
+  vote_before: string;
+  created_at: string;
+  created_update_id: string;
+  migration_id: number | null;
+  status: ProposalStatus;
+  closed_at: string | null;
+  close_update_id: string | null;
+  outcome: unknown;
+  effective_at: string | null;
+  /** Choices exercised under the close, i.e. what the accepted action did */
+  executed_choices: string[];
+  abstaining_svs: string[];
+  accept_count: number;
+  reject_count: number;
+}
+
+export type VoteChange = "cast" | "changed" | "removed";
+
+export interface VoteEventRecord {
+  id: string;
+  proposal_id: string;
+  sv_name: string;
+  sv_party: string;
+  accept: boolean;
+  reason_url: string;
+  reason_body: string;
+  change: VoteChange;
+  cast_at: string;
+  update_id: string;
+  contract_id: string;
+}
+
+export interface GovernanceHistory {
+  proposals: ProposalRecord[];
+  votes: VoteEventRecord[];
+  /** Events that did not decode or could not be attached to a proposal */
+  skipped: Array<{ event_id: string; reason: string }>;
+}
+
+interface Version {
+  row: GovernanceEventRow;
+  contractId: string;
+  request: VoteRequest;
+}
+
+const OUTCOME_STATUS: Record<string, ProposalStatus> = {
+  VRO_Accepted: "accepted",
+  VRO_AcceptedButActionFailed: "action_failed",
+  VRO_Rejected: "rejected",
+  VRO_Expired: "expired",
+};
+
+function eventIndex(eventId: string): number {
+  const n = Number(eventId.split(":").pop());
+  return Number.isFinite(n) ? n : 0;
+}
+
+function byLedgerOrder(a: GovernanceEventRow, b: GovernanceEventRow): number {
+  return a.record_time.localeCompare(b.record_time) || eventIndex(a.event_id) - eventIndex(b.event_id);
+}
+
+function str(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+/** Choices exercised anywhere below `root` in its update */
+function executedChoices(root: GovernanceEventRow, sameUpdate: Map<string, GovernanceEventRow>): string[] {
+  const choices: string[] = [];
+  const visit = (ids: unknown) => {
+    if (!Array.isArray(ids)) return;
+    for (const id of ids) {
+      const ev = sameUpdate.get(String(id));
+      const choice = str(ev?.raw?.choice);
+      if (!ev || ev.event_type !== "exercised_event" || !choice) continue;
+      // Archives are bookkeeping, not part of the action
+      if (choice !== "Archive") choices.push(choice);
+      visit(ev.raw?.child_event_ids);
+    }
+  };
+  visit(root.raw?.child_event_ids);
+  return Array.from(new Set(choices));
+}
+
+function diffVotes(proposalId: string, prev: VoteRequest | null, next: Version): VoteEventRecord[] {
+  const before = new Map(prev?.votes ?? []);
+  const after = new Map(next.request.votes);
+  const events: VoteEventRecord[] = [];
+  const base = { proposal_id: proposalId, update_id: next.row.update_id, contract_id: next.contractId };
+
+  for (const [svName, vote] of after) {
+    const old = before.get(svName);
+    const changed =
+      !old || old.accept !== vote.accept || old.reason.body !== vote.reason.body || old.reason.url !== vote.reason.url;
+    if (!changed) continue;
+    events.push({
+      ...base,
+      id: `${proposalId}:${svName}:${next.row.update_id}`,
+      sv_name: svName,
+      sv_party: vote.sv,
+      accept: vote.accept,
+      reason_url: vote.reason.url,
+      reason_body: vote.reason.body,
+      change: old ? "changed" : "cast",
+      cast_at: vote.optCastAt ?? next.row.record_time,
+    });
+  }
+  for (const [svName, old] of before) {
+    if (after.has(svName)) continue;
+    events.push({
+      ...base,
+      id: `${proposalId}:${svName}:${next.row.update_id}`,
+      sv_name: svName,
+      sv_party: old.sv,
+      accept: old.accept,
+      reason_url: old.reason.url,
+      reason_body: old.reason.body,
+      change: "removed",
+      cast_at: next.row.record_time,
+    });
+  }
+  return events;
+}
+
+/**
+ * `creates` are VoteRequest created events, `closes` the
+ * DsoRules_CloseVoteRequest exercises, and `closeUpdateEvents` all exercised
+ * events of the updates the closes happened in.
+ */
+export function buildGovernanceHistory(
+  creates: GovernanceEventRow[],
+  closes: GovernanceEventRow[],
+  closeUpdateEvents: GovernanceEventRow[] = [],
+): GovernanceHistory {
+  const skipped: GovernanceHistory["skipped"] = [];
+  const versionsByProposal = new Map<string, Version[]>();
+  const proposalOfContract = new Map<string, string>();
+
+  for (const row of [...creates].sort(byLedgerOrder)) {
+    if (!row.contract_id) continue;
+    const decoded = decodeContract("Splice:DsoRules:VoteRequest", row.payload, row.contract_id);
+    if (!decoded.ok) {
+      skipped.push({ event_id: row.event_id, reason: decoded.error.message });
+      continue;
+    }
+    const proposalId = decoded.value.trackingCid ?? row.contract_id;
+    proposalOfContract.set(row.contract_id, proposalId);
+    const versions = versionsByProposal.get(proposalId) ?? [];
+    versions.push({ row, contractId: row.contract_id, request: decoded.value });
+    versionsByProposal.set(proposalId, versions);
+  }
+
+  const eventsByUpdate = new Map<string, Map<string, GovernanceEventRow>>();
+  for (const ev of closeUpdateEvents) {
+    const events = eventsByUpdate.get(ev.update_id) ?? new Map<string, GovernanceEventRow>();
+    events.set(ev.event_id, ev);
+    eventsByUpdate.set(ev.update_id, events);
+  }
+
+  const closeByProposal = new Map<string, GovernanceEventRow>();
+  for (const row of closes) {
+    const arg = row.raw?.choice_argument as Record<string, unknown> | undefined;
+    const requestCid = str(arg?.requestCid);
+    const proposalId = requestCid ? proposalOfContract.get(requestCid) : undefined;
+    if (!proposalId) {
+      skipped.push({ event_id: row.event_id, reason: `close of unknown vote request ${requestCid ?? "?"}` });
+      continue;
+    }
+    closeByProposal.set(proposalId, row);
+  }
+
+  const proposals: ProposalRecord[] = [];
+  const votes: VoteEventRecord[] = [];
+
+  for (const [proposalId, versions] of versionsByProposal) {
+    let prev: VoteRequest | null = null;
+    for (const v of versions) {
+      votes.push(...diffVotes(proposalId, prev, v));
+      prev = v.request;
+    }
+
+    const first = versions[0];
+    const latest = versions[versions.length - 1];
+    const { request } = latest;
+    const accepts = request.votes.filter(([, vote]) => vote.accept).length;
+
+    const record: ProposalRecord = {
+      proposal_id: proposalId,
+      latest_contract_id: latest.contractId,
+      version_count: versions.length,
+      action_tag: voteRequestActionName(request.action),
+      action: request.action,
+      requester: request.requester,
+      reason_url: request.reason.url,
+      reason_body: request.reason.body,
+      vote_before: request.voteBefore,
+      created_at: first.row.record_time,
+      created_update_id: first.row.update_id,
+      migration_id: first.row.migration_id,
+      status: "open",
+      closed_at: null,
+      close_update_id: null,
+      outcome: null,
+      effective_at: null,
+      executed_choices: [],
+      abstaining_svs: [],
+      accept_count: accepts,
+      reject_count: request.votes.length - accepts,
+    };
+
+    const close = closeByProposal.get(proposalId);
+    if (close) {
+      const result = decodeCloseVoteRequestResult(close.raw?.exercise_result);
+      record.close_update_id = close.update_id;
+      record.closed_at = close.record_time;
+      if (result.ok) {
+        const { outcome } = result.value;
+        record.status = OUTCOME_STATUS[outcome.tag] ?? "rejected";
+        record.outcome = outcome;
+        record.closed_at = result.value.completedAt ?? close.record_time;
+        record.abstaining_svs = result.value.abstainingSvs ?? [];
+        record.effective_at = str((outcome.value as Record<string, unknown> | null)?.effectiveAt);
+      } else {
+        record.status = "unknown";
+        skipped.push({ event_id: close.event_id, reason: "undecodable close result" });
+      }
+      if (record.status === "accepted" || record.status === "action_failed" || record.status === "unknown") {
+        record.executed_choices = executedChoices(close, eventsByUpdate.get(close.update_id) ?? new Map());
+      }
+    }
+
+    proposals.push(record);
+  }
+
+  proposals.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  return { proposals, votes, skipped };
+}
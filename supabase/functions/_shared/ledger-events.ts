@@ -0,0 +1,89 @@
+/*
+ * ledger-events
+ * -------------
+ * The shape incremental jobs see ledger_events rows in (see ledger-sync.ts),
+ * shared by the modules that turn them into derived tables.
+ */
+
+import type { ContractDecodeResult } from "./splice-decoders.ts";
+
+/** A ledger_events row joined with its update's record time */
+export interface LedgerEventRow {
+  event_id: string;
+  update_id: string;
+  contract_id: string | null;
+  event_type: string | null;
+  payload: unknown;
+  raw: Record<string, unknown> | null;
+  record_time: string;
+  migration_id: number | null;
+}
+
+/** An event a job could not use, reported back by the sync */
+export interface SkippedEvent {
+  event_id: string;
+  reason: string;
+}
+
+export const isCreate = (row: LedgerEventRow) =>
+  row.event_type === "created_event" || row.event_type === "reassign_create";
+
+export const isConsumingExercise = (row: LedgerEventRow) =>
+  row.event_type === "exercised_event" && row.raw?.consuming === true;
+
+/** A row of a contract event, which always carries its contract id */
+export type ContractEventRow = LedgerEventRow & { contract_id: string };
+
+export interface CreatesAndCloses<C, X> {
+  /** From created_event rows */
+  creates: C[];
+  /**
+   * From reassign_create rows of contracts not created in the same page. A
+   * reassignment recreates the contract on another synchronizer, so these
+   * must not replace a creation already written.
+   */
+  reassigned: C[];
+  /** From consuming exercises */
+  closes: X[];
+  skipped: SkippedEvent[];
+}
+
+/**
+ * Splits one template's events into creates and closes keyed by contract id.
+ * `decode` validates a create's payload; creates it rejects are skipped.
+ */
+export function classifyCreatesAndCloses<T, C, X>(
+  rows: LedgerEventRow[],
+  decode: (row: ContractEventRow) => ContractDecodeResult<T>,
+  toCreate: (row: ContractEventRow, value: T) => C,
+  toClose: (row: ContractEventRow) => X,
+): CreatesAndCloses<C, X> {
+  const creates = new Map<string, C>();
+  const reassigned = new Map<string, C>();
+  const closes = new Map<string, X>();
+  const skipped: SkippedEvent[] = [];
+
+  for (const row of rows) {
+    if (!row.contract_id) continue;
+    const event = row as ContractEventRow;
+    if (isCreate(event)) {
+      const decoded = decode(event);
+      if (!decoded.ok) {
+        skipped.push({ event_id: event.event_id, reason: decoded.error.message });
+        continue;
+      }
+      if (event.event_type === "created_event") creates.set(event.contract_id, toCreate(event, decoded.value));
+      else if (!reassigned.has(event.contract_id)) reassigned.set(event.contract_id, toCreate(event, decoded.value));
+    } else if (isConsumingExercise(event)) {
+      closes.set(event.contract_id, toClose(event));
+    }
+  }
+
+  for (const id of creates.keys()) reassigned.delete(id);
+  return {
+    creates: Array.from(creates.values()),
+    reassigned: Array.from(reassigned.values()),
+    closes: Array.from(closes.values()),
+    skipped,
+  };
+}
@@ -0,0 +1,198 @@
+/*
+ * ledger-sync
+ * -----------
+ * Incremental reading of ledger_events for jobs that keep derived tables.
+ * Each stream keeps a cursor in ledger_sync_cursors on the ingestion order
+ * (created_at, event_id), so events the backfill inserts later are picked
+ * up on the next run as well. Rows younger than SETTLE_SECONDS are left for
+ * the next run, since concurrent ingestion transactions can still commit
+ * rows with an earlier created_at.
+ *
+ * A run stops after MAX_PAGES pages per stream and reports `more: true`;
+ * callers invoke it again until it reports `more: false`.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { CreatesAndCloses, LedgerEventRow, SkippedEvent } from "./ledger-events.ts";
+import { parseIssuingRounds } from "./sv-reward-ledger.ts";
+
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 20;
+const UPSERT_BATCH = 500;
+const SETTLE_SECONDS = 300;
+
+export type SupabaseAdmin = ReturnType<typeof createClient>;
+
+export interface StreamSpec {
+  /** Cursor name in ledger_sync_cursors */
+  name: string;
+  /** Template suffix, e.g. "SvRewardCoupon" */
+  template: string;
+  /** Only exercises of this choice */
+  choice?: string;
+  /** Skip exercises, for streams that only care about contracts being created */
+  createsOnly?: boolean;
+}
+
+export interface StreamResult {
+  events: number;
+  skipped: SkippedEvent[];
+  more: boolean;
+}
+
+const EVENT_COLUMNS =
+  "event_id, update_id, contract_id, event_type, payload, raw, created_at, ledger_updates!inner(record_time, migration_id)";
+
+interface EventQueryRow extends Omit<LedgerEventRow, "record_time" | "migration_id"> {
+  created_at: string;
+  ledger_updates: { record_time: string | null; migration_id: number | null } | null;
+}
+
+interface Cursor {
+  last_created_at: string | null;
+  last_event_id: string | null;
+  processed_count: number;
+}
+
+export function createAdminClient(): SupabaseAdmin {
+  return createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+}
+
+/** Rows created before this are settled and safe to read */
+export function settledBefore(now = Date.now()): string {
+  return new Date(now - SETTLE_SECONDS * 1000).toISOString();
+}
+
+function toEventRow(row: EventQueryRow): LedgerEventRow {
+  const { ledger_updates: update, created_at: _ingestedAt, ...event } = row;
+  return { ...event, record_time: update?.record_time ?? "", migration_id: update?.migration_id ?? null };
+}
+
+async function readCursor(supabase: SupabaseAdmin, name: string): Promise<Cursor> {
+  const { data, error } = await supabase
+    .from("ledger_sync_cursors")
+    .select("last_created_at, last_event_id, processed_count")
+    .eq("name", name)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as Cursor | null) ?? { last_created_at: null, last_event_id: null, processed_count: 0 };
+}
+
+async function writeCursor(supabase: SupabaseAdmin, name: string, cursor: Cursor) {
+  const { error } = await supabase.from("ledger_sync_cursors").upsert({ name, ...cursor }, { onConflict: "name" });
+  if (error) throw error;
+}
+
+export async function resetCursors(supabase: SupabaseAdmin, names: string[]) {
+  const { error } = await supabase.from("ledger_sync_cursors").delete().in("name", names);
+  if (error) throw error;
+}
+
+export async function upsertAll(
+  supabase: SupabaseAdmin,
+  table: string,
+  key: string,
+  rows: object[],
+  options: { ignoreDuplicates?: boolean } = {},
+) {
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH) {
+    const { error } = await supabase
+      .from(table)
+      .upsert(rows.slice(i, i + UPSERT_BATCH), { onConflict: key, ignoreDuplicates: options.ignoreDuplicates });
+    if (error) throw error;
+  }
+}
+
+/**
+ * Writes the output of classifyCreatesAndCloses as partial rows keyed by
+ * contract_id. Each upsert only sets its own columns, so a contract's create
+ * and close apply whichever arrives first; a reassignment only inserts rows
+ * that do not exist yet and never overwrites the original creation.
+ */
+export async function upsertCreatesAndCloses(
+  supabase: SupabaseAdmin,
+  table: string,
+  { creates, reassigned, closes }: Pick<CreatesAndCloses<object, object>, "creates" | "reassigned" | "closes">,
+  syncedAt: string,
+) {
+  const stamp = (rows: object[]) => rows.map((r) => ({ ...r, synced_at: syncedAt }));
+  await upsertAll(supabase, table, "contract_id", stamp(creates));
+  await upsertAll(supabase, table, "contract_id", stamp(reassigned), { ignoreDuplicates: true });
+  await upsertAll(supabase, table, "contract_id", stamp(closes));
+}
+
+/**
+ * Reads one stream from its cursor, page by page, handing each page to
+ * `apply` before moving the cursor past it.
+ */
+export async function runStream(
+  supabase: SupabaseAdmin,
+  stream: StreamSpec,
+  settleBefore: string,
+  apply: (rows: LedgerEventRow[]) => Promise<SkippedEvent[]>,
+): Promise<StreamResult> {
+  const cursor = await readCursor(supabase, stream.name);
+  const skipped: SkippedEvent[] = [];
+  let events = 0;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    let query = supabase
+      .from("ledger_events")
+      .select(EVENT_COLUMNS)
+      .like("template_id", `%:${stream.template}`)
+      .lt("created_at", settleBefore);
+    if (stream.choice) {
+      query = query.eq("raw->>choice", stream.choice);
+    }
+    if (stream.createsOnly) {
+      query = query.in("event_type", ["created_event", "reassign_create"]);
+    }
+    if (cursor.last_created_at && cursor.last_event_id) {
+      const at = `"${cursor.last_created_at}"`;
+      query = query.or(`created_at.gt.${at},and(created_at.eq.${at},event_id.gt."${cursor.last_event_id}")`);
+    }
+    const { data, error } = await query
+      .order("created_at", { ascending: true })
+      .order("event_id", { ascending: true })
+      .limit(PAGE_SIZE);
+    if (error) throw error;
+
+    const rows = (data || []) as EventQueryRow[];
+    if (rows.length === 0) return { events, skipped, more: false };
+
+    skipped.push(...(await apply(rows.map(toEventRow))));
+    const last = rows[rows.length - 1];
+    cursor.last_created_at = last.created_at;
+    cursor.last_event_id = last.event_id;
+    cursor.processed_count += rows.length;
+    await writeCursor(supabase, stream.name, cursor);
+    events += rows.length;
+
+    if (rows.length < PAGE_SIZE) return { events, skipped, more: false };
+  }
+  return { events, skipped, more: true };
+}
+
+/** IssuingMiningRound issuance rates, which the reward jobs price with */
+const ISSUING_ROUND_STREAM: Omit<StreamSpec, "name"> = { template: "IssuingMiningRound", createsOnly: true };
+
+/**
+ * Syncs sv_reward_round_issuance and returns the rounds read. Each job reads
+ * the stream under its own cursor, so every round's rate reaches each of
+ * them once, whichever job ingested it first; jobs with daily buckets then
+ * reprice just the buckets of those rounds.
+ */
+export async function syncIssuingRounds(
+  supabase: SupabaseAdmin,
+  settleBefore: string,
+  cursor: string,
+): Promise<StreamResult & { rounds: number[] }> {
+  const rounds: number[] = [];
+  const result = await runStream(supabase, { ...ISSUING_ROUND_STREAM, name: cursor }, settleBefore, async (rows) => {
+    const parsed = parseIssuingRounds(rows);
+    await upsertAll(supabase, "sv_reward_round_issuance", "round", parsed.rounds);
+    rounds.push(...parsed.rounds.map((r) => r.round));
+    return parsed.skipped;
+  });
+  return { ...result, rounds };
+}
@@ -0,0 +1,173 @@
+/*
+ * rich-list
+ * ---------
+ * Holder balances and concentration from the Amulet and LockedAmulet
+ * contracts of one ACS snapshot. Balances are effective amounts at the round
+ * open when the snapshot was taken (see amulet-balance.ts), split into
+ * unlocked and locked; the nominal total (sum of `initialAmount`) is kept
+ * alongside.
+ *
+ * The rich-list-history function runs this over every completed snapshot and
+ * keeps the ranks and metrics in rich_list_holders and rich_list_snapshots;
+ * the Rich List page runs it over the latest snapshot in the browser.
+ */
+
+import { DamlDecimal } from "./daml-decimal.ts";
+import { effectiveAmount, type BalanceMode } from "./amulet-balance.ts";
+import type { Amulet, LockedAmulet, OpenMiningRound } from "./splice-decoders.ts";
+
+/** How many holders per snapshot the rank history keeps */
+export const RANK_DEPTH = 1000;
+
+export interface HolderBalance {
+  owner: string;
+  unlocked: DamlDecimal;
+  locked: DamlDecimal;
+  total: DamlDecimal;
+  /** Sum of initialAmount, before holding fees */
+  nominal: DamlDecimal;
+  amulets: number;
+  lockedAmulets: number;
+}
+
+/**
+ * The round a snapshot's balances are valued at: the latest open mining
+ * round that had opened by the snapshot's record time, or else the latest
+ * round any of its amulets was created in.
+ */
+export function snapshotRound(
+  recordTime: string,
+  openRounds: OpenMiningRound[],
+  amulets: Amulet[],
+  locked: LockedAmulet[],
+): number | null {
+  const opened = openRounds.filter((r) => r.opensAt <= recordTime).map((r) => r.round.number);
+  if (opened.length > 0) return Math.max(...opened);
+  let latest: number | null = null;
+  for (const a of [...amulets, ...locked.map((l) => l.amulet)]) {
+    if (latest === null || a.amount.createdAt.number > latest) latest = a.amount.createdAt.number;
+  }
+  return latest;
+}
+
+/**
+ * Balances per owner valued at `round`, largest total first. In nominal mode
+ * the unlocked, locked and total amounts are the initial amounts as well.
+ */
+export function holderBalances(
+  amulets: Amulet[],
+  locked: LockedAmulet[],
+  round: number,
+  mode: BalanceMode = "effective",
+): HolderBalance[] {
+  const holders = new Map<string, HolderBalance>();
+  const holder = (owner: string) => {
+    let h = holders.get(owner);
+    if (!h) {
+      h = {
+        owner,
+        unlocked: DamlDecimal.ZERO,
+        locked: DamlDecimal.ZERO,
+        total: DamlDecimal.ZERO,
+        nominal: DamlDecimal.ZERO,
+        amulets: 0,
+        lockedAmulets: 0,
+      };
+      holders.set(owner, h);
+    }
+    return h;
+  };
+
+  for (const a of amulets) {
+    const h = holder(a.owner);
+    const amount = mode === "effective" ? effectiveAmount(a.amount, round) : a.amount.initialAmount;
+    h.unlocked = h.unlocked.add(amount);
+    h.total = h.total.add(amount);
+    h.nominal = h.nominal.add(a.amount.initialAmount);
+    h.amulets += 1;
+  }
+  for (const l of locked) {
+    const h = holder(l.amulet.owner);
+    const amount = mode === "effective" ? effectiveAmount(l.amulet.amount, round) : l.amulet.amount.initialAmount;
+    h.locked = h.locked.add(amount);
+    h.total = h.total.add(amount);
+    h.nominal = h.nominal.add(l.amulet.amount.initialAmount);
+    h.lockedAmulets += 1;
+  }
+
+  return Array.from(holders.values()).sort((a, b) => b.total.cmp(a.total) || a.owner.localeCompare(b.owner));
+}
+
+export interface Concentration {
+  holders: number;
+  total: DamlDecimal;
+  /** 0 when every holder holds the same, towards 1 when one holds everything */
+  gini: number | null;
+  /** Share of the total held by the 10 and 100 largest holders */
+  top10Share: number | null;
+  top100Share: number | null;
+  /** The fewest holders that together hold more than half the total */
+  nakamoto: number | null;
+}
+
+/** Concentration of a set of balances, in any order */
+export function concentration(balances: DamlDecimal[]): Concentration {
+  const sorted = balances.filter((b) => b.gt(DamlDecimal.ZERO)).sort((a, b) => b.cmp(a));
+  const total = DamlDecimal.sum(sorted);
+  const n = sorted.length;
+  if (n === 0) return { holders: 0, total, gini: null, top10Share: null, top100Share: null, nakamoto: null };
+
+  const totalNumber = total.toNumber();
+  const share = (count: number) => DamlDecimal.sum(sorted.slice(0, count)).toNumber() / totalNumber;
+
+  // Gini over the balances in ascending order: sum((2i - n - 1) * x_i) / (n * sum(x)), i from 1
+  let weighted = 0;
+  sorted.forEach((b, i) => {
+    const ascending = n - i;
+    weighted += (2 * ascending - n - 1) * b.toNumber();
+  });
+
+  let nakamoto = 0;
+  let held = DamlDecimal.ZERO;
+  while (held.mul(2).lte(total)) held = held.add(sorted[nakamoto++]);
+
+  return {
+    holders: n,
+    total,
+    gini: weighted / (n * totalNumber),
+    top10Share: share(10),
+    top100Share: share(100),
+    nakamoto,
+  };
+}
+
+// ------------------------------------
+// History rows
+// ------------------------------------
+
+/** A row of the rich_list_snapshots table; amounts are exact numeric text */
+export interface RichListSnapshotRow {
+  snapshot_id: string;
+  record_time: string;
+  migration_id: number;
+  as_of_round: number | null;
+  holders: number;
+  total: string;
+  locked: string;
+  nominal_total: string;
+  gini: number | null;
+  top10_share: number | null;
+  top100_share: number | null;
+  nakamoto_coefficient: number | null;
+}
+
+/** A row of the rich_list_holder_history view */
+export interface HolderRankRow {
+  snapshot_id: string;
+  record_time: string;
+  owner: string;
+  rank: number;
+  unlocked: string;
+  locked: string;
+  total: string;
+}
@@ -0,0 +1,570 @@
+/*
+ * splice-decoders
+ * ---------------
+ * Typed payload decoders for the Splice templates the explorer reads.
+ *
+ * Keys of `spliceDecoders` are the same template suffixes used by
+ * src/lib/template-page-map.ts, so a template id in any of its spellings
+ * ("<pkg>:Splice.Amulet:Amulet", "Splice:Amulet:Amulet", ...) can be
+ * resolved with `decoderForTemplate`.
+ *
+ * Only the fields the explorer consumes are modelled strictly; large config
+ * blobs are passed through as `unknown`.
+ */
+
+import {
+  bool,
+  contractId,
+  DamlDecodeError,
+  Decoded,
+  Decoder,
+  DecodeResult,
+  enumeration,
+  genMap,
+  int64,
+  list,
+  numeric,
+  optional,
+  party,
+  record,
+  text,
+  time,
+  unknownValue,
+  variant,
+  Variant,
+} from "./daml-decode.ts";
+
+// ------------------------------------
+// Shared Splice records
+// ------------------------------------
+export const decodeRound = record({ number: int64 });
+
+export const decodeRelTime = record({ microseconds: int64 });
+
+export const decodeExpiringAmount = record({
+  initialAmount: numeric,
+  createdAt: decodeRound,
+  ratePerRound: record({ rate: numeric }),
+});
+
+export const decodeTimeLock = record({
+  holders: list(party),
+  expiresAt: time,
+  optContext: optional(text),
+});
+
+export const decodeReason = record({ url: text, body: text });
+
+export const decodeVote = record({
+  sv: party,
+  accept: bool,
+  reason: decodeReason,
+  optCastAt: optional(time),
+});
+
+export type Round = Decoded<typeof decodeRound>;
+export type RelTime = Decoded<typeof decodeRelTime>;
+export type ExpiringAmount = Decoded<typeof decodeExpiringAmount>;
+export type TimeLock = Decoded<typeof decodeTimeLock>;
+export type Reason = Decoded<typeof decodeReason>;
+export type Vote = Decoded<typeof decodeVote>;
+
+// ------------------------------------
+// Amulet & rounds
+// ------------------------------------
+export const decodeAmulet = record({ dso: party, owner: party, amount: decodeExpiringAmount });
+
+export const decodeLockedAmulet = record({ amulet: decodeAmulet, lock: decodeTimeLock });
+
+export const decodeOpenMiningRound = record({
+  dso: party,
+  round: decodeRound,
+  amuletPrice: numeric,
+  opensAt: time,
+  targetClosesAt: time,
+  issuingFor: decodeRelTime,
+  tickDuration: decodeRelTime,
+  transferConfigUsd: unknownValue,
+  issuanceConfig: unknownValue,
+});
+
+const issuanceFields = {
+  issuancePerValidatorRewardCoupon: numeric,
+  issuancePerFeaturedAppRewardCoupon: numeric,
+  issuancePerUnfeaturedAppRewardCoupon: numeric,
+  issuancePerSvRewardCoupon: numeric,
+  optIssuancePerValidatorFaucetCoupon: optional(numeric),
+};
+
+export const decodeIssuingMiningRound = record({
+  dso: party,
+  round: decodeRound,
+  opensAt: time,
+  targetClosesAt: time,
+  ...issuanceFields,
+});
+
+export const decodeClosedMiningRound = record({
+  dso: party,
+  round: decodeRound,
+  ...issuanceFields,
+});
+
+export type Amulet = Decoded<typeof decodeAmulet>;
+export type LockedAmulet = Decoded<typeof decodeLockedAmulet>;
+export type OpenMiningRound = Decoded<typeof decodeOpenMiningRound>;
+export type IssuingMiningRound = Decoded<typeof decodeIssuingMiningRound>;
+export type ClosedMiningRound = Decoded<typeof decodeClosedMiningRound>;
+
+// ------------------------------------
+// Rewards & featured apps
+// ------------------------------------
+export const decodeValidatorRewardCoupon = record({ dso: party, user: party, amount: numeric, round: decodeRound });
+
+export const decodeAppRewardCoupon = record({
+  dso: party,
+  provider: party,
+  featured: bool,
+  amount: numeric,
+  round: decodeRound,
+  beneficiary: optional(party),
+});
+
+export const decodeSvRewardCoupon = record({
+  dso: party,
+  sv: party,
+  beneficiary: party,
+  round: decodeRound,
+  weight: int64,
+});
+
+export const decodeUnclaimedReward = record({ dso: party, amount: numeric });
+
+export const decodeFeaturedAppRight = record({ dso: party, provider: party });
+
+export const decodeFeaturedAppActivityMarker = record({
+  dso: party,
+  provider: party,
+  beneficiary: party,
+  weight: numeric,
+});
+
+export const decodeValidatorRight = record({ dso: party, user: party, validator: party });
+
+export type ValidatorRewardCoupon = Decoded<typeof decodeValidatorRewardCoupon>;
+export type AppRewardCoupon = Decoded<typeof decodeAppRewardCoupon>;
+export type SvRewardCoupon = Decoded<typeof decodeSvRewardCoupon>;
+export type UnclaimedReward = Decoded<typeof decodeUnclaimedReward>;
+export type FeaturedAppRight = Decoded<typeof decodeFeaturedAppRight>;
+export type FeaturedAppActivityMarker = Decoded<typeof decodeFeaturedAppActivityMarker>;
+export type ValidatorRight = Decoded<typeof decodeValidatorRight>;
+
+// ------------------------------------
+// Governance
+// ------------------------------------
+export const decodeSvInfo = record({
+  name: text,
+  joinedAsOfRound: decodeRound,
+  svRewardWeight: int64,
+  participantId: text,
+});
+
+export const decodeDsoRules = record({
+  dso: party,
+  epoch: int64,
+  svs: genMap(party, decodeSvInfo),
+  dsoDelegate: party,
+  config: unknownValue,
+});
+
+/** `action` is a nested ActionRequiringConfirmation variant; only the outer constructor is checked */
+export const decodeVoteRequest = record({
+  dso: party,
+  requester: text,
+  action: variant(),
+  reason: decodeReason,
+  voteBefore: time,
+  votes: genMap(text, decodeVote),
+  trackingCid: optional(contractId),
+});
+
+/** Result of the DsoRules_CloseVoteRequest choice (an exercise result, not a template) */
+export const decodeCloseVoteRequestResult = record({
+  request: unknownValue,
+  completedAt: optional(time),
+  offboardedVoters: optional(list(text)),
+  abstainingSvs: optional(list(text)),
+  outcome: variant(),
+});
+
+export type CloseVoteRequestResult = Decoded<typeof decodeCloseVoteRequestResult>;
+
+/**
+ * Name of the concrete action behind an ActionRequiringConfirmation, e.g.
+ * "SRARC_AddFeaturedAppRight" for `{ tag: "ARC_DsoRules", value: { dsoAction: {...} } }`.
+ */
+export function voteRequestActionName(action: Variant): string {
+  const inner = action.value;
+  if (typeof inner === "object" && inner !== null) {
+    for (const nested of Object.values(inner as Record<string, unknown>)) {
+      const tag = (nested as { tag?: unknown } | null)?.tag;
+      if (typeof tag === "string") return tag;
+    }
+  }
+  return action.tag;
+}
+
+export const decodeConfirmation = record({
+  dso: party,
+  confirmer: party,
+  action: variant(),
+  expiresAt: time,
+});
+
+export const decodeElectionRequest = record({
+  dso: party,
+  requester: party,
+  epoch: int64,
+  ranking: list(party),
+});
+
+export const decodeAmuletPriceVote = record({
+  dso: party,
+  sv: party,
+  amuletPrice: optional(numeric),
+  lastUpdatedAt: time,
+});
+
+export const decodeAmuletRules = record({
+  dso: party,
+  configSchedule: unknownValue,
+  isDevNet: bool,
+});
+
+export type SvInfo = Decoded<typeof decodeSvInfo>;
+export type DsoRules = Decoded<typeof decodeDsoRules>;
+export type VoteRequest = Decoded<typeof decodeVoteRequest>;
+export type Confirmation = Decoded<typeof decodeConfirmation>;
+export type ElectionRequest = Decoded<typeof decodeElectionRequest>;
+export type AmuletPriceVote = Decoded<typeof decodeAmuletPriceVote>;
+export type AmuletRules = Decoded<typeof decodeAmuletRules>;
+
+// ------------------------------------
+// Validators
+// ------------------------------------
+export const decodeValidatorLicense = record({
+  validator: party,
+  sponsor: party,
+  dso: party,
+  faucetState: optional(
+    record({ firstReceivedFor: decodeRound, lastReceivedFor: decodeRound, numCouponsMissed: int64 }),
+  ),
+  metadata: optional(record({ lastUpdatedAt: time, version: text, contactPoint: text })),
+  lastActiveAt: optional(time),
+});
+
+export const decodeValidatorFaucetCoupon = record({ dso: party, validator: party, round: decodeRound });
+
+export const decodeValidatorLivenessActivityRecord = record({ dso: party, validator: party, round: decodeRound });
+
+export type ValidatorLicense = Decoded<typeof decodeValidatorLicense>;
+export type ValidatorFaucetCoupon = Decoded<typeof decodeValidatorFaucetCoupon>;
+export type ValidatorLivenessActivityRecord = Decoded<typeof decodeValidatorLivenessActivityRecord>;
+
+// ------------------------------------
+// SV state
+// ------------------------------------
+export const decodeSvNodeState = record({ dso: party, sv: party, svName: text, state: unknownValue });
+
+export const decodeSvStatusReport = record({
+  dso: party,
+  sv: party,
+  svName: text,
+  number: int64,
+  status: unknownValue,
+});
+
+export const decodeSvRewardState = record({ dso: party, svName: text, state: unknownValue });
+
+export type SvNodeState = Decoded<typeof decodeSvNodeState>;
+export type SvStatusReport = Decoded<typeof decodeSvStatusReport>;
+export type SvRewardState = Decoded<typeof decodeSvRewardState>;
+
+// ------------------------------------
+// ANS
+// ------------------------------------
+export const decodeAnsEntry = record({
+  user: party,
+  dso: party,
+  name: text,
+  url: text,
+  description: text,
+  expiresAt: time,
+});
+
+export const decodeAnsEntryContext = record({
+  dso: party,
+  user: party,
+  name: text,
+  url: text,
+  description: text,
+  reference: contractId,
+});
+
+export const decodeAmuletConversionRateFeed = record({
+  publisher: party,
+  dso: party,
+  rate: numeric,
+});
+
+export type AnsEntry = Decoded<typeof decodeAnsEntry>;
+export type AnsEntryContext = Decoded<typeof decodeAnsEntryContext>;
+export type AmuletConversionRateFeed = Decoded<typeof decodeAmuletConversionRateFeed>;
+
+// ------------------------------------
+// Traffic, transfers & external parties
+// ------------------------------------
+export const decodeMemberTraffic = record({
+  dso: party,
+  memberId: text,
+  synchronizerId: text,
+  migrationId: int64,
+  totalPurchased: int64,
+  numPurchases: int64,
+  amuletSpent: numeric,
+  usdSpent: numeric,
+});
+
+export const decodeTransferPreapproval = record({
+  dso: party,
+  receiver: party,
+  provider: party,
+  validFrom: time,
+  lastRenewedAt: time,
+  expiresAt: time,
+});
+
+export const decodeTransferCommand = record({
+  dso: party,
+  sender: party,
+  receiver: party,
+  delegate: party,
+  amount: numeric,
+  expiresAt: time,
+  nonce: int64,
+  description: optional(text),
+});
+
+export const decodeTransferCommandCounter = record({ dso: party, sender: party, nextNonce: int64 });
+
+export const decodeExternalPartyAmuletRules = record({ dso: party });
+
+export const decodeExternalPartySetupProposal = record({
+  validator: party,
+  user: party,
+  dso: party,
+  expiresAt: time,
+});
+
+export const decodeAmuletAllocation = record({ lockedAmulet: contractId, allocation: unknownValue });
+
+export const decodeAmuletTransferInstruction = record({ lockedAmulet: contractId, transfer: unknownValue });
+
+export type MemberTraffic = Decoded<typeof decodeMemberTraffic>;
+export type TransferPreapproval = Decoded<typeof decodeTransferPreapproval>;
+export type TransferCommand = Decoded<typeof decodeTransferCommand>;
+export type TransferCommandCounter = Decoded<typeof decodeTransferCommandCounter>;
+export type ExternalPartyAmuletRules = Decoded<typeof decodeExternalPartyAmuletRules>;
+export type ExternalPartySetupProposal = Decoded<typeof decodeExternalPartySetupProposal>;
+export type AmuletAllocation = Decoded<typeof decodeAmuletAllocation>;
+export type AmuletTransferInstruction = Decoded<typeof decodeAmuletTransferInstruction>;
+
+// ------------------------------------
+// Wallet subscriptions
+// ------------------------------------
+export const decodeSubscriptionData = record({
+  sender: party,
+  receiver: party,
+  provider: party,
+  dso: party,
+  description: text,
+});
+
+export const decodeSubscriptionPayData = record({
+  paymentAmount: record({ amount: numeric, unit: enumeration(["AmuletUnit", "USDUnit", "ExtUnit"] as const) }),
+  paymentInterval: decodeRelTime,
+  paymentDuration: decodeRelTime,
+});
+
+export const decodeSubscription = record({ subscriptionData: decodeSubscriptionData, reference: contractId });
+
+export const decodeSubscriptionIdleState = record({
+  subscription: contractId,
+  subscriptionData: decodeSubscriptionData,
+  payData: decodeSubscriptionPayData,
+  nextPaymentDueAt: time,
+  reference: contractId,
+});
+
+export const decodeSubscriptionRequest = record({
+  subscriptionData: decodeSubscriptionData,
+  payData: decodeSubscriptionPayData,
+});
+
+export const decodeSubscriptionInitialPayment = record({
+  subscriptionData: decodeSubscriptionData,
+  payData: decodeSubscriptionPayData,
+  lockedAmulet: contractId,
+  round: decodeRound,
+  reference: contractId,
+});
+
+export const decodeSubscriptionPayment = record({
+  subscription: contractId,
+  subscriptionData: decodeSubscriptionData,
+  payData: decodeSubscriptionPayData,
+  thisPaymentDueAt: time,
+  lockedAmulet: contractId,
+  round: decodeRound,
+  reference: contractId,
+});
+
+export type SubscriptionData = Decoded<typeof decodeSubscriptionData>;
+export type SubscriptionPayData = Decoded<typeof decodeSubscriptionPayData>;
+export type Subscription = Decoded<typeof decodeSubscription>;
+export type SubscriptionIdleState = Decoded<typeof decodeSubscriptionIdleState>;
+export type SubscriptionRequest = Decoded<typeof decodeSubscriptionRequest>;
+export type SubscriptionInitialPayment = Decoded<typeof decodeSubscriptionInitialPayment>;
+export type SubscriptionPayment = Decoded<typeof decodeSubscriptionPayment>;
+
+// ------------------------------------
+// Registry
+// ------------------------------------
+export const spliceDecoders = {
+  "Splice:Amulet:Amulet": decodeAmulet,
+  "Splice:Amulet:LockedAmulet": decodeLockedAmulet,
+  "Splice:Round:OpenMiningRound": decodeOpenMiningRound,
+  "Splice:Round:IssuingMiningRound": decodeIssuingMiningRound,
+  "Splice:Round:ClosedMiningRound": decodeClosedMiningRound,
+  "Splice:AmuletRules:TransferPreapproval": decodeTransferPreapproval,
+  "Splice:ExternalPartyAmuletRules:TransferCommand": decodeTransferCommand,
+  "Splice:AmuletTransferInstruction:AmuletTransferInstruction": decodeAmuletTransferInstruction,
+  "Splice:DsoRules:DsoRules": decodeDsoRules,
+  "Splice:DsoRules:VoteRequest": decodeVoteRequest,
+  "Splice:DSO:AmuletPrice:AmuletPriceVote": decodeAmuletPriceVote,
+  "Splice:DsoRules:Confirmation": decodeConfirmation,
+  "Splice:AmuletRules:AmuletRules": decodeAmuletRules,
+  "Splice:Amulet:ValidatorRewardCoupon": decodeValidatorRewardCoupon,
+  "Splice:Amulet:SvRewardCoupon": decodeSvRewardCoupon,
+  "Splice:Amulet:AppRewardCoupon": decodeAppRewardCoupon,
+  "Splice:Amulet:UnclaimedReward": decodeUnclaimedReward,
+  "Splice:Amulet:FeaturedAppRight": decodeFeaturedAppRight,
+  "Splice:Amulet:FeaturedAppActivityMarker": decodeFeaturedAppActivityMarker,
+  "Splice:Ans:AnsEntry": decodeAnsEntry,
+  "Splice:Ans:AnsEntryContext": decodeAnsEntryContext,
+  "Splice:Ans:AmuletConversionRateFeed:AmuletConversionRateFeed": decodeAmuletConversionRateFeed,
+  "Splice:ValidatorLicense:ValidatorLicense": decodeValidatorLicense,
+  "Splice:ValidatorLicense:ValidatorFaucetCoupon": decodeValidatorFaucetCoupon,
+  "Splice:ValidatorLicense:ValidatorLivenessActivityRecord": decodeValidatorLivenessActivityRecord,
+  "Splice:Amulet:ValidatorRight": decodeValidatorRight,
+  "DSO:SvState:SvNodeState": decodeSvNodeState,
+  "DSO:SvState:SvStatusReport": decodeSvStatusReport,
+  "DSO:SvState:SvRewardState": decodeSvRewardState,
+  "Splice:DecentralizedSynchronizer:MemberTraffic": decodeMemberTraffic,
+  "Wallet:Subscriptions:Subscription": decodeSubscription,
+  "Wallet:Subscriptions:SubscriptionIdleState": decodeSubscriptionIdleState,
+  "Wallet:Subscriptions:SubscriptionRequest": decodeSubscriptionRequest,
+  "Wallet:Subscriptions:SubscriptionInitialPayment": decodeSubscriptionInitialPayment,
+  "Wallet:Subscriptions:SubscriptionPayment": decodeSubscriptionPayment,
+  "Splice:AmuletRules:ExternalPartySetupProposal": decodeExternalPartySetupProposal,
+  "Splice:AmuletAllocation:AmuletAllocation": decodeAmuletAllocation,
+  "Splice:DsoRules:ElectionRequest": decodeElectionRequest,
+  "Splice:ExternalPartyAmuletRules:TransferCommandCounter": decodeTransferCommandCounter,
+  "Splice:ExternalPartyAmuletRules:ExternalPartyAmuletRules": decodeExternalPartyAmuletRules,
+} as const;
+
+export type SpliceTemplate = keyof typeof spliceDecoders;
+
+export type SplicePayload<K extends SpliceTemplate> = Decoded<(typeof spliceDecoders)[K]>;
+
+export type ContractDecodeResult<T> =
+  | { ok: true; value: T; error?: undefined }
+  | { ok: false; value?: undefined; error: DamlDecodeError };
+
+/**
+ * Resolves any spelling of a template id to its registry key, or null if the
+ * template has no decoder. The longest matching suffix wins.
+ */
+export function spliceTemplateOf(templateId: string): SpliceTemplate | null {
+  const normalized = templateId.replace(/\./g, ":");
+  let best: SpliceTemplate | null = null;
+  for (const key of Object.keys(spliceDecoders) as SpliceTemplate[]) {
+    if (normalized !== key && !normalized.endsWith(`:${key}`)) continue;
+    if (!best || key.length > best.length) best = key;
+  }
+  return best;
+}
+
+export function decoderForTemplate(templateId: string): Decoder<unknown> | null {
+  const key = spliceTemplateOf(templateId);
+  return key ? spliceDecoders[key] : null;
+}
+
+/**
+ * Decodes a single create_arguments payload. `template` is either a registry
+ * key (typed result) or a full template id.
+ */
+export function decodeContract<K extends SpliceTemplate>(
+  template: K,
+  payload: unknown,
+  contractIdValue?: string,
+): ContractDecodeResult<SplicePayload<K>> {
+  const decoder = spliceDecoders[template] as Decoder<SplicePayload<K>>;
+  const r: DecodeResult<SplicePayload<K>> = decoder(payload);
+  return r.ok ? { ok: true, value: r.value } : { ok: false, error: new DamlDecodeError(template, r.issues, contractIdValue) };
+}
+
+/** Same as `decodeContract`, but throws the DamlDecodeError */
+export function decodeContractOrThrow<K extends SpliceTemplate>(
+  template: K,
+  payload: unknown,
+  contractIdValue?: string,
+): SplicePayload<K> {
+  const r = decodeContract(template, payload, contractIdValue);
+  if (!r.ok) throw r.error;
+  return r.value;
+}
+
+/**
+ * Snapshot entries are either bare create_arguments or event-shaped objects
+ * carrying them under `create_arguments` / `payload`.
+ */
+function payloadOf(entry: unknown): { payload: unknown; contractId?: string } {
+  if (typeof entry !== "object" || entry === null) return { payload: entry };
+  const e = entry as Record<string, unknown>;
+  const payload = e.create_arguments ?? e.payload ?? entry;
+  const cid = typeof e.contract_id === "string" ? e.contract_id : undefined;
+  return { payload, contractId: cid };
+}
+
+/**
+ * Decodes a batch of contracts, keeping the ones that match and collecting the
+ * failures instead of dropping them silently.
+ */
+export function decodeContracts<K extends SpliceTemplate>(
+  template: K,
+  entries: unknown[],
+): { values: SplicePayload<K>[]; failures: DamlDecodeError[] } {
+  const values: SplicePayload<K>[] = [];
+  const failures: DamlDecodeError[] = [];
+  for (const entry of entries) {
+    const { payload, contractId: cid } = payloadOf(entry);
+    const r = decodeContract(template, payload, cid);
+    if (r.ok) values.push(r.value);
+    else failures.push(r.error);
+  }
+  if (failures.length > 0) {
+    console.warn(`${failures.length}/${entries.length} ${template} payloads failed to decode: ${failures[0].message}`);
+  }
+  return { values, failures };
+}
@@ -0,0 +1,300 @@
+/*
+ * subscription-ledger
+ * -------------------
+ * Follows wallet subscriptions through their contracts. Every contract of a
+ * subscription carries the same `reference` (the SubscriptionRequest it was
+ * accepted from), so a subscription is the set of contracts sharing one:
+ *
+ *  - SubscriptionInitialPayment: the first payment, locked by the sender.
+ *    The provider collects it with `SubscriptionInitialPayment_Collect`,
+ *    which starts the subscription, or it is rejected or expires;
+ *  - SubscriptionIdleState: a running subscription between payments, with
+ *    `nextPaymentDueAt`. The sender makes the next payment from it; the
+ *    provider expires it once that payment is overdue, or the sender
+ *    cancels it;
+ *  - SubscriptionPayment: a recurring payment, collected with
+ *    `SubscriptionPayment_Collect` (back to idle with the next due date) or
+ *    rejected or expired (back to idle as it was).
+ *
+ * Contracts are written as separate create and archive partial rows keyed by
+ * contract id, so either may arrive first. A collect also records the amulet
+ * the provider received, read from its transaction the same way the burn
+ * stats do for ANS payments (see collectedPayment).
+ */
+
+import { DamlDecimal } from "./daml-decimal.ts";
+import {
+  decodeContract,
+  type ContractDecodeResult,
+  type SubscriptionData,
+  type SubscriptionPayData,
+} from "./splice-decoders.ts";
+import { contractId, record } from "./daml-decode.ts";
+import { classifyCreatesAndCloses, type ContractEventRow, type LedgerEventRow } from "./ledger-events.ts";
+
+export const INITIAL_COLLECT_CHOICE = "SubscriptionInitialPayment_Collect";
+export const PAYMENT_COLLECT_CHOICE = "SubscriptionPayment_Collect";
+export const EXPIRE_SUBSCRIPTION_CHOICE = "SubscriptionIdleState_ExpireSubscription";
+export const CANCEL_SUBSCRIPTION_CHOICE = "SubscriptionIdleState_CancelSubscription";
+
+export type SubscriptionContractKind = "initial_payment" | "payment" | "idle";
+
+export const SUBSCRIPTION_TEMPLATES: Record<SubscriptionContractKind, string> = {
+  initial_payment: "SubscriptionInitialPayment",
+  payment: "SubscriptionPayment",
+  idle: "SubscriptionIdleState",
+};
+
+export interface SubscriptionContractCreate {
+  contract_id: string;
+  kind: SubscriptionContractKind;
+  reference: string;
+  sender: string;
+  receiver: string;
+  provider: string;
+  description: string;
+  payment_amount: string;
+  payment_unit: string;
+  payment_interval_us: number;
+  due_at: string | null;
+  created_at: string;
+  created_update_id: string;
+}
+
+export interface SubscriptionContractClose {
+  contract_id: string;
+  archived_at: string;
+  archive_choice: string;
+  archive_update_id: string;
+}
+
+export interface CollectedAmount {
+  contract_id: string;
+  collected_amulet: string;
+  transfer_fees: string;
+}
+
+export const isCollectChoice = (choice: unknown) => choice === INITIAL_COLLECT_CHOICE || choice === PAYMENT_COLLECT_CHOICE;
+
+interface CreateFields {
+  subscriptionData: SubscriptionData;
+  payData: SubscriptionPayData;
+  reference: string;
+  dueAt: string | null;
+}
+
+function decodeCreate(kind: SubscriptionContractKind, row: ContractEventRow): ContractDecodeResult<CreateFields> {
+  switch (kind) {
+    case "initial_payment": {
+      const d = decodeContract("Wallet:Subscriptions:SubscriptionInitialPayment", row.payload, row.contract_id);
+      return d.ok ? { ok: true, value: { ...d.value, dueAt: null } } : { ok: false, error: d.error };
+    }
+    case "payment": {
+      const d = decodeContract("Wallet:Subscriptions:SubscriptionPayment", row.payload, row.contract_id);
+      return d.ok ? { ok: true, value: { ...d.value, dueAt: d.value.thisPaymentDueAt } } : { ok: false, error: d.error };
+    }
+    case "idle": {
+      const d = decodeContract("Wallet:Subscriptions:SubscriptionIdleState", row.payload, row.contract_id);
+      return d.ok ? { ok: true, value: { ...d.value, dueAt: d.value.nextPaymentDueAt } } : { ok: false, error: d.error };
+    }
+  }
+}
+
+/** Creates and archives of one subscription template */
+export function parseSubscriptionContracts(kind: SubscriptionContractKind, rows: LedgerEventRow[]) {
+  return classifyCreatesAndCloses(
+    rows,
+    (row) => decodeCreate(kind, row),
+    (row, { subscriptionData, payData, reference, dueAt }): SubscriptionContractCreate => ({
+      contract_id: row.contract_id,
+      kind,
+      reference,
+      sender: subscriptionData.sender,
+      receiver: subscriptionData.receiver,
+      provider: subscriptionData.provider,
+      description: subscriptionData.description,
+      payment_amount: payData.paymentAmount.amount.toString(),
+      payment_unit: payData.paymentAmount.unit,
+      payment_interval_us: payData.paymentInterval.microseconds,
+      due_at: dueAt,
+      created_at: row.record_time,
+      created_update_id: row.update_id,
+    }),
+    (row): SubscriptionContractClose => ({
+      contract_id: row.contract_id,
+      archived_at: row.record_time,
+      archive_choice: String(row.raw?.choice ?? ""),
+      archive_update_id: row.update_id,
+    }),
+  );
+}
+
+// ------------------------------------
+// Collected amounts
+// ------------------------------------
+
+/** An event of a transaction tree as the Scan API returns it (and ledger_events.raw keeps it) */
+export interface TreeEvent {
+  event_type?: string;
+  contract_id?: string;
+  choice?: string;
+  create_arguments?: unknown;
+  exercise_result?: unknown;
+  child_event_ids?: string[];
+}
+
+export interface CollectedPayment {
+  /** The amulet the receiver got */
+  amulet: DamlDecimal;
+  /** Fees burnt by the transfers inside the collect */
+  transferFees: DamlDecimal;
+  total: DamlDecimal;
+}
+
+const decodeCollectResult = record({ amulet: contractId });
+
+function dec(value: unknown): DamlDecimal {
+  return DamlDecimal.tryFrom(value) ?? DamlDecimal.ZERO;
+}
+
+/** holdingFees + senderChangeFee + outputFees of an AmuletRules_Transfer */
+export function transferSummaryFees(summary: { holdingFees?: unknown; senderChangeFee?: unknown; outputFees?: unknown }) {
+  const outputFees = Array.isArray(summary.outputFees) ? DamlDecimal.sum(summary.outputFees.map(dec)) : DamlDecimal.ZERO;
+  return dec(summary.holdingFees).add(dec(summary.senderChangeFee)).add(outputFees);
+}
+
+/** Every event below `event` in its transaction tree */
+export function descendantEvents(event: TreeEvent, eventsById: Record<string, TreeEvent>): TreeEvent[] {
+  const found: TreeEvent[] = [];
+  const pending = [...(event.child_event_ids ?? [])];
+  while (pending.length > 0) {
+    const child = eventsById[pending.shift()!];
+    if (!child) continue;
+    found.push(child);
+    pending.push(...(child.child_event_ids ?? []));
+  }
+  return found;
+}
+
+/**
+ * What a `SubscriptionInitialPayment_Collect` or `SubscriptionPayment_Collect`
+ * exercise paid out: the amulet created for the receiver, plus the fees of
+ * the transfers below it. Null for any other event, or when the amulet is not
+ * in the transaction.
+ */
+export function collectedPayment(event: TreeEvent, eventsById: Record<string, TreeEvent>): CollectedPayment | null {
+  if (event.event_type !== "exercised_event" || !isCollectChoice(event.choice)) return null;
+  const result = decodeCollectResult(event.exercise_result);
+  if (!result.ok) return null;
+
+  const all = Object.values(eventsById);
+  const created = all.find((e) => e.event_type === "created_event" && e.contract_id === result.value.amulet);
+  if (!created) return null;
+  const args = created.create_arguments as { amount?: { initialAmount?: unknown } } | undefined;
+  const amulet = dec(args?.amount?.initialAmount);
+
+  const transferFees = DamlDecimal.sum(
+    descendantEvents(event, eventsById)
+      .filter((e) => e.choice === "AmuletRules_Transfer")
+      .map((e) => transferSummaryFees((e.exercise_result as { summary?: object } | undefined)?.summary ?? {})),
+  );
+  return { amulet, transferFees, total: amulet.add(transferFees) };
+}
+
+// ------------------------------------
+// Ledger
+// ------------------------------------
+
+export type SubscriptionStatus = "pending" | "active" | "paying" | "expired" | "cancelled" | "rejected";
+
+/** A row of the subscription_ledger view; amounts are exact numeric text */
+export interface SubscriptionLedgerRow {
+  reference: string;
+  sender: string | null;
+  receiver: string | null;
+  provider: string | null;
+  description: string | null;
+  payment_amount: string | null;
+  payment_unit: string | null;
+  payment_interval_us: number | null;
+  status: SubscriptionStatus;
+  requested_at: string | null;
+  started_at: string | null;
+  ended_at: string | null;
+  next_payment_due_at: string | null;
+  payments_collected: number;
+  payments_failed: number;
+  collected_amulet: string;
+  last_paid_at: string | null;
+}
+
+/** A collected payment, from the subscription_contracts table */
+export interface CollectedPaymentRow {
+  reference: string;
+  provider: string;
+  archived_at: string;
+  collected_amulet: string | null;
+}
+
+export interface ProviderRevenue {
+  provider: string;
+  payments: number;
+  revenue: DamlDecimal;
+  subscriptions: number;
+  active: number;
+  churned: number;
+}
+
+export const isChurned = (status: SubscriptionStatus) => status === "expired" || status === "cancelled";
+
+export const isRunning = (status: SubscriptionStatus) => status === "active" || status === "paying";
+
+/**
+ * Revenue per provider from the payments collected in a period, with the
+ * provider's subscriptions alongside. Highest revenue first.
+ */
+export function providerRevenue(subscriptions: SubscriptionLedgerRow[], payments: CollectedPaymentRow[]): ProviderRevenue[] {
+  const rows = new Map<string, ProviderRevenue>();
+  const row = (provider: string) => {
+    let r = rows.get(provider);
+    if (!r) {
+      r = { provider, payments: 0, revenue: DamlDecimal.ZERO, subscriptions: 0, active: 0, churned: 0 };
+      rows.set(provider, r);
+    }
+    return r;
+  };
+
+  for (const s of subscriptions) {
+    if (!s.provider || !s.started_at) continue;
+    const r = row(s.provider);
+    r.subscriptions += 1;
+    if (isRunning(s.status)) r.active += 1;
+    if (isChurned(s.status)) r.churned += 1;
+  }
+  for (const p of payments) {
+    const r = row(p.provider);
+    r.payments += 1;
+    r.revenue = r.revenue.add(p.collected_amulet ? DamlDecimal.from(p.collected_amulet) : DamlDecimal.ZERO);
+  }
+
+  return Array.from(rows.values()).sort((a, b) => b.revenue.cmp(a.revenue) || b.active - a.active);
+}
+
+/**
+ * Churn over [from, to): of the subscriptions running at `from`, the share
+ * that expired or was cancelled before `to`.
+ */
+export function subscriptionChurn(subscriptions: SubscriptionLedgerRow[], from: string, to: string) {
+  const start = Date.parse(from);
+  const end = Date.parse(to);
+  let running = 0;
+  let churned = 0;
+  for (const s of subscriptions) {
+    if (!s.started_at || Date.parse(s.started_at) >= start) continue;
+    const endedAt = s.ended_at ? Date.parse(s.ended_at) : null;
+    if (endedAt !== null && endedAt < start) continue;
+    running += 1;
+    if (isChurned(s.status) && endedAt !== null && endedAt < end) churned += 1;
+  }
+  return { running, churned, rate: running > 0 ? churned / running : null };
+}
@@ -0,0 +1,264 @@
+/*
+ * sv-reward-ledger
+ * ----------------
+ * Turns SvRewardCoupon and IssuingMiningRound events into the rows of the
+ * SV reward ledger, and builds statements from its daily movements.
+ *
+ *  - every SvRewardCoupon is issued to one beneficiary for one round with a
+ *    weight; SVs without extra beneficiaries are their own beneficiary;
+ *  - it is claimed by `SvRewardCoupon_ArchiveAsBeneficiary` inside a
+ *    transfer, or expired by the DSO with `SvRewardCoupon_DsoExpire` once
+ *    its round closed; until then it is outstanding;
+ *  - its amount is `weight * issuancePerSvRewardCoupon` of the round's
+ *    IssuingMiningRound, so coupons of rounds that are not issuing yet have
+ *    no amount.
+ *
+ * Creates and closes are written as separate partial rows keyed by contract
+ * id, so events can be applied in any order, e.g. when the backfill delivers
+ * a coupon's creation after its archive.
+ */
+
+import { DamlDecimal } from "./daml-decimal.ts";
+import { decodeContract } from "./splice-decoders.ts";
+import { classifyCreatesAndCloses, isCreate, type LedgerEventRow, type SkippedEvent } from "./ledger-events.ts";
+
+export const CLAIM_CHOICE = "SvRewardCoupon_ArchiveAsBeneficiary";
+export const EXPIRE_CHOICE = "SvRewardCoupon_DsoExpire";
+
+export type CouponStatus = "outstanding" | "claimed" | "expired" | "archived";
+
+export interface CouponCreate {
+  contract_id: string;
+  dso: string;
+  sv: string;
+  beneficiary: string;
+  round: number;
+  weight: number;
+  created_at: string;
+  created_update_id: string;
+  migration_id: number | null;
+}
+
+export interface CouponClose {
+  contract_id: string;
+  status: Exclude<CouponStatus, "outstanding">;
+  closed_at: string;
+  close_choice: string;
+  close_update_id: string;
+}
+
+export interface RoundIssuance {
+  round: number;
+  issuance_per_sv_reward: string;
+  issuance_per_validator_reward: string;
+  /** Per faucet coupon and liveness record; absent on older rounds */
+  issuance_per_validator_faucet: string | null;
+  issuance_per_featured_app_reward: string;
+  issuance_per_unfeatured_app_reward: string;
+  contract_id: string;
+  opened_at: string;
+}
+
+export function classifyCouponEvents(rows: LedgerEventRow[]) {
+  return classifyCreatesAndCloses(
+    rows,
+    (row) => decodeContract("Splice:Amulet:SvRewardCoupon", row.payload, row.contract_id),
+    (row, coupon): CouponCreate => ({
+      contract_id: row.contract_id,
+      dso: coupon.dso,
+      sv: coupon.sv,
+      beneficiary: coupon.beneficiary,
+      round: coupon.round.number,
+      weight: coupon.weight,
+      created_at: row.record_time,
+      created_update_id: row.update_id,
+      migration_id: row.migration_id,
+    }),
+    (row): CouponClose => {
+      const choice = String(row.raw?.choice ?? "");
+      return {
+        contract_id: row.contract_id,
+        status: choice === CLAIM_CHOICE ? "claimed" : choice === EXPIRE_CHOICE ? "expired" : "archived",
+        closed_at: row.record_time,
+        close_choice: choice,
+        close_update_id: row.update_id,
+      };
+    },
+  );
+}
+
+export function parseIssuingRounds(rows: LedgerEventRow[]) {
+  const rounds = new Map<number, RoundIssuance>();
+  const skipped: SkippedEvent[] = [];
+  for (const row of rows) {
+    if (!isCreate(row)) continue;
+    const decoded = decodeContract("Splice:Round:IssuingMiningRound", row.payload, row.contract_id ?? undefined);
+    if (!decoded.ok) {
+      skipped.push({ event_id: row.event_id, reason: decoded.error.message });
+      continue;
+    }
+    rounds.set(decoded.value.round.number, {
+      round: decoded.value.round.number,
+      issuance_per_sv_reward: decoded.value.issuancePerSvRewardCoupon.toString(),
+      issuance_per_validator_reward: decoded.value.issuancePerValidatorRewardCoupon.toString(),
+      issuance_per_validator_faucet: decoded.value.optIssuancePerValidatorFaucetCoupon?.toString() ?? null,
+      issuance_per_featured_app_reward: decoded.value.issuancePerFeaturedAppRewardCoupon.toString(),
+      issuance_per_unfeatured_app_reward: decoded.value.issuancePerUnfeaturedAppRewardCoupon.toString(),
+      contract_id: row.contract_id ?? "",
+      opened_at: row.record_time,
+    });
+  }
+  return { rounds: Array.from(rounds.values()), skipped };
+}
+
+// ------------------------------------
+// Statements
+// ------------------------------------
+
+/** A row of the sv_reward_daily view; amounts are exact numeric text */
+export interface DailyMovement {
+  day: string;
+  beneficiary: string;
+  sv: string;
+  issued_count: number;
+  issued_amount: string | null;
+  unpriced_count: number;
+  claimed_count: number;
+  claimed_amount: string | null;
+  expired_count: number;
+  expired_amount: string | null;
+  archived_count: number;
+  archived_amount: string | null;
+  weight_min: number | null;
+  weight_max: number | null;
+}
+
+export interface Balance {
+  count: number;
+  amount: DamlDecimal;
+}
+
+export interface StatementDay {
+  day: string;
+  issued: Balance;
+  claimed: Balance;
+  expired: Balance;
+  archived: Balance;
+  /** Outstanding at the end of the day */
+  closing: Balance;
+}
+
+export interface Statement {
+  from: string;
+  to: string;
+  opening: Balance;
+  issued: Balance;
+  claimed: Balance;
+  expired: Balance;
+  archived: Balance;
+  closing: Balance;
+  /** Outstanding coupons whose round has no issuance yet, so no amount */
+  unpricedCount: number;
+  days: StatementDay[];
+}
+
+const zero = (): Balance => ({ count: 0, amount: DamlDecimal.ZERO });
+
+const plus = (b: Balance, count: number, amount: string | null): Balance => ({
+  count: b.count + count,
+  amount: amount ? b.amount.add(amount) : b.amount,
+});
+
+const minus = (b: Balance, other: Balance): Balance => ({
+  count: b.count - other.count,
+  amount: b.amount.sub(other.amount),
+});
+
+/**
+ * A statement for `from`..`to` (UTC days, inclusive) from every daily
+ * movement up to `to`: outstanding at the start, what was issued, claimed,
+ * expired and otherwise archived in the range, and outstanding at the end.
+ * opening + issued - claimed - expired - archived = closing by construction,
+ * day by day.
+ */
+export function buildStatement(movements: DailyMovement[], from: string, to: string): Statement {
+  const byDay = new Map<string, { issued: Balance; claimed: Balance; expired: Balance; archived: Balance }>();
+  let unpricedCount = 0;
+  for (const m of movements) {
+    if (m.day > to) continue;
+    const d = byDay.get(m.day) ?? { issued: zero(), claimed: zero(), expired: zero(), archived: zero() };
+    d.issued = plus(d.issued, m.issued_count, m.issued_amount);
+    d.claimed = plus(d.claimed, m.claimed_count, m.claimed_amount);
+    d.expired = plus(d.expired, m.expired_count, m.expired_amount);
+    d.archived = plus(d.archived, m.archived_count, m.archived_amount);
+    byDay.set(m.day, d);
+    unpricedCount += m.unpriced_count;
+  }
+
+  let outstanding = zero();
+  let opening = zero();
+  const totals = { issued: zero(), claimed: zero(), expired: zero(), archived: zero() };
+  const days: StatementDay[] = [];
+
+  for (const day of Array.from(byDay.keys()).sort()) {
+    const d = byDay.get(day)!;
+    outstanding = minus(minus(minus(plus(outstanding, d.issued.count, d.issued.amount.toString()), d.claimed), d.expired), d.archived);
+    if (day < from) {
+      opening = outstanding;
+      continue;
+    }
+    for (const key of ["issued", "claimed", "expired", "archived"] as const) {
+      totals[key] = plus(totals[key], d[key].count, d[key].amount.toString());
+    }
+    days.push({ day, ...d, closing: outstanding });
+  }
+
+  return { from, to, opening, ...totals, closing: outstanding, unpricedCount, days };
+}
+
+// ------------------------------------
+// Weight reconciliation
+// ------------------------------------
+
+export interface ExpectedWeight {
+  beneficiary: string;
+  operator: string;
+  weight: number;
+}
+
+export interface WeightCheck extends ExpectedWeight {
+  observedMin: number | null;
+  observedMax: number | null;
+  status: "match" | "mismatch" | "missing";
+}
+
+/**
+ * Compares the weights on issued coupons with the configured ones. An
+ * operator's own share is its rewardWeightBps minus what it passes on to
+ * extra beneficiaries.
+ */
+export function reconcileWeights(
+  expected: ExpectedWeight[],
+  observed: Map<string, { min: number; max: number }>,
+): WeightCheck[] {
+  return expected.map((e) => {
+    const o = observed.get(e.beneficiary);
+    if (!o) return { ...e, observedMin: null, observedMax: null, status: "missing" };
+    const status = o.min === e.weight && o.max === e.weight ? "match" : "mismatch";
+    return { ...e, observedMin: o.min, observedMax: o.max, status };
+  });
+}
+
+/** Lowest and highest coupon weight per beneficiary in the movements */
+export function observedWeights(movements: DailyMovement[]): Map<string, { min: number; max: number }> {
+  const out = new Map<string, { min: number; max: number }>();
+  for (const m of movements) {
+    if (m.weight_min === null || m.weight_max === null) continue;
+    const prev = out.get(m.beneficiary);
+    out.set(m.beneficiary, {
+      min: prev ? Math.min(prev.min, m.weight_min) : m.weight_min,
+      max: prev ? Math.max(prev.max, m.weight_max) : m.weight_max,
+    });
+  }
+  return out;
+}
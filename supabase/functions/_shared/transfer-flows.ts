@@ -0,0 +1,184 @@
+/*
+ * transfer-flows
+ * --------------
+ * Amulet moving between parties, as one flow per transfer output: the
+ * sender, the receiver and the amount the receiver got. Flows come from two
+ * places with the same shape:
+ *
+ *  - AmuletRules_Transfer exercises in ledger_events, kept in the
+ *    transfer_flows table by the transfer-flows function;
+ *  - the `transfer` of TransactionHistoryItems from the Scan API, for the
+ *    latest transactions the ledger may not have yet.
+ *
+ * aggregateFlows folds flows into sender -> receiver edges the same way the
+ * transfer_flow_edges function does in the database, so both sources render
+ * in the same graph.
+ */
+
+import { DamlDecimal } from "./daml-decimal.ts";
+import { DamlDecodeError, int64, list, numeric, optional, party, record } from "./daml-decode.ts";
+import type { LedgerEventRow, SkippedEvent } from "./ledger-events.ts";
+
+export const TRANSFER_CHOICE = "AmuletRules_Transfer";
+
+/** A row of the transfer_flows table */
+export interface TransferFlowRow {
+  event_id: string;
+  output_index: number;
+  sender: string;
+  receiver: string;
+  amount: string;
+  provider: string | null;
+  round: number | null;
+  recorded_at: string;
+  update_id: string;
+}
+
+/** One transfer output, from either source */
+export interface TransferFlow {
+  sender: string;
+  receiver: string;
+  amount: DamlDecimal;
+  at: string;
+}
+
+/** A sender -> receiver edge; the transfer_flow_edges rows use the same names */
+export interface FlowEdge {
+  sender: string;
+  receiver: string;
+  transfers: number;
+  amount: DamlDecimal;
+  first_at: string;
+  last_at: string;
+}
+
+export interface Counterparty {
+  party: string;
+  sent: DamlDecimal;
+  received: DamlDecimal;
+  transfers: number;
+}
+
+const decodeTransferArgument = record({
+  transfer: record({
+    sender: party,
+    provider: optional(party),
+    outputs: list(record({ receiver: party, amount: numeric })),
+  }),
+});
+
+const decodeTransferResult = record({
+  round: optional(record({ number: int64 })),
+});
+
+export function parseTransferFlows(rows: LedgerEventRow[]) {
+  const flows: TransferFlowRow[] = [];
+  const skipped: SkippedEvent[] = [];
+
+  for (const row of rows) {
+    if (row.event_type !== "exercised_event" || row.raw?.choice !== TRANSFER_CHOICE) continue;
+    const arg = decodeTransferArgument(row.raw.choice_argument, "choice_argument");
+    if (!arg.ok) {
+      skipped.push({ event_id: row.event_id, reason: new DamlDecodeError(TRANSFER_CHOICE, arg.issues).message });
+      continue;
+    }
+    const { sender, provider, outputs } = arg.value.transfer;
+    const result = decodeTransferResult(row.raw.exercise_result, "exercise_result");
+    outputs.forEach((output, i) => {
+      flows.push({
+        event_id: row.event_id,
+        output_index: i,
+        sender,
+        receiver: output.receiver,
+        amount: output.amount.toString(),
+        provider,
+        round: result.ok ? result.value.round?.number ?? null : null,
+        recorded_at: row.record_time,
+        update_id: row.update_id,
+      });
+    });
+  }
+
+  return { flows, skipped };
+}
+
+/** The parts of a Scan TransactionHistoryItem the flows are read from */
+export interface HistoryTransaction {
+  transaction_type: string;
+  date: string;
+  transfer?: {
+    sender: { party: string };
+    receivers: { party: string; amount: string }[];
+  };
+}
+
+export function flowsFromTransactions(transactions: HistoryTransaction[]): TransferFlow[] {
+  const flows: TransferFlow[] = [];
+  for (const tx of transactions) {
+    if (!tx.transfer) continue;
+    for (const receiver of tx.transfer.receivers ?? []) {
+      const amount = DamlDecimal.tryFrom(receiver.amount);
+      if (!amount || !receiver.party) continue;
+      flows.push({ sender: tx.transfer.sender.party, receiver: receiver.party, amount, at: tx.date });
+    }
+  }
+  return flows;
+}
+
+export interface FlowFilters {
+  /** Only transfer outputs of at least this amount */
+  minAmount?: DamlDecimal | null;
+  /** Only flows from or to one of these parties */
+  parties?: string[];
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Sender -> receiver edges over the flows that pass the filters, largest
+ * amount first. Flows from a party to itself are left out.
+ */
+export function aggregateFlows(flows: TransferFlow[], filters: FlowFilters = {}): FlowEdge[] {
+  const parties = filters.parties?.length ? new Set(filters.parties) : null;
+  const from = filters.from ? Date.parse(filters.from) : null;
+  const to = filters.to ? Date.parse(filters.to) : null;
+  const edges = new Map<string, FlowEdge>();
+
+  for (const f of flows) {
+    if (f.sender === f.receiver) continue;
+    if (filters.minAmount && f.amount.cmp(filters.minAmount) < 0) continue;
+    if (parties && !parties.has(f.sender) && !parties.has(f.receiver)) continue;
+    const at = Date.parse(f.at);
+    if ((from !== null && at < from) || (to !== null && at >= to)) continue;
+
+    const key = `${f.sender}|${f.receiver}`;
+    const edge = edges.get(key);
+    if (!edge) {
+      edges.set(key, { sender: f.sender, receiver: f.receiver, transfers: 1, amount: f.amount, first_at: f.at, last_at: f.at });
+      continue;
+    }
+    edge.transfers += 1;
+    edge.amount = edge.amount.add(f.amount);
+    if (f.at < edge.first_at) edge.first_at = f.at;
+    if (f.at > edge.last_at) edge.last_at = f.at;
+  }
+
+  return Array.from(edges.values()).sort((a, b) => b.amount.cmp(a.amount) || b.transfers - a.transfers);
+}
+
+/** The parties `party` exchanged the most with, in both directions */
+export function topCounterparties(edges: FlowEdge[], party: string, limit = 10): Counterparty[] {
+  const rows = new Map<string, Counterparty>();
+  for (const e of edges) {
+    const other = e.sender === party ? e.receiver : e.receiver === party ? e.sender : null;
+    if (!other) continue;
+    const row = rows.get(other) ?? { party: other, sent: DamlDecimal.ZERO, received: DamlDecimal.ZERO, transfers: 0 };
+    if (e.sender === party) row.sent = row.sent.add(e.amount);
+    else row.received = row.received.add(e.amount);
+    row.transfers += e.transfers;
+    rows.set(other, row);
+  }
+  return Array.from(rows.values())
+    .sort((a, b) => b.sent.add(b.received).cmp(a.sent.add(a.received)))
+    .slice(0, limit);
+}
@@ -0,0 +1,208 @@
+/*
+ * validator-activity
+ * ------------------
+ * Turns validator events into the rows behind the validator scoreboard:
+ *
+ *  - ValidatorLivenessActivityRecord and, before it, ValidatorFaucetCoupon:
+ *    one per validator and open round it was live in, paid at the round's
+ *    optIssuancePerValidatorFaucetCoupon;
+ *  - ValidatorRewardCoupon: activity of the coupon's `user`, paid at
+ *    `amount * issuancePerValidatorRewardCoupon`;
+ *  - AmuletRules_BuyMemberTraffic: traffic bought by a validator (the
+ *    `provider`) for one of its members.
+ *
+ * Rows are keyed by contract or event id, so pages can be applied more than
+ * once. The sync then rebuilds the validator_activity_daily buckets the page
+ * touched.
+ */
+
+import { decodeContract } from "./splice-decoders.ts";
+import { DamlDecodeError, int64, numeric, optional, party, record, text } from "./daml-decode.ts";
+import { isCreate, type LedgerEventRow, type SkippedEvent } from "./ledger-events.ts";
+
+export const BUY_TRAFFIC_CHOICE = "AmuletRules_BuyMemberTraffic";
+
+export type ActivityKind = "liveness" | "faucet" | "reward";
+
+export interface ActivityRow {
+  contract_id: string;
+  validator: string;
+  round: number;
+  kind: ActivityKind;
+  /** Reward coupons only: the activity the reward is paid on */
+  activity: string | null;
+  recorded_at: string;
+  update_id: string;
+  migration_id: number | null;
+}
+
+export interface TrafficPurchaseRow {
+  event_id: string;
+  validator: string;
+  member_id: string;
+  synchronizer_id: string;
+  traffic_amount: number;
+  /** Only reported by newer AmuletRules versions */
+  amulet_paid: string | null;
+  round: number | null;
+  recorded_at: string;
+  update_id: string;
+}
+
+/** A (validator, UTC day) bucket of validator_activity_daily */
+export interface ActivityBucket {
+  validator: string;
+  day: string;
+}
+
+const ACTIVITY_TEMPLATES = {
+  liveness: "Splice:ValidatorLicense:ValidatorLivenessActivityRecord",
+  faucet: "Splice:ValidatorLicense:ValidatorFaucetCoupon",
+  reward: "Splice:Amulet:ValidatorRewardCoupon",
+} as const;
+
+export function parseActivityEvents(kind: ActivityKind, rows: LedgerEventRow[]) {
+  const activity: ActivityRow[] = [];
+  const skipped: SkippedEvent[] = [];
+
+  for (const row of rows) {
+    if (!row.contract_id || !isCreate(row)) continue;
+    const base = {
+      contract_id: row.contract_id,
+      recorded_at: row.record_time,
+      update_id: row.update_id,
+      migration_id: row.migration_id,
+      kind,
+    };
+    if (kind === "reward") {
+      const decoded = decodeContract(ACTIVITY_TEMPLATES.reward, row.payload, row.contract_id);
+      if (!decoded.ok) {
+        skipped.push({ event_id: row.event_id, reason: decoded.error.message });
+        continue;
+      }
+      const { user, round, amount } = decoded.value;
+      activity.push({ ...base, validator: user, round: round.number, activity: amount.toString() });
+    } else {
+      const decoded = decodeContract(ACTIVITY_TEMPLATES[kind], row.payload, row.contract_id);
+      if (!decoded.ok) {
+        skipped.push({ event_id: row.event_id, reason: decoded.error.message });
+        continue;
+      }
+      const { validator, round } = decoded.value;
+      activity.push({ ...base, validator, round: round.number, activity: null });
+    }
+  }
+
+  return { activity, skipped };
+}
+
+const decodeBuyTrafficArgument = record({
+  provider: party,
+  memberId: text,
+  synchronizerId: text,
+  trafficAmount: int64,
+});
+
+const decodeBuyTrafficResult = record({
+  round: optional(record({ number: int64 })),
+  amuletPaid: optional(numeric),
+});
+
+export function parseTrafficPurchases(rows: LedgerEventRow[]) {
+  const purchases: TrafficPurchaseRow[] = [];
+  const skipped: SkippedEvent[] = [];
+
+  for (const row of rows) {
+    if (row.event_type !== "exercised_event" || row.raw?.choice !== BUY_TRAFFIC_CHOICE) continue;
+    const arg = decodeBuyTrafficArgument(row.raw.choice_argument, "choice_argument");
+    if (!arg.ok) {
+      skipped.push({ event_id: row.event_id, reason: new DamlDecodeError(BUY_TRAFFIC_CHOICE, arg.issues).message });
+      continue;
+    }
+    // The result is informational; a purchase without it still counts
+    const result = decodeBuyTrafficResult(row.raw.exercise_result, "exercise_result");
+    purchases.push({
+      event_id: row.event_id,
+      validator: arg.value.provider,
+      member_id: arg.value.memberId,
+      synchronizer_id: arg.value.synchronizerId,
+      traffic_amount: arg.value.trafficAmount,
+      amulet_paid: result.ok ? result.value.amuletPaid?.toString() ?? null : null,
+      round: result.ok ? result.value.round?.number ?? null : null,
+      recorded_at: row.record_time,
+      update_id: row.update_id,
+    });
+  }
+
+  return { purchases, skipped };
+}
+
+/** The daily buckets a page of rows lands in, without duplicates */
+export function touchedBuckets(rows: { validator: string; recorded_at: string }[]): ActivityBucket[] {
+  const buckets = new Map<string, ActivityBucket>();
+  for (const r of rows) {
+    const day = r.recorded_at.slice(0, 10);
+    buckets.set(`${r.validator}|${day}`, { validator: r.validator, day });
+  }
+  return Array.from(buckets.values());
+}
+
+// ------------------------------------
+// Scoreboard
+// ------------------------------------
+
+/** A row of the validator_activity_daily table; amounts are exact numeric text */
+export interface ActivityDay {
+  validator: string;
+  day: string;
+  liveness_rounds: number;
+  min_round: number | null;
+  max_round: number | null;
+  reward_coupons: number;
+  reward_activity: string | null;
+  reward_amount: string | null;
+  faucet_amount: string | null;
+  unpriced_count: number;
+  traffic_purchases: number;
+  traffic_bought: number;
+  traffic_amulet_paid: string | null;
+}
+
+/** A row of the mining_rounds_daily view */
+export interface NetworkRoundsDay {
+  day: string;
+  rounds: number;
+  min_round: number;
+  max_round: number;
+}
+
+export interface UptimePoint {
+  day: string;
+  live: number;
+  network: number;
+  /** Share of the network's rounds the validator was live in, 0..1 */
+  uptime: number | null;
+}
+
+/**
+ * Liveness per day against the rounds the network issued that day. Days
+ * before the validator's first record are left out, so a new validator does
+ * not start with a run of zeros.
+ */
+export function uptimeSeries(days: ActivityDay[], network: NetworkRoundsDay[]): UptimePoint[] {
+  const live = new Map(days.map((d) => [d.day, d.liveness_rounds]));
+  const first = days.find((d) => d.liveness_rounds > 0)?.day;
+  if (!first) return [];
+  return network
+    .filter((n) => n.day >= first)
+    .map((n) => {
+      const count = live.get(n.day) ?? 0;
+      return { day: n.day, live: count, network: n.rounds, uptime: n.rounds > 0 ? Math.min(1, count / n.rounds) : null };
+    });
+}
+
+/** Relative change of `current` over `previous`; null when there is nothing to compare with */
+export function trend(current: number, previous: number): number | null {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return (current - previous) / previous;
+}
@@ -1,39 +1,12 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { DamlDecimal } from "../_shared/daml-decimal.ts";
+import { balanceAt, type BalanceMode, type BalanceOptions } from "../_shared/amulet-balance.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// ------------------------------
-// Value pickers
-// ------------------------------
-function pickAmount(obj: any): number {
-  if (!obj) return 0;
-  const candidates = [
-    obj?.amount?.initialAmount,
-    obj?.amulet?.amount?.initialAmount,
-    obj?.state?.amount?.initialAmount,
-    obj?.create_arguments?.amount?.initialAmount,
-    obj?.balance?.initialAmount,
-    obj?.amount,
-  ];
-  for (const v of candidates) {
-    const n = typeof v === "string" ? parseFloat(v) : Number(v);
-    if (!isNaN(n)) return n;
-  }
-  return 0;
-}
-
-function pickLockedAmount(obj: any): number {
-  const v = obj?.amulet?.amount?.initialAmount;
-  if (v !== undefined && v !== null) {
-    const n = typeof v === "string" ? parseFloat(v) : Number(v);
-    if (!isNaN(n)) return n;
-  }
-  return pickAmount(obj);
-}
-
 // ------------------------------
 // Concurrency limiter
 // ------------------------------
@@ -61,7 +34,14 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { snapshot_id, template_suffix, mode = "circulating" } = await req.json();
+    const {
+      snapshot_id,
+      template_suffix,
+      mode = "circulating",
+      balance = "nominal",
+      round,
+      holding_fee_rate,
+    } = await req.json();
 
     if (!snapshot_id || !template_suffix) {
       return new Response(JSON.stringify({ error: "snapshot_id and template_suffix are required" }), {
@@ -69,6 +49,19 @@ Deno.serve(async (req) => {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
+    if (balance !== "nominal" && balance !== "effective") {
+      return new Response(JSON.stringify({ error: "balance must be nominal or effective" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    // Effective balances decay up to a round the caller names
+    if (balance === "effective" && !Number.isInteger(round)) {
+      return new Response(JSON.stringify({ error: "round is required for effective balances" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
     const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
 
@@ -83,10 +76,14 @@ Deno.serve(async (req) => {
 
     if (tsErr) throw tsErr;
 
-    let totalSum = 0;
+    let totalSum = DamlDecimal.ZERO;
     let totalCount = 0;
 
-    const picker = mode === "locked" ? pickLockedAmount : pickAmount;
+    // holding_fee_rate (CC per round) stands in for payloads without ratePerRound
+    const fallbackRate = DamlDecimal.tryFrom(holding_fee_rate);
+    const options: BalanceOptions = { locked: mode === "locked", rateFor: () => fallbackRate };
+    const balanceMode = balance as BalanceMode;
+    const picker = (it: unknown) => balanceAt(it, round ?? 0, balanceMode, options);
 
     // ---------------------------
     // Process templates
@@ -142,18 +139,18 @@ Deno.serve(async (req) => {
         try {
           const { data: chunkFile } = await supabase.storage.from("acs-data").download(path);
 
-          if (!chunkFile) return { sum: 0, count: 0 };
+          if (!chunkFile) return { sum: DamlDecimal.ZERO, count: 0 };
 
           const text = await chunkFile.text();
           const arr = JSON.parse(text);
 
-          if (!Array.isArray(arr)) return { sum: 0, count: 0 };
+          if (!Array.isArray(arr)) return { sum: DamlDecimal.ZERO, count: 0 };
 
-          const sum = arr.reduce((a, it) => a + picker(it), 0);
+          const sum = arr.reduce((a: DamlDecimal, it) => a.add(picker(it)), DamlDecimal.ZERO);
           return { sum, count: arr.length };
         } catch (err) {
           console.error(`Error loading chunk ${path}:`, err);
-          return { sum: 0, count: 0 };
+          return { sum: DamlDecimal.ZERO, count: 0 };
         }
       });
 
@@ -163,16 +160,19 @@ Deno.serve(async (req) => {
       const results = await limitConcurrency(tasks, 6);
 
       for (const r of results) {
-        totalSum += r.sum;
+        totalSum = totalSum.add(r.sum);
         totalCount += r.count;
       }
     }
 
     return new Response(
       JSON.stringify({
-        sum: totalSum,
+        // Exact 10-decimal string; never round-trip through a float
+        sum: totalSum.toString(),
         count: totalCount,
         templateCount: templates?.length ?? 0,
+        balance,
+        round: balance === "effective" ? round : null,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } },
     );
@@ -0,0 +1,94 @@
+/*
+ * ans-registry
+ * ------------
+ * Feeds ans_entries and ans_entry_payments incrementally from ledger_events,
+ * one cursor per stream (see _shared/ledger-sync.ts). The ans_names and
+ * ans_party_names views on top of them back the expiry calendar and the
+ * party to name lookups.
+ * See _shared/ans-registry.ts for how events map to rows.
+ *
+ * Body: { reset?: boolean }  reset restarts both streams from the beginning
+ */
+
+import {
+  createAdminClient,
+  resetCursors,
+  runStream,
+  settledBefore,
+  upsertAll,
+  upsertCreatesAndCloses,
+  type StreamSpec,
+} from "../_shared/ledger-sync.ts";
+import { parseAnsEntries, parseAnsPayments } from "../_shared/ans-registry.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ENTRY_STREAM: StreamSpec = { name: "ans-registry:entries", template: "AnsEntry" };
+// Only the payment choices are kept, see parseAnsPayments
+const PAYMENT_STREAM: StreamSpec = { name: "ans-registry:payments", template: "AnsEntryContext" };
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ------------------------------------
+// Handler
+// ------------------------------------
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.reset) {
+      await resetCursors(supabase, [ENTRY_STREAM.name, PAYMENT_STREAM.name]);
+    }
+
+    const settleBefore = settledBefore();
+    const syncedAt = new Date().toISOString();
+
+    const entries = await runStream(supabase, ENTRY_STREAM, settleBefore, async (rows) => {
+      const classified = parseAnsEntries(rows);
+      await upsertCreatesAndCloses(supabase, "ans_entries", classified, syncedAt);
+      return classified.skipped;
+    });
+
+    const payments = await runStream(supabase, PAYMENT_STREAM, settleBefore, async (rows) => {
+      const parsed = parseAnsPayments(rows);
+      await upsertAll(
+        supabase,
+        "ans_entry_payments",
+        "event_id",
+        parsed.payments.map((p) => ({ ...p, synced_at: syncedAt })),
+      );
+      return parsed.skipped;
+    });
+
+    const results = [entries, payments];
+    const skipped = results.flatMap((r) => r.skipped);
+    if (skipped.length > 0) {
+      console.warn(`ans-registry: skipped ${skipped.length} event(s)`, skipped.slice(0, 10));
+    }
+
+    return json({
+      entry_events: entries.events,
+      payment_events: payments.events,
+      skipped: skipped.length,
+      more: results.some((r) => r.more),
+      settled_before: settleBefore,
+      synced_at: syncedAt,
+    });
+  } catch (e) {
+    console.error("ans-registry error", e);
+    return json({ error: (e as Error)?.message ?? "Internal server error" }, 500);
+  }
+});
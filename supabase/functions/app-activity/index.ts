@@ -0,0 +1,187 @@
+/*
+ * app-activity
+ * ------------
+ * Feeds featured_app_rights, featured_app_markers, app_reward_coupons and
+ * app_transfers incrementally from ledger_events, one cursor per stream (see
+ * _shared/ledger-sync.ts), and rebuilds the app_activity_daily buckets each
+ * page touched. Also syncs the issuing round stream the app rewards are
+ * priced with, under its own cursor, and reprices the buckets of the rounds
+ * it read: the days their coupons were created and closed on.
+ * See _shared/app-activity.ts for how events map to rows.
+ *
+ * Body: { reset?: boolean }  reset restarts the app streams from the beginning
+ */
+
+import {
+  createAdminClient,
+  resetCursors,
+  runStream,
+  settledBefore,
+  syncIssuingRounds,
+  upsertAll,
+  upsertCreatesAndCloses,
+  type StreamSpec,
+  type SupabaseAdmin,
+} from "../_shared/ledger-sync.ts";
+import {
+  classifyAppCouponEvents,
+  parseActivityMarkers,
+  parseAppTransfers,
+  parseFeaturedAppRights,
+  touchedAppBuckets,
+  TRANSFER_CHOICE,
+  type AppBucket,
+} from "../_shared/app-activity.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const RIGHTS_STREAM: StreamSpec = { name: "app-activity:featured-app-rights", template: "FeaturedAppRight" };
+const MARKER_STREAM: StreamSpec = {
+  name: "app-activity:markers",
+  template: "FeaturedAppActivityMarker",
+  createsOnly: true,
+};
+const COUPON_STREAM: StreamSpec = { name: "app-activity:coupons", template: "AppRewardCoupon" };
+const TRANSFER_STREAM: StreamSpec = { name: "app-activity:transfers", template: "AmuletRules", choice: TRANSFER_CHOICE };
+const ISSUING_ROUND_CURSOR = "app-activity:issuing-rounds";
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** Rebuilds the given buckets, and those holding coupons of `rounds` */
+async function refreshDaily(supabase: SupabaseAdmin, buckets: AppBucket[], rounds: number[] = []) {
+  const { error } = await supabase.rpc("refresh_app_activity_daily", {
+    _providers: buckets.map((b) => b.provider),
+    _days: buckets.map((b) => b.day),
+    _rounds: rounds,
+  });
+  if (error) throw error;
+}
+
+/**
+ * The buckets a page of coupon events touched. A close may arrive before the
+ * create that names its provider, and a create after its close, so both days
+ * are read back from the merged rows.
+ */
+async function couponBuckets(supabase: SupabaseAdmin, contractIds: string[]): Promise<AppBucket[]> {
+  const rows: { provider: string | null; created_at: string | null; closed_at: string | null }[] = [];
+  for (let i = 0; i < contractIds.length; i += 500) {
+    const { data, error } = await supabase
+      .from("app_reward_coupons")
+      .select("provider, created_at, closed_at")
+      .in("contract_id", contractIds.slice(i, i + 500));
+    if (error) throw error;
+    rows.push(...((data || []) as typeof rows));
+  }
+  return touchedAppBuckets(
+    rows.flatMap((r) => [
+      { provider: r.provider, at: r.created_at },
+      { provider: r.provider, at: r.closed_at },
+    ]),
+  );
+}
+
+// ------------------------------------
+// Handler
+// ------------------------------------
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.reset) {
+      await resetCursors(supabase, [
+        RIGHTS_STREAM.name,
+        MARKER_STREAM.name,
+        COUPON_STREAM.name,
+        TRANSFER_STREAM.name,
+        ISSUING_ROUND_CURSOR,
+      ]);
+    }
+
+    const settleBefore = settledBefore();
+    const syncedAt = new Date().toISOString();
+
+    const rounds = await syncIssuingRounds(supabase, settleBefore, ISSUING_ROUND_CURSOR);
+
+    const rights = await runStream(supabase, RIGHTS_STREAM, settleBefore, async (rows) => {
+      const classified = parseFeaturedAppRights(rows);
+      await upsertCreatesAndCloses(supabase, "featured_app_rights", classified, syncedAt);
+      return classified.skipped;
+    });
+
+    const markers = await runStream(supabase, MARKER_STREAM, settleBefore, async (rows) => {
+      const parsed = parseActivityMarkers(rows);
+      await upsertAll(
+        supabase,
+        "featured_app_markers",
+        "contract_id",
+        parsed.markers.map((m) => ({ ...m, synced_at: syncedAt })),
+      );
+      if (parsed.markers.length > 0) {
+        await refreshDaily(supabase, touchedAppBuckets(parsed.markers.map((m) => ({ provider: m.provider, at: m.recorded_at }))));
+      }
+      return parsed.skipped;
+    });
+
+    const coupons = await runStream(supabase, COUPON_STREAM, settleBefore, async (rows) => {
+      const { creates, reassigned, closes, skipped } = classifyAppCouponEvents(rows);
+      await upsertCreatesAndCloses(supabase, "app_reward_coupons", { creates, reassigned, closes }, syncedAt);
+      const ids = [...new Set([...creates, ...reassigned, ...closes].map((c) => c.contract_id))];
+      if (ids.length > 0) await refreshDaily(supabase, await couponBuckets(supabase, ids));
+      return skipped;
+    });
+
+    const transfers = await runStream(supabase, TRANSFER_STREAM, settleBefore, async (rows) => {
+      const parsed = parseAppTransfers(rows);
+      await upsertAll(
+        supabase,
+        "app_transfers",
+        "event_id",
+        parsed.transfers.map((t) => ({ ...t, synced_at: syncedAt })),
+      );
+      if (parsed.transfers.length > 0) {
+        await refreshDaily(
+          supabase,
+          touchedAppBuckets(parsed.transfers.map((t) => ({ provider: t.provider, at: t.recorded_at }))),
+        );
+      }
+      return parsed.skipped;
+    });
+
+    // Coupons synced before their round's rate
+    if (rounds.rounds.length > 0) await refreshDaily(supabase, [], rounds.rounds);
+
+    const results = [rounds, rights, markers, coupons, transfers];
+    const skipped = results.flatMap((r) => r.skipped);
+    if (skipped.length > 0) {
+      console.warn(`app-activity: skipped ${skipped.length} event(s)`, skipped.slice(0, 10));
+    }
+
+    return json({
+      right_events: rights.events,
+      marker_events: markers.events,
+      coupon_events: coupons.events,
+      transfer_events: transfers.events,
+      round_events: rounds.events,
+      skipped: skipped.length,
+      more: results.some((r) => r.more),
+      settled_before: settleBefore,
+      synced_at: syncedAt,
+    });
+  } catch (e) {
+    console.error("app-activity error", e);
+    return json({ error: (e as Error)?.message ?? "Internal server error" }, 500);
+  }
+});
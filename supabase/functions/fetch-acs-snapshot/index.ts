@@ -1,20 +1,56 @@
 /*
  * fetch-acs-snapshot
  * ------------------
- * Creates a new full ACS snapshot every time it's triggered.
+ * Creates a new ACS snapshot every time it's triggered.
  * Automatically chains snapshots using previous_snapshot_id.
- * Includes archived contracts (because we use full ACS).
- * No incremental pruning (safe).
- * Compatible with your Supabase schema.
+ *
+ * Two modes:
+ *  - full: pages through /v0/state/acs in self-invoking batches.
+ *  - incremental: starts from the previous completed snapshot and applies the
+ *    created / archived events stored in ledger_events since its record_time.
+ *    Chunks without archived contracts are shared with the previous snapshot.
+ *
+ * Both modes write the chunk + manifest layout used by upload-acs-data, plus
+ * a contract id file next to each chunk, a per-template contract id
+ * checksum and the template's field sums and status tallies. Every FULL_SNAPSHOT_EVERY-th run is a full pull, which is then
+ * checked against what the deltas would have produced.
+ *
+ * Body: { snapshot_id?, mode?: "full" | "incremental" }
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DamlDecimal } from "../_shared/daml-decimal.ts";
+import {
+  compareChecksums,
+  ContractIdChecksum,
+  foldLedgerEvents,
+  TemplateAggregates,
+  type LedgerDeltaEvent,
+  type TemplateChecksum,
+} from "../_shared/acs-delta.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+interface SnapshotRow {
+  id: string;
+  migration_id: number;
+  record_time: string;
+  previous_snapshot_id: string | null;
+  processing_mode: string | null;
+  cursor_after: number;
+  processed_pages: number | null;
+  processed_events: number | null;
+  amulet_total?: number | string;
+  locked_total?: number | string;
+  amulet_total_text?: string;
+  locked_total_text?: string;
+}
+
 // How many ACS pages each invocation processes
 const PAGES_PER_BATCH = 40;
 const PAGE_SIZE = 500;
@@ -23,27 +59,14 @@ const PAGE_SIZE = 500;
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 1000;
 
-// ----------------------------
-// Decimal helper (10 decimals)
-// ----------------------------
-class Decimal {
-  private value: string;
-  constructor(val: string | number) {
-    this.value = typeof val === "number" ? val.toFixed(10) : val;
-  }
-  plus(other: Decimal) {
-    return new Decimal((parseFloat(this.value) + parseFloat(other.value)).toFixed(10));
-  }
-  minus(other: Decimal) {
-    return new Decimal((parseFloat(this.value) - parseFloat(other.value)).toFixed(10));
-  }
-  toString() {
-    return parseFloat(this.value).toFixed(10);
-  }
-  toNumber() {
-    return parseFloat(this.value);
-  }
-}
+// Chunk layout (same as upload-acs-data)
+const ENTRIES_PER_CHUNK = 5000;
+
+// Incremental mode
+const FULL_SNAPSHOT_EVERY = 24; // hourly incrementals → one verified full pull per day
+const MAX_DELTA_EVENTS = 50_000; // beyond this a full pull is cheaper than an in-memory delta
+const UPDATE_PAGE_SIZE = 1000;
+const EVENT_ID_BATCH = 100;
 
 // ------------------------------------
 // Retry with exponential backoff
@@ -127,10 +150,12 @@ async function fetchSnapshotTimestamp(baseUrl: string, migration_id: number) {
 // ------------------------------------
 // Get last completed snapshot (for chaining)
 // ------------------------------------
-async function getPreviousSnapshot(supabaseAdmin: any, migration_id: number) {
+async function getPreviousSnapshot(supabaseAdmin: SupabaseAdmin, migration_id: number): Promise<SnapshotRow | null> {
   const { data, error } = await supabaseAdmin
     .from("acs_snapshots")
-    .select("id")
+    .select(
+      "id, record_time, processing_mode, amulet_total_text:amulet_total::text, locked_total_text:locked_total::text",
+    )
     .eq("migration_id", migration_id)
     .eq("status", "completed")
     .order("completed_at", { ascending: false })
@@ -145,6 +170,89 @@ async function getPreviousSnapshot(supabaseAdmin: any, migration_id: number) {
   return data || null;
 }
 
+// ------------------------------------
+// Storage layout helpers
+// ------------------------------------
+interface ManifestChunk {
+  chunkIndex: number;
+  contractCount: number;
+  storagePath: string;
+  /** Contract ids of the chunk's entries, same order */
+  contractIdsPath?: string;
+}
+
+interface ChunkManifest {
+  chunks: ManifestChunk[];
+  totalEntries: number;
+  totalChunks: number;
+}
+
+function safeFileName(templateId: string) {
+  return templateId.replace(/[:.]/g, "_");
+}
+
+function manifestPath(snapshotId: string, templateId: string) {
+  return `${snapshotId}/manifests/${templateId.replace(/:/g, "_")}_manifest.json`;
+}
+
+async function uploadJson(supabaseAdmin: SupabaseAdmin, path: string, value: unknown) {
+  await retryWithBackoff(async () => {
+    const { error } = await supabaseAdmin.storage
+      .from("acs-data")
+      .upload(path, new Blob([JSON.stringify(value)], { type: "application/json" }), { upsert: true });
+    if (error) throw error;
+  }, `upload ${path}`);
+}
+
+async function downloadJson<T>(supabaseAdmin: SupabaseAdmin, path: string): Promise<T> {
+  return retryWithBackoff(async () => {
+    const { data, error } = await supabaseAdmin.storage.from("acs-data").download(path);
+    if (error) throw error;
+    return JSON.parse(await data.text()) as T;
+  }, `download ${path}`);
+}
+
+async function uploadChunk(
+  supabaseAdmin: SupabaseAdmin,
+  snapshotId: string,
+  templateId: string,
+  key: string,
+  entries: unknown[],
+  contractIds: string[],
+): Promise<Omit<ManifestChunk, "chunkIndex">> {
+  const file = `${safeFileName(templateId)}_chunk_${key}.json`;
+  const storagePath = `${snapshotId}/chunks/${file}`;
+  const contractIdsPath = `${snapshotId}/contract_ids/${file}`;
+  await uploadJson(supabaseAdmin, storagePath, entries);
+  await uploadJson(supabaseAdmin, contractIdsPath, contractIds);
+  return { contractCount: entries.length, storagePath, contractIdsPath };
+}
+
+function amountDelta(templateId: string, createArgs: unknown): { amulet: DamlDecimal; locked: DamlDecimal } {
+  const e = { template_id: templateId };
+  const args = createArgs as {
+    amount?: { initialAmount?: unknown };
+    amulet?: { amount?: { initialAmount?: unknown } };
+  } | null;
+  if (isTemplate(e, "Splice.Amulet", "Amulet")) {
+    return { amulet: DamlDecimal.tryFrom(args?.amount?.initialAmount) ?? DamlDecimal.ZERO, locked: DamlDecimal.ZERO };
+  }
+  if (isTemplate(e, "Splice.Amulet", "LockedAmulet")) {
+    return {
+      amulet: DamlDecimal.ZERO,
+      locked: DamlDecimal.tryFrom(args?.amulet?.amount?.initialAmount) ?? DamlDecimal.ZERO,
+    };
+  }
+  return { amulet: DamlDecimal.ZERO, locked: DamlDecimal.ZERO };
+}
+
+async function logSnapshot(supabaseAdmin: SupabaseAdmin, snapshotId: string, level: string, message: string, metadata?: unknown) {
+  const { error } = await supabaseAdmin
+    .from("snapshot_logs")
+    .insert({ snapshot_id: snapshotId, log_level: level, message, metadata: metadata ?? null });
+  if (error) console.warn("⚠️ Failed to write snapshot log:", error.message);
+}
+
 // ------------------------------------
 // Process a batch of ACS events
 // ------------------------------------
@@ -152,20 +260,21 @@ async function processBatch(
   baseUrl: string,
   migration_id: number,
   record_time: string,
-  supabaseAdmin: any,
-  snapshot: any,
+  supabaseAdmin: SupabaseAdmin,
+  snapshot: SnapshotRow,
 ) {
   console.log(`📦 Batch starting at cursor: ${snapshot.cursor_after}`);
 
-  const templatesData: Record<string, any[]> = {};
-  const templateStats: Record<string, { count: number }> = {};
-  const perPackage: Record<string, { amulet: Decimal; locked: Decimal }> = {};
+  const templatesData: Record<string, unknown[]> = {};
+  const templateIds: Record<string, string[]> = {};
 
-  let amuletTotal = new Decimal(snapshot.amulet_total || "0");
-  let lockedTotal = new Decimal(snapshot.locked_total || "0");
+  // Prefer the ::text projections so resumed totals never pass through a float
+  let amuletTotal = DamlDecimal.from(snapshot.amulet_total_text ?? snapshot.amulet_total ?? "0");
+  let lockedTotal = DamlDecimal.from(snapshot.locked_total_text ?? snapshot.locked_total ?? "0");
 
   let after = snapshot.cursor_after;
   let pagesProcessed = 0;
+  let isComplete = false;
   const seen = new Set();
 
   while (pagesProcessed < PAGES_PER_BATCH) {
@@ -185,7 +294,10 @@ async function processBatch(
     const events = data.created_events || [];
     const rangeTo = data.range?.to;
 
-    if (events.length === 0) return { isComplete: true, nextCursor: after };
+    if (events.length === 0) {
+      isComplete = true;
+      break;
+    }
 
     for (const e of events) {
       const id = e.contract_id ?? e.event_id;
@@ -196,20 +308,14 @@ async function processBatch(
       const args = e.create_arguments || {};
 
       templatesData[templateId] ||= [];
-      templateStats[templateId] ||= { count: 0 };
+      templateIds[templateId] ||= [];
 
       templatesData[templateId].push(args);
-      templateStats[templateId].count++;
+      templateIds[templateId].push(id);
 
-      if (isTemplate(e, "Splice.Amulet", "Amulet")) {
-        const val = args?.amount?.initialAmount;
-        if (typeof val === "string") amuletTotal = amuletTotal.plus(new Decimal(val));
-      }
-
-      if (isTemplate(e, "Splice.Amulet", "LockedAmulet")) {
-        const val = args?.amulet?.amount?.initialAmount;
-        if (typeof val === "string") lockedTotal = lockedTotal.plus(new Decimal(val));
-      }
+      const delta = amountDelta(templateId, args);
+      amuletTotal = amuletTotal.add(delta.amulet);
+      lockedTotal = lockedTotal.add(delta.locked);
     }
 
     pagesProcessed++;
@@ -218,37 +324,65 @@ async function processBatch(
     console.log(`📄 Page ${pagesProcessed}/${PAGES_PER_BATCH}`);
   }
 
-  // Upload template data
+  // Append this batch as one more chunk per template; the batch's first page
+  // number keeps chunk names unique across invocations
+  const batchKey = String(snapshot.processed_pages || 0);
   for (const [templateId, entries] of Object.entries(templatesData)) {
-    const filePath = `${snapshot.id}/${templateId.replace(/[:.]/g, "_")}.json`;
-
-    const content = JSON.stringify({ data: entries }, null, 2);
+    const ids = templateIds[templateId];
+    const chunks: Omit<ManifestChunk, "chunkIndex">[] = [];
+    for (let i = 0; i < entries.length; i += ENTRIES_PER_CHUNK) {
+      const key = `${batchKey}_${i / ENTRIES_PER_CHUNK}`;
+      chunks.push(
+        await uploadChunk(
+          supabaseAdmin,
+          snapshot.id,
+          templateId,
+          key,
+          entries.slice(i, i + ENTRIES_PER_CHUNK),
+          ids.slice(i, i + ENTRIES_PER_CHUNK),
+        ),
+      );
+    }
 
-    await retryWithBackoff(
-      () =>
-        supabaseAdmin.storage
-          .from("acs-data")
-          .upload(filePath, new Blob([content], { type: "application/json" }), { upsert: true }),
-      `upload ${templateId}`,
-    );
+    const { data: existing } = await supabaseAdmin
+      .from("acs_template_stats")
+      .select("contract_count, contract_id_checksum, field_sums, status_tallies")
+      .eq("snapshot_id", snapshot.id)
+      .eq("template_id", templateId)
+      .maybeSingle();
+
+    const path = manifestPath(snapshot.id, templateId);
+    const manifest: ChunkManifest = existing
+      ? await downloadJson<ChunkManifest>(supabaseAdmin, path)
+      : { chunks: [], totalEntries: 0, totalChunks: 0 };
+    for (const chunk of chunks) manifest.chunks.push({ chunkIndex: manifest.chunks.length, ...chunk });
+    manifest.totalEntries += entries.length;
+    manifest.totalChunks = manifest.chunks.length;
+    await uploadJson(supabaseAdmin, path, manifest);
+
+    const checksum = await new ContractIdChecksum(existing?.contract_id_checksum).add(ids);
+    const aggregates = new TemplateAggregates(
+      existing?.field_sums as Record<string, string> | null,
+      existing?.status_tallies as Record<string, number> | null,
+    ).add(entries);
 
     await retryWithBackoff(
       () =>
-        supabaseAdmin.from("acs_template_stats").upsert(
-          {
-            snapshot_id: snapshot.id,
-            template_id: templateId,
-            contract_count: templateStats[templateId].count,
-            storage_path: filePath,
-          },
-          { onConflict: "snapshot_id,template_id" },
-        ),
+        upsertTemplateStats(supabaseAdmin, {
+          snapshot_id: snapshot.id,
+          template_id: templateId,
+          contract_count: (existing?.contract_count || 0) + entries.length,
+          storage_path: path,
+          contract_id_checksum: checksum.toString(),
+          field_sums: aggregates.fieldSums(),
+          status_tallies: aggregates.statusTallies(),
+        }),
       `stats ${templateId}`,
     );
   }
 
   // Update snapshot progress
-  const circulating = amuletTotal.minus(lockedTotal);
+  const circulating = amuletTotal.sub(lockedTotal);
 
   await retryWithBackoff(
     () =>
@@ -267,7 +401,370 @@ async function processBatch(
     "snapshot progress",
   );
 
-  return { isComplete: false, nextCursor: after };
+  return { isComplete, nextCursor: after };
+}
+
+/** Writes a template's stats row; throws so retries and callers see a failed write */
+async function upsertTemplateStats(supabaseAdmin: SupabaseAdmin, row: Record<string, unknown>) {
+  const { error } = await supabaseAdmin.from("acs_template_stats").upsert(row, { onConflict: "snapshot_id,template_id" });
+  if (error) throw new Error(`Failed to write template stats: ${error.message}`);
+}
+
+// ------------------------------------
+// Ledger deltas
+// ------------------------------------
+async function latestIngestedRecordTime(supabaseAdmin: SupabaseAdmin, migration_id: number): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from("ledger_updates")
+    .select("record_time")
+    .eq("migration_id", migration_id)
+    .not("record_time", "is", null)
+    .order("record_time", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to read ledger_updates: ${error.message}`);
+  return data?.record_time ?? null;
+}
+
+/**
+ * Loads the created / exercised events of all updates in (fromTime, toTime].
+ * Returns null when the window holds more than MAX_DELTA_EVENTS events.
+ */
+async function loadDeltaEvents(
+  supabaseAdmin: SupabaseAdmin,
+  migration_id: number,
+  fromTime: string,
+  toTime: string,
+): Promise<LedgerDeltaEvent[] | null> {
+  const events: LedgerDeltaEvent[] = [];
+
+  for (let offset = 0; ; offset += UPDATE_PAGE_SIZE) {
+    const { data: updates, error } = await supabaseAdmin
+      .from("ledger_updates")
+      .select("update_id, record_time, migration_id, offset")
+      .eq("migration_id", migration_id)
+      .gt("record_time", fromTime)
+      .lte("record_time", toTime)
+      .order("record_time", { ascending: true })
+      // Updates can share a record time; a unique tiebreaker keeps pages from overlapping
+      .order("update_id", { ascending: true })
+      .range(offset, offset + UPDATE_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to read ledger_updates: ${error.message}`);
+    if (!updates?.length) break;
+
+    type UpdatePosition = { update_id: string; record_time: string; migration_id: number | null; offset: string | null };
+    const positions = new Map<string, UpdatePosition>(updates.map((u: UpdatePosition) => [u.update_id, u]));
+    const ids = Array.from(positions.keys());
+
+    for (let i = 0; i < ids.length; i += EVENT_ID_BATCH) {
+      const { data: rows, error: evError } = await supabaseAdmin
+        .from("ledger_events")
+        .select("update_id, contract_id, template_id, event_type, payload, consuming:raw->consuming")
+        .in("update_id", ids.slice(i, i + EVENT_ID_BATCH))
+        .in("event_type", ["created_event", "exercised_event", "reassign_create"]);
+      if (evError) throw new Error(`Failed to read ledger_events: ${evError.message}`);
+
+      for (const r of rows || []) {
+        const position = positions.get(r.update_id);
+        events.push({
+          ...r,
+          record_time: position?.record_time ?? "",
+          migration_id: position?.migration_id ?? null,
+          offset: position?.offset ?? null,
+        });
+      }
+      if (events.length > MAX_DELTA_EVENTS) return null;
+    }
+
+    if (updates.length < UPDATE_PAGE_SIZE) break;
+  }
+
+  return events;
+}
+
+async function loadTemplateChecksums(supabaseAdmin: SupabaseAdmin, snapshotId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("acs_template_stats")
+    .select("template_id, contract_count, storage_path, contract_id_checksum, field_sums, status_tallies")
+    .eq("snapshot_id", snapshotId);
+  if (error) throw new Error(`Failed to read template stats: ${error.message}`);
+  return (data || []) as Array<
+    TemplateChecksum & {
+      storage_path: string | null;
+      field_sums: Record<string, string> | null;
+      status_tallies: Record<string, number> | null;
+    }
+  >;
+}
+
+/** A snapshot can seed an incremental one only if every template carries a checksum */
+function isIndexed(stats: Array<{ contract_id_checksum: string | null }>) {
+  return stats.length > 0 && stats.every((s) => !!s.contract_id_checksum);
+}
+
+function archivedByTemplate(archived: Map<string, string | null>) {
+  const byTemplate = new Map<string, Set<string>>();
+  for (const [cid, templateId] of archived) {
+    if (!templateId) continue;
+    const set = byTemplate.get(templateId) ?? new Set<string>();
+    set.add(cid);
+    byTemplate.set(templateId, set);
+  }
+  return byTemplate;
+}
+
+// ------------------------------------
+// Incremental snapshot
+// ------------------------------------
+async function runIncremental(
+  supabaseAdmin: SupabaseAdmin,
+  snapshot: SnapshotRow,
+  base: SnapshotRow,
+  events: LedgerDeltaEvent[],
+) {
+  const delta = foldLedgerEvents(events);
+  const archived = archivedByTemplate(delta.archived);
+  const baseStats = await loadTemplateChecksums(supabaseAdmin, base.id);
+  const baseByTemplate = new Map(baseStats.map((s) => [s.template_id, s]));
+
+  let amuletTotal = DamlDecimal.from(base.amulet_total_text ?? "0");
+  let lockedTotal = DamlDecimal.from(base.locked_total_text ?? "0");
+  let unmatchedArchives = 0;
+  let rewrittenChunks = 0;
+
+  const templates = new Set<string>([...baseByTemplate.keys(), ...delta.created.keys()]);
+
+  for (const templateId of templates) {
+    const baseStat = baseByTemplate.get(templateId);
+    const created = delta.created.get(templateId) ?? new Map<string, unknown>();
+    const toArchive = archived.get(templateId) ?? new Set<string>();
+
+    // Untouched template: point at the previous snapshot's manifest
+    if (baseStat && created.size === 0 && toArchive.size === 0) {
+      await upsertTemplateStats(supabaseAdmin, {
+        snapshot_id: snapshot.id,
+        template_id: templateId,
+        contract_count: baseStat.contract_count,
+        storage_path: baseStat.storage_path,
+        contract_id_checksum: baseStat.contract_id_checksum,
+        field_sums: baseStat.field_sums,
+        status_tallies: baseStat.status_tallies,
+      });
+      continue;
+    }
+
+    const checksum = new ContractIdChecksum(baseStat?.contract_id_checksum);
+    const aggregates = new TemplateAggregates(baseStat?.field_sums, baseStat?.status_tallies);
+    // A base without figures (older snapshots, or a template with neither
+    // Numerics nor a status) is summed again from its kept entries
+    const recount = !!baseStat && baseStat.contract_count > 0 && !baseStat.field_sums && !baseStat.status_tallies;
+    const chunks: Omit<ManifestChunk, "chunkIndex">[] = [];
+    let count = 0;
+
+    if (baseStat?.storage_path) {
+      const baseManifest = await downloadJson<ChunkManifest>(supabaseAdmin, baseStat.storage_path);
+      for (const [i, chunk] of baseManifest.chunks.entries()) {
+        const keepChunk = async () => {
+          chunks.push(chunk);
+          count += chunk.contractCount;
+          if (recount) aggregates.add(await downloadJson<unknown[]>(supabaseAdmin, chunk.storagePath));
+        };
+        if (toArchive.size === 0) {
+          await keepChunk();
+          continue;
+        }
+        if (!chunk.contractIdsPath) throw new Error(`Chunk ${chunk.storagePath} has no contract id index`);
+
+        const ids = await downloadJson<string[]>(supabaseAdmin, chunk.contractIdsPath);
+        if (!ids.some((id) => toArchive.has(id))) {
+          await keepChunk();
+          continue;
+        }
+
+        // Rewrite the chunk without the archived contracts
+        const entries = await downloadJson<unknown[]>(supabaseAdmin, chunk.storagePath);
+        const keptEntries: unknown[] = [];
+        const keptIds: string[] = [];
+        const removedIds: string[] = [];
+        const removedEntries: unknown[] = [];
+        ids.forEach((id, idx) => {
+          if (!toArchive.has(id)) {
+            keptEntries.push(entries[idx]);
+            keptIds.push(id);
+            return;
+          }
+          removedIds.push(id);
+          removedEntries.push(entries[idx]);
+          toArchive.delete(id);
+          const removed = amountDelta(templateId, entries[idx]);
+          amuletTotal = amuletTotal.sub(removed.amulet);
+          lockedTotal = lockedTotal.sub(removed.locked);
+        });
+        await checksum.remove(removedIds);
+        if (recount) aggregates.add(keptEntries);
+        else aggregates.remove(removedEntries);
+
+        if (keptEntries.length > 0) {
+          chunks.push(await uploadChunk(supabaseAdmin, snapshot.id, templateId, `r${i}`, keptEntries, keptIds));
+          count += keptEntries.length;
+        }
+        rewrittenChunks++;
+      }
+    }
+
+    // Archived ids that were in neither the base nor this window
+    if (toArchive.size > 0) {
+      unmatchedArchives += toArchive.size;
+      await logSnapshot(supabaseAdmin, snapshot.id, "warning", `${toArchive.size} archived contracts not found in base`, {
+        template_id: templateId,
+        sample: Array.from(toArchive).slice(0, 5),
+      });
+    }
+
+    // New contracts go into fresh chunks
+    const createdIds = Array.from(created.keys());
+    for (let i = 0; i < createdIds.length; i += ENTRIES_PER_CHUNK) {
+      const ids = createdIds.slice(i, i + ENTRIES_PER_CHUNK);
+      const entries = ids.map((id) => created.get(id));
+      chunks.push(await uploadChunk(supabaseAdmin, snapshot.id, templateId, `d${i / ENTRIES_PER_CHUNK}`, entries, ids));
+      aggregates.add(entries);
+      for (const args of entries) {
+        const added = amountDelta(templateId, args);
+        amuletTotal = amuletTotal.add(added.amulet);
+        lockedTotal = lockedTotal.add(added.locked);
+      }
+      count += ids.length;
+    }
+    await checksum.add(createdIds);
+
+    const path = manifestPath(snapshot.id, templateId);
+    await uploadJson(supabaseAdmin, path, {
+      chunks: chunks.map((c, chunkIndex) => ({ ...c, chunkIndex })),
+      totalEntries: count,
+      totalChunks: chunks.length,
+    });
+
+    await retryWithBackoff(
+      () =>
+        upsertTemplateStats(supabaseAdmin, {
+          snapshot_id: snapshot.id,
+          template_id: templateId,
+          contract_count: count,
+          storage_path: path,
+          contract_id_checksum: checksum.toString(),
+          field_sums: aggregates.fieldSums(),
+          status_tallies: aggregates.statusTallies(),
+        }),
+      `stats ${templateId}`,
+    );
+  }
+
+  await supabaseAdmin
+    .from("acs_snapshots")
+    .update({
+      amulet_total: amuletTotal.toString(),
+      locked_total: lockedTotal.toString(),
+      circulating_supply: amuletTotal.sub(lockedTotal).toString(),
+      processed_events: delta.eventsApplied,
+      last_batch_info: {
+        base_snapshot_id: base.id,
+        base_record_time: base.record_time,
+        delta_events: events.length,
+        rewritten_chunks: rewrittenChunks,
+        unmatched_archives: unmatchedArchives,
+      },
+      status: "completed",
+      completed_at: new Date().toISOString(),
+      last_progress_update: new Date().toISOString(),
+    })
+    .eq("id", snapshot.id);
+
+  return { eventsApplied: delta.eventsApplied, unmatchedArchives, rewrittenChunks };
+}
+
+// ------------------------------------
+// Verification of the delta path against a full pull
+// ------------------------------------
+async function verifyFullSnapshot(supabaseAdmin: SupabaseAdmin, snapshot: SnapshotRow) {
+  if (!snapshot.previous_snapshot_id) return null;
+
+  const { data: base } = await supabaseAdmin
+    .from("acs_snapshots")
+    .select("id, record_time")
+    .eq("id", snapshot.previous_snapshot_id)
+    .maybeSingle();
+  if (!base) return null;
+
+  const baseStats = await loadTemplateChecksums(supabaseAdmin, base.id);
+  if (!isIndexed(baseStats)) return null;
+
+  const events = await loadDeltaEvents(supabaseAdmin, snapshot.migration_id, base.record_time, snapshot.record_time);
+  if (!events) {
+    const verification = { base_snapshot_id: base.id, checked_at: new Date().toISOString(), skipped: "delta too large" };
+    await supabaseAdmin.from("acs_snapshots").update({ verification }).eq("id", snapshot.id);
+    return verification;
+  }
+
+  // What the incremental path would have produced for this record_time
+  const delta = foldLedgerEvents(events);
+  const archived = archivedByTemplate(delta.archived);
+  const derived: TemplateChecksum[] = [];
+  const templates = new Set<string>([...baseStats.map((s) => s.template_id), ...delta.created.keys()]);
+  for (const templateId of templates) {
+    const baseStat = baseStats.find((s) => s.template_id === templateId);
+    const created = Array.from(delta.created.get(templateId)?.keys() ?? []);
+    const removed = Array.from(archived.get(templateId) ?? []);
+    const checksum = await new ContractIdChecksum(baseStat?.contract_id_checksum).remove(removed);
+    await checksum.add(created);
+    derived.push({
+      template_id: templateId,
+      contract_count: (baseStat?.contract_count ?? 0) - removed.length + created.length,
+      contract_id_checksum: checksum.toString(),
+    });
+  }
+
+  const full = await loadTemplateChecksums(supabaseAdmin, snapshot.id);
+  const mismatches = compareChecksums(full, derived);
+  const verification = {
+    base_snapshot_id: base.id,
+    checked_at: new Date().toISOString(),
+    delta_events: events.length,
+    templates_checked: full.length,
+    ok: mismatches.length === 0,
+    mismatches: mismatches.slice(0, 50),
+  };
+
+  await supabaseAdmin.from("acs_snapshots").update({ verification }).eq("id", snapshot.id);
+  await logSnapshot(
+    supabaseAdmin,
+    snapshot.id,
+    verification.ok ? "info" : "error",
+    verification.ok
+      ? `Delta verification passed for ${full.length} templates`
+      : `Delta verification found ${mismatches.length} mismatching templates`,
+    verification,
+  );
+  return verification;
+}
+
+async function incrementalRunsSinceFull(supabaseAdmin: SupabaseAdmin, migration_id: number): Promise<number> {
+  const { data } = await supabaseAdmin
+    .from("acs_snapshots")
+    .select("processing_mode")
+    .eq("migration_id", migration_id)
+    .eq("status", "completed")
+    .order("completed_at", { ascending: false })
+    .limit(FULL_SNAPSHOT_EVERY);
+  const rows = data || [];
+  const firstFull = rows.findIndex((r: { processing_mode: string | null }) => r.processing_mode !== "incremental");
+  return firstFull === -1 ? rows.length : firstFull;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
 }
 
 // ------------------------------------
@@ -283,6 +780,7 @@ Deno.serve(async (req) => {
   try {
     const body = await req.json().catch(() => ({}));
     const snapshotId = body.snapshot_id;
+    const requestedMode: "full" | "incremental" | undefined = body.mode;
 
     let snapshot;
 
@@ -290,7 +788,11 @@ Deno.serve(async (req) => {
     // If snapshot_id specified → resume
     // ---------------------------------------
     if (snapshotId) {
-      const { data, error } = await supabaseAdmin.from("acs_snapshots").select("*").eq("id", snapshotId).single();
+      const { data, error } = await supabaseAdmin
+        .from("acs_snapshots")
+        .select("*, amulet_total_text:amulet_total::text, locked_total_text:locked_total::text")
+        .eq("id", snapshotId)
+        .single();
 
       if (error || !data) throw new Error("Snapshot not found");
       snapshot = data;
@@ -301,10 +803,76 @@ Deno.serve(async (req) => {
     // ---------------------------------------
     if (!snapshotId) {
       const migration_id = await detectLatestMigration(BASE_URL);
-      const record_time = await fetchSnapshotTimestamp(BASE_URL, migration_id);
-
       const previous = await getPreviousSnapshot(supabaseAdmin, migration_id);
 
+      // ---------- incremental ----------
+      let incremental: { base: SnapshotRow; record_time: string; events: LedgerDeltaEvent[] } | null = null;
+      if (previous && requestedMode !== "full") {
+        const dueForFull = (await incrementalRunsSinceFull(supabaseAdmin, migration_id)) >= FULL_SNAPSHOT_EVERY - 1;
+        const indexed = isIndexed(await loadTemplateChecksums(supabaseAdmin, previous.id));
+        const head = await latestIngestedRecordTime(supabaseAdmin, migration_id);
+
+        if (indexed && head && (requestedMode === "incremental" || !dueForFull)) {
+          if (head <= previous.record_time) {
+            return json({ message: "No new ledger updates since previous snapshot", snapshot_id: previous.id });
+          }
+          const events = await loadDeltaEvents(supabaseAdmin, migration_id, previous.record_time, head);
+          if (events) incremental = { base: previous, record_time: head, events };
+        }
+
+        if (!incremental && requestedMode === "incremental") {
+          throw new Error(
+            indexed ? "Delta since previous snapshot is too large for incremental mode" : "Previous snapshot has no contract id index",
+          );
+        }
+      }
+
+      if (incremental) {
+        const { data, error } = await supabaseAdmin
+          .from("acs_snapshots")
+          .insert({
+            sv_url: BASE_URL,
+            migration_id,
+            record_time: incremental.record_time,
+            cursor_after: 0,
+            processed_pages: 0,
+            processed_events: 0,
+            amulet_total: "0",
+            locked_total: "0",
+            circulating_supply: "0",
+            status: "processing",
+            previous_snapshot_id: previous.id,
+            is_delta: true,
+            processing_mode: "incremental",
+            page_size: PAGE_SIZE,
+          })
+          .select()
+          .single();
+
+        if (error || !data) throw new Error("Failed to create snapshot");
+        snapshot = data;
+
+        try {
+          const result = await runIncremental(supabaseAdmin, snapshot, incremental.base, incremental.events);
+          return json({
+            message: "Incremental snapshot completed",
+            snapshot_id: snapshot.id,
+            processing_mode: "incremental",
+            previous_snapshot_id: previous.id,
+            ...result,
+          });
+        } catch (err) {
+          await supabaseAdmin
+            .from("acs_snapshots")
+            .update({ status: "failed", error_message: err instanceof Error ? err.message : String(err) })
+            .eq("id", snapshot.id);
+          throw err;
+        }
+      }
+
+      // ---------- full ----------
+      const record_time = await fetchSnapshotTimestamp(BASE_URL, migration_id);
+
       const { data, error } = await supabaseAdmin
         .from("acs_snapshots")
         .insert({
@@ -319,8 +887,8 @@ Deno.serve(async (req) => {
           circulating_supply: "0",
           status: "processing",
           previous_snapshot_id: previous?.id ?? null,
-          is_delta: previous ? true : false,
-          processing_mode: previous ? "delta" : "full",
+          is_delta: false,
+          processing_mode: "full",
           page_size: PAGE_SIZE,
         })
         .select()
@@ -332,15 +900,12 @@ Deno.serve(async (req) => {
       // Kick off first batch asynchronously
       supabaseAdmin.functions.invoke("fetch-acs-snapshot", { body: { snapshot_id: snapshot.id } }).catch(console.error);
 
-      return new Response(
-        JSON.stringify({
-          message: "Snapshot started",
-          snapshot_id: snapshot.id,
-          processing_mode: snapshot.processing_mode,
-          previous_snapshot_id: snapshot.previous_snapshot_id,
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
+      return json({
+        message: "Snapshot started",
+        snapshot_id: snapshot.id,
+        processing_mode: snapshot.processing_mode,
+        previous_snapshot_id: snapshot.previous_snapshot_id,
+      });
     }
 
     // ---------------------------------------
@@ -363,9 +928,13 @@ Deno.serve(async (req) => {
         })
         .eq("id", snapshot.id);
 
-      return new Response(JSON.stringify({ message: "Snapshot completed", snapshot_id: snapshot.id }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      // A verification failure must not fail the (authoritative) full snapshot
+      const verification = await verifyFullSnapshot(supabaseAdmin, snapshot).catch((err) => {
+        console.warn("⚠️ Delta verification failed to run:", err.message);
+        return null;
       });
+
+      return json({ message: "Snapshot completed", snapshot_id: snapshot.id, verification });
     }
 
     // Continue to next batch
@@ -373,18 +942,12 @@ Deno.serve(async (req) => {
       body: { snapshot_id: snapshot.id },
     });
 
-    return new Response(
-      JSON.stringify({
-        message: "Batch processed",
-        snapshot_id: snapshot.id,
-        cursor: nextCursor,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    );
-  } catch (err: any) {
-    return new Response(JSON.stringify({ error: err.message }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    return json({
+      message: "Batch processed",
+      snapshot_id: snapshot.id,
+      cursor: nextCursor,
     });
+  } catch (err: any) {
+    return json({ error: err.message }, 500);
   }
 });
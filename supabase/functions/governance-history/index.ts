@@ -0,0 +1,161 @@
+/*
+ * governance-history
+ * ------------------
+ * Rebuilds governance_proposals and governance_vote_events from
+ * ledger_events: every VoteRequest version, every cast / changed vote and the
+ * DsoRules_CloseVoteRequest outcome with the choices the action executed.
+ * See _shared/governance-history.ts for the reconstruction.
+ *
+ * The rebuild covers the whole ingested history on every run, so proposals
+ * whose events arrive late through the backfill end up complete as well.
+ *
+ * Body: {} (no options)
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildGovernanceHistory,
+  CLOSE_VOTE_REQUEST_CHOICE,
+  type GovernanceEventRow,
+} from "../_shared/governance-history.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PAGE_SIZE = 1000;
+const UPSERT_BATCH = 500;
+const UPDATE_ID_BATCH = 100;
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+const EVENT_COLUMNS =
+  "event_id, update_id, contract_id, template_id, event_type, payload, raw, ledger_updates!inner(record_time, migration_id)";
+
+interface EventQueryRow extends Omit<GovernanceEventRow, "record_time" | "migration_id"> {
+  ledger_updates: { record_time: string | null; migration_id: number | null } | null;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function toEventRow(row: EventQueryRow): GovernanceEventRow {
+  const { ledger_updates: update, ...event } = row;
+  return { ...event, record_time: update?.record_time ?? "", migration_id: update?.migration_id ?? null };
+}
+
+// ------------------------------------
+// Loading
+// ------------------------------------
+async function loadAll(
+  build: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>,
+): Promise<GovernanceEventRow[]> {
+  const rows: GovernanceEventRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    const page = (data || []) as EventQueryRow[];
+    rows.push(...page.map(toEventRow));
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+function loadVoteRequestCreates(supabase: SupabaseAdmin) {
+  return loadAll((from, to) =>
+    supabase
+      .from("ledger_events")
+      .select(EVENT_COLUMNS)
+      .like("template_id", "%:VoteRequest")
+      .in("event_type", ["created_event", "reassign_create"])
+      .order("event_id")
+      .range(from, to),
+  );
+}
+
+function loadCloses(supabase: SupabaseAdmin) {
+  return loadAll((from, to) =>
+    supabase
+      .from("ledger_events")
+      .select(EVENT_COLUMNS)
+      .eq("event_type", "exercised_event")
+      .eq("raw->>choice", CLOSE_VOTE_REQUEST_CHOICE)
+      .order("event_id")
+      .range(from, to),
+  );
+}
+
+async function loadExercisesOf(supabase: SupabaseAdmin, updateIds: string[]): Promise<GovernanceEventRow[]> {
+  const rows: GovernanceEventRow[] = [];
+  for (let i = 0; i < updateIds.length; i += UPDATE_ID_BATCH) {
+    const batch = updateIds.slice(i, i + UPDATE_ID_BATCH);
+    rows.push(
+      ...(await loadAll((from, to) =>
+        supabase
+          .from("ledger_events")
+          .select(EVENT_COLUMNS)
+          .in("update_id", batch)
+          .eq("event_type", "exercised_event")
+          .order("event_id")
+          .range(from, to),
+      )),
+    );
+  }
+  return rows;
+}
+
+async function upsertAll(supabase: SupabaseAdmin, table: string, key: string, rows: Record<string, unknown>[]) {
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH) {
+    const { error } = await supabase.from(table).upsert(rows.slice(i, i + UPSERT_BATCH), { onConflict: key });
+    if (error) throw error;
+  }
+}
+
+// ------------------------------------
+// Handler
+// ------------------------------------
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+
+    const [creates, closes] = await Promise.all([loadVoteRequestCreates(supabase), loadCloses(supabase)]);
+    const closeUpdates = Array.from(new Set(closes.map((c) => c.update_id)));
+    const closeUpdateEvents = await loadExercisesOf(supabase, closeUpdates);
+
+    const history = buildGovernanceHistory(creates, closes, closeUpdateEvents);
+    const syncedAt = new Date().toISOString();
+
+    await upsertAll(
+      supabase,
+      "governance_proposals",
+      "proposal_id",
+      history.proposals.map((p) => ({ ...p, synced_at: syncedAt })),
+    );
+    await upsertAll(supabase, "governance_vote_events", "id", history.votes as unknown as Record<string, unknown>[]);
+
+    if (history.skipped.length > 0) {
+      console.warn(`governance-history: skipped ${history.skipped.length} event(s)`, history.skipped.slice(0, 10));
+    }
+
+    return json({
+      proposals: history.proposals.length,
+      open: history.proposals.filter((p) => p.status === "open").length,
+      vote_events: history.votes.length,
+      vote_request_versions: creates.length,
+      closes: closes.length,
+      skipped: history.skipped.length,
+      synced_at: syncedAt,
+    });
+  } catch (e) {
+    console.error("governance-history error", e);
+    return json({ error: (e as Error)?.message ?? "Internal server error" }, 500);
+  }
+});
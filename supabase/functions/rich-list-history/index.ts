@@ -0,0 +1,228 @@
+/*
+ * rich-list-history
+ * -----------------
+ * Ranks holders in one completed ACS snapshot per run: balances after
+ * holding fees, split into unlocked and locked (see _shared/rich-list.ts),
+ * the RANK_DEPTH largest kept in rich_list_holders and the concentration
+ * metrics over all holders in rich_list_snapshots. Run repeatedly, it walks
+ * the snapshot chain oldest first and fills in every snapshot not ranked yet.
+ *
+ * Body: { snapshot_id?: string }  rank (or re-rank) that snapshot instead
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DamlDecimal } from "../_shared/daml-decimal.ts";
+import { decodeContracts } from "../_shared/splice-decoders.ts";
+import { concentration, holderBalances, RANK_DEPTH, snapshotRound } from "../_shared/rich-list.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DOWNLOAD_CONCURRENCY = 6;
+const INSERT_BATCH = 500;
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+interface SnapshotRow {
+  id: string;
+  record_time: string;
+  migration_id: number;
+}
+
+/** Manifests list their chunks as `chunks` ({ path } or { storagePath }) or `chunk_paths` */
+interface ChunkManifest {
+  chunks?: Array<{ path?: string; storagePath?: string }>;
+  chunk_paths?: string[];
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ------------------------------------
+// Storage
+// ------------------------------------
+async function downloadJson<T>(supabase: SupabaseAdmin, path: string): Promise<T | null> {
+  const { data, error } = await supabase.storage.from("acs-data").download(path);
+  if (error || !data) return null;
+  try {
+    return JSON.parse(await data.text()) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function inBatches<T, R>(items: T[], size: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += size) {
+    results.push(...(await Promise.all(items.slice(i, i + size).map(fn))));
+  }
+  return results;
+}
+
+/** Every stored contract of the templates ending in `suffix`, any package */
+async function loadTemplateEntries(supabase: SupabaseAdmin, snapshotId: string, suffix: string): Promise<unknown[]> {
+  // Template ids use either ":" or "." between the module path segments
+  const firstColon = suffix.indexOf(":");
+  const dotVariant = suffix.slice(0, firstColon) + "." + suffix.slice(firstColon + 1);
+  const { data: stats, error } = await supabase
+    .from("acs_template_stats")
+    .select("template_id, storage_path")
+    .eq("snapshot_id", snapshotId)
+    .or(`template_id.like.%:${suffix},template_id.like.%:${dotVariant}`);
+  if (error) throw error;
+
+  const entries: unknown[] = [];
+  for (const t of (stats || []) as Array<{ template_id: string; storage_path: string | null }>) {
+    if (!t.storage_path) continue;
+    const parsed = await downloadJson<unknown[] | ChunkManifest>(supabase, t.storage_path);
+    if (Array.isArray(parsed)) {
+      for (const e of parsed) entries.push(e);
+      continue;
+    }
+
+    const manifestDir = t.storage_path.substring(0, t.storage_path.lastIndexOf("/") + 1);
+    const paths: string[] = [
+      ...(Array.isArray(parsed?.chunks) ? parsed.chunks.map((c) => c.path || c.storagePath) : []),
+      ...(Array.isArray(parsed?.chunk_paths) ? parsed.chunk_paths : []),
+    ]
+      .filter((p: string | undefined): p is string => !!p)
+      .map((p) => (p.includes("/") ? p : manifestDir + p));
+
+    const chunks = await inBatches([...new Set(paths)], DOWNLOAD_CONCURRENCY, (p) => downloadJson<unknown[]>(supabase, p));
+    for (const chunk of chunks) {
+      if (!Array.isArray(chunk)) continue;
+      for (const e of chunk) entries.push(e);
+    }
+  }
+  return entries;
+}
+
+// ------------------------------------
+// Snapshots
+// ------------------------------------
+async function completedSnapshots(supabase: SupabaseAdmin): Promise<SnapshotRow[]> {
+  const { data, error } = await supabase
+    .from("acs_snapshots")
+    .select("id, record_time, migration_id")
+    .eq("status", "completed")
+    .order("record_time", { ascending: true });
+  if (error) throw error;
+  return (data || []) as SnapshotRow[];
+}
+
+async function rankedSnapshotIds(supabase: SupabaseAdmin): Promise<Set<string>> {
+  const { data, error } = await supabase.from("rich_list_snapshots").select("snapshot_id");
+  if (error) throw error;
+  return new Set(((data || []) as Array<{ snapshot_id: string }>).map((r) => r.snapshot_id));
+}
+
+async function rankSnapshot(supabase: SupabaseAdmin, snapshot: SnapshotRow) {
+  const [amuletEntries, lockedEntries, roundEntries] = await Promise.all([
+    loadTemplateEntries(supabase, snapshot.id, "Splice:Amulet:Amulet"),
+    loadTemplateEntries(supabase, snapshot.id, "Splice:Amulet:LockedAmulet"),
+    loadTemplateEntries(supabase, snapshot.id, "Splice:Round:OpenMiningRound"),
+  ]);
+  const amulets = decodeContracts("Splice:Amulet:Amulet", amuletEntries);
+  const locked = decodeContracts("Splice:Amulet:LockedAmulet", lockedEntries);
+  const rounds = decodeContracts("Splice:Round:OpenMiningRound", roundEntries);
+
+  const round = snapshotRound(snapshot.record_time, rounds.values, amulets.values, locked.values);
+  if (round === null) throw new Error(`Snapshot ${snapshot.id} has no amulets to rank`);
+
+  const balances = holderBalances(amulets.values, locked.values, round);
+  const metrics = concentration(balances.map((b) => b.total));
+
+  const { error: snapshotError } = await supabase.from("rich_list_snapshots").upsert(
+    {
+      snapshot_id: snapshot.id,
+      record_time: snapshot.record_time,
+      migration_id: snapshot.migration_id,
+      as_of_round: round,
+      holders: metrics.holders,
+      total: metrics.total.toString(),
+      locked: DamlDecimal.sum(balances.map((b) => b.locked)).toString(),
+      nominal_total: DamlDecimal.sum(balances.map((b) => b.nominal)).toString(),
+      gini: metrics.gini,
+      top10_share: metrics.top10Share,
+      top100_share: metrics.top100Share,
+      nakamoto_coefficient: metrics.nakamoto,
+      computed_at: new Date().toISOString(),
+    },
+    { onConflict: "snapshot_id" },
+  );
+  if (snapshotError) throw snapshotError;
+
+  // Re-ranking replaces the previous ranks outright
+  const { error: deleteError } = await supabase.from("rich_list_holders").delete().eq("snapshot_id", snapshot.id);
+  if (deleteError) throw deleteError;
+  const rows = balances.slice(0, RANK_DEPTH).map((b, i) => ({
+    snapshot_id: snapshot.id,
+    owner: b.owner,
+    rank: i + 1,
+    unlocked: b.unlocked.toString(),
+    locked: b.locked.toString(),
+    total: b.total.toString(),
+    nominal_total: b.nominal.toString(),
+  }));
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    const { error } = await supabase.from("rich_list_holders").insert(rows.slice(i, i + INSERT_BATCH));
+    if (error) throw error;
+  }
+
+  return {
+    round,
+    holders: metrics.holders,
+    decodeFailures: amulets.failures.length + locked.failures.length,
+  };
+}
+
+// ------------------------------------
+// Handler
+// ------------------------------------
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+    const body = await req.json().catch(() => ({}));
+
+    const snapshots = await completedSnapshots(supabase);
+    let pending: SnapshotRow[];
+    if (body?.snapshot_id) {
+      const requested = snapshots.find((s) => s.id === body.snapshot_id);
+      if (!requested) return json({ error: `No completed snapshot ${body.snapshot_id}` }, 400);
+      pending = [requested];
+    } else {
+      const ranked = await rankedSnapshotIds(supabase);
+      pending = snapshots.filter((s) => !ranked.has(s.id));
+    }
+
+    const [snapshot] = pending;
+    if (!snapshot) return json({ snapshot_id: null, more: false });
+
+    const result = await rankSnapshot(supabase, snapshot);
+    if (result.decodeFailures > 0) {
+      console.warn(`rich-list-history: ${result.decodeFailures} contract(s) of ${snapshot.id} failed to decode`);
+    }
+
+    return json({
+      snapshot_id: snapshot.id,
+      record_time: snapshot.record_time,
+      as_of_round: result.round,
+      holders: result.holders,
+      decode_failures: result.decodeFailures,
+      more: !body?.snapshot_id && pending.length > 1,
+    });
+  } catch (e) {
+    console.error("rich-list-history error", e);
+    return json({ error: (e as Error)?.message ?? "Internal server error" }, 500);
+  }
+});
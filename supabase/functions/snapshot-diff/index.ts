@@ -0,0 +1,173 @@
+/*
+ * snapshot-diff
+ * -------------
+ * Compares two ACS snapshots. Per template: contracts created / archived,
+ * field_sums and status_tallies changes. When both snapshots carry contract
+ * id files next to their chunks, created / archived are exact and the added
+ * and removed contract ids are listed (up to `max_ids` per side).
+ *
+ * Templates whose contract id checksum and count match are skipped without
+ * touching storage.
+ *
+ * Body: { from_snapshot_id, to_snapshot_id, template_id?, include_contract_ids? = true, max_ids? = 500 }
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  diffContractIds,
+  diffTemplateStats,
+  hasChanges,
+  isUnchanged,
+  summarizeDiff,
+  withContractDiff,
+  type SnapshotDiff,
+  type TemplateDiff,
+  type TemplateStatsLike,
+} from "../_shared/acs-diff.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_MAX_IDS = 500;
+const MAX_MAX_IDS = 10_000;
+const DOWNLOAD_CONCURRENCY = 6;
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+type StatsRow = TemplateStatsLike & { storage_path: string | null };
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ------------------------------------
+// Storage
+// ------------------------------------
+async function downloadJson<T>(supabase: SupabaseAdmin, path: string): Promise<T | null> {
+  const { data, error } = await supabase.storage.from("acs-data").download(path);
+  if (error || !data) return null;
+  try {
+    return JSON.parse(await data.text()) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function inBatches<T, R>(items: T[], size: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += size) {
+    results.push(...(await Promise.all(items.slice(i, i + size).map(fn))));
+  }
+  return results;
+}
+
+/**
+ * All contract ids of a template in a snapshot, or null when its chunks
+ * have no contract id files (e.g. uploaded through upload-acs-data).
+ */
+async function loadContractIds(supabase: SupabaseAdmin, stats: StatsRow): Promise<string[] | null> {
+  if (!stats.storage_path) return null;
+  const manifest = await downloadJson<{ chunks?: Array<{ contractIdsPath?: string }> }>(supabase, stats.storage_path);
+  const chunks = manifest?.chunks;
+  if (!Array.isArray(chunks) || chunks.some((c) => !c.contractIdsPath)) return null;
+
+  const parts = await inBatches(chunks, DOWNLOAD_CONCURRENCY, (c) =>
+    downloadJson<string[]>(supabase, c.contractIdsPath!),
+  );
+  if (parts.some((p) => !Array.isArray(p))) return null;
+  return parts.flat();
+}
+
+async function loadSnapshot(supabase: SupabaseAdmin, id: string) {
+  const { data, error } = await supabase
+    .from("acs_snapshots")
+    .select("id, record_time, status")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error(`Snapshot ${id} not found`);
+  return data as { id: string; record_time: string; status: string };
+}
+
+async function loadStats(supabase: SupabaseAdmin, snapshotId: string, templateId?: string): Promise<StatsRow[]> {
+  let query = supabase
+    .from("acs_template_stats")
+    .select("template_id, contract_count, field_sums, status_tallies, contract_id_checksum, storage_path")
+    .eq("snapshot_id", snapshotId);
+  if (templateId) query = query.eq("template_id", templateId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as StatsRow[];
+}
+
+// ------------------------------------
+// Main server function
+// ------------------------------------
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { from_snapshot_id, to_snapshot_id, template_id, include_contract_ids = true } = body;
+    const maxIds = Math.min(Math.max(0, Number(body.max_ids ?? DEFAULT_MAX_IDS)), MAX_MAX_IDS);
+
+    if (!from_snapshot_id || !to_snapshot_id) {
+      return json({ error: "from_snapshot_id and to_snapshot_id are required" }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+
+    const [from, to] = await Promise.all([
+      loadSnapshot(supabase, from_snapshot_id),
+      loadSnapshot(supabase, to_snapshot_id),
+    ]);
+    const [fromStats, toStats] = await Promise.all([
+      loadStats(supabase, from.id, template_id),
+      loadStats(supabase, to.id, template_id),
+    ]);
+
+    const fromByTemplate = new Map(fromStats.map((s) => [s.template_id, s]));
+    const toByTemplate = new Map(toStats.map((s) => [s.template_id, s]));
+    const templateIds = Array.from(new Set([...fromByTemplate.keys(), ...toByTemplate.keys()])).sort();
+
+    const templates: TemplateDiff[] = [];
+    for (const id of templateIds) {
+      const a = fromByTemplate.get(id) ?? null;
+      const b = toByTemplate.get(id) ?? null;
+      if (a && b && isUnchanged(a, b)) continue;
+
+      let diff = diffTemplateStats(a, b);
+
+      if (include_contract_ids) {
+        const [fromIds, toIds] = await Promise.all([
+          a ? loadContractIds(supabase, a) : Promise.resolve([] as string[]),
+          b ? loadContractIds(supabase, b) : Promise.resolve([] as string[]),
+        ]);
+        if (fromIds && toIds) diff = withContractDiff(diff, diffContractIds(fromIds, toIds, maxIds));
+      }
+
+      if (hasChanges(diff)) templates.push(diff);
+    }
+
+    templates.sort((x, y) => y.created + y.archived - (x.created + x.archived));
+
+    const result: SnapshotDiff = {
+      from: { id: from.id, record_time: from.record_time },
+      to: { id: to.id, record_time: to.record_time },
+      templates,
+      totals: summarizeDiff(templates),
+    };
+
+    return json(result);
+  } catch (e) {
+    console.error("snapshot-diff error", e);
+    return json({ error: (e as Error)?.message ?? "Internal server error" }, 500);
+  }
+});
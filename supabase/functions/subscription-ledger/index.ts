@@ -0,0 +1,149 @@
+/*
+ * subscription-ledger
+ * -------------------
+ * Feeds subscription_contracts incrementally from ledger_events, one cursor
+ * per subscription template (see _shared/ledger-sync.ts). Collected payments
+ * are priced from the rest of their transaction. The subscription_ledger
+ * view on top of the table gives each subscription's status, payments and
+ * next due date.
+ * See _shared/subscription-ledger.ts for how events map to rows.
+ *
+ * Body: { reset?: boolean }  reset restarts all streams from the beginning
+ */
+
+import {
+  createAdminClient,
+  resetCursors,
+  runStream,
+  settledBefore,
+  upsertAll,
+  upsertCreatesAndCloses,
+  type StreamResult,
+  type StreamSpec,
+  type SupabaseAdmin,
+} from "../_shared/ledger-sync.ts";
+import {
+  collectedPayment,
+  isCollectChoice,
+  parseSubscriptionContracts,
+  SUBSCRIPTION_TEMPLATES,
+  type CollectedAmount,
+  type SubscriptionContractClose,
+  type SubscriptionContractKind,
+  type TreeEvent,
+} from "../_shared/subscription-ledger.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const KINDS: SubscriptionContractKind[] = ["initial_payment", "payment", "idle"];
+
+const streamOf = (kind: SubscriptionContractKind): StreamSpec => ({
+  name: `subscription-ledger:${kind.replace("_", "-")}`,
+  template: SUBSCRIPTION_TEMPLATES[kind],
+});
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** Prices the collects among `closes` from the events of their transactions */
+async function collectedAmounts(supabase: SupabaseAdmin, closes: SubscriptionContractClose[]): Promise<CollectedAmount[]> {
+  const collects = closes.filter((c) => isCollectChoice(c.archive_choice));
+  const updateIds = [...new Set(collects.map((c) => c.archive_update_id))];
+  const trees = new Map<string, Record<string, TreeEvent>>();
+  for (let i = 0; i < updateIds.length; i += 100) {
+    const { data, error } = await supabase
+      .from("ledger_events")
+      .select("event_id, update_id, contract_id, event_type, raw")
+      .in("update_id", updateIds.slice(i, i + 100));
+    if (error) throw error;
+    for (const row of (data || []) as {
+      event_id: string;
+      update_id: string;
+      contract_id: string | null;
+      event_type: string | null;
+      raw: TreeEvent | null;
+    }[]) {
+      const tree = trees.get(row.update_id) ?? {};
+      tree[row.event_id] = {
+        ...(row.raw ?? {}),
+        event_type: row.event_type ?? undefined,
+        contract_id: row.contract_id ?? undefined,
+      };
+      trees.set(row.update_id, tree);
+    }
+  }
+
+  const amounts: CollectedAmount[] = [];
+  for (const close of collects) {
+    const tree = trees.get(close.archive_update_id) ?? {};
+    const exercise = Object.values(tree).find(
+      (e) => e.contract_id === close.contract_id && e.choice === close.archive_choice,
+    );
+    const paid = exercise ? collectedPayment(exercise, tree) : null;
+    if (!paid) continue;
+    amounts.push({
+      contract_id: close.contract_id,
+      collected_amulet: paid.amulet.toString(),
+      transfer_fees: paid.transferFees.toString(),
+    });
+  }
+  return amounts;
+}
+
+// ------------------------------------
+// Handler
+// ------------------------------------
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.reset) {
+      await resetCursors(supabase, KINDS.map((k) => streamOf(k).name));
+    }
+
+    const settleBefore = settledBefore();
+    const syncedAt = new Date().toISOString();
+
+    const results: Record<string, StreamResult> = {};
+    for (const kind of KINDS) {
+      results[kind] = await runStream(supabase, streamOf(kind), settleBefore, async (rows) => {
+        const classified = parseSubscriptionContracts(kind, rows);
+        await upsertCreatesAndCloses(supabase, "subscription_contracts", classified, syncedAt);
+        const amounts = await collectedAmounts(supabase, classified.closes);
+        await upsertAll(supabase, "subscription_contracts", "contract_id", amounts.map((a) => ({ ...a, synced_at: syncedAt })));
+        return classified.skipped;
+      });
+    }
+
+    const all = Object.values(results);
+    const skipped = all.flatMap((r) => r.skipped);
+    if (skipped.length > 0) {
+      console.warn(`subscription-ledger: skipped ${skipped.length} event(s)`, skipped.slice(0, 10));
+    }
+
+    return json({
+      initial_payment_events: results.initial_payment.events,
+      payment_events: results.payment.events,
+      idle_events: results.idle.events,
+      skipped: skipped.length,
+      more: all.some((r) => r.more),
+      settled_before: settleBefore,
+      synced_at: syncedAt,
+    });
+  } catch (e) {
+    console.error("subscription-ledger error", e);
+    return json({ error: (e as Error)?.message ?? "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,80 @@
+/*
+ * sv-reward-ledger
+ * ----------------
+ * Feeds sv_reward_coupons and sv_reward_round_issuance incrementally from
+ * ledger_events, one cursor per stream (see _shared/ledger-sync.ts).
+ * See _shared/sv-reward-ledger.ts for how events map to rows.
+ *
+ * Body: { reset?: boolean }  reset restarts both streams from the beginning
+ */
+
+import {
+  createAdminClient,
+  resetCursors,
+  runStream,
+  settledBefore,
+  syncIssuingRounds,
+  upsertCreatesAndCloses,
+} from "../_shared/ledger-sync.ts";
+import { classifyCouponEvents } from "../_shared/sv-reward-ledger.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const COUPON_STREAM = { name: "sv-reward-ledger:coupons", template: "SvRewardCoupon" };
+const ISSUING_ROUND_CURSOR = "sv-reward-ledger:issuing-rounds";
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ------------------------------------
+// Handler
+// ------------------------------------
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.reset) {
+      await resetCursors(supabase, [COUPON_STREAM.name, ISSUING_ROUND_CURSOR]);
+    }
+
+    const settleBefore = settledBefore();
+    const syncedAt = new Date().toISOString();
+
+    const rounds = await syncIssuingRounds(supabase, settleBefore, ISSUING_ROUND_CURSOR);
+
+    const coupons = await runStream(supabase, COUPON_STREAM, settleBefore, async (rows) => {
+      const classified = classifyCouponEvents(rows);
+      await upsertCreatesAndCloses(supabase, "sv_reward_coupons", classified, syncedAt);
+      return classified.skipped;
+    });
+
+    const skipped = [...rounds.skipped, ...coupons.skipped];
+    if (skipped.length > 0) {
+      console.warn(`sv-reward-ledger: skipped ${skipped.length} event(s)`, skipped.slice(0, 10));
+    }
+
+    return json({
+      coupon_events: coupons.events,
+      round_events: rounds.events,
+      skipped: skipped.length,
+      more: coupons.more || rounds.more,
+      settled_before: settleBefore,
+      synced_at: syncedAt,
+    });
+  } catch (e) {
+    console.error("sv-reward-ledger error", e);
+    return json({ error: (e as Error)?.message ?? "Internal server error" }, 500);
+  }
+});
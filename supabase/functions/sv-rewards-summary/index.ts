@@ -1,6 +1,9 @@
 // Copyright (c) 2024 Digital Asset (Switzerland) GmbH and/or its affiliates.
 // Summarizes claimed, expired, and unclaimed SV rewards based on SvRewardCoupon activity
 
+import { DamlDecimal } from "../_shared/daml-decimal.ts";
+import { decodeContract } from "../_shared/splice-decoders.ts";
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -43,9 +46,9 @@ interface AppState {
   issuingRounds: Map<number, MiningRound>;
   closedRounds: Map<number, MiningRound>;
   expiredCount: number;
-  expiredAmount: number;
+  expiredAmount: DamlDecimal;
   claimedCount: number;
-  claimedAmount: number;
+  claimedAmount: DamlDecimal;
 }
 
 const TEMPLATE_QUALIFIED_NAMES = {
@@ -54,26 +57,6 @@ const TEMPLATE_QUALIFIED_NAMES = {
   closedMiningRound: 'Splice.Round:ClosedMiningRound',
 };
 
-class DamlDecimal {
-  value: number;
-
-  constructor(value: string | number) {
-    this.value = typeof value === 'string' ? parseFloat(value) : value;
-  }
-
-  multiply(other: DamlDecimal): DamlDecimal {
-    return new DamlDecimal(this.value * other.value);
-  }
-
-  add(other: DamlDecimal): DamlDecimal {
-    return new DamlDecimal(this.value + other.value);
-  }
-
-  toFixed(decimals: number = 10): string {
-    return this.value.toFixed(decimals);
-  }
-}
-
 // Fetch transactions from scan API with pagination
 async function fetchTransactions(
   scanUrl: string,
@@ -135,11 +118,9 @@ function getLfValue(value: any, path: string[]): any {
 }
 
 // Calculate reward amount based on weight and issuance
-function calculateRewardAmount(weight: number, issuancePerSvReward: string, alreadyMintedWeight: number): number {
+function calculateRewardAmount(weight: number, issuancePerSvReward: string, alreadyMintedWeight: number): DamlDecimal {
   const availableWeight = Math.max(0, weight - alreadyMintedWeight);
-  const issuance = new DamlDecimal(issuancePerSvReward);
-  const amount = new DamlDecimal(availableWeight).multiply(issuance);
-  return amount.value;
+  return DamlDecimal.from(availableWeight).mul(issuancePerSvReward);
 }
 
 // Process created events for mining rounds
@@ -151,19 +132,21 @@ function processRoundCreated(
   const payload = event.create_arguments;
 
   if (qualifiedName === TEMPLATE_QUALIFIED_NAMES.issuingMiningRound) {
-    const round = parseInt(getLfValue(payload, ['round', 'number']));
-    const issuancePerSvReward = getLfValue(payload, ['issuancePerSvRewardCoupon']);
-
-    if (round && issuancePerSvReward) {
-      state.issuingRounds.set(round, { round, issuancePerSvReward });
+    const decoded = decodeContract("Splice:Round:IssuingMiningRound", payload, event.contract_id);
+    if (!decoded.ok) {
+      console.warn(decoded.error.message);
+      return;
     }
+    const round = decoded.value.round.number;
+    state.issuingRounds.set(round, { round, issuancePerSvReward: decoded.value.issuancePerSvRewardCoupon.toString() });
   } else if (qualifiedName === TEMPLATE_QUALIFIED_NAMES.closedMiningRound) {
-    const round = parseInt(getLfValue(payload, ['round', 'number']));
-    const issuancePerSvReward = getLfValue(payload, ['issuancePerSvRewardCoupon']);
-
-    if (round && issuancePerSvReward) {
-      state.closedRounds.set(round, { round, issuancePerSvReward });
+    const decoded = decodeContract("Splice:Round:ClosedMiningRound", payload, event.contract_id);
+    if (!decoded.ok) {
+      console.warn(decoded.error.message);
+      return;
     }
+    const round = decoded.value.round.number;
+    state.closedRounds.set(round, { round, issuancePerSvReward: decoded.value.issuancePerSvRewardCoupon.toString() });
   }
 }
 
@@ -183,20 +166,21 @@ function processCouponCreated(
   if (recordTime > endRecordTime) return;
 
   const payload = event.create_arguments;
-  const rewardBeneficiary = getLfValue(payload, ['beneficiary']);
-  
-  if (rewardBeneficiary !== beneficiary) return;
+  const decoded = decodeContract("Splice:Amulet:SvRewardCoupon", payload, event.contract_id);
+  if (!decoded.ok) {
+    console.warn(decoded.error.message);
+    return;
+  }
 
-  const round = parseInt(getLfValue(payload, ['round', 'number']));
-  const weight = parseInt(getLfValue(payload, ['weight']));
-  const expiresAt = getLfValue(payload, ['expiresAt']);
+  const coupon = decoded.value;
+  if (coupon.beneficiary !== beneficiary) return;
 
   state.activeRewards.set(event.contract_id, {
     contractId: event.contract_id,
-    beneficiary: rewardBeneficiary,
-    weight,
-    round,
-    expiresAt
+    beneficiary: coupon.beneficiary,
+    weight: coupon.weight,
+    round: coupon.round.number,
+    expiresAt: getLfValue(payload, ['expiresAt'])
   });
 }
 
@@ -232,10 +216,10 @@ function processCouponExercised(
 
     if (isExpired) {
       state.expiredCount++;
-      state.expiredAmount += amount;
+      state.expiredAmount = state.expiredAmount.add(amount);
     } else {
       state.claimedCount++;
-      state.claimedAmount += amount;
+      state.claimedAmount = state.claimedAmount.add(amount);
     }
   }
 }
@@ -317,9 +301,9 @@ async function calculateRewardsSummary(
     issuingRounds: new Map(),
     closedRounds: new Map(),
     expiredCount: 0,
-    expiredAmount: 0,
+    expiredAmount: DamlDecimal.ZERO,
     claimedCount: 0,
-    claimedAmount: 0
+    claimedAmount: DamlDecimal.ZERO
   };
 
   const PAGE_SIZE = 50; // Reduced for faster responses
@@ -460,19 +444,19 @@ function buildSummary(
 
   // Estimate unclaimed amount
   const avgAmountPerCoupon = state.claimedCount > 0 
-    ? state.claimedAmount / state.claimedCount 
-    : 0;
-  const estimatedUnclaimedAmount = avgAmountPerCoupon * unclaimedCount;
+    ? state.claimedAmount.div(BigInt(state.claimedCount))
+    : DamlDecimal.ZERO;
+  const estimatedUnclaimedAmount = avgAmountPerCoupon.mul(BigInt(unclaimedCount));
 
   return {
     totalSuperValidators: 13,
     totalRewardCoupons: totalCoupons,
     claimedCount: state.claimedCount,
-    claimedAmount: state.claimedAmount.toFixed(10),
+    claimedAmount: state.claimedAmount.toString(),
     expiredCount: state.expiredCount,
-    expiredAmount: state.expiredAmount.toFixed(10),
+    expiredAmount: state.expiredAmount.toString(),
     unclaimedCount,
-    estimatedUnclaimedAmount: estimatedUnclaimedAmount.toFixed(10),
+    estimatedUnclaimedAmount: estimatedUnclaimedAmount.toString(),
     timeRangeStart: beginRecordTime,
     timeRangeEnd: endRecordTime,
   };
@@ -0,0 +1,130 @@
+/*
+ * traffic-status-sampler
+ * ----------------------
+ * Records Scan's traffic status (consumed, limit, purchased) for every member
+ * into member_traffic_samples. Run it on a schedule; the member_traffic_burn
+ * view derives consumption rates from consecutive samples.
+ *
+ * Body: { members?: { member_id, synchronizer_id }[] }
+ *   members defaults to everyone who bought traffic in the last 90 days
+ *   (traffic_members). Samples older than RETENTION_DAYS are dropped.
+ */
+
+import { createAdminClient, type SupabaseAdmin } from "../_shared/ledger-sync.ts";
+
+const BASE_URL = "https://scan.sv-1.global.canton.network.sync.global/api/scan";
+const CONCURRENCY = 8;
+const MAX_MEMBERS = 2000;
+const RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface Member {
+  member_id: string;
+  synchronizer_id: string;
+}
+
+interface TrafficStatusResponse {
+  traffic_status: {
+    actual: { total_consumed: number; total_limit: number };
+    target: { total_purchased: number };
+  };
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function isMember(value: unknown): value is Member {
+  const m = value as Member;
+  return typeof m?.member_id === "string" && m.member_id !== "" && typeof m.synchronizer_id === "string" && m.synchronizer_id !== "";
+}
+
+async function recentMembers(supabase: SupabaseAdmin): Promise<Member[]> {
+  const { data, error } = await supabase
+    .from("traffic_members")
+    .select("member_id, synchronizer_id")
+    .gt("last_purchase_at", new Date(Date.now() - RETENTION_DAYS * DAY_MS).toISOString())
+    .limit(MAX_MEMBERS);
+  if (error) throw error;
+  return (data || []) as Member[];
+}
+
+async function fetchStatus(member: Member) {
+  const url = `${BASE_URL}/v0/domains/${encodeURIComponent(member.synchronizer_id)}/members/${encodeURIComponent(
+    member.member_id,
+  )}/traffic-status`;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const { traffic_status: status } = (await res.json()) as TrafficStatusResponse;
+  return {
+    ...member,
+    total_consumed: status.actual.total_consumed,
+    total_limit: status.actual.total_limit,
+    total_purchased: status.target.total_purchased,
+  };
+}
+
+// ------------------------------------
+// Handler
+// ------------------------------------
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const body = await req.json().catch(() => ({}));
+
+    const requested = Array.isArray(body?.members) ? body.members.filter(isMember) : null;
+    const members: Member[] = (requested?.length ? requested : await recentMembers(supabase)).slice(0, MAX_MEMBERS);
+    const unique = [...new Map(members.map((m) => [`${m.member_id}|${m.synchronizer_id}`, m])).values()];
+
+    // One timestamp for the whole run keeps the samples of a run aligned
+    const sampledAt = new Date().toISOString();
+    const samples: (Member & { total_consumed: number; total_limit: number; total_purchased: number })[] = [];
+    const failed: { member_id: string; error: string }[] = [];
+
+    for (let i = 0; i < unique.length; i += CONCURRENCY) {
+      const batch = unique.slice(i, i + CONCURRENCY);
+      const results = await Promise.allSettled(batch.map(fetchStatus));
+      results.forEach((r, j) => {
+        if (r.status === "fulfilled") samples.push(r.value);
+        else failed.push({ member_id: batch[j].member_id, error: (r.reason as Error)?.message ?? String(r.reason) });
+      });
+    }
+
+    if (samples.length > 0) {
+      const { error } = await supabase
+        .from("member_traffic_samples")
+        .upsert(
+          samples.map((s) => ({ ...s, sampled_at: sampledAt })),
+          { onConflict: "member_id,synchronizer_id,sampled_at" },
+        );
+      if (error) throw error;
+    }
+
+    const { error: pruneError } = await supabase
+      .from("member_traffic_samples")
+      .delete()
+      .lt("sampled_at", new Date(Date.now() - RETENTION_DAYS * DAY_MS).toISOString());
+    if (pruneError) throw pruneError;
+
+    if (failed.length > 0) {
+      console.warn(`traffic-status-sampler: ${failed.length} member(s) failed`, failed.slice(0, 10));
+    }
+
+    return json({ members: unique.length, sampled: samples.length, failed: failed.length, sampled_at: sampledAt });
+  } catch (e) {
+    console.error("traffic-status-sampler error", e);
+    return json({ error: (e as Error)?.message ?? "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,86 @@
+/*
+ * transfer-flows
+ * --------------
+ * Feeds transfer_flows incrementally from ledger_events: one row per output
+ * of every AmuletRules_Transfer, read with its own cursor (see
+ * _shared/ledger-sync.ts). The transfer_flow_edges and
+ * transfer_counterparties functions aggregate it for the flow graph.
+ * See _shared/transfer-flows.ts for how events map to rows.
+ *
+ * Body: { reset?: boolean }  reset restarts the stream from the beginning
+ */
+
+import {
+  createAdminClient,
+  resetCursors,
+  runStream,
+  settledBefore,
+  upsertAll,
+  type StreamSpec,
+} from "../_shared/ledger-sync.ts";
+import { parseTransferFlows, TRANSFER_CHOICE } from "../_shared/transfer-flows.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const TRANSFER_STREAM: StreamSpec = {
+  name: "transfer-flows:transfers",
+  template: "AmuletRules",
+  choice: TRANSFER_CHOICE,
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ------------------------------------
+// Handler
+// ------------------------------------
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.reset) {
+      await resetCursors(supabase, [TRANSFER_STREAM.name]);
+    }
+
+    const settleBefore = settledBefore();
+    const syncedAt = new Date().toISOString();
+
+    const transfers = await runStream(supabase, TRANSFER_STREAM, settleBefore, async (rows) => {
+      const { flows, skipped } = parseTransferFlows(rows);
+      await upsertAll(
+        supabase,
+        "transfer_flows",
+        "event_id,output_index",
+        flows.map((f) => ({ ...f, synced_at: syncedAt })),
+      );
+      return skipped;
+    });
+
+    if (transfers.skipped.length > 0) {
+      console.warn(`transfer-flows: skipped ${transfers.skipped.length} event(s)`, transfers.skipped.slice(0, 10));
+    }
+
+    return json({
+      transfer_events: transfers.events,
+      skipped: transfers.skipped.length,
+      more: transfers.more,
+      settled_before: settleBefore,
+      synced_at: syncedAt,
+    });
+  } catch (e) {
+    console.error("transfer-flows error", e);
+    return json({ error: (e as Error)?.message ?? "Internal server error" }, 500);
+  }
+});
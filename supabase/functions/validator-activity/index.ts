@@ -0,0 +1,149 @@
+/*
+ * validator-activity
+ * ------------------
+ * Feeds validator_activity and validator_traffic_purchases incrementally from
+ * ledger_events, one cursor per stream (see _shared/ledger-sync.ts), and
+ * rebuilds the validator_activity_daily buckets each page touched. Also
+ * syncs the issuing round stream the rewards are priced with, under its own
+ * cursor, and reprices the buckets of the rounds it read.
+ * See _shared/validator-activity.ts for how events map to rows.
+ *
+ * Body: { reset?: boolean }  reset restarts the validator streams from the beginning
+ */
+
+import {
+  createAdminClient,
+  resetCursors,
+  runStream,
+  settledBefore,
+  syncIssuingRounds,
+  upsertAll,
+  type StreamSpec,
+  type SupabaseAdmin,
+} from "../_shared/ledger-sync.ts";
+import {
+  BUY_TRAFFIC_CHOICE,
+  parseActivityEvents,
+  parseTrafficPurchases,
+  touchedBuckets,
+  type ActivityBucket,
+  type ActivityKind,
+} from "../_shared/validator-activity.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ACTIVITY_STREAMS: Record<ActivityKind, StreamSpec> = {
+  liveness: { name: "validator-activity:liveness", template: "ValidatorLivenessActivityRecord", createsOnly: true },
+  faucet: { name: "validator-activity:faucet-coupons", template: "ValidatorFaucetCoupon", createsOnly: true },
+  reward: { name: "validator-activity:reward-coupons", template: "ValidatorRewardCoupon", createsOnly: true },
+};
+
+const ISSUING_ROUND_CURSOR = "validator-activity:issuing-rounds";
+
+const TRAFFIC_STREAM: StreamSpec = {
+  name: "validator-activity:traffic-purchases",
+  template: "AmuletRules",
+  choice: BUY_TRAFFIC_CHOICE,
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** Rebuilds the given buckets, and those holding activity of `rounds` */
+async function refreshDaily(supabase: SupabaseAdmin, buckets: ActivityBucket[], rounds: number[] = []) {
+  const { error } = await supabase.rpc("refresh_validator_activity_daily", {
+    _validators: buckets.map((b) => b.validator),
+    _days: buckets.map((b) => b.day),
+    _rounds: rounds,
+  });
+  if (error) throw error;
+}
+
+// ------------------------------------
+// Handler
+// ------------------------------------
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.reset) {
+      await resetCursors(supabase, [
+        ...Object.values(ACTIVITY_STREAMS).map((s) => s.name),
+        TRAFFIC_STREAM.name,
+        ISSUING_ROUND_CURSOR,
+      ]);
+    }
+
+    const settleBefore = settledBefore();
+    const syncedAt = new Date().toISOString();
+
+    const rounds = await syncIssuingRounds(supabase, settleBefore, ISSUING_ROUND_CURSOR);
+
+    const results: Record<string, { events: number; more: boolean }> = {};
+    const skipped = [...rounds.skipped];
+
+    for (const [kind, stream] of Object.entries(ACTIVITY_STREAMS) as [ActivityKind, StreamSpec][]) {
+      const result = await runStream(supabase, stream, settleBefore, async (rows) => {
+        const parsed = parseActivityEvents(kind, rows);
+        await upsertAll(
+          supabase,
+          "validator_activity",
+          "contract_id",
+          parsed.activity.map((a) => ({ ...a, synced_at: syncedAt })),
+        );
+        if (parsed.activity.length > 0) await refreshDaily(supabase, touchedBuckets(parsed.activity));
+        return parsed.skipped;
+      });
+      results[kind] = result;
+      skipped.push(...result.skipped);
+    }
+
+    const traffic = await runStream(supabase, TRAFFIC_STREAM, settleBefore, async (rows) => {
+      const parsed = parseTrafficPurchases(rows);
+      await upsertAll(
+        supabase,
+        "validator_traffic_purchases",
+        "event_id",
+        parsed.purchases.map((p) => ({ ...p, synced_at: syncedAt })),
+      );
+      if (parsed.purchases.length > 0) await refreshDaily(supabase, touchedBuckets(parsed.purchases));
+      return parsed.skipped;
+    });
+    results.traffic = traffic;
+    skipped.push(...traffic.skipped);
+
+    // Activity synced before its round's rate
+    if (rounds.rounds.length > 0) await refreshDaily(supabase, [], rounds.rounds);
+
+    if (skipped.length > 0) {
+      console.warn(`validator-activity: skipped ${skipped.length} event(s)`, skipped.slice(0, 10));
+    }
+
+    return json({
+      liveness_events: results.liveness.events,
+      faucet_events: results.faucet.events,
+      reward_events: results.reward.events,
+      traffic_events: results.traffic.events,
+      round_events: rounds.events,
+      skipped: skipped.length,
+      more: rounds.more || Object.values(results).some((r) => r.more),
+      settled_before: settleBefore,
+      synced_at: syncedAt,
+    });
+  } catch (e) {
+    console.error("validator-activity error", e);
+    return json({ error: (e as Error)?.message ?? "Internal server error" }, 500);
+  }
+});
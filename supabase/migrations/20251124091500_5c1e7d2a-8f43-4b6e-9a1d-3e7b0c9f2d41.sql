@@ -0,0 +1,16 @@
+-- ============================================
+-- Incremental ACS snapshots
+-- ============================================
+
+-- Order independent checksum of a template's contract ids (hex), used to
+-- verify snapshots derived from ledger deltas against full ACS pulls
+ALTER TABLE public.acs_template_stats
+  ADD COLUMN IF NOT EXISTS contract_id_checksum TEXT;
+
+-- Result of checking a full snapshot against base snapshot + deltas
+ALTER TABLE public.acs_snapshots
+  ADD COLUMN IF NOT EXISTS verification JSONB;
+
+-- Delta window lookups: updates of one migration in a record_time range
+CREATE INDEX IF NOT EXISTS idx_ledger_updates_migration_record_time
+  ON public.ledger_updates(migration_id, record_time);
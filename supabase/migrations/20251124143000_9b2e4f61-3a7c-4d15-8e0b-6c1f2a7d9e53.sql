@@ -0,0 +1,5 @@
+-- Contract lifecycle tracer: unassignments only carry the contract id inside
+-- the stored update, so look them up by that expression
+CREATE INDEX IF NOT EXISTS idx_ledger_updates_unassigned_contract
+  ON public.ledger_updates ((raw->'event'->>'contract_id'))
+  WHERE kind = 'reassignment';
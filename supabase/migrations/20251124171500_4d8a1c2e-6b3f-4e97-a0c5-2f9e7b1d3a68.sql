@@ -0,0 +1,75 @@
+-- ============================================
+-- Governance history (rebuilt by the governance-history function)
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.governance_proposals (
+  proposal_id TEXT PRIMARY KEY,          -- contract id of the first VoteRequest version
+  latest_contract_id TEXT NOT NULL,
+  version_count INTEGER NOT NULL DEFAULT 1,
+  action_tag TEXT,
+  action JSONB,
+  requester TEXT,
+  reason_url TEXT,
+  reason_body TEXT,
+  vote_before TEXT,
+  created_at TEXT NOT NULL,              -- record time of the first version
+  created_update_id TEXT,
+  migration_id INTEGER,
+  status TEXT NOT NULL DEFAULT 'open',   -- open | accepted | rejected | expired | action_failed
+  closed_at TEXT,
+  close_update_id TEXT,
+  outcome JSONB,
+  effective_at TEXT,
+  executed_choices JSONB NOT NULL DEFAULT '[]'::jsonb,
+  abstaining_svs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  accept_count INTEGER NOT NULL DEFAULT 0,
+  reject_count INTEGER NOT NULL DEFAULT 0,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_governance_proposals_created_at
+  ON public.governance_proposals(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_governance_proposals_status
+  ON public.governance_proposals(status);
+
+CREATE TABLE IF NOT EXISTS public.governance_vote_events (
+  id TEXT PRIMARY KEY,                   -- proposal:sv:update
+  proposal_id TEXT NOT NULL REFERENCES public.governance_proposals(proposal_id) ON DELETE CASCADE,
+  sv_name TEXT NOT NULL,
+  sv_party TEXT,
+  accept BOOLEAN NOT NULL,
+  reason_url TEXT,
+  reason_body TEXT,
+  change TEXT NOT NULL,                  -- cast | changed | removed
+  cast_at TEXT NOT NULL,
+  update_id TEXT,
+  contract_id TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_governance_vote_events_proposal
+  ON public.governance_vote_events(proposal_id, cast_at);
+
+-- The rebuild looks closes up by choice
+CREATE INDEX IF NOT EXISTS idx_ledger_events_choice
+  ON public.ledger_events ((raw->>'choice'))
+  WHERE event_type = 'exercised_event';
+
+ALTER TABLE public.governance_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.governance_vote_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read governance_proposals" ON public.governance_proposals;
+CREATE POLICY "Public read governance_proposals"
+  ON public.governance_proposals FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write governance_proposals" ON public.governance_proposals;
+CREATE POLICY "Admins write governance_proposals"
+  ON public.governance_proposals FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read governance_vote_events" ON public.governance_vote_events;
+CREATE POLICY "Public read governance_vote_events"
+  ON public.governance_vote_events FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write governance_vote_events" ON public.governance_vote_events;
+CREATE POLICY "Admins write governance_vote_events"
+  ON public.governance_vote_events FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
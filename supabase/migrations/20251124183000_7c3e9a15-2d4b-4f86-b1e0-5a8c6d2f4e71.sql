@@ -0,0 +1,11 @@
+-- Link CIPs to the on-chain vote requests that put them to a vote
+-- onchain_link_manual marks an admin override; without it the link is
+-- derived from the vote request reasons (see src/lib/cip-onchain.ts)
+ALTER TABLE public.cips ADD COLUMN IF NOT EXISTS onchain_proposal_id TEXT
+  REFERENCES public.governance_proposals(proposal_id) ON DELETE SET NULL;
+ALTER TABLE public.cips ADD COLUMN IF NOT EXISTS onchain_link_manual BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_cips_onchain_proposal ON public.cips (onchain_proposal_id);
+
+-- On-chain SV name for organisations whose name differs from their SV node
+ALTER TABLE public.sv_votes ADD COLUMN IF NOT EXISTS onchain_sv_name TEXT;
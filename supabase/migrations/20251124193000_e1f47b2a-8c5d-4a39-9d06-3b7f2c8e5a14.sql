@@ -0,0 +1,9 @@
+-- Amulet price vote history: votes in a time window, and each SV's last
+-- vote before it. The predicate matches the template filter the explorer uses.
+CREATE INDEX IF NOT EXISTS idx_ledger_events_price_votes_time
+  ON public.ledger_events (created_at_ts)
+  WHERE template_id LIKE '%:AmuletPriceVote';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_price_votes_sv
+  ON public.ledger_events ((payload->>'sv'), created_at_ts)
+  WHERE template_id LIKE '%:AmuletPriceVote';
@@ -0,0 +1,9 @@
+-- AmuletRules config timeline: versions of AmuletRules in ledger order, and
+-- the first mining round opened after each config change
+CREATE INDEX IF NOT EXISTS idx_ledger_events_amulet_rules_time
+  ON public.ledger_events (created_at_ts)
+  WHERE template_id LIKE '%:AmuletRules';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_open_rounds_time
+  ON public.ledger_events (created_at_ts)
+  WHERE template_id LIKE '%:OpenMiningRound';
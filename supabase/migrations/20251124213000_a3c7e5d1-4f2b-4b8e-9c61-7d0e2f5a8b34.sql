@@ -0,0 +1,150 @@
+-- ============================================
+-- Ledger sync cursors: how far an incremental job has read ledger_events,
+-- by ingestion time (created_at, event_id)
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.ledger_sync_cursors (
+  name TEXT PRIMARY KEY,
+  last_created_at TIMESTAMPTZ,
+  last_event_id TEXT,
+  processed_count BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ledger_sync_cursors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read ledger_sync_cursors" ON public.ledger_sync_cursors;
+CREATE POLICY "Public read ledger_sync_cursors"
+  ON public.ledger_sync_cursors FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write ledger_sync_cursors" ON public.ledger_sync_cursors;
+CREATE POLICY "Admins write ledger_sync_cursors"
+  ON public.ledger_sync_cursors FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP TRIGGER IF EXISTS update_ledger_sync_cursors_updated_at ON public.ledger_sync_cursors;
+CREATE TRIGGER update_ledger_sync_cursors_updated_at
+  BEFORE UPDATE ON public.ledger_sync_cursors
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- SV reward ledger (fed by the sv-reward-ledger function)
+-- ============================================
+-- Create and close columns are written separately, so either may arrive first
+CREATE TABLE IF NOT EXISTS public.sv_reward_coupons (
+  contract_id TEXT PRIMARY KEY,
+  dso TEXT,
+  sv TEXT,
+  beneficiary TEXT,
+  round BIGINT,
+  weight BIGINT,
+  created_at TIMESTAMPTZ,                -- record time of the creation
+  created_update_id TEXT,
+  migration_id INTEGER,
+  status TEXT NOT NULL DEFAULT 'outstanding',  -- outstanding | claimed | expired | archived
+  closed_at TIMESTAMPTZ,
+  close_choice TEXT,
+  close_update_id TEXT,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sv_reward_coupons_beneficiary_round
+  ON public.sv_reward_coupons(beneficiary, round);
+CREATE INDEX IF NOT EXISTS idx_sv_reward_coupons_beneficiary_created
+  ON public.sv_reward_coupons(beneficiary, created_at);
+CREATE INDEX IF NOT EXISTS idx_sv_reward_coupons_beneficiary_closed
+  ON public.sv_reward_coupons(beneficiary, closed_at);
+CREATE INDEX IF NOT EXISTS idx_sv_reward_coupons_sv_created
+  ON public.sv_reward_coupons(sv, created_at);
+
+CREATE TABLE IF NOT EXISTS public.sv_reward_round_issuance (
+  round BIGINT PRIMARY KEY,
+  issuance_per_sv_reward NUMERIC NOT NULL,
+  contract_id TEXT NOT NULL,
+  opened_at TIMESTAMPTZ NOT NULL
+);
+
+-- Coupons with their amount; NULL until the round is issuing
+CREATE OR REPLACE VIEW public.sv_reward_ledger WITH (security_invoker = true) AS
+SELECT
+  c.contract_id,
+  c.sv,
+  c.beneficiary,
+  c.round,
+  c.weight,
+  c.status,
+  c.created_at,
+  c.created_update_id,
+  c.closed_at,
+  c.close_choice,
+  c.close_update_id,
+  i.issuance_per_sv_reward::text AS issuance_per_sv_reward,
+  (c.weight * i.issuance_per_sv_reward)::text AS amount
+FROM public.sv_reward_coupons c
+LEFT JOIN public.sv_reward_round_issuance i ON i.round = c.round
+WHERE c.beneficiary IS NOT NULL;
+
+-- Movements per beneficiary, SV and UTC day: issuance by creation day,
+-- claims, expiries and other archives by closing day
+CREATE OR REPLACE VIEW public.sv_reward_daily WITH (security_invoker = true) AS
+WITH priced AS (
+  SELECT c.*, c.weight * i.issuance_per_sv_reward AS value
+  FROM public.sv_reward_coupons c
+  LEFT JOIN public.sv_reward_round_issuance i ON i.round = c.round
+  WHERE c.beneficiary IS NOT NULL
+),
+movements AS (
+  SELECT beneficiary, sv, (created_at AT TIME ZONE 'UTC')::date AS day,
+         'issued' AS kind, value, weight
+  FROM priced WHERE created_at IS NOT NULL
+  UNION ALL
+  SELECT beneficiary, sv, (closed_at AT TIME ZONE 'UTC')::date AS day,
+         status AS kind, value, NULL::bigint AS weight
+  FROM priced WHERE closed_at IS NOT NULL AND created_at IS NOT NULL
+)
+SELECT
+  to_char(day, 'YYYY-MM-DD') AS day,
+  beneficiary,
+  sv,
+  count(*) FILTER (WHERE kind = 'issued')::int AS issued_count,
+  (sum(value) FILTER (WHERE kind = 'issued'))::text AS issued_amount,
+  count(*) FILTER (WHERE kind = 'issued' AND value IS NULL)::int AS unpriced_count,
+  count(*) FILTER (WHERE kind = 'claimed')::int AS claimed_count,
+  (sum(value) FILTER (WHERE kind = 'claimed'))::text AS claimed_amount,
+  count(*) FILTER (WHERE kind = 'expired')::int AS expired_count,
+  (sum(value) FILTER (WHERE kind = 'expired'))::text AS expired_amount,
+  count(*) FILTER (WHERE kind = 'archived')::int AS archived_count,
+  (sum(value) FILTER (WHERE kind = 'archived'))::text AS archived_amount,
+  min(weight) AS weight_min,
+  max(weight) AS weight_max
+FROM movements
+GROUP BY day, beneficiary, sv;
+
+-- The sync reads coupon and issuing round events in ingestion order
+CREATE INDEX IF NOT EXISTS idx_ledger_events_sv_reward_coupons_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:SvRewardCoupon';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_issuing_rounds_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:IssuingMiningRound';
+
+ALTER TABLE public.sv_reward_coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sv_reward_round_issuance ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read sv_reward_coupons" ON public.sv_reward_coupons;
+CREATE POLICY "Public read sv_reward_coupons"
+  ON public.sv_reward_coupons FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write sv_reward_coupons" ON public.sv_reward_coupons;
+CREATE POLICY "Admins write sv_reward_coupons"
+  ON public.sv_reward_coupons FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read sv_reward_round_issuance" ON public.sv_reward_round_issuance;
+CREATE POLICY "Public read sv_reward_round_issuance"
+  ON public.sv_reward_round_issuance FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write sv_reward_round_issuance" ON public.sv_reward_round_issuance;
+CREATE POLICY "Admins write sv_reward_round_issuance"
+  ON public.sv_reward_round_issuance FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
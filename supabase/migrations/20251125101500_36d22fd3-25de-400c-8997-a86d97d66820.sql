@@ -0,0 +1,274 @@
+-- ============================================
+-- Issuance rates for validator rewards. The issuing round stream is now
+-- shared by the SV reward ledger and validator activity, under a new cursor,
+-- so it is read again from the beginning and fills the new columns.
+-- ============================================
+ALTER TABLE public.sv_reward_round_issuance
+  ADD COLUMN IF NOT EXISTS issuance_per_validator_reward NUMERIC,
+  ADD COLUMN IF NOT EXISTS issuance_per_validator_faucet NUMERIC;
+
+CREATE INDEX IF NOT EXISTS idx_sv_reward_round_issuance_opened
+  ON public.sv_reward_round_issuance(opened_at);
+
+DELETE FROM public.ledger_sync_cursors WHERE name = 'sv-reward-ledger:issuing-rounds';
+
+-- Rounds the network issued per UTC day
+CREATE OR REPLACE VIEW public.mining_rounds_daily WITH (security_invoker = true) AS
+SELECT
+  to_char((opened_at AT TIME ZONE 'UTC')::date, 'YYYY-MM-DD') AS day,
+  count(*)::int AS rounds,
+  min(round) AS min_round,
+  max(round) AS max_round
+FROM public.sv_reward_round_issuance
+GROUP BY (opened_at AT TIME ZONE 'UTC')::date;
+
+-- ============================================
+-- Validator activity (fed by the validator-activity function)
+-- ============================================
+-- Liveness records, faucet coupons and validator reward coupons
+CREATE TABLE IF NOT EXISTS public.validator_activity (
+  contract_id TEXT PRIMARY KEY,
+  validator TEXT NOT NULL,
+  round BIGINT NOT NULL,
+  kind TEXT NOT NULL,                    -- liveness | faucet | reward
+  activity NUMERIC,                      -- reward coupons only
+  recorded_at TIMESTAMPTZ NOT NULL,
+  update_id TEXT,
+  migration_id INTEGER,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_validator_activity_validator_recorded
+  ON public.validator_activity(validator, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_validator_activity_liveness_rounds
+  ON public.validator_activity(validator, round)
+  WHERE kind IN ('liveness', 'faucet');
+
+CREATE TABLE IF NOT EXISTS public.validator_traffic_purchases (
+  event_id TEXT PRIMARY KEY,
+  validator TEXT NOT NULL,
+  member_id TEXT NOT NULL,
+  synchronizer_id TEXT,
+  traffic_amount BIGINT NOT NULL,
+  amulet_paid NUMERIC,
+  round BIGINT,
+  recorded_at TIMESTAMPTZ NOT NULL,
+  update_id TEXT,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_validator_traffic_purchases_validator_recorded
+  ON public.validator_traffic_purchases(validator, recorded_at);
+
+-- Per validator and UTC day, rebuilt by refresh_validator_activity_daily
+CREATE TABLE IF NOT EXISTS public.validator_activity_daily (
+  validator TEXT NOT NULL,
+  day DATE NOT NULL,
+  liveness_rounds INTEGER NOT NULL DEFAULT 0,
+  min_round BIGINT,
+  max_round BIGINT,
+  reward_coupons INTEGER NOT NULL DEFAULT 0,
+  reward_activity NUMERIC,
+  reward_amount NUMERIC,
+  faucet_amount NUMERIC,
+  unpriced_count INTEGER NOT NULL DEFAULT 0,
+  traffic_purchases INTEGER NOT NULL DEFAULT 0,
+  traffic_bought BIGINT NOT NULL DEFAULT 0,
+  traffic_amulet_paid NUMERIC,
+  PRIMARY KEY (validator, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_validator_activity_daily_day
+  ON public.validator_activity_daily(day);
+CREATE INDEX IF NOT EXISTS idx_validator_activity_daily_unpriced
+  ON public.validator_activity_daily(validator, day)
+  WHERE unpriced_count > 0;
+
+-- Rebuilds the given (validator, day) buckets, and every bucket that still
+-- has unpriced activity, since the rates of its rounds may have arrived
+CREATE OR REPLACE FUNCTION public.refresh_validator_activity_daily(
+  _validators TEXT[],
+  _days DATE[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  CREATE TEMP TABLE _touched ON COMMIT DROP AS
+  SELECT t.validator, t.day FROM unnest(_validators, _days) AS t(validator, day)
+  UNION
+  SELECT d.validator, d.day FROM public.validator_activity_daily d WHERE d.unpriced_count > 0;
+
+  DELETE FROM public.validator_activity_daily d
+  USING _touched t
+  WHERE d.validator = t.validator AND d.day = t.day;
+
+  INSERT INTO public.validator_activity_daily (
+    validator, day, liveness_rounds, min_round, max_round, reward_coupons, reward_activity, reward_amount,
+    faucet_amount, unpriced_count, traffic_purchases, traffic_bought, traffic_amulet_paid
+  )
+  SELECT
+    t.validator,
+    t.day,
+    coalesce(a.liveness_rounds, 0),
+    a.min_round,
+    a.max_round,
+    coalesce(a.reward_coupons, 0),
+    a.reward_activity,
+    a.reward_amount,
+    a.faucet_amount,
+    coalesce(a.unpriced_count, 0),
+    coalesce(p.purchases, 0),
+    coalesce(p.bought, 0),
+    p.amulet_paid
+  FROM _touched t
+  LEFT JOIN LATERAL (
+    SELECT
+      count(DISTINCT x.round) FILTER (WHERE x.kind IN ('liveness', 'faucet'))::int AS liveness_rounds,
+      min(x.round) FILTER (WHERE x.kind IN ('liveness', 'faucet')) AS min_round,
+      max(x.round) FILTER (WHERE x.kind IN ('liveness', 'faucet')) AS max_round,
+      count(*) FILTER (WHERE x.kind = 'reward')::int AS reward_coupons,
+      sum(x.activity) FILTER (WHERE x.kind = 'reward') AS reward_activity,
+      sum(x.activity * i.issuance_per_validator_reward) FILTER (WHERE x.kind = 'reward') AS reward_amount,
+      sum(i.issuance_per_validator_faucet) FILTER (WHERE x.kind IN ('liveness', 'faucet')) AS faucet_amount,
+      count(*) FILTER (WHERE i.round IS NULL)::int AS unpriced_count
+    FROM public.validator_activity x
+    LEFT JOIN public.sv_reward_round_issuance i ON i.round = x.round
+    WHERE x.validator = t.validator
+      AND x.recorded_at >= (t.day::timestamp AT TIME ZONE 'UTC')
+      AND x.recorded_at < ((t.day + 1)::timestamp AT TIME ZONE 'UTC')
+  ) a ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*)::int AS purchases,
+      sum(y.traffic_amount)::bigint AS bought,
+      sum(y.amulet_paid) AS amulet_paid
+    FROM public.validator_traffic_purchases y
+    WHERE y.validator = t.validator
+      AND y.recorded_at >= (t.day::timestamp AT TIME ZONE 'UTC')
+      AND y.recorded_at < ((t.day + 1)::timestamp AT TIME ZONE 'UTC')
+  ) p ON true
+  WHERE coalesce(a.liveness_rounds, 0) + coalesce(a.reward_coupons, 0) + coalesce(p.purchases, 0) > 0;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_validator_activity_daily(TEXT[], DATE[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_validator_activity_daily(TEXT[], DATE[]) TO service_role;
+
+-- One row per validator: lifetime totals and the last 7 UTC days (today
+-- included) against the 7 before, with the network's rounds for both windows
+CREATE OR REPLACE VIEW public.validator_scoreboard WITH (security_invoker = true) AS
+WITH bounds AS (
+  SELECT (now() AT TIME ZONE 'UTC')::date - 6 AS week_start,
+         (now() AT TIME ZONE 'UTC')::date - 13 AS prev_start
+),
+network AS (
+  SELECT
+    count(*) FILTER (WHERE (i.opened_at AT TIME ZONE 'UTC')::date >= b.week_start)::int AS rounds_7d,
+    count(*) FILTER (WHERE (i.opened_at AT TIME ZONE 'UTC')::date >= b.prev_start
+                       AND (i.opened_at AT TIME ZONE 'UTC')::date < b.week_start)::int AS rounds_prev_7d
+  FROM public.sv_reward_round_issuance i, bounds b
+  WHERE i.opened_at >= now() - interval '15 days'
+)
+SELECT
+  d.validator,
+  to_char(min(d.day), 'YYYY-MM-DD') AS first_day,
+  to_char(max(d.day) FILTER (WHERE d.liveness_rounds > 0), 'YYYY-MM-DD') AS last_live_day,
+  min(d.min_round) AS first_round,
+  max(d.max_round) AS last_round,
+  sum(d.liveness_rounds)::bigint AS liveness_rounds,
+  (max(d.max_round) - min(d.min_round) + 1 - sum(d.liveness_rounds))::bigint AS missed_rounds,
+  coalesce(sum(d.liveness_rounds) FILTER (WHERE d.day >= b.week_start), 0)::int AS liveness_7d,
+  coalesce(sum(d.liveness_rounds) FILTER (WHERE d.day >= b.prev_start AND d.day < b.week_start), 0)::int AS liveness_prev_7d,
+  n.rounds_7d,
+  n.rounds_prev_7d,
+  sum(d.reward_coupons)::bigint AS reward_coupons,
+  (coalesce(sum(d.reward_amount), 0) + coalesce(sum(d.faucet_amount), 0))::text AS rewards_total,
+  (coalesce(sum(d.reward_amount) FILTER (WHERE d.day >= b.week_start), 0)
+    + coalesce(sum(d.faucet_amount) FILTER (WHERE d.day >= b.week_start), 0))::text AS rewards_7d,
+  (coalesce(sum(d.reward_amount) FILTER (WHERE d.day >= b.prev_start AND d.day < b.week_start), 0)
+    + coalesce(sum(d.faucet_amount) FILTER (WHERE d.day >= b.prev_start AND d.day < b.week_start), 0))::text AS rewards_prev_7d,
+  sum(d.traffic_purchases)::bigint AS traffic_purchases,
+  sum(d.traffic_bought)::bigint AS traffic_bought,
+  coalesce(sum(d.traffic_amulet_paid), 0)::text AS traffic_amulet_paid,
+  sum(d.unpriced_count)::bigint AS unpriced_count
+FROM public.validator_activity_daily d, bounds b, network n
+GROUP BY d.validator, b.week_start, b.prev_start, n.rounds_7d, n.rounds_prev_7d;
+
+-- Runs of rounds a validator recorded no liveness for, between its first
+-- and its latest record
+CREATE OR REPLACE VIEW public.validator_missed_rounds WITH (security_invoker = true) AS
+SELECT
+  validator,
+  prev_round + 1 AS from_round,
+  round - 1 AS to_round,
+  (round - prev_round - 1)::int AS missed,
+  prev_recorded_at AS last_seen_at,
+  recorded_at AS resumed_at
+FROM (
+  SELECT
+    validator,
+    round,
+    recorded_at,
+    lag(round) OVER w AS prev_round,
+    lag(recorded_at) OVER w AS prev_recorded_at
+  FROM (
+    SELECT DISTINCT ON (validator, round) validator, round, recorded_at
+    FROM public.validator_activity
+    WHERE kind IN ('liveness', 'faucet')
+    ORDER BY validator, round, recorded_at
+  ) r
+  WINDOW w AS (PARTITION BY validator ORDER BY round)
+) g
+WHERE round - prev_round > 1;
+
+-- The sync reads these templates in ingestion order
+CREATE INDEX IF NOT EXISTS idx_ledger_events_liveness_records_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:ValidatorLivenessActivityRecord';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_faucet_coupons_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:ValidatorFaucetCoupon';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_validator_reward_coupons_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:ValidatorRewardCoupon';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_buy_member_traffic_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:AmuletRules' AND raw->>'choice' = 'AmuletRules_BuyMemberTraffic';
+
+ALTER TABLE public.validator_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.validator_traffic_purchases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.validator_activity_daily ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read validator_activity" ON public.validator_activity;
+CREATE POLICY "Public read validator_activity"
+  ON public.validator_activity FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write validator_activity" ON public.validator_activity;
+CREATE POLICY "Admins write validator_activity"
+  ON public.validator_activity FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read validator_traffic_purchases" ON public.validator_traffic_purchases;
+CREATE POLICY "Public read validator_traffic_purchases"
+  ON public.validator_traffic_purchases FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write validator_traffic_purchases" ON public.validator_traffic_purchases;
+CREATE POLICY "Admins write validator_traffic_purchases"
+  ON public.validator_traffic_purchases FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read validator_activity_daily" ON public.validator_activity_daily;
+CREATE POLICY "Public read validator_activity_daily"
+  ON public.validator_activity_daily FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write validator_activity_daily" ON public.validator_activity_daily;
+CREATE POLICY "Admins write validator_activity_daily"
+  ON public.validator_activity_daily FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,93 @@
+-- ============================================
+-- Member traffic samples (written by the traffic-status-sampler function)
+-- Scan's traffic status per member at one point in time; consumption rates
+-- come from the difference between samples.
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.member_traffic_samples (
+  member_id TEXT NOT NULL,
+  synchronizer_id TEXT NOT NULL,
+  sampled_at TIMESTAMPTZ NOT NULL,
+  total_consumed BIGINT NOT NULL,
+  total_limit BIGINT NOT NULL,
+  total_purchased BIGINT NOT NULL,
+  PRIMARY KEY (member_id, synchronizer_id, sampled_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_traffic_samples_sampled
+  ON public.member_traffic_samples(sampled_at);
+
+ALTER TABLE public.member_traffic_samples ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read member_traffic_samples" ON public.member_traffic_samples;
+CREATE POLICY "Public read member_traffic_samples"
+  ON public.member_traffic_samples FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write member_traffic_samples" ON public.member_traffic_samples;
+CREATE POLICY "Admins write member_traffic_samples"
+  ON public.member_traffic_samples FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Members that bought traffic, with what they bought and paid. Purchases
+-- from AmuletRules versions that do not report amulet_paid count towards
+-- traffic_bought only, so priced_traffic is what amulet_paid is paid for.
+-- traffic_bought_30d stands in for consumption until a member has samples,
+-- since validators top up about as fast as they use traffic.
+CREATE OR REPLACE VIEW public.traffic_members WITH (security_invoker = true) AS
+SELECT
+  member_id,
+  synchronizer_id,
+  (array_agg(validator ORDER BY recorded_at DESC))[1] AS validator,
+  count(*)::int AS purchases,
+  sum(traffic_amount)::bigint AS traffic_bought,
+  coalesce(sum(traffic_amount) FILTER (WHERE amulet_paid IS NOT NULL), 0)::bigint AS priced_traffic,
+  coalesce(sum(amulet_paid), 0)::text AS amulet_paid,
+  coalesce(sum(traffic_amount) FILTER (WHERE recorded_at > now() - interval '30 days'), 0)::bigint AS traffic_bought_30d,
+  min(recorded_at) AS first_purchase_at,
+  max(recorded_at) AS last_purchase_at
+FROM public.validator_traffic_purchases
+GROUP BY member_id, synchronizer_id;
+
+-- The latest sample per member
+CREATE OR REPLACE VIEW public.member_traffic_latest WITH (security_invoker = true) AS
+SELECT DISTINCT ON (member_id, synchronizer_id)
+  member_id,
+  synchronizer_id,
+  sampled_at,
+  total_consumed,
+  total_limit,
+  total_purchased
+FROM public.member_traffic_samples
+ORDER BY member_id, synchronizer_id, sampled_at DESC;
+
+-- Consumption rate over the last 7 days, as the least-squares slope of
+-- total_consumed. A counter that went down was reset (e.g. by a migration),
+-- so only the samples from the last reset on are used.
+CREATE OR REPLACE VIEW public.member_traffic_burn WITH (security_invoker = true) AS
+WITH recent AS (
+  SELECT
+    member_id,
+    synchronizer_id,
+    sampled_at,
+    total_consumed,
+    lag(total_consumed) OVER (PARTITION BY member_id, synchronizer_id ORDER BY sampled_at) AS prev_consumed
+  FROM public.member_traffic_samples
+  WHERE sampled_at > now() - interval '7 days'
+),
+resets AS (
+  SELECT member_id, synchronizer_id, max(sampled_at) AS reset_at
+  FROM recent
+  WHERE total_consumed < prev_consumed
+  GROUP BY member_id, synchronizer_id
+)
+SELECT
+  r.member_id,
+  r.synchronizer_id,
+  count(*)::int AS samples,
+  min(r.sampled_at) AS window_start,
+  max(r.sampled_at) AS window_end,
+  regr_slope(r.total_consumed, extract(epoch FROM r.sampled_at)) * 86400 AS consumed_per_day
+FROM recent r
+LEFT JOIN resets s USING (member_id, synchronizer_id)
+WHERE s.reset_at IS NULL OR r.sampled_at >= s.reset_at
+GROUP BY r.member_id, r.synchronizer_id
+HAVING count(*) >= 2;
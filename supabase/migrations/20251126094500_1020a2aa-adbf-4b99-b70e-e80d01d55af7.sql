@@ -0,0 +1,386 @@
+-- ============================================
+-- App reward rates. The shared issuing round stream is read again from the
+-- beginning to fill the new columns.
+-- ============================================
+ALTER TABLE public.sv_reward_round_issuance
+  ADD COLUMN IF NOT EXISTS issuance_per_featured_app_reward NUMERIC,
+  ADD COLUMN IF NOT EXISTS issuance_per_unfeatured_app_reward NUMERIC;
+
+DELETE FROM public.ledger_sync_cursors WHERE name = 'issuing-rounds';
+
+-- The party a featured app vote is about, so votes can be matched with the
+-- FeaturedAppRight that followed
+ALTER TABLE public.featured_app_votes
+  ADD COLUMN IF NOT EXISTS provider TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_featured_app_votes_provider
+  ON public.featured_app_votes(provider);
+
+-- ============================================
+-- App activity (fed by the app-activity function)
+-- ============================================
+-- Create and revoke columns are written separately, so either may arrive first
+CREATE TABLE IF NOT EXISTS public.featured_app_rights (
+  contract_id TEXT PRIMARY KEY,
+  provider TEXT,
+  featured_at TIMESTAMPTZ,
+  featured_update_id TEXT,
+  revoked_at TIMESTAMPTZ,
+  revoke_choice TEXT,
+  revoke_update_id TEXT,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_featured_app_rights_provider
+  ON public.featured_app_rights(provider, featured_at);
+
+CREATE TABLE IF NOT EXISTS public.featured_app_markers (
+  contract_id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  beneficiary TEXT NOT NULL,
+  weight NUMERIC NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL,
+  update_id TEXT,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_featured_app_markers_provider_recorded
+  ON public.featured_app_markers(provider, recorded_at);
+
+CREATE TABLE IF NOT EXISTS public.app_reward_coupons (
+  contract_id TEXT PRIMARY KEY,
+  provider TEXT,
+  beneficiary TEXT,
+  featured BOOLEAN,
+  amount NUMERIC,                        -- activity; the reward is amount * the round's rate
+  round BIGINT,
+  created_at TIMESTAMPTZ,
+  created_update_id TEXT,
+  status TEXT NOT NULL DEFAULT 'outstanding',  -- outstanding | claimed | expired
+  closed_at TIMESTAMPTZ,
+  close_choice TEXT,
+  close_update_id TEXT,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_reward_coupons_provider_created
+  ON public.app_reward_coupons(provider, created_at);
+CREATE INDEX IF NOT EXISTS idx_app_reward_coupons_provider_closed
+  ON public.app_reward_coupons(provider, closed_at);
+CREATE INDEX IF NOT EXISTS idx_app_reward_coupons_provider_round
+  ON public.app_reward_coupons(provider, round);
+
+CREATE TABLE IF NOT EXISTS public.app_transfers (
+  event_id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  sender TEXT NOT NULL,
+  volume NUMERIC NOT NULL,
+  outputs INTEGER NOT NULL,
+  round BIGINT,
+  recorded_at TIMESTAMPTZ NOT NULL,
+  update_id TEXT,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_transfers_provider_recorded
+  ON public.app_transfers(provider, recorded_at);
+
+-- Per provider and UTC day, rebuilt by refresh_app_activity_daily. Coupons
+-- count as issued on their creation day and as claimed or expired on the
+-- day they were archived.
+CREATE TABLE IF NOT EXISTS public.app_activity_daily (
+  provider TEXT NOT NULL,
+  day DATE NOT NULL,
+  markers INTEGER NOT NULL DEFAULT 0,
+  marker_weight NUMERIC,
+  coupons_issued INTEGER NOT NULL DEFAULT 0,
+  featured_coupons INTEGER NOT NULL DEFAULT 0,
+  coupon_activity NUMERIC,
+  reward_issued NUMERIC,
+  unpriced_count INTEGER NOT NULL DEFAULT 0,
+  coupons_claimed INTEGER NOT NULL DEFAULT 0,
+  reward_claimed NUMERIC,
+  coupons_expired INTEGER NOT NULL DEFAULT 0,
+  reward_expired NUMERIC,
+  transfers INTEGER NOT NULL DEFAULT 0,
+  transfer_volume NUMERIC,
+  PRIMARY KEY (provider, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_activity_daily_day
+  ON public.app_activity_daily(day);
+CREATE INDEX IF NOT EXISTS idx_app_activity_daily_unpriced
+  ON public.app_activity_daily(provider, day)
+  WHERE unpriced_count > 0;
+
+-- Rebuilds the given (provider, day) buckets, and every bucket that still
+-- has unpriced coupons, since the rates of their rounds may have arrived
+CREATE OR REPLACE FUNCTION public.refresh_app_activity_daily(
+  _providers TEXT[],
+  _days DATE[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  CREATE TEMP TABLE _touched ON COMMIT DROP AS
+  SELECT t.provider, t.day FROM unnest(_providers, _days) AS t(provider, day)
+  UNION
+  SELECT d.provider, d.day FROM public.app_activity_daily d WHERE d.unpriced_count > 0;
+
+  DELETE FROM public.app_activity_daily d
+  USING _touched t
+  WHERE d.provider = t.provider AND d.day = t.day;
+
+  INSERT INTO public.app_activity_daily (
+    provider, day, markers, marker_weight, coupons_issued, featured_coupons, coupon_activity, reward_issued,
+    unpriced_count, coupons_claimed, reward_claimed, coupons_expired, reward_expired, transfers, transfer_volume
+  )
+  SELECT
+    t.provider,
+    t.day,
+    coalesce(m.markers, 0),
+    m.weight,
+    coalesce(i.coupons, 0),
+    coalesce(i.featured, 0),
+    i.activity,
+    i.reward,
+    coalesce(i.unpriced, 0),
+    coalesce(c.claimed, 0),
+    c.claimed_reward,
+    coalesce(c.expired, 0),
+    c.expired_reward,
+    coalesce(x.transfers, 0),
+    x.volume
+  FROM _touched t
+  CROSS JOIN LATERAL (
+    SELECT
+      (t.day::timestamp AT TIME ZONE 'UTC') AS day_start,
+      ((t.day + 1)::timestamp AT TIME ZONE 'UTC') AS day_end
+  ) r
+  LEFT JOIN LATERAL (
+    SELECT count(*)::int AS markers, sum(weight) AS weight
+    FROM public.featured_app_markers
+    WHERE provider = t.provider AND recorded_at >= r.day_start AND recorded_at < r.day_end
+  ) m ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*)::int AS coupons,
+      count(*) FILTER (WHERE a.featured)::int AS featured,
+      sum(a.amount) AS activity,
+      sum(a.amount * CASE WHEN a.featured THEN s.issuance_per_featured_app_reward
+                          ELSE s.issuance_per_unfeatured_app_reward END) AS reward,
+      count(*) FILTER (WHERE s.issuance_per_featured_app_reward IS NULL)::int AS unpriced
+    FROM public.app_reward_coupons a
+    LEFT JOIN public.sv_reward_round_issuance s ON s.round = a.round
+    WHERE a.provider = t.provider AND a.created_at >= r.day_start AND a.created_at < r.day_end
+  ) i ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE a.status = 'claimed')::int AS claimed,
+      sum(a.amount * CASE WHEN a.featured THEN s.issuance_per_featured_app_reward
+                          ELSE s.issuance_per_unfeatured_app_reward END) FILTER (WHERE a.status = 'claimed') AS claimed_reward,
+      count(*) FILTER (WHERE a.status = 'expired')::int AS expired,
+      sum(a.amount * CASE WHEN a.featured THEN s.issuance_per_featured_app_reward
+                          ELSE s.issuance_per_unfeatured_app_reward END) FILTER (WHERE a.status = 'expired') AS expired_reward
+    FROM public.app_reward_coupons a
+    LEFT JOIN public.sv_reward_round_issuance s ON s.round = a.round
+    WHERE a.provider = t.provider AND a.closed_at >= r.day_start AND a.closed_at < r.day_end
+  ) c ON true
+  LEFT JOIN LATERAL (
+    SELECT count(*)::int AS transfers, sum(volume) AS volume
+    FROM public.app_transfers
+    WHERE provider = t.provider AND recorded_at >= r.day_start AND recorded_at < r.day_end
+  ) x ON true
+  WHERE coalesce(m.markers, 0) + coalesce(i.coupons, 0) + coalesce(c.claimed, 0) + coalesce(c.expired, 0)
+        + coalesce(x.transfers, 0) > 0;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_app_activity_daily(TEXT[], DATE[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_app_activity_daily(TEXT[], DATE[]) TO service_role;
+
+-- Markers and app rewards per provider and round. Markers carry no round,
+-- so they count towards the first round whose issuing round opened after
+-- them, i.e. the open round they were recorded in; markers of rounds that
+-- are not issuing yet have no round.
+CREATE OR REPLACE VIEW public.app_rewards_by_round WITH (security_invoker = true) AS
+WITH markers AS (
+  SELECT m.provider, r.round, count(*)::int AS markers, sum(m.weight) AS marker_weight
+  FROM public.featured_app_markers m
+  LEFT JOIN LATERAL (
+    SELECT i.round
+    FROM public.sv_reward_round_issuance i
+    WHERE i.opened_at > m.recorded_at
+    ORDER BY i.opened_at
+    LIMIT 1
+  ) r ON true
+  GROUP BY m.provider, r.round
+),
+coupons AS (
+  SELECT
+    a.provider,
+    a.round,
+    count(*)::int AS coupons,
+    count(*) FILTER (WHERE a.featured)::int AS featured_coupons,
+    sum(a.amount * CASE WHEN a.featured THEN s.issuance_per_featured_app_reward
+                        ELSE s.issuance_per_unfeatured_app_reward END) AS reward,
+    count(*) FILTER (WHERE a.status = 'claimed')::int AS claimed,
+    count(*) FILTER (WHERE a.status = 'expired')::int AS expired
+  FROM public.app_reward_coupons a
+  LEFT JOIN public.sv_reward_round_issuance s ON s.round = a.round
+  WHERE a.provider IS NOT NULL
+  GROUP BY a.provider, a.round
+)
+SELECT
+  coalesce(c.provider, m.provider) AS provider,
+  coalesce(c.round, m.round) AS round,
+  coalesce(m.markers, 0) AS markers,
+  m.marker_weight::text AS marker_weight,
+  coalesce(c.coupons, 0) AS coupons,
+  coalesce(c.featured_coupons, 0) AS featured_coupons,
+  c.reward::text AS reward,
+  coalesce(c.claimed, 0) AS claimed,
+  coalesce(c.expired, 0) AS expired
+FROM coupons c
+FULL JOIN markers m ON m.provider = c.provider AND m.round = c.round;
+
+-- Every app that was ever featured: when, whether it still is, the vote
+-- that featured it and its lifetime activity
+CREATE OR REPLACE VIEW public.featured_apps WITH (security_invoker = true) AS
+WITH rights AS (
+  SELECT
+    provider,
+    min(featured_at) AS first_featured_at,
+    max(featured_at) AS last_featured_at,
+    bool_or(featured_at IS NOT NULL AND revoked_at IS NULL) AS active,
+    max(revoked_at) AS last_revoked_at,
+    count(*)::int AS rights
+  FROM public.featured_app_rights
+  WHERE provider IS NOT NULL
+  GROUP BY provider
+),
+votes AS (
+  SELECT DISTINCT ON (v.provider)
+    v.provider,
+    v.id AS vote_id,
+    v.app_name,
+    v.status AS vote_status,
+    v.created_at AS voted_at,
+    (SELECT coalesce(sum(cv.weight) FILTER (WHERE cv.vote = 'yes'), 0)::int
+       FROM public.featured_app_committee_votes cv WHERE cv.featured_app_id = v.id) AS yes_weight,
+    (SELECT coalesce(sum(cv.weight), 0)::int
+       FROM public.featured_app_committee_votes cv WHERE cv.featured_app_id = v.id) AS total_weight
+  FROM public.featured_app_votes v
+  WHERE v.provider IS NOT NULL
+  ORDER BY v.provider, v.created_at DESC
+),
+totals AS (
+  SELECT
+    provider,
+    sum(markers)::bigint AS markers,
+    sum(coupons_issued)::bigint AS coupons_issued,
+    sum(reward_issued) AS reward_issued,
+    sum(reward_claimed) AS reward_claimed,
+    sum(reward_expired) AS reward_expired,
+    sum(transfers)::bigint AS transfers,
+    sum(transfer_volume) AS transfer_volume,
+    max(day) AS last_active_day
+  FROM public.app_activity_daily
+  GROUP BY provider
+)
+SELECT
+  r.provider,
+  r.first_featured_at,
+  r.last_featured_at,
+  r.active,
+  r.last_revoked_at,
+  r.rights,
+  v.vote_id,
+  v.app_name,
+  v.vote_status,
+  v.voted_at,
+  v.yes_weight,
+  v.total_weight,
+  coalesce(t.markers, 0) AS markers,
+  coalesce(t.coupons_issued, 0) AS coupons_issued,
+  coalesce(t.reward_issued, 0)::text AS reward_issued,
+  coalesce(t.reward_claimed, 0)::text AS reward_claimed,
+  coalesce(t.reward_expired, 0)::text AS reward_expired,
+  coalesce(t.transfers, 0) AS transfers,
+  coalesce(t.transfer_volume, 0)::text AS transfer_volume,
+  to_char(t.last_active_day, 'YYYY-MM-DD') AS last_active_day
+FROM rights r
+LEFT JOIN votes v ON v.provider = r.provider
+LEFT JOIN totals t ON t.provider = r.provider;
+
+-- The sync reads these templates in ingestion order
+CREATE INDEX IF NOT EXISTS idx_ledger_events_featured_app_rights_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:FeaturedAppRight';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_featured_app_markers_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:FeaturedAppActivityMarker';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_app_reward_coupons_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:AppRewardCoupon';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_amulet_transfers_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:AmuletRules' AND raw->>'choice' = 'AmuletRules_Transfer';
+
+ALTER TABLE public.featured_app_rights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.featured_app_markers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.app_reward_coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.app_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.app_activity_daily ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read featured_app_rights" ON public.featured_app_rights;
+CREATE POLICY "Public read featured_app_rights"
+  ON public.featured_app_rights FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write featured_app_rights" ON public.featured_app_rights;
+CREATE POLICY "Admins write featured_app_rights"
+  ON public.featured_app_rights FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read featured_app_markers" ON public.featured_app_markers;
+CREATE POLICY "Public read featured_app_markers"
+  ON public.featured_app_markers FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write featured_app_markers" ON public.featured_app_markers;
+CREATE POLICY "Admins write featured_app_markers"
+  ON public.featured_app_markers FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read app_reward_coupons" ON public.app_reward_coupons;
+CREATE POLICY "Public read app_reward_coupons"
+  ON public.app_reward_coupons FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write app_reward_coupons" ON public.app_reward_coupons;
+CREATE POLICY "Admins write app_reward_coupons"
+  ON public.app_reward_coupons FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read app_transfers" ON public.app_transfers;
+CREATE POLICY "Public read app_transfers"
+  ON public.app_transfers FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write app_transfers" ON public.app_transfers;
+CREATE POLICY "Admins write app_transfers"
+  ON public.app_transfers FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read app_activity_daily" ON public.app_activity_daily;
+CREATE POLICY "Public read app_activity_daily"
+  ON public.app_activity_daily FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write app_activity_daily" ON public.app_activity_daily;
+CREATE POLICY "Admins write app_activity_daily"
+  ON public.app_activity_daily FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,132 @@
+-- ============================================
+-- ANS name registry (fed by the ans-registry function)
+-- ============================================
+-- Every AnsEntry contract ever created. A renewal archives the entry and
+-- creates a new one with a later expiry, so a name's history is the
+-- sequence of its entries. Create and archive columns are written
+-- separately, so either may arrive first.
+CREATE TABLE IF NOT EXISTS public.ans_entries (
+  contract_id TEXT PRIMARY KEY,
+  name TEXT,
+  owner TEXT,                            -- the entry's `user`
+  url TEXT,
+  description TEXT,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  created_update_id TEXT,
+  archived_at TIMESTAMPTZ,
+  archive_choice TEXT,
+  archive_update_id TEXT,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ans_entries_name_created
+  ON public.ans_entries(name, created_at);
+CREATE INDEX IF NOT EXISTS idx_ans_entries_owner
+  ON public.ans_entries(owner);
+CREATE INDEX IF NOT EXISTS idx_ans_entries_created_update
+  ON public.ans_entries(created_update_id);
+CREATE INDEX IF NOT EXISTS idx_ans_entries_open_expiry
+  ON public.ans_entries(expires_at) WHERE archived_at IS NULL;
+
+-- Subscription payments the DSO collected on an AnsEntryContext. The entry
+-- the payment paid for is created in the same update.
+CREATE TABLE IF NOT EXISTS public.ans_entry_payments (
+  event_id TEXT PRIMARY KEY,
+  context_contract_id TEXT NOT NULL,
+  kind TEXT NOT NULL,                    -- initial | renewal
+  choice TEXT NOT NULL,
+  payment_contract_id TEXT,
+  recorded_at TIMESTAMPTZ NOT NULL,
+  update_id TEXT NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ans_entry_payments_update
+  ON public.ans_entry_payments(update_id);
+
+-- Entries with the payment that created them, for the per-name history
+CREATE OR REPLACE VIEW public.ans_entry_history WITH (security_invoker = true) AS
+SELECT
+  e.contract_id,
+  e.name,
+  e.owner,
+  e.url,
+  e.description,
+  e.expires_at,
+  e.created_at,
+  e.created_update_id,
+  e.archived_at,
+  e.archive_choice,
+  e.archive_update_id,
+  p.kind AS payment_kind,
+  p.payment_contract_id
+FROM public.ans_entries e
+LEFT JOIN LATERAL (
+  SELECT kind, payment_contract_id
+  FROM public.ans_entry_payments
+  WHERE update_id = e.created_update_id
+  ORDER BY recorded_at
+  LIMIT 1
+) p ON true
+WHERE e.name IS NOT NULL;
+
+-- The latest entry of every name, with when the name was first registered
+CREATE OR REPLACE VIEW public.ans_names WITH (security_invoker = true) AS
+SELECT DISTINCT ON (e.name)
+  e.name,
+  e.owner,
+  e.url,
+  e.description,
+  e.contract_id,
+  e.expires_at,
+  e.created_at AS entry_created_at,
+  e.archived_at,
+  e.archive_choice,
+  e.archived_at IS NULL AS active,
+  min(e.created_at) OVER (PARTITION BY e.name) AS first_registered_at,
+  count(*) OVER (PARTITION BY e.name)::int AS entries
+FROM public.ans_entries e
+WHERE e.name IS NOT NULL AND e.created_at IS NOT NULL
+ORDER BY e.name, e.created_at DESC;
+
+-- One name per party for reverse lookups: the active name it has held the
+-- longest
+CREATE OR REPLACE VIEW public.ans_party_names WITH (security_invoker = true) AS
+SELECT DISTINCT ON (owner)
+  owner,
+  name,
+  expires_at
+FROM public.ans_names
+WHERE active AND owner IS NOT NULL
+ORDER BY owner, first_registered_at, name;
+
+-- The sync reads these templates in ingestion order
+CREATE INDEX IF NOT EXISTS idx_ledger_events_ans_entries_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:AnsEntry';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_ans_entry_contexts_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:AnsEntryContext';
+
+ALTER TABLE public.ans_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ans_entry_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read ans_entries" ON public.ans_entries;
+CREATE POLICY "Public read ans_entries"
+  ON public.ans_entries FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write ans_entries" ON public.ans_entries;
+CREATE POLICY "Admins write ans_entries"
+  ON public.ans_entries FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read ans_entry_payments" ON public.ans_entry_payments;
+CREATE POLICY "Public read ans_entry_payments"
+  ON public.ans_entry_payments FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write ans_entry_payments" ON public.ans_entry_payments;
+CREATE POLICY "Admins write ans_entry_payments"
+  ON public.ans_entry_payments FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,133 @@
+-- ============================================
+-- Subscription ledger (fed by the subscription-ledger function)
+-- ============================================
+-- Every SubscriptionInitialPayment, SubscriptionPayment and
+-- SubscriptionIdleState contract. Contracts of one subscription share its
+-- reference. Create and archive columns are written separately, so either
+-- may arrive first.
+CREATE TABLE IF NOT EXISTS public.subscription_contracts (
+  contract_id TEXT PRIMARY KEY,
+  kind TEXT,                             -- initial_payment | payment | idle
+  reference TEXT,
+  sender TEXT,
+  receiver TEXT,
+  provider TEXT,
+  description TEXT,
+  payment_amount NUMERIC,
+  payment_unit TEXT,
+  payment_interval_us BIGINT,
+  due_at TIMESTAMPTZ,                    -- thisPaymentDueAt or nextPaymentDueAt
+  created_at TIMESTAMPTZ,
+  created_update_id TEXT,
+  archived_at TIMESTAMPTZ,
+  archive_choice TEXT,
+  archive_update_id TEXT,
+  collected_amulet NUMERIC,              -- set when a payment is collected
+  transfer_fees NUMERIC,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_contracts_reference
+  ON public.subscription_contracts(reference, created_at);
+CREATE INDEX IF NOT EXISTS idx_subscription_contracts_collected
+  ON public.subscription_contracts(archived_at)
+  WHERE archive_choice IN ('SubscriptionInitialPayment_Collect', 'SubscriptionPayment_Collect');
+
+-- One row per subscription: its terms, where it stands and what it paid.
+-- The latest contract decides the status; an archived one whose successor
+-- is not synced yet counts as still running.
+CREATE OR REPLACE VIEW public.subscription_ledger WITH (security_invoker = true) AS
+WITH c AS (
+  SELECT * FROM public.subscription_contracts
+  WHERE reference IS NOT NULL AND created_at IS NOT NULL
+),
+terms AS (
+  SELECT DISTINCT ON (reference)
+    reference, sender, receiver, provider, description, payment_amount, payment_unit, payment_interval_us,
+    created_at AS requested_at
+  FROM c
+  ORDER BY reference, created_at, contract_id
+),
+latest AS (
+  SELECT DISTINCT ON (reference)
+    reference, kind, due_at, archived_at, archive_choice
+  FROM c
+  ORDER BY reference, created_at DESC, contract_id DESC
+),
+payments AS (
+  SELECT
+    reference,
+    count(*) FILTER (WHERE archive_choice IN ('SubscriptionInitialPayment_Collect', 'SubscriptionPayment_Collect'))::int
+      AS payments_collected,
+    count(*) FILTER (WHERE archived_at IS NOT NULL
+      AND archive_choice NOT IN ('SubscriptionInitialPayment_Collect', 'SubscriptionPayment_Collect'))::int
+      AS payments_failed,
+    coalesce(sum(collected_amulet), 0) AS collected_amulet,
+    min(archived_at) FILTER (WHERE archive_choice = 'SubscriptionInitialPayment_Collect') AS started_at,
+    max(archived_at) FILTER (WHERE archive_choice IN ('SubscriptionInitialPayment_Collect', 'SubscriptionPayment_Collect'))
+      AS last_paid_at
+  FROM c
+  WHERE kind IN ('initial_payment', 'payment')
+  GROUP BY reference
+),
+status AS (
+  SELECT
+    l.reference,
+    CASE
+      WHEN l.kind = 'initial_payment' AND l.archived_at IS NULL THEN 'pending'
+      WHEN l.kind = 'initial_payment' AND l.archive_choice <> 'SubscriptionInitialPayment_Collect' THEN 'rejected'
+      WHEN l.kind = 'payment' AND l.archived_at IS NULL THEN 'paying'
+      WHEN l.kind = 'idle' AND l.archive_choice = 'SubscriptionIdleState_ExpireSubscription' THEN 'expired'
+      WHEN l.kind = 'idle' AND l.archive_choice = 'SubscriptionIdleState_CancelSubscription' THEN 'cancelled'
+      ELSE 'active'
+    END AS status,
+    l.kind,
+    l.due_at,
+    l.archived_at
+  FROM latest l
+)
+SELECT
+  t.reference,
+  t.sender,
+  t.receiver,
+  t.provider,
+  t.description,
+  t.payment_amount::text AS payment_amount,
+  t.payment_unit,
+  t.payment_interval_us,
+  s.status,
+  t.requested_at,
+  p.started_at,
+  CASE WHEN s.status IN ('expired', 'cancelled', 'rejected') THEN s.archived_at END AS ended_at,
+  CASE WHEN s.status IN ('active', 'paying') AND s.kind IN ('idle', 'payment') THEN s.due_at END AS next_payment_due_at,
+  coalesce(p.payments_collected, 0) AS payments_collected,
+  coalesce(p.payments_failed, 0) AS payments_failed,
+  coalesce(p.collected_amulet, 0)::text AS collected_amulet,
+  p.last_paid_at
+FROM terms t
+JOIN status s ON s.reference = t.reference
+LEFT JOIN payments p ON p.reference = t.reference;
+
+-- The sync reads these templates in ingestion order
+CREATE INDEX IF NOT EXISTS idx_ledger_events_subscription_initial_payments_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:SubscriptionInitialPayment';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_subscription_payments_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:SubscriptionPayment';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_events_subscription_idle_states_ingest
+  ON public.ledger_events (created_at, event_id)
+  WHERE template_id LIKE '%:SubscriptionIdleState';
+
+ALTER TABLE public.subscription_contracts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read subscription_contracts" ON public.subscription_contracts;
+CREATE POLICY "Public read subscription_contracts"
+  ON public.subscription_contracts FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write subscription_contracts" ON public.subscription_contracts;
+CREATE POLICY "Admins write subscription_contracts"
+  ON public.subscription_contracts FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,106 @@
+-- ============================================
+-- Transfer flows (fed by the transfer-flows function)
+-- ============================================
+-- One row per output of an AmuletRules_Transfer: who sent how much to whom
+CREATE TABLE IF NOT EXISTS public.transfer_flows (
+  event_id TEXT NOT NULL,
+  output_index INTEGER NOT NULL,
+  sender TEXT NOT NULL,
+  receiver TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  provider TEXT,
+  round BIGINT,
+  recorded_at TIMESTAMPTZ NOT NULL,
+  update_id TEXT NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (event_id, output_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_flows_recorded
+  ON public.transfer_flows(recorded_at);
+CREATE INDEX IF NOT EXISTS idx_transfer_flows_sender_recorded
+  ON public.transfer_flows(sender, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_transfer_flows_receiver_recorded
+  ON public.transfer_flows(receiver, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_transfer_flows_amount_recorded
+  ON public.transfer_flows(amount DESC, recorded_at);
+
+-- Sender -> receiver edges from _from until _to over the outputs of at least
+-- _min_amount, optionally only those touching one of _parties. Largest
+-- amount first; flows from a party to itself are left out.
+CREATE OR REPLACE FUNCTION public.transfer_flow_edges(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _min_amount NUMERIC DEFAULT 0,
+  _parties TEXT[] DEFAULT NULL,
+  _limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  sender TEXT,
+  receiver TEXT,
+  transfers INTEGER,
+  amount TEXT,
+  first_at TIMESTAMPTZ,
+  last_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    f.sender,
+    f.receiver,
+    count(*)::int AS transfers,
+    sum(f.amount)::text AS amount,
+    min(f.recorded_at) AS first_at,
+    max(f.recorded_at) AS last_at
+  FROM public.transfer_flows f
+  WHERE f.recorded_at >= _from AND f.recorded_at < _to
+    AND f.amount >= coalesce(_min_amount, 0)
+    AND f.sender <> f.receiver
+    AND (_parties IS NULL OR cardinality(_parties) = 0
+         OR f.sender = ANY(_parties) OR f.receiver = ANY(_parties))
+  GROUP BY f.sender, f.receiver
+  ORDER BY sum(f.amount) DESC, count(*) DESC
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The parties _party exchanged the most with from _from until _to, in both
+-- directions
+CREATE OR REPLACE FUNCTION public.transfer_counterparties(
+  _party TEXT,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  party TEXT,
+  sent TEXT,
+  received TEXT,
+  transfers INTEGER
+) AS $$
+  WITH flows AS (
+    SELECT receiver AS party, amount AS sent, 0::numeric AS received
+    FROM public.transfer_flows
+    WHERE sender = _party AND receiver <> _party AND recorded_at >= _from AND recorded_at < _to
+    UNION ALL
+    SELECT sender AS party, 0::numeric AS sent, amount AS received
+    FROM public.transfer_flows
+    WHERE receiver = _party AND sender <> _party AND recorded_at >= _from AND recorded_at < _to
+  )
+  SELECT party, sum(sent)::text, sum(received)::text, count(*)::int
+  FROM flows
+  GROUP BY party
+  ORDER BY sum(sent) + sum(received) DESC
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The sync reads AmuletRules_Transfer exercises in ingestion order, using the
+-- index the app-activity sync created for the same events
+
+ALTER TABLE public.transfer_flows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read transfer_flows" ON public.transfer_flows;
+CREATE POLICY "Public read transfer_flows"
+  ON public.transfer_flows FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write transfer_flows" ON public.transfer_flows;
+CREATE POLICY "Admins write transfer_flows"
+  ON public.transfer_flows FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,102 @@
+-- ============================================
+-- Rich list history (fed by the rich-list-history function)
+-- ============================================
+-- Concentration of holdings per completed ACS snapshot. Balances are
+-- effective amounts (after holding fees) at as_of_round; nominal_total is
+-- the sum of initialAmount for comparison.
+CREATE TABLE IF NOT EXISTS public.rich_list_snapshots (
+  snapshot_id UUID PRIMARY KEY REFERENCES public.acs_snapshots(id) ON DELETE CASCADE,
+  record_time TIMESTAMPTZ NOT NULL,
+  migration_id INTEGER NOT NULL,
+  as_of_round BIGINT,
+  holders INTEGER NOT NULL,
+  total NUMERIC NOT NULL,
+  locked NUMERIC NOT NULL,
+  nominal_total NUMERIC NOT NULL,
+  gini DOUBLE PRECISION,
+  top10_share DOUBLE PRECISION,
+  top100_share DOUBLE PRECISION,
+  nakamoto_coefficient INTEGER,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rich_list_snapshots_record_time
+  ON public.rich_list_snapshots(record_time);
+
+-- The largest holders of each snapshot, by rank
+CREATE TABLE IF NOT EXISTS public.rich_list_holders (
+  snapshot_id UUID NOT NULL REFERENCES public.rich_list_snapshots(snapshot_id) ON DELETE CASCADE,
+  owner TEXT NOT NULL,
+  rank INTEGER NOT NULL,
+  unlocked NUMERIC NOT NULL,
+  locked NUMERIC NOT NULL,
+  total NUMERIC NOT NULL,
+  nominal_total NUMERIC NOT NULL,
+  PRIMARY KEY (snapshot_id, owner)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rich_list_holders_owner
+  ON public.rich_list_holders(owner, snapshot_id);
+CREATE INDEX IF NOT EXISTS idx_rich_list_holders_rank
+  ON public.rich_list_holders(snapshot_id, rank);
+
+-- One holder's rank over the snapshot chain
+CREATE OR REPLACE VIEW public.rich_list_holder_history WITH (security_invoker = true) AS
+SELECT
+  h.snapshot_id,
+  s.record_time,
+  s.migration_id,
+  h.owner,
+  h.rank,
+  h.unlocked::text AS unlocked,
+  h.locked::text AS locked,
+  h.total::text AS total
+FROM public.rich_list_holders h
+JOIN public.rich_list_snapshots s ON s.snapshot_id = h.snapshot_id;
+
+-- ============================================
+-- Party labels
+-- ============================================
+-- Who is behind a party the ledger cannot tell: exchange and foundation
+-- wallets, custodians. SVs, featured apps and the DSO are labelled from
+-- their own sources and only need a row here to override that.
+CREATE TABLE IF NOT EXISTS public.party_labels (
+  party TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'other'
+    CHECK (kind IN ('exchange', 'foundation', 'custodian', 'sv', 'app', 'dso', 'other')),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.rich_list_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rich_list_holders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.party_labels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read rich_list_snapshots" ON public.rich_list_snapshots;
+CREATE POLICY "Public read rich_list_snapshots"
+  ON public.rich_list_snapshots FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write rich_list_snapshots" ON public.rich_list_snapshots;
+CREATE POLICY "Admins write rich_list_snapshots"
+  ON public.rich_list_snapshots FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read rich_list_holders" ON public.rich_list_holders;
+CREATE POLICY "Public read rich_list_holders"
+  ON public.rich_list_holders FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write rich_list_holders" ON public.rich_list_holders;
+CREATE POLICY "Admins write rich_list_holders"
+  ON public.rich_list_holders FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Public read party_labels" ON public.party_labels;
+CREATE POLICY "Public read party_labels"
+  ON public.party_labels FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write party_labels" ON public.party_labels;
+CREATE POLICY "Admins write party_labels"
+  ON public.party_labels FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,87 @@
+-- ============================================
+-- Validator activity repricing. The validator-activity function reads the
+-- issuing round stream under its own cursor and rebuilds only the buckets
+-- of the rounds it read; rebuilding every unpriced bucket on each run never
+-- ends for rounds whose IssuingMiningRound predates the ingested history.
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_validator_activity_round
+  ON public.validator_activity(round);
+
+DROP FUNCTION IF EXISTS public.refresh_validator_activity_daily(TEXT[], DATE[]);
+
+-- Rebuilds the given (validator, day) buckets, and every bucket holding
+-- activity of `_rounds`, the rounds whose rates the caller just read
+CREATE OR REPLACE FUNCTION public.refresh_validator_activity_daily(
+  _validators TEXT[],
+  _days DATE[],
+  _rounds BIGINT[] DEFAULT '{}'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  CREATE TEMP TABLE _touched ON COMMIT DROP AS
+  SELECT t.validator, t.day FROM unnest(_validators, _days) AS t(validator, day)
+  UNION
+  SELECT x.validator, (x.recorded_at AT TIME ZONE 'UTC')::date
+  FROM public.validator_activity x
+  WHERE x.round = ANY(_rounds);
+
+  DELETE FROM public.validator_activity_daily d
+  USING _touched t
+  WHERE d.validator = t.validator AND d.day = t.day;
+
+  INSERT INTO public.validator_activity_daily (
+    validator, day, liveness_rounds, min_round, max_round, reward_coupons, reward_activity, reward_amount,
+    faucet_amount, unpriced_count, traffic_purchases, traffic_bought, traffic_amulet_paid
+  )
+  SELECT
+    t.validator,
+    t.day,
+    coalesce(a.liveness_rounds, 0),
+    a.min_round,
+    a.max_round,
+    coalesce(a.reward_coupons, 0),
+    a.reward_activity,
+    a.reward_amount,
+    a.faucet_amount,
+    coalesce(a.unpriced_count, 0),
+    coalesce(p.purchases, 0),
+    coalesce(p.bought, 0),
+    p.amulet_paid
+  FROM _touched t
+  LEFT JOIN LATERAL (
+    SELECT
+      count(DISTINCT x.round) FILTER (WHERE x.kind IN ('liveness', 'faucet'))::int AS liveness_rounds,
+      min(x.round) FILTER (WHERE x.kind IN ('liveness', 'faucet')) AS min_round,
+      max(x.round) FILTER (WHERE x.kind IN ('liveness', 'faucet')) AS max_round,
+      count(*) FILTER (WHERE x.kind = 'reward')::int AS reward_coupons,
+      sum(x.activity) FILTER (WHERE x.kind = 'reward') AS reward_activity,
+      sum(x.activity * i.issuance_per_validator_reward) FILTER (WHERE x.kind = 'reward') AS reward_amount,
+      sum(i.issuance_per_validator_faucet) FILTER (WHERE x.kind IN ('liveness', 'faucet')) AS faucet_amount,
+      count(*) FILTER (WHERE i.round IS NULL)::int AS unpriced_count
+    FROM public.validator_activity x
+    LEFT JOIN public.sv_reward_round_issuance i ON i.round = x.round
+    WHERE x.validator = t.validator
+      AND x.recorded_at >= (t.day::timestamp AT TIME ZONE 'UTC')
+      AND x.recorded_at < ((t.day + 1)::timestamp AT TIME ZONE 'UTC')
+  ) a ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*)::int AS purchases,
+      sum(y.traffic_amount)::bigint AS bought,
+      sum(y.amulet_paid) AS amulet_paid
+    FROM public.validator_traffic_purchases y
+    WHERE y.validator = t.validator
+      AND y.recorded_at >= (t.day::timestamp AT TIME ZONE 'UTC')
+      AND y.recorded_at < ((t.day + 1)::timestamp AT TIME ZONE 'UTC')
+  ) p ON true
+  WHERE coalesce(a.liveness_rounds, 0) + coalesce(a.reward_coupons, 0) + coalesce(p.purchases, 0) > 0;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_validator_activity_daily(TEXT[], DATE[], BIGINT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_validator_activity_daily(TEXT[], DATE[], BIGINT[]) TO service_role;
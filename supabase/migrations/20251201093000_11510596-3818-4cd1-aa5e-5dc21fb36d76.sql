@@ -0,0 +1,109 @@
+-- ============================================
+-- App activity repricing. The app-activity function reads the issuing round
+-- stream under its own cursor and rebuilds the buckets of the rounds it
+-- read, on the days their coupons were created and closed. Claimed and
+-- expired rewards of a close synced before its round's rate are repriced
+-- this way too; unpriced_count only covered the creation day.
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_app_reward_coupons_round
+  ON public.app_reward_coupons(round);
+
+DROP FUNCTION IF EXISTS public.refresh_app_activity_daily(TEXT[], DATE[]);
+
+-- Rebuilds the given (provider, day) buckets, and every bucket holding a
+-- coupon of `_rounds`, the rounds whose rates the caller just read: the
+-- days the coupon was created and closed on
+CREATE OR REPLACE FUNCTION public.refresh_app_activity_daily(
+  _providers TEXT[],
+  _days DATE[],
+  _rounds BIGINT[] DEFAULT '{}'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  CREATE TEMP TABLE _touched ON COMMIT DROP AS
+  SELECT t.provider, t.day FROM unnest(_providers, _days) AS t(provider, day)
+  UNION
+  SELECT a.provider, (a.created_at AT TIME ZONE 'UTC')::date
+  FROM public.app_reward_coupons a
+  WHERE a.round = ANY(_rounds) AND a.provider IS NOT NULL AND a.created_at IS NOT NULL
+  UNION
+  SELECT a.provider, (a.closed_at AT TIME ZONE 'UTC')::date
+  FROM public.app_reward_coupons a
+  WHERE a.round = ANY(_rounds) AND a.provider IS NOT NULL AND a.closed_at IS NOT NULL;
+
+  DELETE FROM public.app_activity_daily d
+  USING _touched t
+  WHERE d.provider = t.provider AND d.day = t.day;
+
+  INSERT INTO public.app_activity_daily (
+    provider, day, markers, marker_weight, coupons_issued, featured_coupons, coupon_activity, reward_issued,
+    unpriced_count, coupons_claimed, reward_claimed, coupons_expired, reward_expired, transfers, transfer_volume
+  )
+  SELECT
+    t.provider,
+    t.day,
+    coalesce(m.markers, 0),
+    m.weight,
+    coalesce(i.coupons, 0),
+    coalesce(i.featured, 0),
+    i.activity,
+    i.reward,
+    coalesce(i.unpriced, 0),
+    coalesce(c.claimed, 0),
+    c.claimed_reward,
+    coalesce(c.expired, 0),
+    c.expired_reward,
+    coalesce(x.transfers, 0),
+    x.volume
+  FROM _touched t
+  CROSS JOIN LATERAL (
+    SELECT
+      (t.day::timestamp AT TIME ZONE 'UTC') AS day_start,
+      ((t.day + 1)::timestamp AT TIME ZONE 'UTC') AS day_end
+  ) r
+  LEFT JOIN LATERAL (
+    SELECT count(*)::int AS markers, sum(weight) AS weight
+    FROM public.featured_app_markers
+    WHERE provider = t.provider AND recorded_at >= r.day_start AND recorded_at < r.day_end
+  ) m ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*)::int AS coupons,
+      count(*) FILTER (WHERE a.featured)::int AS featured,
+      sum(a.amount) AS activity,
+      sum(a.amount * CASE WHEN a.featured THEN s.issuance_per_featured_app_reward
+                          ELSE s.issuance_per_unfeatured_app_reward END) AS reward,
+      count(*) FILTER (WHERE s.issuance_per_featured_app_reward IS NULL)::int AS unpriced
+    FROM public.app_reward_coupons a
+    LEFT JOIN public.sv_reward_round_issuance s ON s.round = a.round
+    WHERE a.provider = t.provider AND a.created_at >= r.day_start AND a.created_at < r.day_end
+  ) i ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE a.status = 'claimed')::int AS claimed,
+      sum(a.amount * CASE WHEN a.featured THEN s.issuance_per_featured_app_reward
+                          ELSE s.issuance_per_unfeatured_app_reward END) FILTER (WHERE a.status = 'claimed') AS claimed_reward,
+      count(*) FILTER (WHERE a.status = 'expired')::int AS expired,
+      sum(a.amount * CASE WHEN a.featured THEN s.issuance_per_featured_app_reward
+                          ELSE s.issuance_per_unfeatured_app_reward END) FILTER (WHERE a.status = 'expired') AS expired_reward
+    FROM public.app_reward_coupons a
+    LEFT JOIN public.sv_reward_round_issuance s ON s.round = a.round
+    WHERE a.provider = t.provider AND a.closed_at >= r.day_start AND a.closed_at < r.day_end
+  ) c ON true
+  LEFT JOIN LATERAL (
+    SELECT count(*)::int AS transfers, sum(volume) AS volume
+    FROM public.app_transfers
+    WHERE provider = t.provider AND recorded_at >= r.day_start AND recorded_at < r.day_end
+  ) x ON true
+  WHERE coalesce(m.markers, 0) + coalesce(i.coupons, 0) + coalesce(c.claimed, 0) + coalesce(c.expired, 0)
+        + coalesce(x.transfers, 0) > 0;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_app_activity_daily(TEXT[], DATE[], BIGINT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_app_activity_daily(TEXT[], DATE[], BIGINT[]) TO service_role;
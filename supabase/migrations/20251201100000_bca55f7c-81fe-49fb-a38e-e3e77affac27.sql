@@ -0,0 +1,6 @@
+-- ============================================
+-- Every job now reads the issuing round stream under its own cursor
+-- (sv-reward-ledger:issuing-rounds, validator-activity:issuing-rounds,
+-- app-activity:issuing-rounds); the shared one is no longer read.
+-- ============================================
+DELETE FROM public.ledger_sync_cursors WHERE name = 'issuing-rounds';